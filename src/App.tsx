@@ -6,6 +6,7 @@ import ErrorBoundary from './components/ErrorBoundary';
 import LoginForm from './components/Auth/LoginForm';
 import Navigation from './components/Layout/Navigation';
 import MobileNav from './components/Layout/MobileNav';
+import OfflineBanner from './components/Layout/OfflineBanner';
 import './lib/supabaseClient'; // ✅ This ensures it initializes
 
 
@@ -23,6 +24,13 @@ import VisitDetails from './components/Visits/VisitDetails';
 // Appointments
 import AppointmentCalendar from './components/Appointments/AppointmentCalendar';
 
+// Online Booking
+import OnlineBooking from './components/Booking/OnlineBooking';
+
+// Token Queue
+import QueueBoard from './components/Queue/QueueBoard';
+import TokenDisplay from './components/Queue/TokenDisplay';
+
 // Follow-ups
 import FollowUps from './components/FollowUps/FollowUps';
 
@@ -39,6 +47,9 @@ import InvoiceUpload from './components/Pharmacy/InvoiceUpload';
 
 // Analytics & Reports
 import Analytics from './components/Analytics/Analytics';
+import DoctorRevenueReport from './components/Analytics/DoctorRevenueReport';
+import DoctorPayouts from './components/Billing/DoctorPayouts';
+import CashierShifts from './components/Billing/CashierShifts';
 
 // Settings
 import Settings from './components/Settings/Settings';
@@ -149,6 +160,7 @@ const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
       {/* Main Content */}
       <div className="lg:ml-64 pt-16 lg:pt-0">
         <main className="p-6 lg:p-8">
+          <OfflineBanner />
           {children}
         </main>
       </div>
@@ -162,6 +174,7 @@ const AppContent: React.FC = () => {
     <Routes>
       {/* Public Routes */}
       <Route path="/login" element={<LoginForm />} />
+      <Route path="/book/:clinicId" element={<OnlineBooking />} />
       
       {/* Protected Routes */}
       <Route path="/" element={
@@ -181,6 +194,22 @@ const AppContent: React.FC = () => {
         </ProtectedRoute>
       } />
       
+      {/* Token Queue */}
+      <Route path="/queue" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <QueueBoard />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      
+      {/* Waiting room display - full screen, no navigation */}
+      <Route path="/queue/display" element={
+        <ProtectedRoute>
+          <TokenDisplay />
+        </ProtectedRoute>
+      } />
+      
       {/* Visits */}
       <Route path="/visits" element={
         <ProtectedRoute>
@@ -252,6 +281,24 @@ const AppContent: React.FC = () => {
         </ProtectedRoute>
       } />
       
+      {/* Cashier Shifts */}
+      <Route path="/billing/shifts" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <CashierShifts />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      
+      {/* Doctor Payouts */}
+      <Route path="/billing/payouts" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <DoctorPayouts />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      
       {/* Pharmacy */}
       <Route path="/pharmacy" element={
         <ProtectedRoute>
@@ -319,6 +366,14 @@ const AppContent: React.FC = () => {
         </ProtectedRoute>
       } />
       
+      <Route path="/analytics/doctors" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <DoctorRevenueReport />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      
       {/* Settings */}
       <Route path="/settings" element={
         <ProtectedRoute>
@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { differenceInCalendarDays } from 'date-fns';
 import { 
   Users, 
   Calendar, 
@@ -6,23 +8,114 @@ import {
   TrendingUp, 
   Activity,
   Pill,
-  BarChart3
+  BarChart3,
+  Stethoscope
 } from 'lucide-react';
-import { mockAnalytics } from '../../services/mockData';
+import { useAuth } from '../Auth/useAuth';
+import { analyticsService } from '../../services/analyticsService';
+import { AnalyticsData, AnalyticsPeriod } from '../../types';
+import { ANALYTICS_PERIODS, formatHourRange, percentChange } from '../../utils/analytics';
+
+// "+12% from last month" style label; green when the change is good news
+const ChangeLabel: React.FC<{ current: number; previous: number; suffix: string; className?: string }> = ({ current, previous, suffix, className = 'text-sm mt-1' }) => {
+  const change = percentChange(current, previous);
+  if (change === null) {
+    return <p className={`${className} text-gray-500`}>No data for {suffix}</p>;
+  }
+  return (
+    <p className={`${className} ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {change >= 0 ? '+' : ''}{change}% from {suffix}
+    </p>
+  );
+};
 
 const Analytics: React.FC = () => {
-  const analytics = mockAnalytics;
+  const { user } = useAuth();
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30d');
+  const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadAnalytics(period);
+    }
+  }, [user, period]);
+
+  const loadAnalytics = async (selectedPeriod: AnalyticsPeriod) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setAnalytics(await analyticsService.getAnalytics(selectedPeriod));
+    } catch (err) {
+      console.error('Error loading analytics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const periodSelector = (
+    <select
+      value={period}
+      onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}
+      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    >
+      {ANALYTICS_PERIODS.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+
+  if (loading && !analytics) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading analytics...</p>
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-red-600 mb-4">{error}</div>
+        <button
+          onClick={() => loadAnalytics(period)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const periodOption = ANALYTICS_PERIODS.find(option => option.value === analytics.period) || ANALYTICS_PERIODS[0];
+  const { previous } = analytics;
+  const days = Math.max(differenceInCalendarDays(analytics.periodEnd, analytics.periodStart), 1);
+  const avgDailyVisits = analytics.totalVisits / days;
+  const previousAvgDailyVisits = previous.totalVisits / days;
+  const avgBillAmount = analytics.billCount > 0 ? analytics.billedAmount / analytics.billCount : 0;
+  const previousAvgBillAmount = previous.billCount > 0 ? previous.billedAmount / previous.billCount : 0;
+  const revenuePerVisit = analytics.totalVisits > 0 ? analytics.revenue / analytics.totalVisits : 0;
+  const previousRevenuePerVisit = previous.totalVisits > 0 ? previous.revenue / previous.totalVisits : 0;
+  const followUpRate = analytics.followUpsDue > 0 ? Math.round((analytics.followUpsKept / analytics.followUpsDue) * 100) : null;
+  const previousFollowUpRate = previous.followUpsDue > 0 ? Math.round((previous.followUpsKept / previous.followUpsDue) * 100) : null;
+  const maxTrendVisits = Math.max(...analytics.visitTrend.map(point => point.visits), 1);
+  const maxDiagnosisCount = Math.max(...analytics.topDiagnoses.map(diagnosis => diagnosis.count), 1);
+  const maxMedicineCount = Math.max(...analytics.topMedicines.map(medicine => medicine.count), 1);
 
   return (
-    <div className="space-y-6">
+    <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-800">Analytics Dashboard</h2>
-        <select className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent">
-          <option>Last 30 Days</option>
-          <option>Last 3 Months</option>
-          <option>Last 6 Months</option>
-          <option>Last Year</option>
-        </select>
+        <div className="flex items-center gap-3">
+          <Link to="/analytics/doctors" className="flex items-center gap-2 secondary-button">
+            <Stethoscope className="w-4 h-4" />
+            Doctor Revenue
+          </Link>
+          {periodSelector}
+        </div>
       </div>
 
       {/* Key Metrics */}
@@ -32,7 +125,7 @@ const Analytics: React.FC = () => {
             <div>
               <p className="text-sm text-gray-600">Total Patients</p>
               <p className="text-3xl font-bold text-blue-600">{analytics.totalPatients}</p>
-              <p className="text-sm text-green-600 mt-1">+12% from last month</p>
+              <ChangeLabel current={analytics.totalPatients} previous={previous.totalPatients} suffix={periodOption.comparisonLabel} />
             </div>
             <Users className="w-12 h-12 text-blue-600" />
           </div>
@@ -43,7 +136,7 @@ const Analytics: React.FC = () => {
             <div>
               <p className="text-sm text-gray-600">Today's Visits</p>
               <p className="text-3xl font-bold text-green-600">{analytics.todayVisits}</p>
-              <p className="text-sm text-green-600 mt-1">+8% from yesterday</p>
+              <ChangeLabel current={analytics.todayVisits} previous={analytics.yesterdayVisits} suffix="yesterday" />
             </div>
             <Calendar className="w-12 h-12 text-green-600" />
           </div>
@@ -52,9 +145,9 @@ const Analytics: React.FC = () => {
         <div className="bg-white p-6 rounded-lg shadow-md">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Total Visits</p>
+              <p className="text-sm text-gray-600">Visits ({periodOption.label})</p>
               <p className="text-3xl font-bold text-purple-600">{analytics.totalVisits}</p>
-              <p className="text-sm text-green-600 mt-1">+15% from last month</p>
+              <ChangeLabel current={analytics.totalVisits} previous={previous.totalVisits} suffix={periodOption.comparisonLabel} />
             </div>
             <FileText className="w-12 h-12 text-purple-600" />
           </div>
@@ -64,8 +157,8 @@ const Analytics: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">Avg. Daily Visits</p>
-              <p className="text-3xl font-bold text-orange-600">18</p>
-              <p className="text-sm text-green-600 mt-1">+5% from last week</p>
+              <p className="text-3xl font-bold text-orange-600">{avgDailyVisits.toFixed(1)}</p>
+              <ChangeLabel current={avgDailyVisits} previous={previousAvgDailyVisits} suffix={periodOption.comparisonLabel} />
             </div>
             <TrendingUp className="w-12 h-12 text-orange-600" />
           </div>
@@ -77,22 +170,24 @@ const Analytics: React.FC = () => {
         {/* Monthly Visits Chart */}
         <div className="bg-white p-6 rounded-lg shadow-md">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-800">Monthly Visits</h3>
+            <h3 className="text-lg font-semibold text-gray-800">
+              {periodOption.bucket === 'month' ? 'Monthly Visits' : 'Weekly Visits'}
+            </h3>
             <BarChart3 className="w-5 h-5 text-gray-400" />
           </div>
           <div className="space-y-3">
-            {analytics.monthlyVisits.map((month, index) => (
-              <div key={month.month} className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">{month.month}</span>
+            {analytics.visitTrend.map(point => (
+              <div key={point.label} className="flex items-center justify-between">
+                <span className="text-sm text-gray-600 min-w-[4.5rem]">{point.label}</span>
                 <div className="flex items-center gap-2 flex-1 mx-4">
                   <div className="flex-1 bg-gray-200 rounded-full h-2">
                     <div 
                       className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${(month.visits / 65) * 100}%` }}
+                      style={{ width: `${(point.visits / maxTrendVisits) * 100}%` }}
                     />
                   </div>
                   <span className="text-sm font-medium text-gray-800 min-w-[2rem]">
-                    {month.visits}
+                    {point.visits}
                   </span>
                 </div>
               </div>
@@ -107,6 +202,9 @@ const Analytics: React.FC = () => {
             <Activity className="w-5 h-5 text-gray-400" />
           </div>
           <div className="space-y-3">
+            {analytics.topDiagnoses.length === 0 && (
+              <p className="text-sm text-gray-500">No diagnoses recorded in this period</p>
+            )}
             {analytics.topDiagnoses.map((diagnosis, index) => (
               <div key={diagnosis.name} className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
@@ -127,7 +225,7 @@ const Analytics: React.FC = () => {
                         index === 2 ? 'bg-yellow-500' : 
                         index === 3 ? 'bg-green-500' : 'bg-blue-500'
                       }`}
-                      style={{ width: `${(diagnosis.count / 50) * 100}%` }}
+                      style={{ width: `${(diagnosis.count / maxDiagnosisCount) * 100}%` }}
                     />
                   </div>
                   <span className="text-sm font-medium text-gray-800 min-w-[2rem]">
@@ -149,6 +247,9 @@ const Analytics: React.FC = () => {
             <Pill className="w-5 h-5 text-gray-400" />
           </div>
           <div className="space-y-3">
+            {analytics.topMedicines.length === 0 && (
+              <p className="text-sm text-gray-500">No prescriptions recorded in this period</p>
+            )}
             {analytics.topMedicines.map((medicine, index) => (
               <div key={medicine.name} className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
@@ -169,7 +270,7 @@ const Analytics: React.FC = () => {
                         index === 2 ? 'bg-yellow-500' : 
                         index === 3 ? 'bg-purple-500' : 'bg-pink-500'
                       }`}
-                      style={{ width: `${(medicine.count / 70) * 100}%` }}
+                      style={{ width: `${(medicine.count / maxMedicineCount) * 100}%` }}
                     />
                   </div>
                   <span className="text-sm font-medium text-gray-800 min-w-[2rem]">
@@ -190,26 +291,26 @@ const Analytics: React.FC = () => {
           <div className="space-y-4">
             <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
               <div>
-                <p className="text-sm text-gray-600">Today's Revenue</p>
-                <p className="text-2xl font-bold text-blue-600">₹12,450</p>
+                <p className="text-sm text-gray-600">Collections</p>
+                <p className="text-2xl font-bold text-blue-600">₹{Math.round(analytics.revenue).toLocaleString('en-IN')}</p>
               </div>
-              <div className="text-green-600">+18%</div>
+              <ChangeLabel current={analytics.revenue} previous={previous.revenue} suffix={periodOption.comparisonLabel} className="text-sm text-right" />
             </div>
             
             <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
               <div>
-                <p className="text-sm text-gray-600">Monthly Revenue</p>
-                <p className="text-2xl font-bold text-green-600">₹2,85,600</p>
+                <p className="text-sm text-gray-600">Avg. Bill Amount</p>
+                <p className="text-2xl font-bold text-green-600">₹{Math.round(avgBillAmount).toLocaleString('en-IN')}</p>
               </div>
-              <div className="text-green-600">+12%</div>
+              <ChangeLabel current={avgBillAmount} previous={previousAvgBillAmount} suffix={periodOption.comparisonLabel} className="text-sm text-right" />
             </div>
             
             <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
               <div>
-                <p className="text-sm text-gray-600">Avg. Consultation Fee</p>
-                <p className="text-2xl font-bold text-purple-600">₹350</p>
+                <p className="text-sm text-gray-600">Collections per Visit</p>
+                <p className="text-2xl font-bold text-purple-600">₹{Math.round(revenuePerVisit).toLocaleString('en-IN')}</p>
               </div>
-              <div className="text-green-600">+5%</div>
+              <ChangeLabel current={revenuePerVisit} previous={previousRevenuePerVisit} suffix={periodOption.comparisonLabel} className="text-sm text-right" />
             </div>
           </div>
         </div>
@@ -224,7 +325,10 @@ const Analytics: React.FC = () => {
               <Users className="w-5 h-5 text-blue-600" />
               <span className="font-medium text-blue-800">New Patients</span>
             </div>
-            <p className="text-sm text-gray-600">45 new patients registered this month</p>
+            <p className="text-sm text-gray-600">
+              {analytics.newPatients} first-time and {analytics.returningPatients} returning patients seen; {analytics.registeredPatients} registered
+            </p>
+            <ChangeLabel current={analytics.newPatients} previous={previous.newPatients} suffix={periodOption.comparisonLabel} />
           </div>
           
           <div className="p-4 bg-green-50 rounded-lg">
@@ -232,15 +336,28 @@ const Analytics: React.FC = () => {
               <Calendar className="w-5 h-5 text-green-600" />
               <span className="font-medium text-green-800">Peak Hours</span>
             </div>
-            <p className="text-sm text-gray-600">Most visits between 10 AM - 12 PM</p>
+            <p className="text-sm text-gray-600">
+              {analytics.peakHour !== undefined
+                ? `Most visits between ${formatHourRange(analytics.peakHour)}`
+                : 'No visits in this period'}
+            </p>
           </div>
           
           <div className="p-4 bg-yellow-50 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <TrendingUp className="w-5 h-5 text-yellow-600" />
-              <span className="font-medium text-yellow-800">Growth</span>
+              <span className="font-medium text-yellow-800">Follow-up Compliance</span>
             </div>
-            <p className="text-sm text-gray-600">25% increase in follow-up compliance</p>
+            <p className="text-sm text-gray-600">
+              {followUpRate !== null
+                ? `${followUpRate}% of ${analytics.followUpsDue} follow-ups due were kept`
+                : 'No follow-ups fell due in this period'}
+            </p>
+            {followUpRate !== null && previousFollowUpRate !== null && (
+              <p className={`text-sm mt-1 ${followUpRate >= previousFollowUpRate ? 'text-green-600' : 'text-red-600'}`}>
+                {followUpRate >= previousFollowUpRate ? '+' : ''}{followUpRate - previousFollowUpRate} points from {periodOption.comparisonLabel}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { addDays, endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, FileText, Stethoscope } from 'lucide-react';
+import { useAuth } from '../Auth/useAuth';
+import { reportService } from '../../services/reportService';
+import { pdfService } from '../../services/pdfService';
+import { DoctorRevenueRow } from '../../types';
+import { downloadCsv, toCsv } from '../../utils/csv';
+import { averageBillValue, doctorRevenueCsvRows, followUpConversion, totalDoctorRevenueRows } from '../../utils/doctorReport';
+
+type ReportPreset = 'this_month' | 'last_month' | 'last_3_months' | 'custom';
+
+const toInputDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const presetRange = (preset: Exclude<ReportPreset, 'custom'>): { from: string; to: string } => {
+  const today = new Date();
+  switch (preset) {
+    case 'last_month': {
+      const lastMonth = subMonths(today, 1);
+      return { from: toInputDate(startOfMonth(lastMonth)), to: toInputDate(endOfMonth(lastMonth)) };
+    }
+    case 'last_3_months':
+      return { from: toInputDate(startOfMonth(subMonths(today, 2))), to: toInputDate(today) };
+    default:
+      return { from: toInputDate(startOfMonth(today)), to: toInputDate(today) };
+  }
+};
+
+const money = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+
+const DoctorRevenueReport: React.FC = () => {
+  const { user } = useAuth();
+  const [preset, setPreset] = useState<ReportPreset>('this_month');
+  const [range, setRange] = useState(presetRange('this_month'));
+  const [rows, setRows] = useState<DoctorRevenueRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exportingPdf, setExportingPdf] = useState(false);
+
+  useEffect(() => {
+    if (user && range.from && range.to && range.from <= range.to) {
+      loadReport();
+    }
+  }, [user, range]);
+
+  const loadReport = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // The end date is inclusive in the form, exclusive in the query
+      const start = new Date(`${range.from}T00:00:00`);
+      const end = addDays(new Date(`${range.to}T00:00:00`), 1);
+      setRows(await reportService.getDoctorRevenueReport(start, end));
+    } catch (err) {
+      console.error('Error loading doctor revenue report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePresetChange = (value: ReportPreset) => {
+    setPreset(value);
+    if (value !== 'custom') {
+      setRange(presetRange(value));
+    }
+  };
+
+  const periodLabel = `${format(new Date(`${range.from}T00:00:00`), 'dd MMM yyyy')} to ${format(new Date(`${range.to}T00:00:00`), 'dd MMM yyyy')}`;
+  const total = totalDoctorRevenueRows(rows);
+
+  const handleExportCsv = () => {
+    downloadCsv(toCsv(doctorRevenueCsvRows(rows)), `doctor-revenue-${range.from}-to-${range.to}.csv`);
+  };
+
+  const handleExportPdf = async () => {
+    if (!user?.clinic) return;
+
+    try {
+      setExportingPdf(true);
+      const pdfUrl = await pdfService.generatePdfFromData('doctor_revenue_report', {
+        clinicSettings: user.clinic,
+        doctorRevenueReport: { periodLabel, rows, total }
+      });
+      window.open(pdfUrl, '_blank');
+    } catch (err) {
+      console.error('Error exporting doctor revenue report:', err);
+      alert('Failed to export PDF. Please try again.');
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  const renderRow = (row: DoctorRevenueRow, isTotal = false) => {
+    const conversion = followUpConversion(row);
+    return (
+      <tr key={isTotal ? 'total' : row.doctorId || 'unlinked'} className={isTotal ? 'bg-blue-50 font-semibold' : 'hover:bg-gray-50'}>
+        <td className="px-4 py-3 text-sm text-gray-900">
+          {row.doctorId || isTotal ? row.doctorName : <span className="italic text-gray-500">{row.doctorName}</span>}
+        </td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">
+          {row.visitCount}
+          <div className="text-xs text-gray-500">{row.patientCount} patients</div>
+        </td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">
+          {money(row.consultationAmount)}
+          <div className="text-xs text-gray-500">{row.consultationCount} consultations</div>
+        </td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">
+          {money(row.procedureAmount)}
+          <div className="text-xs text-gray-500">{row.procedureCount} procedures</div>
+        </td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">{money(row.pharmacyAmount)}</td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">{money(row.otherAmount)}</td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">
+          {money(row.billedAmount)}
+          <div className="text-xs text-gray-500">{row.billCount} bills</div>
+        </td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">{money(averageBillValue(row))}</td>
+        <td className="px-4 py-3 text-sm text-right text-green-700">{money(row.collectedAmount)}</td>
+        <td className="px-4 py-3 text-sm text-right text-red-600">{money(row.outstandingAmount)}</td>
+        <td className="px-4 py-3 text-sm text-right text-gray-900">
+          {conversion !== null ? `${conversion}%` : '-'}
+          <div className="text-xs text-gray-500">{row.followUpsKept} of {row.followUpsDue} due</div>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Link to="/analytics" className="text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <h2 className="text-2xl font-bold text-gray-800">Doctor Revenue & Productivity</h2>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportCsv}
+            disabled={loading || rows.length === 0}
+            className="flex items-center gap-2 secondary-button disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={handleExportPdf}
+            disabled={loading || rows.length === 0 || exportingPdf}
+            className="flex items-center gap-2 primary-button disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4" />
+            {exportingPdf ? 'Generating...' : 'Export PDF'}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow-md flex flex-col md:flex-row md:items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+          <select
+            value={preset}
+            onChange={(e) => handlePresetChange(e.target.value as ReportPreset)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="this_month">This Month</option>
+            <option value="last_month">Last Month</option>
+            <option value="last_3_months">Last 3 Months</option>
+            <option value="custom">Custom Range</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => { setPreset('custom'); setRange({ ...range, from: e.target.value }); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => { setPreset('custom'); setRange({ ...range, to: e.target.value }); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12">
+            <Stethoscope className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">No visits or bills in this period</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Doctor</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Visits</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Consultations</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Procedures</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Pharmacy</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Other</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Billed (Net)</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Avg Bill</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Collected</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Follow-up Conversion</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(row => renderRow(row))}
+                {renderRow(total, true)}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Bills are credited to the doctor of the visit they were raised for; bills without a visit are listed separately.
+        Item amounts are before credit notes, billed totals after. Follow-up conversion counts patients who came back
+        between three days before and a week after the advised date.
+      </p>
+    </div>
+  );
+};
+
+export default DoctorRevenueReport;
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, Clock, Plus, User, Phone, Edit, Trash2, Stethoscope, UserCheck, AlertTriangle, Heart, MessageCircle, Filter, ChevronLeft, ChevronRight, Activity, CheckCircle, XCircle } from 'lucide-react';
-import { Appointment, Patient, Profile } from '../../types';
+import { Calendar, Clock, Plus, User, Phone, Edit, Trash2, Stethoscope, UserCheck, AlertTriangle, Heart, MessageCircle, Filter, ChevronLeft, ChevronRight, Activity, CheckCircle, XCircle, Repeat } from 'lucide-react';
+import { Appointment, AvailabilityException, Patient, Profile, SeriesOccurrence } from '../../types';
 import { appointmentService } from '../../services/appointmentService';
+import { appointmentSeriesService } from '../../services/appointmentSeriesService';
+import { doctorAvailabilityService } from '../../services/doctorAvailabilityService';
+import { describeException, exceptionCoversDate } from '../../utils/availabilityExceptions';
 import { patientService } from '../../services/patientService';
 import { useAuth } from '../Auth/useAuth';
 import { supabase } from '../../lib/supabase';
@@ -10,6 +13,9 @@ import PatientModal from '../Patients/PatientModal';
 import AddVisitModal from '../Patients/AddVisitModal';
 import AppointmentMessageModal from './AppointmentMessageModal';
 import AppointmentCard from './AppointmentCard';
+import RecurrenceOptions from './RecurrenceOptions';
+import { RecurrenceFormValue, toRecurrenceRule } from '../../utils/recurrence';
+import SeriesOccurrenceList from './SeriesOccurrenceList';
 import { toTitleCase } from '../../utils/stringUtils';
 
 const AppointmentCalendar: React.FC = () => {
@@ -17,6 +23,7 @@ const AppointmentCalendar: React.FC = () => {
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [patients, setPatients] = useState<Patient[]>([]);
   const [doctors, setDoctors] = useState<Profile[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
   const [currentWeek, setCurrentWeek] = useState(new Date());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -56,6 +63,14 @@ const AppointmentCalendar: React.FC = () => {
       
       setAppointments(appointmentsData);
       setPatients(patientsData);
+
+      // Leave and holidays are used to flag bookings that need moving
+      try {
+        setExceptions(await doctorAvailabilityService.getExceptions(fourDayStart, fourDayEnd));
+      } catch (exceptionsError) {
+        console.error('Failed to load availability exceptions:', exceptionsError);
+        setExceptions([]);
+      }
       
       // Load doctors separately with better error handling
       try {
@@ -111,6 +126,12 @@ const AppointmentCalendar: React.FC = () => {
     }
   };
 
+  const rescheduleFlags = doctorAvailabilityService.getAppointmentsNeedingReschedule(appointments, exceptions);
+
+  const getHolidayForDay = (date: Date) => {
+    return exceptions.find(exception => exception.exceptionType === 'holiday' && exceptionCoversDate(exception, date));
+  };
+
   const getAppointmentsForDay = (date: Date) => {
     return appointments.filter(appointment => {
       const matchesDate = isSameDay(appointment.appointmentDate, date);
@@ -331,6 +352,20 @@ const AppointmentCalendar: React.FC = () => {
         </div>
       </div>
 
+      {rescheduleFlags.size > 0 && (
+        <div className="flex items-start gap-3 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+          <AlertTriangle className="w-5 h-5 text-orange-600 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium text-orange-800">
+              {rescheduleFlags.size} appointment{rescheduleFlags.size === 1 ? '' : 's'} need{rescheduleFlags.size === 1 ? 's' : ''} rescheduling
+            </p>
+            <p className="text-sm text-orange-700">
+              These fall on doctor leave, a clinic holiday or outside one-off hours. They are marked below.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Enhanced Calendar Grid */}
       <div className="grid grid-cols-4 gap-0 border border-gray-200 rounded-lg overflow-hidden bg-white shadow-md">
         {/* Week Day Headers */}
@@ -345,6 +380,11 @@ const AppointmentCalendar: React.FC = () => {
                   {format(day, 'd')}
                 </div>
               </div>
+              {getHolidayForDay(day) && (
+                <div className="text-xs text-red-600 mt-1 truncate" title={describeException(getHolidayForDay(day)!)}>
+                  {getHolidayForDay(day)!.reason || 'Holiday'}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -367,6 +407,7 @@ const AppointmentCalendar: React.FC = () => {
                     appointment={appointment}
                     onEdit={handleEditAppointment}
                     onSendMessage={handleSendMessage}
+                    rescheduleReason={rescheduleFlags.has(appointment.id) ? describeException(rescheduleFlags.get(appointment.id)!) : undefined}
                     hideActions={true}
                     className="text-xs md:text-sm"
                   />
@@ -536,6 +577,27 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
     notes: appointment?.notes || ''
   });
   const [saving, setSaving] = useState(false);
+  const [repeatEnabled, setRepeatEnabled] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>({
+    frequency: 'weekly',
+    weekdays: [1, 3, 5],
+    weeks: 4,
+    intervalDays: 3,
+    sessions: 10
+  });
+  const [editScope, setEditScope] = useState<'this' | 'following'>('this');
+  const [occurrencePreview, setOccurrencePreview] = useState<SeriesOccurrence[] | null>(null);
+  const [checkingAvailability, setCheckingAvailability] = useState(false);
+  const [includeConflicts, setIncludeConflicts] = useState(false);
+
+  // Any change to the schedule invalidates the availability check
+  useEffect(() => {
+    setOccurrencePreview(null);
+    setIncludeConflicts(false);
+  }, [formData.doctorId, formData.selectedDate, formData.selectedTime, formData.duration, repeatEnabled, recurrence, editScope]);
+
+  const isSeriesEdit = !!appointment?.seriesId && editScope === 'following';
+  const previewConflicts = occurrencePreview?.filter(occurrence => !occurrence.available).length || 0;
 
   // Filter patients based on search term
   const filteredPatients = patients.filter(patient =>
@@ -575,6 +637,67 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
     }
   };
 
+  // Where the appointment(s) would land, with the doctor's availability for each
+  const loadOccurrencePreview = async (): Promise<SeriesOccurrence[]> => {
+    const appointmentDateTime = new Date(`${formData.selectedDate}T${formData.selectedTime}`);
+
+    if (!appointment && repeatEnabled) {
+      return appointmentSeriesService.previewSeries({
+        doctorId: formData.doctorId,
+        startDate: appointmentDateTime,
+        duration: formData.duration,
+        rule: toRecurrenceRule(recurrence, appointmentDateTime)
+      });
+    }
+
+    if (appointment && isSeriesEdit) {
+      return appointmentSeriesService.previewFollowingChange(appointment, {
+        appointmentDate: appointmentDateTime,
+        duration: formData.duration,
+        doctorId: formData.doctorId
+      });
+    }
+
+    return appointmentSeriesService.checkOccurrences(
+      formData.doctorId,
+      [appointmentDateTime],
+      formData.duration,
+      appointment ? [appointment.id] : []
+    );
+  };
+
+  const handleCheckAvailability = async () => {
+    if (!formData.doctorId || !formData.selectedDate || !formData.selectedTime) {
+      alert('Select a doctor, date and time first');
+      return;
+    }
+
+    try {
+      setCheckingAvailability(true);
+      setOccurrencePreview(await loadOccurrencePreview());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to check availability');
+    } finally {
+      setCheckingAvailability(false);
+    }
+  };
+
+  const handleCancelFollowing = async () => {
+    if (!appointment) return;
+    if (!confirm('Cancel this and all following sessions in the series?')) return;
+
+    try {
+      setSaving(true);
+      const cancelled = await appointmentSeriesService.cancelFollowing(appointment);
+      alert(`${cancelled} session${cancelled === 1 ? '' : 's'} cancelled`);
+      onSave(appointment);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to cancel sessions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -594,7 +717,42 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
         notes: formData.notes
       };
 
-      if (appointment) {
+      // Show conflicts before saving whenever the schedule changes
+      const scheduleChanged = !appointment ||
+        appointment.appointmentDate.getTime() !== appointmentDateTime.getTime() ||
+        appointment.doctorId !== formData.doctorId ||
+        appointment.duration !== formData.duration;
+
+      if (scheduleChanged && !occurrencePreview) {
+        const preview = await loadOccurrencePreview();
+        if (preview.some(occurrence => !occurrence.available)) {
+          setOccurrencePreview(preview);
+          return;
+        }
+      }
+
+      if (!appointment && repeatEnabled) {
+        const series = await appointmentSeriesService.createSeries({
+          ...appointmentData,
+          startDate: appointmentDateTime,
+          rule: toRecurrenceRule(recurrence, appointmentDateTime)
+        }, includeConflicts);
+        alert(`${series.appointments?.length || 0} sessions booked`);
+      } else if (appointment && isSeriesEdit) {
+        await appointmentSeriesService.updateFollowing(appointment, {
+          appointmentDate: appointmentDateTime,
+          duration: formData.duration,
+          doctorId: formData.doctorId,
+          appointmentType: formData.appointmentType
+        });
+        // Status and notes only ever apply to the occurrence being edited
+        if (appointment.status !== formData.status || (appointment.notes || '') !== (formData.notes || '')) {
+          await appointmentService.updateAppointment(appointment.id, {
+            status: formData.status,
+            notes: formData.notes
+          });
+        }
+      } else if (appointment) {
         await appointmentService.updateAppointment(appointment.id, appointmentData);
       } else {
         await appointmentService.addAppointment(appointmentData);
@@ -603,12 +761,25 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
       onSave(appointmentData);
     } catch (error) {
       console.error('Error saving appointment:', error);
-      alert('Failed to save appointment');
+      alert(error instanceof Error ? error.message : 'Failed to save appointment');
     } finally {
       setSaving(false);
     }
   };
 
+  const getSubmitLabel = () => {
+    if (saving) return 'Saving...';
+    if (previewConflicts > 0) {
+      if (!appointment && repeatEnabled) {
+        return includeConflicts
+          ? `Book All ${occurrencePreview!.length}`
+          : `Book ${occurrencePreview!.length - previewConflicts} Available`;
+      }
+      return 'Save Anyway';
+    }
+    return appointment ? 'Update' : 'Create';
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -822,6 +993,86 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
             />
           </div>
 
+          {/* Recurring series */}
+          {!appointment && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={repeatEnabled}
+                  onChange={(e) => setRepeatEnabled(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                />
+                <Repeat className="w-4 h-4 text-purple-600" />
+                Repeat (treatment series)
+              </label>
+              {repeatEnabled && (
+                <RecurrenceOptions value={recurrence} onChange={setRecurrence} />
+              )}
+            </div>
+          )}
+
+          {appointment?.seriesId && (
+            <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg space-y-2">
+              <p className="flex items-center gap-2 text-sm font-medium text-purple-800">
+                <Repeat className="w-4 h-4" />
+                Session #{appointment.seriesIndex} of a recurring series
+              </p>
+              <div className="flex gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={editScope === 'this'}
+                    onChange={() => setEditScope('this')}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  This session only
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={editScope === 'following'}
+                    onChange={() => setEditScope('following')}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  This and following
+                </label>
+              </div>
+              <button
+                type="button"
+                onClick={handleCancelFollowing}
+                disabled={saving}
+                className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Cancel this and following sessions
+              </button>
+            </div>
+          )}
+
+          {/* Availability */}
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={handleCheckAvailability}
+              disabled={checkingAvailability}
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+            >
+              {checkingAvailability ? 'Checking...' : 'Check Availability'}
+            </button>
+            {occurrencePreview && <SeriesOccurrenceList occurrences={occurrencePreview} />}
+            {previewConflicts > 0 && !appointment && repeatEnabled && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeConflicts}
+                  onChange={(e) => setIncludeConflicts(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                />
+                Also book the conflicting sessions
+              </label>
+            )}
+          </div>
+
           <div className="flex justify-end gap-3 pt-4">
             {appointment && formData.status === 'Completed' && selectedPatient && (
               <button
@@ -844,7 +1095,7 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
               disabled={saving}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
             >
-              {saving ? 'Saving...' : appointment ? 'Update' : 'Create'}
+              {getSubmitLabel()}
             </button>
           </div>
         </form>
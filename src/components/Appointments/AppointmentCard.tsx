@@ -1,5 +1,5 @@
 import React from 'react';
-import { Edit, MessageCircle, Phone, Calendar, User, Stethoscope, UserCheck, AlertTriangle, Heart, Clock, CheckCircle, XCircle, Activity } from 'lucide-react';
+import { Edit, MessageCircle, Phone, Calendar, User, Stethoscope, UserCheck, AlertTriangle, Heart, Clock, CheckCircle, XCircle, Activity, Repeat, Globe } from 'lucide-react';
 import { Appointment } from '../../types';
 import { format } from 'date-fns';
 import { toTitleCase } from '../../utils/stringUtils';
@@ -10,6 +10,7 @@ interface AppointmentCardProps {
   onSendMessage: (appointment: Appointment) => void;
   className?: string;
   hideActions?: boolean;
+  rescheduleReason?: string; // Set when the slot is now blocked by leave or a holiday
 }
 
 const getAppointmentTypeIcon = (appointmentType: Appointment['appointmentType']) => {
@@ -70,7 +71,8 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
   onEdit,
   onSendMessage,
   className = '',
-  hideActions = false
+  hideActions = false,
+  rescheduleReason
 }) => {
   const handleEdit = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -83,7 +85,13 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
   };
 
   return (
-    <div className={`appointment-card ${className}`}>
+    <div className={`appointment-card ${rescheduleReason ? 'ring-2 ring-orange-400' : ''} ${className}`}>
+      {rescheduleReason && (
+        <div className="flex items-center gap-1 mb-2 px-2 py-1 bg-orange-50 text-orange-700 text-xs rounded" title={rescheduleReason}>
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">Reschedule: {rescheduleReason}</span>
+        </div>
+      )}
       {/* Time and Status Row */}
       <div className="flex items-center justify-between mb-3">
         <span className="appointment-card-time">
@@ -112,6 +120,21 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
         <span className="appointment-card-type">
           {appointment.appointmentType.replace('_', ' ').toLowerCase()}
         </span>
+        {appointment.bookedOnline && (
+          <span
+            className="flex items-center gap-1 ml-auto text-xs text-teal-600"
+            title={appointment.status === 'Scheduled' ? 'Booked online - awaiting confirmation' : 'Booked online'}
+          >
+            <Globe className="w-3 h-3" />
+            Online
+          </span>
+        )}
+        {appointment.seriesId && (
+          <span className="flex items-center gap-1 ml-auto text-xs text-purple-600" title="Part of a recurring series">
+            <Repeat className="w-3 h-3" />
+            #{appointment.seriesIndex}
+          </span>
+        )}
       </div>
 
       {/* Doctor Information (if available) */}
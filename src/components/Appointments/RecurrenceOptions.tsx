@@ -0,0 +1,97 @@
+import React from 'react';
+import { RecurrenceFormValue, WEEKDAY_LABELS } from '../../utils/recurrence';
+
+interface RecurrenceOptionsProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+}
+
+const RecurrenceOptions: React.FC<RecurrenceOptionsProps> = ({ value, onChange }) => {
+  const toggleWeekday = (day: number) => {
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter(d => d !== day)
+      : [...value.weekdays, day].sort();
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-purple-50 border border-purple-200 rounded-lg">
+      <div className="flex gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={value.frequency === 'weekly'}
+            onChange={() => onChange({ ...value, frequency: 'weekly' })}
+            className="text-blue-600 focus:ring-blue-500"
+          />
+          On weekdays
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={value.frequency === 'interval'}
+            onChange={() => onChange({ ...value, frequency: 'interval' })}
+            className="text-blue-600 focus:ring-blue-500"
+          />
+          Every few days
+        </label>
+      </div>
+
+      {value.frequency === 'weekly' ? (
+        <>
+          <div className="flex flex-wrap gap-1">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`px-2 py-1 text-xs rounded-md border transition-colors ${
+                  value.weekdays.includes(day)
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-700">for</span>
+            <input
+              type="number"
+              min="1"
+              max="26"
+              value={value.weeks}
+              onChange={(e) => onChange({ ...value, weeks: parseInt(e.target.value) || 1 })}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-gray-700">weeks</span>
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="number"
+            min="1"
+            max="60"
+            value={value.sessions}
+            onChange={(e) => onChange({ ...value, sessions: parseInt(e.target.value) || 1 })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-700">sessions, every</span>
+          <input
+            type="number"
+            min="1"
+            max="90"
+            value={value.intervalDays}
+            onChange={(e) => onChange({ ...value, intervalDays: parseInt(e.target.value) || 1 })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-700">days</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceOptions;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { SeriesOccurrence } from '../../types';
+
+interface SeriesOccurrenceListProps {
+  occurrences: SeriesOccurrence[];
+}
+
+const SeriesOccurrenceList: React.FC<SeriesOccurrenceListProps> = ({ occurrences }) => {
+  const conflictCount = occurrences.filter(occurrence => !occurrence.available).length;
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <div className={`px-3 py-2 text-sm font-medium border-b ${conflictCount > 0 ? 'bg-orange-50 text-orange-800 border-orange-200' : 'bg-green-50 text-green-800 border-green-200'}`}>
+        {conflictCount > 0
+          ? `${conflictCount} of ${occurrences.length} session${occurrences.length === 1 ? '' : 's'} conflict`
+          : `All ${occurrences.length} session${occurrences.length === 1 ? ' is' : 's are'} available`}
+      </div>
+      <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+        {occurrences.map(occurrence => (
+          <div key={occurrence.seriesIndex} className="flex items-start gap-2 px-3 py-2 text-sm">
+            {occurrence.available ? (
+              <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+            ) : (
+              <AlertTriangle className="w-4 h-4 text-orange-600 mt-0.5 flex-shrink-0" />
+            )}
+            <div>
+              <span className="text-gray-900">
+                {occurrences.length > 1 && `#${occurrence.seriesIndex} · `}
+                {format(occurrence.appointmentDate, 'EEE, MMM dd, yyyy h:mm a')}
+              </span>
+              {occurrence.conflict && (
+                <p className="text-xs text-orange-700">{occurrence.conflict}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesOccurrenceList;
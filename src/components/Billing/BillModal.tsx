@@ -11,6 +11,7 @@ import { supabase } from '../../lib/supabase';
 import { useAuth } from '../Auth/useAuth';
 import { toTitleCase } from '../../utils/stringUtils';
 import { pdfService } from '../../services/pdfService';
+import { applyLineTax, getLineTaxAmount, summarizeTaxByRate } from '../../utils/gstCalculator';
 
 interface BillModalProps {
   bill?: any | null;
@@ -60,6 +61,7 @@ const BillModal: React.FC<BillModalProps> = ({
   const [saving, setSaving] = useState(false);
   const [exportingPDF, setExportingPDF] = useState(false);
   const [fullPayment, setFullPayment] = useState(false);
+  const [isInterState, setIsInterState] = useState(false);
   const [saveProgress, setSaveProgress] = useState('');
   const [progressStep, setProgressStep] = useState(0);
 
@@ -141,6 +143,11 @@ const BillModal: React.FC<BillModalProps> = ({
     calculateTotals();
   }, [billItems]);
 
+  // Re-split GST between CGST/SGST and IGST when the supply type changes
+  useEffect(() => {
+    setBillItems(prev => prev.map(item => applyLineTax(item, isInterState)));
+  }, [isInterState]);
+
   const loadInitialData = async () => {
     try {
       setLoading(true);
@@ -218,6 +225,7 @@ const BillModal: React.FC<BillModalProps> = ({
       notes: bill.notes || ''
     });
     setBillItems(bill.billItems || []);
+    setIsInterState(bill.isInterState || false);
     setSelectedPatient(bill.patient || null);
     setCurrentVisitId(bill.visitId);
     
@@ -257,29 +265,68 @@ const BillModal: React.FC<BillModalProps> = ({
     initializeBillItems();
   };
 
+  // GST rate and HSN/SAC code for a line, from master data or clinic settings
+  const getItemTaxDefaults = (itemType: BillItem['itemType'], itemName: string, medicineId?: string) => {
+    if (itemType === 'consultation') {
+      const clinic = user?.clinic;
+      return {
+        tax: clinic?.consultationTaxExempt === false ? clinic.consultationGstRate || 0 : 0,
+        hsnSacCode: clinic?.consultationSacCode || '999312'
+      };
+    }
+
+    if (itemType === 'medicine') {
+      const medicine = medicines.find(m =>
+        (medicineId && m.id === medicineId) ||
+        m.name.toLowerCase() === itemName.toLowerCase() ||
+        m.genericName?.toLowerCase() === itemName.toLowerCase() ||
+        m.brandName?.toLowerCase() === itemName.toLowerCase()
+      );
+      if (medicine) {
+        return { tax: medicine.gstRate || 0, hsnSacCode: medicine.hsnCode };
+      }
+    }
+
+    if (itemType === 'test') {
+      const test = tests.find(t => t.name.toLowerCase() === itemName.toLowerCase());
+      if (test) {
+        return { tax: test.gstRate || 0, hsnSacCode: test.sacCode };
+      }
+    }
+
+    return null;
+  };
+
   const initializeBillItems = () => {
     if (prefillItems && prefillItems.length > 0) {
-      const newItems = prefillItems.map((item) => ({
-        itemType: 'medicine' as const,
-        itemName: item.medicine?.name || item.medicineName || 'Medicine',
-        quantity: item.quantity || 1,
-        unitPrice: item.sellingPriceAtDispense || item.unitPrice || 0,
-        totalPrice: (item.quantity || 1) * (item.sellingPriceAtDispense || item.unitPrice || 0),
-        discount: 0,
-        tax: 0
-      }));
+      const newItems = prefillItems.map((item) => {
+        const itemName = item.medicine?.name || item.medicineName || 'Medicine';
+        const taxDefaults = getItemTaxDefaults('medicine', itemName, item.medicineId);
+        return applyLineTax({
+          itemType: 'medicine' as const,
+          itemName,
+          quantity: item.quantity || 1,
+          unitPrice: item.sellingPriceAtDispense || item.unitPrice || 0,
+          totalPrice: 0,
+          discount: 0,
+          tax: taxDefaults?.tax || 0,
+          hsnSacCode: taxDefaults?.hsnSacCode
+        }, isInterState);
+      });
       setBillItems(newItems);
     } else {
       // Add default consultation item
-      setBillItems([{
+      const taxDefaults = getItemTaxDefaults('consultation', 'Consultation');
+      setBillItems([applyLineTax({
         itemType: 'consultation' as const,
         itemName: 'Consultation',
         quantity: 1,
         unitPrice: 0,
         totalPrice: 0,
         discount: 0,
-        tax: 0
-      }]);
+        tax: taxDefaults?.tax || 0,
+        hsnSacCode: taxDefaults?.hsnSacCode
+      }, isInterState)]);
     }
   };
 
@@ -313,12 +360,11 @@ const BillModal: React.FC<BillModalProps> = ({
     
     setBillItems(prev => prev.map(item => {
       if (item.itemType === 'consultation') {
-        return {
+        return applyLineTax({
           ...item,
           itemName: doctor ? `Consultation - ${doctor.name}` : 'Consultation',
-          unitPrice: consultationFee,
-          totalPrice: consultationFee
-        };
+          unitPrice: consultationFee
+        }, isInterState);
       }
       return item;
     }));
@@ -335,6 +381,7 @@ const BillModal: React.FC<BillModalProps> = ({
   };
 
   const addNewItem = () => {
+    const taxDefaults = getItemTaxDefaults('consultation', '');
     const newItem = {
       itemType: 'consultation' as const,
       itemName: '',
@@ -342,7 +389,8 @@ const BillModal: React.FC<BillModalProps> = ({
       unitPrice: 0,
       totalPrice: 0,
       discount: 0,
-      tax: 0
+      tax: taxDefaults?.tax || 0,
+      hsnSacCode: taxDefaults?.hsnSacCode
     };
     setBillItems([...billItems, newItem]);
   };
@@ -376,14 +424,17 @@ const BillModal: React.FC<BillModalProps> = ({
           }
         }
         
-        // Always recalculate total price after any changes
-        const subtotal = updatedItem.quantity * updatedItem.unitPrice;
-        const discountAmount = subtotal * ((updatedItem.discount || 0) / 100);
-        const taxableAmount = subtotal - discountAmount;
-        const taxAmount = taxableAmount * ((updatedItem.tax || 0) / 100);
-        updatedItem.totalPrice = taxableAmount + taxAmount;
+        // Pick up the GST rate and HSN/SAC code for the item
+        if (field === 'itemName' || field === 'itemType') {
+          const taxDefaults = getItemTaxDefaults(updatedItem.itemType, updatedItem.itemName);
+          if (taxDefaults) {
+            updatedItem.tax = taxDefaults.tax;
+            updatedItem.hsnSacCode = taxDefaults.hsnSacCode;
+          }
+        }
         
-        return updatedItem;
+        // Always recalculate taxable value, tax components and total after any changes
+        return applyLineTax(updatedItem, isInterState);
       }
       return item;
     }));
@@ -494,6 +545,7 @@ const BillModal: React.FC<BillModalProps> = ({
         patientId: selectedPatient.id,
         totalAmount: formData.totalAmount,
         notes: formData.notes,
+        isInterState,
         billItems: billItems.map(item => ({
           itemType: item.itemType,
           itemName: item.itemName,
@@ -501,7 +553,8 @@ const BillModal: React.FC<BillModalProps> = ({
           unitPrice: item.unitPrice,
           totalPrice: item.totalPrice,
           discount: item.discount || 0,
-          tax: item.tax || 0
+          tax: item.tax || 0,
+          hsnSacCode: item.hsnSacCode || undefined
         }))
       };
 
@@ -659,7 +712,7 @@ const BillModal: React.FC<BillModalProps> = ({
           </div>
 
           {/* Bill Details */}
-          <div className="grid grid-cols-1 md:grid-cols-1 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Bill Date</label>
               <input
@@ -669,6 +722,21 @@ const BillModal: React.FC<BillModalProps> = ({
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
             </div>
+            <div className="flex items-end">
+              <div className="flex items-center gap-2 pb-2">
+                <input
+                  type="checkbox"
+                  id="isInterState"
+                  checked={isInterState}
+                  disabled={!!bill}
+                  onChange={(e) => setIsInterState(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                />
+                <label htmlFor="isInterState" className="text-sm text-gray-600 cursor-pointer">
+                  Inter-state supply (charge IGST instead of CGST + SGST)
+                </label>
+              </div>
+            </div>
           </div>
 
           {/* Bill Items */}
@@ -757,7 +825,7 @@ const BillModal: React.FC<BillModalProps> = ({
                     </div>
 
                     <div>
-                      <label className="block text-xs text-gray-600 mb-1">Tax %</label>
+                      <label className="block text-xs text-gray-600 mb-1">GST %</label>
                       <input
                         type="number"
                         min="0"
@@ -787,11 +855,75 @@ const BillModal: React.FC<BillModalProps> = ({
                       </button>
                     </div>
                   </div>
+
+                  <div className="flex flex-wrap items-center gap-3 mt-3 text-xs text-gray-600">
+                    <div className="flex items-center gap-2">
+                      <label>HSN/SAC</label>
+                      <input
+                        type="text"
+                        value={item.hsnSacCode || ''}
+                        onChange={(e) => updateItem(index, 'hsnSacCode', e.target.value)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <span>Taxable: ₹{(item.taxableValue ?? item.totalPrice).toFixed(2)}</span>
+                    {isInterState ? (
+                      <span>IGST: ₹{(item.igstAmount || 0).toFixed(2)}</span>
+                    ) : (
+                      <>
+                        <span>CGST: ₹{(item.cgstAmount || 0).toFixed(2)}</span>
+                        <span>SGST: ₹{(item.sgstAmount || 0).toFixed(2)}</span>
+                      </>
+                    )}
+                    {item.itemType === 'consultation' && (item.tax || 0) === 0 && (
+                      <span className="text-green-600">Exempt</span>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
           </div>
 
+          {/* GST Summary */}
+          {billItems.some(item => getLineTaxAmount(item) > 0) && (
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">GST Rate</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Taxable Value</th>
+                    {isInterState ? (
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">IGST</th>
+                    ) : (
+                      <>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">CGST</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">SGST</th>
+                      </>
+                    )}
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total Tax</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {summarizeTaxByRate(billItems).map(row => (
+                    <tr key={row.rate}>
+                      <td className="px-4 py-2">{row.rate}%</td>
+                      <td className="px-4 py-2 text-right">₹{row.taxableValue.toFixed(2)}</td>
+                      {isInterState ? (
+                        <td className="px-4 py-2 text-right">₹{row.igstAmount.toFixed(2)}</td>
+                      ) : (
+                        <>
+                          <td className="px-4 py-2 text-right">₹{row.cgstAmount.toFixed(2)}</td>
+                          <td className="px-4 py-2 text-right">₹{row.sgstAmount.toFixed(2)}</td>
+                        </>
+                      )}
+                      <td className="px-4 py-2 text-right font-medium">₹{row.taxAmount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Payment Details */}
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { IndianRupee, FileText, Calendar, Search, Plus, Eye, Edit } from 'lucide-react';
+import { IndianRupee, FileText, Calendar, Search, Plus, Eye, Edit, Ban, FileMinus, Clock } from 'lucide-react';
 import { Bill, Patient } from '../../types';
 import { billingService } from '../../services/billingService';
 import { patientService } from '../../services/patientService';
 import { useAuth } from '../Auth/useAuth';
 import { format } from 'date-fns';
 import BillModal from './BillModal';
+import VoidBillModal from './VoidBillModal';
+import CreditNoteModal from './CreditNoteModal';
 import { toTitleCase } from '../../utils/stringUtils';
+import { AgeingBucketKey, ageReceivables, getAgeingBucketKey, getDaysPastDue, isOpenBill } from '../../utils/receivables';
 
 const BillingDashboard: React.FC = () => {
   const { user } = useAuth();
@@ -15,7 +18,7 @@ const BillingDashboard: React.FC = () => {
   
   // Temporary filter states (for input fields)
   const [tempSearchTerm, setTempSearchTerm] = useState('');
-  const [tempStatusFilter, setTempStatusFilter] = useState<'all' | 'pending' | 'paid' | 'overdue'>('all');
+  const [tempStatusFilter, setTempStatusFilter] = useState<'all' | 'pending' | 'paid' | 'overdue' | 'cancelled'>('all');
   const [tempPaymentMethodFilter, setTempPaymentMethodFilter] = useState('');
   const [tempDoctorFilter, setTempDoctorFilter] = useState('');
   const [tempDateFromFilter, setTempDateFromFilter] = useState('');
@@ -23,16 +26,19 @@ const BillingDashboard: React.FC = () => {
   
   // Applied filter states (actually used for filtering)
   const [appliedSearchTerm, setAppliedSearchTerm] = useState('');
-  const [appliedStatusFilter, setAppliedStatusFilter] = useState<'all' | 'pending' | 'paid' | 'overdue'>('all');
+  const [appliedStatusFilter, setAppliedStatusFilter] = useState<'all' | 'pending' | 'paid' | 'overdue' | 'cancelled'>('all');
   const [appliedPaymentMethodFilter, setAppliedPaymentMethodFilter] = useState('');
   const [appliedDoctorFilter, setAppliedDoctorFilter] = useState('');
   const [appliedDateFromFilter, setAppliedDateFromFilter] = useState('');
   const [appliedDateToFilter, setAppliedDateToFilter] = useState('');
+  const [ageingFilter, setAgeingFilter] = useState<AgeingBucketKey | null>(null);
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showBillModal, setShowBillModal] = useState(false);
   const [selectedBill, setSelectedBill] = useState<Bill | null>(null);
+  const [voidingBill, setVoidingBill] = useState<Bill | null>(null);
+  const [creditNoteBillId, setCreditNoteBillId] = useState<string | null>(null);
   const [doctors, setDoctors] = useState<any[]>([]);
 
   useEffect(() => {
@@ -77,7 +83,9 @@ const BillingDashboard: React.FC = () => {
     const matchesDateFrom = !appliedDateFromFilter || billDate >= new Date(appliedDateFromFilter);
     const matchesDateTo = !appliedDateToFilter || billDate <= new Date(appliedDateToFilter);
     
-    return matchesSearch && matchesStatus && matchesPaymentMethod && matchesDoctor && matchesDateFrom && matchesDateTo;
+    const matchesAgeing = !ageingFilter || (isOpenBill(bill) && getAgeingBucketKey(getDaysPastDue(bill)) === ageingFilter);
+    
+    return matchesSearch && matchesStatus && matchesPaymentMethod && matchesDoctor && matchesDateFrom && matchesDateTo && matchesAgeing;
   });
 
   const getStatusColor = (status: Bill['paymentStatus']) => {
@@ -86,14 +94,17 @@ const BillingDashboard: React.FC = () => {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'partial': return 'bg-blue-100 text-blue-800';
       case 'overdue': return 'bg-red-100 text-red-800';
+      case 'cancelled': return 'bg-gray-200 text-gray-600 line-through';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
+  const activeBills = bills.filter(bill => bill.paymentStatus !== 'cancelled');
   const totalRevenue = bills.reduce((sum, bill) => sum + bill.paidAmount, 0);
-  const pendingAmount = bills.reduce((sum, bill) => sum + bill.balanceAmount, 0);
-  const totalBills = bills.length;
+  const pendingAmount = activeBills.reduce((sum, bill) => sum + bill.balanceAmount, 0);
+  const totalBills = activeBills.length;
   const paidBills = bills.filter(bill => bill.paymentStatus === 'paid').length;
+  const ageingBuckets = ageReceivables(bills);
 
   const applyFilters = () => {
     setAppliedSearchTerm(tempSearchTerm);
@@ -155,8 +166,8 @@ const BillingDashboard: React.FC = () => {
     // - Time-based restrictions (e.g., can't edit bills older than X days)
     // - User role restrictions (e.g., only bill creator can edit)
     
-    // For now, if user has edit permission, allow editing
-    return true;
+    // Void bills are kept for the audit trail and can no longer be changed
+    return bill.paymentStatus !== 'cancelled';
   };
 
   const handleBillSaved = () => {
@@ -165,6 +176,11 @@ const BillingDashboard: React.FC = () => {
     loadData(); // Reload data to show changes
   };
 
+  const handleBillVoided = () => {
+    setVoidingBill(null);
+    loadData();
+  };
+
   const getBillSource = (bill: Bill) => {
     return bill.visitId ? 'Visit' : 'Direct';
   };
@@ -262,6 +278,41 @@ const BillingDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Receivables Ageing */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Clock className="w-5 h-5 text-gray-600" />
+            <h3>Receivables Ageing</h3>
+          </div>
+          {ageingFilter && (
+            <button onClick={() => setAgeingFilter(null)} className="text-sm text-blue-600 hover:text-blue-800">
+              Show all bills
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {ageingBuckets.map((bucket, index) => (
+            <button
+              key={bucket.key}
+              onClick={() => setAgeingFilter(ageingFilter === bucket.key ? null : bucket.key)}
+              className={`text-left p-4 rounded-lg border transition-colors ${
+                ageingFilter === bucket.key ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <p className="text-sm text-gray-600">{bucket.label}</p>
+              <p className={`text-2xl font-bold ${['text-yellow-600', 'text-orange-600', 'text-red-600', 'text-red-800'][index]}`}>
+                ₹{bucket.amount.toLocaleString()}
+              </p>
+              <p className="text-xs text-gray-500">{bucket.count} {bucket.count === 1 ? 'bill' : 'bills'}</p>
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          Outstanding balances by days past the due date; bills without a due date are due on the bill date. Select a bucket to list its bills.
+        </p>
+      </div>
+
       {/* Filters */}
       <div className="card">
         <div className="space-y-4">
@@ -286,6 +337,7 @@ const BillingDashboard: React.FC = () => {
             <option value="pending">Pending</option>
             <option value="paid">Paid</option>
             <option value="overdue">Overdue</option>
+            <option value="cancelled">Cancelled</option>
           </select>
           
           <select
@@ -400,6 +452,12 @@ const BillingDashboard: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {format(bill.billDate, 'MMM dd, yyyy')}
+                    {bill.dueDate && isOpenBill(bill) && (
+                      <div className={`text-xs ${bill.paymentStatus === 'overdue' ? 'text-red-600' : 'text-gray-500'}`}>
+                        Due {format(bill.dueDate, 'MMM dd, yyyy')}
+                        {bill.paymentStatus === 'overdue' && ` (${getDaysPastDue(bill)} days overdue)`}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">₹{bill.totalAmount.toLocaleString()}</div>
@@ -418,6 +476,11 @@ const BillingDashboard: React.FC = () => {
                     <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(bill.paymentStatus)}`}>
                       {bill.paymentStatus}
                     </span>
+                    {bill.voidReason && (
+                      <div className="text-xs text-gray-500 mt-1 max-w-xs truncate" title={bill.voidReason}>
+                        {bill.voidReason}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex gap-2">
@@ -445,6 +508,24 @@ const BillingDashboard: React.FC = () => {
                           <Edit className="w-4 h-4" />
                         </button>
                       )}
+                      {canEditBills() && bill.paymentStatus !== 'cancelled' && (
+                        <button
+                          onClick={() => setCreditNoteBillId(bill.id)}
+                          className="text-purple-600 hover:text-purple-900"
+                          title="Credit Notes"
+                        >
+                          <FileMinus className="w-4 h-4" />
+                        </button>
+                      )}
+                      {canEditBill(bill) && (
+                        <button
+                          onClick={() => setVoidingBill(bill)}
+                          className="text-red-600 hover:text-red-900"
+                          title="Void Bill"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -473,6 +554,24 @@ const BillingDashboard: React.FC = () => {
           isReadOnly={selectedBill ? !canEditBill(selectedBill) : false}
         />
       )}
+
+      {/* Void Bill Modal */}
+      {voidingBill && (
+        <VoidBillModal
+          bill={voidingBill}
+          onVoided={handleBillVoided}
+          onClose={() => setVoidingBill(null)}
+        />
+      )}
+
+      {/* Credit Note Modal */}
+      {creditNoteBillId && (
+        <CreditNoteModal
+          billId={creditNoteBillId}
+          onSaved={loadData}
+          onClose={() => setCreditNoteBillId(null)}
+        />
+      )}
     </div>
   );
 };
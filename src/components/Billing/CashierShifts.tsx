@@ -0,0 +1,527 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Banknote, CheckCircle, FileText, Lock, PlayCircle, X } from 'lucide-react';
+import { useAuth } from '../Auth/useAuth';
+import { cashierShiftService } from '../../services/cashierShiftService';
+import { pdfService } from '../../services/pdfService';
+import { CashierShift, CashierShiftTotals } from '../../types';
+import { CASH_DENOMINATIONS, countCash, expectedCash } from '../../utils/cashDrawer';
+
+const money = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const varianceLabel = (variance: number) => {
+  if (variance === 0) return 'Balanced';
+  return `${variance < 0 ? 'Short' : 'Over'} ${money(Math.abs(variance))}`;
+};
+
+const varianceColor = (variance: number) => {
+  if (variance === 0) return 'text-green-700';
+  return variance < 0 ? 'text-red-600' : 'text-orange-600';
+};
+
+const getStatusColor = (status: CashierShift['status']) => {
+  switch (status) {
+    case 'open': return 'bg-blue-100 text-blue-800';
+    case 'closed': return 'bg-yellow-100 text-yellow-800';
+    case 'signed_off': return 'bg-green-100 text-green-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const CashierShifts: React.FC = () => {
+  const { user, hasPermission } = useAuth();
+  const [currentShift, setCurrentShift] = useState<CashierShift | null>(null);
+  const [currentTotals, setCurrentTotals] = useState<CashierShiftTotals | null>(null);
+  const [shifts, setShifts] = useState<CashierShift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [openingNotes, setOpeningNotes] = useState('');
+  const [opening, setOpening] = useState(false);
+
+  const [showCloseModal, setShowCloseModal] = useState(false);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [closingNotes, setClosingNotes] = useState('');
+  const [closing, setClosing] = useState(false);
+
+  const [signOffShift, setSignOffShift] = useState<CashierShift | null>(null);
+  const [signOffNotes, setSignOffNotes] = useState('');
+  const [signingOff, setSigningOff] = useState(false);
+  const [printingShiftId, setPrintingShiftId] = useState<string | null>(null);
+
+  const isSupervisor = !!user && hasPermission('manage_billing');
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user, isSupervisor]);
+
+  const loadData = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [shift, shiftList] = await Promise.all([
+        cashierShiftService.getCurrentShift(),
+        cashierShiftService.getShifts(isSupervisor ? undefined : user.id)
+      ]);
+      setCurrentShift(shift);
+      setShifts(shiftList);
+      setCurrentTotals(shift ? await cashierShiftService.getShiftTotals(shift.id) : null);
+    } catch (err) {
+      console.error('Error loading cashier shifts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load cashier shifts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenShift = async () => {
+    const float = parseFloat(openingFloat || '0');
+    if (isNaN(float) || float < 0) {
+      alert('Enter the cash in the drawer as the opening float');
+      return;
+    }
+
+    try {
+      setOpening(true);
+      await cashierShiftService.openShift(float, openingNotes.trim());
+      setOpeningFloat('');
+      setOpeningNotes('');
+      await loadData();
+    } catch (err) {
+      console.error('Error opening shift:', err);
+      alert(err instanceof Error ? err.message : 'Failed to open shift');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const startClose = async () => {
+    if (!currentShift) return;
+
+    setCounts({});
+    setClosingNotes('');
+    setShowCloseModal(true);
+    try {
+      // Refresh so the expected cash includes payments taken since the page loaded
+      setCurrentTotals(await cashierShiftService.getShiftTotals(currentShift.id));
+    } catch (err) {
+      console.error('Error refreshing shift totals:', err);
+    }
+  };
+
+  const handleCloseShift = async () => {
+    if (!currentShift) return;
+
+    const counted = countCash(counts);
+    if (!confirm(`Close your shift with ${money(counted)} counted? The count cannot be changed afterwards.`)) {
+      return;
+    }
+
+    try {
+      setClosing(true);
+      const denominations = Object.fromEntries(Object.entries(counts).filter(([, count]) => count > 0));
+      await cashierShiftService.closeShift(currentShift.id, denominations, closingNotes.trim());
+      setShowCloseModal(false);
+      await loadData();
+    } catch (err) {
+      console.error('Error closing shift:', err);
+      alert(err instanceof Error ? err.message : 'Failed to close shift');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleSignOff = async () => {
+    if (!signOffShift) return;
+
+    if ((signOffShift.variance || 0) !== 0 && !signOffNotes.trim()) {
+      alert('Add a note explaining the variance before signing off');
+      return;
+    }
+
+    try {
+      setSigningOff(true);
+      await cashierShiftService.signOffShift(signOffShift.id, signOffNotes.trim());
+      setSignOffShift(null);
+      setSignOffNotes('');
+      await loadData();
+    } catch (err) {
+      console.error('Error signing off shift:', err);
+      alert(err instanceof Error ? err.message : 'Failed to sign off shift');
+    } finally {
+      setSigningOff(false);
+    }
+  };
+
+  const handlePrintZReport = async (shift: CashierShift) => {
+    if (!user?.clinic) return;
+
+    try {
+      setPrintingShiftId(shift.id);
+      const pdfUrl = await pdfService.generatePdfFromData('z_report', {
+        clinicSettings: user.clinic,
+        cashierShift: shift
+      });
+      window.open(pdfUrl, '_blank');
+    } catch (err) {
+      console.error('Error printing Z-report:', err);
+      alert('Failed to generate Z-report. Please try again.');
+    } finally {
+      setPrintingShiftId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+      </div>
+    );
+  }
+
+  const countedTotal = countCash(counts);
+  const expectedTotal = currentShift && currentTotals ? expectedCash(currentShift.openingFloat, currentTotals) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Banknote className="w-7 h-7 text-blue-600" />
+        <h2 className="text-2xl font-bold text-gray-800">Cash Drawer</h2>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+      )}
+
+      {/* Current shift */}
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        {currentShift ? (
+          <div className="space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800">Your shift is open</h3>
+                <p className="text-sm text-gray-600">
+                  Opened {format(currentShift.openedAt, 'dd MMM yyyy, hh:mm a')} with a float of {money(currentShift.openingFloat)}
+                </p>
+              </div>
+              <button onClick={startClose} className="flex items-center gap-2 primary-button">
+                <Lock className="w-4 h-4" />
+                Count &amp; Close Shift
+              </button>
+            </div>
+            {currentTotals && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Cash Received</p>
+                  <p className="text-xl font-semibold text-gray-900">{money(currentTotals.cashReceived + currentTotals.cashDeposits)}</p>
+                  <p className="text-xs text-gray-500">{currentTotals.paymentCount} payments, {currentTotals.depositCount} deposits</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Cash Refunded</p>
+                  <p className="text-xl font-semibold text-red-600">{money(currentTotals.cashRefunded)}</p>
+                  <p className="text-xs text-gray-500">{currentTotals.refundCount} refunds</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Other Methods</p>
+                  <p className="text-xl font-semibold text-gray-900">
+                    {money(Object.entries(currentTotals.methodTotals)
+                      .filter(([method]) => method !== 'cash')
+                      .reduce((sum, [, amount]) => sum + amount, 0))}
+                  </p>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Expected in Drawer</p>
+                  <p className="text-xl font-semibold text-blue-700">{money(expectedCash(currentShift.openingFloat, currentTotals))}</p>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800">Start a shift</h3>
+              <p className="text-sm text-gray-600">Count the cash already in the drawer and enter it as the opening float.</p>
+            </div>
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Opening Float (₹)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  className="input-field w-40"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={openingNotes}
+                  onChange={(e) => setOpeningNotes(e.target.value)}
+                  className="input-field"
+                />
+              </div>
+              <button
+                onClick={handleOpenShift}
+                disabled={opening}
+                className="flex items-center gap-2 primary-button disabled:opacity-50"
+              >
+                <PlayCircle className="w-4 h-4" />
+                {opening ? 'Opening...' : 'Open Shift'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Shift history */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">{isSupervisor ? 'All Shifts' : 'Your Shifts'}</h3>
+        </div>
+        {shifts.length === 0 ? (
+          <div className="text-center py-12">
+            <Banknote className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">No shifts yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shift</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cashier</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Float</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {shifts.map(shift => (
+                  <tr key={shift.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {format(shift.openedAt, 'dd MMM yyyy, hh:mm a')}
+                      {shift.closedAt && <div className="text-xs text-gray-500">to {format(shift.closedAt, 'dd MMM, hh:mm a')}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{shift.cashierName || '-'}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{money(shift.openingFloat)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">
+                      {shift.expectedCash !== undefined ? money(shift.expectedCash) : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">
+                      {shift.countedCash !== undefined ? money(shift.countedCash) : '-'}
+                    </td>
+                    <td className={`px-4 py-3 text-sm text-right font-medium ${shift.variance !== undefined ? varianceColor(shift.variance) : 'text-gray-400'}`}>
+                      {shift.variance !== undefined ? varianceLabel(shift.variance) : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(shift.status)}`}>
+                        {shift.status === 'signed_off' ? 'Signed off' : shift.status === 'closed' ? 'Awaiting sign-off' : 'Open'}
+                      </span>
+                      {shift.signedOffByName && <div className="text-xs text-gray-500 mt-1">by {shift.signedOffByName}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <div className="flex justify-end gap-2">
+                        {shift.status !== 'open' && (
+                          <button
+                            onClick={() => handlePrintZReport(shift)}
+                            disabled={printingShiftId === shift.id}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            title="Print Z-report"
+                          >
+                            <FileText className="w-4 h-4" />
+                          </button>
+                        )}
+                        {isSupervisor && shift.status === 'closed' && shift.cashierId !== user?.id && (
+                          <button
+                            onClick={() => { setSignOffShift(shift); setSignOffNotes(''); }}
+                            className="text-green-600 hover:text-green-800"
+                            title="Sign off"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Expected cash is the opening float plus cash payments and advance deposits taken by the cashier during the shift,
+        less cash refunds they paid out. Payments settled from a patient's deposit are not counted. A shift is signed off
+        by a supervisor other than its cashier.
+      </p>
+
+      {/* Close shift modal */}
+      {showCloseModal && currentShift && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Count Cash &amp; Close Shift</h3>
+              <button onClick={() => setShowCloseModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Denomination</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Count</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {CASH_DENOMINATIONS.map(value => (
+                    <tr key={value}>
+                      <td className="px-4 py-2 text-sm text-gray-900">₹{value}</td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={counts[value] || ''}
+                          onChange={(e) => setCounts({ ...counts, [value]: Math.max(parseInt(e.target.value) || 0, 0) })}
+                          className="input-field w-24"
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">{money(value * (counts[value] || 0))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Counted</span>
+                  <span className="font-semibold text-gray-900">{money(countedTotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Expected</span>
+                  <span className="font-semibold text-gray-900">{currentTotals ? money(expectedTotal) : '-'}</span>
+                </div>
+                {currentTotals && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Variance</span>
+                    <span className={`font-semibold ${varianceColor(countedTotal - expectedTotal)}`}>
+                      {varianceLabel(countedTotal - expectedTotal)}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={closingNotes}
+                  onChange={(e) => setClosingNotes(e.target.value)}
+                  rows={2}
+                  placeholder="Explain any shortage or excess"
+                  className="input-field"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+              <button onClick={() => setShowCloseModal(false)} className="secondary-button">
+                Cancel
+              </button>
+              <button
+                onClick={handleCloseShift}
+                disabled={closing}
+                className="flex items-center gap-2 primary-button disabled:opacity-50"
+              >
+                <Lock className="w-4 h-4" />
+                {closing ? 'Closing...' : 'Close Shift'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Sign-off modal */}
+      {signOffShift && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Sign Off Shift</h3>
+              <button onClick={() => setSignOffShift(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4 text-sm">
+              <p className="text-gray-700">
+                {signOffShift.cashierName || 'Cashier'}, {format(signOffShift.openedAt, 'dd MMM yyyy, hh:mm a')}
+                {signOffShift.closedAt && ` to ${format(signOffShift.closedAt, 'hh:mm a')}`}
+              </p>
+              <div className="bg-gray-50 rounded-lg p-4 space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Expected</span>
+                  <span className="font-semibold">{money(signOffShift.expectedCash || 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Counted</span>
+                  <span className="font-semibold">{money(signOffShift.countedCash || 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Variance</span>
+                  <span className={`font-semibold ${varianceColor(signOffShift.variance || 0)}`}>
+                    {varianceLabel(signOffShift.variance || 0)}
+                  </span>
+                </div>
+              </div>
+              {signOffShift.closingNotes && (
+                <p className="text-gray-700"><span className="font-medium">Cashier notes:</span> {signOffShift.closingNotes}</p>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Supervisor Notes{(signOffShift.variance || 0) !== 0 && ' *'}
+                </label>
+                <textarea
+                  value={signOffNotes}
+                  onChange={(e) => setSignOffNotes(e.target.value)}
+                  rows={2}
+                  className="input-field"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+              <button onClick={() => setSignOffShift(null)} className="secondary-button">
+                Cancel
+              </button>
+              <button
+                onClick={handleSignOff}
+                disabled={signingOff}
+                className="flex items-center gap-2 primary-button disabled:opacity-50"
+              >
+                <CheckCircle className="w-4 h-4" />
+                {signingOff ? 'Signing off...' : 'Sign Off'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashierShifts;
@@ -0,0 +1,365 @@
+import React, { useState, useEffect } from 'react';
+import { X, FileMinus, Download } from 'lucide-react';
+import { format } from 'date-fns';
+import { Bill, CreditNote } from '../../types';
+import { billingService } from '../../services/billingService';
+import { creditNoteService } from '../../services/creditNoteService';
+import { pdfService } from '../../services/pdfService';
+import { useAuth } from '../Auth/useAuth';
+import { calculateLineTax, roundCurrency } from '../../utils/gstCalculator';
+
+interface CreditNoteModalProps {
+  billId: string;
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+const refundMethods = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'net_banking', label: 'Net Banking' },
+  { value: 'wallet', label: 'Wallet' },
+  // Not a payment method: puts the money back on the patient's deposit balance
+  { value: 'deposit', label: 'Back to Patient Deposit' }
+] as const;
+
+type RefundMethod = typeof refundMethods[number]['value'];
+
+const toRefund = (method: RefundMethod) => method === 'deposit'
+  ? { paymentMethod: 'wallet' as const, toDeposit: true }
+  : { paymentMethod: method };
+
+// Net amount of the bill settled from the patient's deposit; only that much can go back to it
+const getDepositPaid = (bill: Bill | null) => roundCurrency(
+  (bill?.paymentRecords || [])
+    .filter(payment => payment.paidFromDeposit)
+    .reduce((sum, payment) => sum + payment.amount, 0)
+);
+
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({ billId, onSaved, onClose }) => {
+  const { user } = useAuth();
+  const [bill, setBill] = useState<Bill | null>(null);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [creditedQuantities, setCreditedQuantities] = useState<Map<string, number>>(new Map());
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [issueRefund, setIssueRefund] = useState(true);
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('cash');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [billId]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [billData, creditNotesData, creditedData] = await Promise.all([
+        billingService.getBillById(billId, true),
+        creditNoteService.getBillCreditNotes(billId),
+        creditNoteService.getCreditedQuantities(billId)
+      ]);
+
+      setBill(billData);
+      if (getDepositPaid(billData) <= 0) {
+        setRefundMethod(method => method === 'deposit' ? 'cash' : method);
+      }
+      setCreditNotes(creditNotesData);
+      setCreditedQuantities(creditedData);
+      setQuantities({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load credit notes');
+      console.error('Error loading credit notes:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRemainingQuantity = (billItemId: string, billedQuantity: number) => {
+    return billedQuantity - (creditedQuantities.get(billItemId) || 0);
+  };
+
+  const creditTotal = roundCurrency(
+    (bill?.billItems || []).reduce((sum, item) => {
+      const quantity = quantities[item.id] || 0;
+      if (quantity <= 0) return sum;
+      return sum + calculateLineTax({
+        quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+        taxRate: item.tax,
+        isInterState: bill?.isInterState
+      }).totalPrice;
+    }, 0)
+  );
+
+  // Refund only what was collected beyond the bill's new (credited) total
+  const refundAmount = bill
+    ? roundCurrency(Math.min(creditTotal, Math.max(bill.paidAmount - (bill.totalAmount - (bill.creditedAmount || 0) - creditTotal), 0)))
+    : 0;
+
+  const depositPaid = getDepositPaid(bill);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bill) return;
+
+    if (!reason.trim()) {
+      setError('Please enter a reason for the credit note');
+      return;
+    }
+
+    const items = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([billItemId, quantity]) => ({ billItemId, quantity }));
+
+    if (items.length === 0) {
+      setError('Enter a quantity for at least one item');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await creditNoteService.createCreditNote({
+        billId: bill.id,
+        reason,
+        items,
+        refund: issueRefund && refundAmount > 0
+          ? { ...toRefund(refundMethod), amount: refundAmount }
+          : undefined
+      });
+
+      setReason('');
+      await loadData();
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create credit note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExportPDF = async (creditNote: CreditNote) => {
+    if (!bill || !bill.patient || !user?.clinic) {
+      alert('Missing required data for PDF export');
+      return;
+    }
+
+    try {
+      setExportingId(creditNote.id);
+
+      const pdfUrl = await pdfService.generatePdfFromData('credit_note', {
+        creditNote,
+        bill,
+        patient: bill.patient,
+        clinicSettings: user.clinic
+      });
+
+      window.open(pdfUrl, '_blank');
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+      alert('Failed to export PDF. Please try again.');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Credit Notes{bill ? ` - ${bill.billNumber}` : ''}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          {bill && (
+            <div className="mt-2 text-sm text-gray-600 flex flex-wrap gap-x-6">
+              <span>Bill Amount: ₹{bill.totalAmount.toFixed(2)}</span>
+              <span>Credited: ₹{(bill.creditedAmount || 0).toFixed(2)}</span>
+              <span>Paid: ₹{bill.paidAmount.toFixed(2)}</span>
+              <span className="font-semibold">Balance: ₹{bill.balanceAmount.toFixed(2)}</span>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !bill ? (
+          <div className="p-6 text-center text-gray-500">Bill not found</div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            {/* Issued credit notes */}
+            {creditNotes.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Issued Credit Notes</h4>
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {creditNotes.map(creditNote => (
+                    <div key={creditNote.id} className="p-3 flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{creditNote.creditNoteNumber}</div>
+                        <div className="text-xs text-gray-500">
+                          {format(creditNote.creditDate, 'MMM dd, yyyy')} • {creditNote.reason}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm font-medium text-gray-900">₹{creditNote.totalAmount.toFixed(2)}</span>
+                        <button
+                          onClick={() => handleExportPDF(creditNote)}
+                          disabled={exportingId === creditNote.id}
+                          className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          title="Download Credit Note"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* New credit note */}
+            {bill.paymentStatus === 'cancelled' ? (
+              <p className="text-sm text-gray-500">This bill is void; no further credit notes can be issued.</p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <h4 className="text-sm font-medium text-gray-900">New Credit Note</h4>
+
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Billed</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Available</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Credit Qty</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {bill.billItems.map(item => {
+                        const remaining = getRemainingQuantity(item.id, item.quantity);
+                        return (
+                          <tr key={item.id}>
+                            <td className="px-6 py-3 text-sm text-gray-900">
+                              {item.itemName}
+                              <div className="text-xs text-gray-500">₹{item.totalPrice.toFixed(2)} incl. tax</div>
+                            </td>
+                            <td className="px-6 py-3 text-sm text-gray-900">{item.quantity}</td>
+                            <td className="px-6 py-3 text-sm text-gray-900">{remaining}</td>
+                            <td className="px-6 py-3">
+                              <input
+                                type="number"
+                                min="0"
+                                max={remaining}
+                                step="1"
+                                value={quantities[item.id] || 0}
+                                disabled={remaining <= 0}
+                                onChange={(e) => setQuantities({
+                                  ...quantities,
+                                  [item.id]: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), remaining)
+                                })}
+                                className="w-24 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div>
+                  <label htmlFor="creditReason" className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason *
+                  </label>
+                  <input
+                    id="creditReason"
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Medicine returned, test not performed"
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                {refundAmount > 0 && (
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={issueRefund}
+                        onChange={(e) => setIssueRefund(e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                      />
+                      Refund ₹{refundAmount.toFixed(2)} to the patient
+                    </label>
+                    {issueRefund && (
+                      <select
+                        value={refundMethod}
+                        onChange={(e) => setRefundMethod(e.target.value as RefundMethod)}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {refundMethods.filter(method => method.value !== 'deposit' || depositPaid > 0).map(method => (
+                          <option key={method.value} value={method.value}>{method.label}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between pt-2">
+                  <span className="text-sm font-semibold text-gray-900">Credit Total: ₹{creditTotal.toFixed(2)}</span>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Close
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={saving || creditTotal <= 0}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                      <FileMinus className="w-4 h-4" />
+                      {saving ? 'Issuing...' : 'Issue Credit Note'}
+                    </button>
+                  </div>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteModal;
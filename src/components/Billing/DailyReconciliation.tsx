@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, IndianRupee, CreditCard, Smartphone, FileText, Building, Wallet, TrendingUp, Clock, Users, BarChart3, PieChart } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Calendar, IndianRupee, CreditCard, Smartphone, FileText, Building, Wallet, TrendingUp, Clock, Users, BarChart3, PieChart, RotateCcw, Banknote } from 'lucide-react';
 import { paymentService } from '../../services/paymentService';
 import { DailyPaymentSummary } from '../../types';
 
@@ -133,9 +134,15 @@ const DailyReconciliation: React.FC = () => {
     <div className="p-6 bg-gray-50 min-h-screen">
       <div className="max-w-6xl mx-auto">
         {/* Header */}
-        <div className="mb-6">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Daily Collection Report</h1>
-          <p className="text-gray-600">Track daily payment collections across all payment methods</p>
+        <div className="mb-6 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Daily Collection Report</h1>
+            <p className="text-gray-600">Track daily payment collections across all payment methods</p>
+          </div>
+          <Link to="/billing/shifts" className="flex items-center gap-2 secondary-button">
+            <Banknote className="w-4 h-4" />
+            Cash Drawer &amp; Shifts
+          </Link>
         </div>
 
         {/* Date Selection */}
@@ -190,11 +197,16 @@ const DailyReconciliation: React.FC = () => {
               <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl p-6 text-white col-span-full lg:col-span-1">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-blue-100 text-sm font-medium">Total Collection</p>
+                    <p className="text-blue-100 text-sm font-medium">Net Collection</p>
                     <p className="text-3xl font-bold">{formatCurrency(summary.total)}</p>
                     <p className="text-blue-100 text-sm mt-1">
                       {summary.transactionCount} transaction{summary.transactionCount !== 1 ? 's' : ''}
                     </p>
+                    {summary.refundTotal > 0 && (
+                      <p className="text-blue-100 text-sm">
+                        Gross {formatCurrency(summary.total + summary.refundTotal)} less refunds {formatCurrency(summary.refundTotal)}
+                      </p>
+                    )}
                   </div>
                   <div className="bg-blue-400 bg-opacity-30 rounded-full p-3">
                     <TrendingUp className="w-8 h-8" />
@@ -202,6 +214,20 @@ const DailyReconciliation: React.FC = () => {
                 </div>
               </div>
 
+              {/* Refunds */}
+              {summary.refundCount > 0 && (
+                <div className="rounded-xl p-6 border-2 bg-red-50 text-red-700 border-red-200">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <RotateCcw className="w-5 h-5" />
+                    <p className="font-semibold">Refunds</p>
+                  </div>
+                  <p className="text-2xl font-bold">-{formatCurrency(summary.refundTotal)}</p>
+                  <p className="text-sm opacity-75 mt-1">
+                    {summary.refundCount} refund{summary.refundCount !== 1 ? 's' : ''}
+                  </p>
+                </div>
+              )}
+
               {/* Payment Method Breakdown */}
               {summary.paymentBreakdown.map((breakdown) => (
                 <div
@@ -218,6 +244,11 @@ const DailyReconciliation: React.FC = () => {
                       <p className="text-sm opacity-75 mt-1">
                         {breakdown.count} transaction{breakdown.count !== 1 ? 's' : ''}
                       </p>
+                      {breakdown.refundCount > 0 && (
+                        <p className="text-sm opacity-75">
+                          Net of {formatCurrency(breakdown.refundAmount)} refunded
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -242,6 +273,9 @@ const DailyReconciliation: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Transactions
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Refunds
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Percentage
                       </th>
@@ -272,6 +306,11 @@ const DailyReconciliation: React.FC = () => {
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-900">{breakdown.count}</div>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className={`text-sm ${breakdown.refundAmount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                              {breakdown.refundAmount > 0 ? `-${formatCurrency(breakdown.refundAmount)}` : '-'}
+                            </div>
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center">
                               <div className="w-16 bg-gray-200 rounded-full h-2 mr-2">
@@ -400,7 +439,7 @@ const DailyReconciliation: React.FC = () => {
             )}
 
             {/* No Data Message */}
-            {summary.total === 0 && (
+            {summary.total === 0 && summary.refundCount === 0 && (
               <div className="text-center py-12">
                 <IndianRupee className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No Collections Today</h3>
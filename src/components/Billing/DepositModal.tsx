@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { Patient } from '../../types';
+import { patientAccountService } from '../../services/patientAccountService';
+import { toTitleCase } from '../../utils/stringUtils';
+
+interface DepositModalProps {
+  patient: Patient;
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+const depositMethods = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'net_banking', label: 'Net Banking' }
+] as const;
+
+type DepositMethod = typeof depositMethods[number]['value'];
+
+const DepositModal: React.FC<DepositModalProps> = ({ patient, onSaved, onClose }) => {
+  const [formData, setFormData] = useState({
+    amount: 0,
+    paymentMethod: 'cash' as DepositMethod,
+    reference: '',
+    notes: '',
+    depositDate: new Date().toISOString().split('T')[0],
+    autoApply: true
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.amount <= 0) {
+      setError('Deposit amount must be greater than 0');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await patientAccountService.recordDeposit({
+        patientId: patient.id,
+        amount: formData.amount,
+        paymentMethod: formData.paymentMethod,
+        reference: formData.reference || undefined,
+        notes: formData.notes || undefined,
+        depositDate: new Date(formData.depositDate),
+        autoApply: formData.autoApply
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record deposit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Advance Deposit</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="mt-2 text-sm text-gray-600">{toTitleCase(patient.name)} • {patient.phone}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="depositAmount" className="block text-sm font-medium text-gray-700 mb-1">
+              Amount *
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500">₹</span>
+              </div>
+              <input
+                type="number"
+                id="depositAmount"
+                min="0"
+                step="0.01"
+                value={formData.amount || ''}
+                onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+                className="block w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="depositMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                Method *
+              </label>
+              <select
+                id="depositMethod"
+                value={formData.paymentMethod}
+                onChange={(e) => setFormData({ ...formData, paymentMethod: e.target.value as DepositMethod })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {depositMethods.map(method => (
+                  <option key={method.value} value={method.value}>{method.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="depositDate" className="block text-sm font-medium text-gray-700 mb-1">
+                Date *
+              </label>
+              <input
+                type="date"
+                id="depositDate"
+                value={formData.depositDate}
+                onChange={(e) => setFormData({ ...formData, depositDate: e.target.value })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+
+          {formData.paymentMethod !== 'cash' && (
+            <div>
+              <label htmlFor="depositReference" className="block text-sm font-medium text-gray-700 mb-1">
+                Reference
+              </label>
+              <input
+                type="text"
+                id="depositReference"
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                placeholder="Transaction ID / cheque number"
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="depositNotes" className="block text-sm font-medium text-gray-700 mb-1">
+              Notes (Optional)
+            </label>
+            <textarea
+              id="depositNotes"
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.autoApply}
+              onChange={(e) => setFormData({ ...formData, autoApply: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+            />
+            Apply to open bills now (oldest first)
+          </label>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Record Deposit'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DepositModal;
@@ -0,0 +1,663 @@
+import React, { useState, useEffect } from 'react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { CheckCircle, Download, Eye, HandCoins, Plus, Save, Shield, Trash2, X } from 'lucide-react';
+import { useAuth } from '../Auth/useAuth';
+import { authService } from '../../services/authService';
+import { payoutService } from '../../services/payoutService';
+import { BillItem, DoctorPayoutRule, DoctorSettlement, DoctorSettlementItem, Profile } from '../../types';
+import { downloadCsv, toCsv } from '../../utils/csv';
+
+type PayoutTab = 'settlements' | 'rules';
+
+// One editable row per bill item type; 'none' means the type earns nothing
+interface RuleDraft {
+  itemType: BillItem['itemType'];
+  payoutType: DoctorPayoutRule['payoutType'] | 'none';
+  value: string;
+}
+
+const ITEM_TYPES: { value: BillItem['itemType']; label: string }[] = [
+  { value: 'consultation', label: 'Consultation' },
+  { value: 'procedure', label: 'Procedure' },
+  { value: 'medicine', label: 'Medicine' },
+  { value: 'test', label: 'Test' },
+  { value: 'other', label: 'Other' }
+];
+
+const money = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const describeRule = (payoutType?: DoctorPayoutRule['payoutType'], value?: number) => {
+  if (!payoutType || value === undefined) return '-';
+  return payoutType === 'percentage' ? `${value}%` : `${money(value)} / unit`;
+};
+
+const DoctorPayouts: React.FC = () => {
+  const { user, hasPermission } = useAuth();
+  const [activeTab, setActiveTab] = useState<PayoutTab>('settlements');
+  const [doctors, setDoctors] = useState<Profile[]>([]);
+  const [rules, setRules] = useState<DoctorPayoutRule[]>([]);
+  const [settlements, setSettlements] = useState<DoctorSettlement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [doctorFilter, setDoctorFilter] = useState('');
+  const [generateDoctorId, setGenerateDoctorId] = useState('');
+  const [generateMonth, setGenerateMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [generating, setGenerating] = useState(false);
+
+  const [rulesDoctorId, setRulesDoctorId] = useState('');
+  const [ruleDrafts, setRuleDrafts] = useState<RuleDraft[]>([]);
+  const [savingRules, setSavingRules] = useState(false);
+
+  const [statement, setStatement] = useState<DoctorSettlement | null>(null);
+  const [statementItems, setStatementItems] = useState<DoctorSettlementItem[]>([]);
+  const [loadingStatement, setLoadingStatement] = useState(false);
+  const [paymentReference, setPaymentReference] = useState('');
+  const [settlementNotes, setSettlementNotes] = useState('');
+  const [settling, setSettling] = useState(false);
+
+  const canManagePayouts = !!user && hasPermission('manage_billing');
+
+  useEffect(() => {
+    if (canManagePayouts) {
+      loadData();
+    }
+  }, [canManagePayouts]);
+
+  useEffect(() => {
+    const doctorRules = rules.filter(rule => rule.doctorId === rulesDoctorId);
+    setRuleDrafts(ITEM_TYPES.map(({ value }) => {
+      const rule = doctorRules.find(r => r.itemType === value);
+      return {
+        itemType: value,
+        payoutType: rule ? rule.payoutType : 'none',
+        value: rule ? String(rule.value) : ''
+      };
+    }));
+  }, [rules, rulesDoctorId]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [doctorList, ruleList, settlementList] = await Promise.all([
+        authService.getDoctors(),
+        payoutService.getPayoutRules(),
+        payoutService.getSettlements()
+      ]);
+      setDoctors(doctorList);
+      setRules(ruleList);
+      setSettlements(settlementList);
+      if (doctorList.length > 0) {
+        setGenerateDoctorId(current => current || doctorList[0].id);
+        setRulesDoctorId(current => current || doctorList[0].id);
+      }
+    } catch (err) {
+      console.error('Error loading doctor payouts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load doctor payouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openStatement = async (settlement: DoctorSettlement) => {
+    setStatement(settlement);
+    setStatementItems([]);
+    setPaymentReference(settlement.paymentReference || '');
+    setSettlementNotes(settlement.notes || '');
+    try {
+      setLoadingStatement(true);
+      setStatementItems(await payoutService.getSettlementItems(settlement.id));
+    } catch (err) {
+      console.error('Error loading settlement items:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load statement');
+    } finally {
+      setLoadingStatement(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!generateDoctorId || !generateMonth) return;
+
+    try {
+      setGenerating(true);
+      const settlementId = await payoutService.generateSettlement(generateDoctorId, new Date(`${generateMonth}-01T00:00:00`));
+      const settlementList = await payoutService.getSettlements();
+      setSettlements(settlementList);
+      const generated = settlementList.find(s => s.id === settlementId);
+      if (generated) {
+        await openStatement(generated);
+      }
+    } catch (err) {
+      console.error('Error generating settlement:', err);
+      alert(err instanceof Error ? err.message : 'Failed to generate settlement');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSettle = async () => {
+    if (!statement) return;
+    if (!confirm(`Mark ${money(statement.netPayout)} as paid to ${statement.doctorName || 'this doctor'}? A settled statement cannot be changed.`)) {
+      return;
+    }
+
+    try {
+      setSettling(true);
+      await payoutService.settleSettlement(statement.id, paymentReference.trim(), settlementNotes.trim());
+      const settlementList = await payoutService.getSettlements();
+      setSettlements(settlementList);
+      setStatement(settlementList.find(s => s.id === statement.id) || null);
+    } catch (err) {
+      console.error('Error settling payout:', err);
+      alert(err instanceof Error ? err.message : 'Failed to settle payout');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const handleDeleteDraft = async (settlement: DoctorSettlement) => {
+    if (!confirm(`Delete the draft statement for ${format(settlement.periodStart, 'MMMM yyyy')}?`)) return;
+
+    try {
+      await payoutService.deleteDraftSettlement(settlement.id);
+      setSettlements(prev => prev.filter(s => s.id !== settlement.id));
+      if (statement?.id === settlement.id) {
+        setStatement(null);
+      }
+    } catch (err) {
+      console.error('Error deleting settlement:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete settlement');
+    }
+  };
+
+  const handleSaveRules = async () => {
+    if (!rulesDoctorId) return;
+
+    const activeRules = ruleDrafts.filter(draft => draft.payoutType !== 'none');
+    const invalid = activeRules.find(draft => {
+      const value = parseFloat(draft.value);
+      return isNaN(value) || value < 0 || (draft.payoutType === 'percentage' && value > 100);
+    });
+    if (invalid) {
+      alert(`Enter a valid payout for ${ITEM_TYPES.find(t => t.value === invalid.itemType)?.label}. Percentages must be between 0 and 100.`);
+      return;
+    }
+
+    try {
+      setSavingRules(true);
+      const saved = await payoutService.savePayoutRules(rulesDoctorId, activeRules.map(draft => ({
+        itemType: draft.itemType,
+        payoutType: draft.payoutType as DoctorPayoutRule['payoutType'],
+        value: parseFloat(draft.value)
+      })));
+      setRules(prev => [...prev.filter(rule => rule.doctorId !== rulesDoctorId), ...saved]);
+      alert('Payout rules saved');
+    } catch (err) {
+      console.error('Error saving payout rules:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save payout rules');
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  const updateRuleDraft = (itemType: BillItem['itemType'], updates: Partial<RuleDraft>) => {
+    setRuleDrafts(prev => prev.map(draft => draft.itemType === itemType ? { ...draft, ...updates } : draft));
+  };
+
+  const handleDownloadStatement = () => {
+    if (!statement) return;
+
+    const rows: (string | number)[][] = [
+      ['Type', 'Bill', 'Bill Date', 'Patient', 'Item', 'Item Type', 'Base Amount', 'Rule', 'Payout'],
+      ...statementItems.map(item => [
+        item.entryType === 'earning' ? 'Earning' : 'Adjustment',
+        item.billNumber || '',
+        item.billDate ? format(item.billDate, 'yyyy-MM-dd') : '',
+        item.patientName || '',
+        item.itemName,
+        item.itemType || '',
+        item.baseAmount.toFixed(2),
+        item.entryType === 'earning' ? describeRule(item.payoutType, item.ruleValue) : '',
+        item.payoutAmount.toFixed(2)
+      ]),
+      ['', '', '', '', 'Earnings', '', '', '', statement.earningsAmount.toFixed(2)],
+      ['', '', '', '', 'Adjustments', '', '', '', statement.adjustmentAmount.toFixed(2)],
+      ['', '', '', '', 'Net Payout', '', '', '', statement.netPayout.toFixed(2)]
+    ];
+
+    const doctorSlug = (statement.doctorName || 'doctor').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(toCsv(rows), `payout-${doctorSlug}-${format(statement.periodStart, 'yyyy-MM')}.csv`);
+  };
+
+  if (!canManagePayouts) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <Shield className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">You don't have permission to access doctor payouts.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+      </div>
+    );
+  }
+
+  const visibleSettlements = doctorFilter
+    ? settlements.filter(settlement => settlement.doctorId === doctorFilter)
+    : settlements;
+  const earnings = statementItems.filter(item => item.entryType === 'earning');
+  const adjustments = statementItems.filter(item => item.entryType === 'adjustment');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <HandCoins className="w-7 h-7 text-blue-600" />
+        <h2 className="text-2xl font-bold text-gray-800">Doctor Payouts</h2>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+      )}
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([
+            { id: 'settlements', label: 'Settlements' },
+            { id: 'rules', label: 'Payout Rules' }
+          ] as { id: PayoutTab; label: string }[]).map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'settlements' && (
+        <>
+          <div className="bg-white p-4 rounded-lg shadow-md flex flex-col md:flex-row md:items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Doctor</label>
+              <select
+                value={generateDoctorId}
+                onChange={(e) => setGenerateDoctorId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {doctors.map(doctor => (
+                  <option key={doctor.id} value={doctor.id}>{doctor.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+              <input
+                type="month"
+                value={generateMonth}
+                max={format(startOfMonth(new Date()), 'yyyy-MM')}
+                onChange={(e) => setGenerateMonth(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={handleGenerate}
+              disabled={generating || !generateDoctorId || !generateMonth}
+              className="flex items-center gap-2 primary-button disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              {generating ? 'Generating...' : 'Generate Statement'}
+            </button>
+            <div className="md:ml-auto">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Show</label>
+              <select
+                value={doctorFilter}
+                onChange={(e) => setDoctorFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All doctors</option>
+                {doctors.map(doctor => (
+                  <option key={doctor.id} value={doctor.id}>{doctor.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            {visibleSettlements.length === 0 ? (
+              <div className="text-center py-12">
+                <HandCoins className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600">No payout statements yet</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Doctor</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Earnings</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adjustments</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net Payout</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visibleSettlements.map(settlement => (
+                      <tr key={settlement.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm text-gray-900">{format(settlement.periodStart, 'MMMM yyyy')}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{settlement.doctorName || 'Unknown doctor'}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{money(settlement.earningsAmount)}</td>
+                        <td className="px-4 py-3 text-sm text-right text-red-600">
+                          {settlement.adjustmentAmount !== 0 ? money(settlement.adjustmentAmount) : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{money(settlement.netPayout)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {settlement.status === 'settled' ? (
+                            <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                              Settled {settlement.settledAt ? format(settlement.settledAt, 'dd MMM yyyy') : ''}
+                            </span>
+                          ) : (
+                            <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                              Draft
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => openStatement(settlement)}
+                              className="text-blue-600 hover:text-blue-800"
+                              title="View statement"
+                            >
+                              <Eye className="w-4 h-4" />
+                            </button>
+                            {settlement.status === 'draft' && (
+                              <button
+                                onClick={() => handleDeleteDraft(settlement)}
+                                className="text-red-600 hover:text-red-800"
+                                title="Delete draft"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            A statement picks up the doctor's fully paid bills up to the end of the month that no earlier statement has
+            paid out. Payouts are worked out on each item's value after discounts and credit notes, before GST. Refunds made
+            after a statement was settled are recovered as adjustments on the next statement generated.
+          </p>
+        </>
+      )}
+
+      {activeTab === 'rules' && (
+        <div className="bg-white p-6 rounded-lg shadow-md space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Doctor</label>
+            <select
+              value={rulesDoctorId}
+              onChange={(e) => setRulesDoctorId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {doctors.map(doctor => (
+                <option key={doctor.id} value={doctor.id}>{doctor.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {ruleDrafts.map(draft => (
+                <tr key={draft.itemType}>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {ITEM_TYPES.find(t => t.value === draft.itemType)?.label}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <select
+                      value={draft.payoutType}
+                      onChange={(e) => updateRuleDraft(draft.itemType, { payoutType: e.target.value as RuleDraft['payoutType'] })}
+                      className="input-field"
+                    >
+                      <option value="none">No payout</option>
+                      <option value="percentage">Percentage of amount</option>
+                      <option value="fixed">Fixed amount per unit</option>
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {draft.payoutType !== 'none' && (
+                      <div className="flex items-center gap-2">
+                        {draft.payoutType === 'fixed' && <span className="text-gray-500">₹</span>}
+                        <input
+                          type="number"
+                          min="0"
+                          max={draft.payoutType === 'percentage' ? 100 : undefined}
+                          step="0.01"
+                          value={draft.value}
+                          onChange={(e) => updateRuleDraft(draft.itemType, { value: e.target.value })}
+                          className="input-field w-32"
+                        />
+                        {draft.payoutType === 'percentage' && <span className="text-gray-500">%</span>}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <p className="text-xs text-gray-500">
+            Changes apply to statements generated from now on; settled statements keep the rules they were worked out with.
+          </p>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveRules}
+              disabled={savingRules || !rulesDoctorId}
+              className="flex items-center gap-2 primary-button disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {savingRules ? 'Saving...' : 'Save Rules'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {statement && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {statement.doctorName || 'Doctor'} - {format(statement.periodStart, 'MMMM yyyy')}
+                </h3>
+                <p className="text-sm text-gray-500">
+                  {statement.status === 'settled'
+                    ? `Settled ${statement.settledAt ? format(statement.settledAt, 'dd MMM yyyy') : ''}${statement.settledByName ? ` by ${statement.settledByName}` : ''}`
+                    : `Draft generated ${format(statement.generatedAt, 'dd MMM yyyy, hh:mm a')}`}
+                </p>
+              </div>
+              <button onClick={() => setStatement(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Earnings</p>
+                  <p className="text-xl font-semibold text-gray-900">{money(statement.earningsAmount)}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Adjustments</p>
+                  <p className="text-xl font-semibold text-red-600">{money(statement.adjustmentAmount)}</p>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">Net Payout</p>
+                  <p className="text-xl font-semibold text-blue-700">{money(statement.netPayout)}</p>
+                </div>
+              </div>
+
+              {loadingStatement ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">Earnings ({earnings.length} items)</h4>
+                    {earnings.length === 0 ? (
+                      <p className="text-sm text-gray-500">No paid bill items with a payout rule in this period.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bill</th>
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            {earnings.map(item => (
+                              <tr key={item.id}>
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {item.billNumber}
+                                  {item.billDate && <div className="text-xs text-gray-500">{format(item.billDate, 'dd MMM yyyy')}</div>}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-900">{item.patientName || '-'}</td>
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {item.itemName}
+                                  <div className="text-xs text-gray-500 capitalize">{item.itemType}</div>
+                                </td>
+                                <td className="px-4 py-2 text-sm text-right text-gray-900">{money(item.baseAmount)}</td>
+                                <td className="px-4 py-2 text-sm text-right text-gray-600">{describeRule(item.payoutType, item.ruleValue)}</td>
+                                <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">{money(item.payoutAmount)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+
+                  {adjustments.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 mb-2">Refund Adjustments</h4>
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Refund</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Refunded</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Recovered</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {adjustments.map(item => (
+                            <tr key={item.id}>
+                              <td className="px-4 py-2 text-sm text-gray-900">{item.itemName}</td>
+                              <td className="px-4 py-2 text-sm text-gray-900">{item.patientName || '-'}</td>
+                              <td className="px-4 py-2 text-sm text-right text-gray-900">{money(Math.abs(item.baseAmount))}</td>
+                              <td className="px-4 py-2 text-sm text-right font-medium text-red-600">{money(item.payoutAmount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {statement.status === 'draft' ? (
+                <div className="border-t border-gray-200 pt-4 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Payment Reference</label>
+                      <input
+                        type="text"
+                        value={paymentReference}
+                        onChange={(e) => setPaymentReference(e.target.value)}
+                        placeholder="UTR, cheque or voucher number"
+                        className="input-field"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                      <input
+                        type="text"
+                        value={settlementNotes}
+                        onChange={(e) => setSettlementNotes(e.target.value)}
+                        className="input-field"
+                      />
+                    </div>
+                  </div>
+                </div>
+              ) : (statement.paymentReference || statement.notes) && (
+                <div className="border-t border-gray-200 pt-4 text-sm text-gray-700 space-y-1">
+                  {statement.paymentReference && <p>Payment reference: {statement.paymentReference}</p>}
+                  {statement.notes && <p>Notes: {statement.notes}</p>}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+              <button
+                onClick={handleDownloadStatement}
+                disabled={loadingStatement}
+                className="flex items-center gap-2 secondary-button disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                Download CSV
+              </button>
+              {statement.status === 'draft' && (
+                <button
+                  onClick={handleSettle}
+                  disabled={settling || loadingStatement}
+                  className="flex items-center gap-2 primary-button disabled:opacity-50"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  {settling ? 'Settling...' : 'Mark as Settled'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DoctorPayouts;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { X, Ban, AlertTriangle } from 'lucide-react';
+import { Bill } from '../../types';
+import { billingService } from '../../services/billingService';
+
+interface VoidBillModalProps {
+  bill: Bill;
+  onVoided: (bill: Bill) => void;
+  onClose: () => void;
+}
+
+const refundMethods = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'net_banking', label: 'Net Banking' },
+  { value: 'wallet', label: 'Wallet' },
+  { value: 'deposit', label: 'Back to Patient Deposit' }
+] as const;
+
+type RefundMethod = typeof refundMethods[number]['value'];
+
+const toRefund = (method: RefundMethod) => method === 'deposit'
+  ? { paymentMethod: 'wallet' as const, toDeposit: true }
+  : { paymentMethod: method };
+
+const VoidBillModal: React.FC<VoidBillModalProps> = ({ bill, onVoided, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('cash');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requiresRefund = bill.paidAmount > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      setError('Please enter a reason for voiding this bill');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const voidedBill = await billingService.voidBill(
+        bill.id,
+        reason,
+        requiresRefund ? toRefund(refundMethod) : undefined
+      );
+      onVoided(voidedBill);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to void bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Void Bill {bill.billNumber}</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="mt-2 text-sm text-gray-600">
+            <p>Bill Amount: ₹{bill.totalAmount.toFixed(2)}</p>
+            <p>Paid Amount: ₹{bill.paidAmount.toFixed(2)}</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">
+              The bill stays on record marked as cancelled. This cannot be undone.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="voidReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason *
+            </label>
+            <textarea
+              id="voidReason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is this bill being voided?"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          {requiresRefund && (
+            <div>
+              <label htmlFor="refundMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                Refund ₹{bill.paidAmount.toFixed(2)} via *
+              </label>
+              <select
+                id="refundMethod"
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value as RefundMethod)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {refundMethods.map(method => (
+                  <option key={method.value} value={method.value}>{method.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              <Ban className="w-4 h-4" />
+              {saving ? 'Voiding...' : 'Void Bill'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VoidBillModal;
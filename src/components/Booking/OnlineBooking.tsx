@@ -0,0 +1,404 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Calendar, CheckCircle, Clock, MapPin, Phone, ShieldCheck, User } from 'lucide-react';
+import { addDays, endOfDay, format, isSameDay, startOfDay } from 'date-fns';
+import { doctorAvailabilityService, SlotSource, TimeSlot } from '../../services/doctorAvailabilityService';
+import { onlineBookingService, BookingClinic, BookingDoctor } from '../../services/onlineBookingService';
+import { toTitleCase } from '../../utils/stringUtils';
+
+const OnlineBooking: React.FC = () => {
+  const { clinicId } = useParams<{ clinicId: string }>();
+  const [clinic, setClinic] = useState<BookingClinic | null>(null);
+  const [doctors, setDoctors] = useState<BookingDoctor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [doctorId, setDoctorId] = useState('');
+  const [schedule, setSchedule] = useState<SlotSource | null>(null);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selectedDate, setSelectedDate] = useState(startOfDay(new Date()));
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+
+  const [formData, setFormData] = useState({
+    phone: '',
+    otp: '',
+    name: '',
+    age: '',
+    gender: 'male' as 'male' | 'female' | 'other',
+    notes: ''
+  });
+  const [otpSent, setOtpSent] = useState(false);
+  const [demoCode, setDemoCode] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [bookedAt, setBookedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    loadClinic();
+  }, [clinicId]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [doctorId]);
+
+  useEffect(() => {
+    buildSlots();
+  }, [schedule, selectedDate]);
+
+  const loadClinic = async () => {
+    if (!clinicId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await onlineBookingService.getClinic(clinicId);
+      setClinic(result.clinic);
+      setDoctors(result.doctors);
+      if (result.doctors.length === 1) {
+        setDoctorId(result.doctors[0].id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load clinic');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSchedule = async () => {
+    const doctor = doctors.find(d => d.id === doctorId);
+    setSchedule(null);
+    setSelectedSlot(null);
+    if (!clinicId || !clinic || !doctor) return;
+
+    try {
+      setLoadingSlots(true);
+      const today = startOfDay(new Date());
+      setSchedule(await onlineBookingService.getSchedule(clinicId, doctor, today, endOfDay(addDays(today, clinic.bookingDays))));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load available times');
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
+
+  const buildSlots = async () => {
+    if (!schedule || !clinic) {
+      setSlots([]);
+      return;
+    }
+
+    const daySlots = await doctorAvailabilityService.generateAvailableSlots(
+      doctorId,
+      selectedDate,
+      endOfDay(selectedDate),
+      clinic.appointmentDuration,
+      schedule
+    );
+    const now = new Date();
+    setSlots(daySlots.filter(slot => slot.available && slot.start > now));
+  };
+
+  const handleRequestOtp = async () => {
+    if (!clinicId) return;
+
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      const result = await onlineBookingService.requestOtp(clinicId, formData.phone);
+      setOtpSent(true);
+      setDemoCode(result.demoCode || null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to send code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clinicId || !selectedSlot) return;
+
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      const result = await onlineBookingService.book(clinicId, {
+        phone: formData.phone,
+        otp: formData.otp,
+        name: formData.name.trim(),
+        age: parseInt(formData.age) || undefined,
+        gender: formData.gender,
+        doctorId,
+        appointmentDate: selectedSlot.start,
+        notes: formData.notes.trim() || undefined
+      });
+      setBookedAt(result.appointmentDate);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Booking failed');
+      // The slot may have gone; refresh the times
+      loadSchedule();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!clinic) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center max-w-md mx-auto p-6">
+          <div className="text-red-600 mb-4">{error || 'Clinic not found'}</div>
+          <button
+            onClick={loadClinic}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const doctor = doctors.find(d => d.id === doctorId);
+  const bookingDates = Array.from({ length: clinic.bookingDays + 1 }, (_, i) => addDays(startOfDay(new Date()), i));
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Clinic header */}
+        <div className="bg-white rounded-lg shadow-md p-6 flex items-center gap-4">
+          {clinic.logoUrl && <img src={clinic.logoUrl} alt="" className="w-16 h-16 object-contain" />}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">{clinic.clinicName}</h1>
+            {clinic.address && (
+              <p className="flex items-center gap-1 text-sm text-gray-600"><MapPin className="w-4 h-4" />{clinic.address}</p>
+            )}
+            {clinic.phone && (
+              <p className="flex items-center gap-1 text-sm text-gray-600"><Phone className="w-4 h-4" />{clinic.phone}</p>
+            )}
+          </div>
+        </div>
+
+        {bookedAt ? (
+          <div className="bg-white rounded-lg shadow-md p-6 text-center">
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+            <h2 className="text-xl font-semibold text-gray-800 mb-2">Booking request received</h2>
+            <p className="text-gray-700">
+              {doctor && <>Dr. {toTitleCase(doctor.name)} · </>}
+              {format(bookedAt, 'EEEE, MMM dd, yyyy')} at {format(bookedAt, 'h:mm a')}
+            </p>
+            <p className="text-sm text-gray-500 mt-3">
+              The clinic will confirm your appointment. Please call {clinic.phone || 'the clinic'} if you need to change it.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Doctor and time */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Calendar className="w-5 h-5 text-blue-600" />
+                <h2 className="text-lg font-semibold text-gray-800">Choose a doctor and time</h2>
+              </div>
+
+              {doctors.length === 0 ? (
+                <p className="text-sm text-gray-500">No doctors are taking online bookings right now. Please call the clinic.</p>
+              ) : (
+                <div className="space-y-4">
+                  <select
+                    value={doctorId}
+                    onChange={(e) => setDoctorId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Select a doctor</option>
+                    {doctors.map(d => (
+                      <option key={d.id} value={d.id}>
+                        Dr. {toTitleCase(d.name)}{d.specialization ? ` - ${d.specialization}` : ''}
+                      </option>
+                    ))}
+                  </select>
+
+                  {doctorId && (
+                    <>
+                      <div className="flex gap-2 overflow-x-auto pb-2">
+                        {bookingDates.map(date => (
+                          <button
+                            key={date.toISOString()}
+                            type="button"
+                            onClick={() => { setSelectedDate(date); setSelectedSlot(null); }}
+                            className={`flex-shrink-0 px-3 py-2 text-sm rounded-lg border transition-colors ${
+                              isSameDay(date, selectedDate)
+                                ? 'bg-blue-600 text-white border-blue-600'
+                                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            <div className="font-medium">{format(date, 'EEE')}</div>
+                            <div>{format(date, 'MMM dd')}</div>
+                          </button>
+                        ))}
+                      </div>
+
+                      {loadingSlots ? (
+                        <div className="text-center py-4">
+                          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                        </div>
+                      ) : slots.length === 0 ? (
+                        <p className="text-sm text-gray-500">No times available on this day</p>
+                      ) : (
+                        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                          {slots.map(slot => (
+                            <button
+                              key={slot.start.toISOString()}
+                              type="button"
+                              onClick={() => setSelectedSlot(slot)}
+                              className={`flex items-center justify-center gap-1 px-2 py-2 text-sm rounded-lg border transition-colors ${
+                                selectedSlot?.start.getTime() === slot.start.getTime()
+                                  ? 'bg-blue-600 text-white border-blue-600'
+                                  : 'bg-white text-gray-700 border-gray-300 hover:bg-blue-50'
+                              }`}
+                            >
+                              <Clock className="w-3 h-3" />
+                              {format(slot.start, 'h:mm a')}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Patient details and verification */}
+            {selectedSlot && (
+              <form onSubmit={handleBook} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+                <div className="flex items-center gap-2">
+                  <User className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-lg font-semibold text-gray-800">Your details</h2>
+                </div>
+
+                <p className="text-sm text-gray-600">
+                  {format(selectedSlot.start, 'EEEE, MMM dd')} at {format(selectedSlot.start, 'h:mm a')}
+                  {doctor && <> with Dr. {toTitleCase(doctor.name)}</>}
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Mobile Number *</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="tel"
+                      required
+                      value={formData.phone}
+                      onChange={(e) => { setFormData({ ...formData, phone: e.target.value }); setOtpSent(false); }}
+                      placeholder="10-digit mobile number"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleRequestOtp}
+                      disabled={submitting || formData.phone.replace(/\D/g, '').length < 10}
+                      className="flex-shrink-0 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                      {otpSent ? 'Resend Code' : 'Send Code'}
+                    </button>
+                  </div>
+                </div>
+
+                {otpSent && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Verification Code *</label>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        required
+                        maxLength={6}
+                        value={formData.otp}
+                        onChange={(e) => setFormData({ ...formData, otp: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                        <ShieldCheck className="w-3 h-3" />
+                        {demoCode ? <>Your code is <span className="font-semibold text-gray-800">{demoCode}</span></> : 'We sent a code to your WhatsApp'}
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div className="sm:col-span-3">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Patient Name *</label>
+                        <input
+                          type="text"
+                          required
+                          value={formData.name}
+                          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                          placeholder="As registered at the clinic"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Age</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="120"
+                          value={formData.age}
+                          onChange={(e) => setFormData({ ...formData, age: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Gender</label>
+                        <select
+                          value={formData.gender}
+                          onChange={(e) => setFormData({ ...formData, gender: e.target.value as 'male' | 'female' | 'other' })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="male">Male</option>
+                          <option value="female">Female</option>
+                          <option value="other">Other</option>
+                        </select>
+                      </div>
+                      <div className="sm:col-span-3">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Reason for Visit</label>
+                        <textarea
+                          rows={2}
+                          value={formData.notes}
+                          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                {formError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                    <p className="text-red-700 text-sm">{formError}</p>
+                  </div>
+                )}
+
+                {otpSent && (
+                  <button
+                    type="submit"
+                    disabled={submitting || !formData.otp}
+                    className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {submitting ? 'Booking...' : 'Book Appointment'}
+                  </button>
+                )}
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OnlineBooking;
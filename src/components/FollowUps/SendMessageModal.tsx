@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { X, MessageCircle, Send, Bot, Heart, Star, Link, User, Calendar, Phone, MapPin, Loader2, CheckCircle, AlertCircle, Zap } from 'lucide-react';
-import { Review, ClinicSetting } from '../../types';
+import { Review, ClinicSetting, Household } from '../../types';
 import { reviewService } from '../../services/reviewService';
 import { clinicSettingsService } from '../../services/clinicSettingsService';
+import { householdService } from '../../services/householdService';
+import { chooseMessageRecipient, getRelationshipLabel } from '../../utils/households';
 import { format } from 'date-fns';
 import { toTitleCase } from '../../utils/stringUtils';
 import { useAuth } from '../Auth/useAuth';
@@ -44,9 +46,12 @@ const SendMessageModal: React.FC<SendMessageModalProps> = ({
   const [sendingDirectly, setSendingDirectly] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [recipientId, setRecipientId] = useState(review.patientId);
 
   useEffect(() => {
     loadSettings();
+    loadHousehold();
   }, []);
 
   // Auto-select message types based on messageType prop
@@ -76,7 +81,7 @@ const SendMessageModal: React.FC<SendMessageModalProps> = ({
         }
       });
     }
-  }, [selectedMessageTypes]);
+  }, [selectedMessageTypes, recipientId]);
 
   const loadSettings = async () => {
     try {
@@ -92,6 +97,31 @@ const SendMessageModal: React.FC<SendMessageModalProps> = ({
     }
   };
 
+  // Several patients can share a number; pick the household member the message should be addressed to
+  const loadHousehold = async () => {
+    try {
+      const patientHousehold = await householdService.getPatientHousehold(review.patientId);
+      const patient = patientHousehold?.members.find(member => member.id === review.patientId);
+      if (!patientHousehold || !patient || patientHousehold.members.length < 2) return;
+
+      setHousehold(patientHousehold);
+      handleRecipientChange(chooseMessageRecipient(patient, patientHousehold).id);
+    } catch (err) {
+      // Fall back to messaging the patient directly
+      console.error('Error loading household:', err);
+    }
+  };
+
+  const handleRecipientChange = (memberId: string) => {
+    if (memberId === recipientId) return;
+    setRecipientId(memberId);
+    setMessageContents({}); // Regenerated for the new recipient
+  };
+
+  const recipient = household?.members.find(member => member.id === recipientId);
+  const recipientPhone = recipient?.phone || review.contactNumber;
+  const recipientName = recipient && recipient.id !== review.patientId ? toTitleCase(recipient.name) : undefined;
+
   const getMessageOptions = (): MessageOption[] => {
     if (!clinicSettings) return [];
 
@@ -176,7 +206,8 @@ const SendMessageModal: React.FC<SendMessageModalProps> = ({
         review,
         messageType: option.type,
         clinicSettings,
-        followUpDate
+        followUpDate,
+        recipientName
       });
 
       setMessageContents(prev => ({
@@ -199,13 +230,13 @@ const SendMessageModal: React.FC<SendMessageModalProps> = ({
   };
 
   const handleSendManually = async (messageType: string) => {
-    if (!messageContents[messageType] || !review.contactNumber) return;
+    if (!messageContents[messageType] || !recipientPhone) return;
 
     try {
       setSendingManually(messageType);
       setError(null);
 
-      reviewService.sendManually(review.contactNumber, messageContents[messageType]);
+      reviewService.sendManually(recipientPhone, messageContents[messageType]);
       
       // Log the sent message
       try {
@@ -255,7 +286,7 @@ const SendMessageModal: React.FC<SendMessageModalProps> = ({
         if (messageContents[messageType]) {
           try {
             await reviewService.sendDirectly(
-              review.contactNumber,
+              recipientPhone,
               messageContents[messageType],
               clinicSettings.id
             );
@@ -385,10 +416,29 @@ const SendMessageModal: React.FC<SendMessageModalProps> = ({
                 <Phone className="w-4 h-4 text-blue-600" />
                 <div>
                   <p className="text-sm text-blue-600">Contact Number</p>
-                  <p className="font-medium text-blue-800">{review.contactNumber}</p>
+                  <p className="font-medium text-blue-800">{recipientPhone}</p>
                 </div>
               </div>
 
+              {household && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm text-blue-600 mb-1">Send To</label>
+                  <select
+                    value={recipientId}
+                    onChange={(e) => handleRecipientChange(e.target.value)}
+                    className="w-full px-3 py-2 border border-blue-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {household.members.filter(member => member.phone).map(member => (
+                      <option key={member.id} value={member.id}>
+                        {toTitleCase(member.name)}
+                        {member.id === review.patientId ? ' (patient)' : ` (${getRelationshipLabel(member.household_relationship) || 'household member'})`}
+                        {' – '}{member.phone}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div className="flex items-center gap-2">
                 <Calendar className="w-4 h-4 text-blue-600" />
                 <div>
@@ -10,6 +10,7 @@ import {
   Menu,
   X,
   CalendarDays,
+  ListOrdered,
   CreditCard,
   LogOut,
   User,
@@ -26,6 +27,7 @@ const MobileNav: React.FC = () => {
 
   const navItems = [
     { path: '/', icon: CalendarDays, label: 'Appointments' },
+    { path: '/queue', icon: ListOrdered, label: 'Token Queue' },
     { path: '/visits', icon: Activity, label: 'Visits' },
     { path: '/patients', icon: Users, label: 'Patients' },
     { path: '/follow-ups', icon: Calendar, label: 'Follow-ups' },
@@ -8,12 +8,16 @@ import {
   Settings,
   Activity,
   CalendarDays,
+  ListOrdered,
   CreditCard,
   LogOut,
   Pill,
   Clock,
   Star,
-  TrendingUp
+  TrendingUp,
+  Stethoscope,
+  HandCoins,
+  Banknote
 } from 'lucide-react';
 import { useAuth } from '../Auth/useAuth';
 
@@ -23,15 +27,19 @@ const Navigation: React.FC = () => {
 
   const navItems = [
     { path: '/', icon: CalendarDays, label: 'Appointments', description: 'Schedule & manage appointments' },
+    { path: '/queue', icon: ListOrdered, label: 'Token Queue', description: 'Check-ins, walk-ins & live tokens' },
     { path: '/visits', icon: Activity, label: 'Visits', description: 'View all patient visits' },
     { path: '/patients', icon: Users, label: 'Patients', description: 'Manage patient records' },
     { path: '/follow-ups', icon: Calendar, label: 'Follow-ups', description: 'Track patient follow-ups' },
     { path: '/gmb-review-requests', icon: Star, label: 'GMB Review Requests', description: 'Send review requests to patients' },
     { path: '/billing', icon: CreditCard, label: 'Billing', description: 'Manage bills & payments' },
     { path: '/billing/reconciliation', icon: TrendingUp, label: 'Daily Collection', description: 'Daily payment reconciliation' },
+    { path: '/billing/shifts', icon: Banknote, label: 'Cash Drawer', description: 'Cashier shifts & Z-reports' },
+    { path: '/billing/payouts', icon: HandCoins, label: 'Doctor Payouts', description: 'Revenue sharing & settlements' },
     { path: '/pharmacy', icon: Pill, label: 'Pharmacy', description: 'Manage medicine inventory' },
     { path: '/pharmacy/invoice-upload', icon: FileText, label: 'Invoice Upload', description: 'AI-powered invoice processing' },
     { path: '/analytics', icon: BarChart3, label: 'Analytics', description: 'Reports & insights' },
+    { path: '/analytics/doctors', icon: Stethoscope, label: 'Doctor Revenue', description: 'Revenue & productivity by doctor' },
     { path: '/settings', icon: Settings, label: 'Settings', description: 'System configuration' },
     ...(user?.isOpenForConsultation ? [{ path: '/settings/availability', icon: Clock, label: 'My Availability', description: 'Set consultation hours' }] : [])
   ];
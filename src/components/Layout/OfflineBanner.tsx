@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { WifiOff, RefreshCw, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { format } from 'date-fns';
+import { OfflineMutation, OfflineSyncStatus } from '../../types';
+import { syncService } from '../../services/syncService';
+
+const describeMutation = (mutation: OfflineMutation): string => {
+  switch (mutation.type) {
+    case 'add_patient':
+      return `New patient: ${mutation.payload.name} (${mutation.payload.phone})`;
+    case 'add_visit':
+      return `Visit on ${format(mutation.payload.date, 'dd MMM yyyy')}${mutation.payload.chiefComplaint ? `: ${mutation.payload.chiefComplaint}` : ''}`;
+    case 'record_payment':
+      return `₹${mutation.payload.amount.toFixed(2)} ${mutation.payload.paymentMethod} payment`;
+  }
+};
+
+const OfflineBanner: React.FC = () => {
+  const [status, setStatus] = useState<OfflineSyncStatus | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    const refreshStatus = () => {
+      syncService.getStatus().then(setStatus);
+    };
+
+    refreshStatus();
+    const unsubscribe = syncService.subscribe(refreshStatus);
+    const stopAutoSync = syncService.startAutoSync();
+
+    return () => {
+      unsubscribe();
+      stopAutoSync();
+    };
+  }, []);
+
+  const handleResolve = async (mutation: OfflineMutation, resolution: 'discard' | 'apply') => {
+    if (mutation.id === undefined) return;
+    if (resolution === 'discard' && !confirm(`Discard this change? "${describeMutation(mutation)}" will not be saved.`)) return;
+
+    try {
+      await syncService.resolveMutation(mutation.id, resolution);
+    } catch (error) {
+      console.error('Error resolving offline change:', error);
+      alert(error instanceof Error ? error.message : 'Failed to resolve change');
+    }
+  };
+
+  if (!status || (status.online && status.pending === 0 && status.needsAttention.length === 0)) {
+    return null;
+  }
+
+  const attentionCount = status.needsAttention.length;
+
+  return (
+    <div className={`mb-6 rounded-lg border p-3 ${
+      attentionCount > 0 ? 'bg-red-50 border-red-200' : status.online ? 'bg-blue-50 border-blue-200' : 'bg-yellow-50 border-yellow-200'
+    }`}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          {status.online ? (
+            <RefreshCw className={`w-4 h-4 text-blue-600 ${status.syncing ? 'animate-spin' : ''}`} />
+          ) : (
+            <WifiOff className="w-4 h-4 text-yellow-700" />
+          )}
+          <span className="font-medium text-gray-800">
+            {status.online ? (status.syncing ? 'Syncing offline changes...' : 'Back online') : 'You are offline'}
+          </span>
+          <span className="text-gray-600">
+            {status.pending} {status.pending === 1 ? 'change' : 'changes'} waiting to sync
+            {!status.online && ' • showing saved data'}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {attentionCount > 0 && (
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="flex items-center gap-1 text-sm text-red-700 hover:text-red-800"
+            >
+              <AlertTriangle className="w-4 h-4" />
+              {attentionCount} need{attentionCount === 1 ? 's' : ''} review
+              {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+          )}
+          {status.online && status.pending > 0 && (
+            <button
+              onClick={() => syncService.syncPendingMutations()}
+              disabled={status.syncing}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Sync Now
+            </button>
+          )}
+        </div>
+      </div>
+
+      {expanded && attentionCount > 0 && (
+        <div className="mt-3 space-y-2">
+          {status.needsAttention.map(mutation => (
+            <div key={mutation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-white border border-red-200 rounded-lg">
+              <div className="text-sm">
+                <p className="font-medium text-gray-800">{describeMutation(mutation)}</p>
+                <p className="text-red-700">{mutation.conflictReason || mutation.lastError}</p>
+                <p className="text-xs text-gray-500">Entered {format(mutation.createdAt, 'dd MMM yyyy, hh:mm a')}</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleResolve(mutation, 'discard')}
+                  className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={() => handleResolve(mutation, 'apply')}
+                  disabled={!status.online}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {mutation.status === 'conflict' ? 'Save Anyway' : 'Retry'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineBanner;
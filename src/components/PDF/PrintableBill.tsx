@@ -2,6 +2,7 @@ import React from 'react';
 import { Bill, Patient, Profile, ClinicSetting } from '../../types';
 import { format } from 'date-fns';
 import { toTitleCase } from '../../utils/stringUtils';
+import { getLineTaxAmount, summarizeTaxByRate } from '../../utils/gstCalculator';
 
 interface PrintableBillProps {
   bill: Bill;
@@ -11,6 +12,10 @@ interface PrintableBillProps {
 }
 
 const PrintableBill: React.FC<PrintableBillProps> = ({ bill, patient, doctor, clinicSettings }) => {
+  const taxSummary = summarizeTaxByRate(bill.billItems);
+  const totalTaxable = taxSummary.reduce((sum, row) => sum + row.taxableValue, 0);
+  const totalTax = taxSummary.reduce((sum, row) => sum + row.taxAmount, 0);
+
   return (
     <div className="pdf-container p-8 text-black" style={{ fontFamily: 'Arial, sans-serif' }}>
       {/* Clinic Header */}
@@ -37,16 +42,20 @@ const PrintableBill: React.FC<PrintableBillProps> = ({ bill, patient, doctor, cl
           {clinicSettings.registrationNumber && (
             <p>Registration No: {clinicSettings.registrationNumber}</p>
           )}
+          {clinicSettings.taxId && (
+            <p className="font-medium">GSTIN: {clinicSettings.taxId}</p>
+          )}
         </div>
       </div>
 
       {/* Bill Header */}
       <div className="pdf-section flex justify-between items-start mb-6">
         <div>
-          <h2 className="text-xl font-bold text-gray-800 mb-2">BILL / INVOICE</h2>
+          <h2 className="text-xl font-bold text-gray-800 mb-2">TAX INVOICE</h2>
           <div className="text-sm space-y-1">
-            <p><strong>Bill No:</strong> {bill.billNumber}</p>
+            <p><strong>Invoice No:</strong> {bill.billNumber}</p>
             <p><strong>Date:</strong> {format(bill.billDate, 'dd/MM/yyyy')}</p>
+            <p><strong>Supply Type:</strong> {bill.isInterState ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}</p>
             {bill.visit && (
               <p><strong>Visit Date:</strong> {format(bill.visit.date, 'dd/MM/yyyy')}</p>
             )}
@@ -57,6 +66,7 @@ const PrintableBill: React.FC<PrintableBillProps> = ({ bill, patient, doctor, cl
             bill.paymentStatus === 'paid' ? 'bg-green-100 text-green-800' :
             bill.paymentStatus === 'pending' ? 'bg-yellow-100 text-yellow-800' :
             bill.paymentStatus === 'partial' ? 'bg-blue-100 text-blue-800' :
+            bill.paymentStatus === 'cancelled' ? 'bg-gray-100 text-gray-800' :
             'bg-red-100 text-red-800'
           }`}>
             {bill.paymentStatus.toUpperCase()}
@@ -98,21 +108,76 @@ const PrintableBill: React.FC<PrintableBillProps> = ({ bill, patient, doctor, cl
             <tr className="pdf-no-break-inside bg-gray-100">
               <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">S.No</th>
               <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">Item Description</th>
-              <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">Type</th>
+              <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">HSN/SAC</th>
               <th className="border border-gray-300 px-3 py-2 text-center text-sm font-medium">Qty</th>
               <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Unit Price (₹)</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Disc %</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Taxable (₹)</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">GST %</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Tax (₹)</th>
               <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Total (₹)</th>
             </tr>
           </thead>
           <tbody>
-            {bill.billItems.map((item, index) => (
-              <tr key={item.id} className="pdf-table-row">
-                <td className="border border-gray-300 px-3 py-2 text-sm">{index + 1}</td>
-                <td className="border border-gray-300 px-3 py-2 text-sm">{item.itemName}</td>
-                <td className="border border-gray-300 px-3 py-2 text-sm capitalize">{item.itemType}</td>
-                <td className="border border-gray-300 px-3 py-2 text-center text-sm">{item.quantity}</td>
-                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.unitPrice.toFixed(2)}</td>
-                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.totalPrice.toFixed(2)}</td>
+            {bill.billItems.map((item, index) => {
+              const taxAmount = getLineTaxAmount(item);
+              return (
+                <tr key={item.id} className="pdf-table-row">
+                  <td className="border border-gray-300 px-3 py-2 text-sm">{index + 1}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-sm">
+                    {item.itemName}
+                    <div className="text-xs text-gray-500 capitalize">{item.itemType}</div>
+                  </td>
+                  <td className="border border-gray-300 px-3 py-2 text-sm">{item.hsnSacCode || '-'}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-center text-sm">{item.quantity}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.unitPrice.toFixed(2)}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">{(item.discount || 0).toFixed(2)}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">{(item.taxableValue ?? item.totalPrice - taxAmount).toFixed(2)}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">
+                    {(item.tax || 0) === 0 ? 'Exempt' : `${item.tax}%`}
+                  </td>
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">{taxAmount.toFixed(2)}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.totalPrice.toFixed(2)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Tax Summary */}
+      <div className="pdf-section pdf-no-break-inside mb-6">
+        <h3 className="pdf-section-header font-bold text-gray-800 mb-3">TAX SUMMARY</h3>
+        <table className="w-full border-collapse border border-gray-300">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">GST Rate</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Taxable Value (₹)</th>
+              {bill.isInterState ? (
+                <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">IGST (₹)</th>
+              ) : (
+                <>
+                  <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">CGST (₹)</th>
+                  <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">SGST (₹)</th>
+                </>
+              )}
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Total Tax (₹)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {taxSummary.map(row => (
+              <tr key={row.rate}>
+                <td className="border border-gray-300 px-3 py-2 text-sm">{row.rate === 0 ? 'Exempt / Nil' : `${row.rate}%`}</td>
+                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{row.taxableValue.toFixed(2)}</td>
+                {bill.isInterState ? (
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">{row.igstAmount.toFixed(2)}</td>
+                ) : (
+                  <>
+                    <td className="border border-gray-300 px-3 py-2 text-right text-sm">{row.cgstAmount.toFixed(2)}</td>
+                    <td className="border border-gray-300 px-3 py-2 text-right text-sm">{row.sgstAmount.toFixed(2)}</td>
+                  </>
+                )}
+                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{row.taxAmount.toFixed(2)}</td>
               </tr>
             ))}
           </tbody>
@@ -126,10 +191,24 @@ const PrintableBill: React.FC<PrintableBillProps> = ({ bill, patient, doctor, cl
             <h4 className="font-bold text-gray-800">PAYMENT SUMMARY</h4>
           </div>
           <div className="p-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Taxable Value:</span>
+              <span className="font-medium">₹{totalTaxable.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Total GST:</span>
+              <span className="font-medium">₹{totalTax.toFixed(2)}</span>
+            </div>
             <div className="flex justify-between">
               <span>Total Amount:</span>
               <span className="font-medium">₹{bill.totalAmount.toFixed(2)}</span>
             </div>
+            {(bill.creditedAmount || 0) > 0 && (
+              <div className="flex justify-between">
+                <span>Credit Notes:</span>
+                <span className="font-medium">-₹{(bill.creditedAmount || 0).toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span>Paid Amount:</span>
               <span className="font-medium text-green-600">₹{bill.paidAmount.toFixed(2)}</span>
@@ -150,6 +229,16 @@ const PrintableBill: React.FC<PrintableBillProps> = ({ bill, patient, doctor, cl
         </div>
       </div>
 
+      {/* Void */}
+      {bill.voidedAt && (
+        <div className="pdf-section mb-6">
+          <h3 className="font-bold text-gray-800 mb-2">VOID</h3>
+          <p className="text-sm text-red-700 border border-red-300 bg-red-50 rounded p-3">
+            This invoice was voided on {format(bill.voidedAt, 'dd/MM/yyyy')}{bill.voidReason ? `: ${bill.voidReason}` : ''}
+          </p>
+        </div>
+      )}
+
       {/* Notes */}
       {bill.notes && (
         <div className="pdf-section mb-6">
@@ -160,10 +249,10 @@ const PrintableBill: React.FC<PrintableBillProps> = ({ bill, patient, doctor, cl
 
       {/* Footer */}
       <div className="pdf-footer pdf-page-break-before border-t-2 border-gray-300 pt-4 text-center text-xs text-gray-500">
-        <p>This is a computer-generated bill and does not require a signature.</p>
+        <p>This is a computer-generated tax invoice and does not require a signature.</p>
         <p className="mt-1">Generated on {format(new Date(), 'dd/MM/yyyy HH:mm')}</p>
         {clinicSettings.taxId && (
-          <p className="mt-1">Tax ID: {clinicSettings.taxId}</p>
+          <p className="mt-1">GSTIN: {clinicSettings.taxId}</p>
         )}
       </div>
     </div>
@@ -0,0 +1,169 @@
+import React from 'react';
+import { Bill, CreditNote, Patient, ClinicSetting } from '../../types';
+import { format } from 'date-fns';
+import { toTitleCase } from '../../utils/stringUtils';
+import { getLineTaxAmount } from '../../utils/gstCalculator';
+
+interface PrintableCreditNoteProps {
+  creditNote: CreditNote;
+  bill: Bill;
+  patient: Patient;
+  clinicSettings: ClinicSetting;
+}
+
+const PrintableCreditNote: React.FC<PrintableCreditNoteProps> = ({ creditNote, bill, patient, clinicSettings }) => {
+  const totalTaxable = creditNote.items.reduce((sum, item) => sum + item.taxableValue, 0);
+  const totalTax = creditNote.items.reduce((sum, item) => sum + getLineTaxAmount(item), 0);
+
+  return (
+    <div className="pdf-container p-8 text-black" style={{ fontFamily: 'Arial, sans-serif' }}>
+      {/* Clinic Header */}
+      <div className="pdf-header text-center border-b-2 border-gray-300 pb-6 mb-6">
+        {clinicSettings.logoUrl && clinicSettings.logoUrl.trim() && !clinicSettings.logoUrl.includes('example.com') && (
+          <img
+            src={clinicSettings.logoUrl}
+            alt={clinicSettings.clinicName}
+            className="mx-auto mb-4 h-16 object-contain"
+            onError={(e) => {
+              console.warn('Failed to load clinic logo:', clinicSettings.logoUrl);
+              e.currentTarget.style.display = 'none';
+            }}
+          />
+        )}
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">{clinicSettings.clinicName}</h1>
+        <div className="text-sm text-gray-600 space-y-1">
+          <p>{clinicSettings.address}</p>
+          <div className="flex justify-center gap-4">
+            <span>📞 {clinicSettings.phone}</span>
+            {clinicSettings.email && <span>✉️ {clinicSettings.email}</span>}
+            {clinicSettings.website && <span>🌐 {clinicSettings.website}</span>}
+          </div>
+          {clinicSettings.registrationNumber && (
+            <p>Registration No: {clinicSettings.registrationNumber}</p>
+          )}
+          {clinicSettings.taxId && (
+            <p className="font-medium">GSTIN: {clinicSettings.taxId}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Credit Note Header */}
+      <div className="pdf-section mb-6">
+        <h2 className="text-xl font-bold text-gray-800 mb-2">CREDIT NOTE</h2>
+        <div className="text-sm space-y-1">
+          <p><strong>Credit Note No:</strong> {creditNote.creditNoteNumber}</p>
+          <p><strong>Date:</strong> {format(creditNote.creditDate, 'dd/MM/yyyy')}</p>
+        </div>
+      </div>
+
+      {/* Patient & Original Invoice */}
+      <div className="pdf-section grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div className="pdf-no-break-inside border border-gray-300 rounded p-4">
+          <h3 className="font-bold text-gray-800 mb-3">PATIENT DETAILS</h3>
+          <div className="text-sm space-y-1">
+            <p><strong>Name:</strong> {toTitleCase(patient.name)}</p>
+            <p><strong>Phone:</strong> {patient.phone}</p>
+            <p><strong>Address:</strong> {patient.address}</p>
+          </div>
+        </div>
+
+        <div className="pdf-no-break-inside border border-gray-300 rounded p-4">
+          <h3 className="font-bold text-gray-800 mb-3">ORIGINAL INVOICE</h3>
+          <div className="text-sm space-y-1">
+            <p><strong>Invoice No:</strong> {bill.billNumber}</p>
+            <p><strong>Invoice Date:</strong> {format(bill.billDate, 'dd/MM/yyyy')}</p>
+            <p><strong>Supply Type:</strong> {bill.isInterState ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}</p>
+            <p><strong>Reason:</strong> {creditNote.reason}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Credited Items Table */}
+      <div className="pdf-section mb-6">
+        <h3 className="pdf-section-header font-bold text-gray-800 mb-3">CREDITED ITEMS</h3>
+        <table className="w-full border-collapse border border-gray-300">
+          <thead>
+            <tr className="pdf-no-break-inside bg-gray-100">
+              <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">S.No</th>
+              <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">Item Description</th>
+              <th className="border border-gray-300 px-3 py-2 text-left text-sm font-medium">HSN/SAC</th>
+              <th className="border border-gray-300 px-3 py-2 text-center text-sm font-medium">Qty</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Unit Price (₹)</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Disc %</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Taxable (₹)</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">GST %</th>
+              {bill.isInterState ? (
+                <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">IGST (₹)</th>
+              ) : (
+                <>
+                  <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">CGST (₹)</th>
+                  <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">SGST (₹)</th>
+                </>
+              )}
+              <th className="border border-gray-300 px-3 py-2 text-right text-sm font-medium">Total (₹)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {creditNote.items.map((item, index) => (
+              <tr key={item.id} className="pdf-table-row">
+                <td className="border border-gray-300 px-3 py-2 text-sm">{index + 1}</td>
+                <td className="border border-gray-300 px-3 py-2 text-sm">{item.itemName}</td>
+                <td className="border border-gray-300 px-3 py-2 text-sm">{item.hsnSacCode || '-'}</td>
+                <td className="border border-gray-300 px-3 py-2 text-center text-sm">{item.quantity}</td>
+                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.unitPrice.toFixed(2)}</td>
+                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{(item.discount || 0).toFixed(2)}</td>
+                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.taxableValue.toFixed(2)}</td>
+                <td className="border border-gray-300 px-3 py-2 text-right text-sm">
+                  {(item.tax || 0) === 0 ? 'Exempt' : `${item.tax}%`}
+                </td>
+                {bill.isInterState ? (
+                  <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.igstAmount.toFixed(2)}</td>
+                ) : (
+                  <>
+                    <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.cgstAmount.toFixed(2)}</td>
+                    <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.sgstAmount.toFixed(2)}</td>
+                  </>
+                )}
+                <td className="border border-gray-300 px-3 py-2 text-right text-sm">{item.totalPrice.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Credit Summary */}
+      <div className="pdf-section flex justify-end mb-6">
+        <div className="pdf-no-break-inside w-64 border border-gray-300 rounded">
+          <div className="bg-gray-100 px-4 py-2 border-b border-gray-300">
+            <h4 className="font-bold text-gray-800">CREDIT SUMMARY</h4>
+          </div>
+          <div className="p-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Taxable Value:</span>
+              <span className="font-medium">₹{totalTaxable.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Total GST:</span>
+              <span className="font-medium">₹{totalTax.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between border-t border-gray-300 pt-2">
+              <span className="font-bold">Credit Amount:</span>
+              <span className="font-bold">₹{creditNote.totalAmount.toFixed(2)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="pdf-footer pdf-page-break-before border-t-2 border-gray-300 pt-4 text-center text-xs text-gray-500">
+        <p>This is a computer-generated credit note and does not require a signature.</p>
+        <p className="mt-1">Generated on {format(new Date(), 'dd/MM/yyyy HH:mm')}</p>
+        {clinicSettings.taxId && (
+          <p className="mt-1">GSTIN: {clinicSettings.taxId}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrintableCreditNote;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { X, Search, ClipboardList, Users } from 'lucide-react';
+import { VisitTemplate, VisitTemplateField, TemplateMergeMode } from '../../types';
+import { visitTemplateService } from '../../services/visitTemplateService';
+import { VISIT_TEMPLATE_FIELDS, defaultMergeModes } from '../../utils/visitTemplates';
+
+interface ApplyTemplateModalProps {
+  onApply: (template: VisitTemplate, modes: Record<VisitTemplateField, TemplateMergeMode>) => void;
+  onClose: () => void;
+}
+
+const summarizeField = (template: VisitTemplate, field: VisitTemplateField): string => {
+  switch (field) {
+    case 'symptoms':
+    case 'diagnoses':
+      return template[field].map(row => row.name).join(', ');
+    case 'prescriptions':
+      return template.prescriptions.map(row => `${row.medicine} ${row.dosage} ${row.frequency}`).join(', ');
+    case 'testsOrdered':
+      return template.testsOrdered.map(row => row.testName).join(', ');
+    case 'advice':
+      return template.advice.join('; ');
+  }
+};
+
+const ApplyTemplateModal: React.FC<ApplyTemplateModalProps> = ({ onApply, onClose }) => {
+  const [templates, setTemplates] = useState<VisitTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selected, setSelected] = useState<VisitTemplate | null>(null);
+  const [modes, setModes] = useState<Record<VisitTemplateField, TemplateMergeMode> | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await visitTemplateService.getTemplates();
+      setTemplates(data);
+    } catch (err) {
+      console.error('Error loading visit templates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectTemplate = (template: VisitTemplate) => {
+    setSelected(template);
+    setModes(defaultMergeModes(template));
+  };
+
+  const filteredTemplates = templates.filter(template =>
+    template.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    template.description?.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold">Apply Template</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <div className="relative mb-3">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                placeholder="Search templates..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : error ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            ) : filteredTemplates.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-2" />
+                <p className="text-sm">No templates found. Save a visit as a template to reuse it here.</p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {filteredTemplates.map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => selectTemplate(template)}
+                    className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                      selected?.id === template.id
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-800">{template.name}</span>
+                      {template.isShared && (
+                        <span className="flex items-center gap-1 text-xs text-green-700">
+                          <Users className="w-3 h-3" />
+                          Shared
+                        </span>
+                      )}
+                    </div>
+                    {template.description && (
+                      <p className="text-xs text-gray-600 mt-1">{template.description}</p>
+                    )}
+                    {template.ownerName && (
+                      <p className="text-xs text-gray-500 mt-1">By {template.ownerName}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            {selected && modes ? (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Choose how each part of <strong>{selected.name}</strong> is combined with what is already on the visit.
+                </p>
+                {VISIT_TEMPLATE_FIELDS.map(({ field, label }) => (
+                  <div key={field} className="p-3 border border-gray-200 rounded-lg">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-700">
+                        {label} ({selected[field].length})
+                      </span>
+                      <select
+                        value={modes[field]}
+                        onChange={(e) => setModes({ ...modes, [field]: e.target.value as TemplateMergeMode })}
+                        disabled={selected[field].length === 0}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                      >
+                        <option value="append">Add to visit</option>
+                        <option value="replace">Replace</option>
+                        <option value="skip">Skip</option>
+                      </select>
+                    </div>
+                    {selected[field].length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">{summarizeField(selected, field)}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12 text-sm text-gray-500">
+                Select a template to preview it.
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => selected && modes && onApply(selected, modes)}
+            disabled={!selected}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Apply Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyTemplateModal;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { X, Users, History, Undo2, GitMerge } from 'lucide-react';
+import { format } from 'date-fns';
+import { DuplicatePatientCandidate, PatientMerge } from '../../types';
+import { patientMergeService } from '../../services/patientMergeService';
+import { DEFAULT_DUPLICATE_THRESHOLD } from '../../utils/patientMatching';
+import { toTitleCase } from '../../utils/stringUtils';
+import MergePatientsModal from './MergePatientsModal';
+
+interface DuplicatePatientsModalProps {
+  onClose: () => void;
+  onPatientsChanged: () => void;
+}
+
+const scoreBadgeClass = (score: number) => {
+  if (score >= 85) return 'bg-red-100 text-red-700';
+  if (score >= 70) return 'bg-orange-100 text-orange-700';
+  return 'bg-yellow-100 text-yellow-700';
+};
+
+const DuplicatePatientsModal: React.FC<DuplicatePatientsModalProps> = ({ onClose, onPatientsChanged }) => {
+  const [activeTab, setActiveTab] = useState<'duplicates' | 'history'>('duplicates');
+  const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD);
+  const [candidates, setCandidates] = useState<DuplicatePatientCandidate[]>([]);
+  const [merges, setMerges] = useState<PatientMerge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<DuplicatePatientCandidate | null>(null);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (activeTab === 'duplicates') {
+      loadCandidates();
+    } else {
+      loadMerges();
+    }
+  }, [activeTab, threshold]);
+
+  const loadCandidates = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setCandidates(await patientMergeService.findDuplicates(threshold));
+    } catch (err) {
+      console.error('Error finding duplicate patients:', err);
+      setError(err instanceof Error ? err.message : 'Failed to find duplicate patients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMerges = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setMerges(await patientMergeService.getMergeLog());
+    } catch (err) {
+      console.error('Error loading merge history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load merge history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUndo = async (merge: PatientMerge) => {
+    if (!confirm(`Undo the merge of ${toTitleCase(merge.mergedPatientName || 'this patient')}? Their records will move back to them.`)) return;
+
+    try {
+      setUndoingId(merge.id);
+      await patientMergeService.undoMerge(merge.id);
+      await loadMerges();
+      onPatientsChanged();
+    } catch (err) {
+      console.error('Error undoing patient merge:', err);
+      alert(err instanceof Error ? err.message : 'Failed to undo merge');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const countMoved = (merge: PatientMerge) =>
+    Object.values(merge.movedRecords).reduce((sum, ids) => sum + ids.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold">Duplicate Patients</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="border-b border-gray-200 px-6">
+          <nav className="-mb-px flex space-x-8">
+            {[
+              { id: 'duplicates' as const, label: 'Possible Duplicates', icon: Users },
+              { id: 'history' as const, label: 'Merge History', icon: History }
+            ].map(tab => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`flex items-center gap-2 py-3 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === tab.id
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {tab.label}
+                </button>
+              );
+            })}
+          </nav>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {activeTab === 'duplicates' && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <p className="text-sm text-gray-600">
+                Pairs are scored on name, phone, age and gender. Review each pair before merging.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+                Minimum score
+                <select
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {[50, 60, 70, 80, 90].map(value => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : activeTab === 'duplicates' ? (
+            candidates.length === 0 ? (
+              <div className="text-center py-12">
+                <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-500">No likely duplicates found</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {candidates.map(candidate => (
+                  <div
+                    key={`${candidate.patient.id}:${candidate.duplicate.id}`}
+                    className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-lg"
+                  >
+                    <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {[candidate.patient, candidate.duplicate].map(record => (
+                        <div key={record.id} className="text-sm">
+                          <div className="font-medium text-gray-800">{toTitleCase(record.name)}</div>
+                          <div className="text-gray-600">{record.phone} • {record.age} years • {record.gender}</div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="text-right">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${scoreBadgeClass(candidate.score)}`}>
+                          {candidate.score}% match
+                        </span>
+                        <div className="text-xs text-gray-500 mt-1">{candidate.reasons.join(' • ')}</div>
+                      </div>
+                      <button
+                        onClick={() => setReviewing(candidate)}
+                        className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap"
+                      >
+                        <GitMerge className="w-4 h-4" />
+                        Review
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : merges.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No patients have been merged yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Merged</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Into</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Records Moved</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">By</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {merges.map(merge => (
+                    <tr key={merge.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm">
+                        <div className="font-medium text-gray-800">{toTitleCase(merge.mergedPatientName || '')}</div>
+                        <div className="text-gray-500">{merge.mergedPatientPhone}</div>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-800">{toTitleCase(merge.survivorName || '')}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{countMoved(merge)}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        <div>{merge.mergedByName || '—'}</div>
+                        <div className="text-xs text-gray-500">{format(merge.mergedAt, 'dd MMM yyyy, hh:mm a')}</div>
+                      </td>
+                      <td className="py-3 px-4">
+                        {merge.undoneAt ? (
+                          <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700">
+                            Undone {format(merge.undoneAt, 'dd MMM yyyy')}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleUndo(merge)}
+                            disabled={undoingId === merge.id}
+                            className="flex items-center gap-1 px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                          >
+                            <Undo2 className="w-4 h-4" />
+                            {undoingId === merge.id ? 'Undoing...' : 'Undo'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {reviewing && (
+        <MergePatientsModal
+          patient={reviewing.patient}
+          duplicate={reviewing.duplicate}
+          onClose={() => setReviewing(null)}
+          onMerged={() => {
+            setReviewing(null);
+            loadCandidates();
+            onPatientsChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DuplicatePatientsModal;
@@ -1,12 +1,18 @@
-import React, { useState, useEffect } from 'react';
-import { Save, Plus, Trash2, Calendar } from 'lucide-react';
-import { Patient, Visit, Prescription, Symptom, Diagnosis, TestOrdered, Profile } from '../../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Save, Plus, Trash2, Calendar, ShieldAlert, Calculator, ClipboardList, BookmarkPlus } from 'lucide-react';
+import { Patient, Visit, Prescription, Symptom, Diagnosis, TestOrdered, Profile, MedicineMaster, DrugSafetyRule, PrescriptionSafetyOverride, VisitTemplate, VisitTemplateField, TemplateMergeMode } from '../../types';
 import { getCurrentProfile } from '../../services/profileService';
 import { visitService } from '../../services/visitService';
 import { masterDataService } from '../../services/masterDataService';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../Auth/useAuth';
 import { toTitleCase } from '../../utils/stringUtils';
+import { checkPrescriptionSafety } from '../../utils/prescriptionSafety';
+import { calculatePaediatricDose, checkDoseAgainstMaximum, DoseSuggestion } from '../../utils/doseCalculator';
+import { mergeTemplateRows, templateRowKeys } from '../../utils/visitTemplates';
+import { isOfflineId } from '../../lib/offlineStore';
+import ApplyTemplateModal from './ApplyTemplateModal';
+import VisitTemplateModal from '../Settings/VisitTemplateModal';
 
 interface EMRFormProps {
   patient: Patient;
@@ -32,9 +38,20 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
   const { user } = useAuth();
   const [saving, setSaving] = useState(false);
   const [medicines, setMedicines] = useState<string[]>([]);
+  const [medicineMaster, setMedicineMaster] = useState<MedicineMaster[]>([]);
+  const [safetyRules, setSafetyRules] = useState<DrugSafetyRule[]>([]);
+  const [overrideReasons, setOverrideReasons] = useState<Record<string, string>>(() => {
+    const reasons: Record<string, string> = {};
+    existingVisit?.safetyOverrides?.forEach(override => {
+      reasons[override.alertKey] = override.reason;
+    });
+    return reasons;
+  });
   const [doctors, setDoctors] = useState<Profile[]>([]);
   const [selectedDoctorId, setSelectedDoctorId] = useState(existingVisit?.doctorId || '');
   const [visitDate, setVisitDate] = useState(initialVisitDate);
+  const [showApplyTemplate, setShowApplyTemplate] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
 
   // Helper function to convert existing visit data to form format
   const convertExistingVisitToFormData = (visit: Visit) => {
@@ -91,7 +108,7 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
             height: ocrData.vitals.height || ''
           },
           diagnoses: ocrData.diagnoses || [] as Omit<Diagnosis, 'id' | 'visitId' | 'createdAt'>[],
-          prescriptions: ocrData.prescriptions?.map((prescription, index) => ({
+          prescriptions: ocrData.prescriptions?.map((prescription, index): Prescription => ({
             id: `prescription_${Date.now()}_${index}`,
             visitId: '',
             medicine: prescription.medicine,
@@ -116,6 +133,7 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
     if (user) {
       loadMedicines();
       loadDoctors();
+      loadSafetyRules();
     }
   }, [user]);
 
@@ -138,11 +156,22 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
       const clinicId = user?.clinicId;
       const medicineData = await masterDataService.getMedicines(clinicId);
       setMedicines(medicineData.map(m => m.name));
+      setMedicineMaster(medicineData);
     } catch (error) {
       console.error('Error loading medicines:', error);
     }
   };
 
+  const loadSafetyRules = async () => {
+    try {
+      const rules = await masterDataService.getDrugSafetyRules({ activeOnly: true });
+      setSafetyRules(rules);
+    } catch (error) {
+      // Built-in allergy and contraindication checks still run without clinic rules
+      console.error('Error loading drug safety rules:', error);
+    }
+  };
+
   const loadDoctors = async () => {
     try {
       console.log('Loading doctors...');
@@ -273,11 +302,59 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
     setFormData(prev => ({
       ...prev,
       prescriptions: prev.prescriptions.map((prescription, i) =>
-        i === index ? { ...prescription, [field]: value } : prescription
+        i === index ? {
+          ...prescription,
+          [field]: value,
+          // A hand-edited dose no longer matches the printed working
+          ...(field === 'medicine' || field === 'dosage' || field === 'frequency' ? { doseCalculation: undefined } : {})
+        } : prescription
+      )
+    }));
+  };
+
+  const applyDoseSuggestion = (index: number, suggestion: DoseSuggestion) => {
+    setFormData(prev => ({
+      ...prev,
+      prescriptions: prev.prescriptions.map((prescription, i) =>
+        i === index ? {
+          ...prescription,
+          dosage: suggestion.dosage,
+          frequency: suggestion.frequency,
+          quantity: suggestion.quantity ?? prescription.quantity,
+          doseCalculation: suggestion.calculation
+        } : prescription
       )
     }));
   };
 
+  // Weight-based suggestion and maximum-dose warning for medicines with a dosing rule
+  const getDoseGuidance = (prescription: Prescription) => {
+    const master = medicineMaster.find(medicine => medicine.name.toLowerCase() === prescription.medicine.trim().toLowerCase());
+    if (!master?.dosingRule) return null;
+
+    const weightKg = parseFloat(formData.vitals.weight);
+    const suggestion = weightKg > 0
+      ? calculatePaediatricDose({
+          rule: master.dosingRule,
+          strength: master.strength,
+          dosageForm: master.dosageForm,
+          weightKg,
+          ageYears: patient.age,
+          frequency: prescription.frequency,
+          duration: prescription.duration
+        })
+      : undefined;
+    const warning = checkDoseAgainstMaximum({
+      rule: master.dosingRule,
+      strength: master.strength,
+      dosageForm: master.dosageForm,
+      dosage: prescription.dosage,
+      frequency: prescription.frequency
+    });
+
+    return { hasWeight: weightKg > 0, suggestion, warning };
+  };
+
   const removePrescription = (index: number) => {
     setFormData(prev => ({
       ...prev,
@@ -335,6 +412,78 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
     }));
   };
 
+  // OCR fills symptoms and diagnoses as plain names; templates work on full rows
+  const currentSymptomRows = () => formData.symptoms.map(symptom =>
+    typeof symptom === 'string'
+      ? { name: symptom, severity: undefined, duration: undefined, notes: undefined }
+      : { name: symptom.name, severity: symptom.severity, duration: symptom.duration, notes: symptom.notes }
+  );
+
+  const currentDiagnosisRows = () => formData.diagnoses.map(diagnosis =>
+    typeof diagnosis === 'string'
+      ? { name: diagnosis, icd10Code: undefined, isPrimary: false, notes: undefined }
+      : { name: diagnosis.name, icd10Code: diagnosis.icd10Code, isPrimary: diagnosis.isPrimary, notes: diagnosis.notes }
+  );
+
+  const applyTemplate = (template: VisitTemplate, modes: Record<VisitTemplateField, TemplateMergeMode>) => {
+    const stamp = Date.now();
+    const templatePrescriptions = template.prescriptions.map((prescription, index): Prescription => ({
+      ...prescription,
+      id: `prescription_${stamp}_${index}`,
+      visitId: '',
+      createdAt: new Date()
+    }));
+    const templateTests = template.testsOrdered.map(test => ({
+      ...test,
+      status: 'ordered' as const,
+      orderedDate: new Date(),
+      expectedDate: undefined
+    }));
+
+    setFormData(prev => ({
+      ...prev,
+      symptoms: mergeTemplateRows(currentSymptomRows(), template.symptoms, modes.symptoms, templateRowKeys.symptoms),
+      diagnoses: mergeTemplateRows(currentDiagnosisRows(), template.diagnoses, modes.diagnoses, templateRowKeys.diagnoses),
+      prescriptions: mergeTemplateRows(prev.prescriptions, templatePrescriptions, modes.prescriptions, templateRowKeys.prescriptions),
+      testsOrdered: mergeTemplateRows(prev.testsOrdered, templateTests, modes.testsOrdered, templateRowKeys.testsOrdered),
+      advice: mergeTemplateRows(prev.advice, template.advice, modes.advice, templateRowKeys.advice)
+    }));
+    setShowApplyTemplate(false);
+  };
+
+  const getTemplateContents = () => ({
+    symptoms: currentSymptomRows().filter(symptom => symptom.name.trim()),
+    diagnoses: currentDiagnosisRows().filter(diagnosis => diagnosis.name.trim()),
+    prescriptions: formData.prescriptions
+      .filter(prescription => prescription.medicine.trim())
+      .map(prescription => ({
+        medicineId: prescription.medicineId,
+        medicine: prescription.medicine,
+        dosage: prescription.dosage,
+        frequency: prescription.frequency,
+        duration: prescription.duration,
+        instructions: prescription.instructions,
+        quantity: prescription.quantity
+      })),
+    testsOrdered: (formData.testsOrdered as Omit<TestOrdered, 'id' | 'visitId' | 'createdAt'>[])
+      .filter(test => test.testName.trim())
+      .map(test => ({
+        testName: test.testName,
+        testType: test.testType,
+        instructions: test.instructions,
+        urgency: test.urgency
+      })),
+    advice: formData.advice.filter(advice => advice.trim())
+  });
+
+  const safetyAlerts = useMemo(() => checkPrescriptionSafety({
+    prescriptions: formData.prescriptions.map(prescription => prescription.medicine),
+    medicineMaster,
+    allergies: patient.allergies || [],
+    diagnoses: formData.diagnoses.map(diagnosis => (typeof diagnosis === 'string' ? diagnosis : diagnosis.name)),
+    rules: safetyRules
+  }), [formData.prescriptions, formData.diagnoses, medicineMaster, safetyRules, patient.allergies]);
+
   const handleSave = async () => {
     if (!user) { // user from useAuth()
       alert('You must be logged in to save a visit');
@@ -347,6 +496,25 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
       return;
     }
 
+    const unresolvedAlerts = safetyAlerts.filter(safetyAlert => !overrideReasons[safetyAlert.key]?.trim());
+    if (unresolvedAlerts.length > 0) {
+      alert(`Please resolve the prescription warnings or enter a reason to override them:\n\n${unresolvedAlerts.map(safetyAlert => `• ${safetyAlert.message}`).join('\n')}`);
+      return;
+    }
+
+    // Keep the original time and author for overrides that were already given
+    const safetyOverrides: PrescriptionSafetyOverride[] = safetyAlerts.map(safetyAlert => {
+      const reason = overrideReasons[safetyAlert.key].trim();
+      const previous = existingVisit?.safetyOverrides?.find(override => override.alertKey === safetyAlert.key && override.reason === reason);
+      return previous || {
+        alertKey: safetyAlert.key,
+        alertType: safetyAlert.type,
+        message: safetyAlert.message,
+        reason,
+        overriddenBy: profile.id,
+        overriddenAt: new Date()
+      };
+    });
 
     try {
       setSaving(true);
@@ -393,7 +561,8 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
         followUpDate: formData.followUpDate ? new Date(formData.followUpDate) : undefined,
 
         doctorNotes: formData.doctorNotes,
-        caseImageUrl: existingVisit?.caseImageUrl || undefined
+        caseImageUrl: existingVisit?.caseImageUrl || undefined,
+        safetyOverrides
       };
 
       if (existingVisit) {
@@ -405,7 +574,9 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
         // Create new visit
         const savedVisit = await visitService.addVisit(visitData);
         console.log('Visit saved successfully:', savedVisit);
-        alert('Visit saved successfully!');
+        alert(isOfflineId(savedVisit.id)
+          ? 'You are offline. The visit has been saved on this device and will sync when the connection is back.'
+          : 'Visit saved successfully!');
       }
       
       onSave();
@@ -432,8 +603,24 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
         <h3 className="text-lg font-bold text-gray-800">
           {existingVisit ? 'Edit Visit' : 'Create EMR Entry'}
         </h3>
-        <div className="text-sm text-gray-600">
-          Patient: <span className="font-medium">{toTitleCase(patient.name)}</span>
+        <div className="flex items-center gap-3">
+          <div className="text-sm text-gray-600">
+            Patient: <span className="font-medium">{toTitleCase(patient.name)}</span>
+          </div>
+          <button
+            onClick={() => setShowApplyTemplate(true)}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Apply Template
+          </button>
+          <button
+            onClick={() => setShowSaveTemplate(true)}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+            Save as Template
+          </button>
         </div>
       </div>
 
@@ -685,83 +872,159 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
           </button>
         </div>
         <div className="space-y-4">
-          {formData.prescriptions.map((prescription, index) => (
-            <div key={prescription.id} className="border border-gray-200 rounded-lg p-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
-                <div>
-                  <label className="block text-xs text-gray-600 mb-1">Medicine</label>
-                  <input
-                    list={`medicines-${index}`}
-                    type="text"
-                    value={prescription.medicine}
-                    onChange={(e) => updatePrescription(index, 'medicine', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Medicine name"
-                  />
-                  <datalist id={`medicines-${index}`}>
-                    {medicines.map(medicine => (
-                      <option key={medicine} value={medicine} />
-                    ))}
-                  </datalist>
-                </div>
-                <div>
-                  <label className="block text-xs text-gray-600 mb-1">Dosage</label>
-                  <input
-                    type="text"
-                    value={prescription.dosage}
-                    onChange={(e) => updatePrescription(index, 'dosage', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="1 tablet"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs text-gray-600 mb-1">Frequency</label>
-                  <select
-                    value={prescription.frequency}
-                    onChange={(e) => updatePrescription(index, 'frequency', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  >
-                    <option value="OD">OD (Once daily)</option>
-                    <option value="BD">BD (Twice daily)</option>
-                    <option value="TID">TID (Three times daily)</option>
-                    <option value="QID">QID (Four times daily)</option>
-                    <option value="PRN">PRN (As needed)</option>
-                  </select>
-                </div>
-                <div>
-                  <label className="block text-xs text-gray-600 mb-1">Duration</label>
-                  <input
-                    type="text"
-                    value={prescription.duration}
-                    onChange={(e) => updatePrescription(index, 'duration', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="5 days"
-                  />
-                </div>
-                <div className="flex gap-2">
-                  <div className="flex-1">
-                    <label className="block text-xs text-gray-600 mb-1">Instructions</label>
+          {formData.prescriptions.map((prescription, index) => {
+            const guidance = getDoseGuidance(prescription);
+
+            return (
+              <div key={prescription.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Medicine</label>
                     <input
+                      list={`medicines-${index}`}
                       type="text"
-                      value={prescription.instructions}
-                      onChange={(e) => updatePrescription(index, 'instructions', e.target.value)}
+                      value={prescription.medicine}
+                      onChange={(e) => updatePrescription(index, 'medicine', e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      placeholder="After meals"
+                      placeholder="Medicine name"
                     />
+                    <datalist id={`medicines-${index}`}>
+                      {medicines.map(medicine => (
+                        <option key={medicine} value={medicine} />
+                      ))}
+                    </datalist>
                   </div>
-                  <div className="flex items-end">
-                    <button
-                      onClick={() => removePrescription(index)}
-                      className="p-2 text-red-600 hover:text-red-700"
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Dosage</label>
+                    <input
+                      type="text"
+                      value={prescription.dosage}
+                      onChange={(e) => updatePrescription(index, 'dosage', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="1 tablet"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Frequency</label>
+                    <select
+                      value={prescription.frequency}
+                      onChange={(e) => updatePrescription(index, 'frequency', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                      <option value="OD">OD (Once daily)</option>
+                      <option value="BD">BD (Twice daily)</option>
+                      <option value="TID">TID (Three times daily)</option>
+                      <option value="QID">QID (Four times daily)</option>
+                      <option value="PRN">PRN (As needed)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Duration</label>
+                    <input
+                      type="text"
+                      value={prescription.duration}
+                      onChange={(e) => updatePrescription(index, 'duration', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="5 days"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-600 mb-1">Instructions</label>
+                      <input
+                        type="text"
+                        value={prescription.instructions}
+                        onChange={(e) => updatePrescription(index, 'instructions', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="After meals"
+                      />
+                    </div>
+                    <div className="flex items-end">
+                      <button
+                        onClick={() => removePrescription(index)}
+                        className="p-2 text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
                   </div>
                 </div>
+  
+                {guidance && (
+                  <div className="mt-3 space-y-2">
+                    {!guidance.hasWeight && (
+                      <p className="text-xs text-gray-500">Enter the patient's weight in vitals to calculate a weight-based dose.</p>
+                    )}
+                    {guidance.suggestion && (
+                      <div className="flex items-start justify-between gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                        <div className="flex items-start gap-2">
+                          <Calculator className="w-4 h-4 text-blue-600 mt-0.5" />
+                          <div className="text-sm text-blue-800">
+                            <p>
+                              Suggested: <strong>{guidance.suggestion.dosage} {guidance.suggestion.frequency}</strong>
+                              {guidance.suggestion.quantity !== undefined && ` • Qty ${guidance.suggestion.quantity}`}
+                            </p>
+                            <p className="text-xs text-blue-700">{guidance.suggestion.calculation}</p>
+                          </div>
+                        </div>
+                        {prescription.doseCalculation === guidance.suggestion.calculation ? (
+                          <span className="text-xs text-green-700 whitespace-nowrap">Applied</span>
+                        ) : (
+                          <button
+                            onClick={() => applyDoseSuggestion(index, guidance.suggestion as DoseSuggestion)}
+                            className="text-sm text-blue-700 hover:text-blue-900 font-medium whitespace-nowrap"
+                          >
+                            Use Dose
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    {guidance.warning && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                        <p className="text-red-700 text-sm">{guidance.warning}</p>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
+
+        {safetyAlerts.length > 0 && (
+          <div className="mt-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5 text-red-600" />
+              <span className="text-sm font-medium text-gray-800">Prescription Warnings</span>
+            </div>
+            {safetyAlerts.map(safetyAlert => (
+              <div
+                key={safetyAlert.key}
+                className={`p-3 border rounded-lg ${
+                  safetyAlert.severity === 'high' ? 'bg-red-50 border-red-200' :
+                  safetyAlert.severity === 'moderate' ? 'bg-orange-50 border-orange-200' :
+                  'bg-yellow-50 border-yellow-200'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className={`text-sm ${safetyAlert.severity === 'high' ? 'text-red-800' : safetyAlert.severity === 'moderate' ? 'text-orange-800' : 'text-yellow-800'}`}>
+                    {safetyAlert.message}
+                  </p>
+                  <span className="px-2 py-1 text-xs rounded-full bg-white border border-gray-200 text-gray-700 capitalize whitespace-nowrap">
+                    {safetyAlert.type.replace('_', ' ')} • {safetyAlert.severity}
+                  </span>
+                </div>
+                <input
+                  type="text"
+                  value={overrideReasons[safetyAlert.key] || ''}
+                  onChange={(e) => setOverrideReasons(prev => ({ ...prev, [safetyAlert.key]: e.target.value }))}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Reason to prescribe anyway (required to save)"
+                />
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Tests Ordered */}
@@ -910,6 +1173,24 @@ const EMRForm: React.FC<EMRFormProps> = ({ patient, existingVisit, ocrData, init
           {saving ? (existingVisit ? 'Updating...' : 'Saving...') : (existingVisit ? 'Update Visit' : 'Save Visit')}
         </button>
       </div>
+
+      {showApplyTemplate && (
+        <ApplyTemplateModal
+          onApply={applyTemplate}
+          onClose={() => setShowApplyTemplate(false)}
+        />
+      )}
+
+      {showSaveTemplate && (
+        <VisitTemplateModal
+          initialContents={getTemplateContents()}
+          onClose={() => setShowSaveTemplate(false)}
+          onSaved={() => {
+            setShowSaveTemplate(false);
+            alert('Template saved successfully!');
+          }}
+        />
+      )}
     </div>
   );
 };
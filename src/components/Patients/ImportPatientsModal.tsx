@@ -0,0 +1,643 @@
+import React, { useState, useEffect } from 'react';
+import { X, Upload, History, FileSpreadsheet, Download, Undo2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import readXlsxFile from 'read-excel-file';
+import { PatientImport, PatientImportRowError } from '../../types';
+import { patientService } from '../../services/patientService';
+import { patientImportService } from '../../services/patientImportService';
+import {
+  IMPORT_BATCH_SIZE,
+  IMPORT_FIELDS,
+  ImportCell,
+  ImportColumnMapping,
+  ImportField,
+  ValidatedImportRow,
+  guessColumnMapping,
+  importDuplicateKey,
+  validateImportRow
+} from '../../utils/patientImport';
+import { downloadCsv, parseCsv, toCsv } from '../../utils/csv';
+import { toTitleCase } from '../../utils/stringUtils';
+
+interface ImportPatientsModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+interface PreviewRow extends ValidatedImportRow {
+  duplicateOf?: string;
+  include: boolean;
+}
+
+// Rendering thousands of rows at once makes the preview sluggish; the counts above it cover the rest
+const PREVIEW_ROW_LIMIT = 200;
+
+const TEMPLATE_CSV = toCsv([
+  ['Name', 'Phone', 'Age', 'Date of Birth', 'Gender', 'Address', 'Emergency Contact', 'Blood Group', 'Allergies', 'Referred By'],
+  ['Ramesh Sharma', '9876543210', '45', '', 'Male', 'MG Road, Pune', '', 'B+', 'Penicillin', 'Dr. Mehta']
+]);
+
+const downloadErrorReport = (errors: PatientImportRowError[], fileName: string) => {
+  downloadCsv(
+    toCsv([['Row', 'Problem'], ...errors.map(error => [error.row, error.message])]),
+    `${fileName.replace(/\.[^.]+$/, '')}_errors.csv`
+  );
+};
+
+const ImportPatientsModal: React.FC<ImportPatientsModalProps> = ({ onClose, onImported }) => {
+  const [activeTab, setActiveTab] = useState<'import' | 'history'>('import');
+  const [step, setStep] = useState<'upload' | 'map' | 'preview' | 'importing' | 'done'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<ImportCell[]>([]);
+  const [dataRows, setDataRows] = useState<ImportCell[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [previewFilter, setPreviewFilter] = useState<'all' | 'errors' | 'duplicates'>('all');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<{ importedCount: number; skippedCount: number; errors: PatientImportRowError[] } | null>(null);
+  const [imports, setImports] = useState<PatientImport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (activeTab === 'history') {
+      loadImports();
+    }
+  }, [activeTab]);
+
+  const loadImports = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setImports(await patientImportService.getImports());
+    } catch (err) {
+      console.error('Error loading import history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load import history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // read-excel-file types cells as the Date constructor; they are actually Date instances or null
+      const rows: ImportCell[][] = /\.xlsx$/i.test(file.name)
+        ? (await readXlsxFile(file)) as unknown as ImportCell[][]
+        : parseCsv(await file.text());
+
+      if (rows.length < 2) {
+        setError('The file needs a header row and at least one patient');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('Could not read the file. Save it as .csv or .xlsx and try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    const next = { ...mapping };
+    if (column === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(column);
+    }
+    setMapping(next);
+  };
+
+  const mappingError = (() => {
+    const missing = IMPORT_FIELDS.filter(field => field.required && mapping[field.field] === undefined).map(field => field.label);
+    if (mapping.age === undefined && mapping.date_of_birth === undefined) missing.push('Age or Date of Birth');
+    return missing.length > 0 ? `Choose a column for ${missing.join(', ')}` : null;
+  })();
+
+  // Validate every row and flag duplicates: against patients already registered on the same phone,
+  // and against earlier rows in the file
+  const buildPreview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const validated = dataRows.map((cells, index) => validateImportRow(cells, mapping, index + 2));
+      const existing = await patientService.findPatientNamesByPhones(
+        validated.flatMap(row => row.data ? [row.data.phone] : [])
+      );
+
+      const firstRowByKey = new Map<string, number>();
+      const rows = validated.map((row): PreviewRow => {
+        if (!row.data) return { ...row, include: false };
+
+        const { name, phone } = row.data;
+        const key = importDuplicateKey(name, phone);
+        const existingNames = existing.get(phone) || [];
+        const registeredAs = existingNames.find(existingName => importDuplicateKey(existingName, phone) === key);
+        const earlierRow = firstRowByKey.get(key);
+        if (earlierRow === undefined) firstRowByKey.set(key, row.rowNumber);
+
+        if (registeredAs) {
+          return { ...row, duplicateOf: `Already registered as ${toTitleCase(registeredAs)}`, include: false };
+        }
+        if (earlierRow !== undefined) {
+          return { ...row, duplicateOf: `Same as row ${earlierRow}`, include: false };
+        }
+        if (existingNames.length > 0) {
+          // Families often share a phone, so a different name on the same number is imported by default
+          return { ...row, duplicateOf: `Phone shared with ${existingNames.map(toTitleCase).join(', ')}`, include: true };
+        }
+        return { ...row, include: true };
+      });
+
+      setPreviewRows(rows);
+      setPreviewFilter('all');
+      setStep('preview');
+    } catch (err) {
+      console.error('Error preparing import preview:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check for duplicates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleInclude = (rowNumber: number) => {
+    setPreviewRows(rows => rows.map(row => row.rowNumber === rowNumber ? { ...row, include: !row.include } : row));
+  };
+
+  const invalidRows = previewRows.filter(row => !row.data);
+  const duplicateRows = previewRows.filter(row => row.duplicateOf);
+  const rowsToImport = previewRows.filter(row => row.data && row.include);
+  const validationErrors: PatientImportRowError[] = invalidRows.map(row => ({ row: row.rowNumber, message: row.errors.join('; ') }));
+
+  const handleImport = async () => {
+    if (rowsToImport.length === 0) return;
+    if (!confirm(`Import ${rowsToImport.length} patients from ${fileName}?`)) return;
+
+    const errors: PatientImportRowError[] = [...validationErrors];
+    const skippedCount = previewRows.filter(row => row.data && !row.include).length;
+    let importedCount = 0;
+
+    try {
+      setStep('importing');
+      setProgress({ done: 0, total: rowsToImport.length });
+
+      const importId = await patientImportService.startImport(fileName, previewRows.length);
+
+      for (let i = 0; i < rowsToImport.length; i += IMPORT_BATCH_SIZE) {
+        const batch = rowsToImport.slice(i, i + IMPORT_BATCH_SIZE).map(row => ({ rowNumber: row.rowNumber, data: row.data! }));
+        try {
+          const batchResult = await patientImportService.importBatch(importId, batch);
+          importedCount += batchResult.imported;
+          errors.push(...batchResult.errors);
+        } catch (err) {
+          // Losing the connection mid-import: report the rest as not imported so the run can be resumed from the error file
+          const message = err instanceof Error ? err.message : 'Import stopped';
+          rowsToImport.slice(i).forEach(row => errors.push({ row: row.rowNumber, message: `Not imported: ${message}` }));
+          break;
+        }
+        setProgress({ done: Math.min(i + IMPORT_BATCH_SIZE, rowsToImport.length), total: rowsToImport.length });
+      }
+
+      errors.sort((a, b) => a.row - b.row);
+      await patientImportService.finishImport(importId, { importedCount, skippedCount, errors });
+      setResult({ importedCount, skippedCount, errors });
+      setStep('done');
+      if (importedCount > 0) onImported();
+    } catch (err) {
+      console.error('Error importing patients:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import patients');
+      setResult({ importedCount, skippedCount, errors });
+      setStep('done');
+    }
+  };
+
+  const handleRollback = async (patientImport: PatientImport) => {
+    if (!confirm(`Roll back ${patientImport.fileName}? The ${patientImport.importedCount} patients it created will be deleted.`)) return;
+
+    try {
+      setRollingBackId(patientImport.id);
+      const deleted = await patientImportService.rollbackImport(patientImport.id);
+      alert(`${deleted} patients removed`);
+      await loadImports();
+      onImported();
+    } catch (err) {
+      console.error('Error rolling back import:', err);
+      alert(err instanceof Error ? err.message : 'Failed to roll back import');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setPreviewRows([]);
+    setResult(null);
+    setError(null);
+  };
+
+  const filteredPreview = previewRows.filter(row =>
+    previewFilter === 'all' ||
+    (previewFilter === 'errors' && !row.data) ||
+    (previewFilter === 'duplicates' && row.duplicateOf));
+
+  const renderImportStep = () => {
+    if (step === 'upload') {
+      return (
+        <div className="space-y-4">
+          <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+            <FileSpreadsheet className="w-12 h-12 text-gray-400" />
+            <span className="text-gray-700 font-medium">{loading ? 'Reading file...' : 'Choose a CSV or Excel (.xlsx) file'}</span>
+            <span className="text-sm text-gray-500">The first row must hold the column names</span>
+            <input type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={loading} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadCsv(TEMPLATE_CSV, 'patient_import_template.csv')}
+            className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Download className="w-4 h-4" />
+            Download a template
+          </button>
+        </div>
+      );
+    }
+
+    if (step === 'map') {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {fileName} • {dataRows.length} rows. Match each patient field to a column in your file.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Patient Field</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Column</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">First Row</th>
+                </tr>
+              </thead>
+              <tbody>
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <tr key={field} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm font-medium text-gray-800">
+                      {label}{required && <span className="text-red-500"> *</span>}
+                    </td>
+                    <td className="py-3 px-4">
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => updateMapping(field, e.target.value)}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">— Not imported —</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{String(header ?? `Column ${index + 1}`)}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-500">
+                      {mapping[field] !== undefined ? String(dataRows[0]?.[mapping[field]!] ?? '') : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {mappingError && <p className="text-sm text-red-600">{mappingError}</p>}
+        </div>
+      );
+    }
+
+    if (step === 'preview') {
+      return (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+              <div className="text-2xl font-bold text-green-700">{rowsToImport.length}</div>
+              <div className="text-sm text-green-800">Ready to import</div>
+            </div>
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="text-2xl font-bold text-yellow-700">{duplicateRows.length}</div>
+              <div className="text-sm text-yellow-800">Possible duplicates</div>
+            </div>
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="text-2xl font-bold text-red-700">{invalidRows.length}</div>
+              <div className="text-sm text-red-800">Rows with errors</div>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex gap-2">
+              {[
+                { id: 'all' as const, label: 'All' },
+                { id: 'duplicates' as const, label: 'Duplicates' },
+                { id: 'errors' as const, label: 'Errors' }
+              ].map(filter => (
+                <button
+                  key={filter.id}
+                  onClick={() => setPreviewFilter(filter.id)}
+                  className={`px-3 py-1 text-sm rounded-full ${
+                    previewFilter === filter.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+            {invalidRows.length > 0 && (
+              <button
+                onClick={() => downloadErrorReport(validationErrors, fileName)}
+                className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Download className="w-4 h-4" />
+                Download rows with errors
+              </button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Import</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Row</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Patient</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredPreview.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                  <tr key={row.rowNumber} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <input
+                        type="checkbox"
+                        checked={row.include}
+                        disabled={!row.data}
+                        onChange={() => toggleInclude(row.rowNumber)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                      />
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{row.rowNumber}</td>
+                    <td className="py-3 px-4 text-sm">
+                      {row.data ? (
+                        <>
+                          <div className="font-medium text-gray-800">{row.data.name}</div>
+                          <div className="text-gray-500">{row.data.phone} • {row.data.age} years • {row.data.gender}</div>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">—</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      {!row.data ? (
+                        <span className="text-red-600">{row.errors.join('; ')}</span>
+                      ) : row.duplicateOf ? (
+                        <span className="text-yellow-700">{row.duplicateOf}</span>
+                      ) : (
+                        <span className="text-green-700">Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filteredPreview.length > PREVIEW_ROW_LIMIT && (
+              <p className="text-sm text-gray-500 text-center py-3">
+                Showing the first {PREVIEW_ROW_LIMIT} of {filteredPreview.length} rows
+              </p>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    if (step === 'importing') {
+      return (
+        <div className="py-12 space-y-4 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-700">Importing {progress.done} of {progress.total} patients...</p>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-500">Keep this window open until the import finishes.</p>
+        </div>
+      );
+    }
+
+    return result && (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <CheckCircle className="w-6 h-6 text-green-600" />
+          <div className="text-sm text-green-800">
+            <div className="font-medium">{result.importedCount} patients imported from {fileName}</div>
+            <div>{result.skippedCount} duplicates skipped • {result.errors.length} rows not imported</div>
+          </div>
+        </div>
+        {result.errors.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-gray-800 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-red-500" />
+                Rows not imported
+              </h4>
+              <button
+                onClick={() => downloadErrorReport(result.errors, fileName)}
+                className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Download className="w-4 h-4" />
+                Download error report
+              </button>
+            </div>
+            <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {result.errors.slice(0, PREVIEW_ROW_LIMIT).map(rowError => (
+                <div key={`${rowError.row}:${rowError.message}`} className="p-2 text-sm">
+                  <span className="font-medium text-gray-700">Row {rowError.row}:</span>{' '}
+                  <span className="text-red-600">{rowError.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold">Import Patients</h2>
+          <button
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="border-b border-gray-200 px-6">
+          <nav className="-mb-px flex space-x-8">
+            {[
+              { id: 'import' as const, label: 'Import', icon: Upload },
+              { id: 'history' as const, label: 'Import History', icon: History }
+            ].map(tab => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  disabled={step === 'importing'}
+                  className={`flex items-center gap-2 py-3 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === tab.id
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {tab.label}
+                </button>
+              );
+            })}
+          </nav>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {activeTab === 'import' ? renderImportStep() : loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : imports.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No imports yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">File</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Imported</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Skipped / Failed</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">By</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {imports.map(patientImport => (
+                    <tr key={patientImport.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm">
+                        <div className="font-medium text-gray-800">{patientImport.fileName}</div>
+                        <div className="text-gray-500">{patientImport.totalRows} rows</div>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-800">{patientImport.importedCount}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {patientImport.skippedCount} / {patientImport.failedCount}
+                        {patientImport.errors.length > 0 && (
+                          <button
+                            onClick={() => downloadErrorReport(patientImport.errors, patientImport.fileName)}
+                            className="ml-2 text-blue-600 hover:text-blue-700"
+                            title="Download error report"
+                          >
+                            <Download className="w-4 h-4 inline" />
+                          </button>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        <div>{patientImport.importedByName || '—'}</div>
+                        <div className="text-xs text-gray-500">{format(patientImport.createdAt, 'dd MMM yyyy, hh:mm a')}</div>
+                      </td>
+                      <td className="py-3 px-4">
+                        {patientImport.status === 'rolled_back' ? (
+                          <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700">
+                            Rolled back {patientImport.rolledBackAt ? format(patientImport.rolledBackAt, 'dd MMM yyyy') : ''}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleRollback(patientImport)}
+                            disabled={rollingBackId === patientImport.id}
+                            className="flex items-center gap-1 px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                          >
+                            <Undo2 className="w-4 h-4" />
+                            {rollingBackId === patientImport.id ? 'Rolling back...' : 'Roll Back'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {activeTab === 'import' && (step === 'map' || step === 'preview' || step === 'done') && (
+          <div className="flex justify-end gap-3 p-6 border-t">
+            {step === 'done' ? (
+              <>
+                <button onClick={resetWizard} className="secondary-button">Import Another File</button>
+                <button onClick={onClose} className="primary-button">Done</button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => step === 'map' ? resetWizard() : setStep('map')}
+                  className="secondary-button"
+                >
+                  Back
+                </button>
+                {step === 'map' ? (
+                  <button
+                    onClick={buildPreview}
+                    disabled={!!mappingError || loading}
+                    className="primary-button disabled:opacity-50"
+                  >
+                    {loading ? 'Checking...' : 'Preview'}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleImport}
+                    disabled={rowsToImport.length === 0}
+                    className="primary-button flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Import {rowsToImport.length} Patients
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportPatientsModal;
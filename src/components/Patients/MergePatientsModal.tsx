@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { X, GitMerge, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Patient } from '../../types';
+import { patientMergeService, MERGED_RECORD_TABLES } from '../../services/patientMergeService';
+import { getPatientCreatedAt } from '../../utils/patientMatching';
+import { toTitleCase } from '../../utils/stringUtils';
+
+interface MergePatientsModalProps {
+  patient: Patient; // Suggested survivor, normally the older record
+  duplicate: Patient;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const MergePatientsModal: React.FC<MergePatientsModalProps> = ({ patient, duplicate, onClose, onMerged }) => {
+  const [survivorId, setSurvivorId] = useState(patient.id);
+  const [counts, setCounts] = useState<Record<string, Record<string, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCounts = async () => {
+      try {
+        setLoading(true);
+        const [patientCounts, duplicateCounts] = await Promise.all([
+          patientMergeService.getRecordCounts(patient.id),
+          patientMergeService.getRecordCounts(duplicate.id)
+        ]);
+        setCounts({ [patient.id]: patientCounts, [duplicate.id]: duplicateCounts });
+      } catch (err) {
+        console.error('Error loading patient records:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load patient records');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCounts();
+  }, [patient.id, duplicate.id]);
+
+  const survivor = survivorId === patient.id ? patient : duplicate;
+  const merged = survivorId === patient.id ? duplicate : patient;
+
+  const handleMerge = async () => {
+    if (!confirm(`Merge ${toTitleCase(merged.name)} into ${toTitleCase(survivor.name)}? All of their records will move to ${toTitleCase(survivor.name)}. You can undo this from the merge history.`)) return;
+
+    try {
+      setMerging(true);
+      setError(null);
+      await patientMergeService.mergePatients(survivor.id, merged.id);
+      onMerged();
+    } catch (err) {
+      console.error('Error merging patients:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge patients');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderPatient = (record: Patient) => {
+    const isSurvivor = record.id === survivorId;
+    const createdAt = getPatientCreatedAt(record);
+    const recordCounts = counts[record.id];
+
+    return (
+      <label
+        key={record.id}
+        className={`block p-4 border rounded-lg cursor-pointer transition-colors ${
+          isSurvivor ? 'border-green-500 bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="survivor"
+              checked={isSurvivor}
+              onChange={() => setSurvivorId(record.id)}
+              className="text-green-600 focus:ring-green-500"
+            />
+            <span className="font-semibold text-gray-800">{toTitleCase(record.name)}</span>
+          </div>
+          <span className={`px-2 py-1 text-xs rounded-full ${isSurvivor ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+            {isSurvivor ? 'Keep' : 'Merge away'}
+          </span>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+          <dt className="text-gray-500">Phone</dt>
+          <dd className="text-gray-800">{record.phone}</dd>
+          <dt className="text-gray-500">Age / Gender</dt>
+          <dd className="text-gray-800">{record.age} • {record.gender}</dd>
+          <dt className="text-gray-500">Address</dt>
+          <dd className="text-gray-800">{record.address || '—'}</dd>
+          <dt className="text-gray-500">Blood Group</dt>
+          <dd className="text-gray-800">{record.blood_group || '—'}</dd>
+          <dt className="text-gray-500">Allergies</dt>
+          <dd className="text-gray-800">{record.allergies?.length ? record.allergies.join(', ') : '—'}</dd>
+          <dt className="text-gray-500">Registered</dt>
+          <dd className="text-gray-800">{createdAt ? format(createdAt, 'dd MMM yyyy') : '—'}</dd>
+        </dl>
+
+        <div className="mt-3 pt-3 border-t border-gray-200">
+          {loading || !recordCounts ? (
+            <p className="text-xs text-gray-500">Counting records...</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {MERGED_RECORD_TABLES.map(({ table, label }) => (
+                <span key={table} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded">
+                  {label}: {recordCounts[table] || 0}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold">Merge Patients</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Choose the record to keep. Visits, bills, appointments, deposits, messages and review requests of the other
+            record move to it, and blank details such as address or blood group are filled in from the other record.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderPatient(patient)}
+            {renderPatient(duplicate)}
+          </div>
+
+          {survivor.phone !== merged.phone && (
+            <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              The phone numbers differ. Messages will go to {survivor.phone}; update the kept record afterwards if needed.
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={merging || loading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <GitMerge className="w-4 h-4" />
+            {merging ? 'Merging...' : 'Merge Patients'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergePatientsModal;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Wallet, RefreshCw } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { Bill, HouseholdDues, Patient, PatientStatement } from '../../types';
+import { patientAccountService } from '../../services/patientAccountService';
+import { billingService } from '../../services/billingService';
+import { householdService } from '../../services/householdService';
+import DepositModal from '../Billing/DepositModal';
+
+interface PatientAccountStatementProps {
+  patient: Patient;
+}
+
+const formatBalance = (balance: number) => {
+  if (Math.abs(balance) < 0.005) return '₹0.00';
+  return balance > 0
+    ? `₹${balance.toFixed(2)} Due`
+    : `₹${Math.abs(balance).toFixed(2)} Advance`;
+};
+
+const PatientAccountStatement: React.FC<PatientAccountStatementProps> = ({ patient }) => {
+  const [fromDate, setFromDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [statement, setStatement] = useState<PatientStatement | null>(null);
+  const [pendingBills, setPendingBills] = useState<Bill[]>([]);
+  const [allocations, setAllocations] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDepositModal, setShowDepositModal] = useState(false);
+  const [householdDues, setHouseholdDues] = useState<HouseholdDues | null>(null);
+
+  useEffect(() => {
+    loadStatement();
+  }, [patient.id, fromDate, toDate]);
+
+  const loadStatement = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [statementData, pendingBillsData] = await Promise.all([
+        patientAccountService.getStatement(patient.id, new Date(fromDate), new Date(toDate)),
+        billingService.getPendingBills(patient.id)
+      ]);
+
+      setStatement(statementData);
+      setPendingBills(pendingBillsData);
+      setAllocations({});
+      loadHouseholdDues();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load account statement');
+      console.error('Error loading account statement:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Dues of the whole household, so family members' bills can be collected together
+  const loadHouseholdDues = async () => {
+    try {
+      const household = await householdService.getPatientHousehold(patient.id);
+      setHouseholdDues(household && household.members.length > 1 ? await householdService.getHouseholdDues(household) : null);
+    } catch (err) {
+      console.error('Error loading household dues:', err);
+      setHouseholdDues(null);
+    }
+  };
+
+  const handleAutoApply = async () => {
+    try {
+      setApplying(true);
+      const applied = await patientAccountService.autoApplyDeposits(patient.id);
+      if (applied.length === 0) {
+        alert('No deposit balance or open bills to apply it to.');
+      }
+      await loadStatement();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to apply deposit');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleAllocate = async (bill: Bill) => {
+    const amount = allocations[bill.id] || 0;
+    if (amount <= 0) {
+      alert('Enter an amount to apply');
+      return;
+    }
+
+    try {
+      setApplying(true);
+      await patientAccountService.allocateDeposit(patient.id, bill.id, amount);
+      await loadStatement();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to apply deposit');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleDepositSaved = () => {
+    setShowDepositModal(false);
+    loadStatement();
+  };
+
+  return (
+    <div className="section-spacing">
+      {/* Balances */}
+      <div className="card">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className={`grid grid-cols-1 ${householdDues ? 'sm:grid-cols-3' : 'sm:grid-cols-2'} gap-6 flex-1`}>
+            <div>
+              <p className="text-sm text-gray-600">Deposit Balance</p>
+              <p className="text-3xl font-bold text-green-600">
+                ₹{(statement?.depositBalance || 0).toFixed(2)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Outstanding on Open Bills</p>
+              <p className="text-3xl font-bold text-red-600">
+                ₹{pendingBills.reduce((sum, bill) => sum + bill.balanceAmount, 0).toFixed(2)}
+              </p>
+            </div>
+            {householdDues && (
+              <div>
+                <p className="text-sm text-gray-600">Household Dues</p>
+                <p className="text-3xl font-bold text-orange-600">
+                  ₹{householdDues.totalOutstanding.toFixed(2)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {householdDues.members.filter(member => member.outstanding > 0).length} of {householdDues.members.length} members with open bills
+                </p>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleAutoApply}
+              disabled={applying || !statement || statement.depositBalance <= 0 || pendingBills.length === 0}
+              className="secondary-button flex items-center gap-2 disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Apply to Bills
+            </button>
+            <button
+              onClick={() => setShowDepositModal(true)}
+              className="primary-button flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Deposit
+            </button>
+          </div>
+        </div>
+
+        {/* Manual allocation */}
+        {pendingBills.length > 0 && (statement?.depositBalance || 0) > 0 && (
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Allocate Deposit</h4>
+            <div className="space-y-2">
+              {pendingBills.map(bill => (
+                <div key={bill.id} className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className="w-40 font-medium text-gray-900">{bill.billNumber}</span>
+                  <span className="w-28 text-gray-600">{format(bill.billDate, 'MMM dd, yyyy')}</span>
+                  <span className="w-36 text-red-600">Balance ₹{bill.balanceAmount.toFixed(2)}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    max={Math.min(bill.balanceAmount, statement?.depositBalance || 0)}
+                    value={allocations[bill.id] || ''}
+                    onChange={(e) => setAllocations({ ...allocations, [bill.id]: parseFloat(e.target.value) || 0 })}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => handleAllocate(bill)}
+                    disabled={applying}
+                    className="text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Statement */}
+      <div className="card p-0">
+        <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <h3 className="flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-blue-600" />
+            Account Statement
+          </h3>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="input-field"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="input-field"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading statement...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <div className="text-red-600 mb-4">{error}</div>
+            <button
+              onClick={loadStatement}
+              className="primary-button"
+            >
+              Retry
+            </button>
+          </div>
+        ) : statement && (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Charges</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payments</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                <tr className="bg-gray-50">
+                  <td className="px-6 py-3 text-sm text-gray-900">{format(statement.fromDate, 'MMM dd, yyyy')}</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900" colSpan={4}>Opening Balance</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatBalance(statement.openingBalance)}</td>
+                </tr>
+                {statement.entries.map(entry => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{format(entry.date, 'MMM dd, yyyy')}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">{entry.description}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{entry.reference || '-'}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {entry.debit ? `₹${entry.debit.toFixed(2)}` : ''}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-green-600 text-right">
+                      {entry.credit ? `₹${entry.credit.toFixed(2)}` : ''}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">{formatBalance(entry.balance)}</td>
+                  </tr>
+                ))}
+                {statement.entries.length === 0 && (
+                  <tr>
+                    <td className="px-6 py-6 text-sm text-gray-500 text-center" colSpan={6}>
+                      No transactions in this period
+                    </td>
+                  </tr>
+                )}
+                <tr className="bg-gray-50">
+                  <td className="px-6 py-3 text-sm text-gray-900">{format(statement.toDate, 'MMM dd, yyyy')}</td>
+                  <td className="px-6 py-3 text-sm font-semibold text-gray-900" colSpan={2}>Closing Balance</td>
+                  <td className="px-6 py-3 text-sm font-semibold text-gray-900 text-right">₹{statement.totalDebits.toFixed(2)}</td>
+                  <td className="px-6 py-3 text-sm font-semibold text-green-600 text-right">₹{statement.totalCredits.toFixed(2)}</td>
+                  <td className={`px-6 py-3 text-sm font-semibold text-right ${statement.closingBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatBalance(statement.closingBalance)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showDepositModal && (
+        <DepositModal
+          patient={patient}
+          onSaved={handleDepositSaved}
+          onClose={() => setShowDepositModal(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PatientAccountStatement;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { Home, Plus, Search, Crown, UserMinus, Edit } from 'lucide-react';
+import { format } from 'date-fns';
+import { Household, HouseholdDues, HouseholdRelationship, Patient } from '../../types';
+import { householdService } from '../../services/householdService';
+import { patientService } from '../../services/patientService';
+import { HOUSEHOLD_RELATIONSHIPS, suggestHouseholdName } from '../../utils/households';
+import { toTitleCase } from '../../utils/stringUtils';
+
+interface PatientHouseholdProps {
+  patient: Patient;
+}
+
+const PatientHousehold: React.FC<PatientHouseholdProps> = ({ patient }) => {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [dues, setDues] = useState<HouseholdDues | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<Patient[]>([]);
+  const [newMemberRelationship, setNewMemberRelationship] = useState<HouseholdRelationship>('other');
+
+  useEffect(() => {
+    loadHousehold();
+  }, [patient.id]);
+
+  const loadHousehold = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await householdService.getPatientHousehold(patient.id);
+      setHousehold(data);
+      setDues(data ? await householdService.getHouseholdDues(data) : null);
+    } catch (err) {
+      console.error('Error loading household:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load household');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs a household change and reloads; household changes are small enough to refetch in full
+  const runChange = async (change: () => Promise<void>, failureMessage: string) => {
+    try {
+      setSaving(true);
+      await change();
+      await loadHousehold();
+    } catch (err) {
+      console.error(failureMessage, err);
+      alert(err instanceof Error ? err.message : failureMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = () => runChange(async () => {
+    await householdService.createHousehold(patient, suggestHouseholdName(patient.name));
+  }, 'Failed to create household');
+
+  const handleRename = () => {
+    if (!household) return;
+    const name = prompt('Household name', household.name);
+    if (!name?.trim() || name.trim() === household.name) return;
+    runChange(() => householdService.renameHousehold(household.id, name), 'Failed to rename household');
+  };
+
+  const handleSearch = async (term: string) => {
+    setSearchTerm(term);
+    if (term.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    try {
+      const results = await patientService.searchPatients(term.trim());
+      setSearchResults(results.filter(result => !household?.members.some(member => member.id === result.id)));
+    } catch (err) {
+      console.error('Error searching patients:', err);
+    }
+  };
+
+  const handleAddMember = (member: Patient) => {
+    if (!household) return;
+    runChange(async () => {
+      await householdService.addMember(household.id, member.id, newMemberRelationship);
+      setSearchTerm('');
+      setSearchResults([]);
+    }, 'Failed to add household member');
+  };
+
+  const handleRemoveMember = (member: Patient) => {
+    if (!household || !confirm(`Remove ${toTitleCase(member.name)} from ${household.name}?`)) return;
+    runChange(() => householdService.removeMember(household, member.id), 'Failed to remove household member');
+  };
+
+  const handleMakeHead = (member: Patient) => {
+    if (!household || !confirm(`Make ${toTitleCase(member.name)} the head of ${household.name}? Review the other members' relationships afterwards.`)) return;
+    runChange(() => householdService.setHead(household, member.id), 'Failed to change household head');
+  };
+
+  if (loading) {
+    return (
+      <div className="card flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="card">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!household) {
+    return (
+      <div className="card text-center py-12">
+        <Home className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500 mb-4">{toTitleCase(patient.name)} is not part of a household</p>
+        <button
+          onClick={handleCreate}
+          disabled={saving}
+          className="primary-button inline-flex items-center gap-2 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Start a Household
+        </button>
+      </div>
+    );
+  }
+
+  const memberDues = (patientId: string) => dues?.members.find(member => member.patientId === patientId);
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Home className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-semibold text-gray-800">{household.name}</h3>
+            <button
+              onClick={handleRename}
+              className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+              title="Rename"
+            >
+              <Edit className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="text-right">
+            <div className={`text-2xl font-bold ${dues && dues.totalOutstanding > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              ₹{(dues?.totalOutstanding || 0).toFixed(2)}
+            </div>
+            <div className="text-sm text-gray-600">Household dues</div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Member</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Relationship</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Phone</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-700">Outstanding</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {household.members.map(member => {
+                const isHead = member.id === household.headPatientId;
+                const outstanding = memberDues(member.id);
+                return (
+                  <tr key={member.id} className={`border-b border-gray-100 ${member.id === patient.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2 font-medium text-gray-800">
+                        {toTitleCase(member.name)}
+                        {isHead && <Crown className="w-4 h-4 text-yellow-500" />}
+                      </div>
+                      <div className="text-sm text-gray-500">{member.age} years • {member.gender}</div>
+                    </td>
+                    <td className="py-3 px-4">
+                      {isHead ? (
+                        <span className="text-sm text-gray-700">Head of household</span>
+                      ) : (
+                        <select
+                          value={member.household_relationship || 'other'}
+                          onChange={(e) => runChange(
+                            () => householdService.addMember(household.id, member.id, e.target.value as HouseholdRelationship),
+                            'Failed to update relationship'
+                          )}
+                          disabled={saving}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {HOUSEHOLD_RELATIONSHIPS.filter(option => option.value !== 'self').map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{member.phone}</td>
+                    <td className="py-3 px-4 text-right">
+                      <div className={`font-medium ${outstanding && outstanding.outstanding > 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                        ₹{(outstanding?.outstanding || 0).toFixed(2)}
+                      </div>
+                      {outstanding?.bills.map(bill => (
+                        <div key={bill.id} className="text-xs text-gray-500">
+                          {bill.billNumber} • {format(bill.billDate, 'dd MMM yyyy')} • ₹{bill.balance.toFixed(2)}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        {!isHead && (
+                          <button
+                            onClick={() => handleMakeHead(member)}
+                            disabled={saving}
+                            className="p-1 text-yellow-600 hover:bg-yellow-50 rounded disabled:opacity-50"
+                            title="Make head of household"
+                          >
+                            <Crown className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRemoveMember(member)}
+                          disabled={saving}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                          title="Remove from household"
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="card">
+        <h4 className="font-medium text-gray-800 mb-3">Add Member</h4>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search patients by name or phone..."
+              value={searchTerm}
+              onChange={(e) => handleSearch(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={newMemberRelationship}
+            onChange={(e) => setNewMemberRelationship(e.target.value as HouseholdRelationship)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {HOUSEHOLD_RELATIONSHIPS.filter(option => option.value !== 'self').map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {searchResults.length > 0 && (
+          <div className="mt-3 border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {searchResults.map(result => (
+              <div key={result.id} className="flex items-center justify-between p-3">
+                <div className="text-sm">
+                  <div className="font-medium text-gray-800">{toTitleCase(result.name)}</div>
+                  <div className="text-gray-500">
+                    {result.phone} • {result.age} years
+                    {result.household_id && ' • in another household'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleAddMember(result)}
+                  disabled={saving}
+                  className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PatientHousehold;
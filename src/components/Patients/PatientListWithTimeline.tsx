@@ -1,16 +1,21 @@
 import React, { useState } from 'react';
-import { Search, Plus, Phone, User, Eye, FileText } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { Search, Plus, Phone, User, Eye, FileText, Users, Upload } from 'lucide-react';
 import { Patient } from '../../types';
 import { patientService } from '../../services/patientService';
 import { authService } from '../../services/authService';
 import PatientModal from './PatientModal';
 import PatientTimeline from './PatientTimeline';
 import AddVisitModal from './AddVisitModal';
+import DuplicatePatientsModal from './DuplicatePatientsModal';
+import ImportPatientsModal from './ImportPatientsModal';
 import { useAuth } from '../Auth/useAuth';
 import { toTitleCase, getInitials } from '../../utils/stringUtils';
+import { parseScannedMrn } from '../../utils/patientMrn';
 
 const PatientListWithTimeline: React.FC = () => {
   const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [patients, setPatients] = useState<Patient[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -18,6 +23,8 @@ const PatientListWithTimeline: React.FC = () => {
   const [showTimeline, setShowTimeline] = useState(false);
   const [timelinePatient, setTimelinePatient] = useState<Patient | null>(null);
   const [showAddVisitModal, setShowAddVisitModal] = useState(false);
+  const [showDuplicatesModal, setShowDuplicatesModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [doctorFilter, setDoctorFilter] = useState('');
@@ -58,6 +65,40 @@ const PatientListWithTimeline: React.FC = () => {
     }
   };
 
+  // Opening the link in an ID card's QR code lands here with ?mrn=...
+  React.useEffect(() => {
+    const mrn = searchParams.get('mrn');
+    if (user && mrn) {
+      openPatientByMrn(mrn).finally(() => setSearchParams({}, { replace: true }));
+    }
+  }, [user, searchParams]);
+
+  const openPatientByMrn = async (mrn: string): Promise<boolean> => {
+    try {
+      const patient = patients.find(p => p.mrn?.toUpperCase() === mrn.toUpperCase())
+        || await patientService.getPatientByMrn(mrn);
+      if (!patient) {
+        return false;
+      }
+      setSearchTerm('');
+      openTimeline(patient);
+      return true;
+    } catch (err) {
+      console.error('Error opening patient by MRN:', err);
+      return false;
+    }
+  };
+
+  // Barcode scanners type the MRN and press Enter; open the timeline straight away
+  const handleSearchKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+
+    const mrn = parseScannedMrn(searchTerm);
+    if (mrn && !(await openPatientByMrn(mrn)) && filteredPatients.length === 0) {
+      alert(`No patient found with MRN ${mrn}`);
+    }
+  };
+
   const loadDoctors = async () => {
     try {
       // Use authService to get doctors and filter by clinic ID
@@ -74,6 +115,7 @@ const PatientListWithTimeline: React.FC = () => {
   const filteredPatients = patients.filter(patient => 
     patient.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     patient.phone.includes(searchTerm) ||
+    patient.mrn?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     patient.id.includes(searchTerm)
   );
 
@@ -169,13 +211,29 @@ const PatientListWithTimeline: React.FC = () => {
     <div className="section-spacing">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <h2>Patients</h2>
-        <button
-          onClick={() => setIsModalOpen(true)}
-          className="primary-button flex items-center gap-2"
-        >
-          <Plus className="w-4 h-4" />
-          Add Patient
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={() => setShowDuplicatesModal(true)}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Users className="w-4 h-4" />
+            Find Duplicates
+          </button>
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={() => setIsModalOpen(true)}
+            className="primary-button flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Patient
+          </button>
+        </div>
       </div>
 
       {/* Search Bar */}
@@ -186,9 +244,11 @@ const PatientListWithTimeline: React.FC = () => {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
               type="text"
-              placeholder="Search by name or phone..."
+              placeholder="Search by name, phone or MRN, or scan an ID card..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              autoFocus
               className="input-field pl-12"
             />
           </div>
@@ -228,6 +288,7 @@ const PatientListWithTimeline: React.FC = () => {
                 <div>
                   <h3 className="text-lg font-bold text-gray-900">{toTitleCase(patient.name)}</h3>
                   <p className="text-sm text-gray-600">{patient.age} years • {patient.gender}</p>
+                  {patient.mrn && <p className="text-xs text-gray-500 font-mono">{patient.mrn}</p>}
                 </div>
               </div>
             </div>
@@ -303,6 +364,21 @@ const PatientListWithTimeline: React.FC = () => {
         />
       )}
 
+      {/* Duplicate Patients Modal */}
+      {showDuplicatesModal && (
+        <DuplicatePatientsModal
+          onClose={() => setShowDuplicatesModal(false)}
+          onPatientsChanged={loadPatients}
+        />
+      )}
+
+      {showImportModal && (
+        <ImportPatientsModal
+          onClose={() => setShowImportModal(false)}
+          onImported={loadPatients}
+        />
+      )}
+
       {/* Add Visit Modal */}
       {showAddVisitModal && (
         <AddVisitModal
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
+import { X, Home } from 'lucide-react';
 import { toTitleCase } from '../../utils/stringUtils';
+import { Household, HouseholdRelationship, Patient } from '../../types';
+import { householdService } from '../../services/householdService';
+import { HOUSEHOLD_RELATIONSHIPS, suggestHouseholdName, DEPENDANT_AGE_LIMIT } from '../../utils/households';
 
 interface PatientModalProps {
   patient: {
@@ -25,6 +28,8 @@ interface PatientModalProps {
     blood_group?: string;
     allergies?: string[];
     referred_by?: string;
+    household_id?: string;
+    household_relationship?: HouseholdRelationship;
   }) => void;
   onClose: () => void;
 }
@@ -42,6 +47,10 @@ const PatientModal: React.FC<PatientModalProps> = ({ patient, onSave, onClose })
     allergies: '',
     referred_by: ''
   });
+  const [householdMatches, setHouseholdMatches] = useState<{ households: Household[]; unlinkedPatients: Patient[] } | null>(null);
+  // '' keeps the patient out of any household; otherwise 'household:<id>' or 'head:<patientId>' to start one
+  const [householdChoice, setHouseholdChoice] = useState('');
+  const [relationship, setRelationship] = useState<HouseholdRelationship>('other');
 
   useEffect(() => {
     if (patient) {
@@ -59,6 +68,60 @@ const PatientModal: React.FC<PatientModalProps> = ({ patient, onSave, onClose })
     }
   }, [patient]);
 
+  // When registering, look for family members already using this number
+  useEffect(() => {
+    if (patient || formData.phone.replace(/\D/g, '').length < 10) {
+      setHouseholdMatches(null);
+      setHouseholdChoice('');
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const matches = await householdService.findByPhone(formData.phone);
+        if (cancelled) return;
+
+        const hasMatches = matches.households.length > 0 || matches.unlinkedPatients.length > 0;
+        setHouseholdMatches(hasMatches ? matches : null);
+        setHouseholdChoice(
+          matches.households.length > 0 ? `household:${matches.households[0].id}` :
+          matches.unlinkedPatients.length > 0 ? `head:${matches.unlinkedPatients[0].id}` : ''
+        );
+      } catch (error) {
+        // The picker is a convenience; registration still works without it
+        console.error('Error looking up household:', error);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [patient, formData.phone]);
+
+  useEffect(() => {
+    const age = parseInt(formData.age);
+    if (!isNaN(age)) {
+      setRelationship(age < DEPENDANT_AGE_LIMIT ? 'child' : 'other');
+    }
+  }, [formData.age]);
+
+  // Resolves the household choice, creating the household first when an existing patient becomes its head
+  const resolveHousehold = async (): Promise<{ household_id?: string; household_relationship?: HouseholdRelationship }> => {
+    if (householdChoice.startsWith('household:')) {
+      return { household_id: householdChoice.slice('household:'.length), household_relationship: relationship };
+    }
+    if (householdChoice.startsWith('head:')) {
+      const head = householdMatches?.unlinkedPatients.find(match => match.id === householdChoice.slice('head:'.length));
+      if (head) {
+        const household = await householdService.createHousehold(head, suggestHouseholdName(head.name));
+        return { household_id: household.id, household_relationship: relationship };
+      }
+    }
+    return {};
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -72,7 +135,8 @@ const PatientModal: React.FC<PatientModalProps> = ({ patient, onSave, onClose })
         emergency_contact: formData.emergency_contact || undefined,
         blood_group: formData.blood_group || undefined,
         allergies: formData.allergies ? formData.allergies.split(',').map(a => a.trim()) : undefined,
-        referred_by: formData.referred_by || undefined
+        referred_by: formData.referred_by || undefined,
+        ...(await resolveHousehold())
       };
 
       await onSave(patientData);
@@ -203,6 +267,73 @@ const PatientModal: React.FC<PatientModalProps> = ({ patient, onSave, onClose })
             </div>
           </div>
 
+          {householdMatches && (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+              <div className="flex items-center gap-2 text-blue-800 font-medium">
+                <Home className="w-4 h-4" />
+                This phone number is already registered
+              </div>
+              <div className="space-y-2">
+                {householdMatches.households.map(household => (
+                  <label key={household.id} className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="household"
+                      checked={householdChoice === `household:${household.id}`}
+                      onChange={() => setHouseholdChoice(`household:${household.id}`)}
+                      className="mt-1"
+                    />
+                    <span>
+                      Add to <strong>{household.name}</strong>
+                      <span className="block text-gray-500">
+                        {household.members.map(member => toTitleCase(member.name)).join(', ')}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+                {householdMatches.unlinkedPatients.map(match => (
+                  <label key={match.id} className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="household"
+                      checked={householdChoice === `head:${match.id}`}
+                      onChange={() => setHouseholdChoice(`head:${match.id}`)}
+                      className="mt-1"
+                    />
+                    <span>
+                      Start a household with <strong>{toTitleCase(match.name)}</strong> ({match.age} years, {match.gender}) as head
+                    </span>
+                  </label>
+                ))}
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="household"
+                    checked={householdChoice === ''}
+                    onChange={() => setHouseholdChoice('')}
+                  />
+                  Don't link to a household
+                </label>
+              </div>
+              {householdChoice && (
+                <div>
+                  <label className="block mb-2">
+                    Relationship to Head of Household
+                  </label>
+                  <select
+                    value={relationship}
+                    onChange={(e) => setRelationship(e.target.value as HouseholdRelationship)}
+                    className="input-field"
+                  >
+                    {HOUSEHOLD_RELATIONSHIPS.filter(option => option.value !== 'self').map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block mb-2">
               Address *
@@ -1,11 +1,16 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Calendar, FileText, Activity, Search, Filter, Plus } from 'lucide-react';
-import { Patient, Visit } from '../../types';
+import { ArrowLeft, Calendar, FileText, Activity, Search, Filter, Plus, Wallet, Home, CreditCard, AlertTriangle } from 'lucide-react';
+import { Patient, PatientOutstandingSummary, Visit } from '../../types';
 import { visitService } from '../../services/visitService';
+import { patientAccountService } from '../../services/patientAccountService';
+import { pdfService } from '../../services/pdfService';
 import { format } from 'date-fns';
 import { useAuth } from '../Auth/useAuth';
 import AddVisitModal from './AddVisitModal';
+import PatientAccountStatement from './PatientAccountStatement';
+import PatientHousehold from './PatientHousehold';
 import { toTitleCase, getInitials } from '../../utils/stringUtils';
+import { buildMrnLink } from '../../utils/patientMrn';
 
 interface PatientTimelineProps {
   patient: Patient;
@@ -20,11 +25,15 @@ const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, onBack }) =>
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddVisitModal, setShowAddVisitModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<'visits' | 'account' | 'household'>('visits');
+  const [printingCard, setPrintingCard] = useState(false);
+  const [outstanding, setOutstanding] = useState<PatientOutstandingSummary | null>(null);
   
   // Load visits on component mount
   React.useEffect(() => {
     if (user) {
       loadVisits();
+      loadOutstanding();
     }
   }, [patient.id, user]);
 
@@ -42,6 +51,14 @@ const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, onBack }) =>
     }
   };
   
+  const loadOutstanding = async () => {
+    try {
+      setOutstanding(await patientAccountService.getOutstandingSummary(patient.id));
+    } catch (err) {
+      console.error('Error loading outstanding summary:', err);
+    }
+  };
+
   // Filter visits based on search and filter criteria
   const filteredVisits = visits.filter(visit => {
     const matchesSearch = !searchTerm || 
@@ -61,6 +78,28 @@ const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, onBack }) =>
     loadVisits(); // Reload visits to show the new one
   };
 
+  const handlePrintIdCard = async () => {
+    if (!patient.mrn || !user?.clinic) {
+      alert('This patient has no MRN yet. Reconnect to sync offline registrations and try again.');
+      return;
+    }
+
+    try {
+      setPrintingCard(true);
+      const pdfUrl = await pdfService.generatePdfFromData('patient_card', {
+        patient,
+        clinicSettings: user.clinic,
+        cardLink: buildMrnLink(patient.mrn)
+      });
+      window.open(pdfUrl, '_blank');
+    } catch (error) {
+      console.error('Error printing patient ID card:', error);
+      alert('Failed to print ID card. Please try again.');
+    } finally {
+      setPrintingCard(false);
+    }
+  };
+
   const sortedVisits = filteredVisits.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
   return (
@@ -80,8 +119,19 @@ const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, onBack }) =>
         </div>
         <div className="flex-1">
           <h2>{toTitleCase(patient.name)}</h2>
-          <p className="text-gray-600">{patient.phone} • {patient.age} years • {patient.gender}</p>
+          <p className="text-gray-600">
+            {patient.mrn && <span className="font-mono">{patient.mrn} • </span>}
+            {patient.phone} • {patient.age} years • {patient.gender}
+          </p>
         </div>
+        <button
+          onClick={handlePrintIdCard}
+          disabled={printingCard}
+          className="secondary-button flex items-center gap-2 disabled:opacity-50"
+        >
+          <CreditCard className="w-4 h-4" />
+          {printingCard ? 'Preparing...' : 'Print ID Card'}
+        </button>
         <button
           onClick={handleAddVisit}
           className="primary-button flex items-center gap-2"
@@ -111,6 +161,33 @@ const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, onBack }) =>
           </div>
         </div>
         
+        {outstanding && outstanding.outstandingAmount > 0 && (
+          <div className={`mt-6 p-4 rounded-lg border flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 ${
+            outstanding.overdueAmount > 0 ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+          }`}>
+            <div className="flex items-start gap-3">
+              <AlertTriangle className={`w-5 h-5 mt-0.5 ${outstanding.overdueAmount > 0 ? 'text-red-600' : 'text-yellow-600'}`} />
+              <div>
+                <h4 className={`font-medium ${outstanding.overdueAmount > 0 ? 'text-red-800' : 'text-yellow-800'}`}>
+                  ₹{outstanding.outstandingAmount.toLocaleString()} outstanding on {outstanding.openBillCount} {outstanding.openBillCount === 1 ? 'bill' : 'bills'}
+                </h4>
+                <p className="text-sm text-gray-700">
+                  {outstanding.overdueAmount > 0
+                    ? `₹${outstanding.overdueAmount.toLocaleString()} overdue on ${outstanding.overdueBillCount} ${outstanding.overdueBillCount === 1 ? 'bill' : 'bills'}, oldest ${outstanding.oldestDaysPastDue} days past due`
+                    : 'Nothing overdue yet'}
+                  {outstanding.depositBalance > 0 && ` • ₹${outstanding.depositBalance.toLocaleString()} advance available`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setActiveTab('account')}
+              className="secondary-button whitespace-nowrap"
+            >
+              View Account
+            </button>
+          </div>
+        )}
+        
         {patient.allergies && patient.allergies.length > 0 && (
           <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg">
             <h4 className="font-medium text-red-800 mb-2">Allergies</h4>
@@ -125,6 +202,36 @@ const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, onBack }) =>
         )}
       </div>
 
+      {/* Tab Navigation */}
+      <div className="card p-0 overflow-hidden">
+        <nav className="flex overflow-x-auto">
+          {[
+            { id: 'visits' as const, label: 'Visit History', icon: Calendar },
+            { id: 'account' as const, label: 'Account Statement', icon: Wallet },
+            { id: 'household' as const, label: 'Household', icon: Home }
+          ].map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center gap-2 px-6 py-4 font-medium transition-colors whitespace-nowrap ${
+                activeTab === tab.id
+                  ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                  : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+              }`}
+            >
+              <tab.icon className="w-4 h-4" />
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'account' && <PatientAccountStatement patient={patient} />}
+
+      {activeTab === 'household' && <PatientHousehold patient={patient} />}
+
+      {activeTab === 'visits' && (
+      <>
       {/* Search and Filter */}
       <div className="card">
         <div className="flex flex-col sm:flex-row gap-4">
@@ -333,6 +440,9 @@ const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, onBack }) =>
         </div>
       </div>
 
+      </>
+      )}
+
       {/* Add Visit Modal */}
       {showAddVisitModal && (
         <AddVisitModal
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Plus, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
-import { Visit, MedicineWithPrice, PharmacyDispensedItem } from '../../types';
+import { format } from 'date-fns';
+import { Visit, MedicineWithPrice, MedicineBatch, PharmacyDispensedItem } from '../../types';
 import { masterDataService } from '../../services/masterDataService';
 import { pharmacyService } from '../../services/pharmacyService';
+import { allocateFefo, getUnbatchedStock } from '../../utils/fefoAllocation';
 import { useAuth } from '../Auth/useAuth';
 
 interface DispenseModalProps {
@@ -14,11 +16,12 @@ interface DispenseModalProps {
 const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose }) => {
   const { user } = useAuth();
   const [medicines, setMedicines] = useState<MedicineWithPrice[]>([]);
+  const [batches, setBatches] = useState<MedicineBatch[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [dispenseItems, setDispenseItems] = useState<Omit<PharmacyDispensedItem, 'id' | 'createdAt' | 'medicine' | 'dispensedByProfile' | 'totalSellingPrice'>[]>([]);
+  const [dispenseItems, setDispenseItems] = useState<Omit<PharmacyDispensedItem, 'id' | 'createdAt' | 'medicine' | 'batch' | 'dispensedByProfile' | 'totalSellingPrice'>[]>([]);
 
   useEffect(() => {
     loadMedicines();
@@ -33,8 +36,12 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
     try {
       setLoading(true);
       const clinicId = user?.clinicId;
-      const medicinesData = await masterDataService.getMedicines(clinicId);
+      const [medicinesData, batchesData] = await Promise.all([
+        masterDataService.getMedicines(clinicId),
+        pharmacyService.getMedicineBatches()
+      ]);
       setMedicines(medicinesData);
+      setBatches(batchesData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load medicines');
       console.error('Error loading medicines:', err);
@@ -73,7 +80,6 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
           dispensedBy: user?.id || '',
           dispenseDate: new Date(),
           sellingPriceAtDispense: matchedMedicine?.sellingPrice || 0,
-          batchNumber: matchedMedicine?.batchNumber || '',
           originalPrescriptionName: prescription.medicine,
           isMatched: !!matchedMedicine
         };
@@ -89,7 +95,6 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
         dispensedBy: user?.id || '',
         dispenseDate: new Date(),
         sellingPriceAtDispense: 0,
-        batchNumber: '',
         originalPrescriptionName: undefined,
         isMatched: false
       }]);
@@ -105,7 +110,6 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
       dispensedBy: user?.id || '',
       dispenseDate: new Date(),
       sellingPriceAtDispense: 0,
-      batchNumber: '',
       originalPrescriptionName: undefined,
       isMatched: false
     }]);
@@ -121,7 +125,6 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
           const selectedMedicine = medicines.find(m => m.id === value);
           if (selectedMedicine) {
             updatedItem.sellingPriceAtDispense = selectedMedicine.sellingPrice || 0;
-            updatedItem.batchNumber = selectedMedicine.batchNumber || '';
             updatedItem.isMatched = true;
           } else {
             updatedItem.isMatched = false;
@@ -139,13 +142,28 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
     setDispenseItems(dispenseItems.filter((_, i) => i !== index));
   };
 
+  const getMedicineBatches = (medicineId: string): MedicineBatch[] => {
+    return batches.filter(batch => batch.medicineId === medicineId);
+  };
+
+  // Preview of the batches the dispense will draw from, earliest expiry first
+  const getAllocation = (medicineId: string, quantity: number) => {
+    const medicine = medicines.find(m => m.id === medicineId);
+    const medicineBatches = getMedicineBatches(medicineId);
+    return allocateFefo(medicineBatches, quantity, getUnbatchedStock(medicine?.currentStock || 0, medicineBatches));
+  };
+
+  // Stock that can actually be dispensed (excludes expired batches)
   const getMedicineStock = (medicineId: string): number => {
     const medicine = medicines.find(m => m.id === medicineId);
-    return medicine?.currentStock || 0;
+    if (!medicine) return 0;
+    const total = medicine.currentStock;
+    const { shortfall } = getAllocation(medicineId, total);
+    return total - shortfall;
   };
 
   const isStockSufficient = (medicineId: string, quantity: number): boolean => {
-    return getMedicineStock(medicineId) >= quantity;
+    return getAllocation(medicineId, quantity).shortfall === 0;
   };
 
   const handleDispense = async () => {
@@ -331,13 +349,21 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
                       </div>
 
                       <div>
-                        <label className="block text-xs text-gray-600 mb-1">Batch Number</label>
-                        <input
-                          type="text"
-                          value={item.batchNumber}
-                          onChange={(e) => updateDispenseItem(index, 'batchNumber', e.target.value)}
-                          className="w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        />
+                        <label className="block text-xs text-gray-600 mb-1">Batch (FEFO)</label>
+                        <div className="px-2 py-1 border border-gray-200 rounded text-xs bg-gray-50 min-h-[30px]">
+                          {item.medicineId && item.quantity > 0 ? (
+                            getAllocation(item.medicineId, item.quantity).allocations.map((allocation, allocationIndex) => (
+                              <div key={allocationIndex} className="text-gray-700">
+                                {allocation.batchNumber || 'Unbatched'} × {allocation.quantity}
+                                {allocation.expiryDate && (
+                                  <span className="text-gray-500"> (exp {format(allocation.expiryDate, 'MMM yyyy')})</span>
+                                )}
+                              </div>
+                            ))
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </div>
                       </div>
 
                       <div className="flex items-end">
@@ -361,7 +387,10 @@ const DispenseModal: React.FC<DispenseModalProps> = ({ visit, onSave, onClose })
 
                     {medicine && (
                       <div className="mt-2 text-xs text-gray-600">
-                        Available Stock: {medicine.currentStock} | 
+                        Available Stock: {availableStock}
+                        {availableStock < medicine.currentStock && (
+                          <span className="text-orange-600"> ({medicine.currentStock - availableStock} expired)</span>
+                        )} | 
                         Generic: {medicine.genericName || 'N/A'} | 
                         Form: {medicine.dosageForm}
                         {item.originalPrescriptionName && item.isMatched && (
@@ -1,17 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Filter, Calendar, TrendingUp, TrendingDown, BarChart3, AlertTriangle, Clock, Package, Pill } from 'lucide-react';
+import { Search, Filter, Calendar, TrendingUp, TrendingDown, BarChart3, AlertTriangle, Clock, Package, Pill, Layers } from 'lucide-react';
 import { format, differenceInDays } from 'date-fns';
-import { StockMovementLog, MedicineMaster, MedicineWithPrice } from '../../types';
+import { StockMovementLog, MedicineMaster, MedicineWithPrice, MedicineBatch } from '../../types';
 import { pharmacyService } from '../../services/pharmacyService';
 import { masterDataService } from '../../services/masterDataService';
 import { useAuth } from '../Auth/useAuth';
 
 const StockReport: React.FC = () => {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'movements' | 'low-stock' | 'expiring'>('movements');
+  const [activeTab, setActiveTab] = useState<'movements' | 'low-stock' | 'expiring' | 'batches'>('movements');
   const [movements, setMovements] = useState<StockMovementLog[]>([]);
   const [lowStockMedicines, setLowStockMedicines] = useState<MedicineWithPrice[]>([]);
   const [expiringMedicines, setExpiringMedicines] = useState<MedicineWithPrice[]>([]);
+  const [batches, setBatches] = useState<MedicineBatch[]>([]);
   const [medicines, setMedicines] = useState<MedicineMaster[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -23,12 +24,13 @@ const StockReport: React.FC = () => {
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [expiryDaysFilter, setExpiryDaysFilter] = useState(30);
+  const [showDepletedBatches, setShowDepletedBatches] = useState(false);
 
   useEffect(() => {
     if (user) {
       loadData();
     }
-  }, [user, activeTab]);
+  }, [user, activeTab, showDepletedBatches]);
 
   const loadData = async () => {
     try {
@@ -50,6 +52,9 @@ const StockReport: React.FC = () => {
       } else if (activeTab === 'expiring') {
         const expiringData = await pharmacyService.getExpiringMedicines(expiryDaysFilter, clinicId);
         setExpiringMedicines(expiringData);
+      } else if (activeTab === 'batches') {
+        const batchesData = await pharmacyService.getMedicineBatches(undefined, showDepletedBatches);
+        setBatches(batchesData);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load report data');
@@ -91,6 +96,14 @@ const StockReport: React.FC = () => {
     medicine.genericName?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const filteredBatches = batches.filter(batch =>
+    (!searchTerm ||
+      batch.batchNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      batch.medicine?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      batch.medicine?.genericName?.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    (!selectedMedicine || batch.medicineId === selectedMedicine)
+  );
+
   const getMovementIcon = (type: string) => {
     switch (type) {
       case 'inward':
@@ -258,6 +271,17 @@ const StockReport: React.FC = () => {
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab('batches')}
+              className={`flex items-center gap-2 px-6 py-4 font-medium transition-colors ${
+                activeTab === 'batches'
+                  ? 'text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              <Layers className="w-4 h-4" />
+              Batch Stock
+            </button>
           </nav>
         </div>
 
@@ -388,6 +412,55 @@ const StockReport: React.FC = () => {
               )}
             </div>
           )}
+
+          {activeTab === 'batches' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {/* Search */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  <input
+                    type="text"
+                    placeholder="Medicine name, batch number..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              {/* Medicine Filter */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Medicine</label>
+                <select
+                  value={selectedMedicine}
+                  onChange={(e) => setSelectedMedicine(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">All Medicines</option>
+                  {Array.from(new Map(batches.filter(b => b.medicine).map(b => [b.medicineId, b.medicine!.name])).entries()).map(([id, name]) => (
+                    <option key={id} value={id}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Depleted batches toggle */}
+              <div className="flex items-end">
+                <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+                  <input
+                    type="checkbox"
+                    checked={showDepletedBatches}
+                    onChange={(e) => setShowDepletedBatches(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Show depleted batches
+                </label>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Content */}
@@ -657,6 +730,97 @@ const StockReport: React.FC = () => {
               )}
             </div>
           )}
+
+          {/* Batch Stock Tab */}
+          {activeTab === 'batches' && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Medicine
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Batch Number
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Expiry Date
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Received
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      On Hand
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredBatches.map(batch => {
+                    const expiryStatus = batch.currentStock === 0
+                      ? { status: 'Depleted', color: 'bg-gray-100 text-gray-800' }
+                      : batch.expiryDate
+                        ? getExpiryStatus(batch.expiryDate)
+                        : { status: 'No Expiry', color: 'bg-gray-100 text-gray-800' };
+
+                    return (
+                      <tr key={batch.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center gap-2">
+                            <Pill className="w-4 h-4 text-gray-400" />
+                            <div>
+                              <div className="text-sm font-medium text-gray-900">{batch.medicine?.name || 'Unknown Medicine'}</div>
+                              {batch.medicine?.genericName && (
+                                <div className="text-sm text-gray-500">{batch.medicine.genericName}</div>
+                              )}
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                          {batch.batchNumber}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {batch.expiryDate ? format(batch.expiryDate, 'MMM dd, yyyy') : 'Not set'}
+                          {batch.expiryDate && batch.currentStock > 0 && (
+                            <div className="text-xs text-gray-500">
+                              {differenceInDays(batch.expiryDate, new Date()) <= 0
+                                ? 'Expired'
+                                : `${differenceInDays(batch.expiryDate, new Date())} days left`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {batch.quantityReceived}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {batch.currentStock}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 py-1 text-xs rounded-full ${expiryStatus.color}`}>
+                            {expiryStatus.status}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {filteredBatches.length === 0 && (
+                <div className="p-8 text-center">
+                  <Layers className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">
+                    {searchTerm || selectedMedicine
+                      ? 'No batches found matching your filters'
+                      : 'No batch stock recorded yet'
+                    }
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ListOrdered, UserPlus, Monitor, PhoneCall, CheckCircle, UserX, LogIn, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import { Appointment, DoctorQueue } from '../../types';
+import { queueService } from '../../services/queueService';
+import { useAuth } from '../Auth/useAuth';
+import { toTitleCase } from '../../utils/stringUtils';
+import WalkInModal from './WalkInModal';
+
+const QueueBoard: React.FC = () => {
+  const { user } = useAuth();
+  const [queues, setQueues] = useState<DoctorQueue[]>([]);
+  // Doctors open on their own queue
+  const [doctorFilter, setDoctorFilter] = useState<string>(user?.isOpenForConsultation ? user.id : 'all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showWalkInModal, setShowWalkInModal] = useState(false);
+
+  const loadQueue = useCallback(async (showSpinner = false) => {
+    try {
+      if (showSpinner) setLoading(true);
+      setError(null);
+      setQueues(await queueService.getQueue());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load queue');
+      console.error('Error loading queue:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user?.clinicId) return;
+
+    loadQueue(true);
+    const unsubscribe = queueService.subscribeToQueue(user.clinicId, () => loadQueue());
+    return unsubscribe;
+  }, [user?.clinicId, loadQueue]);
+
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    try {
+      setBusyId(id);
+      await action();
+      await loadQueue();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update queue');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleNoShow = (appointment: Appointment) => {
+    if (!confirm(`Mark ${toTitleCase(appointment.patient?.name || 'this patient')} as no-show?`)) return;
+    runAction(appointment.id, () => queueService.updateQueueStatus(appointment, 'No_Show'));
+  };
+
+  const visibleQueues = doctorFilter === 'all'
+    ? queues
+    : queues.filter(queue => queue.doctor.id === doctorFilter);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading queue...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <div className="text-red-600 mb-4">{error}</div>
+        <button
+          onClick={() => loadQueue(true)}
+          className="primary-button"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="section-spacing">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="flex items-center gap-2">
+            <ListOrdered className="w-6 h-6 text-blue-600" />
+            Token Queue
+          </h1>
+          <p className="text-gray-600">{format(new Date(), 'EEEE, MMMM dd, yyyy')}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={doctorFilter}
+            onChange={(e) => setDoctorFilter(e.target.value)}
+            className="input-field"
+          >
+            <option value="all">All Doctors</option>
+            {queues.map(queue => (
+              <option key={queue.doctor.id} value={queue.doctor.id}>
+                Dr. {toTitleCase(queue.doctor.name)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => window.open('/queue/display', '_blank')}
+            className="secondary-button flex items-center gap-2"
+          >
+            <Monitor className="w-4 h-4" />
+            Waiting Room Display
+          </button>
+          <button
+            onClick={() => setShowWalkInModal(true)}
+            disabled={queues.length === 0}
+            className="primary-button flex items-center gap-2 disabled:opacity-50"
+          >
+            <UserPlus className="w-4 h-4" />
+            Add Walk-in
+          </button>
+        </div>
+      </div>
+
+      {queues.length === 0 && (
+        <div className="card text-center text-gray-500">
+          No doctors are open for consultation. Enable "Open for Consultation" on a doctor's profile to start a queue.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {visibleQueues.map(queue => (
+          <div key={queue.doctor.id} className="card p-0">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between gap-4">
+              <div>
+                <h3>Dr. {toTitleCase(queue.doctor.name)}</h3>
+                {queue.doctor.specialization && (
+                  <p className="text-sm text-gray-600">{queue.doctor.specialization}</p>
+                )}
+              </div>
+              <button
+                onClick={() => runAction(queue.doctor.id, () => queueService.callNext(queue))}
+                disabled={busyId === queue.doctor.id || (!queue.current && queue.waiting.length === 0)}
+                className="primary-button flex items-center gap-2 disabled:opacity-50"
+              >
+                <PhoneCall className="w-4 h-4" />
+                {queue.waiting.length > 0 ? 'Call Next' : 'Finish Current'}
+              </button>
+            </div>
+
+            {/* Now serving */}
+            <div className="p-6 bg-blue-50 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <div className="text-4xl font-bold text-blue-600 w-20 text-center">
+                  {queue.current?.tokenNumber ?? '--'}
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-blue-600 uppercase tracking-wider">Now Serving</p>
+                  <p className="font-medium text-gray-900">
+                    {queue.current ? toTitleCase(queue.current.patient?.name || 'Unknown Patient') : 'No patient in consultation'}
+                  </p>
+                  {queue.current?.startedAt && (
+                    <p className="text-sm text-gray-600">Since {format(queue.current.startedAt, 'h:mm a')}</p>
+                  )}
+                </div>
+              </div>
+              {queue.current && (
+                <button
+                  onClick={() => runAction(queue.current!.id, () => queueService.updateQueueStatus(queue.current!, 'Completed'))}
+                  disabled={busyId === queue.current.id}
+                  className="flex items-center gap-1 text-green-600 hover:text-green-800 font-medium disabled:opacity-50"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Complete
+                </button>
+              )}
+            </div>
+
+            {/* Waiting */}
+            <div className="p-6 border-b border-gray-200">
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Waiting ({queue.waiting.length})</h4>
+              {queue.waiting.length === 0 ? (
+                <p className="text-sm text-gray-500">Nobody is waiting</p>
+              ) : (
+                <div className="space-y-2">
+                  {queue.waiting.map(appointment => (
+                    <div key={appointment.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="flex items-center gap-3">
+                        <span className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center font-bold text-gray-900">
+                          {appointment.tokenNumber}
+                        </span>
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {toTitleCase(appointment.patient?.name || 'Unknown Patient')}
+                            {appointment.isWalkIn && (
+                              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">Walk-in</span>
+                            )}
+                          </p>
+                          {appointment.checkedInAt && (
+                            <p className="text-gray-500">Checked in {format(appointment.checkedInAt, 'h:mm a')}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => runAction(appointment.id, () => queueService.callNext(queue, appointment))}
+                          disabled={busyId === appointment.id}
+                          className="flex items-center gap-1 text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+                        >
+                          <PhoneCall className="w-4 h-4" />
+                          Call
+                        </button>
+                        <button
+                          onClick={() => handleNoShow(appointment)}
+                          disabled={busyId === appointment.id}
+                          className="flex items-center gap-1 text-red-600 hover:text-red-900 disabled:opacity-50"
+                          title="No-show"
+                        >
+                          <UserX className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Booked but not arrived */}
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-medium text-gray-900">Not Arrived ({queue.notArrived.length})</h4>
+                <span className="text-xs text-gray-500">Completed: {queue.completed.length}</span>
+              </div>
+              {queue.notArrived.length === 0 ? (
+                <p className="text-sm text-gray-500">All booked patients have arrived</p>
+              ) : (
+                <div className="space-y-2">
+                  {queue.notArrived.map(appointment => (
+                    <div key={appointment.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="flex items-center gap-3">
+                        <Clock className="w-4 h-4 text-gray-400" />
+                        <span className="w-16 text-gray-600">{format(appointment.appointmentDate, 'h:mm a')}</span>
+                        <span className="font-medium text-gray-900">
+                          {toTitleCase(appointment.patient?.name || 'Unknown Patient')}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => runAction(appointment.id, () => queueService.checkIn(appointment.id))}
+                          disabled={busyId === appointment.id}
+                          className="flex items-center gap-1 text-green-600 hover:text-green-800 font-medium disabled:opacity-50"
+                        >
+                          <LogIn className="w-4 h-4" />
+                          Check In
+                        </button>
+                        <button
+                          onClick={() => handleNoShow(appointment)}
+                          disabled={busyId === appointment.id}
+                          className="flex items-center gap-1 text-red-600 hover:text-red-900 disabled:opacity-50"
+                          title="No-show"
+                        >
+                          <UserX className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {showWalkInModal && (
+        <WalkInModal
+          doctors={queues.map(queue => queue.doctor)}
+          defaultDoctorId={doctorFilter !== 'all' ? doctorFilter : undefined}
+          onSaved={(appointment) => {
+            setShowWalkInModal(false);
+            alert(`Token ${appointment.tokenNumber} issued to ${toTitleCase(appointment.patient?.name || 'patient')}`);
+            loadQueue();
+          }}
+          onClose={() => setShowWalkInModal(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QueueBoard;
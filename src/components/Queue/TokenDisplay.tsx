@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { DoctorQueue } from '../../types';
+import { queueService } from '../../services/queueService';
+import { useAuth } from '../Auth/useAuth';
+import { toTitleCase } from '../../utils/stringUtils';
+
+// How many upcoming tokens to show per doctor
+const NEXT_TOKEN_COUNT = 3;
+
+const TokenDisplay: React.FC = () => {
+  const { user } = useAuth();
+  const [queues, setQueues] = useState<DoctorQueue[]>([]);
+  const [now, setNow] = useState(new Date());
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueues(await queueService.getQueue());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load queue');
+      console.error('Error loading queue:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user?.clinicId) return;
+
+    loadQueue();
+    const unsubscribe = queueService.subscribeToQueue(user.clinicId, loadQueue);
+    return unsubscribe;
+  }, [user?.clinicId, loadQueue]);
+
+  // Clock, plus a periodic refresh in case a realtime event is missed
+  useEffect(() => {
+    const clock = setInterval(() => setNow(new Date()), 1000);
+    const refresh = setInterval(loadQueue, 60000);
+    return () => {
+      clearInterval(clock);
+      clearInterval(refresh);
+    };
+  }, [loadQueue]);
+
+  const activeQueues = queues.filter(queue =>
+    queue.current || queue.waiting.length > 0 || queue.completed.length > 0
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center justify-between px-10 py-6 border-b border-gray-700">
+        <h1 className="text-4xl font-bold text-white">
+          {user?.clinic?.clinicName || 'Token Queue'}
+        </h1>
+        <div className="text-right">
+          <p className="text-4xl font-bold tabular-nums">{format(now, 'h:mm:ss a')}</p>
+          <p className="text-lg text-gray-400">{format(now, 'EEEE, MMMM dd')}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-10 py-3 bg-red-900 text-red-100 text-lg">{error}</div>
+      )}
+
+      <div className="flex-1 grid gap-6 p-10" style={{ gridTemplateColumns: `repeat(${Math.min(Math.max(activeQueues.length, 1), 3)}, minmax(0, 1fr))` }}>
+        {activeQueues.length === 0 && (
+          <div className="flex items-center justify-center text-3xl text-gray-400">
+            The queue will appear here once patients check in
+          </div>
+        )}
+
+        {activeQueues.map(queue => (
+          <div key={queue.doctor.id} className="bg-gray-800 rounded-2xl flex flex-col overflow-hidden">
+            <div className="px-8 py-5 bg-blue-700">
+              <p className="text-3xl font-bold">Dr. {toTitleCase(queue.doctor.name)}</p>
+              {queue.doctor.specialization && (
+                <p className="text-xl text-blue-100">{queue.doctor.specialization}</p>
+              )}
+            </div>
+
+            <div className="flex-1 flex flex-col items-center justify-center py-8">
+              <p className="text-2xl uppercase tracking-widest text-gray-400">Now Serving</p>
+              <p className="text-9xl font-bold text-yellow-400 tabular-nums">
+                {queue.current?.tokenNumber ?? '--'}
+              </p>
+            </div>
+
+            <div className="px-8 py-6 border-t border-gray-700">
+              <p className="text-xl uppercase tracking-widest text-gray-400 mb-3">Next</p>
+              <div className="flex gap-4">
+                {queue.waiting.slice(0, NEXT_TOKEN_COUNT).map(appointment => (
+                  <span key={appointment.id} className="text-5xl font-bold tabular-nums bg-gray-700 rounded-xl px-6 py-3">
+                    {appointment.tokenNumber}
+                  </span>
+                ))}
+                {queue.waiting.length === 0 && (
+                  <span className="text-3xl text-gray-500">—</span>
+                )}
+              </div>
+              {queue.waiting.length > NEXT_TOKEN_COUNT && (
+                <p className="text-lg text-gray-400 mt-3">+{queue.waiting.length - NEXT_TOKEN_COUNT} more waiting</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TokenDisplay;
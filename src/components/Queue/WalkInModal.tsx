@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { X, User, UserPlus } from 'lucide-react';
+import { Appointment, Patient, Profile } from '../../types';
+import { patientService } from '../../services/patientService';
+import { queueService } from '../../services/queueService';
+import { toTitleCase } from '../../utils/stringUtils';
+
+interface WalkInModalProps {
+  doctors: Profile[];
+  defaultDoctorId?: string;
+  onSaved: (appointment: Appointment) => void;
+  onClose: () => void;
+}
+
+const WalkInModal: React.FC<WalkInModalProps> = ({ doctors, defaultDoctorId, onSaved, onClose }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<Patient[]>([]);
+  const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [doctorId, setDoctorId] = useState(defaultDoctorId || doctors[0]?.id || '');
+  const [appointmentType, setAppointmentType] = useState<Appointment['appointmentType']>('Consultation');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (searchTerm.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await patientService.searchPatients(searchTerm.trim());
+        setSearchResults(results.slice(0, 10));
+      } catch (err) {
+        console.error('Error searching patients:', err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedPatient) {
+      setError('Select a patient');
+      return;
+    }
+
+    if (!doctorId) {
+      setError('Select a doctor');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const appointment = await queueService.addWalkIn({
+        patientId: selectedPatient.id,
+        doctorId,
+        appointmentType,
+        notes: notes.trim() || undefined
+      });
+      onSaved(appointment);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add walk-in');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <UserPlus className="w-5 h-5 text-blue-600" />
+            Add Walk-in
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Patient *
+            </label>
+            {selectedPatient ? (
+              <div className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <User className="w-5 h-5 text-blue-600" />
+                  <div>
+                    <p className="font-medium text-blue-800">{toTitleCase(selectedPatient.name)}</p>
+                    <p className="text-sm text-blue-600">{selectedPatient.phone} • {selectedPatient.age} years</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setSelectedPatient(null)}
+                  className="text-blue-600 hover:text-blue-700 text-sm"
+                >
+                  Change
+                </button>
+              </div>
+            ) : (
+              <div className="relative">
+                <input
+                  type="text"
+                  placeholder="Search patients by name or phone..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoFocus
+                />
+                {searchResults.length > 0 && (
+                  <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                    {searchResults.map(patient => (
+                      <button
+                        key={patient.id}
+                        type="button"
+                        onClick={() => {
+                          setSelectedPatient(patient);
+                          setSearchTerm('');
+                          setSearchResults([]);
+                        }}
+                        className="w-full text-left p-3 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+                      >
+                        <div className="font-medium">{toTitleCase(patient.name)}</div>
+                        <div className="text-sm text-gray-600">{patient.phone} • {patient.age} years</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Doctor *
+            </label>
+            <select
+              required
+              value={doctorId}
+              onChange={(e) => setDoctorId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Select a doctor</option>
+              {doctors.map(doctor => (
+                <option key={doctor.id} value={doctor.id}>
+                  Dr. {toTitleCase(doctor.name)} {doctor.specialization && `- ${doctor.specialization}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Visit Type
+            </label>
+            <select
+              value={appointmentType}
+              onChange={(e) => setAppointmentType(e.target.value as Appointment['appointmentType'])}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="Consultation">Consultation</option>
+              <option value="Follow_Up">Follow-up</option>
+              <option value="Emergency">Emergency</option>
+              <option value="Routine_Checkup">Routine Checkup</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !selectedPatient}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Adding...' : 'Add & Issue Token'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default WalkInModal;
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { addDays, endOfDay, format, parseISO } from 'date-fns';
+import { AvailabilityException } from '../../types';
+import { doctorAvailabilityService } from '../../services/doctorAvailabilityService';
+import { appointmentService } from '../../services/appointmentService';
+import { describeException } from '../../utils/availabilityExceptions';
+
+interface AvailabilityExceptionsProps {
+  doctorId?: string; // Doctor whose leave is managed; omit to manage clinic holidays only
+  canManageHolidays: boolean;
+}
+
+const AvailabilityExceptions: React.FC<AvailabilityExceptionsProps> = ({ doctorId, canManageHolidays }) => {
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    exceptionType: (doctorId ? 'day_off' : 'holiday') as AvailabilityException['exceptionType'],
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: format(new Date(), 'yyyy-MM-dd'),
+    startTime: '10:00',
+    endTime: '13:00',
+    reason: ''
+  });
+
+  useEffect(() => {
+    loadExceptions();
+  }, [doctorId]);
+
+  const loadExceptions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const today = new Date();
+      const upcoming = await doctorAvailabilityService.getExceptions(today, addDays(today, 365), doctorId);
+      setExceptions(doctorId ? upcoming : upcoming.filter(exception => exception.exceptionType === 'holiday'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load leave and holidays');
+      console.error('Error loading availability exceptions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const exception = await doctorAvailabilityService.addException({
+        doctorId: formData.exceptionType === 'holiday' ? undefined : doctorId,
+        exceptionType: formData.exceptionType,
+        startDate: parseISO(formData.startDate),
+        endDate: parseISO(formData.endDate),
+        startTime: formData.startTime,
+        endTime: formData.endTime,
+        reason: formData.reason.trim() || undefined
+      });
+
+      // Tell staff about bookings that now clash
+      const booked = await appointmentService.getAppointmentsByDateRange(exception.startDate, endOfDay(exception.endDate));
+      const affected = doctorAvailabilityService.getAppointmentsNeedingReschedule(booked, [exception]).size;
+      if (affected > 0) {
+        alert(`${affected} booked appointment${affected === 1 ? '' : 's'} fall${affected === 1 ? 's' : ''} in this period and ${affected === 1 ? 'is' : 'are'} flagged for rescheduling on the appointment calendar.`);
+      }
+
+      setFormData({ ...formData, reason: '' });
+      await loadExceptions();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (exception: AvailabilityException) => {
+    if (!confirm(`Remove "${describeException(exception)}"?`)) return;
+
+    try {
+      await doctorAvailabilityService.deleteException(exception.id);
+      setExceptions(exceptions.filter(e => e.id !== exception.id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  const canEdit = (exception: AvailabilityException) =>
+    exception.exceptionType === 'holiday' ? canManageHolidays : exception.doctorId === doctorId;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <CalendarOff className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-800">
+          {doctorId ? 'Leave, Holidays & Exceptions' : 'Clinic Holidays'}
+        </h3>
+      </div>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end mb-6">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={formData.exceptionType}
+            onChange={(e) => setFormData({ ...formData, exceptionType: e.target.value as AvailabilityException['exceptionType'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {doctorId && <option value="day_off">Leave / day off</option>}
+            {doctorId && <option value="custom_hours">Custom hours</option>}
+            {canManageHolidays && <option value="holiday">Clinic holiday</option>}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            required
+            value={formData.startDate}
+            onChange={(e) => setFormData({
+              ...formData,
+              startDate: e.target.value,
+              endDate: formData.endDate < e.target.value ? e.target.value : formData.endDate
+            })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            required
+            min={formData.startDate}
+            value={formData.endDate}
+            onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        {formData.exceptionType === 'custom_hours' ? (
+          <div className="md:col-span-2 flex items-center gap-2">
+            <input
+              type="time"
+              required
+              value={formData.startTime}
+              onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-sm text-gray-600">to</span>
+            <input
+              type="time"
+              required
+              value={formData.endTime}
+              onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        ) : (
+          <div className="md:col-span-2" />
+        )}
+        <div className="md:col-span-5">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+          <input
+            type="text"
+            value={formData.reason}
+            onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+            placeholder="e.g. Conference, Diwali"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          {saving ? 'Adding...' : 'Add'}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : error ? (
+        <div className="text-center py-4">
+          <div className="text-red-600 mb-2">{error}</div>
+          <button onClick={loadExceptions} className="text-blue-600 hover:text-blue-800 text-sm">Retry</button>
+        </div>
+      ) : exceptions.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing scheduled for the coming year</p>
+      ) : (
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {exceptions.map(exception => (
+            <div key={exception.id} className="flex items-center justify-between gap-4 p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{describeException(exception)}</p>
+                <p className="text-sm text-gray-600">
+                  {format(exception.startDate, 'EEE, MMM dd, yyyy')}
+                  {exception.endDate.getTime() !== exception.startDate.getTime() && ` - ${format(exception.endDate, 'EEE, MMM dd, yyyy')}`}
+                </p>
+              </div>
+              {canEdit(exception) && (
+                <button
+                  onClick={() => handleDelete(exception)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityExceptions;
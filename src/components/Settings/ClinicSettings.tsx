@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Save, Building, Phone, Mail, Globe, Clock, IndianRupee } from 'lucide-react';
+import { Save, Building, Phone, Mail, Globe, Clock, IndianRupee, CalendarCheck, Copy, Hash } from 'lucide-react';
 import { ClinicSetting } from '../../types';
 import { clinicSettingsService } from '../../services/clinicSettingsService';
 import { useAuth } from '../Auth/useAuth';
+import { DEFAULT_MRN_PREFIX, DEFAULT_MRN_SEQUENCE_PADDING, formatMrn, validateMrnPrefix } from '../../utils/patientMrn';
 
 const ClinicSettings: React.FC = () => {
   const { user } = useAuth();
@@ -23,8 +24,16 @@ const ClinicSettings: React.FC = () => {
     followUpFee: 200,
     emergencyFee: 500,
     appointmentDuration: 30,
+    consultationTaxExempt: true,
+    consultationSacCode: '999312',
+    consultationGstRate: 18,
     currency: 'INR',
-    timezone: 'Asia/Kolkata'
+    timezone: 'Asia/Kolkata',
+    onlineBookingEnabled: false,
+    onlineBookingDays: 14,
+    mrnPrefix: DEFAULT_MRN_PREFIX,
+    mrnIncludeYear: true,
+    mrnSequencePadding: DEFAULT_MRN_SEQUENCE_PADDING
   });
 
   const [workingHours, setWorkingHours] = useState({
@@ -63,8 +72,16 @@ const ClinicSettings: React.FC = () => {
         followUpFee: clinicSettings.followUpFee,
         emergencyFee: clinicSettings.emergencyFee,
         appointmentDuration: clinicSettings.appointmentDuration,
+        consultationTaxExempt: clinicSettings.consultationTaxExempt ?? true,
+        consultationSacCode: clinicSettings.consultationSacCode || '999312',
+        consultationGstRate: clinicSettings.consultationGstRate ?? 18,
         currency: clinicSettings.currency,
-        timezone: clinicSettings.timezone
+        timezone: clinicSettings.timezone,
+        onlineBookingEnabled: clinicSettings.onlineBookingEnabled ?? false,
+        onlineBookingDays: clinicSettings.onlineBookingDays ?? 14,
+        mrnPrefix: clinicSettings.mrnPrefix || DEFAULT_MRN_PREFIX,
+        mrnIncludeYear: clinicSettings.mrnIncludeYear ?? true,
+        mrnSequencePadding: clinicSettings.mrnSequencePadding ?? DEFAULT_MRN_SEQUENCE_PADDING
       });
       
       setWorkingHours(clinicSettings.workingHours);
@@ -79,10 +96,17 @@ const ClinicSettings: React.FC = () => {
   const handleSave = async () => {
     if (!settings) return;
 
+    const mrnPrefixError = validateMrnPrefix(formData.mrnPrefix);
+    if (mrnPrefixError) {
+      alert(mrnPrefixError);
+      return;
+    }
+
     try {
       setSaving(true);
       const updatedSettings = await clinicSettingsService.updateClinicSettings(settings.id, {
         ...formData,
+        mrnPrefix: formData.mrnPrefix.trim().toUpperCase(),
         workingHours
       });
       setSettings(updatedSettings);
@@ -95,6 +119,17 @@ const ClinicSettings: React.FC = () => {
     }
   };
 
+  const bookingLink = settings ? `${window.location.origin}/book/${settings.id}` : '';
+
+  const copyBookingLink = async () => {
+    try {
+      await navigator.clipboard.writeText(bookingLink);
+      alert('Booking link copied to clipboard!');
+    } catch {
+      alert(bookingLink);
+    }
+  };
+
   const updateWorkingHours = (day: string, field: string, value: string | boolean) => {
     setWorkingHours(prev => ({
       ...prev,
@@ -209,7 +244,7 @@ const ClinicSettings: React.FC = () => {
           </div>
           
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Tax ID</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tax ID (GSTIN)</label>
             <input
               type="text"
               value={formData.taxId}
@@ -287,6 +322,164 @@ const ClinicSettings: React.FC = () => {
             />
           </div>
         </div>
+
+        <div className="mt-6 pt-4 border-t border-gray-200">
+          <h4 className="text-sm font-semibold text-gray-800 mb-3">GST on Consultations</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="consultationTaxExempt"
+                checked={formData.consultationTaxExempt}
+                onChange={(e) => setFormData({ ...formData, consultationTaxExempt: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+              />
+              <label htmlFor="consultationTaxExempt" className="text-sm text-gray-700 cursor-pointer">
+                Consultations are tax-exempt
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">SAC Code</label>
+              <input
+                type="text"
+                value={formData.consultationSacCode}
+                onChange={(e) => setFormData({ ...formData, consultationSacCode: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">GST Rate (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.consultationGstRate}
+                disabled={formData.consultationTaxExempt}
+                onChange={(e) => setFormData({ ...formData, consultationGstRate: parseFloat(e.target.value) || 0 })}
+                className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  formData.consultationTaxExempt ? 'bg-gray-100 cursor-not-allowed' : ''
+                }`}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Online Booking */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <CalendarCheck className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-800">Online Booking</h3>
+        </div>
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={formData.onlineBookingEnabled}
+              onChange={(e) => setFormData({ ...formData, onlineBookingEnabled: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+            />
+            <span className="text-sm font-medium text-gray-700">Let patients book from a public page</span>
+          </label>
+          <p className="text-xs text-gray-500">
+            Patients verify their mobile number with a one-time code. Bookings appear on the calendar as Scheduled
+            with an Online tag until you confirm them.
+          </p>
+
+          {formData.onlineBookingEnabled && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Days Ahead</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="90"
+                  value={formData.onlineBookingDays}
+                  onChange={(e) => setFormData({ ...formData, onlineBookingDays: parseInt(e.target.value) || 14 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Booking Link</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={bookingLink}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={copyBookingLink}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    title="Copy link"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Medical Record Numbers */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Hash className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-800">Medical Record Numbers</h3>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Prefix</label>
+            <input
+              type="text"
+              maxLength={10}
+              value={formData.mrnPrefix}
+              onChange={(e) => setFormData({ ...formData, mrnPrefix: e.target.value.toUpperCase() })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Sequence Digits</label>
+            <input
+              type="number"
+              min="3"
+              max="10"
+              value={formData.mrnSequencePadding}
+              onChange={(e) => setFormData({ ...formData, mrnSequencePadding: parseInt(e.target.value) || DEFAULT_MRN_SEQUENCE_PADDING })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <label className="flex items-center gap-2 py-2">
+            <input
+              type="checkbox"
+              checked={formData.mrnIncludeYear}
+              onChange={(e) => setFormData({ ...formData, mrnIncludeYear: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2"
+            />
+            <span className="text-sm font-medium text-gray-700">Include year</span>
+          </label>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Next MRN looks like</label>
+            <div className="px-3 py-2 border border-gray-200 rounded-lg bg-gray-50 text-sm font-mono">
+              {formatMrn({
+                prefix: formData.mrnPrefix,
+                includeYear: formData.mrnIncludeYear,
+                sequencePadding: formData.mrnSequencePadding
+              }, 42)}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          Every new patient gets the next number in sequence. With the year included, numbering restarts each January.
+          Changing the format does not renumber existing patients.
+        </p>
       </div>
 
       {/* Working Hours */}
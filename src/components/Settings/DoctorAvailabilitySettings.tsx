@@ -3,9 +3,10 @@ import { Save, Clock, Calendar, AlertCircle } from 'lucide-react';
 import { useAuth } from '../Auth/useAuth';
 import { getCurrentProfile } from '../../services/profileService';
 import { doctorAvailabilityService, DoctorAvailability } from '../../services/doctorAvailabilityService';
+import AvailabilityExceptions from './AvailabilityExceptions';
 
 const DoctorAvailabilitySettings: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -101,6 +102,10 @@ const DoctorAvailabilitySettings: React.FC = () => {
             Go to Profile Settings
           </button>
         </div>
+
+        {hasPermission('system_settings') && (
+          <AvailabilityExceptions canManageHolidays={true} />
+        )}
       </div>
     );
   }
@@ -230,11 +235,17 @@ const DoctorAvailabilitySettings: React.FC = () => {
                 <li>• Define break times to block appointments during lunch/breaks</li>
                 <li>• Patients can only book appointments during your available slots</li>
                 <li>• If not set, clinic default working hours will be used</li>
+                <li>• Leave, custom hours and clinic holidays below override the weekly schedule</li>
               </ul>
             </div>
           </div>
         </div>
       </div>
+
+      <AvailabilityExceptions
+        doctorId={user.id}
+        canManageHolidays={hasPermission('system_settings')}
+      />
     </div>
   );
 };
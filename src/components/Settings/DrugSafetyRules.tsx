@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Save, X, ShieldAlert } from 'lucide-react';
+import { DrugSafetyRule } from '../../types';
+import { masterDataService } from '../../services/masterDataService';
+
+interface DrugSafetyRulesProps {
+  searchTerm: string;
+}
+
+const RULE_TYPE_LABELS: Record<DrugSafetyRule['ruleType'], string> = {
+  interaction: 'Drug Interaction',
+  duplicate_class: 'Therapeutic Class',
+  contraindication: 'Diagnosis Conflict'
+};
+
+const DrugSafetyRules: React.FC<DrugSafetyRulesProps> = ({ searchTerm }) => {
+  const [rules, setRules] = useState<DrugSafetyRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRule, setEditingRule] = useState<DrugSafetyRule | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRules(await masterDataService.getDrugSafetyRules());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load safety rules');
+      console.error('Error loading drug safety rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (rule: DrugSafetyRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+
+    try {
+      await masterDataService.deleteDrugSafetyRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (err) {
+      console.error('Error deleting drug safety rule:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  const handleToggle = async (rule: DrugSafetyRule) => {
+    try {
+      const updated = await masterDataService.updateDrugSafetyRule(rule.id, { isActive: !rule.isActive });
+      setRules(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+    } catch (err) {
+      console.error('Error updating drug safety rule:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update rule');
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredRules = rules.filter(rule =>
+    rule.name.toLowerCase().includes(term) ||
+    rule.drugTerms.some(t => t.toLowerCase().includes(term)) ||
+    rule.otherTerms.some(t => t.toLowerCase().includes(term))
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <p className="text-sm text-gray-600">
+          Checked while prescribing, together with patient allergies and each medicine's contraindications.
+          Terms match a medicine's name, generic name or category.
+        </p>
+        <button
+          onClick={() => {
+            setEditingRule(null);
+            setShowModal(true);
+          }}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {filteredRules.length === 0 ? (
+        <div className="text-center py-12">
+          <ShieldAlert className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">No safety rules found</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Rule</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Type</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Matches</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Severity</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Status</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredRules.map(rule => (
+                <tr key={rule.id} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <div className="font-medium text-gray-800">{rule.name}</div>
+                    {rule.message && <div className="text-sm text-gray-600">{rule.message}</div>}
+                  </td>
+                  <td className="py-3 px-4 text-gray-600">{RULE_TYPE_LABELS[rule.ruleType]}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">
+                    <div>{rule.drugTerms.join(', ')}</div>
+                    {rule.ruleType !== 'duplicate_class' && (
+                      <div className="text-xs text-gray-500">
+                        {rule.ruleType === 'interaction' ? 'with' : 'in'} {rule.otherTerms.join(', ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    <span className={`px-2 py-1 text-xs rounded-full capitalize ${
+                      rule.severity === 'high' ? 'bg-red-100 text-red-700' :
+                      rule.severity === 'moderate' ? 'bg-orange-100 text-orange-700' :
+                      'bg-yellow-100 text-yellow-700'
+                    }`}>
+                      {rule.severity}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4">
+                    <button
+                      onClick={() => handleToggle(rule)}
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        rule.isActive ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                      }`}
+                    >
+                      {rule.isActive ? 'Active' : 'Inactive'}
+                    </button>
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => {
+                          setEditingRule(rule);
+                          setShowModal(true);
+                        }}
+                        className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                        title="Edit"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <DrugSafetyRuleModal
+          rule={editingRule}
+          onClose={() => setShowModal(false)}
+          onSaved={(saved) => {
+            setRules(prev => {
+              const exists = prev.some(r => r.id === saved.id);
+              return (exists ? prev.map(r => (r.id === saved.id ? saved : r)) : [...prev, saved])
+                .sort((a, b) => a.name.localeCompare(b.name));
+            });
+            setShowModal(false);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+// Drug Safety Rule Modal Component
+const DrugSafetyRuleModal: React.FC<{
+  rule: DrugSafetyRule | null;
+  onClose: () => void;
+  onSaved: (rule: DrugSafetyRule) => void;
+}> = ({ rule, onClose, onSaved }) => {
+  const [formData, setFormData] = useState({
+    ruleType: rule?.ruleType || 'interaction' as DrugSafetyRule['ruleType'],
+    name: rule?.name || '',
+    drugTerms: rule?.drugTerms.join(', ') || '',
+    otherTerms: rule?.otherTerms.join(', ') || '',
+    severity: rule?.severity || 'moderate' as DrugSafetyRule['severity'],
+    message: rule?.message || ''
+  });
+  const [saving, setSaving] = useState(false);
+
+  const splitTerms = (value: string) => value.split(',').map(term => term.trim()).filter(Boolean);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const drugTerms = splitTerms(formData.drugTerms);
+    const otherTerms = splitTerms(formData.otherTerms);
+
+    if (formData.ruleType === 'duplicate_class' && drugTerms.length < 2) {
+      alert('List at least two medicines or generic names in the class.');
+      return;
+    }
+    if (formData.ruleType !== 'duplicate_class' && (drugTerms.length === 0 || otherTerms.length === 0)) {
+      alert('Please fill in both sides of the rule.');
+      return;
+    }
+
+    const payload = {
+      ruleType: formData.ruleType,
+      name: formData.name.trim(),
+      drugTerms,
+      otherTerms,
+      severity: formData.severity,
+      message: formData.message.trim() || undefined,
+      isActive: rule?.isActive ?? true
+    };
+
+    setSaving(true);
+    try {
+      const saved = rule
+        ? await masterDataService.updateDrugSafetyRule(rule.id, payload)
+        : await masterDataService.addDrugSafetyRule(payload);
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving drug safety rule:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const otherLabel = formData.ruleType === 'interaction' ? 'Interacts With *' : 'Diagnoses *';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold">{rule ? 'Edit' : 'Add'} Safety Rule</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Rule Type *</label>
+            <select
+              value={formData.ruleType}
+              onChange={(e) => setFormData({ ...formData, ruleType: e.target.value as DrugSafetyRule['ruleType'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="interaction">Drug Interaction</option>
+              <option value="duplicate_class">Therapeutic Class (duplicate therapy)</option>
+              <option value="contraindication">Diagnosis Conflict</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {formData.ruleType === 'duplicate_class' ? 'Class Name *' : 'Rule Name *'}
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={formData.ruleType === 'duplicate_class' ? 'e.g., NSAIDs' : 'e.g., Warfarin + NSAIDs'}
+            />
+            {formData.ruleType === 'duplicate_class' && (
+              <p className="text-xs text-gray-500 mt-1">Patients allergic to this class are also warned about its members.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {formData.ruleType === 'duplicate_class' ? 'Members *' : 'Medicines *'}
+            </label>
+            <input
+              type="text"
+              value={formData.drugTerms}
+              onChange={(e) => setFormData({ ...formData, drugTerms: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Comma separated, e.g., ibuprofen, diclofenac, aceclofenac"
+            />
+          </div>
+
+          {formData.ruleType !== 'duplicate_class' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{otherLabel}</label>
+              <input
+                type="text"
+                value={formData.otherTerms}
+                onChange={(e) => setFormData({ ...formData, otherTerms: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={formData.ruleType === 'interaction' ? 'Comma separated, e.g., warfarin' : 'Comma separated, e.g., peptic ulcer, renal failure'}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Severity *</label>
+            <select
+              value={formData.severity}
+              onChange={(e) => setFormData({ ...formData, severity: e.target.value as DrugSafetyRule['severity'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="low">Low</option>
+              <option value="moderate">Moderate</option>
+              <option value="high">High</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Advice</label>
+            <textarea
+              value={formData.message}
+              onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Shown with the warning, e.g., Increased bleeding risk; monitor INR"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DrugSafetyRules;
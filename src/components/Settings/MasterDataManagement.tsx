@@ -1,17 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { useLocation } from 'react-router-dom';
-import { Plus, Search, Edit, Trash2, Pill, TestTube, Save, X, IndianRupee, Bot } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Pill, TestTube, Save, X, IndianRupee, Bot, FlaskConical, ShieldAlert, Calculator } from 'lucide-react';
 import { useAuth } from '../Auth/useAuth';
 import { masterDataService } from '../../services/masterDataService';
 import { getCurrentProfile } from '../../services/profileService';
 import { MedicineMaster, TestMaster, MedicineWithPrice, TestWithPrice, ClinicMedicinePrice, ClinicTestPrice } from '../../types';
 import AIMasterSettings from './AIMasterSettings';
+import TestAnalytesModal from './TestAnalytesModal';
+import DrugSafetyRules from './DrugSafetyRules';
+import MedicineDosingModal from './MedicineDosingModal';
+import { GST_RATE_OPTIONS } from '../../utils/gstCalculator';
 
 const MasterDataManagement: React.FC = () => {
   const { user, hasPermission } = useAuth();
   const location = useLocation();
-  const [activeTab, setActiveTab] = useState<'ai-assistant' | 'medicines' | 'tests' | 'pricing'>(
-    (location.state as { activeTab?: 'ai-assistant' | 'medicines' | 'tests' | 'pricing' })?.activeTab || 'ai-assistant'
+  const [activeTab, setActiveTab] = useState<'ai-assistant' | 'medicines' | 'tests' | 'pricing' | 'safety-rules'>(
+    (location.state as { activeTab?: 'ai-assistant' | 'medicines' | 'tests' | 'pricing' | 'safety-rules' })?.activeTab || 'ai-assistant'
   );
   const [medicines, setMedicines] = useState<MedicineWithPrice[]>([]);
   const [tests, setTests] = useState<TestWithPrice[]>([]);
@@ -23,10 +27,12 @@ const MasterDataManagement: React.FC = () => {
   const [showPricingModal, setShowPricingModal] = useState(false);
   const [selectedItem, setSelectedItem] = useState<MedicineMaster | TestMaster | MedicineWithPrice | TestWithPrice | null>(null);
   const [selectedPriceItem, setSelectedPriceItem] = useState<{ type: 'medicine' | 'test'; id: string; name: string } | null>(null);
+  const [analyteTest, setAnalyteTest] = useState<TestWithPrice | null>(null);
+  const [dosingMedicine, setDosingMedicine] = useState<MedicineWithPrice | null>(null);
 
   // Update activeTab when location state changes
   useEffect(() => {
-    const state = location.state as { activeTab?: 'ai-assistant' | 'medicines' | 'tests' | 'pricing' };
+    const state = location.state as { activeTab?: 'ai-assistant' | 'medicines' | 'tests' | 'pricing' | 'safety-rules' };
     if (state?.activeTab && state.activeTab !== activeTab) {
       setActiveTab(state.activeTab);
     }
@@ -171,6 +177,17 @@ const MasterDataManagement: React.FC = () => {
               <IndianRupee className="w-4 h-4" />
               Pricing
             </button>
+            <button
+              onClick={() => setActiveTab('safety-rules')}
+              className={`flex items-center gap-2 px-6 py-4 font-medium transition-colors ${
+                activeTab === 'safety-rules'
+                  ? 'text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              <ShieldAlert className="w-4 h-4" />
+              Safety Rules
+            </button>
           </nav>
         </div>
 
@@ -209,7 +226,10 @@ const MasterDataManagement: React.FC = () => {
                 setSelectedPriceItem({ type: 'medicine', id: medicine.id, name: medicine.name });
                 setShowPricingModal(true);
               }}
+              onEditDosing={setDosingMedicine}
             />
+          ) : activeTab === 'safety-rules' ? (
+            <DrugSafetyRules searchTerm={searchTerm} />
           ) : activeTab === 'tests' ? (
             <TestsTable 
               tests={filteredTests} 
@@ -223,6 +243,7 @@ const MasterDataManagement: React.FC = () => {
                 setSelectedPriceItem({ type: 'test', id: test.id, name: test.name });
                 setShowPricingModal(true);
               }}
+              onEditAnalytes={setAnalyteTest}
             />
           ) : (
             <PricingTable 
@@ -248,6 +269,30 @@ const MasterDataManagement: React.FC = () => {
           }}
         />
       )}
+
+      {/* Dosing Modal */}
+      {dosingMedicine && (
+        <MedicineDosingModal
+          medicine={dosingMedicine}
+          onClose={() => setDosingMedicine(null)}
+          onSaved={async () => {
+            setDosingMedicine(null);
+            await loadData();
+          }}
+        />
+      )}
+
+      {/* Analytes Modal */}
+      {analyteTest && (
+        <TestAnalytesModal
+          test={analyteTest}
+          onClose={() => setAnalyteTest(null)}
+          onSaved={async () => {
+            setAnalyteTest(null);
+            await loadData();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -258,7 +303,8 @@ const MedicinesTable: React.FC<{
   onEdit: (medicine: MedicineWithPrice) => void;
   onDelete: (id: string) => void;
   onSetPrice: (medicine: MedicineWithPrice) => void;
-}> = ({ medicines, onEdit, onDelete, onSetPrice }) => {
+  onEditDosing: (medicine: MedicineWithPrice) => void;
+}> = ({ medicines, onEdit, onDelete, onSetPrice, onEditDosing }) => {
   if (medicines.length === 0) {
     return (
       <div className="text-center py-12">
@@ -295,6 +341,9 @@ const MedicinesTable: React.FC<{
                   {medicine.batchNumber && (
                     <div className="text-xs text-gray-400">Batch: {medicine.batchNumber}</div>
                   )}
+                  {medicine.dosingRule && (
+                    <div className="text-xs text-blue-600">{medicine.dosingRule.mgPerKgPerDay} mg/kg/day</div>
+                  )}
                 </div>
               </td>
               <td className="py-3 px-4 text-gray-600">{medicine.genericName || '-'}</td>
@@ -310,6 +359,7 @@ const MedicinesTable: React.FC<{
                 <div className="space-y-1">
                   <div>Cost: {medicine.costPrice ? `₹${medicine.costPrice}` : 'Not set'}</div>
                   <div className="text-xs">Sell: {medicine.sellingPrice ? `₹${medicine.sellingPrice}` : 'Not set'}</div>
+                  <div className="text-xs">GST: {medicine.gstRate || 0}%{medicine.hsnCode && ` • HSN ${medicine.hsnCode}`}</div>
                 </div>
               </td>
               <td className="py-3 px-4">
@@ -334,6 +384,13 @@ const MedicinesTable: React.FC<{
                   >
                     <IndianRupee className="w-4 h-4" />
                   </button>
+                  <button
+                    onClick={() => onEditDosing(medicine)}
+                    className="p-1 text-purple-600 hover:bg-purple-50 rounded"
+                    title="Paediatric Dosing"
+                  >
+                    <Calculator className="w-4 h-4" />
+                  </button>
                   <button
                     onClick={() => onDelete(medicine.id)}
                     className="p-1 text-red-600 hover:bg-red-50 rounded"
@@ -356,7 +413,8 @@ const TestsTable: React.FC<{
   onEdit: (test: TestWithPrice) => void;
   onDelete: (id: string) => void;
   onSetPrice: (test: TestWithPrice) => void;
-}> = ({ tests, onEdit, onDelete, onSetPrice }) => {
+  onEditAnalytes: (test: TestWithPrice) => void;
+}> = ({ tests, onEdit, onDelete, onSetPrice, onEditAnalytes }) => {
   if (tests.length === 0) {
     return (
       <div className="text-center py-12">
@@ -387,6 +445,11 @@ const TestsTable: React.FC<{
                 {test.normalRange && (
                   <div className="text-sm text-gray-600">Normal: {test.normalRange}</div>
                 )}
+                {test.analytes && test.analytes.length > 0 && (
+                  <div className="text-xs text-gray-500">
+                    Analytes: {test.analytes.map(analyte => analyte.name).join(', ')}
+                  </div>
+                )}
               </td>
               <td className="py-3 px-4 text-gray-600">{test.category}</td>
               <td className="py-3 px-4">
@@ -403,6 +466,7 @@ const TestsTable: React.FC<{
                 <div className="space-y-1">
                   <div>Price: {test.price ? `₹${test.price}` : 'Not set'}</div>
                   <div className="text-xs">Cost: {test.cost ? `₹${test.cost}` : 'Not set'}</div>
+                  <div className="text-xs">GST: {test.gstRate || 0}%{test.sacCode && ` • SAC ${test.sacCode}`}</div>
                 </div>
               </td>
               <td className="py-3 px-4">
@@ -428,6 +492,15 @@ const TestsTable: React.FC<{
                   >
                     <IndianRupee className="w-4 h-4" />
                   </button>
+                  {test.type === 'lab' && (
+                    <button
+                      onClick={() => onEditAnalytes(test)}
+                      className="p-1 text-purple-600 hover:bg-purple-50 rounded"
+                      title="Analytes & Reference Ranges"
+                    >
+                      <FlaskConical className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={() => onDelete(test.id)}
                     className="p-1 text-red-600 hover:bg-red-50 rounded"
@@ -722,6 +795,8 @@ const MasterDataModal: React.FC<{
           contraindications: [],
           currentStock: 0,
           reorderLevel: 0,
+          hsnCode: '',
+          gstRate: 0,
           isActive: true
         });
       } else {
@@ -733,6 +808,8 @@ const MasterDataModal: React.FC<{
           units: '',
           description: '',
           preparationInstructions: '',
+          sacCode: '',
+          gstRate: 0,
           isActive: true
         });
       }
@@ -878,6 +955,30 @@ const MasterDataModal: React.FC<{
                   />
                 </div>
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">HSN Code</label>
+                  <input
+                    type="text"
+                    value={formData.hsnCode || ''}
+                    onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g., 3004"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">GST Rate (%)</label>
+                  <select
+                    value={formData.gstRate ?? 0}
+                    onChange={(e) => setFormData({ ...formData, gstRate: parseFloat(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {GST_RATE_OPTIONS.map(rate => (
+                      <option key={rate} value={rate}>{rate}%</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
             </>
           ) : (
             <>
@@ -954,6 +1055,30 @@ const MasterDataModal: React.FC<{
                   placeholder="e.g., Fasting required for 12 hours"
                 />
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">SAC Code</label>
+                  <input
+                    type="text"
+                    value={formData.sacCode || ''}
+                    onChange={(e) => setFormData({ ...formData, sacCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g., 999316"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">GST Rate (%)</label>
+                  <select
+                    value={formData.gstRate ?? 0}
+                    onChange={(e) => setFormData({ ...formData, gstRate: parseFloat(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {GST_RATE_OPTIONS.map(rate => (
+                      <option key={rate} value={rate}>{rate}%</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
             </>
           )}
 
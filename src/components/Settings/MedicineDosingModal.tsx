@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Save, X, Trash2 } from 'lucide-react';
+import { masterDataService } from '../../services/masterDataService';
+import { MedicineMaster } from '../../types';
+import { calculatePaediatricDose, parseStrength, FREQUENCY_DOSES_PER_DAY } from '../../utils/doseCalculator';
+
+interface MedicineDosingModalProps {
+  medicine: MedicineMaster;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const toText = (value?: number): string => (value === undefined ? '' : String(value));
+
+const toNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const MedicineDosingModal: React.FC<MedicineDosingModalProps> = ({ medicine, onClose, onSaved }) => {
+  const rule = medicine.dosingRule;
+  const [formData, setFormData] = useState({
+    mgPerKgPerDay: toText(rule?.mgPerKgPerDay),
+    maxDailyMg: toText(rule?.maxDailyMg),
+    maxSingleDoseMg: toText(rule?.maxSingleDoseMg),
+    maxAgeYears: toText(rule?.maxAgeYears),
+    frequencies: rule?.frequencies || ['BD', 'TID']
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const strength = parseStrength(medicine.strength, medicine.dosageForm);
+  const mgPerKgPerDay = toNumber(formData.mgPerKgPerDay);
+
+  // Worked example for a 10 kg child so the rule can be sanity-checked before saving
+  const example = mgPerKgPerDay ? calculatePaediatricDose({
+    rule: {
+      mgPerKgPerDay,
+      maxDailyMg: toNumber(formData.maxDailyMg),
+      maxSingleDoseMg: toNumber(formData.maxSingleDoseMg),
+      frequencies: formData.frequencies
+    },
+    strength: medicine.strength,
+    dosageForm: medicine.dosageForm,
+    weightKg: 10,
+    frequency: formData.frequencies[0] || 'BD',
+    duration: '5 days'
+  }) : undefined;
+
+  const toggleFrequency = (frequency: string) => {
+    setFormData(prev => ({
+      ...prev,
+      frequencies: prev.frequencies.includes(frequency)
+        ? prev.frequencies.filter(f => f !== frequency)
+        : Object.keys(FREQUENCY_DOSES_PER_DAY).filter(f => f === frequency || prev.frequencies.includes(f))
+    }));
+  };
+
+  const saveRule = async (clear: boolean) => {
+    if (!clear) {
+      if (!mgPerKgPerDay || mgPerKgPerDay <= 0) {
+        setError('Enter the dose in mg/kg/day.');
+        return;
+      }
+      if (formData.frequencies.length === 0) {
+        setError('Select at least one frequency.');
+        return;
+      }
+      const limits = [formData.maxDailyMg, formData.maxSingleDoseMg, formData.maxAgeYears];
+      if (limits.some(value => value.trim() !== '' && toNumber(value) === undefined)) {
+        setError('Maximum doses and age must be numbers.');
+        return;
+      }
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await masterDataService.updateMedicine(medicine.id, {
+        dosingRule: clear ? undefined : {
+          mgPerKgPerDay: mgPerKgPerDay as number,
+          maxDailyMg: toNumber(formData.maxDailyMg),
+          maxSingleDoseMg: toNumber(formData.maxSingleDoseMg),
+          frequencies: formData.frequencies,
+          maxAgeYears: toNumber(formData.maxAgeYears)
+        }
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Error saving dosing rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save dosing rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold">Paediatric Dosing</h2>
+            <p className="text-sm text-gray-600">
+              {medicine.name}{medicine.strength && ` • ${medicine.strength}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!strength && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              The strength "{medicine.strength || 'not set'}" could not be read as mg per ml or per tablet, so doses will be suggested in mg only.
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Dose (mg/kg/day) *</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={formData.mgPerKgPerDay}
+                onChange={(e) => setFormData({ ...formData, mgPerKgPerDay: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Suggest up to age (years)</label>
+              <input
+                type="number"
+                min="0"
+                value={formData.maxAgeYears}
+                onChange={(e) => setFormData({ ...formData, maxAgeYears: e.target.value })}
+                className={inputClass}
+                placeholder="No limit"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Daily Dose (mg)</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={formData.maxDailyMg}
+                onChange={(e) => setFormData({ ...formData, maxDailyMg: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Single Dose (mg)</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={formData.maxSingleDoseMg}
+                onChange={(e) => setFormData({ ...formData, maxSingleDoseMg: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Split the daily dose as</label>
+            <div className="flex gap-4">
+              {Object.keys(FREQUENCY_DOSES_PER_DAY).map(frequency => (
+                <label key={frequency} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.frequencies.includes(frequency)}
+                    onChange={() => toggleFrequency(frequency)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {frequency}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {example && (
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+              <p className="font-medium">Example for a 10 kg child:</p>
+              <p>{example.calculation}</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-between gap-3 pt-4 border-t">
+            {rule ? (
+              <button
+                onClick={() => saveRule(true)}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove Rule
+              </button>
+            ) : <span />}
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => saveRule(false)}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Save Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MedicineDosingModal;
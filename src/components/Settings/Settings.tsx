@@ -14,8 +14,10 @@ import {
   Database,
   Edit,
   MessageCircle,
-  Building
+  Building,
+  ClipboardList
 } from 'lucide-react';
+import VisitTemplates from './VisitTemplates';
 
 const Settings: React.FC = () => {
   const { user } = useAuth();
@@ -63,6 +65,7 @@ const Settings: React.FC = () => {
   // Base tabs available to all users
   const baseTabs = [
     { id: 'profile', label: 'Profile', icon: User },
+    { id: 'visit-templates', label: 'Visit Templates', icon: ClipboardList },
   ];
 
   // Admin-only tabs
@@ -472,6 +475,8 @@ const Settings: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'visit-templates' && <VisitTemplates />}
+
           {activeTab === 'master-data' && (
             <div className="bg-white rounded-lg shadow-md p-6">
               <h3 className="text-lg font-semibold text-gray-800 mb-4">Master Data Management</h3>
@@ -1,15 +1,40 @@
-import React, { useState } from 'react';
-import { Save, Database, Shield, Bell, Globe, Download, Upload } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Save, Database, Shield, Bell, Globe, Download, Upload, RotateCcw } from 'lucide-react';
 import { useAuth } from '../Auth/useAuth';
+import { clinicSettingsService } from '../../services/clinicSettingsService';
+import { backupService } from '../../services/backupService';
+import { ClinicBackup, ClinicSetting } from '../../types';
+
+type BackupFrequency = NonNullable<ClinicSetting['backupFrequency']>;
+
+const FREQUENCY_HOURS: Record<BackupFrequency, number> = {
+  hourly: 1,
+  daily: 24,
+  weekly: 24 * 7,
+  monthly: 24 * 30
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 const SystemSettings: React.FC = () => {
   const { user, hasPermission } = useAuth();
   const [saving, setSaving] = useState(false);
+  const [clinicSettings, setClinicSettings] = useState<ClinicSetting | null>(null);
+  const [backups, setBackups] = useState<ClinicBackup[]>([]);
+  const [backupsError, setBackupsError] = useState<string | null>(null);
+  const [backupFormat, setBackupFormat] = useState<ClinicBackup['fileFormat']>('zip');
+  const [backupAction, setBackupAction] = useState<'backup' | 'restore' | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
   
   const [settings, setSettings] = useState({
     // Database Settings
-    autoBackup: true,
-    backupFrequency: 'daily',
+    autoBackup: false,
+    backupFrequency: 'daily' as BackupFrequency,
     retentionDays: 30,
     
     // Security Settings
@@ -29,11 +54,56 @@ const SystemSettings: React.FC = () => {
     language: 'en'
   });
 
+  const canManageSystem = !!user && hasPermission('system_settings');
+
+  useEffect(() => {
+    if (canManageSystem) {
+      loadBackupSettings();
+      loadBackups();
+    }
+  }, [canManageSystem]);
+
+  const loadBackupSettings = async () => {
+    try {
+      const loaded = await clinicSettingsService.getOrCreateClinicSettings();
+      setClinicSettings(loaded);
+      setSettings(prev => ({
+        ...prev,
+        autoBackup: loaded.backupAutoEnabled ?? false,
+        backupFrequency: loaded.backupFrequency ?? 'daily',
+        retentionDays: loaded.backupRetentionDays ?? 30
+      }));
+    } catch (error) {
+      console.error('Error loading backup settings:', error);
+    }
+  };
+
+  const loadBackups = async () => {
+    try {
+      setBackupsError(null);
+      setBackups(await backupService.getBackups());
+    } catch (error) {
+      console.error('Error loading backups:', error);
+      setBackupsError(error instanceof Error ? error.message : 'Failed to load backups');
+    }
+  };
+
   const handleSave = async () => {
+    if (!Number.isInteger(settings.retentionDays) || settings.retentionDays < 1) {
+      alert('Retention days must be a whole number of at least 1.');
+      return;
+    }
+
     try {
       setSaving(true);
-      // Implement save functionality
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
+      if (clinicSettings) {
+        const updated = await clinicSettingsService.updateClinicSettings(clinicSettings.id, {
+          backupAutoEnabled: settings.autoBackup,
+          backupFrequency: settings.backupFrequency,
+          backupRetentionDays: settings.retentionDays
+        });
+        setClinicSettings(updated);
+      }
       alert('System settings saved successfully!');
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -45,22 +115,84 @@ const SystemSettings: React.FC = () => {
 
   const handleBackup = async () => {
     try {
-      // Implement backup functionality
-      alert('Backup initiated successfully!');
+      setBackupAction('backup');
+      const { url } = await backupService.createBackup(backupFormat);
+      await loadBackups();
+      if (url) {
+        window.open(url, '_blank');
+      }
+      alert('Backup created successfully!');
     } catch (error) {
       console.error('Error creating backup:', error);
-      alert('Failed to create backup. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to create backup. Please try again.');
+    } finally {
+      setBackupAction(null);
     }
   };
 
-  const handleRestore = () => {
-    if (confirm('Are you sure you want to restore from backup? This will overwrite current data.')) {
-      // Implement restore functionality
-      alert('Restore functionality would be implemented here.');
+  const handleDownload = async (backup: ClinicBackup) => {
+    try {
+      window.open(await backupService.getDownloadUrl(backup), '_blank');
+    } catch (error) {
+      console.error('Error downloading backup:', error);
+      alert(error instanceof Error ? error.message : 'Failed to download backup.');
     }
   };
 
-  if (!user || !hasPermission('system_settings')) {
+  // Check the archive first, then ask before writing anything back
+  const restoreFromPath = async (filePath: string) => {
+    try {
+      setBackupAction('restore');
+      const inspection = await backupService.inspectBackup(filePath);
+      if (!inspection.compatible || !inspection.manifest) {
+        alert(`This backup cannot be restored:\n\n${inspection.problems.join('\n')}`);
+        return;
+      }
+
+      const { manifest } = inspection;
+      const totalRows = Object.values(manifest.tables).reduce((sum, count) => sum + count, 0);
+      if (!confirm(
+        `Restore the backup of ${manifest.clinicName} taken on ${format(new Date(manifest.createdAt), 'dd MMM yyyy, hh:mm a')}?\n\n` +
+        `${totalRows} records (${manifest.tables.patients ?? 0} patients, ${manifest.tables.visits ?? 0} visits, ${manifest.tables.bills ?? 0} bills) ` +
+        'will be put back to how they were at that time. Records added since the backup are kept.'
+      )) {
+        return;
+      }
+
+      const restored = await backupService.restoreBackup(filePath);
+      const restoredRows = Object.values(restored).reduce((sum, count) => sum + count, 0);
+      alert(`Restore complete. ${restoredRows} records restored. Reload the app to see the restored data.`);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      alert(error instanceof Error ? error.message : 'Failed to restore backup. Please try again.');
+    } finally {
+      setBackupAction(null);
+    }
+  };
+
+  const handleRestoreFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setBackupAction('restore');
+      const filePath = await backupService.uploadArchive(file);
+      await restoreFromPath(filePath);
+    } catch (error) {
+      console.error('Error uploading backup:', error);
+      alert(error instanceof Error ? error.message : 'Failed to upload backup file.');
+      setBackupAction(null);
+    }
+  };
+
+  const lastBackup = backups.find(backup => backup.status === 'completed');
+  const lastScheduledBackup = backups.find(backup => backup.status === 'completed' && backup.triggerType === 'scheduled');
+  const nextBackupAt = lastScheduledBackup
+    ? new Date(lastScheduledBackup.createdAt.getTime() + FREQUENCY_HOURS[settings.backupFrequency] * 60 * 60 * 1000)
+    : null;
+
+  if (!canManageSystem) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="text-center">
@@ -97,7 +229,7 @@ const SystemSettings: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <label className="font-medium text-gray-700">Auto Backup</label>
-                <p className="text-sm text-gray-600">Automatically backup database</p>
+                <p className="text-sm text-gray-600">Automatically back up all clinic data</p>
               </div>
               <label className="relative inline-flex items-center cursor-pointer">
                 <input
@@ -114,7 +246,7 @@ const SystemSettings: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-1">Backup Frequency</label>
               <select
                 value={settings.backupFrequency}
-                onChange={(e) => setSettings({ ...settings, backupFrequency: e.target.value })}
+                onChange={(e) => setSettings({ ...settings, backupFrequency: e.target.value as BackupFrequency })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="hourly">Hourly</option>
@@ -128,6 +260,7 @@ const SystemSettings: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-1">Retention Days</label>
               <input
                 type="number"
+                min="1"
                 value={settings.retentionDays}
                 onChange={(e) => setSettings({ ...settings, retentionDays: parseInt(e.target.value) })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -139,30 +272,133 @@ const SystemSettings: React.FC = () => {
             <div className="p-4 bg-gray-50 rounded-lg">
               <h4 className="font-medium text-gray-700 mb-3">Backup Actions</h4>
               <div className="space-y-2">
+                <div className="flex items-center gap-4 text-sm text-gray-700">
+                  <span>Format:</span>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      checked={backupFormat === 'zip'}
+                      onChange={() => setBackupFormat('zip')}
+                    />
+                    ZIP
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      checked={backupFormat === 'json'}
+                      onChange={() => setBackupFormat('json')}
+                    />
+                    JSON
+                  </label>
+                </div>
                 <button
                   onClick={handleBackup}
-                  className="w-full flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+                  disabled={backupAction !== null}
+                  className="w-full flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
                 >
                   <Download className="w-4 h-4" />
-                  Create Backup Now
+                  {backupAction === 'backup' ? 'Creating Backup...' : 'Create Backup Now'}
                 </button>
                 <button
-                  onClick={handleRestore}
-                  className="w-full flex items-center justify-center gap-2 bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors"
+                  onClick={() => restoreInputRef.current?.click()}
+                  disabled={backupAction !== null}
+                  className="w-full flex items-center justify-center gap-2 bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
                 >
                   <Upload className="w-4 h-4" />
-                  Restore from Backup
+                  {backupAction === 'restore' ? 'Restoring...' : 'Restore from Backup'}
                 </button>
+                <input
+                  ref={restoreInputRef}
+                  type="file"
+                  accept=".zip,.json"
+                  onChange={handleRestoreFile}
+                  className="hidden"
+                />
               </div>
             </div>
 
             <div className="text-sm text-gray-600">
-              <p>Last backup: 2 hours ago</p>
-              <p>Next backup: Today at 11:00 PM</p>
-              <p>Backup size: 45.2 MB</p>
+              {lastBackup ? (
+                <>
+                  <p>Last backup: {formatDistanceToNow(lastBackup.createdAt, { addSuffix: true })}</p>
+                  <p>Backup size: {formatBytes(lastBackup.sizeBytes)}</p>
+                </>
+              ) : (
+                <p>No backups yet</p>
+              )}
+              {settings.autoBackup ? (
+                <p>Next backup: {nextBackupAt && nextBackupAt > new Date() ? format(nextBackupAt, 'dd MMM yyyy, hh:mm a') : 'Within the hour'}</p>
+              ) : (
+                <p>Automatic backups are off</p>
+              )}
             </div>
           </div>
         </div>
+
+        <div className="mt-6">
+          <h4 className="font-medium text-gray-700 mb-3">Backups</h4>
+          {backupsError ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{backupsError}</div>
+          ) : backups.length === 0 ? (
+            <p className="text-sm text-gray-500">No backups have been taken yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Taken</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Type</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Records</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Size</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {backups.map(backup => (
+                    <tr key={backup.id}>
+                      <td className="px-3 py-2 text-gray-800">
+                        {format(backup.createdAt, 'dd MMM yyyy, hh:mm a')}
+                        {backup.createdByName && <span className="block text-xs text-gray-500">by {backup.createdByName}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {backup.triggerType === 'scheduled' ? 'Scheduled' : 'Manual'} · {backup.fileFormat.toUpperCase()}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {backup.status === 'failed' ? (
+                          <span className="text-red-600" title={backup.errorDetails}>Failed</span>
+                        ) : (
+                          Object.values(backup.tableCounts).reduce((sum, count) => sum + count, 0)
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{backup.status === 'completed' ? formatBytes(backup.sizeBytes) : '-'}</td>
+                      <td className="px-3 py-2">
+                        {backup.status === 'completed' && backup.filePath && (
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => handleDownload(backup)}
+                              className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                            >
+                              <Download className="w-4 h-4" />
+                              Download
+                            </button>
+                            <button
+                              onClick={() => restoreFromPath(backup.filePath!)}
+                              disabled={backupAction !== null}
+                              className="flex items-center gap-1 text-orange-600 hover:text-orange-800 disabled:opacity-50"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                              Restore
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Security Settings */}
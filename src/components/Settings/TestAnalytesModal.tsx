@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, X, FlaskConical } from 'lucide-react';
+import { masterDataService } from '../../services/masterDataService';
+import { TestMaster, TestAnalyte, AnalyteReferenceRange } from '../../types';
+
+interface TestAnalytesModalProps {
+  test: TestMaster;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Numbers are kept as strings while editing so empty bounds stay open
+interface RangeForm {
+  sex: AnalyteReferenceRange['sex'];
+  minAge: string;
+  maxAge: string;
+  low: string;
+  high: string;
+}
+
+interface AnalyteForm {
+  name: string;
+  units: string;
+  ranges: RangeForm[];
+}
+
+const emptyRange = (): RangeForm => ({ sex: 'any', minAge: '', maxAge: '', low: '', high: '' });
+
+const toNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const toText = (value?: number): string => (value === undefined ? '' : String(value));
+
+const TestAnalytesModal: React.FC<TestAnalytesModalProps> = ({ test, onClose, onSaved }) => {
+  const [analytes, setAnalytes] = useState<AnalyteForm[]>(
+    (test.analytes || []).map(analyte => ({
+      name: analyte.name,
+      units: analyte.units || '',
+      ranges: analyte.ranges.map(range => ({
+        sex: range.sex,
+        minAge: toText(range.minAge),
+        maxAge: toText(range.maxAge),
+        low: toText(range.low),
+        high: toText(range.high)
+      }))
+    }))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateAnalyte = (index: number, changes: Partial<AnalyteForm>) => {
+    setAnalytes(prev => prev.map((analyte, i) => (i === index ? { ...analyte, ...changes } : analyte)));
+  };
+
+  const updateRange = (analyteIndex: number, rangeIndex: number, changes: Partial<RangeForm>) => {
+    setAnalytes(prev => prev.map((analyte, i) => (
+      i === analyteIndex
+        ? { ...analyte, ranges: analyte.ranges.map((range, j) => (j === rangeIndex ? { ...range, ...changes } : range)) }
+        : analyte
+    )));
+  };
+
+  const addAnalyte = () => {
+    setAnalytes(prev => [...prev, { name: '', units: test.units || '', ranges: [emptyRange()] }]);
+  };
+
+  const removeAnalyte = (index: number) => {
+    setAnalytes(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addRange = (analyteIndex: number) => {
+    updateAnalyte(analyteIndex, { ranges: [...analytes[analyteIndex].ranges, emptyRange()] });
+  };
+
+  const removeRange = (analyteIndex: number, rangeIndex: number) => {
+    updateAnalyte(analyteIndex, { ranges: analytes[analyteIndex].ranges.filter((_, j) => j !== rangeIndex) });
+  };
+
+  const validate = (): string | null => {
+    const names = new Set<string>();
+    for (const analyte of analytes) {
+      const name = analyte.name.trim();
+      if (!name) return 'Every analyte needs a name.';
+      if (names.has(name.toLowerCase())) return `"${name}" is listed more than once.`;
+      names.add(name.toLowerCase());
+
+      for (const range of analyte.ranges) {
+        const values = [range.minAge, range.maxAge, range.low, range.high];
+        if (values.some(value => value.trim() !== '' && toNumber(value) === undefined)) {
+          return `Ranges for "${name}" must be numbers.`;
+        }
+        const low = toNumber(range.low);
+        const high = toNumber(range.high);
+        if (low === undefined && high === undefined) return `Each range for "${name}" needs a low or high value.`;
+        if (low !== undefined && high !== undefined && low > high) return `Low is above high in a range for "${name}".`;
+        const minAge = toNumber(range.minAge);
+        const maxAge = toNumber(range.maxAge);
+        if (minAge !== undefined && maxAge !== undefined && minAge > maxAge) {
+          return `Minimum age is above maximum age in a range for "${name}".`;
+        }
+      }
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const payload: TestAnalyte[] = analytes.map(analyte => ({
+      name: analyte.name.trim(),
+      units: analyte.units.trim() || undefined,
+      ranges: analyte.ranges.map(range => ({
+        sex: range.sex,
+        minAge: toNumber(range.minAge),
+        maxAge: toNumber(range.maxAge),
+        low: toNumber(range.low),
+        high: toNumber(range.high)
+      }))
+    }));
+
+    try {
+      setSaving(true);
+      setError(null);
+      await masterDataService.updateTest(test.id, { analytes: payload });
+      onSaved();
+    } catch (err) {
+      console.error('Error saving analytes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save analytes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold">Analytes & Reference Ranges</h2>
+            <p className="text-sm text-gray-600">{test.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Define what this test reports. The range matching the patient's sex is used first, then an "Any" range;
+            ages are in years and leaving a bound empty means no limit.
+          </p>
+
+          {analytes.length === 0 && (
+            <div className="text-center py-8">
+              <FlaskConical className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-500">No analytes yet. Results for this test are entered as free text.</p>
+            </div>
+          )}
+
+          {analytes.map((analyte, analyteIndex) => (
+            <div key={analyteIndex} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-end gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Analyte *</label>
+                  <input
+                    type="text"
+                    value={analyte.name}
+                    onChange={(e) => updateAnalyte(analyteIndex, { name: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g., Haemoglobin"
+                  />
+                </div>
+                <div className="w-32">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Units</label>
+                  <input
+                    type="text"
+                    value={analyte.units}
+                    onChange={(e) => updateAnalyte(analyteIndex, { units: e.target.value })}
+                    className={inputClass}
+                    placeholder="g/dL"
+                  />
+                </div>
+                <button
+                  onClick={() => removeAnalyte(analyteIndex)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded"
+                  title="Remove analyte"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-6 gap-2 text-xs font-medium text-gray-500">
+                  <span>Sex</span>
+                  <span>Min Age</span>
+                  <span>Max Age</span>
+                  <span>Low</span>
+                  <span>High</span>
+                  <span></span>
+                </div>
+                {analyte.ranges.map((range, rangeIndex) => (
+                  <div key={rangeIndex} className="grid grid-cols-6 gap-2 items-center">
+                    <select
+                      value={range.sex}
+                      onChange={(e) => updateRange(analyteIndex, rangeIndex, { sex: e.target.value as RangeForm['sex'] })}
+                      className={inputClass}
+                    >
+                      <option value="any">Any</option>
+                      <option value="male">Male</option>
+                      <option value="female">Female</option>
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      value={range.minAge}
+                      onChange={(e) => updateRange(analyteIndex, rangeIndex, { minAge: e.target.value })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      value={range.maxAge}
+                      onChange={(e) => updateRange(analyteIndex, rangeIndex, { maxAge: e.target.value })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      value={range.low}
+                      onChange={(e) => updateRange(analyteIndex, rangeIndex, { low: e.target.value })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      value={range.high}
+                      onChange={(e) => updateRange(analyteIndex, rangeIndex, { high: e.target.value })}
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => removeRange(analyteIndex, rangeIndex)}
+                      className="p-1 text-gray-500 hover:text-red-600 justify-self-start"
+                      title="Remove range"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => addRange(analyteIndex)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  + Add range
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addAnalyte}
+            className="flex items-center gap-2 px-4 py-2 text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Analyte
+          </button>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save Analytes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestAnalytesModal;
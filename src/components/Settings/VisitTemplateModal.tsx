@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { Save, X, Plus, Trash2 } from 'lucide-react';
+import { visitTemplateService } from '../../services/visitTemplateService';
+import { VisitTemplate } from '../../types';
+
+type TemplateContents = Pick<VisitTemplate, 'symptoms' | 'diagnoses' | 'prescriptions' | 'testsOrdered' | 'advice'>;
+
+interface VisitTemplateModalProps {
+  template?: VisitTemplate;
+  initialContents?: TemplateContents; // Pre-filled from the visit being edited
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const emptyContents: TemplateContents = {
+  symptoms: [],
+  diagnoses: [],
+  prescriptions: [],
+  testsOrdered: [],
+  advice: []
+};
+
+const VisitTemplateModal: React.FC<VisitTemplateModalProps> = ({ template, initialContents, onClose, onSaved }) => {
+  const [name, setName] = useState(template?.name || '');
+  const [description, setDescription] = useState(template?.description || '');
+  const [isShared, setIsShared] = useState(template?.isShared ?? false);
+  const [contents, setContents] = useState<TemplateContents>(() => {
+    const source = template || initialContents || emptyContents;
+    return {
+      symptoms: source.symptoms,
+      diagnoses: source.diagnoses,
+      prescriptions: source.prescriptions,
+      testsOrdered: source.testsOrdered,
+      advice: source.advice
+    };
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRow = <K extends keyof TemplateContents>(field: K, index: number, value: TemplateContents[K][number]) => {
+    setContents(prev => ({
+      ...prev,
+      [field]: prev[field].map((row, i) => (i === index ? value : row))
+    }));
+  };
+
+  const removeRow = (field: keyof TemplateContents, index: number) => {
+    setContents(prev => ({
+      ...prev,
+      [field]: prev[field].filter((_, i) => i !== index)
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Template name is required.');
+      return;
+    }
+
+    const cleaned: TemplateContents = {
+      symptoms: contents.symptoms.filter(symptom => symptom.name.trim()),
+      diagnoses: contents.diagnoses.filter(diagnosis => diagnosis.name.trim()),
+      prescriptions: contents.prescriptions.filter(prescription => prescription.medicine.trim()),
+      testsOrdered: contents.testsOrdered.filter(test => test.testName.trim()),
+      advice: contents.advice.filter(advice => advice.trim())
+    };
+
+    if (Object.values(cleaned).every(rows => rows.length === 0)) {
+      setError('Add at least one symptom, diagnosis, medicine, test or advice.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const templateData = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        isShared,
+        ...cleaned
+      };
+
+      if (template) {
+        await visitTemplateService.updateTemplate(template.id, templateData);
+      } else {
+        await visitTemplateService.addTemplate(templateData);
+      }
+      onSaved();
+    } catch (err) {
+      console.error('Error saving visit template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const sectionHeader = (label: string, onAdd: () => void) => (
+    <div className="flex items-center justify-between mb-2">
+      <label className="text-sm font-medium text-gray-700">{label}</label>
+      <button
+        onClick={onAdd}
+        className="flex items-center gap-1 text-blue-600 hover:text-blue-700 text-sm"
+      >
+        <Plus className="w-4 h-4" />
+        Add
+      </button>
+    </div>
+  );
+
+  const removeButton = (field: keyof TemplateContents, index: number) => (
+    <button
+      onClick={() => removeRow(field, index)}
+      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+    >
+      <Trash2 className="w-4 h-4" />
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold">{template ? 'Edit Visit Template' : 'New Visit Template'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Template Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={`w-full ${inputClass}`}
+                placeholder="e.g., Viral fever adult"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isShared}
+              onChange={(e) => setIsShared(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Share with all doctors in the clinic
+          </label>
+
+          {/* Symptoms */}
+          <div>
+            {sectionHeader('Symptoms', () => setContents(prev => ({
+              ...prev,
+              symptoms: [...prev.symptoms, { name: '', severity: undefined, duration: undefined, notes: undefined }]
+            })))}
+            <div className="space-y-2">
+              {contents.symptoms.map((symptom, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={symptom.name}
+                    onChange={(e) => updateRow('symptoms', index, { ...symptom, name: e.target.value })}
+                    className={`flex-1 ${inputClass}`}
+                    placeholder="Symptom name..."
+                  />
+                  <input
+                    type="text"
+                    value={symptom.duration || ''}
+                    onChange={(e) => updateRow('symptoms', index, { ...symptom, duration: e.target.value || undefined })}
+                    className={`w-40 ${inputClass}`}
+                    placeholder="Duration..."
+                  />
+                  {removeButton('symptoms', index)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Diagnoses */}
+          <div>
+            {sectionHeader('Diagnoses', () => setContents(prev => ({
+              ...prev,
+              diagnoses: [...prev.diagnoses, { name: '', icd10Code: undefined, isPrimary: prev.diagnoses.length === 0, notes: undefined }]
+            })))}
+            <div className="space-y-2">
+              {contents.diagnoses.map((diagnosis, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={diagnosis.name}
+                    onChange={(e) => updateRow('diagnoses', index, { ...diagnosis, name: e.target.value })}
+                    className={`flex-1 ${inputClass}`}
+                    placeholder="Diagnosis..."
+                  />
+                  <input
+                    type="text"
+                    value={diagnosis.icd10Code || ''}
+                    onChange={(e) => updateRow('diagnoses', index, { ...diagnosis, icd10Code: e.target.value || undefined })}
+                    className={`w-32 ${inputClass}`}
+                    placeholder="ICD-10"
+                  />
+                  <label className="flex items-center gap-1 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={diagnosis.isPrimary}
+                      onChange={(e) => updateRow('diagnoses', index, { ...diagnosis, isPrimary: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Primary
+                  </label>
+                  {removeButton('diagnoses', index)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Prescriptions */}
+          <div>
+            {sectionHeader('Prescriptions', () => setContents(prev => ({
+              ...prev,
+              prescriptions: [...prev.prescriptions, {
+                medicine: '',
+                dosage: '1 tablet',
+                frequency: 'BD',
+                duration: '5 days',
+                instructions: 'After meals'
+              }]
+            })))}
+            <div className="space-y-2">
+              {contents.prescriptions.map((prescription, index) => (
+                <div key={index} className="flex gap-2">
+                  <div className="flex-1 grid grid-cols-2 md:grid-cols-5 gap-2">
+                    <input
+                      type="text"
+                      value={prescription.medicine}
+                      onChange={(e) => updateRow('prescriptions', index, { ...prescription, medicine: e.target.value, medicineId: undefined })}
+                      className={`md:col-span-2 ${inputClass}`}
+                      placeholder="Medicine..."
+                    />
+                    <input
+                      type="text"
+                      value={prescription.dosage}
+                      onChange={(e) => updateRow('prescriptions', index, { ...prescription, dosage: e.target.value })}
+                      className={inputClass}
+                      placeholder="Dosage"
+                    />
+                    <select
+                      value={prescription.frequency}
+                      onChange={(e) => updateRow('prescriptions', index, { ...prescription, frequency: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="OD">OD</option>
+                      <option value="BD">BD</option>
+                      <option value="TID">TID</option>
+                      <option value="QID">QID</option>
+                      <option value="HS">HS</option>
+                      <option value="PRN">PRN</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={prescription.duration}
+                      onChange={(e) => updateRow('prescriptions', index, { ...prescription, duration: e.target.value })}
+                      className={inputClass}
+                      placeholder="Duration"
+                    />
+                    <input
+                      type="text"
+                      value={prescription.instructions}
+                      onChange={(e) => updateRow('prescriptions', index, { ...prescription, instructions: e.target.value })}
+                      className={`col-span-2 md:col-span-5 ${inputClass}`}
+                      placeholder="Instructions"
+                    />
+                  </div>
+                  {removeButton('prescriptions', index)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Tests Ordered */}
+          <div>
+            {sectionHeader('Tests Ordered', () => setContents(prev => ({
+              ...prev,
+              testsOrdered: [...prev.testsOrdered, { testName: '', testType: 'lab', instructions: undefined, urgency: 'routine' }]
+            })))}
+            <div className="space-y-2">
+              {contents.testsOrdered.map((test, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={test.testName}
+                    onChange={(e) => updateRow('testsOrdered', index, { ...test, testName: e.target.value })}
+                    className={`flex-1 ${inputClass}`}
+                    placeholder="Test name..."
+                  />
+                  <select
+                    value={test.testType}
+                    onChange={(e) => updateRow('testsOrdered', index, { ...test, testType: e.target.value as typeof test.testType })}
+                    className={inputClass}
+                  >
+                    <option value="lab">Lab</option>
+                    <option value="radiology">Radiology</option>
+                    <option value="procedure">Procedure</option>
+                    <option value="other">Other</option>
+                  </select>
+                  <select
+                    value={test.urgency}
+                    onChange={(e) => updateRow('testsOrdered', index, { ...test, urgency: e.target.value as typeof test.urgency })}
+                    className={inputClass}
+                  >
+                    <option value="routine">Routine</option>
+                    <option value="urgent">Urgent</option>
+                    <option value="stat">STAT</option>
+                  </select>
+                  {removeButton('testsOrdered', index)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Advice */}
+          <div>
+            {sectionHeader('Advice', () => setContents(prev => ({ ...prev, advice: [...prev.advice, ''] })))}
+            <div className="space-y-2">
+              {contents.advice.map((advice, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={advice}
+                    onChange={(e) => updateRow('advice', index, e.target.value)}
+                    className={`flex-1 ${inputClass}`}
+                    placeholder="Advice..."
+                  />
+                  {removeButton('advice', index)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VisitTemplateModal;
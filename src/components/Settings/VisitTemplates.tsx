@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Copy, ClipboardList, Search } from 'lucide-react';
+import { useAuth } from '../Auth/useAuth';
+import { VisitTemplate } from '../../types';
+import { visitTemplateService } from '../../services/visitTemplateService';
+import VisitTemplateModal from './VisitTemplateModal';
+
+const VisitTemplates: React.FC = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<VisitTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingTemplate, setEditingTemplate] = useState<VisitTemplate | null>(null);
+  const [copyingTemplate, setCopyingTemplate] = useState<VisitTemplate | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTemplates(await visitTemplateService.getTemplates());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load visit templates');
+      console.error('Error loading visit templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (template: VisitTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    try {
+      await visitTemplateService.deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (err) {
+      console.error('Error deleting visit template:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const handleToggleShared = async (template: VisitTemplate) => {
+    try {
+      const updated = await visitTemplateService.updateTemplate(template.id, { isShared: !template.isShared });
+      setTemplates(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+    } catch (err) {
+      console.error('Error updating visit template:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update template');
+    }
+  };
+
+  const openModal = (template: VisitTemplate | null, copy: VisitTemplate | null) => {
+    setEditingTemplate(template);
+    setCopyingTemplate(copy);
+    setShowModal(true);
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredTemplates = templates.filter(template =>
+    template.name.toLowerCase().includes(term) ||
+    template.description?.toLowerCase().includes(term) ||
+    template.diagnoses.some(diagnosis => diagnosis.name.toLowerCase().includes(term))
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Visit Templates</h3>
+          <p className="text-sm text-gray-600">
+            Named sets of symptoms, diagnoses, medicines, tests and advice that can be applied to a visit in one click.
+          </p>
+        </div>
+        <button
+          onClick={() => openModal(null, null)}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4" />
+          Add Template
+        </button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+        <input
+          type="text"
+          placeholder="Search templates..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : filteredTemplates.length === 0 ? (
+        <div className="text-center py-12">
+          <ClipboardList className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">No visit templates found</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Template</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Contents</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Owner</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Sharing</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredTemplates.map(template => {
+                const isOwner = template.doctorId === user?.id;
+                return (
+                  <tr key={template.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <div className="font-medium text-gray-800">{template.name}</div>
+                      {template.description && <div className="text-sm text-gray-600">{template.description}</div>}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {template.diagnoses.length > 0 && (
+                        <div>{template.diagnoses.map(diagnosis => diagnosis.name).join(', ')}</div>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        {template.symptoms.length} symptoms • {template.prescriptions.length} medicines • {template.testsOrdered.length} tests • {template.advice.length} advice
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{isOwner ? 'You' : template.ownerName}</td>
+                    <td className="py-3 px-4">
+                      <button
+                        onClick={() => handleToggleShared(template)}
+                        disabled={!isOwner}
+                        className={`px-2 py-1 text-xs rounded-full disabled:cursor-default ${
+                          template.isShared ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {template.isShared ? 'Clinic-wide' : 'Only me'}
+                      </button>
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        {isOwner && (
+                          <button
+                            onClick={() => openModal(template, null)}
+                            className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                            title="Edit"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => openModal(null, template)}
+                          className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                          title="Copy to my templates"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                        {isOwner && (
+                          <button
+                            onClick={() => handleDelete(template)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <VisitTemplateModal
+          template={editingTemplate || undefined}
+          initialContents={copyingTemplate || undefined}
+          onClose={() => setShowModal(false)}
+          onSaved={() => {
+            setShowModal(false);
+            loadTemplates();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VisitTemplates;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Save, MessageCircle, Bot, Heart, Star, Link, Shield, Eye, EyeOff } from 'lucide-react';
+import { Save, MessageCircle, Bot, Heart, Star, Link, Shield, Eye, EyeOff, BellRing, Calendar, UserCheck, IndianRupee } from 'lucide-react';
 import { ClinicSetting } from '../../types';
 import { clinicSettingsService } from '../../services/clinicSettingsService';
 import { useAuth } from '../Auth/useAuth';
@@ -20,7 +20,15 @@ const WhatsappAndAIReviewSettings: React.FC = () => {
     enableAiThankYou: true,
     enableGmbLinkOnly: true,
     blueticksApiKey: '',
-    gmbLink: ''
+    gmbLink: '',
+    enableAutoAppointmentReminders: false,
+    enableAutoFollowUpReminders: false,
+    followUpReminderDays: 2,
+    enableAutoPaymentReminders: false,
+    reminderSendStart: '09:00',
+    reminderSendEnd: '20:00',
+    reminderQuietStart: '',
+    reminderQuietEnd: ''
   });
 
   useEffect(() => {
@@ -45,7 +53,15 @@ const WhatsappAndAIReviewSettings: React.FC = () => {
         enableAiThankYou: clinicSettings.enableAiThankYou ?? true,
         enableGmbLinkOnly: clinicSettings.enableGmbLinkOnly ?? true,
         blueticksApiKey: clinicSettings.blueticksApiKey || '',
-        gmbLink: clinicSettings.gmbLink || ''
+        gmbLink: clinicSettings.gmbLink || '',
+        enableAutoAppointmentReminders: clinicSettings.enableAutoAppointmentReminders ?? false,
+        enableAutoFollowUpReminders: clinicSettings.enableAutoFollowUpReminders ?? false,
+        followUpReminderDays: clinicSettings.followUpReminderDays ?? 2,
+        enableAutoPaymentReminders: clinicSettings.enableAutoPaymentReminders ?? false,
+        reminderSendStart: clinicSettings.reminderSendStart || '09:00',
+        reminderSendEnd: clinicSettings.reminderSendEnd || '20:00',
+        reminderQuietStart: clinicSettings.reminderQuietStart || '',
+        reminderQuietEnd: clinicSettings.reminderQuietEnd || ''
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load settings');
@@ -58,6 +74,16 @@ const WhatsappAndAIReviewSettings: React.FC = () => {
   const handleSave = async () => {
     if (!settings) return;
 
+    if (formData.reminderSendStart >= formData.reminderSendEnd) {
+      alert('Reminder send window must end after it starts');
+      return;
+    }
+
+    if (!!formData.reminderQuietStart !== !!formData.reminderQuietEnd) {
+      alert('Please set both ends of the quiet hours, or leave both empty');
+      return;
+    }
+
     try {
       setSaving(true);
       const updatedSettings = await clinicSettingsService.updateClinicSettings(settings.id, {
@@ -68,7 +94,15 @@ const WhatsappAndAIReviewSettings: React.FC = () => {
         enableAiThankYou: formData.enableAiThankYou,
         enableGmbLinkOnly: formData.enableGmbLinkOnly,
         blueticksApiKey: formData.blueticksApiKey,
-        gmbLink: formData.gmbLink
+        gmbLink: formData.gmbLink,
+        enableAutoAppointmentReminders: formData.enableAutoAppointmentReminders,
+        enableAutoFollowUpReminders: formData.enableAutoFollowUpReminders,
+        followUpReminderDays: formData.followUpReminderDays,
+        enableAutoPaymentReminders: formData.enableAutoPaymentReminders,
+        reminderSendStart: formData.reminderSendStart,
+        reminderSendEnd: formData.reminderSendEnd,
+        reminderQuietStart: formData.reminderQuietStart,
+        reminderQuietEnd: formData.reminderQuietEnd
       });
       setSettings(updatedSettings);
       alert('WhatsApp and AI Review settings saved successfully!');
@@ -206,6 +240,133 @@ const WhatsappAndAIReviewSettings: React.FC = () => {
         </div>
       </div>
 
+      {/* Automatic Reminders */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center gap-2 mb-6">
+          <BellRing className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-800">Automatic Reminders</h3>
+        </div>
+
+        {!formData.enableBlueticksApiSend && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            Automatic reminders are sent through the Blueticks API. Turn on Direct API Send above to use them.
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+            <div className="flex items-center gap-3">
+              <Calendar className="w-5 h-5 text-indigo-600" />
+              <div>
+                <h4 className="font-medium text-gray-800">Appointment Reminders</h4>
+                <p className="text-sm text-gray-600">Remind patients the day before a scheduled or confirmed appointment</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.enableAutoAppointmentReminders}
+                onChange={(e) => setFormData({ ...formData, enableAutoAppointmentReminders: e.target.checked })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+            <div className="flex items-center gap-3">
+              <UserCheck className="w-5 h-5 text-indigo-600" />
+              <div>
+                <h4 className="font-medium text-gray-800">Follow-up Reminders</h4>
+                <p className="text-sm text-gray-600">Remind patients whose follow-up date is coming up and who have not booked yet</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.enableAutoFollowUpReminders}
+                onChange={(e) => setFormData({ ...formData, enableAutoFollowUpReminders: e.target.checked })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+            <div className="flex items-center gap-3">
+              <IndianRupee className="w-5 h-5 text-indigo-600" />
+              <div>
+                <h4 className="font-medium text-gray-800">Payment Reminders</h4>
+                <p className="text-sm text-gray-600">Remind patients about overdue bills: a gentle note the day after the due date, a reminder after 30 days and a final notice after 60</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.enableAutoPaymentReminders}
+                onChange={(e) => setFormData({ ...formData, enableAutoPaymentReminders: e.target.checked })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Follow-up Window (days ahead)</label>
+              <input
+                type="number"
+                min="1"
+                max="14"
+                value={formData.followUpReminderDays}
+                onChange={(e) => setFormData({ ...formData, followUpReminderDays: parseInt(e.target.value) || 1 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Send Between</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={formData.reminderSendStart}
+                  onChange={(e) => setFormData({ ...formData, reminderSendStart: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-sm text-gray-600">-</span>
+                <input
+                  type="time"
+                  value={formData.reminderSendEnd}
+                  onChange={(e) => setFormData({ ...formData, reminderSendEnd: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Quiet Hours (optional)</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={formData.reminderQuietStart}
+                  onChange={(e) => setFormData({ ...formData, reminderQuietStart: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-sm text-gray-600">-</span>
+                <input
+                  type="time"
+                  value={formData.reminderQuietEnd}
+                  onChange={(e) => setFormData({ ...formData, reminderQuietEnd: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-600">
+            Reminders are checked every hour. Each reminder is sent once and logged with your other sent messages;
+            failed sends are retried on the next runs.
+          </p>
+        </div>
+      </div>
+
       {/* AI Review Settings */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex items-center gap-2 mb-6">
@@ -333,6 +494,7 @@ const WhatsappAndAIReviewSettings: React.FC = () => {
           <li>• <strong>AI Features:</strong> Generate personalized thank you messages and review suggestions</li>
           <li>• <strong>Review Links:</strong> Include your Google My Business link in messages</li>
           <li>• <strong>Follow-ups:</strong> Send appointment reminders and follow-up messages</li>
+          <li>• <strong>Automatic Reminders:</strong> Sent hourly within your send window, skipping quiet hours</li>
         </ul>
       </div>
     </div>
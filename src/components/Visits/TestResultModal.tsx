@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, AlertTriangle } from 'lucide-react';
+import { TestOrdered, TestResult, TestMaster, Patient } from '../../types';
+import { masterDataService } from '../../services/masterDataService';
+import { visitService } from '../../services/visitService';
+import {
+  findReferenceRange,
+  flagAnalyteValue,
+  buildAnalyteResults,
+  formatReferenceRange,
+  summarizeAnalyteResults
+} from '../../utils/labRanges';
+
+interface TestResultModalProps {
+  test: TestOrdered;
+  patient: Patient;
+  existingResult?: TestResult;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const TestResultModal: React.FC<TestResultModalProps> = ({ test, patient, existingResult, onClose, onSaved }) => {
+  const [testMaster, setTestMaster] = useState<TestMaster | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>(() => {
+    const initial: Record<string, string> = {};
+    existingResult?.analyteValues?.forEach(result => {
+      initial[result.analyte] = String(result.value);
+    });
+    return initial;
+  });
+  const [freeText, setFreeText] = useState({
+    result: existingResult && !existingResult.analyteValues?.length ? existingResult.result : '',
+    normalRange: existingResult?.normalRange || '',
+    isAbnormal: existingResult?.isAbnormal || false
+  });
+  const [notes, setNotes] = useState(existingResult?.notes || '');
+
+  useEffect(() => {
+    loadTestMaster();
+  }, [test.testName]);
+
+  // Tests are ordered by name, so match the master entry the same way
+  const loadTestMaster = async () => {
+    try {
+      setLoading(true);
+      const matches = await masterDataService.searchTests(test.testName);
+      const match = matches.find(candidate => candidate.name.trim().toLowerCase() === test.testName.trim().toLowerCase());
+      setTestMaster(match || null);
+      if (match?.normalRange && !existingResult) {
+        setFreeText(prev => ({ ...prev, normalRange: match.normalRange || '' }));
+      }
+    } catch (err) {
+      console.error('Error loading test definition:', err);
+      setTestMaster(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const analytes = testMaster?.analytes || [];
+  const isStructured = analytes.length > 0;
+
+  const parsedValues: Record<string, number | undefined> = {};
+  Object.entries(values).forEach(([name, value]) => {
+    parsedValues[name] = value.trim() === '' ? undefined : parseFloat(value);
+  });
+
+  const handleSave = async () => {
+    let result: string;
+    let isAbnormal: boolean;
+    let normalRange: string | undefined;
+    let analyteValues: TestResult['analyteValues'];
+
+    if (isStructured) {
+      if (Object.values(values).some(value => value.trim() !== '' && isNaN(parseFloat(value)))) {
+        setError('Values must be numbers.');
+        return;
+      }
+      analyteValues = buildAnalyteResults(analytes, parsedValues, patient.age, patient.gender);
+      if (analyteValues.length === 0) {
+        setError('Enter at least one value.');
+        return;
+      }
+      result = summarizeAnalyteResults(analyteValues);
+      isAbnormal = analyteValues.some(value => value.flag !== 'normal');
+      normalRange = undefined;
+    } else {
+      if (!freeText.result.trim()) {
+        setError('Please enter the result.');
+        return;
+      }
+      result = freeText.result.trim();
+      isAbnormal = freeText.isAbnormal;
+      normalRange = freeText.normalRange.trim() || undefined;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await visitService.saveTestResult({
+        testOrderedId: test.id,
+        visitId: test.visitId,
+        result,
+        normalRange,
+        isAbnormal,
+        analyteValues,
+        resultDate: new Date(),
+        reportUrl: existingResult?.reportUrl,
+        notes: notes.trim() || undefined
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Error saving test result:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save test result');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold">Enter Results</h2>
+            <p className="text-sm text-gray-600">
+              {test.testName} • {patient.age}y, <span className="capitalize">{patient.gender}</span>
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : isStructured ? (
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-2 text-sm font-medium text-gray-700">Analyte</th>
+                  <th className="text-left py-2 px-2 text-sm font-medium text-gray-700">Value</th>
+                  <th className="text-left py-2 px-2 text-sm font-medium text-gray-700">Reference</th>
+                  <th className="text-left py-2 px-2 text-sm font-medium text-gray-700">Flag</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytes.map(analyte => {
+                  const range = findReferenceRange(analyte, patient.age, patient.gender);
+                  const value = parsedValues[analyte.name];
+                  const flag = value !== undefined && !isNaN(value) ? flagAnalyteValue(value, range) : undefined;
+
+                  return (
+                    <tr key={analyte.name} className="border-b border-gray-100">
+                      <td className="py-2 px-2 text-sm text-gray-800">{analyte.name}</td>
+                      <td className="py-2 px-2">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            step="any"
+                            value={values[analyte.name] || ''}
+                            onChange={(e) => setValues({ ...values, [analyte.name]: e.target.value })}
+                            className={`w-28 px-2 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                              flag && flag !== 'normal' ? 'border-red-400 text-red-700 font-semibold' : 'border-gray-300'
+                            }`}
+                          />
+                          {analyte.units && <span className="text-xs text-gray-500">{analyte.units}</span>}
+                        </div>
+                      </td>
+                      <td className="py-2 px-2 text-sm text-gray-600">
+                        {range ? formatReferenceRange(range) : <span className="text-gray-400 italic">No range</span>}
+                      </td>
+                      <td className="py-2 px-2">
+                        {flag === 'high' && <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700 font-semibold">H</span>}
+                        {flag === 'low' && <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700 font-semibold">L</span>}
+                        {flag === 'normal' && <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-700">Normal</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <>
+              <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <AlertTriangle className="w-4 h-4 text-yellow-600 mt-0.5" />
+                <p className="text-sm text-yellow-800">
+                  No analytes are defined for this test in Master Data, so the result is recorded as text and not flagged automatically.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Result *</label>
+                <textarea
+                  value={freeText.result}
+                  onChange={(e) => setFreeText({ ...freeText, result: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Normal Range</label>
+                <input
+                  type="text"
+                  value={freeText.normalRange}
+                  onChange={(e) => setFreeText({ ...freeText, normalRange: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={freeText.isAbnormal}
+                  onChange={(e) => setFreeText({ ...freeText, isAbnormal: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Mark as abnormal
+              </label>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || loading}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save Results'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestResultModal;
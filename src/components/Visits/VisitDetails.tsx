@@ -1,15 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Calendar, User, FileText, Pill, TestTube, CreditCard, Activity } from 'lucide-react';
-import { Visit, Bill } from '../../types';
+import { Visit, Bill, TestOrdered } from '../../types';
 import { visitService } from '../../services/visitService';
 import { billingService } from '../../services/billingService';
 import { useAuth } from '../Auth/useAuth';
 import { format } from 'date-fns';
 import BillModal from '../Billing/BillModal';
 import DispenseModal from '../Pharmacy/DispenseModal';
+import TestResultModal from './TestResultModal';
 import { pdfService } from '../../services/pdfService';
 import { toTitleCase } from '../../utils/stringUtils';
+import { formatReferenceRange } from '../../utils/labRanges';
+import { RxLanguage, RX_LANGUAGES, buildRxInstruction, getRxLabels, translateDuration } from '../../utils/rxInstructions';
 
 const VisitDetails: React.FC = () => {
   const { visitId } = useParams<{ visitId: string }>();
@@ -20,9 +23,12 @@ const VisitDetails: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [exportingPDF, setExportingPDF] = useState(false);
+  const [printingRx, setPrintingRx] = useState(false);
+  const [rxLanguage, setRxLanguage] = useState<RxLanguage>('en');
   const [showBillModal, setShowBillModal] = useState(false);
   const [showDispenseModal, setShowDispenseModal] = useState(false);
   const [dispensedItemsForBilling, setDispensedItemsForBilling] = useState<any[]>([]);
+  const [resultTest, setResultTest] = useState<TestOrdered | null>(null);
 
   useEffect(() => {
     if (user && visitId) {
@@ -116,6 +122,47 @@ const VisitDetails: React.FC = () => {
     }
   };
 
+  const handlePrintPrescription = async () => {
+    if (!visit || !visit.patient || !user?.clinic) {
+      alert('Missing required data for prescription');
+      return;
+    }
+
+    if (visit.prescriptions.length === 0) {
+      alert('No medicines prescribed for this visit');
+      return;
+    }
+
+    try {
+      setPrintingRx(true);
+
+      const pdfUrl = await pdfService.generatePdfFromData('prescription', {
+        visit: visit,
+        patient: visit.patient,
+        doctor: visit.doctor,
+        clinicSettings: user.clinic,
+        prescriptionSheet: {
+          language: rxLanguage,
+          labels: getRxLabels(rxLanguage),
+          items: visit.prescriptions.map(prescription => ({
+            medicine: prescription.medicine,
+            instruction: buildRxInstruction(prescription, rxLanguage),
+            duration: translateDuration(prescription.duration, rxLanguage),
+            doseCalculation: prescription.doseCalculation
+          }))
+        }
+      });
+
+      window.open(pdfUrl, '_blank');
+
+    } catch (error) {
+      console.error('Error printing prescription:', error);
+      alert('Failed to print prescription. Please try again.');
+    } finally {
+      setPrintingRx(false);
+    }
+  };
+
   if (!user) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -171,6 +218,26 @@ const VisitDetails: React.FC = () => {
           <Download className="w-4 h-4" />
           {exportingPDF ? 'Exporting...' : 'Export PDF'}
         </button>
+        <div className="flex items-center">
+          <select
+            value={rxLanguage}
+            onChange={(e) => setRxLanguage(e.target.value as RxLanguage)}
+            className="px-3 py-2 border border-gray-300 rounded-l-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Prescription language"
+          >
+            {RX_LANGUAGES.map(language => (
+              <option key={language.value} value={language.value}>{language.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handlePrintPrescription}
+            disabled={printingRx}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-r-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <FileText className="w-4 h-4" />
+            {printingRx ? 'Preparing...' : 'Print Rx'}
+          </button>
+        </div>
         <button
           onClick={handleAddBill}
           className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
@@ -386,26 +453,72 @@ const VisitDetails: React.FC = () => {
           
           {visit.testsOrdered && visit.testsOrdered.length > 0 ? (
             <div className="space-y-3">
-              {visit.testsOrdered.map(test => (
-                <div key={test.id} className="p-3 bg-purple-50 border border-purple-200 rounded">
-                  <div className="flex items-center justify-between">
-                    <p className="font-medium text-purple-800">{test.testName}</p>
-                    <span className={`px-2 py-1 text-xs rounded-full ${
-                      test.status === 'completed' ? 'bg-green-100 text-green-700' :
-                      test.status === 'in_progress' ? 'bg-yellow-100 text-yellow-700' :
-                      'bg-gray-100 text-gray-700'
-                    }`}>
-                      {test.status.replace('_', ' ')}
-                    </span>
+              {visit.testsOrdered.map(test => {
+                const testResult = visit.testResults.find(result => result.testOrderedId === test.id);
+
+                return (
+                  <div key={test.id} className="p-3 bg-purple-50 border border-purple-200 rounded">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium text-purple-800">{test.testName}</p>
+                      <div className="flex items-center gap-2">
+                        {testResult?.isAbnormal && (
+                          <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700">abnormal</span>
+                        )}
+                        <span className={`px-2 py-1 text-xs rounded-full ${
+                          test.status === 'completed' ? 'bg-green-100 text-green-700' :
+                          test.status === 'in_progress' ? 'bg-yellow-100 text-yellow-700' :
+                          'bg-gray-100 text-gray-700'
+                        }`}>
+                          {test.status.replace('_', ' ')}
+                        </span>
+                      </div>
+                    </div>
+                    <p className="text-sm text-purple-600 capitalize">
+                      {test.testType === 'procedure' ? 'Procedure' : test.testType} • {test.urgency}
+                    </p>
+                    {test.instructions && (
+                      <p className="text-sm text-purple-600">{test.instructions}</p>
+                    )}
+
+                    {testResult && (
+                      testResult.analyteValues && testResult.analyteValues.length > 0 ? (
+                        <table className="w-full mt-2 text-sm bg-white rounded">
+                          <tbody>
+                            {testResult.analyteValues.map(value => (
+                              <tr key={value.analyte} className="border-b border-purple-100 last:border-0">
+                                <td className="py-1 px-2 text-gray-700">{value.analyte}</td>
+                                <td className={`py-1 px-2 ${value.flag !== 'normal' ? 'text-red-700 font-semibold' : 'text-gray-800'}`}>
+                                  {value.value} {value.units}
+                                  {value.flag === 'high' && ' H'}
+                                  {value.flag === 'low' && ' L'}
+                                </td>
+                                <td className="py-1 px-2 text-gray-500">{formatReferenceRange(value)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <p className={`text-sm mt-2 ${testResult.isAbnormal ? 'text-red-700 font-semibold' : 'text-gray-700'}`}>
+                          Result: {testResult.result}
+                          {testResult.normalRange && <span className="font-normal text-gray-500"> (Normal: {testResult.normalRange})</span>}
+                        </p>
+                      )
+                    )}
+                    {testResult?.notes && (
+                      <p className="text-xs text-gray-600 mt-1">{testResult.notes}</p>
+                    )}
+
+                    {visit.patient && test.status !== 'cancelled' && (
+                      <button
+                        onClick={() => setResultTest(test)}
+                        className="mt-2 text-sm text-purple-700 hover:text-purple-900 font-medium"
+                      >
+                        {testResult ? 'Edit Results' : 'Enter Results'}
+                      </button>
+                    )}
                   </div>
-                  <p className="text-sm text-purple-600 capitalize">
-                    {test.testType === 'procedure' ? 'Procedure' : test.testType} • {test.urgency}
-                  </p>
-                  {test.instructions && (
-                    <p className="text-sm text-purple-600">{test.instructions}</p>
-                  )}
-                </div>
-              ))}
+                );
+              })}
             </div>
           ) : (
             <p className="text-gray-500 italic">No tests ordered</p>
@@ -515,6 +628,19 @@ const VisitDetails: React.FC = () => {
           onClose={() => setShowDispenseModal(false)}
         />
       )}
+
+      {resultTest && visit?.patient && (
+        <TestResultModal
+          test={resultTest}
+          patient={visit.patient}
+          existingResult={visit.testResults.find(result => result.testOrderedId === resultTest.id)}
+          onClose={() => setResultTest(null)}
+          onSaved={() => {
+            setResultTest(null);
+            loadVisitData();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,138 @@
+import { OfflineChange, OfflineMutation } from '../types';
+
+// IndexedDB cache of recently loaded data and the queue of changes made while offline
+const DB_NAME = 'opd-offline';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+const MUTATION_STORE = 'mutations';
+
+export const OFFLINE_ID_PREFIX = 'offline_';
+
+interface Snapshot<T> {
+  key: string;
+  data: T;
+  cachedAt: Date;
+}
+
+type QueueListener = () => void;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const queueListeners = new Set<QueueListener>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Offline storage is not available in this browser'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+          db.createObjectStore(MUTATION_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const notifyQueueListeners = () => {
+  queueListeners.forEach(listener => listener());
+};
+
+// True when a request failed because the server could not be reached, as opposed to being rejected
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string } | null)?.message;
+  return !!message && /failed to fetch|networkerror|network error|network request failed|load failed/i.test(message);
+};
+
+export const createOfflineId = (): string => `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`;
+
+export const isOfflineId = (id?: string | null): boolean => !!id && id.startsWith(OFFLINE_ID_PREFIX);
+
+// Snapshots: the last successful result of a read, served when the server is unreachable
+export const saveSnapshot = async <T>(key: string, data: T): Promise<void> => {
+  try {
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.put({ key, data, cachedAt: new Date() }));
+  } catch (error) {
+    // Caching is best effort; the online path must not fail because of it
+    console.warn('Could not cache offline snapshot:', key, error);
+  }
+};
+
+export const loadSnapshot = async <T>(key: string): Promise<T | null> => {
+  try {
+    const snapshot = await runRequest<Snapshot<T> | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(key));
+    return snapshot ? snapshot.data : null;
+  } catch (error) {
+    console.warn('Could not read offline snapshot:', key, error);
+    return null;
+  }
+};
+
+// Mutation queue: queues a change for replay and returns the temporary id to hand back to the UI
+export const queueMutation = async (change: OfflineChange, owner: { clinicId: string; createdBy?: string }): Promise<string> => {
+  const offlineId = createOfflineId();
+  const mutation: Omit<OfflineMutation, 'id'> = {
+    ...change,
+    offlineId,
+    clinicId: owner.clinicId,
+    createdBy: owner.createdBy,
+    createdAt: new Date(),
+    status: 'pending',
+    attempts: 0
+  };
+
+  await runRequest(MUTATION_STORE, 'readwrite', store => store.add(mutation));
+  notifyQueueListeners();
+  return offlineId;
+};
+
+export const getQueuedMutations = async (): Promise<OfflineMutation[]> => {
+  try {
+    const mutations = await runRequest<OfflineMutation[]>(MUTATION_STORE, 'readonly', store => store.getAll());
+    return mutations.sort((a, b) => (a.id || 0) - (b.id || 0));
+  } catch (error) {
+    console.warn('Could not read offline queue:', error);
+    return [];
+  }
+};
+
+export const updateQueuedMutation = async (mutation: OfflineMutation): Promise<void> => {
+  await runRequest(MUTATION_STORE, 'readwrite', store => store.put(mutation));
+  notifyQueueListeners();
+};
+
+export const removeQueuedMutation = async (id: number): Promise<void> => {
+  await runRequest(MUTATION_STORE, 'readwrite', store => store.delete(id));
+  notifyQueueListeners();
+};
+
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
@@ -13,14 +13,31 @@ export type {
   DatabaseTestResult,
   DatabaseBill,
   DatabaseBillItem,
+  DatabasePaymentRecord,
+  DatabaseCreditNote,
+  DatabasePatientDeposit,
+  DatabaseAppointmentSeries,
+  DatabaseAvailabilityException,
+  DatabaseCreditNoteItem,
   DatabaseOcrUpload,
   DatabaseOcrResult,
   DatabaseClinicSetting,
   DatabaseMedicineMaster,
   DatabaseTestMaster,
+  DatabaseDrugSafetyRule,
+  DatabaseVisitTemplate,
+  DatabasePatientMerge,
+  DatabasePatientImport,
+  DatabaseClinicBackup,
+  DatabaseDoctorPayoutRule,
+  DatabaseDoctorSettlement,
+  DatabaseDoctorSettlementItem,
+  DatabaseCashierShift,
+  DatabaseHousehold,
   DatabaseSupplier,
   DatabasePharmacyInwardReceipt,
   DatabasePharmacyInwardItem,
+  DatabaseMedicineBatch,
   DatabasePharmacyDispensedItem,
   DatabaseStockMovementLog,
   DatabaseClinicMedicinePrice,
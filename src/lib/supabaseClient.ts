@@ -91,6 +91,31 @@ export interface Database {
         Insert: Omit<DatabasePaymentRecord, 'id' | 'created_at'>;
         Update: Partial<Omit<DatabasePaymentRecord, 'id' | 'created_at'>>;
       };
+      patient_deposits: {
+        Row: DatabasePatientDeposit;
+        Insert: Omit<DatabasePatientDeposit, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabasePatientDeposit, 'id' | 'created_at'>>;
+      };
+      appointment_series: {
+        Row: DatabaseAppointmentSeries;
+        Insert: Omit<DatabaseAppointmentSeries, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DatabaseAppointmentSeries, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      availability_exceptions: {
+        Row: DatabaseAvailabilityException;
+        Insert: Omit<DatabaseAvailabilityException, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabaseAvailabilityException, 'id' | 'created_at'>>;
+      };
+      credit_notes: {
+        Row: DatabaseCreditNote;
+        Insert: Omit<DatabaseCreditNote, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabaseCreditNote, 'id' | 'created_at'>>;
+      };
+      credit_note_items: {
+        Row: DatabaseCreditNoteItem;
+        Insert: Omit<DatabaseCreditNoteItem, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabaseCreditNoteItem, 'id' | 'created_at'>>;
+      };
       ocr_uploads: {
         Row: DatabaseOcrUpload;
         Insert: Omit<DatabaseOcrUpload, 'id' | 'created_at'>;
@@ -111,6 +136,11 @@ export interface Database {
         Insert: Omit<DatabaseMedicineMaster, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<DatabaseMedicineMaster, 'id' | 'created_at' | 'updated_at'>>;
       };
+      drug_safety_rules: {
+        Row: DatabaseDrugSafetyRule;
+        Insert: Omit<DatabaseDrugSafetyRule, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DatabaseDrugSafetyRule, 'id' | 'created_at' | 'updated_at'>>;
+      };
       tests_master: {
         Row: DatabaseTestMaster;
         Insert: Omit<DatabaseTestMaster, 'id' | 'created_at' | 'updated_at'>;
@@ -131,6 +161,11 @@ export interface Database {
         Insert: Omit<DatabasePharmacyInwardItem, 'id' | 'created_at'>;
         Update: Partial<Omit<DatabasePharmacyInwardItem, 'id' | 'created_at'>>;
       };
+      medicine_batches: {
+        Row: DatabaseMedicineBatch;
+        Insert: Omit<DatabaseMedicineBatch, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DatabaseMedicineBatch, 'id' | 'created_at' | 'updated_at'>>;
+      };
       pharmacy_dispensed_items: {
         Row: DatabasePharmacyDispensedItem;
         Insert: Omit<DatabasePharmacyDispensedItem, 'id' | 'created_at'>;
@@ -151,11 +186,56 @@ export interface Database {
         Insert: Omit<DatabaseClinicTestPrice, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<DatabaseClinicTestPrice, 'id' | 'created_at' | 'updated_at'>>;
       };
+      visit_templates: {
+        Row: DatabaseVisitTemplate;
+        Insert: Omit<DatabaseVisitTemplate, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DatabaseVisitTemplate, 'id' | 'created_at' | 'updated_at'>>;
+      };
       sent_messages_log: {
         Row: DatabaseSentMessageLog;
         Insert: Omit<DatabaseSentMessageLog, 'id' | 'created_at'>;
         Update: Partial<Omit<DatabaseSentMessageLog, 'id' | 'created_at'>>;
       };
+      households: {
+        Row: DatabaseHousehold;
+        Insert: Omit<DatabaseHousehold, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DatabaseHousehold, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      patient_merges: {
+        Row: DatabasePatientMerge;
+        Insert: Omit<DatabasePatientMerge, 'id' | 'merged_at'>;
+        Update: Partial<Omit<DatabasePatientMerge, 'id' | 'merged_at'>>;
+      };
+      patient_imports: {
+        Row: DatabasePatientImport;
+        Insert: Omit<DatabasePatientImport, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabasePatientImport, 'id' | 'created_at'>>;
+      };
+      clinic_backups: {
+        Row: DatabaseClinicBackup;
+        Insert: Omit<DatabaseClinicBackup, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabaseClinicBackup, 'id' | 'created_at'>>;
+      };
+      doctor_payout_rules: {
+        Row: DatabaseDoctorPayoutRule;
+        Insert: Omit<DatabaseDoctorPayoutRule, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DatabaseDoctorPayoutRule, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      doctor_settlements: {
+        Row: DatabaseDoctorSettlement;
+        Insert: Omit<DatabaseDoctorSettlement, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabaseDoctorSettlement, 'id' | 'created_at'>>;
+      };
+      doctor_settlement_items: {
+        Row: DatabaseDoctorSettlementItem;
+        Insert: Omit<DatabaseDoctorSettlementItem, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabaseDoctorSettlementItem, 'id' | 'created_at'>>;
+      };
+      cashier_shifts: {
+        Row: DatabaseCashierShift;
+        Insert: Omit<DatabaseCashierShift, 'id' | 'created_at'>;
+        Update: Partial<Omit<DatabaseCashierShift, 'id' | 'created_at'>>;
+      };
     };
   };
 }
@@ -239,9 +319,16 @@ export interface DatabasePatient {
   emergency_contact: string;
   blood_group?: string;
   allergies?: string[];
+  referred_by?: string;
   created_at: string;
   last_visit?: string;
+  is_provisional?: boolean;
   clinic_id?: string;
+  mrn?: string;
+  merged_into_id?: string;
+  import_id?: string;
+  household_id?: string;
+  household_relationship?: 'self' | 'spouse' | 'child' | 'parent' | 'sibling' | 'grandparent' | 'grandchild' | 'in_law' | 'other';
 }
 
 export interface DatabaseAppointment {
@@ -253,11 +340,52 @@ export interface DatabaseAppointment {
   status: 'Scheduled' | 'Confirmed' | 'In_Progress' | 'Completed' | 'Cancelled' | 'No_Show';
   appointment_type: 'Consultation' | 'Follow_Up' | 'Emergency' | 'Routine_Checkup';
   notes?: string;
+  queue_date?: string;
+  token_number?: number;
+  is_walk_in?: boolean;
+  checked_in_at?: string;
+  started_at?: string;
+  completed_at?: string;
+  series_id?: string;
+  series_index?: number;
+  booked_online?: boolean;
   created_at: string;
   updated_at: string;
   clinic_id?: string;
 }
 
+export interface DatabaseAppointmentSeries {
+  id: string;
+  clinic_id: string;
+  patient_id: string;
+  doctor_id: string;
+  frequency: 'weekly' | 'interval';
+  weekdays?: number[];
+  interval_days?: number;
+  occurrences: number;
+  start_date: string;
+  duration: number;
+  appointment_type: 'Consultation' | 'Follow_Up' | 'Emergency' | 'Routine_Checkup';
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseAvailabilityException {
+  id: string;
+  clinic_id: string;
+  doctor_id?: string | null;
+  exception_type: 'day_off' | 'custom_hours' | 'holiday';
+  start_date: string;
+  end_date: string;
+  start_time?: string;
+  end_time?: string;
+  reason?: string;
+  created_by?: string;
+  created_at: string;
+}
+
 export interface DatabaseVisit {
   id: string;
   patient_id: string;
@@ -278,6 +406,15 @@ export interface DatabaseVisit {
   follow_up_date?: string;
   doctor_notes?: string;
   case_image_url?: string;
+  safety_overrides?: {
+    alertKey: string;
+    alertType: 'allergy' | 'interaction' | 'duplicate_therapy' | 'contraindication';
+    message: string;
+    reason: string;
+    overriddenBy?: string;
+    overriddenAt: string;
+  }[];
+  client_reference?: string;
   created_at: string;
   updated_at: string;
   clinic_id?: string;
@@ -314,6 +451,7 @@ export interface DatabasePrescription {
   instructions: string;
   quantity?: number;
   refills?: number;
+  dose_calculation?: string | null;
   created_at: string;
 }
 
@@ -337,6 +475,14 @@ export interface DatabaseTestResult {
   result: string;
   normal_range?: string;
   is_abnormal: boolean;
+  analyte_values?: {
+    analyte: string;
+    value: number;
+    units?: string;
+    low?: number;
+    high?: number;
+    flag: 'low' | 'high' | 'normal';
+  }[] | null;
   result_date: string;
   report_url?: string;
   notes?: string;
@@ -351,11 +497,16 @@ export interface DatabaseBill {
   total_amount: number;
   paid_amount: number;
   balance_amount: number;
-  status: 'pending' | 'partial' | 'paid' | 'overdue';
+  status: 'pending' | 'partial' | 'paid' | 'overdue' | 'cancelled';
   payment_method?: 'cash' | 'card' | 'upi' | 'cheque' | 'online';
   bill_date: string;
   due_date?: string;
   notes?: string;
+  is_inter_state?: boolean;
+  credited_amount?: number;
+  voided_at?: string;
+  voided_by?: string;
+  void_reason?: string;
   created_at: string;
   updated_at: string;
   clinic_id?: string;
@@ -371,6 +522,11 @@ export interface DatabaseBillItem {
   total_price: number;
   discount?: number;
   tax?: number;
+  hsn_sac_code?: string;
+  taxable_value?: number;
+  cgst_amount?: number;
+  sgst_amount?: number;
+  igst_amount?: number;
   created_at: string;
   clinic_id?: string;
 }
@@ -386,10 +542,59 @@ export interface DatabasePaymentRecord {
   bank_name?: string;
   notes?: string;
   received_by: string;
+  is_refund?: boolean;
+  refund_of_payment_id?: string;
+  credit_note_id?: string;
+  paid_from_deposit?: boolean;
+  client_reference?: string;
   clinic_id: string;
   created_at: string;
 }
 
+export interface DatabasePatientDeposit {
+  id: string;
+  clinic_id: string;
+  patient_id: string;
+  amount: number;
+  payment_method: 'cash' | 'card' | 'upi' | 'cheque' | 'net_banking';
+  reference?: string;
+  notes?: string;
+  deposit_date: string;
+  received_by?: string;
+  created_at: string;
+}
+
+export interface DatabaseCreditNote {
+  id: string;
+  clinic_id: string;
+  bill_id: string;
+  credit_note_number: string;
+  credit_date: string;
+  reason: string;
+  total_amount: number;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface DatabaseCreditNoteItem {
+  id: string;
+  clinic_id: string;
+  credit_note_id: string;
+  bill_item_id: string;
+  item_name: string;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  tax: number;
+  hsn_sac_code?: string;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_price: number;
+  created_at: string;
+}
+
 export interface DatabaseOcrUpload {
   id: string;
   file_name: string;
@@ -448,6 +653,9 @@ export interface DatabaseClinicSetting {
   registration_number?: string;
   tax_id?: string;
   consultation_fee: number;
+  consultation_tax_exempt?: boolean;
+  consultation_sac_code?: string;
+  consultation_gst_rate?: number;
   follow_up_fee: number;
   emergency_fee: number;
   appointment_duration: number;
@@ -472,6 +680,22 @@ export interface DatabaseClinicSetting {
   enable_ai_thank_you?: boolean;
   enable_gmb_link_only?: boolean;
   gmb_link?: string;
+  online_booking_enabled?: boolean;
+  online_booking_days?: number;
+  enable_auto_appointment_reminders?: boolean;
+  enable_auto_follow_up_reminders?: boolean;
+  follow_up_reminder_days?: number;
+  enable_auto_payment_reminders?: boolean;
+  reminder_send_start?: string;
+  reminder_send_end?: string;
+  reminder_quiet_start?: string;
+  reminder_quiet_end?: string;
+  mrn_prefix?: string;
+  mrn_include_year?: boolean;
+  mrn_sequence_padding?: number;
+  backup_auto_enabled?: boolean;
+  backup_frequency?: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  backup_retention_days?: number;
 }
 
 export interface DatabaseMedicineMaster {
@@ -490,6 +714,15 @@ export interface DatabaseMedicineMaster {
   reorder_level: number;
   batch_number?: string;
   expiry_date?: string;
+  hsn_code?: string;
+  gst_rate?: number;
+  dosing_rule?: {
+    mgPerKgPerDay: number;
+    maxDailyMg?: number;
+    maxSingleDoseMg?: number;
+    frequencies: string[];
+    maxAgeYears?: number;
+  } | null;
   clinic_id: string;
   is_active: boolean;
   created_at: string;
@@ -503,14 +736,207 @@ export interface DatabaseTestMaster {
   type: 'lab' | 'radiology' | 'procedure' | 'other';
   normal_range?: string;
   units?: string;
+  analytes?: {
+    name: string;
+    units?: string;
+    ranges: {
+      sex: 'any' | 'male' | 'female';
+      minAge?: number;
+      maxAge?: number;
+      low?: number;
+      high?: number;
+    }[];
+  }[] | null;
   description?: string;
   preparation_instructions?: string;
+  sac_code?: string;
+  gst_rate?: number;
   clinic_id?: string;
   is_active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface DatabaseDrugSafetyRule {
+  id: string;
+  clinic_id: string;
+  rule_type: 'interaction' | 'duplicate_class' | 'contraindication';
+  name: string;
+  drug_terms: string[];
+  other_terms: string[];
+  severity: 'low' | 'moderate' | 'high';
+  message?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseVisitTemplate {
+  id: string;
+  clinic_id: string;
+  doctor_id: string;
+  name: string;
+  description?: string;
+  is_shared: boolean;
+  symptoms: Array<{
+    name: string;
+    severity?: 'mild' | 'moderate' | 'severe';
+    duration?: string;
+    notes?: string;
+  }>;
+  diagnoses: Array<{
+    name: string;
+    icd10_code?: string;
+    is_primary: boolean;
+    notes?: string;
+  }>;
+  prescriptions: Array<{
+    medicine_id?: string;
+    medicine: string;
+    dosage: string;
+    frequency: string;
+    duration: string;
+    instructions: string;
+    quantity?: number;
+  }>;
+  tests_ordered: Array<{
+    test_name: string;
+    test_type: 'lab' | 'radiology' | 'procedure' | 'other';
+    instructions?: string;
+    urgency: 'routine' | 'urgent' | 'stat';
+  }>;
+  advice: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseHousehold {
+  id: string;
+  clinic_id: string;
+  name: string;
+  head_patient_id?: string;
+  primary_phone?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabasePatientMerge {
+  id: string;
+  clinic_id: string;
+  survivor_id: string;
+  merged_patient_id: string;
+  survivor_snapshot: DatabasePatient;
+  moved_records: Record<string, string[]>;
+  merged_by?: string;
+  merged_at: string;
+  undone_by?: string;
+  undone_at?: string;
+}
+
+export interface DatabasePatientImport {
+  id: string;
+  clinic_id: string;
+  file_name: string;
+  total_rows: number;
+  imported_count: number;
+  skipped_count: number;
+  failed_count: number;
+  errors: { row: number; message: string }[];
+  status: 'in_progress' | 'completed' | 'rolled_back';
+  imported_by?: string;
+  created_at: string;
+  completed_at?: string;
+  rolled_back_by?: string;
+  rolled_back_at?: string;
+}
+
+export interface DatabaseClinicBackup {
+  id: string;
+  clinic_id: string;
+  file_path?: string;
+  file_format: 'zip' | 'json';
+  schema_version: number;
+  size_bytes: number;
+  table_counts: Record<string, number>;
+  trigger_type: 'manual' | 'scheduled';
+  status: 'completed' | 'failed';
+  error_details?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface DatabaseDoctorPayoutRule {
+  id: string;
+  clinic_id: string;
+  doctor_id: string;
+  item_type: 'consultation' | 'procedure' | 'medicine' | 'test' | 'other';
+  payout_type: 'percentage' | 'fixed';
+  value: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseDoctorSettlement {
+  id: string;
+  clinic_id: string;
+  doctor_id: string;
+  period_start: string;
+  period_end: string;
+  earnings_amount: number;
+  adjustment_amount: number;
+  net_payout: number;
+  status: 'draft' | 'settled';
+  payment_reference?: string;
+  notes?: string;
+  generated_by?: string;
+  generated_at: string;
+  settled_by?: string;
+  settled_at?: string;
+  created_at: string;
+}
+
+export interface DatabaseDoctorSettlementItem {
+  id: string;
+  clinic_id: string;
+  settlement_id: string;
+  entry_type: 'earning' | 'adjustment';
+  bill_id: string;
+  bill_item_id?: string;
+  payment_record_id?: string;
+  item_type?: 'consultation' | 'procedure' | 'medicine' | 'test' | 'other';
+  item_name: string;
+  base_amount: number;
+  payout_type?: 'percentage' | 'fixed';
+  rule_value?: number;
+  payout_amount: number;
+  created_at: string;
+}
+
+export interface DatabaseCashierShift {
+  id: string;
+  clinic_id: string;
+  cashier_id: string;
+  opened_at: string;
+  opening_float: number;
+  opening_notes?: string;
+  status: 'open' | 'closed' | 'signed_off';
+  closed_at?: string;
+  closed_by?: string;
+  closing_denominations?: Record<string, number>;
+  counted_cash?: number;
+  cash_received?: number;
+  cash_refunded?: number;
+  cash_deposits?: number;
+  expected_cash?: number;
+  variance?: number;
+  method_totals?: Record<string, number>;
+  closing_notes?: string;
+  signed_off_by?: string;
+  signed_off_at?: string;
+  sign_off_notes?: string;
+  created_at: string;
+}
+
 export interface DatabaseSupplier {
   id: string;
   name: string;
@@ -547,10 +973,25 @@ export interface DatabasePharmacyInwardItem {
   total_cost_price: number;
   batch_number?: string;
   expiry_date?: string;
+  batch_id?: string;
   clinic_id?: string;
   created_at: string;
 }
 
+export interface DatabaseMedicineBatch {
+  id: string;
+  clinic_id: string;
+  medicine_id: string;
+  batch_number: string;
+  expiry_date?: string;
+  quantity_received: number;
+  current_stock: number;
+  unit_cost_price?: number;
+  first_receipt_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface DatabasePharmacyDispensedItem {
   id: string;
   visit_id: string;
@@ -561,6 +1002,7 @@ export interface DatabasePharmacyDispensedItem {
   dispense_date: string;
   selling_price_at_dispense?: number;
   total_selling_price?: number;
+  batch_id?: string;
   batch_number?: string;
   clinic_id?: string;
   created_at: string;
@@ -612,5 +1054,9 @@ export interface DatabaseSentMessageLog {
   delivery_method: 'manual_whatsapp' | 'blueticks_api';
   error_details?: string;
   sent_by?: string;
+  appointment_id?: string;
+  dedupe_key?: string; // Set by the reminder scheduler
+  attempt_count?: number;
+  claimed_at?: string;
   created_at: string;
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { addDays, startOfDay } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { AnalyticsData, AnalyticsPeriod, AnalyticsTotals } from '../types';
+import { ANALYTICS_PERIODS, AnalyticsRange, formatBucketLabel, getAnalyticsRanges } from '../utils/analytics';
+
+// Shape of the JSON returned by get_clinic_analytics
+interface DatabaseAnalytics {
+  total_patients: number;
+  registered_patients: number;
+  total_visits: number;
+  unique_patients: number;
+  new_patients: number;
+  returning_patients: number;
+  peak_hour: number | null;
+  visit_trend: { bucket: string; visits: number }[];
+  top_diagnoses: { name: string; count: number }[];
+  top_medicines: { name: string; count: number }[];
+  revenue: number;
+  billed_amount: number;
+  bill_count: number;
+  follow_ups_due: number;
+  follow_ups_kept: number;
+}
+
+// Convert database analytics to app AnalyticsTotals type
+const convertDatabaseTotals = (dbAnalytics: DatabaseAnalytics): AnalyticsTotals => ({
+  totalPatients: Number(dbAnalytics.total_patients),
+  registeredPatients: Number(dbAnalytics.registered_patients),
+  totalVisits: Number(dbAnalytics.total_visits),
+  uniquePatients: Number(dbAnalytics.unique_patients),
+  newPatients: Number(dbAnalytics.new_patients),
+  returningPatients: Number(dbAnalytics.returning_patients),
+  revenue: Number(dbAnalytics.revenue),
+  billedAmount: Number(dbAnalytics.billed_amount),
+  billCount: Number(dbAnalytics.bill_count),
+  followUpsDue: Number(dbAnalytics.follow_ups_due),
+  followUpsKept: Number(dbAnalytics.follow_ups_kept)
+});
+
+export const analyticsService = {
+  // Dashboard figures for the period ending today, with totals for the period before it to compare against
+  async getAnalytics(period: AnalyticsPeriod): Promise<AnalyticsData> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { bucket } = ANALYTICS_PERIODS.find(p => p.value === period) || ANALYTICS_PERIODS[0];
+    const ranges = getAnalyticsRanges(period);
+    const today = startOfDay(new Date());
+
+    const fetchPeriod = async (range: AnalyticsRange): Promise<DatabaseAnalytics> => {
+      const { data, error } = await supabase!.rpc('get_clinic_analytics', {
+        p_clinic_id: profile.clinicId,
+        p_start: range.start.toISOString(),
+        p_end: range.end.toISOString(),
+        p_bucket: bucket
+      });
+
+      if (error) {
+        throw new Error(`Failed to fetch analytics: ${error.message}`);
+      }
+
+      return data as DatabaseAnalytics;
+    };
+
+    const countVisits = async (range: AnalyticsRange): Promise<number> => {
+      const { count, error } = await supabase!
+        .from('visits')
+        .select('id', { count: 'exact', head: true })
+        .eq('clinic_id', profile.clinicId)
+        .gte('date', range.start.toISOString())
+        .lt('date', range.end.toISOString());
+
+      if (error) {
+        throw new Error(`Failed to count visits: ${error.message}`);
+      }
+
+      return count || 0;
+    };
+
+    const [current, previous, todayVisits, yesterdayVisits] = await Promise.all([
+      fetchPeriod(ranges.current),
+      fetchPeriod(ranges.previous),
+      countVisits({ start: today, end: addDays(today, 1) }),
+      countVisits({ start: addDays(today, -1), end: today })
+    ]);
+
+    return {
+      ...convertDatabaseTotals(current),
+      period,
+      periodStart: ranges.current.start,
+      periodEnd: ranges.current.end,
+      previous: convertDatabaseTotals(previous),
+      todayVisits,
+      yesterdayVisits,
+      peakHour: current.peak_hour ?? undefined,
+      topDiagnoses: (current.top_diagnoses || []).map(d => ({ name: d.name, count: Number(d.count) })),
+      topMedicines: (current.top_medicines || []).map(m => ({ name: m.name, count: Number(m.count) })),
+      visitTrend: (current.visit_trend || []).map(point => ({
+        label: formatBucketLabel(point.bucket, bucket),
+        visits: Number(point.visits)
+      }))
+    };
+  }
+};
@@ -0,0 +1,306 @@
+import { supabase } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { appointmentService } from './appointmentService';
+import { doctorAvailabilityService } from './doctorAvailabilityService';
+import { Appointment, AppointmentSeries, RecurrenceRule, SeriesOccurrence } from '../types';
+import type { DatabaseAppointmentSeries } from '../lib/supabase';
+import { generateOccurrenceDates } from '../utils/recurrence';
+
+// Longest series that can be booked in one go
+export const MAX_SERIES_OCCURRENCES = 60;
+
+// Occurrences that can still be edited or cancelled
+const OPEN_STATUSES: Appointment['status'][] = ['Scheduled', 'Confirmed'];
+
+// Convert database appointment series to app appointment series type
+const convertDatabaseAppointmentSeries = (dbSeries: DatabaseAppointmentSeries, appointments?: Appointment[]): AppointmentSeries => ({
+  id: dbSeries.id,
+  patientId: dbSeries.patient_id,
+  doctorId: dbSeries.doctor_id,
+  rule: {
+    frequency: dbSeries.frequency,
+    weekdays: dbSeries.weekdays,
+    intervalDays: dbSeries.interval_days,
+    occurrences: dbSeries.occurrences
+  },
+  startDate: new Date(dbSeries.start_date),
+  duration: dbSeries.duration,
+  appointmentType: dbSeries.appointment_type,
+  notes: dbSeries.notes,
+  createdBy: dbSeries.created_by,
+  createdAt: new Date(dbSeries.created_at),
+  updatedAt: new Date(dbSeries.updated_at),
+  appointments
+});
+
+export const appointmentSeriesService = {
+  // Check each date against the doctor's availability
+  async checkOccurrences(
+    doctorId: string,
+    dates: Date[],
+    duration: number,
+    excludeAppointmentIds: string[] = [],
+    firstIndex: number = 1
+  ): Promise<SeriesOccurrence[]> {
+    try {
+      const results = await doctorAvailabilityService.checkAvailabilityForDates(doctorId, dates, duration, excludeAppointmentIds);
+      return dates.map((appointmentDate, index) => ({
+        seriesIndex: firstIndex + index,
+        appointmentDate,
+        available: results[index].available,
+        conflict: results[index].reason
+      }));
+    } catch (error) {
+      console.error('Error checking occurrence availability:', error);
+      return dates.map((appointmentDate, index) => ({
+        seriesIndex: firstIndex + index,
+        appointmentDate,
+        available: false,
+        conflict: 'Could not check availability'
+      }));
+    }
+  },
+
+  // Lay out a new series and flag the sessions the doctor cannot take
+  async previewSeries(request: {
+    doctorId: string;
+    startDate: Date;
+    duration: number;
+    rule: RecurrenceRule;
+  }): Promise<SeriesOccurrence[]> {
+    if (request.rule.occurrences > MAX_SERIES_OCCURRENCES) {
+      throw new Error(`A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`);
+    }
+
+    const dates = generateOccurrenceDates(request.startDate, request.rule);
+    return this.checkOccurrences(request.doctorId, dates, request.duration);
+  },
+
+  // Book a series. Sessions that clash are skipped unless includeConflicts is set.
+  async createSeries(
+    request: {
+      patientId: string;
+      doctorId: string;
+      startDate: Date;
+      duration: number;
+      appointmentType: Appointment['appointmentType'];
+      status?: Appointment['status'];
+      notes?: string;
+      rule: RecurrenceRule;
+    },
+    includeConflicts: boolean = false
+  ): Promise<AppointmentSeries> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    if (request.rule.frequency === 'weekly' && !request.rule.weekdays?.length) {
+      throw new Error('Select at least one weekday for the series');
+    }
+
+    try {
+      const occurrences = await this.previewSeries(request);
+      const toBook = includeConflicts ? occurrences : occurrences.filter(occurrence => occurrence.available);
+
+      if (toBook.length === 0) {
+        throw new Error('None of the sessions in this series are available');
+      }
+
+      const { data: series, error: seriesError } = await supabase
+        .from('appointment_series')
+        .insert({
+          patient_id: request.patientId,
+          doctor_id: request.doctorId,
+          frequency: request.rule.frequency,
+          weekdays: request.rule.frequency === 'weekly' ? request.rule.weekdays : undefined,
+          interval_days: request.rule.frequency === 'interval' ? request.rule.intervalDays : undefined,
+          occurrences: request.rule.occurrences,
+          start_date: request.startDate.toISOString(),
+          duration: request.duration,
+          appointment_type: request.appointmentType,
+          notes: request.notes,
+          created_by: profile.id,
+          clinic_id: profile.clinicId
+        })
+        .select()
+        .single();
+
+      if (seriesError) {
+        throw new Error(`Failed to create appointment series: ${seriesError.message}`);
+      }
+
+      const { error: appointmentsError } = await supabase
+        .from('appointments')
+        .insert(toBook.map(occurrence => ({
+          patient_id: request.patientId,
+          doctor_id: request.doctorId,
+          appointment_date: occurrence.appointmentDate.toISOString(),
+          duration: request.duration,
+          status: request.status || 'Scheduled',
+          appointment_type: request.appointmentType,
+          notes: request.notes,
+          series_id: series.id,
+          series_index: occurrence.seriesIndex,
+          clinic_id: profile.clinicId
+        })));
+
+      if (appointmentsError) {
+        // Roll back the series so no empty series is left behind
+        await supabase.from('appointment_series').delete().eq('id', series.id);
+        throw new Error(`Failed to book series appointments: ${appointmentsError.message}`);
+      }
+
+      const appointments = await appointmentService.getSeriesAppointments(series.id);
+      return convertDatabaseAppointmentSeries(series, appointments);
+    } catch (error) {
+      console.error('Error creating appointment series:', error);
+      throw error;
+    }
+  },
+
+  // Get a series with its appointments
+  async getSeries(seriesId: string): Promise<AppointmentSeries | null> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const { data: series, error } = await supabase
+        .from('appointment_series')
+        .select('*')
+        .eq('id', seriesId)
+        .eq('clinic_id', profile.clinicId)
+        .single();
+
+      if (error || !series) {
+        return null;
+      }
+
+      const appointments = await appointmentService.getSeriesAppointments(seriesId);
+      return convertDatabaseAppointmentSeries(series, appointments);
+    } catch (error) {
+      console.error('Error fetching appointment series:', error);
+      throw error;
+    }
+  },
+
+  // This occurrence and every later one that has not happened yet
+  async getFollowingOccurrences(appointment: Appointment): Promise<Appointment[]> {
+    if (!appointment.seriesId) {
+      return [appointment];
+    }
+
+    const seriesAppointments = await appointmentService.getSeriesAppointments(appointment.seriesId);
+    return seriesAppointments.filter(occurrence =>
+      (occurrence.seriesIndex || 0) >= (appointment.seriesIndex || 0) &&
+      OPEN_STATUSES.includes(occurrence.status)
+    );
+  },
+
+  // Check where "this and following" occurrences would land after a change
+  async previewFollowingChange(
+    appointment: Appointment,
+    changes: { appointmentDate?: Date; duration?: number; doctorId?: string }
+  ): Promise<SeriesOccurrence[]> {
+    const following = await this.getFollowingOccurrences(appointment);
+    const shift = changes.appointmentDate
+      ? changes.appointmentDate.getTime() - appointment.appointmentDate.getTime()
+      : 0;
+
+    const occurrences = await this.checkOccurrences(
+      changes.doctorId || appointment.doctorId,
+      following.map(occurrence => new Date(occurrence.appointmentDate.getTime() + shift)),
+      changes.duration || appointment.duration,
+      following.map(occurrence => occurrence.id)
+    );
+
+    return occurrences.map((occurrence, index) => ({
+      ...occurrence,
+      seriesIndex: following[index].seriesIndex || occurrence.seriesIndex
+    }));
+  },
+
+  // Apply a schedule change to this and following occurrences in one transaction.
+  // A new date/time for this occurrence moves every following one by the same
+  // amount. Status and notes belong to a single occurrence and are not copied.
+  async updateFollowing(
+    appointment: Appointment,
+    changes: Partial<Pick<Appointment, 'appointmentDate' | 'duration' | 'doctorId' | 'appointmentType'>>
+  ): Promise<number> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const shiftMinutes = changes.appointmentDate
+        ? Math.round((changes.appointmentDate.getTime() - appointment.appointmentDate.getTime()) / 60000)
+        : 0;
+
+      const { data: moved, error } = await supabase.rpc('move_series_occurrences', {
+        p_appointment_id: appointment.id,
+        p_shift_minutes: shiftMinutes,
+        p_duration: changes.duration ?? null,
+        p_doctor_id: changes.doctorId ?? null,
+        p_appointment_type: changes.appointmentType ?? null
+      });
+
+      if (error) {
+        throw new Error(`Failed to update following appointments: ${error.message}`);
+      }
+
+      return moved as number;
+    } catch (error) {
+      console.error('Error updating following appointments:', error);
+      throw error;
+    }
+  },
+
+  // Cancel this and following occurrences that have not happened yet
+  async cancelFollowing(appointment: Appointment): Promise<number> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const following = await this.getFollowingOccurrences(appointment);
+      if (following.length === 0) {
+        return 0;
+      }
+
+      const { error } = await supabase
+        .from('appointments')
+        .update({ status: 'Cancelled', updated_at: new Date().toISOString() })
+        .in('id', following.map(occurrence => occurrence.id))
+        .eq('clinic_id', profile.clinicId);
+
+      if (error) {
+        throw new Error(`Failed to cancel appointments: ${error.message}`);
+      }
+
+      return following.length;
+    } catch (error) {
+      console.error('Error cancelling following appointments:', error);
+      throw error;
+    }
+  }
+};
@@ -1,7 +1,9 @@
 import { supabase } from '../lib/supabase';
-import { getCurrentProfile } from './profileService';
+import { getCurrentProfile, convertDatabaseProfile } from './profileService';
 import { Appointment, Patient, Profile } from '../types';
 import type { DatabaseAppointment } from '../lib/supabase';
+import { isToday } from 'date-fns';
+import { isNetworkError, loadSnapshot, saveSnapshot } from '../lib/offlineStore';
 
 // Convert database appointment to app appointment type
 const convertDatabaseAppointment = (dbAppointment: DatabaseAppointment, patient?: Patient, doctor?: Profile): Appointment => ({
@@ -13,6 +15,15 @@ const convertDatabaseAppointment = (dbAppointment: DatabaseAppointment, patient?
   status: dbAppointment.status,
   appointmentType: dbAppointment.appointment_type,
   notes: dbAppointment.notes,
+  queueDate: dbAppointment.queue_date ? new Date(dbAppointment.queue_date) : undefined,
+  tokenNumber: dbAppointment.token_number ?? undefined,
+  isWalkIn: dbAppointment.is_walk_in || false,
+  checkedInAt: dbAppointment.checked_in_at ? new Date(dbAppointment.checked_in_at) : undefined,
+  startedAt: dbAppointment.started_at ? new Date(dbAppointment.started_at) : undefined,
+  completedAt: dbAppointment.completed_at ? new Date(dbAppointment.completed_at) : undefined,
+  seriesId: dbAppointment.series_id,
+  seriesIndex: dbAppointment.series_index,
+  bookedOnline: dbAppointment.booked_online || false,
   createdAt: new Date(dbAppointment.created_at),
   updatedAt: new Date(dbAppointment.updated_at),
   patient,
@@ -112,12 +123,22 @@ export const appointmentService = {
       .lte('appointment_date', endDate.toISOString())
       .order('appointment_date', { ascending: true });
       
+    // Only today's appointments are kept for offline use
+    const snapshotKey = `appointments:${profile.clinicId}:today`;
 
     if (error) {
+      if (isNetworkError(error)) {
+        const cachedAppointments = await loadSnapshot<Appointment[]>(snapshotKey);
+        if (cachedAppointments) {
+          return cachedAppointments.filter(appointment =>
+            appointment.appointmentDate >= startDate && appointment.appointmentDate <= endDate
+          );
+        }
+      }
       throw new Error('Failed to fetch appointments');
     }
 
-    return data.map(appointment => convertDatabaseAppointment(
+    const appointments = data.map(appointment => convertDatabaseAppointment(
       appointment,
       appointment.patients ? {
         id: appointment.patients.id,
@@ -147,6 +168,13 @@ export const appointmentService = {
         updatedAt: new Date(appointment.profiles.updated_at)
       } : undefined
     ));
+
+    const now = new Date();
+    if (startDate <= now && endDate >= now) {
+      await saveSnapshot(snapshotKey, appointments.filter(appointment => isToday(appointment.appointmentDate)));
+    }
+
+    return appointments;
   },
 
   // Get appointments for a specific patient
@@ -207,6 +235,52 @@ export const appointmentService = {
     ));
   },
 
+  // Get the appointments of a recurring series, in session order
+  async getSeriesAppointments(seriesId: string): Promise<Appointment[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select(`
+        *,
+        patients (*),
+        profiles (*)
+      `)
+      .eq('clinic_id', profile.clinicId)
+      .eq('series_id', seriesId)
+      .order('series_index', { ascending: true });
+
+    if (error) {
+      throw new Error('Failed to fetch series appointments');
+    }
+
+    return data.map(appointment => convertDatabaseAppointment(
+      appointment,
+      appointment.patients ? {
+        id: appointment.patients.id,
+        name: appointment.patients.name,
+        phone: appointment.patients.phone,
+        age: appointment.patients.age,
+        gender: appointment.patients.gender,
+        address: appointment.patients.address,
+        mrn: appointment.patients.mrn,
+        emergency_contact: appointment.patients.emergency_contact,
+        blood_group: appointment.patients.blood_group,
+        allergies: appointment.patients.allergies,
+        createdAt: new Date(appointment.patients.created_at),
+        lastVisit: appointment.patients.last_visit ? new Date(appointment.patients.last_visit) : undefined
+      } : undefined,
+      appointment.profiles ? convertDatabaseProfile(appointment.profiles) : undefined
+    ));
+  },
+
   // Get appointments for a specific doctor
   async getDoctorAppointments(doctorId: string): Promise<Appointment[]> {
     if (!supabase) {
@@ -0,0 +1,159 @@
+import { supabase } from '../lib/supabase';
+import type { DatabaseClinicBackup } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { ClinicBackup, ClinicBackupManifest } from '../types';
+
+const BACKUP_BUCKET = 'clinic-backups';
+
+export interface BackupInspection {
+  manifest?: ClinicBackupManifest;
+  compatible: boolean;
+  problems: string[];
+}
+
+// Convert database backup to app ClinicBackup type
+const convertDatabaseBackup = (dbBackup: DatabaseClinicBackup & {
+  created_by_profile?: { name: string } | null;
+}): ClinicBackup => ({
+  id: dbBackup.id,
+  filePath: dbBackup.file_path,
+  fileFormat: dbBackup.file_format,
+  schemaVersion: dbBackup.schema_version,
+  sizeBytes: dbBackup.size_bytes,
+  tableCounts: dbBackup.table_counts || {},
+  triggerType: dbBackup.trigger_type,
+  status: dbBackup.status,
+  errorDetails: dbBackup.error_details,
+  createdByName: dbBackup.created_by_profile?.name,
+  createdAt: new Date(dbBackup.created_at)
+});
+
+// Exports and restores run in the clinic-backup edge function, which reads every clinic table
+// with the service role
+const invokeBackupFunction = async (body: Record<string, unknown>) => {
+  if (!supabase) {
+    throw new Error('Supabase client not initialized');
+  }
+
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) throw new Error('Not authenticated');
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/clinic-backup`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || result.error) {
+    throw new Error(result.details || result.error || response.statusText || 'Unknown error');
+  }
+
+  return result;
+};
+
+export const backupService = {
+  // Get the clinic's backups, newest first
+  async getBackups(): Promise<ClinicBackup[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('clinic_backups')
+      .select(`
+        *,
+        created_by_profile:profiles!clinic_backups_created_by_fkey (name)
+      `)
+      .eq('clinic_id', profile.clinicId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch backups: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseBackup);
+  },
+
+  // Back up the whole clinic now; returns the backup and a link to download it
+  async createBackup(fileFormat: ClinicBackup['fileFormat']): Promise<{ backup: ClinicBackup; url?: string }> {
+    try {
+      const result = await invokeBackupFunction({ action: 'create', fileFormat });
+      return { backup: convertDatabaseBackup(result.backup), url: result.url };
+    } catch (error) {
+      throw new Error(`Failed to create backup: ${(error as Error).message}`);
+    }
+  },
+
+  // Short-lived link to download a backup archive
+  async getDownloadUrl(backup: ClinicBackup): Promise<string> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    if (!backup.filePath) {
+      throw new Error('This backup has no file');
+    }
+
+    const { data, error } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .createSignedUrl(backup.filePath, 60 * 10);
+
+    if (error) {
+      throw new Error(`Failed to get download link: ${error.message}`);
+    }
+
+    return data.signedUrl;
+  },
+
+  // Upload an archive from disk so the edge function can inspect and restore it
+  async uploadArchive(file: File): Promise<string> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const path = `${profile.clinicId}/uploads/${Date.now()}-${file.name.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+    const { error } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .upload(path, file);
+
+    if (error) {
+      throw new Error(`Failed to upload backup file: ${error.message}`);
+    }
+
+    return path;
+  },
+
+  // Read an archive's manifest and check it can be restored into this clinic
+  async inspectBackup(filePath: string): Promise<BackupInspection> {
+    try {
+      const result = await invokeBackupFunction({ action: 'inspect', path: filePath });
+      return { manifest: result.manifest, compatible: result.compatible, problems: result.problems || [] };
+    } catch (error) {
+      throw new Error(`Failed to read backup: ${(error as Error).message}`);
+    }
+  },
+
+  // Return every row in the archive to its backed-up state; returns rows restored per table
+  async restoreBackup(filePath: string): Promise<Record<string, number>> {
+    try {
+      const result = await invokeBackupFunction({ action: 'restore', path: filePath });
+      return result.restored;
+    } catch (error) {
+      throw new Error(`Failed to restore backup: ${(error as Error).message}`);
+    }
+  }
+};
@@ -2,6 +2,8 @@ import { supabase } from '../lib/supabase';
 import { Bill, BillItem, Patient, Visit, PaymentRecord } from '../types';
 import { getCurrentProfile } from './profileService';
 import type { DatabaseBill, DatabaseBillItem } from '../lib/supabase';
+import { applyLineTax, roundCurrency } from '../utils/gstCalculator';
+import { paymentService } from './paymentService';
 
 // Convert database bill to app bill type
 const convertDatabaseBill = (
@@ -23,6 +25,11 @@ const convertDatabaseBill = (
   billDate: new Date(dbBill.bill_date),
   dueDate: dbBill.due_date ? new Date(dbBill.due_date) : undefined,
   notes: dbBill.notes,
+  isInterState: dbBill.is_inter_state ?? false,
+  creditedAmount: dbBill.credited_amount ?? 0,
+  voidedAt: dbBill.voided_at ? new Date(dbBill.voided_at) : undefined,
+  voidedBy: dbBill.voided_by,
+  voidReason: dbBill.void_reason,
   createdAt: new Date(dbBill.created_at),
   updatedAt: new Date(dbBill.updated_at),
   billItems,
@@ -42,6 +49,11 @@ const convertDatabaseBillItem = (dbBillItem: DatabaseBillItem): BillItem => ({
   totalPrice: dbBillItem.total_price,
   discount: dbBillItem.discount,
   tax: dbBillItem.tax,
+  hsnSacCode: dbBillItem.hsn_sac_code,
+  taxableValue: dbBillItem.taxable_value,
+  cgstAmount: dbBillItem.cgst_amount,
+  sgstAmount: dbBillItem.sgst_amount,
+  igstAmount: dbBillItem.igst_amount,
   createdAt: new Date(dbBillItem.created_at)
 });
 
@@ -128,6 +140,10 @@ export const billingService = {
             notes: payment.notes,
             receivedBy: payment.received_by,
             receivedByProfile: payment.profiles,
+            isRefund: payment.is_refund || false,
+            refundOfPaymentId: payment.refund_of_payment_id,
+            creditNoteId: payment.credit_note_id,
+            paidFromDeposit: payment.paid_from_deposit || false,
             createdAt: new Date(payment.created_at)
           });
           paymentsByBill.set(payment.bill_id, paymentList);
@@ -236,6 +252,10 @@ export const billingService = {
           notes: payment.notes,
           receivedBy: payment.received_by,
           receivedByProfile: payment.profiles,
+          isRefund: payment.is_refund || false,
+          refundOfPaymentId: payment.refund_of_payment_id,
+          creditNoteId: payment.credit_note_id,
+          paidFromDeposit: payment.paid_from_deposit || false,
           createdAt: new Date(payment.created_at)
         }));
       }
@@ -374,6 +394,7 @@ export const billingService = {
     billItems: Omit<BillItem, 'id' | 'billId' | 'createdAt'>[];
     notes?: string;
     dueDate?: Date;
+    isInterState?: boolean;
   }): Promise<Bill> {
     if (!supabase) {
       throw new Error('Supabase client not initialized');
@@ -387,6 +408,13 @@ export const billingService = {
     // Generate bill number
     const billNumber = `BILL-${Date.now()}`;
 
+    // Compute GST components per line; the bill total follows the taxed lines
+    const isInterState = billData.isInterState ?? false;
+    const taxedItems = billData.billItems.map(item => applyLineTax(item, isInterState));
+    const totalAmount = taxedItems.length > 0
+      ? roundCurrency(taxedItems.reduce((sum, item) => sum + item.totalPrice, 0))
+      : billData.totalAmount;
+
     try {
       // Create bill
       const { data: bill, error: billError } = await supabase
@@ -395,12 +423,13 @@ export const billingService = {
           visit_id: billData.visitId || null,
           patient_id: billData.patientId,
           bill_number: billNumber,
-          total_amount: billData.totalAmount,
+          total_amount: totalAmount,
           paid_amount: 0,
           status: 'pending',
           bill_date: new Date().toISOString(),
           due_date: billData.dueDate?.toISOString(),
           notes: billData.notes,
+          is_inter_state: isInterState,
           clinic_id: profile.clinicId
         })
         .select()
@@ -411,8 +440,8 @@ export const billingService = {
       }
 
       // Create bill items
-      if (billData.billItems.length > 0) {
-        const billItemsToInsert = billData.billItems.map(item => ({
+      if (taxedItems.length > 0) {
+        const billItemsToInsert = taxedItems.map(item => ({
           bill_id: bill.id,
           item_type: item.itemType,
           item_name: item.itemName,
@@ -421,6 +450,11 @@ export const billingService = {
           total_price: item.totalPrice,
           discount: item.discount || 0,
           tax: item.tax || 0,
+          hsn_sac_code: item.hsnSacCode,
+          taxable_value: item.taxableValue,
+          cgst_amount: item.cgstAmount || 0,
+          sgst_amount: item.sgstAmount || 0,
+          igst_amount: item.igstAmount || 0,
           clinic_id: profile.clinicId
         }));
 
@@ -454,17 +488,35 @@ export const billingService = {
     }
 
     try {
+      const { data: bill, error: billError } = await supabase
+        .from('bills')
+        .select('is_inter_state')
+        .eq('id', billId)
+        .eq('clinic_id', profile.clinicId)
+        .single();
+
+      if (billError) {
+        throw new Error(`Failed to fetch bill: ${billError.message}`);
+      }
+
+      const taxedItem = applyLineTax(item, bill.is_inter_state ?? false);
+
       const { data: billItem, error } = await supabase
         .from('bill_items')
         .insert({
           bill_id: billId,
-          item_type: item.itemType,
-          item_name: item.itemName,
-          quantity: item.quantity,
-          unit_price: item.unitPrice,
-          total_price: item.totalPrice,
-          discount: item.discount || 0,
-          tax: item.tax || 0,
+          item_type: taxedItem.itemType,
+          item_name: taxedItem.itemName,
+          quantity: taxedItem.quantity,
+          unit_price: taxedItem.unitPrice,
+          total_price: taxedItem.totalPrice,
+          discount: taxedItem.discount || 0,
+          tax: taxedItem.tax || 0,
+          hsn_sac_code: taxedItem.hsnSacCode,
+          taxable_value: taxedItem.taxableValue,
+          cgst_amount: taxedItem.cgstAmount || 0,
+          sgst_amount: taxedItem.sgstAmount || 0,
+          igst_amount: taxedItem.igstAmount || 0,
           clinic_id: profile.clinicId
         })
         .select()
@@ -488,8 +540,8 @@ export const billingService = {
     console.log(`Bill ${billId} status will be updated automatically by database trigger`);
   },
 
-  // Get bills pending payment
-  async getPendingBills(): Promise<Bill[]> {
+  // Get bills pending payment, optionally for a single patient
+  async getPendingBills(patientId?: string): Promise<Bill[]> {
     if (!supabase) {
       throw new Error('Supabase client not initialized');
     }
@@ -499,7 +551,7 @@ export const billingService = {
       throw new Error('User not assigned to a clinic.');
     }
 
-    const { data: bills, error } = await supabase
+    let query = supabase
       .from('bills')
       .select(`
         *, 
@@ -507,8 +559,13 @@ export const billingService = {
         visits (*)
       `)
       .eq('clinic_id', profile.clinicId)
-      .in('status', ['pending', 'partial'])
-      .order('bill_date', { ascending: true });
+      .in('status', ['pending', 'partial', 'overdue']);
+
+    if (patientId) {
+      query = query.eq('patient_id', patientId);
+    }
+
+    const { data: bills, error } = await query.order('bill_date', { ascending: true });
 
     if (error) {
       throw new Error(`Failed to fetch pending bills: ${error.message}`);
@@ -553,8 +610,13 @@ export const billingService = {
     ));
   },
 
-  // Delete a bill (and all its items and payments)
-  async deleteBill(billId: string): Promise<void> {
+  // Void a bill. The bill, its items and its payments are kept for the audit
+  // trail; any money already collected must be refunded as part of voiding.
+  async voidBill(billId: string, reason: string, refund?: {
+    paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'net_banking' | 'wallet';
+    toDeposit?: boolean;
+    notes?: string;
+  }): Promise<Bill> {
     if (!supabase) {
       throw new Error('Supabase client not initialized');
     }
@@ -564,19 +626,58 @@ export const billingService = {
       throw new Error('User not assigned to a clinic.');
     }
 
+    if (!reason.trim()) {
+      throw new Error('A reason is required to void a bill');
+    }
+
     try {
-      // Delete bill (cascade will handle bill_items and payment_records)
+      const bill = await this.getBillById(billId, true);
+      if (!bill) {
+        throw new Error('Bill not found');
+      }
+
+      if (bill.paymentStatus === 'cancelled') {
+        throw new Error('Bill is already void');
+      }
+
+      const netPaid = roundCurrency(bill.paidAmount);
+      if (netPaid > 0) {
+        if (!refund) {
+          throw new Error(`₹${netPaid.toFixed(2)} has been collected on this bill and must be refunded before it can be voided`);
+        }
+
+        await paymentService.recordRefund({
+          billId,
+          amount: netPaid,
+          paymentMethod: refund.paymentMethod,
+          toDeposit: refund.toDeposit,
+          notes: refund.notes || `Refund on voiding bill ${bill.billNumber}`
+        });
+      }
+
       const { error } = await supabase
         .from('bills')
-        .delete()
+        .update({
+          status: 'cancelled',
+          voided_at: new Date().toISOString(),
+          voided_by: profile.id,
+          void_reason: reason.trim()
+        })
         .eq('id', billId)
         .eq('clinic_id', profile.clinicId);
 
       if (error) {
-        throw new Error(`Failed to delete bill: ${error.message}`);
+        throw new Error(`Failed to void bill: ${error.message}`);
+      }
+
+      const voidedBill = await this.getBillById(billId, true);
+      if (!voidedBill) {
+        throw new Error('Bill not found after voiding');
       }
+
+      return voidedBill;
     } catch (error) {
-      console.error('Error deleting bill:', error);
+      console.error('Error voiding bill:', error);
       throw error;
     }
   },
@@ -0,0 +1,207 @@
+import { supabase } from '../lib/supabase';
+import type { DatabaseCashierShift } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { CashierShift, CashierShiftTotals } from '../types';
+
+// Shape of the JSON returned by get_cashier_shift_totals
+interface DatabaseCashierShiftTotals {
+  cash_received: number;
+  cash_refunded: number;
+  cash_deposits: number;
+  payment_count: number;
+  refund_count: number;
+  deposit_count: number;
+  method_totals: Record<string, number>;
+}
+
+const SHIFT_SELECT = `
+  *,
+  cashier:profiles!cashier_shifts_cashier_id_fkey (name),
+  closed_by_profile:profiles!cashier_shifts_closed_by_fkey (name),
+  signed_off_by_profile:profiles!cashier_shifts_signed_off_by_fkey (name)
+`;
+
+const toOptionalNumber = (value?: number | null) => value !== null && value !== undefined ? Number(value) : undefined;
+
+// Convert database cashier shift to app CashierShift type
+const convertDatabaseShift = (dbShift: DatabaseCashierShift & {
+  cashier?: { name: string } | null;
+  closed_by_profile?: { name: string } | null;
+  signed_off_by_profile?: { name: string } | null;
+}): CashierShift => ({
+  id: dbShift.id,
+  cashierId: dbShift.cashier_id,
+  cashierName: dbShift.cashier?.name,
+  openedAt: new Date(dbShift.opened_at),
+  openingFloat: Number(dbShift.opening_float),
+  openingNotes: dbShift.opening_notes,
+  status: dbShift.status,
+  closedAt: dbShift.closed_at ? new Date(dbShift.closed_at) : undefined,
+  closedByName: dbShift.closed_by_profile?.name,
+  closingDenominations: dbShift.closing_denominations,
+  countedCash: toOptionalNumber(dbShift.counted_cash),
+  cashReceived: toOptionalNumber(dbShift.cash_received),
+  cashRefunded: toOptionalNumber(dbShift.cash_refunded),
+  cashDeposits: toOptionalNumber(dbShift.cash_deposits),
+  expectedCash: toOptionalNumber(dbShift.expected_cash),
+  variance: toOptionalNumber(dbShift.variance),
+  methodTotals: dbShift.method_totals,
+  closingNotes: dbShift.closing_notes,
+  signedOffByName: dbShift.signed_off_by_profile?.name,
+  signedOffAt: dbShift.signed_off_at ? new Date(dbShift.signed_off_at) : undefined,
+  signOffNotes: dbShift.sign_off_notes
+});
+
+export const cashierShiftService = {
+  // The signed-in user's open shift, if any
+  async getCurrentShift(): Promise<CashierShift | null> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('cashier_shifts')
+      .select(SHIFT_SELECT)
+      .eq('clinic_id', profile.clinicId)
+      .eq('cashier_id', profile.id)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch current shift: ${error.message}`);
+    }
+
+    return data ? convertDatabaseShift(data) : null;
+  },
+
+  // Recent shifts, newest first; pass a cashier to see only theirs
+  async getShifts(cashierId?: string, limit = 50): Promise<CashierShift[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    let query = supabase
+      .from('cashier_shifts')
+      .select(SHIFT_SELECT)
+      .eq('clinic_id', profile.clinicId);
+
+    if (cashierId) {
+      query = query.eq('cashier_id', cashierId);
+    }
+
+    const { data, error } = await query
+      .order('opened_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch shifts: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseShift);
+  },
+
+  // Open a shift for the signed-in user with the cash already in the drawer
+  async openShift(openingFloat: number, notes?: string): Promise<CashierShift> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('cashier_shifts')
+      .insert({
+        clinic_id: profile.clinicId,
+        cashier_id: profile.id,
+        opened_at: new Date().toISOString(),
+        opening_float: openingFloat,
+        opening_notes: notes || undefined,
+        status: 'open'
+      })
+      .select(SHIFT_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('You already have an open shift. Close it before opening a new one.');
+      }
+      throw new Error(`Failed to open shift: ${error.message}`);
+    }
+
+    return convertDatabaseShift(data);
+  },
+
+  // Payments, refunds and deposits the cashier has taken so far in the shift
+  async getShiftTotals(shiftId: string): Promise<CashierShiftTotals> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { data, error } = await supabase.rpc('get_cashier_shift_totals', {
+      p_shift_id: shiftId
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch shift totals: ${error.message}`);
+    }
+
+    const totals = data as DatabaseCashierShiftTotals;
+    return {
+      cashReceived: Number(totals.cash_received),
+      cashRefunded: Number(totals.cash_refunded),
+      cashDeposits: Number(totals.cash_deposits),
+      paymentCount: Number(totals.payment_count),
+      refundCount: Number(totals.refund_count),
+      depositCount: Number(totals.deposit_count),
+      methodTotals: Object.fromEntries(
+        Object.entries(totals.method_totals || {}).map(([method, amount]) => [method, Number(amount)])
+      )
+    };
+  },
+
+  // Record the closing count; the variance is worked out against the cashier's cash payments
+  async closeShift(shiftId: string, denominations: Record<string, number>, notes?: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { error } = await supabase.rpc('close_cashier_shift', {
+      p_shift_id: shiftId,
+      p_denominations: denominations,
+      p_notes: notes || null
+    });
+
+    if (error) {
+      throw new Error(`Failed to close shift: ${error.message}`);
+    }
+  },
+
+  // Supervisor sign-off of a closed shift
+  async signOffShift(shiftId: string, notes?: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { error } = await supabase.rpc('sign_off_cashier_shift', {
+      p_shift_id: shiftId,
+      p_notes: notes || null
+    });
+
+    if (error) {
+      throw new Error(`Failed to sign off shift: ${error.message}`);
+    }
+  }
+};
@@ -15,6 +15,9 @@ const convertDatabaseClinicSetting = (dbSetting: DatabaseClinicSetting): ClinicS
   registrationNumber: dbSetting.registration_number,
   taxId: dbSetting.tax_id,
   consultationFee: dbSetting.consultation_fee,
+  consultationTaxExempt: dbSetting.consultation_tax_exempt ?? true,
+  consultationSacCode: dbSetting.consultation_sac_code,
+  consultationGstRate: dbSetting.consultation_gst_rate,
   followUpFee: dbSetting.follow_up_fee,
   emergencyFee: dbSetting.emergency_fee,
   appointmentDuration: dbSetting.appointment_duration,
@@ -30,7 +33,23 @@ const convertDatabaseClinicSetting = (dbSetting: DatabaseClinicSetting): ClinicS
   enableSimpleThankYou: dbSetting.enable_simple_thank_you,
   enableAiThankYou: dbSetting.enable_ai_thank_you,
   enableGmbLinkOnly: dbSetting.enable_gmb_link_only,
-  gmbLink: dbSetting.gmb_link
+  gmbLink: dbSetting.gmb_link,
+  onlineBookingEnabled: dbSetting.online_booking_enabled ?? false,
+  onlineBookingDays: dbSetting.online_booking_days ?? 14,
+  enableAutoAppointmentReminders: dbSetting.enable_auto_appointment_reminders ?? false,
+  enableAutoFollowUpReminders: dbSetting.enable_auto_follow_up_reminders ?? false,
+  followUpReminderDays: dbSetting.follow_up_reminder_days ?? 2,
+  enableAutoPaymentReminders: dbSetting.enable_auto_payment_reminders ?? false,
+  reminderSendStart: dbSetting.reminder_send_start || '09:00',
+  reminderSendEnd: dbSetting.reminder_send_end || '20:00',
+  reminderQuietStart: dbSetting.reminder_quiet_start,
+  reminderQuietEnd: dbSetting.reminder_quiet_end,
+  mrnPrefix: dbSetting.mrn_prefix ?? 'MRN',
+  mrnIncludeYear: dbSetting.mrn_include_year ?? true,
+  mrnSequencePadding: dbSetting.mrn_sequence_padding ?? 5,
+  backupAutoEnabled: dbSetting.backup_auto_enabled ?? false,
+  backupFrequency: dbSetting.backup_frequency ?? 'daily',
+  backupRetentionDays: dbSetting.backup_retention_days ?? 30
 });
 
 // Convert app clinic setting to database clinic setting type
@@ -44,6 +63,9 @@ const convertToDatabase = (setting: Omit<ClinicSetting, 'id' | 'createdAt' | 'up
   registration_number: setting.registrationNumber,
   tax_id: setting.taxId,
   consultation_fee: setting.consultationFee,
+  consultation_tax_exempt: setting.consultationTaxExempt,
+  consultation_sac_code: setting.consultationSacCode,
+  consultation_gst_rate: setting.consultationGstRate,
   follow_up_fee: setting.followUpFee,
   emergency_fee: setting.emergencyFee,
   appointment_duration: setting.appointmentDuration,
@@ -57,7 +79,23 @@ const convertToDatabase = (setting: Omit<ClinicSetting, 'id' | 'createdAt' | 'up
   enable_simple_thank_you: setting.enableSimpleThankYou,
   enable_ai_thank_you: setting.enableAiThankYou,
   enable_gmb_link_only: setting.enableGmbLinkOnly,
-  gmb_link: setting.gmbLink
+  gmb_link: setting.gmbLink,
+  online_booking_enabled: setting.onlineBookingEnabled,
+  online_booking_days: setting.onlineBookingDays,
+  enable_auto_appointment_reminders: setting.enableAutoAppointmentReminders,
+  enable_auto_follow_up_reminders: setting.enableAutoFollowUpReminders,
+  follow_up_reminder_days: setting.followUpReminderDays,
+  enable_auto_payment_reminders: setting.enableAutoPaymentReminders,
+  reminder_send_start: setting.reminderSendStart,
+  reminder_send_end: setting.reminderSendEnd,
+  reminder_quiet_start: setting.reminderQuietStart,
+  reminder_quiet_end: setting.reminderQuietEnd,
+  mrn_prefix: setting.mrnPrefix,
+  mrn_include_year: setting.mrnIncludeYear,
+  mrn_sequence_padding: setting.mrnSequencePadding,
+  backup_auto_enabled: setting.backupAutoEnabled,
+  backup_frequency: setting.backupFrequency,
+  backup_retention_days: setting.backupRetentionDays
 });
 
 export const clinicSettingsService = {
@@ -146,6 +184,9 @@ export const clinicSettingsService = {
     if (settings.registrationNumber !== undefined) dbSettings.registration_number = settings.registrationNumber;
     if (settings.taxId !== undefined) dbSettings.tax_id = settings.taxId;
     if (settings.consultationFee !== undefined) dbSettings.consultation_fee = settings.consultationFee;
+    if (settings.consultationTaxExempt !== undefined) dbSettings.consultation_tax_exempt = settings.consultationTaxExempt;
+    if (settings.consultationSacCode !== undefined) dbSettings.consultation_sac_code = settings.consultationSacCode;
+    if (settings.consultationGstRate !== undefined) dbSettings.consultation_gst_rate = settings.consultationGstRate;
     if (settings.followUpFee !== undefined) dbSettings.follow_up_fee = settings.followUpFee;
     if (settings.emergencyFee !== undefined) dbSettings.emergency_fee = settings.emergencyFee;
     if (settings.appointmentDuration !== undefined) dbSettings.appointment_duration = settings.appointmentDuration;
@@ -160,6 +201,22 @@ export const clinicSettingsService = {
     if (settings.enableAiThankYou !== undefined) dbSettings.enable_ai_thank_you = settings.enableAiThankYou;
     if (settings.enableGmbLinkOnly !== undefined) dbSettings.enable_gmb_link_only = settings.enableGmbLinkOnly;
     if (settings.gmbLink !== undefined) dbSettings.gmb_link = settings.gmbLink;
+    if (settings.onlineBookingEnabled !== undefined) dbSettings.online_booking_enabled = settings.onlineBookingEnabled;
+    if (settings.onlineBookingDays !== undefined) dbSettings.online_booking_days = settings.onlineBookingDays;
+    if (settings.enableAutoAppointmentReminders !== undefined) dbSettings.enable_auto_appointment_reminders = settings.enableAutoAppointmentReminders;
+    if (settings.enableAutoFollowUpReminders !== undefined) dbSettings.enable_auto_follow_up_reminders = settings.enableAutoFollowUpReminders;
+    if (settings.followUpReminderDays !== undefined) dbSettings.follow_up_reminder_days = settings.followUpReminderDays;
+    if (settings.enableAutoPaymentReminders !== undefined) dbSettings.enable_auto_payment_reminders = settings.enableAutoPaymentReminders;
+    if (settings.reminderSendStart !== undefined) dbSettings.reminder_send_start = settings.reminderSendStart;
+    if (settings.reminderSendEnd !== undefined) dbSettings.reminder_send_end = settings.reminderSendEnd;
+    if (settings.reminderQuietStart !== undefined) dbSettings.reminder_quiet_start = settings.reminderQuietStart || null;
+    if (settings.reminderQuietEnd !== undefined) dbSettings.reminder_quiet_end = settings.reminderQuietEnd || null;
+    if (settings.mrnPrefix !== undefined) dbSettings.mrn_prefix = settings.mrnPrefix;
+    if (settings.mrnIncludeYear !== undefined) dbSettings.mrn_include_year = settings.mrnIncludeYear;
+    if (settings.mrnSequencePadding !== undefined) dbSettings.mrn_sequence_padding = settings.mrnSequencePadding;
+    if (settings.backupAutoEnabled !== undefined) dbSettings.backup_auto_enabled = settings.backupAutoEnabled;
+    if (settings.backupFrequency !== undefined) dbSettings.backup_frequency = settings.backupFrequency;
+    if (settings.backupRetentionDays !== undefined) dbSettings.backup_retention_days = settings.backupRetentionDays;
 
     const { data, error } = await supabase
       .from('clinic_settings')
@@ -196,6 +253,9 @@ export const clinicSettingsService = {
         registrationNumber: '',
         taxId: '',
         consultationFee: 300,
+        consultationTaxExempt: true,
+        consultationSacCode: '999312',
+        consultationGstRate: 18,
         followUpFee: 200,
         emergencyFee: 500,
         appointmentDuration: 30,
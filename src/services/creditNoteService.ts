@@ -0,0 +1,312 @@
+import { supabase } from '../lib/supabase';
+import { CreditNote, CreditNoteItem, Profile } from '../types';
+import { getCurrentProfile, convertDatabaseProfile } from './profileService';
+import { billingService } from './billingService';
+import { paymentService } from './paymentService';
+import type { DatabaseCreditNote, DatabaseCreditNoteItem, DatabaseProfile } from '../lib/supabase';
+import { calculateLineTax, roundCurrency } from '../utils/gstCalculator';
+
+// Credit note row as selected with its items and issuing user
+type DatabaseCreditNoteWithItems = DatabaseCreditNote & {
+  credit_note_items: DatabaseCreditNoteItem[] | null;
+  profiles: DatabaseProfile | null;
+};
+
+// Convert database credit note item to app credit note item type
+const convertDatabaseCreditNoteItem = (dbItem: DatabaseCreditNoteItem): CreditNoteItem => ({
+  id: dbItem.id,
+  creditNoteId: dbItem.credit_note_id,
+  billItemId: dbItem.bill_item_id,
+  itemName: dbItem.item_name,
+  quantity: Number(dbItem.quantity),
+  unitPrice: Number(dbItem.unit_price),
+  discount: Number(dbItem.discount),
+  tax: Number(dbItem.tax),
+  hsnSacCode: dbItem.hsn_sac_code,
+  taxableValue: Number(dbItem.taxable_value),
+  cgstAmount: Number(dbItem.cgst_amount),
+  sgstAmount: Number(dbItem.sgst_amount),
+  igstAmount: Number(dbItem.igst_amount),
+  totalPrice: Number(dbItem.total_price),
+  createdAt: new Date(dbItem.created_at)
+});
+
+// Convert database credit note to app credit note type
+const convertDatabaseCreditNote = (
+  dbCreditNote: DatabaseCreditNote,
+  items: CreditNoteItem[] = [],
+  createdByProfile?: Profile
+): CreditNote => ({
+  id: dbCreditNote.id,
+  billId: dbCreditNote.bill_id,
+  creditNoteNumber: dbCreditNote.credit_note_number,
+  creditDate: new Date(dbCreditNote.credit_date),
+  reason: dbCreditNote.reason,
+  totalAmount: Number(dbCreditNote.total_amount),
+  createdBy: dbCreditNote.created_by,
+  createdByProfile,
+  createdAt: new Date(dbCreditNote.created_at),
+  items
+});
+
+export const creditNoteService = {
+  // Generate a unique credit note number
+  generateCreditNoteNumber(): string {
+    const now = new Date();
+    const year = now.getFullYear();
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const day = String(now.getDate()).padStart(2, '0');
+    const timestamp = now.getTime().toString().slice(-6); // Last 6 digits of timestamp
+
+    return `CN-${year}${month}${day}-${timestamp}`;
+  },
+
+  // Get all credit notes issued against a bill
+  async getBillCreditNotes(billId: string): Promise<CreditNote[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const { data: creditNotes, error } = await supabase
+        .from('credit_notes')
+        .select(`
+          *,
+          credit_note_items (*),
+          profiles:created_by (*)
+        `)
+        .eq('bill_id', billId)
+        .eq('clinic_id', profile.clinicId)
+        .order('credit_date', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch credit notes: ${error.message}`);
+      }
+
+      return (creditNotes as DatabaseCreditNoteWithItems[] | null)?.map((creditNote) => convertDatabaseCreditNote(
+        creditNote,
+        creditNote.credit_note_items?.map(convertDatabaseCreditNoteItem) || [],
+        creditNote.profiles ? convertDatabaseProfile(creditNote.profiles) : undefined
+      )) || [];
+    } catch (error) {
+      console.error('Error fetching bill credit notes:', error);
+      throw error;
+    }
+  },
+
+  // Get a single credit note with its bill
+  async getCreditNote(creditNoteId: string): Promise<CreditNote | null> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('credit_notes')
+        .select(`
+          *,
+          credit_note_items (*),
+          profiles:created_by (*)
+        `)
+        .eq('id', creditNoteId)
+        .eq('clinic_id', profile.clinicId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      const creditNote = data as DatabaseCreditNoteWithItems;
+
+      const bill = await billingService.getBillById(creditNote.bill_id, false);
+
+      return {
+        ...convertDatabaseCreditNote(
+          creditNote,
+          creditNote.credit_note_items?.map(convertDatabaseCreditNoteItem) || [],
+          creditNote.profiles ? convertDatabaseProfile(creditNote.profiles) : undefined
+        ),
+        bill: bill || undefined
+      };
+    } catch (error) {
+      console.error('Error fetching credit note:', error);
+      throw error;
+    }
+  },
+
+  // Issue a credit note against specific bill items, optionally refunding the
+  // credited value to the patient in the same step
+  async createCreditNote(request: {
+    billId: string;
+    reason: string;
+    items: { billItemId: string; quantity: number }[];
+    refund?: {
+      paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'net_banking' | 'wallet';
+      toDeposit?: boolean;
+      amount?: number;
+      notes?: string;
+    };
+  }): Promise<CreditNote> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    if (!request.reason.trim()) {
+      throw new Error('A reason is required for a credit note');
+    }
+
+    const requestedItems = request.items.filter(item => item.quantity > 0);
+    if (requestedItems.length === 0) {
+      throw new Error('Select at least one item to credit');
+    }
+
+    try {
+      const bill = await billingService.getBillById(request.billId, false);
+      if (!bill) {
+        throw new Error('Bill not found');
+      }
+
+      if (bill.paymentStatus === 'cancelled') {
+        throw new Error('Credit notes cannot be issued against a void bill');
+      }
+
+      const creditedQuantities = await this.getCreditedQuantities(request.billId);
+
+      const creditItems = requestedItems.map(requested => {
+        const billItem = bill.billItems.find(item => item.id === requested.billItemId);
+        if (!billItem) {
+          throw new Error('Credited item does not belong to this bill');
+        }
+
+        const remaining = billItem.quantity - (creditedQuantities.get(billItem.id) || 0);
+        if (requested.quantity > remaining) {
+          throw new Error(`Only ${remaining} of ${billItem.itemName} can still be credited`);
+        }
+
+        const lineTax = calculateLineTax({
+          quantity: requested.quantity,
+          unitPrice: billItem.unitPrice,
+          discount: billItem.discount,
+          taxRate: billItem.tax,
+          isInterState: bill.isInterState
+        });
+
+        return {
+          bill_item_id: billItem.id,
+          item_name: billItem.itemName,
+          quantity: requested.quantity,
+          unit_price: billItem.unitPrice,
+          discount: billItem.discount || 0,
+          tax: billItem.tax || 0,
+          hsn_sac_code: billItem.hsnSacCode,
+          taxable_value: lineTax.taxableValue,
+          cgst_amount: lineTax.cgstAmount,
+          sgst_amount: lineTax.sgstAmount,
+          igst_amount: lineTax.igstAmount,
+          total_price: lineTax.totalPrice,
+          clinic_id: profile.clinicId!
+        };
+      });
+
+      const totalAmount = roundCurrency(creditItems.reduce((sum, item) => sum + item.total_price, 0));
+
+      const { data: creditNote, error: creditNoteError } = await supabase
+        .from('credit_notes')
+        .insert({
+          bill_id: request.billId,
+          credit_note_number: this.generateCreditNoteNumber(),
+          credit_date: new Date().toISOString(),
+          reason: request.reason.trim(),
+          total_amount: totalAmount,
+          created_by: profile.id,
+          clinic_id: profile.clinicId
+        })
+        .select()
+        .single();
+
+      if (creditNoteError) {
+        throw new Error(`Failed to create credit note: ${creditNoteError.message}`);
+      }
+
+      const { data: insertedItems, error: itemsError } = await supabase
+        .from('credit_note_items')
+        .insert(creditItems.map(item => ({ ...item, credit_note_id: creditNote.id })))
+        .select();
+
+      if (itemsError) {
+        // Roll back the header so the bill's credited amount stays consistent
+        await supabase.from('credit_notes').delete().eq('id', creditNote.id);
+        throw new Error(`Failed to create credit note items: ${itemsError.message}`);
+      }
+
+      if (request.refund) {
+        try {
+          await paymentService.recordRefund({
+            billId: request.billId,
+            amount: request.refund.amount ?? totalAmount,
+            paymentMethod: request.refund.paymentMethod,
+            toDeposit: request.refund.toDeposit,
+            creditNoteId: creditNote.id,
+            notes: request.refund.notes || `Refund against credit note ${creditNote.credit_note_number}`
+          });
+        } catch (refundError) {
+          // Roll back the credit note (its items cascade) so a retry doesn't credit the bill twice
+          await supabase.from('credit_notes').delete().eq('id', creditNote.id);
+          throw refundError;
+        }
+      }
+
+      return {
+        ...convertDatabaseCreditNote(creditNote, insertedItems?.map(convertDatabaseCreditNoteItem) || []),
+        bill
+      };
+    } catch (error) {
+      console.error('Error creating credit note:', error);
+      throw error;
+    }
+  },
+
+  // Quantities already credited per bill item
+  async getCreditedQuantities(billId: string): Promise<Map<string, number>> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data: creditedItems, error } = await supabase
+      .from('credit_note_items')
+      .select('bill_item_id, quantity, credit_notes!inner (bill_id)')
+      .eq('credit_notes.bill_id', billId)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to fetch credited items: ${error.message}`);
+    }
+
+    const quantities = new Map<string, number>();
+    creditedItems?.forEach((item) => {
+      quantities.set(item.bill_item_id, (quantities.get(item.bill_item_id) || 0) + Number(item.quantity));
+    });
+
+    return quantities;
+  }
+};
@@ -1,9 +1,11 @@
 import { supabase } from '../lib/supabase';
-import { Profile } from '../types';
+import { Appointment, AvailabilityException, Profile } from '../types';
+import type { DatabaseAvailabilityException } from '../lib/supabase';
 import { authService } from './authService';
 import { clinicSettingsService } from './clinicSettingsService'; // Assuming this service is clinic-aware
 import { appointmentService } from './appointmentService';
 import { addMinutes, format, isSameDay, isAfter, isBefore, parseISO } from 'date-fns';
+import { describeException, findBlockingException, resolveDayHours } from '../utils/availabilityExceptions';
 
 export interface TimeSlot {
   start: Date;
@@ -22,6 +24,27 @@ export interface DoctorAvailability {
   };
 }
 
+// Already-loaded data for generateAvailableSlots; appointments should be the doctor's active bookings
+export interface SlotSource {
+  availability: DoctorAvailability;
+  appointments: Pick<Appointment, 'appointmentDate' | 'duration'>[];
+  exceptions: AvailabilityException[];
+}
+
+// Convert database availability exception to app availability exception type
+const convertDatabaseAvailabilityException = (dbException: DatabaseAvailabilityException): AvailabilityException => ({
+  id: dbException.id,
+  doctorId: dbException.doctor_id || undefined,
+  exceptionType: dbException.exception_type,
+  startDate: parseISO(dbException.start_date),
+  endDate: parseISO(dbException.end_date),
+  startTime: dbException.start_time,
+  endTime: dbException.end_time,
+  reason: dbException.reason,
+  createdBy: dbException.created_by,
+  createdAt: new Date(dbException.created_at)
+});
+
 export const doctorAvailabilityService = {
   // Get doctor's availability (fallback to clinic settings if not set)
   async getDoctorAvailability(doctorId: string): Promise<DoctorAvailability> {
@@ -36,12 +59,11 @@ export const doctorAvailabilityService = {
 
     try {
       // Get doctor's specific availability
-      const { data: profile, error } = await supabase
+      const { data: doctorProfile, error } = await supabase
         .from('profiles')
-        .eq('clinic_id', profile.clinicId)
-
         .select('doctor_availability, clinic_id')
         .eq('id', doctorId)
+        .eq('clinic_id', profile.clinicId)
         .single();
 
       if (error) {
@@ -49,8 +71,8 @@ export const doctorAvailabilityService = {
       }
 
       // If doctor has specific availability, use it
-      if (profile.doctor_availability) {
-        return profile.doctor_availability;
+      if (doctorProfile.doctor_availability) {
+        return doctorProfile.doctor_availability;
       }
 
       // Otherwise, fall back to clinic working hours
@@ -91,33 +113,48 @@ export const doctorAvailabilityService = {
     }
   },
 
-  // Generate available time slots for a doctor within a date range
+  // Generate available time slots for a doctor within a date range.
+  // Pass `source` when the availability, bookings and exceptions are already loaded
+  // (the public booking page gets them from the public-booking edge function, without a login).
   async generateAvailableSlots(
     doctorId: string, 
     startDate: Date, 
     endDate: Date,
-    appointmentDuration: number = 30
+    appointmentDuration: number = 30,
+    source?: SlotSource
   ): Promise<TimeSlot[]> {
     try {
-      // Get doctor's availability
-      const profile = await authService.getCurrentProfile();
-      if (!profile?.clinicId) {
-        throw new Error('User not assigned to a clinic.');
-      }
+      let availability: DoctorAvailability;
+      let doctorAppointments: SlotSource['appointments'];
+      let exceptions: AvailabilityException[];
+
+      if (source) {
+        ({ availability, appointments: doctorAppointments, exceptions } = source);
+      } else {
+        // Get doctor's availability
+        const profile = await authService.getCurrentProfile();
+        if (!profile?.clinicId) {
+          throw new Error('User not assigned to a clinic.');
+        }
 
-      const availability = await this.getDoctorAvailability(doctorId); // This already filters by clinic_id
+        availability = await this.getDoctorAvailability(doctorId); // This already filters by clinic_id
 
-      
-      // Get existing appointments for the doctor in the date range
-      const existingAppointments = await appointmentService.getAppointmentsByDateRange(startDate, endDate);
-      const doctorAppointments = existingAppointments.filter(apt => apt.doctorId === doctorId);
+        // Get existing appointments for the doctor in the date range
+        const existingAppointments = await appointmentService.getAppointmentsByDateRange(startDate, endDate);
+        doctorAppointments = existingAppointments.filter(apt =>
+          apt.doctorId === doctorId && apt.status !== 'Cancelled' && apt.status !== 'No_Show'
+        );
+
+        exceptions = await this.getExceptions(startDate, endDate, doctorId);
+      }
 
       const slots: TimeSlot[] = [];
       const currentDate = new Date(startDate);
 
       while (currentDate <= endDate) {
         const dayName = format(currentDate, 'EEEE').toLowerCase();
-        const dayAvailability = availability[dayName];
+        // Leave, holidays and one-off hours override the weekly template
+        const { hours: dayAvailability } = resolveDayHours(availability[dayName], exceptions, doctorId, currentDate);
 
         if (dayAvailability && dayAvailability.isOpen) {
           // Generate slots for this day
@@ -229,24 +266,257 @@ export const doctorAvailabilityService = {
     return slots;
   },
 
+  // Check if a doctor can take an appointment at a specific time, and why not.
+  // Appointments listed in excludeAppointmentIds (e.g. the ones being moved) are ignored.
+  async checkAvailability(
+    doctorId: string,
+    appointmentDate: Date,
+    duration: number,
+    excludeAppointmentIds: string[] = []
+  ): Promise<{ available: boolean; reason?: string }> {
+    const [result] = await this.checkAvailabilityForDates(doctorId, [appointmentDate], duration, excludeAppointmentIds);
+    return result;
+  },
+
+  // Same as checkAvailability for several times at once (e.g. the sessions of a
+  // series), loading the doctor's hours, exceptions and bookings a single time
+  async checkAvailabilityForDates(
+    doctorId: string,
+    appointmentDates: Date[],
+    duration: number,
+    excludeAppointmentIds: string[] = []
+  ): Promise<{ available: boolean; reason?: string }[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await authService.getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    if (appointmentDates.length === 0) {
+      return [];
+    }
+
+    const times = appointmentDates.map(date => date.getTime());
+    const rangeStart = new Date(Math.min(...times));
+    rangeStart.setHours(0, 0, 0, 0);
+    const rangeEnd = new Date(Math.max(...times));
+    rangeEnd.setHours(23, 59, 59, 999);
+
+    const [availability, exceptions, bookingsResult] = await Promise.all([
+      this.getDoctorAvailability(doctorId),
+      this.getExceptions(rangeStart, rangeEnd, doctorId),
+      supabase
+        .from('appointments')
+        .select('id, appointment_date, duration, patients (name)')
+        .eq('clinic_id', profile.clinicId)
+        .eq('doctor_id', doctorId)
+        .not('status', 'in', '("Cancelled","No_Show")')
+        .gte('appointment_date', rangeStart.toISOString())
+        .lte('appointment_date', rangeEnd.toISOString())
+        .returns<{ id: string; appointment_date: string; duration: number; patients: { name: string } | null }[]>()
+    ]);
+
+    if (bookingsResult.error) {
+      throw new Error(`Failed to fetch doctor appointments: ${bookingsResult.error.message}`);
+    }
+
+    const bookings = (bookingsResult.data || [])
+      .filter(booking => !excludeAppointmentIds.includes(booking.id))
+      .map(booking => ({
+        start: new Date(booking.appointment_date),
+        end: addMinutes(new Date(booking.appointment_date), booking.duration),
+        patientName: booking.patients?.name
+      }));
+
+    return appointmentDates.map(appointmentDate => {
+      const { hours: dayAvailability, exception } = resolveDayHours(
+        availability[format(appointmentDate, 'EEEE').toLowerCase()],
+        exceptions,
+        doctorId,
+        appointmentDate
+      );
+
+      if (!dayAvailability || !dayAvailability.isOpen) {
+        return {
+          available: false,
+          reason: exception ? describeException(exception) : `Not available on ${format(appointmentDate, 'EEEE')}`
+        };
+      }
+
+      const appointmentEnd = addMinutes(appointmentDate, duration);
+      const atTime = (time: string) => {
+        const [hour, minute] = time.split(':').map(Number);
+        const date = new Date(appointmentDate);
+        date.setHours(hour, minute, 0, 0);
+        return date;
+      };
+
+      if (isBefore(appointmentDate, atTime(dayAvailability.startTime)) || isAfter(appointmentEnd, atTime(dayAvailability.endTime))) {
+        return {
+          available: false,
+          reason: `Outside working hours (${dayAvailability.startTime} - ${dayAvailability.endTime})`
+        };
+      }
+
+      if (dayAvailability.breakStart && dayAvailability.breakEnd) {
+        const breakStart = atTime(dayAvailability.breakStart);
+        const breakEnd = atTime(dayAvailability.breakEnd);
+        if (appointmentDate < breakEnd && appointmentEnd > breakStart) {
+          return {
+            available: false,
+            reason: `During break (${dayAvailability.breakStart} - ${dayAvailability.breakEnd})`
+          };
+        }
+      }
+
+      const clash = bookings.find(booking => appointmentDate < booking.end && appointmentEnd > booking.start);
+      if (clash) {
+        return {
+          available: false,
+          reason: `Clashes with ${clash.patientName || 'another appointment'} at ${format(clash.start, 'h:mm a')}`
+        };
+      }
+
+      return { available: true };
+    });
+  },
+
   // Check if a doctor is available at a specific time
-  async isDoctorAvailable(doctorId: string, appointmentDate: Date, duration: number): Promise<boolean> {
+  async isDoctorAvailable(doctorId: string, appointmentDate: Date, duration: number, excludeAppointmentIds: string[] = []): Promise<boolean> {
     try {
-      const endDate = addMinutes(appointmentDate, duration);
-      const slots = await this.generateAvailableSlots(doctorId, appointmentDate, endDate);
-      
-      // Check if there's an available slot that covers the entire appointment duration
-      return slots.some(slot => 
-        slot.available && 
-        slot.start <= appointmentDate && 
-        slot.end >= endDate
-      );
+      const result = await this.checkAvailability(doctorId, appointmentDate, duration, excludeAppointmentIds);
+      return result.available;
     } catch (error) {
       console.error('Error checking doctor availability:', error);
       return false;
     }
   },
 
+  // Get leave, custom hours and clinic holidays overlapping a date range.
+  // With a doctorId, only that doctor's exceptions and clinic-wide holidays are returned.
+  async getExceptions(fromDate: Date, toDate: Date, doctorId?: string): Promise<AvailabilityException[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await authService.getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    let query = supabase
+      .from('availability_exceptions')
+      .select('*')
+      .eq('clinic_id', profile.clinicId)
+      .lte('start_date', format(toDate, 'yyyy-MM-dd'))
+      .gte('end_date', format(fromDate, 'yyyy-MM-dd'))
+      .order('start_date');
+
+    if (doctorId) {
+      query = query.or(`doctor_id.is.null,doctor_id.eq.${doctorId}`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch availability exceptions: ${error.message}`);
+    }
+
+    return data?.map(convertDatabaseAvailabilityException) || [];
+  },
+
+  // Block dates for leave or a holiday, or set one-off hours
+  async addException(exception: Omit<AvailabilityException, 'id' | 'createdBy' | 'createdAt'>): Promise<AvailabilityException> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await authService.getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    if (exception.endDate < exception.startDate) {
+      throw new Error('End date cannot be before start date');
+    }
+
+    if (exception.exceptionType === 'custom_hours' &&
+      (!exception.startTime || !exception.endTime || exception.startTime >= exception.endTime)) {
+      throw new Error('Enter valid working hours for the custom day');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('availability_exceptions')
+        .insert({
+          doctor_id: exception.exceptionType === 'holiday' ? null : exception.doctorId,
+          exception_type: exception.exceptionType,
+          start_date: format(exception.startDate, 'yyyy-MM-dd'),
+          end_date: format(exception.endDate, 'yyyy-MM-dd'),
+          start_time: exception.exceptionType === 'custom_hours' ? exception.startTime : undefined,
+          end_time: exception.exceptionType === 'custom_hours' ? exception.endTime : undefined,
+          reason: exception.reason,
+          created_by: profile.id,
+          clinic_id: profile.clinicId
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save availability exception: ${error.message}`);
+      }
+
+      return convertDatabaseAvailabilityException(data);
+    } catch (error) {
+      console.error('Error adding availability exception:', error);
+      throw error;
+    }
+  },
+
+  // Remove an availability exception
+  async deleteException(exceptionId: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await authService.getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase
+      .from('availability_exceptions')
+      .delete()
+      .eq('id', exceptionId)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to delete availability exception: ${error.message}`);
+    }
+  },
+
+  // Booked appointments that fall into a blocked period and need rescheduling
+  getAppointmentsNeedingReschedule(
+    appointments: Appointment[],
+    exceptions: AvailabilityException[]
+  ): Map<string, AvailabilityException> {
+    const flagged = new Map<string, AvailabilityException>();
+
+    appointments.forEach(appointment => {
+      if (appointment.status !== 'Scheduled' && appointment.status !== 'Confirmed') return;
+
+      const exception = findBlockingException(exceptions, appointment.doctorId, appointment.appointmentDate, appointment.duration);
+      if (exception) {
+        flagged.set(appointment.id, exception);
+      }
+    });
+
+    return flagged;
+  },
+
   // Get all doctors who are open for consultation
   async getConsultationDoctors(): Promise<Profile[]> {
     const profile = await authService.getCurrentProfile();
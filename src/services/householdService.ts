@@ -0,0 +1,318 @@
+import { supabase } from '../lib/supabase';
+import type { DatabaseHousehold, DatabasePatient } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { Household, HouseholdDues, HouseholdRelationship, Patient } from '../types';
+import { roundCurrency } from '../utils/gstCalculator';
+
+const MEMBER_COLUMNS = 'id, name, phone, mrn, age, gender, address, emergency_contact, blood_group, allergies, referred_by, created_at, last_visit, household_id, household_relationship';
+
+// Convert database patient row to a household member
+const convertDatabaseMember = (dbPatient: DatabasePatient): Patient => ({
+  ...dbPatient,
+  createdAt: new Date(dbPatient.created_at),
+  lastVisit: dbPatient.last_visit ? new Date(dbPatient.last_visit) : undefined
+});
+
+// Convert database household to app household type; the head is listed first
+const convertDatabaseHousehold = (dbHousehold: DatabaseHousehold, dbMembers: DatabasePatient[]): Household => ({
+  id: dbHousehold.id,
+  name: dbHousehold.name,
+  headPatientId: dbHousehold.head_patient_id,
+  primaryPhone: dbHousehold.primary_phone,
+  members: dbMembers
+    .map(convertDatabaseMember)
+    .sort((a, b) => Number(b.id === dbHousehold.head_patient_id) - Number(a.id === dbHousehold.head_patient_id) || b.age - a.age),
+  createdAt: new Date(dbHousehold.created_at),
+  updatedAt: new Date(dbHousehold.updated_at)
+});
+
+export const householdService = {
+  // Households and unlinked patients already registered with a phone number
+  async findByPhone(phone: string): Promise<{ households: Household[]; unlinkedPatients: Patient[] }> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data: patients, error } = await supabase
+      .from('patients')
+      .select(MEMBER_COLUMNS)
+      .eq('clinic_id', profile.clinicId)
+      .eq('phone', phone.trim())
+      .is('merged_into_id', null);
+
+    if (error) {
+      throw new Error(`Failed to look up phone number: ${error.message}`);
+    }
+
+    const householdIds = Array.from(new Set(patients.map(patient => patient.household_id).filter(Boolean))) as string[];
+    const households = await Promise.all(householdIds.map(id => this.getHousehold(id)));
+
+    return {
+      households: households.filter((household): household is Household => household !== null),
+      unlinkedPatients: patients.filter(patient => !patient.household_id).map(patient => convertDatabaseMember(patient as DatabasePatient))
+    };
+  },
+
+  // Get a household with all of its members
+  async getHousehold(householdId: string): Promise<Household | null> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const [householdResult, membersResult] = await Promise.all([
+      supabase
+        .from('households')
+        .select('*')
+        .eq('id', householdId)
+        .eq('clinic_id', profile.clinicId)
+        .maybeSingle(),
+      supabase
+        .from('patients')
+        .select(MEMBER_COLUMNS)
+        .eq('household_id', householdId)
+        .eq('clinic_id', profile.clinicId)
+        .is('merged_into_id', null)
+    ]);
+
+    if (householdResult.error) {
+      throw new Error(`Failed to fetch household: ${householdResult.error.message}`);
+    }
+    if (membersResult.error) {
+      throw new Error(`Failed to fetch household members: ${membersResult.error.message}`);
+    }
+
+    return householdResult.data
+      ? convertDatabaseHousehold(householdResult.data, membersResult.data as DatabasePatient[])
+      : null;
+  },
+
+  // Get the household a patient belongs to, if any
+  async getPatientHousehold(patientId: string): Promise<Household | null> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { data, error } = await supabase
+      .from('patients')
+      .select('household_id')
+      .eq('id', patientId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch patient household: ${error.message}`);
+    }
+
+    return data?.household_id ? this.getHousehold(data.household_id) : null;
+  },
+
+  // Start a household with an existing patient as its head
+  async createHousehold(headPatient: Pick<Patient, 'id' | 'phone'>, name: string): Promise<Household> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('households')
+      .insert({
+        clinic_id: profile.clinicId,
+        name: name.trim(),
+        head_patient_id: headPatient.id,
+        primary_phone: headPatient.phone
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create household: ${error.message}`);
+    }
+
+    await this.addMember(data.id, headPatient.id, 'self');
+
+    const household = await this.getHousehold(data.id);
+    if (!household) {
+      throw new Error('Failed to create household: household not found after saving');
+    }
+    return household;
+  },
+
+  // Rename a household
+  async renameHousehold(householdId: string, name: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase
+      .from('households')
+      .update({ name: name.trim(), updated_at: new Date().toISOString() })
+      .eq('id', householdId)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to rename household: ${error.message}`);
+    }
+  },
+
+  // Add a patient to a household, or change their relationship to the head
+  async addMember(householdId: string, patientId: string, relationship: HouseholdRelationship): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase
+      .from('patients')
+      .update({ household_id: householdId, household_relationship: relationship })
+      .eq('id', patientId)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to add household member: ${error.message}`);
+    }
+  },
+
+  // Take a patient out of their household; removing the head leaves the household without one
+  async removeMember(household: Household, patientId: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase
+      .from('patients')
+      .update({ household_id: null, household_relationship: null })
+      .eq('id', patientId)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to remove household member: ${error.message}`);
+    }
+
+    if (household.headPatientId === patientId) {
+      const { error: headError } = await supabase
+        .from('households')
+        .update({ head_patient_id: null, updated_at: new Date().toISOString() })
+        .eq('id', household.id)
+        .eq('clinic_id', profile.clinicId);
+
+      if (headError) {
+        throw new Error(`Failed to update household head: ${headError.message}`);
+      }
+    }
+  },
+
+  // Make another member the head. Relationships are relative to the head, so the
+  // previous head becomes 'other' until someone sets the right relationship.
+  async setHead(household: Household, patientId: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const newHead = household.members.find(member => member.id === patientId);
+    if (!newHead) {
+      throw new Error('The new head must already be a member of the household');
+    }
+
+    const { error } = await supabase
+      .from('households')
+      .update({ head_patient_id: patientId, primary_phone: newHead.phone, updated_at: new Date().toISOString() })
+      .eq('id', household.id)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to change household head: ${error.message}`);
+    }
+
+    if (household.headPatientId && household.headPatientId !== patientId) {
+      await this.addMember(household.id, household.headPatientId, 'other');
+    }
+    await this.addMember(household.id, patientId, 'self');
+  },
+
+  // Outstanding bills of every household member, for collecting dues in one go
+  async getHouseholdDues(household: Household): Promise<HouseholdDues> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const memberIds = household.members.map(member => member.id);
+    if (memberIds.length === 0) {
+      return { householdId: household.id, members: [], totalOutstanding: 0 };
+    }
+
+    const { data: bills, error } = await supabase
+      .from('bills')
+      .select('id, patient_id, bill_number, bill_date, balance_amount')
+      .in('patient_id', memberIds)
+      .eq('clinic_id', profile.clinicId)
+      .neq('status', 'cancelled')
+      .gt('balance_amount', 0)
+      .order('bill_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch household dues: ${error.message}`);
+    }
+
+    const members = household.members.map(member => {
+      const memberBills = bills
+        .filter(bill => bill.patient_id === member.id)
+        .map(bill => ({
+          id: bill.id,
+          billNumber: bill.bill_number,
+          billDate: new Date(bill.bill_date),
+          balance: Number(bill.balance_amount)
+        }));
+
+      return {
+        patientId: member.id,
+        patientName: member.name,
+        relationship: member.household_relationship,
+        outstanding: roundCurrency(memberBills.reduce((sum, bill) => sum + bill.balance, 0)),
+        bills: memberBills
+      };
+    });
+
+    return {
+      householdId: household.id,
+      members,
+      totalOutstanding: roundCurrency(members.reduce((sum, member) => sum + member.outstanding, 0))
+    };
+  }
+};
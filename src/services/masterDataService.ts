@@ -1,7 +1,8 @@
 import { supabase } from '../lib/supabase';
-import { MedicineMaster, TestMaster, MedicineWithPrice, TestWithPrice, ClinicMedicinePrice, ClinicTestPrice } from '../types';
+import { MedicineMaster, TestMaster, MedicineWithPrice, TestWithPrice, ClinicMedicinePrice, ClinicTestPrice, DrugSafetyRule } from '../types';
 import { getCurrentProfile } from './profileService';
-import type { DatabaseMedicineMaster, DatabaseTestMaster, DatabaseClinicMedicinePrice, DatabaseClinicTestPrice } from '../lib/supabase';
+import type { DatabaseMedicineMaster, DatabaseTestMaster, DatabaseClinicMedicinePrice, DatabaseClinicTestPrice, DatabaseDrugSafetyRule } from '../lib/supabase';
+import { isNetworkError, loadSnapshot, saveSnapshot } from '../lib/offlineStore';
 
 // Convert database medicine master to app medicine master type
 const convertDatabaseMedicineMaster = (dbMedicine: DatabaseMedicineMaster): MedicineMaster => ({
@@ -20,6 +21,9 @@ const convertDatabaseMedicineMaster = (dbMedicine: DatabaseMedicineMaster): Medi
   reorderLevel: dbMedicine.reorder_level,
   batchNumber: dbMedicine.batch_number,
   expiryDate: dbMedicine.expiry_date ? new Date(dbMedicine.expiry_date) : undefined,
+  hsnCode: dbMedicine.hsn_code,
+  gstRate: dbMedicine.gst_rate ?? 0,
+  dosingRule: dbMedicine.dosing_rule || undefined,
   isActive: dbMedicine.is_active,
   createdAt: new Date(dbMedicine.created_at),
   updatedAt: new Date(dbMedicine.updated_at)
@@ -33,8 +37,11 @@ const convertDatabaseTestMaster = (dbTest: DatabaseTestMaster): TestMaster => ({
   type: dbTest.type,
   normalRange: dbTest.normal_range,
   units: dbTest.units,
+  analytes: dbTest.analytes || [],
   description: dbTest.description,
   preparationInstructions: dbTest.preparation_instructions,
+  sacCode: dbTest.sac_code,
+  gstRate: dbTest.gst_rate ?? 0,
   isActive: dbTest.is_active,
   createdAt: new Date(dbTest.created_at),
   updatedAt: new Date(dbTest.updated_at)
@@ -56,6 +63,9 @@ const convertMedicineToDatabase = (medicine: Omit<MedicineMaster, 'id' | 'create
   reorder_level: medicine.reorderLevel,
   batch_number: medicine.batchNumber,
   expiry_date: medicine.expiryDate?.toISOString(),
+  hsn_code: medicine.hsnCode,
+  gst_rate: medicine.gstRate ?? 0,
+  dosing_rule: medicine.dosingRule || null,
   is_active: medicine.isActive
 });
 
@@ -66,11 +76,28 @@ const convertTestToDatabase = (test: Omit<TestMaster, 'id' | 'createdAt' | 'upda
   type: test.type,
   normal_range: test.normalRange,
   units: test.units,
+  analytes: test.analytes || [],
   description: test.description,
   preparation_instructions: test.preparationInstructions,
+  sac_code: test.sacCode,
+  gst_rate: test.gstRate ?? 0,
   is_active: test.isActive
 });
 
+// Convert database drug safety rule to app drug safety rule type
+const convertDatabaseDrugSafetyRule = (dbRule: DatabaseDrugSafetyRule): DrugSafetyRule => ({
+  id: dbRule.id,
+  ruleType: dbRule.rule_type,
+  name: dbRule.name,
+  drugTerms: dbRule.drug_terms || [],
+  otherTerms: dbRule.other_terms || [],
+  severity: dbRule.severity,
+  message: dbRule.message,
+  isActive: dbRule.is_active,
+  createdAt: new Date(dbRule.created_at),
+  updatedAt: new Date(dbRule.updated_at)
+});
+
 export const masterDataService = {
   // Medicine Master Methods
   async getMedicines(clinicId?: string): Promise<MedicineWithPrice[]> {
@@ -97,12 +124,17 @@ export const masterDataService = {
       .order('name');
 
     const { data, error } = await query;
+    const snapshotKey = `medicines:${profile.clinicId}`;
 
     if (error) {
+      if (isNetworkError(error)) {
+        const cachedMedicines = await loadSnapshot<MedicineWithPrice[]>(snapshotKey);
+        if (cachedMedicines) return cachedMedicines;
+      }
       throw new Error('Failed to fetch medicines');
     }
 
-    return data.map(medicine => {
+    const medicines = data.map(medicine => {
       const baseMedicine = convertDatabaseMedicineMaster(medicine);
       const priceData = medicine.clinic_medicine_prices?.[0];
       
@@ -112,6 +144,9 @@ export const masterDataService = {
         costPrice: priceData?.cost_price
       };
     });
+
+    await saveSnapshot(snapshotKey, medicines);
+    return medicines;
   },
 
   async searchMedicines(query: string): Promise<MedicineMaster[]> {
@@ -260,6 +295,9 @@ export const masterDataService = {
     if (medicine.reorderLevel !== undefined) dbMedicine.reorder_level = medicine.reorderLevel;
     if (medicine.batchNumber !== undefined) dbMedicine.batch_number = medicine.batchNumber;
     if (medicine.expiryDate !== undefined) dbMedicine.expiry_date = medicine.expiryDate?.toISOString();
+    if (medicine.hsnCode !== undefined) dbMedicine.hsn_code = medicine.hsnCode;
+    if (medicine.gstRate !== undefined) dbMedicine.gst_rate = medicine.gstRate;
+    if ('dosingRule' in medicine) dbMedicine.dosing_rule = medicine.dosingRule || null; // Passing undefined clears the rule
 
     const { data, error } = await supabase
       .from('medicines_master')
@@ -304,12 +342,17 @@ export const masterDataService = {
     }
 
     const { data, error } = await query;
+    const snapshotKey = `tests:${profile.clinicId}:${options?.type || 'all'}`;
 
     if (error) {
+      if (isNetworkError(error)) {
+        const cachedTests = await loadSnapshot<TestWithPrice[]>(snapshotKey);
+        if (cachedTests) return cachedTests;
+      }
       throw new Error('Failed to fetch tests');
     }
 
-    return data.map(test => {
+    const tests = data.map(test => {
       const baseTest = convertDatabaseTestMaster(test);
       const priceData = test.clinic_test_prices?.[0];
       
@@ -319,6 +362,9 @@ export const masterDataService = {
         cost: priceData?.cost
       };
     });
+
+    await saveSnapshot(snapshotKey, tests);
+    return tests;
   },
 
   async searchTests(query: string): Promise<TestMaster[]> {
@@ -478,8 +524,11 @@ export const masterDataService = {
     if (test.type) dbTest.type = test.type;
     if (test.normalRange !== undefined) dbTest.normal_range = test.normalRange;
     if (test.units !== undefined) dbTest.units = test.units;
+    if (test.analytes !== undefined) dbTest.analytes = test.analytes;
     if (test.description !== undefined) dbTest.description = test.description;
     if (test.preparationInstructions !== undefined) dbTest.preparation_instructions = test.preparationInstructions;
+    if (test.sacCode !== undefined) dbTest.sac_code = test.sacCode;
+    if (test.gstRate !== undefined) dbTest.gst_rate = test.gstRate;
     if (test.isActive !== undefined) dbTest.is_active = test.isActive;
 
     const { data, error } = await supabase
@@ -653,6 +702,124 @@ export const masterDataService = {
     };
   },
 
+  // Drug Safety Rule Methods
+  async getDrugSafetyRules(options?: { activeOnly?: boolean }): Promise<DrugSafetyRule[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    let query = supabase
+      .from('drug_safety_rules')
+      .select('*')
+      .eq('clinic_id', profile.clinicId)
+      .order('name');
+
+    if (options?.activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch drug safety rules: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseDrugSafetyRule);
+  },
+
+  async addDrugSafetyRule(rule: Omit<DrugSafetyRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<DrugSafetyRule> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('drug_safety_rules')
+      .insert([{
+        clinic_id: profile.clinicId,
+        rule_type: rule.ruleType,
+        name: rule.name,
+        drug_terms: rule.drugTerms,
+        other_terms: rule.ruleType === 'duplicate_class' ? [] : rule.otherTerms,
+        severity: rule.severity,
+        message: rule.message,
+        is_active: rule.isActive
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add drug safety rule: ${error.message}`);
+    }
+
+    return convertDatabaseDrugSafetyRule(data);
+  },
+
+  async updateDrugSafetyRule(id: string, rule: Partial<Omit<DrugSafetyRule, 'id' | 'createdAt' | 'updatedAt'>>): Promise<DrugSafetyRule> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const dbRule: Partial<DatabaseDrugSafetyRule> = { updated_at: new Date().toISOString() };
+
+    if (rule.ruleType) dbRule.rule_type = rule.ruleType;
+    if (rule.name) dbRule.name = rule.name;
+    if (rule.drugTerms) dbRule.drug_terms = rule.drugTerms;
+    if (rule.otherTerms) dbRule.other_terms = rule.ruleType === 'duplicate_class' ? [] : rule.otherTerms;
+    if (rule.severity) dbRule.severity = rule.severity;
+    if (rule.message !== undefined) dbRule.message = rule.message;
+    if (rule.isActive !== undefined) dbRule.is_active = rule.isActive;
+
+    const { data, error } = await supabase
+      .from('drug_safety_rules')
+      .update(dbRule)
+      .eq('id', id)
+      .eq('clinic_id', profile.clinicId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update drug safety rule: ${error.message}`);
+    }
+
+    return convertDatabaseDrugSafetyRule(data);
+  },
+
+  async deleteDrugSafetyRule(id: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase
+      .from('drug_safety_rules')
+      .delete()
+      .eq('id', id)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to delete drug safety rule: ${error.message}`);
+    }
+  },
+
   // Utility methods
   async getMedicineCategories(): Promise<string[]> {
     if (!supabase) {
@@ -1,4 +1,4 @@
-import { Patient, Visit, Prescription, AnalyticsData } from '../types';
+import { Patient, Visit, Prescription } from '../types';
 
 export const mockPatients: Patient[] = [
   {
@@ -104,31 +104,3 @@ export const mockVisits: Visit[] = [
     doctorNotes: 'Mild URTI. Should resolve with symptomatic treatment.'
   }
 ];
-
-export const mockAnalytics: AnalyticsData = {
-  totalPatients: 156,
-  todayVisits: 12,
-  totalVisits: 324,
-  topDiagnoses: [
-    { name: 'Viral fever', count: 45 },
-    { name: 'Hypertension', count: 32 },
-    { name: 'Diabetes', count: 28 },
-    { name: 'URTI', count: 25 },
-    { name: 'Gastritis', count: 22 }
-  ],
-  topMedicines: [
-    { name: 'Paracetamol', count: 67 },
-    { name: 'Amlodipine', count: 34 },
-    { name: 'Metformin', count: 29 },
-    { name: 'Cetirizine', count: 26 },
-    { name: 'Omeprazole', count: 23 }
-  ],
-  monthlyVisits: [
-    { month: 'Jul', visits: 45 },
-    { month: 'Aug', visits: 52 },
-    { month: 'Sep', visits: 48 },
-    { month: 'Oct', visits: 61 },
-    { month: 'Nov', visits: 58 },
-    { month: 'Dec', visits: 60 }
-  ]
-};
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { parseISO } from 'date-fns';
+import { AvailabilityException } from '../types';
+import type { DatabaseAvailabilityException } from '../lib/supabase';
+import { DoctorAvailability, SlotSource } from './doctorAvailabilityService';
+
+// The public booking page has no login, so everything goes through the
+// public-booking edge function with the anon key instead of the clinic-scoped services.
+
+export interface BookingClinic {
+  id: string;
+  clinicName: string;
+  address: string;
+  phone: string;
+  logoUrl?: string;
+  appointmentDuration: number;
+  bookingDays: number;
+}
+
+export interface BookingDoctor {
+  id: string;
+  name: string;
+  specialization?: string;
+  qualification?: string;
+  availability: DoctorAvailability;
+}
+
+export interface OnlineBookingRequest {
+  phone: string;
+  otp: string;
+  name: string; // Matched with the phone number to find the patient
+  age?: number;
+  gender?: 'male' | 'female' | 'other';
+  doctorId: string;
+  appointmentDate: Date;
+  notes?: string;
+}
+
+// Convert database availability exception to app availability exception type
+const convertDatabaseAvailabilityException = (dbException: DatabaseAvailabilityException): AvailabilityException => ({
+  id: dbException.id,
+  doctorId: dbException.doctor_id || undefined,
+  exceptionType: dbException.exception_type,
+  startDate: parseISO(dbException.start_date),
+  endDate: parseISO(dbException.end_date),
+  startTime: dbException.start_time,
+  endTime: dbException.end_time,
+  reason: dbException.reason,
+  createdAt: new Date(dbException.created_at)
+});
+
+const callBookingFunction = async <T>(clinicId: string, action: string, payload: Record<string, unknown> = {}): Promise<T> => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/public-booking`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+    },
+    body: JSON.stringify({ action, clinicId, ...payload })
+  });
+
+  const result = await response.json();
+  if (!response.ok || result.error) {
+    throw new Error(result.details || result.error || response.statusText || 'Request failed');
+  }
+
+  return result as T;
+};
+
+export const onlineBookingService = {
+  // Get the clinic's public details and bookable doctors
+  async getClinic(clinicId: string): Promise<{ clinic: BookingClinic; doctors: BookingDoctor[] }> {
+    try {
+      return await callBookingFunction(clinicId, 'clinic');
+    } catch (error) {
+      console.error('Error loading clinic for online booking:', error);
+      throw error;
+    }
+  },
+
+  // Get what generateAvailableSlots needs for a doctor, without patient details
+  async getSchedule(clinicId: string, doctor: BookingDoctor, from: Date, to: Date): Promise<SlotSource> {
+    try {
+      const result = await callBookingFunction<{
+        appointments: { appointmentDate: string; duration: number }[];
+        exceptions: DatabaseAvailabilityException[];
+      }>(clinicId, 'schedule', { doctorId: doctor.id, from: from.toISOString(), to: to.toISOString() });
+
+      return {
+        availability: doctor.availability,
+        appointments: result.appointments.map(appointment => ({
+          appointmentDate: new Date(appointment.appointmentDate),
+          duration: appointment.duration
+        })),
+        exceptions: result.exceptions.map(convertDatabaseAvailabilityException)
+      };
+    } catch (error) {
+      console.error('Error loading doctor schedule:', error);
+      throw error;
+    }
+  },
+
+  // Send a one-time code to the patient's phone. demoCode is only returned on test
+  // setups that show the code on screen (PUBLIC_BOOKING_SHOW_OTP).
+  async requestOtp(clinicId: string, phone: string): Promise<{ sentVia: 'whatsapp' | 'none'; demoCode?: string }> {
+    try {
+      return await callBookingFunction(clinicId, 'request_otp', { phone });
+    } catch (error) {
+      console.error('Error requesting booking code:', error);
+      throw error;
+    }
+  },
+
+  // Book the slot; it appears on the clinic calendar as an unconfirmed appointment
+  async book(clinicId: string, request: OnlineBookingRequest): Promise<{ appointmentId: string; appointmentDate: Date }> {
+    try {
+      const result = await callBookingFunction<{ appointmentId: string; appointmentDate: string }>(clinicId, 'book', {
+        ...request,
+        appointmentDate: request.appointmentDate.toISOString()
+      });
+
+      return { appointmentId: result.appointmentId, appointmentDate: new Date(result.appointmentDate) };
+    } catch (error) {
+      console.error('Error booking appointment online:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,419 @@
+import { supabase } from '../lib/supabase';
+import { PatientDeposit, PatientLedgerEntry, PatientOutstandingSummary, PatientStatement, PaymentRecord, Profile } from '../types';
+import { getCurrentProfile, convertDatabaseProfile } from './profileService';
+import { billingService } from './billingService';
+import { paymentService } from './paymentService';
+import type { DatabasePatientDeposit, DatabaseProfile } from '../lib/supabase';
+import { roundCurrency } from '../utils/gstCalculator';
+import { getDaysPastDue } from '../utils/receivables';
+
+// Convert database patient deposit to app patient deposit type
+const convertDatabasePatientDeposit = (dbDeposit: DatabasePatientDeposit, receivedByProfile?: Profile): PatientDeposit => ({
+  id: dbDeposit.id,
+  patientId: dbDeposit.patient_id,
+  amount: Number(dbDeposit.amount),
+  paymentMethod: dbDeposit.payment_method,
+  reference: dbDeposit.reference,
+  notes: dbDeposit.notes,
+  depositDate: new Date(dbDeposit.deposit_date),
+  receivedBy: dbDeposit.received_by,
+  receivedByProfile,
+  createdAt: new Date(dbDeposit.created_at)
+});
+
+export const patientAccountService = {
+  // Record an advance deposit against a patient, optionally applying it to
+  // their open bills straight away
+  async recordDeposit(deposit: {
+    patientId: string;
+    amount: number;
+    paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'net_banking';
+    reference?: string;
+    notes?: string;
+    depositDate?: Date;
+    autoApply?: boolean;
+  }): Promise<PatientDeposit> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    if (deposit.amount <= 0) {
+      throw new Error('Deposit amount must be greater than zero');
+    }
+
+    try {
+      const { data: patientDeposit, error } = await supabase
+        .from('patient_deposits')
+        .insert({
+          patient_id: deposit.patientId,
+          amount: deposit.amount,
+          payment_method: deposit.paymentMethod,
+          reference: deposit.reference,
+          notes: deposit.notes,
+          deposit_date: deposit.depositDate?.toISOString() || new Date().toISOString(),
+          received_by: profile.id,
+          clinic_id: profile.clinicId
+        })
+        .select(`
+          *,
+          profiles:received_by (*)
+        `)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to record deposit: ${error.message}`);
+      }
+
+      if (deposit.autoApply) {
+        await this.autoApplyDeposits(deposit.patientId);
+      }
+
+      return convertDatabasePatientDeposit(patientDeposit, patientDeposit.profiles);
+    } catch (error) {
+      console.error('Error recording deposit:', error);
+      throw error;
+    }
+  },
+
+  // Get all deposits received from a patient
+  async getPatientDeposits(patientId: string): Promise<PatientDeposit[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const { data: deposits, error } = await supabase
+        .from('patient_deposits')
+        .select(`
+          *,
+          profiles:received_by (*)
+        `)
+        .eq('patient_id', patientId)
+        .eq('clinic_id', profile.clinicId)
+        .order('deposit_date', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch deposits: ${error.message}`);
+      }
+
+      return (deposits as (DatabasePatientDeposit & { profiles: DatabaseProfile | null })[] | null)?.map(deposit =>
+        convertDatabasePatientDeposit(deposit, deposit.profiles ? convertDatabaseProfile(deposit.profiles) : undefined)
+      ) || [];
+    } catch (error) {
+      console.error('Error fetching patient deposits:', error);
+      throw error;
+    }
+  },
+
+  // Unapplied deposit balance: deposits less everything paid from them
+  async getDepositBalance(patientId: string): Promise<number> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const [depositsResult, appliedResult] = await Promise.all([
+        supabase
+          .from('patient_deposits')
+          .select('amount')
+          .eq('patient_id', patientId)
+          .eq('clinic_id', profile.clinicId),
+        supabase
+          .from('payment_records')
+          .select('amount, bills!inner (patient_id)')
+          .eq('bills.patient_id', patientId)
+          .eq('paid_from_deposit', true)
+          .eq('clinic_id', profile.clinicId)
+      ]);
+
+      if (depositsResult.error) {
+        throw new Error(`Failed to fetch deposits: ${depositsResult.error.message}`);
+      }
+      if (appliedResult.error) {
+        throw new Error(`Failed to fetch applied deposits: ${appliedResult.error.message}`);
+      }
+
+      const deposited = depositsResult.data?.reduce((sum, deposit) => sum + Number(deposit.amount), 0) || 0;
+      const applied = appliedResult.data?.reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
+
+      return roundCurrency(deposited - applied);
+    } catch (error) {
+      console.error('Error fetching deposit balance:', error);
+      throw error;
+    }
+  },
+
+  // Pay part of a bill from the patient's deposit balance. The balance is checked
+  // in the database under a per-patient lock, so two desks can't spend it twice.
+  async allocateDeposit(patientId: string, billId: string, amount: number): Promise<PaymentRecord> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    if (amount <= 0) {
+      throw new Error('Allocation amount must be greater than zero');
+    }
+
+    const { data: paymentId, error } = await supabase.rpc('apply_patient_deposit', {
+      p_patient_id: patientId,
+      p_bill_id: billId,
+      p_amount: roundCurrency(amount)
+    });
+
+    if (error) {
+      throw new Error(`Failed to apply deposit: ${error.message}`);
+    }
+
+    return paymentService.getPayment(paymentId);
+  },
+
+  // Apply the deposit balance to the patient's open bills, oldest first
+  async autoApplyDeposits(patientId: string): Promise<PaymentRecord[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    if (await this.getDepositBalance(patientId) <= 0) {
+      return [];
+    }
+
+    const pendingBills = await billingService.getPendingBills(patientId);
+    const allocations: PaymentRecord[] = [];
+
+    for (const bill of pendingBills) {
+      // Without an amount the database applies as much as the balance and the bill allow
+      const { data: paymentId, error } = await supabase.rpc('apply_patient_deposit', {
+        p_patient_id: patientId,
+        p_bill_id: bill.id
+      });
+
+      if (error) {
+        throw new Error(`Failed to apply deposit to bill ${bill.billNumber}: ${error.message}`);
+      }
+      if (!paymentId) continue;
+
+      allocations.push(await paymentService.getPayment(paymentId));
+    }
+
+    return allocations;
+  },
+
+  // Running account statement for a patient between two dates. Deposits and
+  // counter payments are credits; bills are debits. Payments settled from the
+  // deposit are transfers within the account and do not appear.
+  async getStatement(patientId: string, fromDate: Date, toDate: Date): Promise<PatientStatement> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const { data: bills, error: billsError } = await supabase
+        .from('bills')
+        .select('id, bill_number, bill_date, total_amount, credited_amount, voided_at, void_reason')
+        .eq('patient_id', patientId)
+        .eq('clinic_id', profile.clinicId);
+
+      if (billsError) {
+        throw new Error(`Failed to fetch bills: ${billsError.message}`);
+      }
+
+      const billIds = bills?.map(bill => bill.id) || [];
+      const billNumbers = new Map(bills?.map(bill => [bill.id, bill.bill_number]) || []);
+
+      const [paymentsResult, creditNotesResult, deposits, depositBalance] = await Promise.all([
+        billIds.length > 0
+          ? supabase
+              .from('payment_records')
+              .select('id, bill_id, amount, payment_method, payment_date, is_refund, paid_from_deposit')
+              .in('bill_id', billIds)
+              .eq('clinic_id', profile.clinicId)
+          : Promise.resolve({ data: [], error: null }),
+        billIds.length > 0
+          ? supabase
+              .from('credit_notes')
+              .select('id, bill_id, credit_note_number, credit_date, total_amount, reason')
+              .in('bill_id', billIds)
+              .eq('clinic_id', profile.clinicId)
+          : Promise.resolve({ data: [], error: null }),
+        this.getPatientDeposits(patientId),
+        this.getDepositBalance(patientId)
+      ]);
+
+      if (paymentsResult.error) {
+        throw new Error(`Failed to fetch payments: ${paymentsResult.error.message}`);
+      }
+      if (creditNotesResult.error) {
+        throw new Error(`Failed to fetch credit notes: ${creditNotesResult.error.message}`);
+      }
+
+      const entries: Omit<PatientLedgerEntry, 'balance'>[] = [];
+
+      bills?.forEach(bill => {
+        entries.push({
+          id: `bill-${bill.id}`,
+          date: new Date(bill.bill_date),
+          type: 'charge',
+          description: 'Bill',
+          reference: bill.bill_number,
+          debit: Number(bill.total_amount),
+          credit: 0
+        });
+
+        if (bill.voided_at) {
+          entries.push({
+            id: `void-${bill.id}`,
+            date: new Date(bill.voided_at),
+            type: 'void',
+            description: bill.void_reason ? `Bill voided: ${bill.void_reason}` : 'Bill voided',
+            reference: bill.bill_number,
+            debit: 0,
+            credit: roundCurrency(Number(bill.total_amount) - Number(bill.credited_amount || 0))
+          });
+        }
+      });
+
+      paymentsResult.data?.forEach((payment) => {
+        if (payment.paid_from_deposit) return;
+
+        const amount = Number(payment.amount);
+        entries.push({
+          id: `payment-${payment.id}`,
+          date: new Date(payment.payment_date),
+          type: payment.is_refund ? 'refund' : 'payment',
+          description: `${payment.is_refund ? 'Refund' : 'Payment'} (${payment.payment_method})`,
+          reference: billNumbers.get(payment.bill_id),
+          debit: payment.is_refund ? -amount : 0,
+          credit: payment.is_refund ? 0 : amount
+        });
+      });
+
+      creditNotesResult.data?.forEach((creditNote) => {
+        entries.push({
+          id: `credit-note-${creditNote.id}`,
+          date: new Date(creditNote.credit_date),
+          type: 'credit_note',
+          description: `Credit note: ${creditNote.reason}`,
+          reference: creditNote.credit_note_number,
+          debit: 0,
+          credit: Number(creditNote.total_amount)
+        });
+      });
+
+      deposits.forEach(deposit => {
+        entries.push({
+          id: `deposit-${deposit.id}`,
+          date: deposit.depositDate,
+          type: 'deposit',
+          description: `Advance deposit (${deposit.paymentMethod})`,
+          reference: deposit.reference,
+          debit: 0,
+          credit: deposit.amount
+        });
+      });
+
+      entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      const periodStart = new Date(fromDate);
+      periodStart.setHours(0, 0, 0, 0);
+      const periodEnd = new Date(toDate);
+      periodEnd.setHours(23, 59, 59, 999);
+
+      const openingBalance = roundCurrency(
+        entries
+          .filter(entry => entry.date < periodStart)
+          .reduce((sum, entry) => sum + entry.debit - entry.credit, 0)
+      );
+
+      let runningBalance = openingBalance;
+      const periodEntries: PatientLedgerEntry[] = entries
+        .filter(entry => entry.date >= periodStart && entry.date <= periodEnd)
+        .map(entry => {
+          runningBalance = roundCurrency(runningBalance + entry.debit - entry.credit);
+          return { ...entry, balance: runningBalance };
+        });
+
+      return {
+        patientId,
+        fromDate: periodStart,
+        toDate: periodEnd,
+        openingBalance,
+        entries: periodEntries,
+        totalDebits: roundCurrency(periodEntries.reduce((sum, entry) => sum + entry.debit, 0)),
+        totalCredits: roundCurrency(periodEntries.reduce((sum, entry) => sum + entry.credit, 0)),
+        closingBalance: runningBalance,
+        depositBalance
+      };
+    } catch (error) {
+      console.error('Error building patient statement:', error);
+      throw error;
+    }
+  },
+
+  // Balance owing on the patient's open bills, how much of it is overdue and how old the oldest is
+  async getOutstandingSummary(patientId: string): Promise<PatientOutstandingSummary> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const [billsResult, depositBalance] = await Promise.all([
+        supabase
+          .from('bills')
+          .select('bill_date, due_date, balance_amount, status')
+          .eq('patient_id', patientId)
+          .eq('clinic_id', profile.clinicId)
+          .in('status', ['pending', 'partial', 'overdue'])
+          .is('voided_at', null)
+          .gt('balance_amount', 0),
+        this.getDepositBalance(patientId)
+      ]);
+
+      if (billsResult.error) {
+        throw new Error(`Failed to fetch open bills: ${billsResult.error.message}`);
+      }
+
+      const openBills = billsResult.data || [];
+      const overdueBills = openBills.filter(bill => bill.status === 'overdue');
+
+      return {
+        outstandingAmount: roundCurrency(openBills.reduce((sum, bill) => sum + Number(bill.balance_amount), 0)),
+        overdueAmount: roundCurrency(overdueBills.reduce((sum, bill) => sum + Number(bill.balance_amount), 0)),
+        openBillCount: openBills.length,
+        overdueBillCount: overdueBills.length,
+        oldestDaysPastDue: openBills.reduce((oldest, bill) => Math.max(oldest, getDaysPastDue({
+          billDate: new Date(bill.bill_date),
+          dueDate: bill.due_date ? new Date(bill.due_date) : undefined
+        })), 0),
+        depositBalance
+      };
+    } catch (error) {
+      console.error('Error fetching outstanding summary:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,196 @@
+import { supabase } from '../lib/supabase';
+import type { DatabasePatientImport } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { PatientImport, PatientImportRowError } from '../types';
+import { ImportPatientData } from '../utils/patientImport';
+
+export interface ImportBatchRow {
+  rowNumber: number;
+  data: ImportPatientData;
+}
+
+// Convert database import run to app PatientImport type
+const convertDatabaseImport = (dbImport: DatabasePatientImport & {
+  imported_by_profile?: { name: string } | null;
+}): PatientImport => ({
+  id: dbImport.id,
+  fileName: dbImport.file_name,
+  totalRows: dbImport.total_rows,
+  importedCount: dbImport.imported_count,
+  skippedCount: dbImport.skipped_count,
+  failedCount: dbImport.failed_count,
+  errors: dbImport.errors || [],
+  status: dbImport.status,
+  importedByName: dbImport.imported_by_profile?.name,
+  createdAt: new Date(dbImport.created_at),
+  completedAt: dbImport.completed_at ? new Date(dbImport.completed_at) : undefined,
+  rolledBackAt: dbImport.rolled_back_at ? new Date(dbImport.rolled_back_at) : undefined
+});
+
+export const patientImportService = {
+  // Open an import run; every patient saved by the run is tagged with its id so it can be rolled back
+  async startImport(fileName: string, totalRows: number): Promise<string> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('patient_imports')
+      .insert({
+        clinic_id: profile.clinicId,
+        file_name: fileName,
+        total_rows: totalRows,
+        imported_count: 0,
+        skipped_count: 0,
+        failed_count: 0,
+        errors: [],
+        status: 'in_progress',
+        imported_by: profile.id
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to start import: ${error.message}`);
+    }
+
+    return data.id;
+  },
+
+  // Save one batch of validated rows. If the batch insert fails, the rows are retried one at a
+  // time so a single bad row doesn't take the rest of the batch down with it.
+  async importBatch(importId: string, rows: ImportBatchRow[]): Promise<{ imported: number; errors: PatientImportRowError[] }> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const toInsert = (row: ImportBatchRow) => ({
+      name: row.data.name,
+      phone: row.data.phone,
+      age: row.data.age,
+      gender: row.data.gender,
+      address: row.data.address,
+      emergency_contact: row.data.emergency_contact || '',
+      blood_group: row.data.blood_group,
+      allergies: row.data.allergies,
+      referred_by: row.data.referred_by,
+      clinic_id: profile.clinicId,
+      import_id: importId
+    });
+
+    const { error } = await supabase
+      .from('patients')
+      .insert(rows.map(toInsert));
+
+    if (!error) {
+      return { imported: rows.length, errors: [] };
+    }
+
+    let imported = 0;
+    const errors: PatientImportRowError[] = [];
+
+    for (const row of rows) {
+      const { error: rowError } = await supabase
+        .from('patients')
+        .insert(toInsert(row));
+
+      if (rowError) {
+        errors.push({ row: row.rowNumber, message: rowError.message });
+      } else {
+        imported++;
+      }
+    }
+
+    return { imported, errors };
+  },
+
+  // Record the outcome of an import run
+  async finishImport(importId: string, summary: {
+    importedCount: number;
+    skippedCount: number;
+    errors: PatientImportRowError[];
+  }): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase
+      .from('patient_imports')
+      .update({
+        imported_count: summary.importedCount,
+        skipped_count: summary.skippedCount,
+        failed_count: summary.errors.length,
+        errors: summary.errors,
+        status: 'completed',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', importId)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to save import summary: ${error.message}`);
+    }
+  },
+
+  // Get the clinic's import runs, newest first
+  async getImports(): Promise<PatientImport[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('patient_imports')
+      .select(`
+        *,
+        imported_by_profile:profiles!patient_imports_imported_by_fkey (name)
+      `)
+      .eq('clinic_id', profile.clinicId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch import history: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseImport);
+  },
+
+  // Delete every patient an import run created; refused once any of them has visits, bills or appointments
+  async rollbackImport(importId: string): Promise<number> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase.rpc('rollback_patient_import', { p_import_id: importId });
+
+    if (error) {
+      throw new Error(`Failed to roll back import: ${error.message}`);
+    }
+
+    return data as number;
+  }
+};
@@ -0,0 +1,163 @@
+import { supabase } from '../lib/supabase';
+import type { DatabasePatientMerge } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { Patient, PatientMerge, DuplicatePatientCandidate } from '../types';
+import { findDuplicateCandidates, DEFAULT_DUPLICATE_THRESHOLD } from '../utils/patientMatching';
+
+// Tables whose rows follow a patient through a merge, with the label shown before merging
+export const MERGED_RECORD_TABLES: { table: string; label: string }[] = [
+  { table: 'visits', label: 'Visits' },
+  { table: 'bills', label: 'Bills' },
+  { table: 'appointments', label: 'Appointments' },
+  { table: 'appointment_series', label: 'Recurring series' },
+  { table: 'patient_deposits', label: 'Deposits' },
+  { table: 'sent_messages_log', label: 'Messages & review requests' }
+];
+
+// Convert database merge log row to app PatientMerge type
+const convertDatabaseMerge = (dbMerge: DatabasePatientMerge & {
+  survivor?: { name: string } | null;
+  merged_patient?: { name: string; phone: string } | null;
+  merged_by_profile?: { name: string } | null;
+}): PatientMerge => ({
+  id: dbMerge.id,
+  survivorId: dbMerge.survivor_id,
+  mergedPatientId: dbMerge.merged_patient_id,
+  survivorName: dbMerge.survivor?.name,
+  mergedPatientName: dbMerge.merged_patient?.name,
+  mergedPatientPhone: dbMerge.merged_patient?.phone,
+  movedRecords: dbMerge.moved_records || {},
+  mergedBy: dbMerge.merged_by,
+  mergedByName: dbMerge.merged_by_profile?.name,
+  mergedAt: new Date(dbMerge.merged_at),
+  undoneAt: dbMerge.undone_at ? new Date(dbMerge.undone_at) : undefined
+});
+
+export const patientMergeService = {
+  // Score the clinic's active patients and return likely duplicate pairs
+  async findDuplicates(threshold: number = DEFAULT_DUPLICATE_THRESHOLD): Promise<DuplicatePatientCandidate[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('patients')
+      .select('id, name, phone, age, gender, address, emergency_contact, blood_group, allergies, created_at, last_visit, is_provisional')
+      .eq('clinic_id', profile.clinicId)
+      .is('merged_into_id', null);
+
+    if (error) {
+      throw new Error(`Failed to fetch patients: ${error.message}`);
+    }
+
+    const patients: Patient[] = (data || []).map(row => ({
+      ...row,
+      createdAt: new Date(row.created_at),
+      lastVisit: row.last_visit ? new Date(row.last_visit) : undefined
+    }));
+
+    return findDuplicateCandidates(patients, threshold);
+  },
+
+  // Count the records attached to a patient, per table, so a merge can be previewed
+  async getRecordCounts(patientId: string): Promise<Record<string, number>> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const counts: Record<string, number> = {};
+    await Promise.all(MERGED_RECORD_TABLES.map(async ({ table }) => {
+      const { count, error } = await supabase!
+        .from(table as 'visits')
+        .select('id', { count: 'exact', head: true })
+        .eq('patient_id', patientId);
+
+      if (error) {
+        throw new Error(`Failed to count ${table.replace(/_/g, ' ')}: ${error.message}`);
+      }
+      counts[table] = count || 0;
+    }));
+
+    return counts;
+  },
+
+  // Fold the duplicate into the survivor; returns the merge log id
+  async mergePatients(survivorId: string, mergedPatientId: string): Promise<string> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data: mergeId, error } = await supabase.rpc('merge_patients', {
+      p_survivor_id: survivorId,
+      p_merged_patient_id: mergedPatientId
+    });
+
+    if (error) {
+      throw new Error(`Failed to merge patients: ${error.message}`);
+    }
+
+    return mergeId as string;
+  },
+
+  // Get the clinic's merge history, newest first
+  async getMergeLog(): Promise<PatientMerge[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('patient_merges')
+      .select(`
+        *,
+        survivor:patients!patient_merges_survivor_id_fkey (name),
+        merged_patient:patients!patient_merges_merged_patient_id_fkey (name, phone),
+        merged_by_profile:profiles!patient_merges_merged_by_fkey (name)
+      `)
+      .eq('clinic_id', profile.clinicId)
+      .order('merged_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch merge history: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseMerge);
+  },
+
+  // Move the recorded rows back to the duplicate and restore it to the patient list
+  async undoMerge(mergeId: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase.rpc('undo_patient_merge', { p_merge_id: mergeId });
+
+    if (error) {
+      throw new Error(`Failed to undo merge: ${error.message}`);
+    }
+  }
+};
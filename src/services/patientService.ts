@@ -1,12 +1,30 @@
 import { supabase } from '../lib/supabase';
 import { getCurrentProfile } from './profileService';
 import { Patient } from '../types';
+import { isNetworkError, loadSnapshot, saveSnapshot, queueMutation } from '../lib/offlineStore';
 
 // Check if Supabase is available
 const isSupabaseAvailable = (): boolean => {
   return supabase !== null && supabase !== undefined;
 };
 
+const patientsSnapshotKey = (clinicId: string) => `patients:${clinicId}`;
+
+// Queue a registration made while offline and add it to the cached list so it can be found straight away
+const queueOfflinePatient = async (
+  patient: Omit<Patient, 'id' | 'createdAt' | 'lastVisit'>,
+  clinicId: string,
+  profileId: string
+): Promise<Patient> => {
+  const offlineId = await queueMutation({ type: 'add_patient', payload: patient }, { clinicId, createdBy: profileId });
+  const offlinePatient: Patient = { ...patient, id: offlineId, createdAt: new Date() };
+
+  const cachedPatients = await loadSnapshot<Patient[]>(patientsSnapshotKey(clinicId));
+  await saveSnapshot(patientsSnapshotKey(clinicId), [offlinePatient, ...(cachedPatients || [])]);
+
+  return offlinePatient;
+};
+
 export const patientService = {
   // Check if patient exists by phone number
   async checkIfPatientExistsByPhone(phone: string): Promise<boolean> {
@@ -25,6 +43,7 @@ export const patientService = {
         .select('id')
         .eq('phone', phone)
         .eq('clinic_id', profile.clinicId)
+        .is('merged_into_id', null)
         .limit(1);
 
       if (error) {
@@ -46,6 +65,54 @@ export const patientService = {
     }
   },
 
+  // Bulk version of checkIfPatientExistsByPhone for imports: names already registered against each phone
+  async findPatientNamesByPhones(phones: string[]): Promise<Map<string, string[]>> {
+    if (!isSupabaseAvailable()) {
+      throw new Error('Supabase client not available. Please check your configuration.');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const namesByPhone = new Map<string, string[]>();
+    const uniquePhones = Array.from(new Set(phones));
+
+    try {
+      // Chunked so the phone list stays within URL length limits
+      for (let i = 0; i < uniquePhones.length; i += 200) {
+        const { data, error } = await supabase!
+          .from('patients')
+          .select('name, phone')
+          .in('phone', uniquePhones.slice(i, i + 200))
+          .eq('clinic_id', profile.clinicId)
+          .is('merged_into_id', null);
+
+        if (error) {
+          throw new Error(`Failed to check phone numbers: ${error.message}`);
+        }
+
+        data.forEach(patient => {
+          namesByPhone.set(patient.phone, [...(namesByPhone.get(patient.phone) || []), patient.name]);
+        });
+      }
+
+      return namesByPhone;
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error checking phone numbers:', error);
+      }
+      if (error instanceof Error) {
+        if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
+          throw new Error('Network error: Please check your internet connection and try again.');
+        }
+        throw error;
+      }
+      throw new Error('Failed to check phone numbers');
+    }
+  },
+
   // Get all patients
   async getPatients(): Promise<Patient[]> {
     if (!isSupabaseAvailable()) {
@@ -62,6 +129,7 @@ export const patientService = {
         .from('patients')
         .select('*')
         .eq('clinic_id', profile.clinicId)
+        .is('merged_into_id', null)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -71,11 +139,16 @@ export const patientService = {
         throw new Error(`Failed to fetch patients: ${error.message}`);
       }
 
+      await saveSnapshot(patientsSnapshotKey(profile.clinicId), data || []);
       return data || [];
     } catch (error) {
       if (import.meta.env.DEV) {
         console.error('Error fetching patients:', error);
       }
+      if (isNetworkError(error)) {
+        const cachedPatients = await loadSnapshot<Patient[]>(patientsSnapshotKey(profile.clinicId));
+        if (cachedPatients) return cachedPatients;
+      }
       if (error instanceof Error) {
         if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
           throw new Error('Network error: Please check your internet connection and try again.');
@@ -100,7 +173,7 @@ export const patientService = {
     try {
       const { data, error } = await supabase!
         .from('patients')
-        .select('id, name, phone, age, gender, address, emergency_contact, blood_group, allergies, referred_by, created_at, last_visit')
+        .select('id, name, phone, mrn, age, gender, address, emergency_contact, blood_group, allergies, referred_by, created_at, last_visit, household_id, household_relationship')
         .eq('id', id)
         .eq('clinic_id', profile.clinicId)
         .single();
@@ -117,6 +190,11 @@ export const patientService = {
       if (import.meta.env.DEV) {
         console.error('Error fetching patient:', error);
       }
+      if (isNetworkError(error)) {
+        const cachedPatients = await loadSnapshot<Patient[]>(patientsSnapshotKey(profile.clinicId));
+        const cachedPatient = cachedPatients?.find(patient => patient.id === id);
+        if (cachedPatient) return cachedPatient;
+      }
       if (error instanceof Error) {
         if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
           throw new Error('Network error: Please check your internet connection and try again.');
@@ -127,8 +205,64 @@ export const patientService = {
     }
   },
 
-  // Add new patient
-  async addPatient(patient: Omit<Patient, 'id' | 'createdAt' | 'lastVisit'>): Promise<Patient> {
+  // Get patient by MRN, e.g. when a patient ID card is scanned at reception
+  async getPatientByMrn(mrn: string): Promise<Patient | null> {
+    if (!isSupabaseAvailable()) {
+      throw new Error('Supabase client not available. Please check your configuration.');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const { data, error } = await supabase!
+        .from('patients')
+        .select('id, name, phone, mrn, age, gender, address, emergency_contact, blood_group, allergies, referred_by, created_at, last_visit, household_id, household_relationship, merged_into_id')
+        .eq('clinic_id', profile.clinicId)
+        .ilike('mrn', mrn.trim())
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch patient: ${error.message}`);
+      }
+
+      // Cards of a merged duplicate still open the surviving record
+      if (data?.merged_into_id) {
+        return this.getPatientById(data.merged_into_id);
+      }
+
+      return data ? {
+        ...data,
+        createdAt: new Date(data.created_at),
+        lastVisit: data.last_visit ? new Date(data.last_visit) : undefined
+      } : null;
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching patient by MRN:', error);
+      }
+      if (isNetworkError(error)) {
+        const cachedPatients = await loadSnapshot<Patient[]>(patientsSnapshotKey(profile.clinicId));
+        const cachedPatient = cachedPatients?.find(patient => patient.mrn?.toUpperCase() === mrn.trim().toUpperCase());
+        if (cachedPatient) return cachedPatient;
+      }
+      if (error instanceof Error) {
+        if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
+          throw new Error('Network error: Please check your internet connection and try again.');
+        }
+        throw error;
+      }
+      throw new Error('Failed to fetch patient');
+    }
+  },
+
+  // Add new patient; the database assigns the MRN on insert. While offline the registration is queued
+  // and a patient with a temporary id and no MRN is returned
+  async addPatient(
+    patient: Omit<Patient, 'id' | 'createdAt' | 'lastVisit'>,
+    options: { queueWhenOffline?: boolean } = {}
+  ): Promise<Patient> {
     if (!isSupabaseAvailable()) {
       throw new Error('Supabase client not available. Please check your configuration.');
     }
@@ -157,6 +291,9 @@ export const patientService = {
       if (import.meta.env.DEV) {
         console.error('Error adding patient:', error);
       }
+      if (options.queueWhenOffline !== false && isNetworkError(error)) {
+        return queueOfflinePatient(patient, profile.clinicId, profile.id);
+      }
       if (error instanceof Error) {
         if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
           throw new Error('Network error: Please check your internet connection and try again.');
@@ -241,7 +378,7 @@ export const patientService = {
     }
   },
 
-  // Search patients by name or phone
+  // Search patients by name, phone or MRN
   async searchPatients(query: string): Promise<Patient[]> {
     if (!isSupabaseAvailable()) {
       throw new Error('Supabase client not available. Please check your configuration.');
@@ -255,9 +392,10 @@ export const patientService = {
     try {
       const { data, error } = await supabase!
         .from('patients')
-        .select('id, name, phone, age, gender, address, emergency_contact, blood_group, allergies, referred_by, created_at, last_visit')
+        .select('id, name, phone, mrn, age, gender, address, emergency_contact, blood_group, allergies, referred_by, created_at, last_visit, household_id, household_relationship')
         .eq('clinic_id', profile.clinicId)
-        .or(`name.ilike.%${query}%,phone.ilike.%${query}%`)
+        .is('merged_into_id', null)
+        .or(`name.ilike.%${query}%,phone.ilike.%${query}%,mrn.ilike.%${query}%`)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -1,7 +1,8 @@
 import { supabase } from '../lib/supabase';
-import { PaymentRecord, DailyPaymentSummary, Profile } from '../types';
+import { PaymentRecord, DailyPaymentSummary, Profile, RecordPaymentInput } from '../types';
 import { getCurrentProfile } from './profileService';
 import type { DatabasePaymentRecord } from '../lib/supabaseClient';
+import { isNetworkError, queueMutation } from '../lib/offlineStore';
 
 // Convert database payment record to app payment record type
 const convertDatabasePaymentRecord = (dbPayment: DatabasePaymentRecord, receivedByProfile?: Profile): PaymentRecord => ({
@@ -16,21 +17,42 @@ const convertDatabasePaymentRecord = (dbPayment: DatabasePaymentRecord, received
   notes: dbPayment.notes,
   receivedBy: dbPayment.received_by,
   receivedByProfile,
+  isRefund: dbPayment.is_refund || false,
+  refundOfPaymentId: dbPayment.refund_of_payment_id,
+  creditNoteId: dbPayment.credit_note_id,
+  paidFromDeposit: dbPayment.paid_from_deposit || false,
   createdAt: new Date(dbPayment.created_at)
 });
 
+// Queue a payment taken while offline; the bill balance is checked again when it syncs
+const queueOfflinePayment = async (payment: RecordPaymentInput, clinicId: string, profileId: string): Promise<PaymentRecord> => {
+  // Keep the time the money was taken rather than the time it syncs
+  const queuedPayment = { ...payment, paymentDate: payment.paymentDate || new Date() };
+  const offlineId = await queueMutation({ type: 'record_payment', payload: queuedPayment }, { clinicId, createdBy: profileId });
+  return {
+    id: offlineId,
+    billId: payment.billId,
+    paymentDate: queuedPayment.paymentDate,
+    paymentMethod: payment.paymentMethod,
+    amount: payment.amount,
+    cardReference: payment.cardReference,
+    chequeNumber: payment.chequeNumber,
+    bankName: payment.bankName,
+    notes: payment.notes,
+    receivedBy: profileId,
+    isRefund: false,
+    paidFromDeposit: payment.paidFromDeposit || false,
+    createdAt: new Date()
+  };
+};
+
 export const paymentService = {
-  // Record a payment
-  async recordPayment(payment: {
-    billId: string;
-    amount: number;
-    paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'net_banking' | 'wallet';
-    cardReference?: string;
-    chequeNumber?: string;
-    bankName?: string;
-    notes?: string;
-    paymentDate?: Date;
-  }): Promise<PaymentRecord> {
+  // Record a payment; while offline it is queued and a record with a temporary id is returned
+  // receivedBy and clientReference are set when replaying a payment queued offline
+  async recordPayment(
+    payment: RecordPaymentInput,
+    options: { queueWhenOffline?: boolean; receivedBy?: string; clientReference?: string } = {}
+  ): Promise<PaymentRecord> {
     if (!supabase) {
       throw new Error('Supabase client not initialized');
     }
@@ -52,7 +74,9 @@ export const paymentService = {
           cheque_number: payment.chequeNumber,
           bank_name: payment.bankName,
           notes: payment.notes,
-          received_by: profile.id,
+          received_by: options.receivedBy || profile.id,
+          paid_from_deposit: payment.paidFromDeposit || false,
+          client_reference: options.clientReference,
           clinic_id: profile.clinicId
         })
         .select(`
@@ -62,16 +86,64 @@ export const paymentService = {
         .single();
 
       if (error) {
+        // Already saved by an earlier replay whose response never arrived
+        if (error.code === '23505' && options.clientReference && error.message.includes('client_reference')) {
+          const { data: existing, error: existingError } = await supabase
+            .from('payment_records')
+            .select(`
+              *,
+              profiles:received_by (*)
+            `)
+            .eq('clinic_id', profile.clinicId)
+            .eq('client_reference', options.clientReference)
+            .single();
+
+          if (existingError) {
+            throw new Error(`Failed to fetch recorded payment: ${existingError.message}`);
+          }
+          return convertDatabasePaymentRecord(existing, existing.profiles);
+        }
         throw new Error(`Failed to record payment: ${error.message}`);
       }
 
       return convertDatabasePaymentRecord(paymentRecord, paymentRecord.profiles);
     } catch (error) {
+      if (options.queueWhenOffline !== false && isNetworkError(error)) {
+        return queueOfflinePayment(payment, profile.clinicId, profile.id);
+      }
       console.error('Error recording payment:', error);
       throw error;
     }
   },
 
+  // Get a single payment record
+  async getPayment(paymentId: string): Promise<PaymentRecord> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data: paymentRecord, error } = await supabase
+      .from('payment_records')
+      .select(`
+        *,
+        profiles:received_by (*)
+      `)
+      .eq('id', paymentId)
+      .eq('clinic_id', profile.clinicId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch payment: ${error.message}`);
+    }
+
+    return convertDatabasePaymentRecord(paymentRecord, paymentRecord.profiles);
+  },
+
   // Get payment records for a bill
   async getBillPayments(billId: string): Promise<PaymentRecord[]> {
     if (!supabase) {
@@ -105,8 +177,22 @@ export const paymentService = {
     }
   },
 
-  // Delete a payment record
-  async deletePayment(paymentId: string): Promise<void> {
+  // Record a refund against a bill. Refunds are stored as negative payment
+  // records so collected money is never erased from the audit trail.
+  async recordRefund(refund: {
+    billId: string;
+    amount: number;
+    paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'net_banking' | 'wallet';
+    refundOfPaymentId?: string;
+    creditNoteId?: string;
+    // Return the money to the patient's deposit balance instead of paying it out
+    toDeposit?: boolean;
+    cardReference?: string;
+    chequeNumber?: string;
+    bankName?: string;
+    notes?: string;
+    paymentDate?: Date;
+  }): Promise<PaymentRecord> {
     if (!supabase) {
       throw new Error('Supabase client not initialized');
     }
@@ -116,18 +202,68 @@ export const paymentService = {
       throw new Error('User not assigned to a clinic.');
     }
 
+    if (refund.amount <= 0) {
+      throw new Error('Refund amount must be greater than zero');
+    }
+
     try {
-      const { error } = await supabase
+      // A bill can never be refunded more than was collected on it
+      const { data: existingPayments, error: fetchError } = await supabase
         .from('payment_records')
-        .delete()
-        .eq('id', paymentId)
+        .select('amount, paid_from_deposit')
+        .eq('bill_id', refund.billId)
         .eq('clinic_id', profile.clinicId);
 
+      if (fetchError) {
+        throw new Error(`Failed to fetch bill payments: ${fetchError.message}`);
+      }
+
+      const netPaid = existingPayments?.reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
+      if (refund.amount > netPaid + 0.005) {
+        throw new Error(`Refund of ₹${refund.amount.toFixed(2)} exceeds the net amount paid (₹${netPaid.toFixed(2)})`);
+      }
+
+      // Only what was settled from the deposit can go back to it
+      if (refund.toDeposit) {
+        const netFromDeposit = existingPayments
+          ?.filter(payment => payment.paid_from_deposit)
+          .reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
+        if (refund.amount > netFromDeposit + 0.005) {
+          throw new Error(`Only ₹${netFromDeposit.toFixed(2)} of this bill was paid from the patient's deposit`);
+        }
+      }
+
+      const { data: paymentRecord, error } = await supabase
+        .from('payment_records')
+        .insert({
+          bill_id: refund.billId,
+          amount: -refund.amount,
+          payment_method: refund.paymentMethod,
+          payment_date: refund.paymentDate?.toISOString() || new Date().toISOString(),
+          card_reference: refund.cardReference,
+          cheque_number: refund.chequeNumber,
+          bank_name: refund.bankName,
+          notes: refund.notes,
+          received_by: profile.id,
+          is_refund: true,
+          paid_from_deposit: refund.toDeposit || false,
+          refund_of_payment_id: refund.refundOfPaymentId,
+          credit_note_id: refund.creditNoteId,
+          clinic_id: profile.clinicId
+        })
+        .select(`
+          *,
+          profiles:received_by (*)
+        `)
+        .single();
+
       if (error) {
-        throw new Error(`Failed to delete payment: ${error.message}`);
+        throw new Error(`Failed to record refund: ${error.message}`);
       }
+
+      return convertDatabasePaymentRecord(paymentRecord, paymentRecord.profiles);
     } catch (error) {
-      console.error('Error deleting payment:', error);
+      console.error('Error recording refund:', error);
       throw error;
     }
   },
@@ -217,6 +353,8 @@ export const paymentService = {
         wallet: 0,
         total: 0,
         transactionCount: 0,
+        refundTotal: 0,
+        refundCount: 0,
         paymentBreakdown: []
       };
 
@@ -226,6 +364,8 @@ export const paymentService = {
           const method = row.payment_method as keyof DailyPaymentSummary;
           const amount = Number(row.total_amount);
           const count = Number(row.transaction_count);
+          const refundAmount = Number(row.refund_amount) || 0;
+          const refundCount = Number(row.refund_count) || 0;
 
           // Update method-specific amount
           if (method in summary && typeof summary[method] === 'number') {
@@ -235,12 +375,16 @@ export const paymentService = {
           // Update totals
           summary.total += amount;
           summary.transactionCount += count;
+          summary.refundTotal += refundAmount;
+          summary.refundCount += refundCount;
 
           // Add to breakdown
           summary.paymentBreakdown.push({
             method: row.payment_method,
             amount,
-            count
+            count,
+            refundAmount,
+            refundCount
           });
         });
       }
@@ -277,7 +421,8 @@ export const paymentService = {
 
       const { data: payments, error } = await supabase
         .from('payment_records')
-        .select('payment_method, amount, payment_date')
+        .select('payment_method, amount, payment_date, is_refund')
+        .eq('paid_from_deposit', false)
         .gte('payment_date', startOfDay.toISOString())
         .lte('payment_date', endOfDay.toISOString())
         .eq('clinic_id', profile.clinicId);
@@ -302,7 +447,9 @@ export const paymentService = {
       payments?.forEach((payment: any) => {
         const amount = Number(payment.amount);
         totalAmount += amount;
-        totalTransactions++;
+        if (!payment.is_refund) {
+          totalTransactions++;
+        }
         
         if (methodTotals.hasOwnProperty(payment.payment_method)) {
           methodTotals[payment.payment_method] += amount;
@@ -345,7 +492,8 @@ export const paymentService = {
     try {
       const dateStr = date.toISOString().split('T')[0];
 
-      // Get payment records with bill details for the day
+      // Get payment records with bill details for the day. Payments settled from
+      // a deposit were already counted when the deposit was received.
       const { data: paymentData, error: paymentError } = await supabase
         .from('payment_records')
         .select(`
@@ -356,33 +504,58 @@ export const paymentService = {
           )
         `)
         .eq('clinic_id', profile.clinicId)
+        .eq('paid_from_deposit', false)
         .gte('payment_date', `${dateStr}T00:00:00.000Z`)
         .lte('payment_date', `${dateStr}T23:59:59.999Z`)
         .order('payment_date', { ascending: false });
 
       if (paymentError) throw paymentError;
 
+      // Advance deposits received on the day
+      const { data: depositData, error: depositError } = await supabase
+        .from('patient_deposits')
+        .select('amount, payment_method, deposit_date')
+        .eq('clinic_id', profile.clinicId)
+        .gte('deposit_date', `${dateStr}T00:00:00.000Z`)
+        .lte('deposit_date', `${dateStr}T23:59:59.999Z`);
+
+      if (depositError) throw depositError;
+
+      const collections = [
+        ...(paymentData || []).map(payment => ({
+          method: payment.payment_method,
+          amount: Number(payment.amount),
+          date: payment.payment_date
+        })),
+        ...(depositData || []).map(deposit => ({
+          method: deposit.payment_method,
+          amount: Number(deposit.amount),
+          date: deposit.deposit_date
+        }))
+      ];
+
       // Get outstanding balances for the clinic
       const { data: outstandingData, error: outstandingError } = await supabase
         .from('bills')
         .select('balance_amount')
         .eq('clinic_id', profile.clinicId)
+        .is('voided_at', null)
         .gt('balance_amount', 0);
 
       if (outstandingError) throw outstandingError;
 
-      // Calculate totals
-      const totalCollection = paymentData?.reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
-      const transactionCount = paymentData?.length || 0;
+      // Calculate totals (refunds are negative amounts, so the collection is net)
+      const totalCollection = collections.reduce((sum, collection) => sum + collection.amount, 0);
+      const refundRecords = paymentData?.filter(payment => payment.is_refund) || [];
+      const refundTotal = refundRecords.reduce((sum, payment) => sum - Number(payment.amount), 0);
+      const refundCount = refundRecords.length;
+      const transactionCount = collections.length - refundCount;
       const averageTransactionValue = transactionCount > 0 ? totalCollection / transactionCount : 0;
       const outstandingBalance = outstandingData?.reduce((sum, bill) => sum + Number(bill.balance_amount), 0) || 0;
 
       // Payment method breakdown
       const paymentMethodMap = new Map();
-      paymentData?.forEach((payment) => {
-        const method = payment.payment_method;
-        const amount = Number(payment.amount);
-        
+      collections.forEach(({ method, amount }) => {
         if (paymentMethodMap.has(method)) {
           const existing = paymentMethodMap.get(method);
           paymentMethodMap.set(method, {
@@ -404,6 +577,7 @@ export const paymentService = {
       // Service category breakdown
       const categoryMap = new Map();
       paymentData?.forEach((payment) => {
+        if (payment.is_refund) return;
         payment.bills?.bill_items?.forEach((item: any) => {
           const category = item.item_type || 'other';
           const amount = Number(item.total_price) || 0;
@@ -429,10 +603,9 @@ export const paymentService = {
 
       // Hourly breakdown
       const hourlyMap = new Map();
-      paymentData?.forEach((payment) => {
-        const hour = new Date(payment.payment_date).getHours();
-        const amount = Number(payment.amount);
-        
+      collections.forEach(({ date, amount }) => {
+        const hour = new Date(date).getHours();
+
         if (hourlyMap.has(hour)) {
           const existing = hourlyMap.get(hour);
           hourlyMap.set(hour, {
@@ -463,6 +636,8 @@ export const paymentService = {
         date,
         totalCollection,
         transactionCount,
+        refundTotal,
+        refundCount,
         averageTransactionValue,
         outstandingBalance,
         paymentMethods,
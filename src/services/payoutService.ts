@@ -0,0 +1,237 @@
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type { DatabaseDoctorPayoutRule, DatabaseDoctorSettlement, DatabaseDoctorSettlementItem } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { DoctorPayoutRule, DoctorSettlement, DoctorSettlementItem } from '../types';
+
+// Convert database payout rule to app DoctorPayoutRule type
+const convertDatabasePayoutRule = (dbRule: DatabaseDoctorPayoutRule): DoctorPayoutRule => ({
+  id: dbRule.id,
+  doctorId: dbRule.doctor_id,
+  itemType: dbRule.item_type,
+  payoutType: dbRule.payout_type,
+  value: Number(dbRule.value)
+});
+
+// Convert database settlement to app DoctorSettlement type
+const convertDatabaseSettlement = (dbSettlement: DatabaseDoctorSettlement & {
+  doctor?: { name: string } | null;
+  settled_by_profile?: { name: string } | null;
+}): DoctorSettlement => ({
+  id: dbSettlement.id,
+  doctorId: dbSettlement.doctor_id,
+  doctorName: dbSettlement.doctor?.name,
+  periodStart: new Date(`${dbSettlement.period_start}T00:00:00`),
+  periodEnd: new Date(`${dbSettlement.period_end}T00:00:00`),
+  earningsAmount: Number(dbSettlement.earnings_amount),
+  adjustmentAmount: Number(dbSettlement.adjustment_amount),
+  netPayout: Number(dbSettlement.net_payout),
+  status: dbSettlement.status,
+  paymentReference: dbSettlement.payment_reference,
+  notes: dbSettlement.notes,
+  generatedAt: new Date(dbSettlement.generated_at),
+  settledByName: dbSettlement.settled_by_profile?.name,
+  settledAt: dbSettlement.settled_at ? new Date(dbSettlement.settled_at) : undefined
+});
+
+// Convert database settlement item to app DoctorSettlementItem type
+const convertDatabaseSettlementItem = (dbItem: DatabaseDoctorSettlementItem & {
+  bill?: { bill_number: string; bill_date: string; patients?: { name: string } | null } | null;
+}): DoctorSettlementItem => ({
+  id: dbItem.id,
+  settlementId: dbItem.settlement_id,
+  entryType: dbItem.entry_type,
+  billId: dbItem.bill_id,
+  billNumber: dbItem.bill?.bill_number,
+  billDate: dbItem.bill?.bill_date ? new Date(dbItem.bill.bill_date) : undefined,
+  patientName: dbItem.bill?.patients?.name,
+  itemType: dbItem.item_type,
+  itemName: dbItem.item_name,
+  baseAmount: Number(dbItem.base_amount),
+  payoutType: dbItem.payout_type,
+  ruleValue: dbItem.rule_value !== null && dbItem.rule_value !== undefined ? Number(dbItem.rule_value) : undefined,
+  payoutAmount: Number(dbItem.payout_amount)
+});
+
+export const payoutService = {
+  // Get every doctor's payout rules in the clinic
+  async getPayoutRules(): Promise<DoctorPayoutRule[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('doctor_payout_rules')
+      .select('*')
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to fetch payout rules: ${error.message}`);
+    }
+
+    return data.map(convertDatabasePayoutRule);
+  },
+
+  // Replace a doctor's payout rules; item types left out no longer earn a payout
+  async savePayoutRules(doctorId: string, rules: Omit<DoctorPayoutRule, 'id' | 'doctorId'>[]): Promise<DoctorPayoutRule[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const keptTypes = rules.map(rule => rule.itemType);
+    let deleteQuery = supabase
+      .from('doctor_payout_rules')
+      .delete()
+      .eq('clinic_id', profile.clinicId)
+      .eq('doctor_id', doctorId);
+
+    if (keptTypes.length > 0) {
+      deleteQuery = deleteQuery.not('item_type', 'in', `(${keptTypes.join(',')})`);
+    }
+
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) {
+      throw new Error(`Failed to save payout rules: ${deleteError.message}`);
+    }
+
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('doctor_payout_rules')
+      .upsert(rules.map(rule => ({
+        clinic_id: profile.clinicId,
+        doctor_id: doctorId,
+        item_type: rule.itemType,
+        payout_type: rule.payoutType,
+        value: rule.value
+      })), {
+        onConflict: 'doctor_id,item_type'
+      })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save payout rules: ${error.message}`);
+    }
+
+    return data.map(convertDatabasePayoutRule);
+  },
+
+  // Get settlement statements, newest month first
+  async getSettlements(doctorId?: string): Promise<DoctorSettlement[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    let query = supabase
+      .from('doctor_settlements')
+      .select(`
+        *,
+        doctor:profiles!doctor_settlements_doctor_id_fkey (name),
+        settled_by_profile:profiles!doctor_settlements_settled_by_fkey (name)
+      `)
+      .eq('clinic_id', profile.clinicId);
+
+    if (doctorId) {
+      query = query.eq('doctor_id', doctorId);
+    }
+
+    const { data, error } = await query.order('period_start', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch settlements: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseSettlement);
+  },
+
+  // Get the earning and adjustment lines behind a statement
+  async getSettlementItems(settlementId: string): Promise<DoctorSettlementItem[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { data, error } = await supabase
+      .from('doctor_settlement_items')
+      .select(`
+        *,
+        bill:bills!doctor_settlement_items_bill_id_fkey (bill_number, bill_date, patients (name))
+      `)
+      .eq('settlement_id', settlementId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch settlement items: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseSettlementItem);
+  },
+
+  // Create or refresh the draft statement for the doctor and the month containing `month`
+  async generateSettlement(doctorId: string, month: Date): Promise<string> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { data, error } = await supabase.rpc('generate_doctor_settlement', {
+      p_doctor_id: doctorId,
+      p_month: format(month, 'yyyy-MM-dd')
+    });
+
+    if (error) {
+      throw new Error(`Failed to generate settlement: ${error.message}`);
+    }
+
+    return data as string;
+  },
+
+  // Mark a draft statement as paid out
+  async settleSettlement(settlementId: string, paymentReference?: string, notes?: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { error } = await supabase.rpc('settle_doctor_settlement', {
+      p_settlement_id: settlementId,
+      p_reference: paymentReference || null,
+      p_notes: notes || null
+    });
+
+    if (error) {
+      throw new Error(`Failed to settle payout: ${error.message}`);
+    }
+  },
+
+  // Discard a draft statement so its bills can be picked up again
+  async deleteDraftSettlement(settlementId: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { error } = await supabase
+      .from('doctor_settlements')
+      .delete()
+      .eq('id', settlementId)
+      .eq('status', 'draft');
+
+    if (error) {
+      throw new Error(`Failed to delete settlement: ${error.message}`);
+    }
+  }
+};
@@ -1,13 +1,34 @@
 import { supabase } from '../lib/supabase';
-import { Bill, Patient, Profile, ClinicSetting, Visit } from '../types';
+import { Bill, Patient, Profile, ClinicSetting, Visit, CreditNote, DoctorRevenueRow, CashierShift } from '../types';
+
+// Pre-translated text for the Rx sheet; the edge function only lays it out
+export interface PrescriptionSheet {
+  language: 'en' | 'hi' | 'gu';
+  labels: Record<string, string>;
+  items: {
+    medicine: string;
+    instruction: string;
+    duration: string;
+    doseCalculation?: string;
+  }[];
+}
 
 export const pdfService = {
   async generatePdfFromData(
-    type: 'bill' | 'visit',
+    type: 'bill' | 'visit' | 'credit_note' | 'prescription' | 'patient_card' | 'doctor_revenue_report' | 'z_report',
     data: {
       bill?: Bill;
+      creditNote?: CreditNote;
       visit?: Visit;
-      patient: Patient;
+      prescriptionSheet?: PrescriptionSheet;
+      cardLink?: string; // Encoded in the ID card's QR code
+      doctorRevenueReport?: {
+        periodLabel: string;
+        rows: DoctorRevenueRow[];
+        total: DoctorRevenueRow;
+      };
+      cashierShift?: CashierShift; // Closed shift for the Z-report
+      patient?: Patient; // Every type except the reports is about one patient
       doctor?: Profile;
       clinicSettings: ClinicSetting;
     }
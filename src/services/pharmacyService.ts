@@ -7,15 +7,19 @@ import {
   StockMovementLog,
   MedicineMaster,
   MedicineWithPrice,
+  MedicineBatch,
+  BatchAllocation,
   StockAlert
 } from '../types';
 import { getCurrentProfile } from './profileService';
+import { allocateFefo, getUnbatchedStock } from '../utils/fefoAllocation';
 import type { 
   DatabaseSupplier, 
   DatabasePharmacyInwardReceipt, 
   DatabasePharmacyInwardItem, 
   DatabasePharmacyDispensedItem, 
-  DatabaseStockMovementLog 
+  DatabaseStockMovementLog,
+  DatabaseMedicineBatch
 } from '../lib/supabase';
 
 // Convert database supplier to app supplier type
@@ -62,12 +66,32 @@ const convertDatabaseInwardItem = (dbItem: DatabasePharmacyInwardItem, medicine?
   totalCostPrice: dbItem.total_cost_price,
   batchNumber: dbItem.batch_number,
   expiryDate: dbItem.expiry_date ? new Date(dbItem.expiry_date) : undefined,
+  batchId: dbItem.batch_id,
   createdAt: new Date(dbItem.created_at),
   medicine
 });
 
+// Convert database medicine batch to app medicine batch type
+const convertDatabaseMedicineBatch = (dbBatch: DatabaseMedicineBatch, medicine?: MedicineMaster): MedicineBatch => ({
+  id: dbBatch.id,
+  medicineId: dbBatch.medicine_id,
+  batchNumber: dbBatch.batch_number,
+  expiryDate: dbBatch.expiry_date ? new Date(dbBatch.expiry_date) : undefined,
+  quantityReceived: dbBatch.quantity_received,
+  currentStock: dbBatch.current_stock,
+  unitCostPrice: dbBatch.unit_cost_price,
+  firstReceiptId: dbBatch.first_receipt_id,
+  createdAt: new Date(dbBatch.created_at),
+  updatedAt: new Date(dbBatch.updated_at),
+  medicine
+});
+
 // Convert database dispensed item to app dispensed item type
-const convertDatabaseDispensedItem = (dbItem: DatabasePharmacyDispensedItem, medicine?: MedicineMaster): PharmacyDispensedItem => ({
+const convertDatabaseDispensedItem = (
+  dbItem: DatabasePharmacyDispensedItem,
+  medicine?: MedicineMaster,
+  batch?: MedicineBatch
+): PharmacyDispensedItem => ({
   id: dbItem.id,
   visitId: dbItem.visit_id,
   prescriptionId: dbItem.prescription_id,
@@ -77,9 +101,11 @@ const convertDatabaseDispensedItem = (dbItem: DatabasePharmacyDispensedItem, med
   dispenseDate: new Date(dbItem.dispense_date),
   sellingPriceAtDispense: dbItem.selling_price_at_dispense,
   totalSellingPrice: dbItem.total_selling_price,
+  batchId: dbItem.batch_id,
   batchNumber: dbItem.batch_number,
   createdAt: new Date(dbItem.created_at),
-  medicine
+  medicine,
+  batch
 });
 
 // Convert database stock movement log to app stock movement log type
@@ -283,7 +309,7 @@ export const pharmacyService = {
 
   // Medicine Dispensing
   async dispenseMedicines(
-    items: Omit<PharmacyDispensedItem, 'id' | 'createdAt' | 'medicine' | 'dispensedByProfile' | 'totalSellingPrice'>[]
+    items: Omit<PharmacyDispensedItem, 'id' | 'createdAt' | 'medicine' | 'batch' | 'dispensedByProfile' | 'totalSellingPrice'>[]
   ): Promise<PharmacyDispensedItem[]> {
     if (!supabase) {
       throw new Error('Supabase client not initialized');
@@ -295,18 +321,37 @@ export const pharmacyService = {
     }
 
     try {
-      const itemsToInsert = items.map(item => ({
-        visit_id: item.visitId,
-        prescription_id: item.prescriptionId,
-        clinic_id: profile.clinicId,
+      const itemsToInsert = [];
 
-        medicine_id: item.medicineId,
-        quantity: item.quantity,
-        dispensed_by: item.dispensedBy,
-        dispense_date: item.dispenseDate.toISOString(),
-        selling_price_at_dispense: item.sellingPriceAtDispense,
-        batch_number: item.batchNumber
-      }));
+      for (const item of items) {
+        const baseRow = {
+          visit_id: item.visitId,
+          prescription_id: item.prescriptionId,
+          clinic_id: profile.clinicId,
+
+          medicine_id: item.medicineId,
+          dispensed_by: item.dispensedBy,
+          dispense_date: item.dispenseDate.toISOString(),
+          selling_price_at_dispense: item.sellingPriceAtDispense
+        };
+
+        // An explicitly chosen batch is dispensed as-is
+        if (item.batchId) {
+          itemsToInsert.push({ ...baseRow, quantity: item.quantity, batch_id: item.batchId, batch_number: item.batchNumber });
+          continue;
+        }
+
+        // Otherwise split the quantity across batches, first expiry first out
+        const allocations = await this.getFefoAllocation(item.medicineId, item.quantity);
+        for (const allocation of allocations) {
+          itemsToInsert.push({
+            ...baseRow,
+            quantity: allocation.quantity,
+            batch_id: allocation.batchId,
+            batch_number: allocation.batchNumber
+          });
+        }
+      }
 
       const { data, error } = await supabase
         .from('pharmacy_dispensed_items')
@@ -314,6 +359,7 @@ export const pharmacyService = {
         .select(`
           *,
           medicines_master (*),
+          medicine_batches (*),
           profiles (*)
         `);
 
@@ -321,7 +367,11 @@ export const pharmacyService = {
         throw new Error('Failed to dispense medicines');
       }
 
-      return data.map(item => convertDatabaseDispensedItem(item, item.medicines_master));
+      return data.map(item => convertDatabaseDispensedItem(
+        item,
+        item.medicines_master,
+        item.medicine_batches ? convertDatabaseMedicineBatch(item.medicine_batches) : undefined
+      ));
 
     } catch (error) {
       console.error('Error dispensing medicines:', error);
@@ -329,6 +379,89 @@ export const pharmacyService = {
     }
   },
 
+  // Batch Management
+  async getMedicineBatches(medicineId?: string, includeDepleted: boolean = false): Promise<MedicineBatch[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    let query = supabase
+      .from('medicine_batches')
+      .select(`
+        *,
+        medicines_master (*)
+      `)
+      .eq('clinic_id', profile.clinicId)
+      .order('expiry_date', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: true });
+
+    if (medicineId) {
+      query = query.eq('medicine_id', medicineId);
+    }
+
+    if (!includeDepleted) {
+      query = query.gt('current_stock', 0);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error('Failed to fetch medicine batches');
+    }
+
+    return data.map(batch => convertDatabaseMedicineBatch(batch, batch.medicines_master));
+  },
+
+  async getExpiringBatches(daysAhead: number = 30): Promise<MedicineBatch[]> {
+    const futureDate = new Date();
+    futureDate.setDate(futureDate.getDate() + daysAhead);
+
+    const batches = await this.getMedicineBatches();
+    return batches.filter(batch => batch.expiryDate && batch.expiryDate <= futureDate);
+  },
+
+  async getFefoAllocation(medicineId: string, quantity: number): Promise<BatchAllocation[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const [batches, { data: medicine, error: medicineError }] = await Promise.all([
+      this.getMedicineBatches(medicineId),
+      supabase
+        .from('medicines_master')
+        .select('id, name, current_stock')
+        .eq('id', medicineId)
+        .eq('clinic_id', profile.clinicId)
+        .single()
+    ]);
+
+    if (medicineError || !medicine) {
+      throw new Error('Medicine not found or error fetching medicine data');
+    }
+
+    const { allocations, shortfall } = allocateFefo(
+      batches,
+      quantity,
+      getUnbatchedStock(medicine.current_stock, batches)
+    );
+
+    if (shortfall > 0) {
+      throw new Error(`Insufficient unexpired stock for ${medicine.name}. Available: ${quantity - shortfall}, Requested: ${quantity}`);
+    }
+
+    return allocations;
+  },
+
   // Stock Management
   async getStockMovementLog(medicineId?: string): Promise<StockMovementLog[]> {
     if (!supabase) {
@@ -89,6 +89,9 @@ export const convertDatabaseProfile = (
         registrationNumber: clinic.registration_number,
         taxId: clinic.tax_id,
         consultationFee: clinic.consultation_fee,
+        consultationTaxExempt: clinic.consultation_tax_exempt,
+        consultationSacCode: clinic.consultation_sac_code,
+        consultationGstRate: clinic.consultation_gst_rate,
         followUpFee: clinic.follow_up_fee,
         emergencyFee: clinic.emergency_fee,
         appointmentDuration: clinic.appointment_duration,
@@ -0,0 +1,227 @@
+import { supabase } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { appointmentService } from './appointmentService';
+import { authService } from './authService';
+import { Appointment, DoctorQueue } from '../types';
+import { format } from 'date-fns';
+
+type AppointmentStatus = Appointment['status'];
+
+// Allowed queue moves from each status
+export const QUEUE_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  Scheduled: ['Confirmed', 'Cancelled', 'No_Show'],
+  Confirmed: ['In_Progress', 'Cancelled', 'No_Show'],
+  In_Progress: ['Completed'],
+  Completed: [],
+  Cancelled: [],
+  No_Show: []
+};
+
+export const canTransitionQueueStatus = (from: AppointmentStatus, to: AppointmentStatus): boolean => {
+  return QUEUE_STATUS_TRANSITIONS[from].includes(to);
+};
+
+// A patient is in the waiting queue once checked in and holding a token
+export const isCheckedIn = (appointment: Appointment): boolean => {
+  return appointment.status === 'Confirmed' && appointment.tokenNumber !== undefined;
+};
+
+// Calendar day of a moment in the clinic's timezone, as yyyy-MM-dd
+const clinicDay = (date: Date, timeZone = 'Asia/Kolkata') => date.toLocaleDateString('en-CA', { timeZone });
+
+const byToken = (a: Appointment, b: Appointment) => (a.tokenNumber || 0) - (b.tokenNumber || 0);
+
+export const queueService = {
+  // Build each doctor's queue for a day from their appointments and walk-ins
+  async getQueue(date: Date = new Date()): Promise<DoctorQueue[]> {
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(date);
+    dayEnd.setHours(23, 59, 59, 999);
+
+    const [appointments, doctors] = await Promise.all([
+      appointmentService.getAppointmentsByDateRange(dayStart, dayEnd),
+      authService.getDoctors()
+    ]);
+
+    return doctors.map(doctor => {
+      const doctorAppointments = appointments.filter(appointment => appointment.doctorId === doctor.id);
+      const inProgress = doctorAppointments
+        .filter(appointment => appointment.status === 'In_Progress')
+        .sort((a, b) => (b.startedAt?.getTime() || 0) - (a.startedAt?.getTime() || 0));
+
+      return {
+        doctor,
+        current: inProgress[0],
+        waiting: doctorAppointments.filter(isCheckedIn).sort(byToken),
+        notArrived: doctorAppointments
+          .filter(appointment =>
+            appointment.status === 'Scheduled' ||
+            (appointment.status === 'Confirmed' && appointment.tokenNumber === undefined)
+          )
+          .sort((a, b) => a.appointmentDate.getTime() - b.appointmentDate.getTime()),
+        completed: doctorAppointments.filter(appointment => appointment.status === 'Completed').sort(byToken)
+      };
+    });
+  },
+
+  // Check a patient in and issue their token
+  async checkIn(appointmentId: string): Promise<number> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const appointment = await appointmentService.getAppointment(appointmentId);
+    if (!appointment) {
+      throw new Error('Appointment not found');
+    }
+
+    if (appointment.status !== 'Scheduled' && appointment.status !== 'Confirmed') {
+      throw new Error(`Cannot check in an appointment that is ${appointment.status.replace('_', ' ')}`);
+    }
+
+    // Only today's appointments join today's queue; other days have to be rebooked or added as a walk-in
+    const today = clinicDay(new Date(), profile.clinic?.timezone);
+    if (clinicDay(appointment.appointmentDate, profile.clinic?.timezone) !== today) {
+      throw new Error(`This appointment is for ${format(appointment.appointmentDate, 'dd MMM yyyy')}, not today. Reschedule it or add the patient as a walk-in.`);
+    }
+
+    const { data: tokenNumber, error } = await supabase.rpc('assign_appointment_token', {
+      p_appointment_id: appointmentId,
+      p_queue_date: today
+    });
+
+    if (error) {
+      throw new Error(`Failed to issue token: ${error.message}`);
+    }
+
+    if (appointment.status === 'Scheduled') {
+      await appointmentService.updateAppointment(appointmentId, { status: 'Confirmed' });
+    }
+
+    return tokenNumber as number;
+  },
+
+  // Register a walk-in patient and put them straight into the queue
+  async addWalkIn(walkIn: {
+    patientId: string;
+    doctorId: string;
+    appointmentType?: Appointment['appointmentType'];
+    notes?: string;
+  }): Promise<Appointment> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .insert({
+        patient_id: walkIn.patientId,
+        doctor_id: walkIn.doctorId,
+        appointment_date: new Date().toISOString(),
+        duration: 15,
+        status: 'Scheduled',
+        appointment_type: walkIn.appointmentType || 'Consultation',
+        notes: walkIn.notes,
+        is_walk_in: true,
+        clinic_id: profile.clinicId
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add walk-in: ${error.message}`);
+    }
+
+    await this.checkIn(data.id);
+
+    const appointment = await appointmentService.getAppointment(data.id);
+    if (!appointment) {
+      throw new Error('Walk-in not found after check-in');
+    }
+
+    return appointment;
+  },
+
+  // Move an appointment along the queue
+  async updateQueueStatus(appointment: Appointment, nextStatus: AppointmentStatus): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    if (!canTransitionQueueStatus(appointment.status, nextStatus)) {
+      throw new Error(`Cannot move from ${appointment.status.replace('_', ' ')} to ${nextStatus.replace('_', ' ')}`);
+    }
+
+    if (nextStatus === 'In_Progress' && !isCheckedIn(appointment)) {
+      throw new Error('Patient must be checked in before the consultation starts');
+    }
+
+    const updateData: Record<string, string> = {
+      status: nextStatus,
+      updated_at: new Date().toISOString()
+    };
+    if (nextStatus === 'In_Progress') updateData.started_at = new Date().toISOString();
+    if (nextStatus === 'Completed') updateData.completed_at = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('appointments')
+      .update(updateData)
+      .eq('id', appointment.id)
+      .eq('clinic_id', profile.clinicId);
+
+    if (error) {
+      throw new Error(`Failed to update queue status: ${error.message}`);
+    }
+  },
+
+  // Finish the doctor's current consultation and call the next token, or a
+  // specific waiting patient when one is given
+  async callNext(queue: DoctorQueue, next: Appointment | undefined = queue.waiting[0]): Promise<Appointment | undefined> {
+    if (queue.current) {
+      await this.updateQueueStatus(queue.current, 'Completed');
+    }
+
+    if (next) {
+      await this.updateQueueStatus(next, 'In_Progress');
+    }
+
+    return next;
+  },
+
+  // Listen for appointment changes in the clinic. Returns an unsubscribe function.
+  subscribeToQueue(clinicId: string, onChange: () => void): () => void {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const client = supabase;
+    const channel = client
+      .channel(`appointment-queue-${clinicId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'appointments', filter: `clinic_id=eq.${clinicId}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }
+};
@@ -0,0 +1,71 @@
+import { supabase } from '../lib/supabase';
+import { getCurrentProfile } from './profileService';
+import { DoctorRevenueRow } from '../types';
+
+// Row returned by get_doctor_revenue_report
+interface DatabaseDoctorRevenueRow {
+  doctor_id: string | null;
+  doctor_name: string | null;
+  visit_count: number;
+  patient_count: number;
+  consultation_count: number;
+  consultation_amount: number;
+  procedure_count: number;
+  procedure_amount: number;
+  pharmacy_amount: number;
+  other_amount: number;
+  bill_count: number;
+  billed_amount: number;
+  collected_amount: number;
+  outstanding_amount: number;
+  follow_ups_advised: number;
+  follow_ups_due: number;
+  follow_ups_kept: number;
+}
+
+// Convert database report row to app DoctorRevenueRow type
+const convertDatabaseDoctorRevenueRow = (dbRow: DatabaseDoctorRevenueRow): DoctorRevenueRow => ({
+  doctorId: dbRow.doctor_id || undefined,
+  doctorName: dbRow.doctor_id ? dbRow.doctor_name || 'Unknown doctor' : 'Not linked to a visit',
+  visitCount: Number(dbRow.visit_count),
+  patientCount: Number(dbRow.patient_count),
+  consultationCount: Number(dbRow.consultation_count),
+  consultationAmount: Number(dbRow.consultation_amount),
+  procedureCount: Number(dbRow.procedure_count),
+  procedureAmount: Number(dbRow.procedure_amount),
+  pharmacyAmount: Number(dbRow.pharmacy_amount),
+  otherAmount: Number(dbRow.other_amount),
+  billCount: Number(dbRow.bill_count),
+  billedAmount: Number(dbRow.billed_amount),
+  collectedAmount: Number(dbRow.collected_amount),
+  outstandingAmount: Number(dbRow.outstanding_amount),
+  followUpsAdvised: Number(dbRow.follow_ups_advised),
+  followUpsDue: Number(dbRow.follow_ups_due),
+  followUpsKept: Number(dbRow.follow_ups_kept)
+});
+
+export const reportService = {
+  // Revenue and productivity per doctor for bills and visits dated within [startDate, endDate)
+  async getDoctorRevenueReport(startDate: Date, endDate: Date): Promise<DoctorRevenueRow[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase.rpc('get_doctor_revenue_report', {
+      p_clinic_id: profile.clinicId,
+      p_start: startDate.toISOString(),
+      p_end: endDate.toISOString()
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch doctor revenue report: ${error.message}`);
+    }
+
+    return ((data || []) as DatabaseDoctorRevenueRow[]).map(convertDatabaseDoctorRevenueRow);
+  }
+};
@@ -17,6 +17,7 @@ export interface MessageGenerationParams {
   clinicSettings: ClinicSetting;
   reviewRequestTemplates?: ReviewRequestTemplate[];
   followUpDate?: string;
+  recipientName?: string; // Household member the message is addressed to, when not the patient
 }
 
 export interface MessageGenerationResult {
@@ -29,6 +30,7 @@ export const reviewService = {
   async logSentMessage(params: {
     patientId: string;
     visitId?: string;
+    appointmentId?: string;
     messageType: string;
     messageContent: string;
     status: 'sent' | 'failed' | 'pending';
@@ -53,6 +55,7 @@ export const reviewService = {
 
           patient_id: params.patientId,
           visit_id: params.visitId || null,
+          appointment_id: params.appointmentId || null,
           message_type: params.messageType,
           message_content: params.messageContent,
           status: params.status,
@@ -78,6 +81,7 @@ export const reviewService = {
         deliveryMethod: data.delivery_method,
         errorDetails: data.error_details,
         sentBy: data.sent_by,
+        appointmentId: data.appointment_id,
         createdAt: new Date(data.created_at)
       };
     } catch (error) {
@@ -134,10 +138,15 @@ export const reviewService = {
     messageType,
     clinicSettings,
     reviewRequestTemplates = defaultReviewRequestTemplates,
-    followUpDate
+    followUpDate,
+    recipientName
   }: MessageGenerationParams): Promise<MessageGenerationResult> {
     let messageContent = '';
     let aiReviewText: string | undefined = review.aiReviewText;
+    // Messages to a parent or guardian say who they are about
+    const greetingName = recipientName && recipientName !== review.patientName
+      ? `${recipientName} (for ${review.patientName})`
+      : review.patientName;
 
     const formatDate = (dateString: string) => {
       return new Date(dateString).toLocaleDateString('en-IN', {
@@ -163,7 +172,7 @@ export const reviewService = {
         }
 
         messageContent = template.messageTemplate
-          .replace(/{patient_name}/g, review.patientName)
+          .replace(/{patient_name}/g, greetingName)
           .replace(/{clinic_name}/g, clinicSettings.clinicName)
           .replace(/{clinic_address}/g, clinicSettings.address)
           .replace(/{gmb_link}/g, clinicSettings.gmbLink || '')
@@ -187,12 +196,12 @@ export const reviewService = {
         const template = reviewRequestTemplates.find(t => t.templateType === 'ai_second');
         if (template) {
           messageContent = template.messageTemplate
-            .replace(/{patient_name}/g, review.patientName)
+            .replace(/{patient_name}/g, greetingName)
             .replace(/{clinic_name}/g, clinicSettings.clinicName)
             .replace(/{ai_review_text}/g, aiReviewText)
             .replace(/{gmb_link}/g, clinicSettings.gmbLink || '');
         } else {
-          messageContent = `Hello ${review.patientName},
+          messageContent = `Hello ${greetingName},
 
 Here's your personalized review suggestion for ${clinicSettings.clinicName}:
 
@@ -211,7 +220,7 @@ Team ${clinicSettings.clinicName}`;
         if (!template) throw new Error('Simple thank you template not found.');
 
         messageContent = template.messageTemplate
-          .replace(/{patient_name}/g, review.patientName)
+          .replace(/{patient_name}/g, greetingName)
           .replace(/{clinic_name}/g, clinicSettings.clinicName)
           .replace(/{clinic_address}/g, clinicSettings.address)
           .replace(/{gmb_link}/g, clinicSettings.gmbLink || '')
@@ -225,7 +234,7 @@ Team ${clinicSettings.clinicName}`;
         if (!template) throw new Error('Follow-up template not found.');
 
         messageContent = template.messageTemplate
-          .replace(/{patient_name}/g, review.patientName)
+          .replace(/{patient_name}/g, greetingName)
           .replace(/{clinic_name}/g, clinicSettings.clinicName)
           .replace(/{clinic_address}/g, clinicSettings.address)
           .replace(/{contact_phone}/g, clinicSettings.phone)
@@ -235,7 +244,7 @@ Team ${clinicSettings.clinicName}`;
 
       case 'gmb_link': {
         if (!clinicSettings.gmbLink) throw new Error('Google My Business link not configured.');
-        messageContent = `Hello ${review.patientName},
+        messageContent = `Hello ${greetingName},
 
 Thank you for visiting ${clinicSettings.clinicName}. We would greatly appreciate your feedback.
 
@@ -251,7 +260,7 @@ Team ${clinicSettings.clinicName}`;
         if (!template) throw new Error('GMB link only template not found.');
 
         messageContent = template.messageTemplate
-          .replace(/{patient_name}/g, review.patientName)
+          .replace(/{patient_name}/g, greetingName)
           .replace(/{clinic_name}/g, clinicSettings.clinicName)
           .replace(/{gmb_link}/g, clinicSettings.gmbLink || '');
         break;
@@ -0,0 +1,263 @@
+import { supabase } from '../lib/supabase';
+import { OfflineMutation, OfflineSyncStatus } from '../types';
+import {
+  getQueuedMutations,
+  updateQueuedMutation,
+  removeQueuedMutation,
+  subscribeToQueue,
+  isNetworkError,
+  isOfflineId
+} from '../lib/offlineStore';
+import { getCurrentProfile } from './profileService';
+import { patientService } from './patientService';
+import { visitService } from './visitService';
+import { paymentService } from './paymentService';
+
+type ReplayOutcome =
+  | { result: 'synced'; id: string }
+  | { result: 'conflict'; reason: string }
+  | { result: 'waiting'; reason: string };
+
+let syncing = false;
+let lastSyncedAt: Date | undefined;
+const statusListeners = new Set<() => void>();
+
+const notifyStatusListeners = () => {
+  statusListeners.forEach(listener => listener());
+};
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+// Patients registered at another desk while this one was offline are reused rather than duplicated
+const findExistingPatient = async (name: string, phone: string, clinicId: string): Promise<string | null> => {
+  const { data, error } = await supabase!
+    .from('patients')
+    .select('id, name')
+    .eq('clinic_id', clinicId)
+    .eq('phone', phone)
+    .is('merged_into_id', null);
+
+  if (error) {
+    throw new Error(`Failed to check for existing patient: ${error.message}`);
+  }
+
+  return data.find(patient => normalize(patient.name) === normalize(name))?.id || null;
+};
+
+// A visit or payment saved by an earlier replay whose response never came back carries the offline id
+const findReplayed = async (table: 'visits' | 'payment_records', offlineId: string, clinicId: string): Promise<string | null> => {
+  const { data, error } = await supabase!
+    .from(table)
+    .select('id')
+    .eq('clinic_id', clinicId)
+    .eq('client_reference', offlineId)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to check for an earlier sync: ${error.message}`);
+  }
+
+  return data[0]?.id || null;
+};
+
+const replayMutation = async (mutation: OfflineMutation): Promise<ReplayOutcome> => {
+  switch (mutation.type) {
+    case 'add_patient': {
+      if (!mutation.force) {
+        const existingId = await findExistingPatient(mutation.payload.name, mutation.payload.phone, mutation.clinicId);
+        if (existingId) return { result: 'synced', id: existingId };
+      }
+      const patient = await patientService.addPatient(mutation.payload, { queueWhenOffline: false });
+      return { result: 'synced', id: patient.id };
+    }
+
+    case 'add_visit': {
+      if (isOfflineId(mutation.payload.patientId)) {
+        return { result: 'waiting', reason: "Waiting for the patient's registration to sync" };
+      }
+      const replayedId = await findReplayed('visits', mutation.offlineId, mutation.clinicId);
+      if (replayedId) return { result: 'synced', id: replayedId };
+      if (!mutation.force && mutation.payload.appointmentId) {
+        const { data, error } = await supabase!
+          .from('visits')
+          .select('id')
+          .eq('appointment_id', mutation.payload.appointmentId)
+          .limit(1);
+
+        if (error) {
+          throw new Error(`Failed to check for existing visit: ${error.message}`);
+        }
+        if (data.length > 0) {
+          return { result: 'conflict', reason: 'A visit has already been recorded for this appointment from another device.' };
+        }
+      }
+      const visit = await visitService.addVisit(mutation.payload, {
+        queueWhenOffline: false,
+        clientReference: mutation.offlineId
+      });
+      return { result: 'synced', id: visit.id };
+    }
+
+    case 'record_payment': {
+      const replayedId = await findReplayed('payment_records', mutation.offlineId, mutation.clinicId);
+      if (replayedId) return { result: 'synced', id: replayedId };
+      if (!mutation.force) {
+        const { data: bill, error } = await supabase!
+          .from('bills')
+          .select('bill_number, balance_amount, status')
+          .eq('id', mutation.payload.billId)
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to check bill balance: ${error.message}`);
+        }
+        if (bill.status === 'cancelled') {
+          return { result: 'conflict', reason: `Bill ${bill.bill_number} was cancelled while this payment was waiting to sync.` };
+        }
+        if (mutation.payload.amount > bill.balance_amount + 0.01) {
+          return {
+            result: 'conflict',
+            reason: `Bill ${bill.bill_number} now has a balance of ₹${bill.balance_amount.toFixed(2)}, less than this ₹${mutation.payload.amount.toFixed(2)} payment.`
+          };
+        }
+      }
+      // Credited to the staff member who took the payment, not whoever's device happens to sync it
+      const payment = await paymentService.recordPayment(mutation.payload, {
+        queueWhenOffline: false,
+        receivedBy: mutation.createdBy,
+        clientReference: mutation.offlineId
+      });
+      return { result: 'synced', id: payment.id };
+    }
+  }
+};
+
+// Points queued visits for a patient registered offline at the patient's real id
+const remapPatientId = async (offlineId: string, patientId: string) => {
+  const mutations = await getQueuedMutations();
+  for (const mutation of mutations) {
+    if (mutation.type === 'add_visit' && mutation.payload.patientId === offlineId) {
+      await updateQueuedMutation({ ...mutation, payload: { ...mutation.payload, patientId } });
+    }
+  }
+};
+
+// The queue is shared by everyone using this browser. Only the signed-in user's own changes are
+// shown and replayed, so a change left by someone else is never saved under another account or clinic.
+const getOwnMutations = async (): Promise<OfflineMutation[]> => {
+  const [profile, mutations] = await Promise.all([getCurrentProfile(), getQueuedMutations()]);
+  if (!profile?.clinicId) return [];
+
+  return mutations.filter(mutation => mutation.clinicId === profile.clinicId && mutation.createdBy === profile.id);
+};
+
+export const syncService = {
+  async getStatus(): Promise<OfflineSyncStatus> {
+    const mutations = await getOwnMutations();
+    return {
+      online: navigator.onLine,
+      syncing,
+      pending: mutations.filter(mutation => mutation.status === 'pending').length,
+      needsAttention: mutations.filter(mutation => mutation.status !== 'pending'),
+      lastSyncedAt
+    };
+  },
+
+  subscribe(listener: () => void): () => void {
+    statusListeners.add(listener);
+    const unsubscribeQueue = subscribeToQueue(listener);
+    return () => {
+      statusListeners.delete(listener);
+      unsubscribeQueue();
+    };
+  },
+
+  // Replays the user's pending mutations in the order they were made. Stops at the first network
+  // failure; server-side changes that make a mutation unsafe are held for the user.
+  async syncPendingMutations(): Promise<{ synced: number; held: number }> {
+    if (syncing || !navigator.onLine || !supabase) {
+      return { synced: 0, held: 0 };
+    }
+
+    syncing = true;
+    notifyStatusListeners();
+    let synced = 0;
+    let held = 0;
+
+    try {
+      const mutations = (await getOwnMutations()).filter(mutation => mutation.status === 'pending');
+
+      for (const queued of mutations) {
+        // Earlier replays may have remapped this mutation's patient
+        const mutation = (await getQueuedMutations()).find(candidate => candidate.id === queued.id);
+        if (!mutation || mutation.id === undefined) continue;
+
+        try {
+          const outcome = await replayMutation(mutation);
+
+          if (outcome.result === 'synced') {
+            await removeQueuedMutation(mutation.id);
+            if (mutation.type === 'add_patient') {
+              await remapPatientId(mutation.offlineId, outcome.id);
+            }
+            synced++;
+          } else if (outcome.result === 'conflict') {
+            await updateQueuedMutation({ ...mutation, status: 'conflict', conflictReason: outcome.reason });
+            held++;
+          } else {
+            await updateQueuedMutation({ ...mutation, lastError: outcome.reason });
+          }
+        } catch (error) {
+          if (isNetworkError(error)) break;
+
+          console.error('Error syncing offline change:', error);
+          await updateQueuedMutation({
+            ...mutation,
+            status: 'failed',
+            attempts: mutation.attempts + 1,
+            lastError: error instanceof Error ? error.message : 'Failed to sync'
+          });
+          held++;
+        }
+      }
+
+      lastSyncedAt = new Date();
+    } finally {
+      syncing = false;
+      notifyStatusListeners();
+    }
+
+    return { synced, held };
+  },
+
+  // Discards a held mutation, or replays it without the conflict checks after the user has reviewed it
+  async resolveMutation(id: number, resolution: 'discard' | 'apply'): Promise<void> {
+    const mutation = (await getOwnMutations()).find(candidate => candidate.id === id);
+    if (!mutation) return;
+
+    if (resolution === 'discard') {
+      await removeQueuedMutation(id);
+      return;
+    }
+
+    await updateQueuedMutation({ ...mutation, status: 'pending', force: mutation.status === 'conflict', conflictReason: undefined });
+    await this.syncPendingMutations();
+  },
+
+  // Syncs whenever the browser comes back online; returns a cleanup function
+  startAutoSync(): () => void {
+    const handleOnline = () => {
+      notifyStatusListeners();
+      this.syncPendingMutations();
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', notifyStatusListeners);
+    this.syncPendingMutations();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', notifyStatusListeners);
+    };
+  }
+};
@@ -2,6 +2,17 @@ import { supabase } from '../lib/supabase';
 import { Visit, Symptom, Diagnosis, Prescription, TestOrdered, TestResult, Patient, Profile } from '../types';
 import { getCurrentProfile } from './profileService';
 import type { DatabaseVisit, DatabaseSymptom, DatabaseDiagnosis, DatabasePrescription, DatabaseTestOrdered, DatabaseTestResult } from '../lib/supabase';
+import { isNetworkError, isOfflineId, queueMutation } from '../lib/offlineStore';
+
+// Queue a visit entered while offline; the returned visit carries a temporary id until it syncs
+const queueOfflineVisit = async (
+  visit: Omit<Visit, 'id' | 'createdAt' | 'updatedAt' | 'patient' | 'doctor'>,
+  clinicId: string,
+  profileId: string
+): Promise<Visit> => {
+  const offlineId = await queueMutation({ type: 'add_visit', payload: visit }, { clinicId, createdBy: profileId });
+  return { ...visit, id: offlineId, createdAt: new Date(), updatedAt: new Date() };
+};
 
 // Convert database visit to app visit type
 const convertDatabaseVisit = (
@@ -30,6 +41,10 @@ const convertDatabaseVisit = (
   followUpDate: dbVisit.follow_up_date ? new Date(dbVisit.follow_up_date) : undefined,
   doctorNotes: dbVisit.doctor_notes || '',
   caseImageUrl: dbVisit.case_image_url,
+  safetyOverrides: (dbVisit.safety_overrides || []).map(override => ({
+    ...override,
+    overriddenAt: new Date(override.overriddenAt)
+  })),
   createdAt: new Date(dbVisit.created_at),
   updatedAt: new Date(dbVisit.updated_at),
   patient,
@@ -69,6 +84,7 @@ const convertDatabasePrescription = (dbPrescription: DatabasePrescription): Pres
   instructions: dbPrescription.instructions,
   quantity: dbPrescription.quantity,
   refills: dbPrescription.refills,
+  doseCalculation: dbPrescription.dose_calculation || undefined,
   createdAt: new Date(dbPrescription.created_at)
 });
 
@@ -94,6 +110,7 @@ const convertDatabaseTestResult = (dbTestResult: DatabaseTestResult, testOrdered
   result: dbTestResult.result,
   normalRange: dbTestResult.normal_range,
   isAbnormal: dbTestResult.is_abnormal,
+  analyteValues: dbTestResult.analyte_values || undefined,
   resultDate: new Date(dbTestResult.result_date),
   reportUrl: dbTestResult.report_url,
   notes: dbTestResult.notes,
@@ -327,8 +344,11 @@ export const visitService = {
     ));
   },
 
-  // Add a new visit with all related data
-  async addVisit(visit: Omit<Visit, 'id' | 'createdAt' | 'updatedAt' | 'patient' | 'doctor'>): Promise<Visit> {
+  // Add a new visit with all related data; clientReference is set when replaying a visit queued offline
+  async addVisit(
+    visit: Omit<Visit, 'id' | 'createdAt' | 'updatedAt' | 'patient' | 'doctor'>,
+    options: { queueWhenOffline?: boolean; clientReference?: string } = {}
+  ): Promise<Visit> {
     if (!supabase) {
       throw new Error('Supabase client not initialized');
     }
@@ -338,6 +358,12 @@ export const visitService = {
       throw new Error('User not assigned to a clinic.');
     }
 
+    // A visit for a patient registered offline has to wait for that registration to sync
+    const queueWhenOffline = options.queueWhenOffline !== false;
+    if (queueWhenOffline && (!navigator.onLine || isOfflineId(visit.patientId))) {
+      return queueOfflineVisit(visit, profile.clinicId, profile.id);
+    }
+
     const { data: clinicProfile } = await supabase
     try {
       // Insert the main visit record
@@ -353,12 +379,33 @@ export const visitService = {
           advice: visit.advice,
           follow_up_date: visit.followUpDate?.toISOString(),
           doctor_notes: visit.doctorNotes,
-          case_image_url: visit.caseImageUrl
+          case_image_url: visit.caseImageUrl,
+          safety_overrides: (visit.safetyOverrides || []).map(override => ({
+            ...override,
+            overriddenAt: override.overriddenAt.toISOString()
+          })),
+          client_reference: options.clientReference
         }])
         .select()
         .single();
 
       if (visitError) {
+        if (queueWhenOffline && isNetworkError(visitError)) {
+          return queueOfflineVisit(visit, profile.clinicId, profile.id);
+        }
+        // Already saved by an earlier replay whose response never arrived
+        if (visitError.code === '23505' && options.clientReference && visitError.message.includes('client_reference')) {
+          const { data: existing } = await supabase
+            .from('visits')
+            .select('id')
+            .eq('clinic_id', profile.clinicId)
+            .eq('client_reference', options.clientReference)
+            .single();
+          const existingVisit = existing ? await this.getVisit(existing.id) : null;
+          if (existingVisit) {
+            return existingVisit;
+          }
+        }
         throw new Error('Failed to create visit');
       }
 
@@ -401,7 +448,8 @@ export const visitService = {
           duration: prescription.duration,
           instructions: prescription.instructions,
           quantity: prescription.quantity,
-          refills: prescription.refills
+          refills: prescription.refills,
+          dose_calculation: prescription.doseCalculation
         }));
         insertPromises.push(supabase.from('prescriptions').insert(prescriptionsToInsert));
       }
@@ -429,6 +477,7 @@ export const visitService = {
           result: result.result,
           normal_range: result.normalRange,
           is_abnormal: result.isAbnormal,
+          analyte_values: result.analyteValues || null,
           result_date: result.resultDate.toISOString(),
           report_url: result.reportUrl,
           notes: result.notes
@@ -562,6 +611,12 @@ export const visitService = {
     if (visit.followUpDate !== undefined) dbVisit.follow_up_date = visit.followUpDate?.toISOString();
     if (visit.doctorNotes !== undefined) dbVisit.doctor_notes = visit.doctorNotes;
     if (visit.caseImageUrl !== undefined) dbVisit.case_image_url = visit.caseImageUrl;
+    if (visit.safetyOverrides) {
+      dbVisit.safety_overrides = visit.safetyOverrides.map(override => ({
+        ...override,
+        overriddenAt: override.overriddenAt.toISOString()
+      }));
+    }
 
     const { error } = await supabase
       .from('visits')
@@ -582,6 +637,64 @@ export const visitService = {
     return updatedVisit;
   },
 
+  // Save the result for an ordered test and mark the test completed
+  async saveTestResult(result: Omit<TestResult, 'id' | 'createdAt' | 'testOrdered'>): Promise<TestResult> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    try {
+      const dbResult = {
+        test_ordered_id: result.testOrderedId,
+        visit_id: result.visitId,
+        result: result.result,
+        normal_range: result.normalRange,
+        is_abnormal: result.isAbnormal,
+        analyte_values: result.analyteValues || null,
+        result_date: result.resultDate.toISOString(),
+        report_url: result.reportUrl,
+        notes: result.notes
+      };
+
+      const { data: existing, error: existingError } = await supabase
+        .from('test_results')
+        .select('id')
+        .eq('test_ordered_id', result.testOrderedId)
+        .maybeSingle();
+
+      if (existingError) {
+        throw new Error(`Failed to check existing test result: ${existingError.message}`);
+      }
+
+      const { data, error } = existing
+        ? await supabase.from('test_results').update(dbResult).eq('id', existing.id).select().single()
+        : await supabase.from('test_results').insert([dbResult]).select().single();
+
+      if (error) {
+        throw new Error(`Failed to save test result: ${error.message}`);
+      }
+
+      const { error: statusError } = await supabase
+        .from('tests_ordered')
+        .update({ status: 'completed' })
+        .eq('id', result.testOrderedId);
+
+      if (statusError) {
+        throw new Error(`Failed to update test status: ${statusError.message}`);
+      }
+
+      return convertDatabaseTestResult(data);
+    } catch (error) {
+      console.error('Error saving test result:', error);
+      throw error;
+    }
+  },
+
   // Get visits with follow-up dates for follow-up management
   async getVisitsWithFollowUps(): Promise<Visit[]> {
     if (!supabase) {
@@ -0,0 +1,211 @@
+import { supabase } from '../lib/supabase';
+import { VisitTemplate } from '../types';
+import { getCurrentProfile } from './profileService';
+import type { DatabaseVisitTemplate } from '../lib/supabase';
+
+type VisitTemplateInput = Omit<VisitTemplate, 'id' | 'doctorId' | 'ownerName' | 'createdAt' | 'updatedAt'>;
+
+// Convert database visit template to app visit template type
+const convertDatabaseVisitTemplate = (dbTemplate: DatabaseVisitTemplate & { profiles?: { name: string } | null }): VisitTemplate => ({
+  id: dbTemplate.id,
+  doctorId: dbTemplate.doctor_id,
+  ownerName: dbTemplate.profiles?.name,
+  name: dbTemplate.name,
+  description: dbTemplate.description,
+  isShared: dbTemplate.is_shared,
+  symptoms: (dbTemplate.symptoms || []).map(symptom => ({
+    name: symptom.name,
+    severity: symptom.severity,
+    duration: symptom.duration,
+    notes: symptom.notes
+  })),
+  diagnoses: (dbTemplate.diagnoses || []).map(diagnosis => ({
+    name: diagnosis.name,
+    icd10Code: diagnosis.icd10_code,
+    isPrimary: diagnosis.is_primary,
+    notes: diagnosis.notes
+  })),
+  prescriptions: (dbTemplate.prescriptions || []).map(prescription => ({
+    medicineId: prescription.medicine_id,
+    medicine: prescription.medicine,
+    dosage: prescription.dosage,
+    frequency: prescription.frequency,
+    duration: prescription.duration,
+    instructions: prescription.instructions,
+    quantity: prescription.quantity
+  })),
+  testsOrdered: (dbTemplate.tests_ordered || []).map(test => ({
+    testName: test.test_name,
+    testType: test.test_type,
+    instructions: test.instructions,
+    urgency: test.urgency
+  })),
+  advice: dbTemplate.advice || [],
+  createdAt: new Date(dbTemplate.created_at),
+  updatedAt: new Date(dbTemplate.updated_at)
+});
+
+// Convert the template contents to their database columns
+const convertTemplateContents = (template: Partial<VisitTemplateInput>): Partial<DatabaseVisitTemplate> => {
+  const dbTemplate: Partial<DatabaseVisitTemplate> = {};
+
+  if (template.symptoms) {
+    dbTemplate.symptoms = template.symptoms.map(symptom => ({
+      name: symptom.name,
+      severity: symptom.severity,
+      duration: symptom.duration,
+      notes: symptom.notes
+    }));
+  }
+  if (template.diagnoses) {
+    dbTemplate.diagnoses = template.diagnoses.map(diagnosis => ({
+      name: diagnosis.name,
+      icd10_code: diagnosis.icd10Code,
+      is_primary: diagnosis.isPrimary,
+      notes: diagnosis.notes
+    }));
+  }
+  if (template.prescriptions) {
+    dbTemplate.prescriptions = template.prescriptions.map(prescription => ({
+      medicine_id: prescription.medicineId,
+      medicine: prescription.medicine,
+      dosage: prescription.dosage,
+      frequency: prescription.frequency,
+      duration: prescription.duration,
+      instructions: prescription.instructions,
+      quantity: prescription.quantity
+    }));
+  }
+  if (template.testsOrdered) {
+    dbTemplate.tests_ordered = template.testsOrdered.map(test => ({
+      test_name: test.testName,
+      test_type: test.testType,
+      instructions: test.instructions,
+      urgency: test.urgency
+    }));
+  }
+  if (template.advice) dbTemplate.advice = template.advice;
+
+  return dbTemplate;
+};
+
+export const visitTemplateService = {
+  // Returns the current user's own templates and those shared by colleagues
+  async getTemplates(): Promise<VisitTemplate[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('visit_templates')
+      .select(`
+        *,
+        profiles (name)
+      `)
+      .eq('clinic_id', profile.clinicId)
+      .or(`doctor_id.eq.${profile.id},is_shared.eq.true`)
+      .order('name');
+
+    if (error) {
+      throw new Error(`Failed to fetch visit templates: ${error.message}`);
+    }
+
+    return data.map(convertDatabaseVisitTemplate);
+  },
+
+  async addTemplate(template: VisitTemplateInput): Promise<VisitTemplate> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { data, error } = await supabase
+      .from('visit_templates')
+      .insert([{
+        clinic_id: profile.clinicId,
+        doctor_id: profile.id,
+        name: template.name,
+        description: template.description,
+        is_shared: template.isShared,
+        ...convertTemplateContents(template)
+      }])
+      .select(`
+        *,
+        profiles (name)
+      `)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add visit template: ${error.message}`);
+    }
+
+    return convertDatabaseVisitTemplate(data);
+  },
+
+  async updateTemplate(id: string, template: Partial<VisitTemplateInput>): Promise<VisitTemplate> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const dbTemplate: Partial<DatabaseVisitTemplate> = {
+      ...convertTemplateContents(template),
+      updated_at: new Date().toISOString()
+    };
+
+    if (template.name) dbTemplate.name = template.name;
+    if (template.description !== undefined) dbTemplate.description = template.description;
+    if (template.isShared !== undefined) dbTemplate.is_shared = template.isShared;
+
+    const { data, error } = await supabase
+      .from('visit_templates')
+      .update(dbTemplate)
+      .eq('id', id)
+      .eq('doctor_id', profile.id)
+      .select(`
+        *,
+        profiles (name)
+      `)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update visit template: ${error.message}`);
+    }
+
+    return convertDatabaseVisitTemplate(data);
+  },
+
+  async deleteTemplate(id: string): Promise<void> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const profile = await getCurrentProfile();
+    if (!profile?.clinicId) {
+      throw new Error('User not assigned to a clinic.');
+    }
+
+    const { error } = await supabase
+      .from('visit_templates')
+      .delete()
+      .eq('id', id)
+      .eq('doctor_id', profile.id);
+
+    if (error) {
+      throw new Error(`Failed to delete visit template: ${error.message}`);
+    }
+  }
+};
@@ -2,6 +2,7 @@ export interface Patient {
   id: string;
   name: string;
   phone: string;
+  mrn?: string; // Clinic's medical record number, e.g. MRN-2025-00042
   age: number;
   gender: 'male' | 'female' | 'other';
   address: string;
@@ -9,6 +10,9 @@ export interface Patient {
   blood_group?: string;
   allergies?: string[];
   referred_by?: string;
+  is_provisional?: boolean; // Created from an online booking, details not yet confirmed
+  household_id?: string;
+  household_relationship?: HouseholdRelationship; // Relative to the head of household
   createdAt: Date;
   lastVisit?: Date;
 }
@@ -63,12 +67,71 @@ export interface Appointment {
   status: 'Scheduled' | 'Confirmed' | 'In_Progress' | 'Completed' | 'Cancelled' | 'No_Show';
   appointmentType: 'Consultation' | 'Follow_Up' | 'Emergency' | 'Routine_Checkup';
   notes?: string;
+  queueDate?: Date;
+  tokenNumber?: number;
+  isWalkIn?: boolean;
+  checkedInAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  seriesId?: string;
+  seriesIndex?: number;
+  bookedOnline?: boolean; // Requested by the patient from the public booking page
   createdAt: Date;
   updatedAt: Date;
   patient?: Patient;
   doctor?: Profile;
 }
 
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'interval';
+  weekdays?: number[]; // 0 = Sunday ... 6 = Saturday, for weekly series
+  intervalDays?: number; // Gap between sessions, for interval series
+  occurrences: number;
+}
+
+export interface AppointmentSeries {
+  id: string;
+  patientId: string;
+  doctorId: string;
+  rule: RecurrenceRule;
+  startDate: Date;
+  duration: number;
+  appointmentType: Appointment['appointmentType'];
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  appointments?: Appointment[];
+}
+
+export interface AvailabilityException {
+  id: string;
+  doctorId?: string; // Not set for clinic-wide holidays
+  exceptionType: 'day_off' | 'custom_hours' | 'holiday';
+  startDate: Date;
+  endDate: Date;
+  startTime?: string; // HH:mm, for custom_hours
+  endTime?: string;
+  reason?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface SeriesOccurrence {
+  seriesIndex: number;
+  appointmentDate: Date;
+  available: boolean;
+  conflict?: string; // Why the doctor is not available
+}
+
+export interface DoctorQueue {
+  doctor: Profile;
+  current?: Appointment; // In_Progress
+  waiting: Appointment[]; // Checked in (Confirmed), ordered by token
+  notArrived: Appointment[]; // Booked for today but not yet checked in
+  completed: Appointment[];
+}
+
 export interface Visit {
   id: string;
   patientId: string;
@@ -94,6 +157,7 @@ export interface Visit {
   followUpDate?: Date;
   doctorNotes: string;
   caseImageUrl?: string;
+  safetyOverrides?: PrescriptionSafetyOverride[];
   createdAt: Date;
   updatedAt: Date;
   patient?: Patient;
@@ -131,6 +195,7 @@ export interface Prescription {
   instructions: string;
   quantity?: number;
   refills?: number;
+  doseCalculation?: string; // Weight-based working printed under the medicine
   createdAt: Date;
 }
 
@@ -154,6 +219,7 @@ export interface TestResult {
   result: string;
   normalRange?: string;
   isAbnormal: boolean;
+  analyteValues?: AnalyteResult[];
   resultDate: Date;
   reportUrl?: string;
   notes?: string;
@@ -161,6 +227,16 @@ export interface TestResult {
   testOrdered?: TestOrdered;
 }
 
+// A measured value for one analyte, with the range it was judged against
+export interface AnalyteResult {
+  analyte: string;
+  value: number;
+  units?: string;
+  low?: number;
+  high?: number;
+  flag: 'low' | 'high' | 'normal';
+}
+
 export interface PaymentRecord {
   id: string;
   billId: string;
@@ -173,6 +249,10 @@ export interface PaymentRecord {
   notes?: string;
   receivedBy: string;
   receivedByProfile?: Profile;
+  isRefund?: boolean; // Refunds carry a negative amount
+  refundOfPaymentId?: string;
+  creditNoteId?: string;
+  paidFromDeposit?: boolean;
   createdAt: Date;
 }
 
@@ -184,11 +264,16 @@ export interface Bill {
   totalAmount: number;
   paidAmount: number;
   balanceAmount: number;
-  paymentStatus: 'pending' | 'partial' | 'paid' | 'overdue';
+  paymentStatus: 'pending' | 'partial' | 'paid' | 'overdue' | 'cancelled';
   paymentMethod?: 'cash' | 'card' | 'upi' | 'cheque' | 'online';
   billDate: Date;
   dueDate?: Date;
   notes?: string;
+  isInterState?: boolean; // IGST instead of CGST + SGST
+  creditedAmount?: number;
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidReason?: string;
   createdAt: Date;
   updatedAt: Date;
   billItems: BillItem[];
@@ -197,6 +282,84 @@ export interface Bill {
   visit?: Visit;
 }
 
+export interface PatientDeposit {
+  id: string;
+  patientId: string;
+  amount: number;
+  paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'net_banking';
+  reference?: string;
+  notes?: string;
+  depositDate: Date;
+  receivedBy?: string;
+  receivedByProfile?: Profile;
+  createdAt: Date;
+}
+
+export interface PatientLedgerEntry {
+  id: string;
+  date: Date;
+  type: 'charge' | 'payment' | 'deposit' | 'credit_note' | 'refund' | 'void';
+  description: string;
+  reference?: string;
+  debit: number; // Increases what the patient owes
+  credit: number; // Decreases what the patient owes
+  balance: number; // Running balance; negative means the patient is in advance
+}
+
+export interface PatientStatement {
+  patientId: string;
+  fromDate: Date;
+  toDate: Date;
+  openingBalance: number;
+  entries: PatientLedgerEntry[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  depositBalance: number; // Unapplied advance available for open bills
+}
+
+// What a patient still owes across their open bills
+export interface PatientOutstandingSummary {
+  outstandingAmount: number;
+  overdueAmount: number;
+  openBillCount: number;
+  overdueBillCount: number;
+  oldestDaysPastDue: number;
+  depositBalance: number;
+}
+
+export interface CreditNote {
+  id: string;
+  billId: string;
+  creditNoteNumber: string;
+  creditDate: Date;
+  reason: string;
+  totalAmount: number;
+  createdBy?: string;
+  createdByProfile?: Profile;
+  createdAt: Date;
+  items: CreditNoteItem[];
+  bill?: Bill;
+}
+
+export interface CreditNoteItem {
+  id: string;
+  creditNoteId: string;
+  billItemId: string;
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  tax: number; // GST rate (%)
+  hsnSacCode?: string;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalPrice: number;
+  createdAt: Date;
+}
+
 export interface DailyPaymentSummary {
   date: Date;
   cash: number;
@@ -205,12 +368,16 @@ export interface DailyPaymentSummary {
   cheque: number;
   net_banking: number;
   wallet: number;
-  total: number;
+  total: number; // Net of refunds
   transactionCount: number;
+  refundTotal: number;
+  refundCount: number;
   paymentBreakdown: {
     method: string;
     amount: number;
     count: number;
+    refundAmount: number;
+    refundCount: number;
   }[];
 }
 
@@ -261,7 +428,12 @@ export interface BillItem {
   unitPrice: number;
   totalPrice: number;
   discount?: number;
-  tax?: number;
+  tax?: number; // GST rate (%)
+  hsnSacCode?: string;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
   createdAt: Date;
 }
 
@@ -334,6 +506,9 @@ export interface ClinicSetting {
   registrationNumber?: string;
   taxId?: string;
   consultationFee: number;
+  consultationTaxExempt?: boolean;
+  consultationSacCode?: string;
+  consultationGstRate?: number;
   followUpFee: number;
   emergencyFee: number;
   appointmentDuration: number;
@@ -359,6 +534,24 @@ export interface ClinicSetting {
   enableAiThankYou?: boolean;
   enableGmbLinkOnly?: boolean;
   gmbLink?: string;
+  // Online booking
+  onlineBookingEnabled?: boolean;
+  onlineBookingDays?: number;
+  // Automatic reminders
+  enableAutoAppointmentReminders?: boolean;
+  enableAutoFollowUpReminders?: boolean;
+  followUpReminderDays?: number;
+  enableAutoPaymentReminders?: boolean; // Graded reminders for overdue bills
+  reminderSendStart?: string; // HH:mm
+  reminderSendEnd?: string;
+  reminderQuietStart?: string;
+  reminderQuietEnd?: string;
+  mrnPrefix?: string;
+  mrnIncludeYear?: boolean;
+  mrnSequencePadding?: number;
+  backupAutoEnabled?: boolean;
+  backupFrequency?: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  backupRetentionDays?: number;
 }
 
 export interface Review {
@@ -405,11 +598,22 @@ export interface MedicineMaster {
   reorderLevel: number;
   batchNumber?: string;
   expiryDate?: Date;
+  hsnCode?: string;
+  gstRate?: number;
+  dosingRule?: DosingRule;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface DosingRule {
+  mgPerKgPerDay: number;
+  maxDailyMg?: number;
+  maxSingleDoseMg?: number;
+  frequencies: string[]; // Allowed splits of the daily dose, e.g. ['BD', 'TID']
+  maxAgeYears?: number; // Only suggest for patients up to this age
+}
+
 export interface TestMaster {
   id: string;
   name: string;
@@ -417,20 +621,339 @@ export interface TestMaster {
   type: 'lab' | 'radiology' | 'procedure' | 'other';
   normalRange?: string;
   units?: string;
+  analytes?: TestAnalyte[];
   description?: string;
   preparationInstructions?: string;
+  sacCode?: string;
+  gstRate?: number;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface AnalyticsData {
-  totalPatients: number;
-  todayVisits: number;
+export interface DrugSafetyRule {
+  id: string;
+  ruleType: 'interaction' | 'duplicate_class' | 'contraindication';
+  name: string; // Therapeutic class for duplicate_class rules
+  drugTerms: string[];
+  otherTerms: string[]; // Interacting medicines, or diagnoses for contraindications
+  severity: 'low' | 'moderate' | 'high';
+  message?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PrescriptionSafetyAlert {
+  key: string; // Stable for the same medicines and rule, so overrides survive edits elsewhere in the form
+  type: 'allergy' | 'interaction' | 'duplicate_therapy' | 'contraindication';
+  severity: 'low' | 'moderate' | 'high';
+  medicines: string[];
+  message: string;
+}
+
+export interface PrescriptionSafetyOverride {
+  alertKey: string;
+  alertType: PrescriptionSafetyAlert['type'];
+  message: string;
+  reason: string;
+  overriddenBy?: string;
+  overriddenAt: Date;
+}
+
+export interface VisitTemplate {
+  id: string;
+  doctorId: string; // Owner; only they can edit or delete it
+  ownerName?: string;
+  name: string;
+  description?: string;
+  isShared: boolean; // Offered to every doctor in the clinic
+  symptoms: Omit<Symptom, 'id' | 'visitId' | 'createdAt'>[];
+  diagnoses: Omit<Diagnosis, 'id' | 'visitId' | 'createdAt'>[];
+  prescriptions: Pick<Prescription, 'medicineId' | 'medicine' | 'dosage' | 'frequency' | 'duration' | 'instructions' | 'quantity'>[];
+  testsOrdered: Pick<TestOrdered, 'testName' | 'testType' | 'instructions' | 'urgency'>[];
+  advice: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type VisitTemplateField = 'symptoms' | 'diagnoses' | 'prescriptions' | 'testsOrdered' | 'advice';
+
+// How a template field combines with what is already on the visit
+export type TemplateMergeMode = 'append' | 'replace' | 'skip';
+
+export type HouseholdRelationship = 'self' | 'spouse' | 'child' | 'parent' | 'sibling' | 'grandparent' | 'grandchild' | 'in_law' | 'other';
+
+export interface Household {
+  id: string;
+  name: string;
+  headPatientId?: string;
+  primaryPhone?: string;
+  members: Patient[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface HouseholdMemberDues {
+  patientId: string;
+  patientName: string;
+  relationship?: HouseholdRelationship;
+  outstanding: number;
+  bills: { id: string; billNumber: string; billDate: Date; balance: number }[];
+}
+
+export interface HouseholdDues {
+  householdId: string;
+  members: HouseholdMemberDues[];
+  totalOutstanding: number;
+}
+
+export interface DuplicatePatientCandidate {
+  patient: Patient;
+  duplicate: Patient;
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export interface PatientMerge {
+  id: string;
+  survivorId: string;
+  mergedPatientId: string;
+  survivorName?: string;
+  mergedPatientName?: string;
+  mergedPatientPhone?: string;
+  movedRecords: Record<string, string[]>; // Ids re-pointed to the survivor, by table
+  mergedBy?: string;
+  mergedByName?: string;
+  mergedAt: Date;
+  undoneAt?: Date;
+}
+
+export interface PatientImportRowError {
+  row: number; // Spreadsheet row number, counting the header as row 1
+  message: string;
+}
+
+export interface PatientImport {
+  id: string;
+  fileName: string;
+  totalRows: number;
+  importedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  errors: PatientImportRowError[];
+  status: 'in_progress' | 'completed' | 'rolled_back';
+  importedByName?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  rolledBackAt?: Date;
+}
+
+export interface ClinicBackup {
+  id: string;
+  filePath?: string;
+  fileFormat: 'zip' | 'json';
+  schemaVersion: number;
+  sizeBytes: number;
+  tableCounts: Record<string, number>;
+  triggerType: 'manual' | 'scheduled';
+  status: 'completed' | 'failed';
+  errorDetails?: string;
+  createdByName?: string;
+  createdAt: Date;
+}
+
+// Contents of manifest.json in a backup archive
+export interface ClinicBackupManifest {
+  format: string;
+  schemaVersion: number;
+  clinicId: string;
+  clinicName: string;
+  createdAt: string;
+  tables: Record<string, number>;
+}
+
+export interface DoctorPayoutRule {
+  id: string;
+  doctorId: string;
+  itemType: BillItem['itemType'];
+  payoutType: 'percentage' | 'fixed';
+  value: number;
+}
+
+// Monthly payout statement for a doctor; adjustments are negative
+export interface DoctorSettlement {
+  id: string;
+  doctorId: string;
+  doctorName?: string;
+  periodStart: Date;
+  periodEnd: Date;
+  earningsAmount: number;
+  adjustmentAmount: number;
+  netPayout: number;
+  status: 'draft' | 'settled';
+  paymentReference?: string;
+  notes?: string;
+  generatedAt: Date;
+  settledByName?: string;
+  settledAt?: Date;
+}
+
+export interface DoctorSettlementItem {
+  id: string;
+  settlementId: string;
+  entryType: 'earning' | 'adjustment';
+  billId: string;
+  billNumber?: string;
+  billDate?: Date;
+  patientName?: string;
+  itemType?: BillItem['itemType'];
+  itemName: string;
+  baseAmount: number;
+  payoutType?: 'percentage' | 'fixed';
+  ruleValue?: number;
+  payoutAmount: number;
+}
+
+// Cash and payments a cashier has taken during a shift
+export interface CashierShiftTotals {
+  cashReceived: number;
+  cashRefunded: number;
+  cashDeposits: number;
+  paymentCount: number;
+  refundCount: number;
+  depositCount: number;
+  methodTotals: Record<string, number>;
+}
+
+export interface CashierShift {
+  id: string;
+  cashierId: string;
+  cashierName?: string;
+  openedAt: Date;
+  openingFloat: number;
+  openingNotes?: string;
+  status: 'open' | 'closed' | 'signed_off';
+  closedAt?: Date;
+  closedByName?: string;
+  closingDenominations?: Record<string, number>; // Count per note or coin value
+  countedCash?: number;
+  cashReceived?: number;
+  cashRefunded?: number;
+  cashDeposits?: number;
+  expectedCash?: number;
+  variance?: number; // Counted less expected; negative is a shortage
+  methodTotals?: Record<string, number>;
+  closingNotes?: string;
+  signedOffByName?: string;
+  signedOffAt?: Date;
+  signOffNotes?: string;
+}
+
+export interface TestAnalyte {
+  name: string;
+  units?: string;
+  ranges: AnalyteReferenceRange[];
+}
+
+// Reference range for one analyte; ages are in years and inclusive, omitted bounds are open
+export interface AnalyteReferenceRange {
+  sex: 'any' | 'male' | 'female';
+  minAge?: number;
+  maxAge?: number;
+  low?: number;
+  high?: number;
+}
+
+export interface RecordPaymentInput {
+  billId: string;
+  amount: number;
+  paymentMethod: PaymentRecord['paymentMethod'];
+  cardReference?: string;
+  chequeNumber?: string;
+  bankName?: string;
+  notes?: string;
+  paymentDate?: Date;
+  paidFromDeposit?: boolean;
+}
+
+interface OfflineMutationBase {
+  id?: number; // IndexedDB key; replay runs in this order
+  offlineId: string; // Temporary id handed back to the UI while offline
+  clinicId: string;
+  createdBy?: string;
+  createdAt: Date;
+  status: 'pending' | 'conflict' | 'failed';
+  conflictReason?: string; // Set when the server changed since the mutation was queued
+  lastError?: string;
+  attempts: number;
+  force?: boolean; // Replay without the conflict checks, after the user reviewed the conflict
+}
+
+export type OfflineChange =
+  | { type: 'add_patient'; payload: Omit<Patient, 'id' | 'createdAt' | 'lastVisit'> }
+  | { type: 'add_visit'; payload: Omit<Visit, 'id' | 'createdAt' | 'updatedAt' | 'patient' | 'doctor'> }
+  | { type: 'record_payment'; payload: RecordPaymentInput };
+
+export type OfflineMutation = OfflineMutationBase & OfflineChange;
+
+export interface OfflineSyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  needsAttention: OfflineMutation[]; // Conflicts and failures waiting for the user
+  lastSyncedAt?: Date;
+}
+
+export type AnalyticsPeriod = '30d' | '3m' | '6m' | '1y';
+
+// Totals for one period; the dashboard compares them with the period before
+export interface AnalyticsTotals {
+  totalPatients: number; // Registered by the end of the period
+  registeredPatients: number; // Registered during the period
   totalVisits: number;
+  uniquePatients: number;
+  newPatients: number; // Seen for the first time during the period
+  returningPatients: number;
+  revenue: number; // Collections net of refunds
+  billedAmount: number; // Net of credit notes; voided bills excluded
+  billCount: number;
+  followUpsDue: number;
+  followUpsKept: number;
+}
+
+export interface AnalyticsData extends AnalyticsTotals {
+  period: AnalyticsPeriod;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  previous: AnalyticsTotals;
+  todayVisits: number;
+  yesterdayVisits: number;
+  peakHour?: number; // 0-23 in the clinic's timezone
   topDiagnoses: { name: string; count: number }[];
   topMedicines: { name: string; count: number }[];
-  monthlyVisits: { month: string; visits: number }[];
+  visitTrend: { label: string; visits: number }[];
+}
+
+// One doctor's line in the doctor revenue report
+export interface DoctorRevenueRow {
+  doctorId?: string; // Missing for bills not raised against a visit, e.g. pharmacy walk-ins
+  doctorName: string;
+  visitCount: number;
+  patientCount: number;
+  consultationCount: number;
+  consultationAmount: number;
+  procedureCount: number;
+  procedureAmount: number;
+  pharmacyAmount: number;
+  otherAmount: number; // Tests and other items
+  billCount: number;
+  billedAmount: number; // Net of credit notes
+  collectedAmount: number;
+  outstandingAmount: number;
+  followUpsAdvised: number;
+  followUpsDue: number; // Advised follow-ups whose date has passed
+  followUpsKept: number;
 }
 
 export interface Supplier {
@@ -470,10 +993,33 @@ export interface PharmacyInwardItem {
   totalCostPrice: number;
   batchNumber?: string;
   expiryDate?: Date;
+  batchId?: string;
+  createdAt: Date;
+  medicine?: MedicineMaster;
+}
+
+export interface MedicineBatch {
+  id: string;
+  medicineId: string;
+  batchNumber: string;
+  expiryDate?: Date;
+  quantityReceived: number;
+  currentStock: number;
+  unitCostPrice?: number;
+  firstReceiptId?: string;
   createdAt: Date;
+  updatedAt: Date;
   medicine?: MedicineMaster;
 }
 
+// One slice of a dispense request, taken from a single batch (or from unbatched stock)
+export interface BatchAllocation {
+  batchId?: string;
+  batchNumber?: string;
+  expiryDate?: Date;
+  quantity: number;
+}
+
 export interface PharmacyDispensedItem {
   id: string;
   visitId: string;
@@ -484,11 +1030,13 @@ export interface PharmacyDispensedItem {
   dispenseDate: Date;
   sellingPriceAtDispense?: number;
   totalSellingPrice?: number;
+  batchId?: string;
   batchNumber?: string;
   originalPrescriptionName?: string;
   isMatched?: boolean;
   createdAt: Date;
   medicine?: MedicineMaster;
+  batch?: MedicineBatch;
   dispensedByProfile?: Profile;
 }
 
@@ -565,5 +1113,6 @@ export interface SentMessageLog {
   deliveryMethod: 'manual_whatsapp' | 'blueticks_api';
   errorDetails?: string;
   sentBy?: string;
+  appointmentId?: string;
   createdAt: Date;
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * Period maths for the Analytics dashboard: the date range each period covers, the period it is
+ * compared with, and how its visit trend is bucketed
+ */
+
+import { addDays, format, startOfDay, subDays, subMonths } from 'date-fns';
+import { AnalyticsPeriod } from '../types';
+
+export type AnalyticsBucket = 'day' | 'week' | 'month';
+
+export const ANALYTICS_PERIODS: { value: AnalyticsPeriod; label: string; comparisonLabel: string; bucket: AnalyticsBucket }[] = [
+  { value: '30d', label: 'Last 30 Days', comparisonLabel: 'previous 30 days', bucket: 'week' },
+  { value: '3m', label: 'Last 3 Months', comparisonLabel: 'previous 3 months', bucket: 'week' },
+  { value: '6m', label: 'Last 6 Months', comparisonLabel: 'previous 6 months', bucket: 'month' },
+  { value: '1y', label: 'Last Year', comparisonLabel: 'previous year', bucket: 'month' }
+];
+
+export interface AnalyticsRange {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+const PERIOD_MONTHS: Partial<Record<AnalyticsPeriod, number>> = { '3m': 3, '6m': 6, '1y': 12 };
+
+/**
+ * Works out the range a period covers, ending with today, and the equally long range just before it
+ * @param period - Selected period
+ * @param now - Current time
+ * @returns The current and previous ranges
+ */
+export const getAnalyticsRanges = (period: AnalyticsPeriod, now: Date = new Date()): { current: AnalyticsRange; previous: AnalyticsRange } => {
+  const end = startOfDay(addDays(now, 1));
+  const months = PERIOD_MONTHS[period];
+
+  if (months) {
+    const start = subMonths(end, months);
+    return { current: { start, end }, previous: { start: subMonths(start, months), end: start } };
+  }
+
+  const start = subDays(end, 30);
+  return { current: { start, end }, previous: { start: subDays(start, 30), end: start } };
+};
+
+/**
+ * Percentage change from the previous period to the current one
+ * @param current - Value for the current period
+ * @param previous - Value for the previous period
+ * @returns The change rounded to a whole percent, or null when there is nothing to compare with
+ */
+export const percentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+};
+
+/**
+ * Label for one bucket of the visit trend
+ * @param bucketStart - First day of the bucket (yyyy-MM-dd)
+ * @param bucket - Bucket size
+ * @returns E.g. "12 Aug" for a day or week, "Aug 2025" for a month
+ */
+export const formatBucketLabel = (bucketStart: string, bucket: AnalyticsBucket): string => {
+  const date = new Date(`${bucketStart}T00:00:00`);
+  return bucket === 'month' ? format(date, 'MMM yyyy') : format(date, 'dd MMM');
+};
+
+/**
+ * Readable hour range for the busiest hour of the day
+ * @param hour - Hour of the day, 0-23
+ * @returns E.g. "10 AM - 11 AM"
+ */
+export const formatHourRange = (hour: number): string => {
+  const label = (h: number) => `${h % 12 === 0 ? 12 : h % 12} ${h % 24 < 12 ? 'AM' : 'PM'}`;
+  return `${label(hour)} - ${label(hour + 1)}`;
+};
@@ -0,0 +1,137 @@
+/**
+ * Dated availability exceptions: doctor leave, one-off custom hours and
+ * clinic-wide holidays layered over the weekly availability template
+ */
+
+import { addMinutes, endOfDay, startOfDay } from 'date-fns';
+import { AvailabilityException } from '../types';
+
+export interface DayHours {
+  isOpen: boolean;
+  startTime: string;
+  endTime: string;
+  breakStart?: string;
+  breakEnd?: string;
+}
+
+// Holidays win over leave, and leave wins over custom hours
+const EXCEPTION_PRECEDENCE: AvailabilityException['exceptionType'][] = ['holiday', 'day_off', 'custom_hours'];
+
+/**
+ * Checks whether an exception's date range includes a date
+ * @param exception - The exception to check
+ * @param date - Any time on the date
+ * @returns True if the date falls within the exception's dates
+ */
+export const exceptionCoversDate = (exception: AvailabilityException, date: Date): boolean => {
+  return startOfDay(exception.startDate) <= date && date <= endOfDay(exception.endDate);
+};
+
+/**
+ * Picks the exception that decides a doctor's hours on a date
+ * @param exceptions - Exceptions for the clinic (any doctor)
+ * @param doctorId - The doctor
+ * @param date - Any time on the date
+ * @returns The governing exception, if any
+ */
+export const getGoverningException = (
+  exceptions: AvailabilityException[],
+  doctorId: string,
+  date: Date
+): AvailabilityException | undefined => {
+  const applicable = exceptions.filter(exception =>
+    (!exception.doctorId || exception.doctorId === doctorId) && exceptionCoversDate(exception, date)
+  );
+
+  for (const type of EXCEPTION_PRECEDENCE) {
+    const match = applicable.find(exception => exception.exceptionType === type);
+    if (match) return match;
+  }
+
+  return undefined;
+};
+
+/**
+ * Applies any exception for the date to the doctor's usual hours
+ * @param dayHours - Hours from the weekly template for that weekday
+ * @param exceptions - Exceptions for the clinic (any doctor)
+ * @param doctorId - The doctor
+ * @param date - Any time on the date
+ * @returns The hours that actually apply, and the exception that changed them
+ */
+export const resolveDayHours = (
+  dayHours: DayHours | undefined,
+  exceptions: AvailabilityException[],
+  doctorId: string,
+  date: Date
+): { hours?: DayHours; exception?: AvailabilityException } => {
+  const exception = getGoverningException(exceptions, doctorId, date);
+
+  if (!exception) {
+    return { hours: dayHours };
+  }
+
+  if (exception.exceptionType === 'custom_hours') {
+    return {
+      hours: { isOpen: true, startTime: exception.startTime || '00:00', endTime: exception.endTime || '23:59' },
+      exception
+    };
+  }
+
+  return { hours: dayHours ? { ...dayHours, isOpen: false } : undefined, exception };
+};
+
+/**
+ * Finds the exception, if any, that rules out an appointment
+ * @param exceptions - Exceptions for the clinic (any doctor)
+ * @param doctorId - The appointment's doctor
+ * @param appointmentDate - Appointment start
+ * @param duration - Appointment length in minutes
+ * @returns The blocking exception
+ */
+export const findBlockingException = (
+  exceptions: AvailabilityException[],
+  doctorId: string,
+  appointmentDate: Date,
+  duration: number
+): AvailabilityException | undefined => {
+  const exception = getGoverningException(exceptions, doctorId, appointmentDate);
+  if (!exception) return undefined;
+
+  if (exception.exceptionType !== 'custom_hours') {
+    return exception;
+  }
+
+  const atTime = (time: string) => {
+    const [hour, minute] = time.split(':').map(Number);
+    const date = new Date(appointmentDate);
+    date.setHours(hour, minute, 0, 0);
+    return date;
+  };
+
+  const outsideHours =
+    appointmentDate < atTime(exception.startTime || '00:00') ||
+    addMinutes(appointmentDate, duration) > atTime(exception.endTime || '23:59');
+
+  return outsideHours ? exception : undefined;
+};
+
+/**
+ * Describes an exception for staff, e.g. "On leave: Conference"
+ * @param exception - The exception
+ * @returns A short description
+ */
+export const describeException = (exception: AvailabilityException): string => {
+  const reason = exception.reason ? `: ${exception.reason}` : '';
+
+  switch (exception.exceptionType) {
+    case 'holiday':
+      return `Clinic holiday${reason}`;
+    case 'day_off':
+      return `Doctor on leave${reason}`;
+    case 'custom_hours':
+      return `Custom hours ${exception.startTime} - ${exception.endTime}${reason}`;
+    default:
+      return 'Unavailable';
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * Cash drawer counting for cashier shifts
+ */
+
+import { CashierShiftTotals } from '../types';
+
+// Indian notes and coins, largest first
+export const CASH_DENOMINATIONS = [2000, 500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+/**
+ * Adds up a denomination-wise count
+ * @param counts - Number of notes or coins per denomination value
+ * @returns Total cash counted
+ */
+export const countCash = (counts: Record<string, number>): number => {
+  return Object.entries(counts).reduce((sum, [value, count]) => sum + Number(value) * (count || 0), 0);
+};
+
+/**
+ * Cash that should be in the drawer: the float plus cash taken, less cash paid back
+ * @param openingFloat - Cash in the drawer when the shift opened
+ * @param totals - Shift totals from cashierShiftService
+ * @returns Expected cash
+ */
+export const expectedCash = (openingFloat: number, totals: CashierShiftTotals): number => {
+  return openingFloat + totals.cashReceived + totals.cashDeposits - totals.cashRefunded;
+};
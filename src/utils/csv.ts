@@ -0,0 +1,87 @@
+/**
+ * CSV helpers: reading uploaded CSV files and building CSV downloads
+ */
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells, escaped quotes, line breaks inside
+ * quotes and the byte-order mark Excel adds; semicolon- and tab-separated files are detected
+ * from the header line.
+ * @param text - Contents of the CSV file
+ * @returns Rows of cell text, with blank lines dropped
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map(cells => cells.map(value => value.trim()))
+    .filter(cells => cells.some(Boolean));
+};
+
+/**
+ * Builds CSV text from rows of values, quoting cells that contain commas, quotes or line breaks
+ * @param rows - Rows of cell values; the first row is usually the header
+ * @returns The CSV text
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][]): string => {
+  return rows
+    .map(row => row
+      .map(value => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(','))
+    .join('\r\n');
+};
+
+/**
+ * Downloads CSV text as a file. A byte-order mark is added so Excel reads non-English text correctly.
+ * @param csv - The CSV text
+ * @param filename - Name for the downloaded file
+ */
+export const downloadCsv = (csv: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,98 @@
+/**
+ * Derived figures and export rows for the doctor revenue report
+ */
+
+import { DoctorRevenueRow } from '../types';
+
+/**
+ * Adds up every doctor's line into a clinic total
+ * @param rows - Report rows
+ * @returns A row with the summed figures, named "Total"
+ */
+export const totalDoctorRevenueRows = (rows: DoctorRevenueRow[]): DoctorRevenueRow => {
+  const total: DoctorRevenueRow = {
+    doctorName: 'Total',
+    visitCount: 0,
+    patientCount: 0,
+    consultationCount: 0,
+    consultationAmount: 0,
+    procedureCount: 0,
+    procedureAmount: 0,
+    pharmacyAmount: 0,
+    otherAmount: 0,
+    billCount: 0,
+    billedAmount: 0,
+    collectedAmount: 0,
+    outstandingAmount: 0,
+    followUpsAdvised: 0,
+    followUpsDue: 0,
+    followUpsKept: 0
+  };
+
+  rows.forEach(row => {
+    (Object.keys(total) as (keyof DoctorRevenueRow)[]).forEach(key => {
+      if (typeof total[key] === 'number') {
+        (total[key] as number) += row[key] as number;
+      }
+    });
+  });
+
+  return total;
+};
+
+/**
+ * Average net value of the doctor's bills
+ * @param row - Report row
+ * @returns The average, or 0 without bills
+ */
+export const averageBillValue = (row: DoctorRevenueRow): number => {
+  return row.billCount > 0 ? row.billedAmount / row.billCount : 0;
+};
+
+/**
+ * Share of follow-ups already due that the patient came back for
+ * @param row - Report row
+ * @returns Whole percent, or null when no follow-up has fallen due yet
+ */
+export const followUpConversion = (row: DoctorRevenueRow): number | null => {
+  return row.followUpsDue > 0 ? Math.round((row.followUpsKept / row.followUpsDue) * 100) : null;
+};
+
+/**
+ * Builds the CSV export: a header row, one row per doctor and a total row
+ * @param rows - Report rows
+ * @returns Rows ready for toCsv
+ */
+export const doctorRevenueCsvRows = (rows: DoctorRevenueRow[]): (string | number)[][] => {
+  const amount = (value: number) => value.toFixed(2);
+  const line = (row: DoctorRevenueRow) => [
+    row.doctorName,
+    row.visitCount,
+    row.patientCount,
+    row.consultationCount,
+    amount(row.consultationAmount),
+    row.procedureCount,
+    amount(row.procedureAmount),
+    amount(row.pharmacyAmount),
+    amount(row.otherAmount),
+    row.billCount,
+    amount(row.billedAmount),
+    amount(averageBillValue(row)),
+    amount(row.collectedAmount),
+    amount(row.outstandingAmount),
+    row.followUpsAdvised,
+    row.followUpsDue,
+    row.followUpsKept,
+    followUpConversion(row) ?? ''
+  ];
+
+  return [
+    [
+      'Doctor', 'Visits', 'Patients', 'Consultations', 'Consultation Amount', 'Procedures', 'Procedure Amount',
+      'Pharmacy Sales', 'Other Items', 'Bills', 'Billed (Net)', 'Avg Bill Value', 'Collected', 'Outstanding',
+      'Follow-ups Advised', 'Follow-ups Due', 'Follow-ups Kept', 'Follow-up Conversion %'
+    ],
+    ...rows.map(line),
+    line(totalDoctorRevenueRows(rows))
+  ];
+};
@@ -0,0 +1,194 @@
+/**
+ * Weight-based paediatric dose calculation from a medicine's dosing rule
+ */
+
+import { DosingRule } from '../types';
+
+// Doses per day for the frequencies offered on the prescription form
+export const FREQUENCY_DOSES_PER_DAY: Record<string, number> = {
+  OD: 1,
+  BD: 2,
+  TID: 3,
+  QID: 4
+};
+
+export interface MedicineStrength {
+  mg: number; // Drug content of `per` units
+  per: number;
+  unit: 'ml' | 'tablet' | 'capsule';
+}
+
+export interface DoseSuggestion {
+  dosage: string;
+  frequency: string;
+  quantity?: number;
+  perDoseMg: number;
+  calculation: string;
+}
+
+// Smallest amount that can be measured out: 0.1 ml with an oral syringe, half a
+// scored tablet, whole capsules
+const MEASURABLE_STEP: Record<MedicineStrength['unit'], number> = {
+  ml: 0.1,
+  tablet: 0.5,
+  capsule: 1
+};
+
+// Rounds down so the dose never goes above the calculated (and capped) amount
+const roundDownToStep = (value: number, step: number): number =>
+  Math.round(Math.floor(value / step + 1e-9) * step * 100) / 100;
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Parses a strength such as "125mg/5ml", "100 mg/ml", "500mg" or "200 mcg"
+ * @param strength - Strength text from master data
+ * @param dosageForm - Dosage form, used to tell tablets from liquids when no volume is given
+ * @returns The parsed strength, or undefined when it cannot be turned into mg per unit
+ */
+export const parseStrength = (strength?: string, dosageForm?: string): MedicineStrength | undefined => {
+  if (!strength) return undefined;
+
+  const match = strength.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(mcg|mg|g)\b(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*ml)?/);
+  if (!match) return undefined;
+
+  const amount = parseFloat(match[1]);
+  const mg = match[2] === 'mcg' ? amount / 1000 : match[2] === 'g' ? amount * 1000 : amount;
+  const isLiquid = strength.toLowerCase().includes('ml');
+
+  if (isLiquid) {
+    return { mg, per: match[3] ? parseFloat(match[3]) : 1, unit: 'ml' };
+  }
+
+  const form = (dosageForm || '').toLowerCase();
+  if (/syrup|suspension|drops|solution|liquid/.test(form)) return undefined;
+
+  return { mg, per: 1, unit: form.includes('capsule') ? 'capsule' : 'tablet' };
+};
+
+/**
+ * Parses a duration such as "5 days", "1 week" or "10"
+ * @param duration - Duration text from the prescription
+ * @returns Number of days, or undefined when not recognised
+ */
+export const parseDurationDays = (duration?: string): number | undefined => {
+  const match = (duration || '').toLowerCase().match(/(\d+)\s*(day|week|month)?/);
+  if (!match) return undefined;
+
+  const value = parseInt(match[1]);
+  if (match[2] === 'week') return value * 7;
+  if (match[2] === 'month') return value * 30;
+  return value;
+};
+
+/**
+ * Works out a dose from weight, splitting the daily dose by frequency and applying the rule's maxima
+ * @param input - The dosing rule, strength on hand, patient weight and age, and the prescription's frequency and duration
+ * @returns The suggested dosage with its working, or undefined when the rule does not apply
+ */
+export const calculatePaediatricDose = (input: {
+  rule: DosingRule;
+  strength?: string;
+  dosageForm?: string;
+  weightKg: number;
+  ageYears?: number;
+  frequency: string;
+  duration?: string;
+}): DoseSuggestion | undefined => {
+  const { rule, weightKg } = input;
+  if (!weightKg || weightKg <= 0 || !rule.mgPerKgPerDay) return undefined;
+  if (rule.maxAgeYears !== undefined && input.ageYears !== undefined && input.ageYears > rule.maxAgeYears) return undefined;
+
+  const allowed = rule.frequencies.filter(frequency => FREQUENCY_DOSES_PER_DAY[frequency]);
+  const frequency = allowed.length === 0 || allowed.includes(input.frequency) ? input.frequency : allowed[0];
+  const dosesPerDay = FREQUENCY_DOSES_PER_DAY[frequency];
+  if (!dosesPerDay) return undefined;
+
+  const weightBasedDailyMg = weightKg * rule.mgPerKgPerDay;
+  const dailyMg = rule.maxDailyMg !== undefined ? Math.min(weightBasedDailyMg, rule.maxDailyMg) : weightBasedDailyMg;
+  let perDoseMg = dailyMg / dosesPerDay;
+  const singleDoseCapped = rule.maxSingleDoseMg !== undefined && perDoseMg > rule.maxSingleDoseMg;
+  if (singleDoseCapped) perDoseMg = rule.maxSingleDoseMg as number;
+
+  let calculation = `${formatNumber(weightKg)} kg × ${formatNumber(rule.mgPerKgPerDay)} mg/kg/day = ${formatNumber(weightBasedDailyMg)} mg/day`;
+  if (dailyMg < weightBasedDailyMg) calculation += ` (max ${formatNumber(dailyMg)} mg/day)`;
+  calculation += ` ÷ ${dosesPerDay} (${frequency}) = ${formatNumber(perDoseMg)} mg/dose`;
+  if (singleDoseCapped) calculation += ' (max single dose)';
+
+  const strength = parseStrength(input.strength, input.dosageForm);
+  if (!strength) {
+    return { dosage: `${formatNumber(perDoseMg)} mg`, frequency, perDoseMg, calculation };
+  }
+
+  const units = roundDownToStep(perDoseMg / (strength.mg / strength.per), MEASURABLE_STEP[strength.unit]);
+  if (units <= 0) {
+    return {
+      dosage: `${formatNumber(perDoseMg)} mg`,
+      frequency,
+      perDoseMg,
+      calculation: `${calculation} (less than the smallest measurable dose of ${input.strength})`
+    };
+  }
+
+  const dosage = `${formatNumber(units)} ${strength.unit === 'ml' ? 'ml' : `${strength.unit}${units > 1 ? 's' : ''}`}`;
+
+  // Never offer a dose the maxima would then flag
+  if (checkDoseAgainstMaximum({ rule, strength: input.strength, dosageForm: input.dosageForm, dosage, frequency })) {
+    return undefined;
+  }
+
+  const days = parseDurationDays(input.duration);
+
+  return {
+    dosage,
+    frequency,
+    quantity: days ? Math.ceil(units * dosesPerDay * days) : undefined,
+    perDoseMg: units * (strength.mg / strength.per),
+    calculation: `${calculation} → ${dosage} of ${input.strength}`
+  };
+};
+
+/**
+ * Converts an entered dosage such as "7.5 ml", "1 tablet" or "250 mg" to mg
+ * @param dosage - Dosage text from the prescription
+ * @param strength - Parsed strength on hand
+ * @returns Milligrams per dose, or undefined when the dosage cannot be read
+ */
+export const dosageToMg = (dosage: string, strength?: MedicineStrength): number | undefined => {
+  const match = dosage.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(mg|mcg|ml|tab|cap)?/);
+  if (!match) return undefined;
+
+  const value = parseFloat(match[1]);
+  if (match[2] === 'mg') return value;
+  if (match[2] === 'mcg') return value / 1000;
+  if (!strength) return undefined;
+  if (match[2] === 'ml' && strength.unit !== 'ml') return undefined;
+  return value * (strength.mg / strength.per);
+};
+
+/**
+ * Checks a manually entered dose against the rule's maximum single and daily doses
+ * @param input - The dosing rule, strength on hand, and the prescription's dosage and frequency
+ * @returns A warning message, or undefined when the dose is within limits or cannot be read
+ */
+export const checkDoseAgainstMaximum = (input: {
+  rule: DosingRule;
+  strength?: string;
+  dosageForm?: string;
+  dosage: string;
+  frequency: string;
+}): string | undefined => {
+  const perDoseMg = dosageToMg(input.dosage, parseStrength(input.strength, input.dosageForm));
+  if (perDoseMg === undefined) return undefined;
+
+  if (input.rule.maxSingleDoseMg !== undefined && perDoseMg > input.rule.maxSingleDoseMg) {
+    return `${formatNumber(perDoseMg)} mg per dose is above the maximum single dose of ${formatNumber(input.rule.maxSingleDoseMg)} mg.`;
+  }
+
+  const dosesPerDay = FREQUENCY_DOSES_PER_DAY[input.frequency];
+  if (dosesPerDay && input.rule.maxDailyMg !== undefined && perDoseMg * dosesPerDay > input.rule.maxDailyMg) {
+    return `${formatNumber(perDoseMg * dosesPerDay)} mg/day is above the maximum daily dose of ${formatNumber(input.rule.maxDailyMg)} mg.`;
+  }
+
+  return undefined;
+};
@@ -0,0 +1,87 @@
+/**
+ * First-expiry-first-out (FEFO) stock allocation for pharmacy dispensing
+ */
+
+import { BatchAllocation, MedicineBatch } from '../types';
+
+export interface FefoAllocationResult {
+  allocations: BatchAllocation[];
+  shortfall: number;
+}
+
+/**
+ * Checks whether a batch can still be dispensed on the given date
+ * @param batch - The batch to check
+ * @param onDate - The dispense date
+ * @returns True if the batch has no expiry or expires on/after the dispense date
+ */
+export const isBatchDispensable = (batch: MedicineBatch, onDate: Date = new Date()): boolean => {
+  if (!batch.expiryDate) {
+    return true;
+  }
+
+  const startOfDay = new Date(onDate);
+  startOfDay.setHours(0, 0, 0, 0);
+  return batch.expiryDate >= startOfDay;
+};
+
+/**
+ * Splits a requested quantity across batches, earliest expiry first.
+ * Stock that was received without a batch number is used last.
+ * @param batches - Batches of a single medicine
+ * @param quantity - Quantity to dispense
+ * @param unbatchedStock - Medicine stock not tracked in any batch
+ * @param onDate - The dispense date (expired batches are skipped)
+ * @returns The allocations and any quantity that could not be covered
+ */
+export const allocateFefo = (
+  batches: MedicineBatch[],
+  quantity: number,
+  unbatchedStock: number = 0,
+  onDate: Date = new Date()
+): FefoAllocationResult => {
+  const candidates = batches
+    .filter(batch => batch.currentStock > 0 && isBatchDispensable(batch, onDate))
+    .sort((a, b) => {
+      if (!a.expiryDate && !b.expiryDate) return a.createdAt.getTime() - b.createdAt.getTime();
+      if (!a.expiryDate) return 1;
+      if (!b.expiryDate) return -1;
+      return a.expiryDate.getTime() - b.expiryDate.getTime() || a.createdAt.getTime() - b.createdAt.getTime();
+    });
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = Math.max(0, quantity);
+
+  for (const batch of candidates) {
+    if (remaining === 0) break;
+
+    const take = Math.min(batch.currentStock, remaining);
+    allocations.push({
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      expiryDate: batch.expiryDate,
+      quantity: take
+    });
+    remaining -= take;
+  }
+
+  if (remaining > 0 && unbatchedStock > 0) {
+    const take = Math.min(unbatchedStock, remaining);
+    allocations.push({ quantity: take });
+    remaining -= take;
+  }
+
+  return { allocations, shortfall: remaining };
+};
+
+/**
+ * Medicine stock that is not covered by any batch row (e.g. stock received before
+ * batch tracking, or inward items without a batch number)
+ * @param currentStock - Medicine-level stock on hand
+ * @param batches - Batches of the same medicine
+ * @returns The unbatched quantity (never negative)
+ */
+export const getUnbatchedStock = (currentStock: number, batches: MedicineBatch[]): number => {
+  const batchedStock = batches.reduce((sum, batch) => sum + batch.currentStock, 0);
+  return Math.max(0, currentStock - batchedStock);
+};
@@ -0,0 +1,147 @@
+/**
+ * GST calculations for bill lines and tax invoices
+ */
+
+import { BillItem } from '../types';
+
+// GST slabs offered when configuring master data
+export const GST_RATE_OPTIONS = [0, 5, 12, 18, 28];
+
+export interface GstLineInput {
+  quantity: number;
+  unitPrice: number;
+  discount?: number; // percent
+  taxRate?: number; // percent
+  isInterState?: boolean;
+}
+
+export interface GstLineResult {
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  taxAmount: number;
+  totalPrice: number;
+}
+
+export interface GstRateSummary {
+  rate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  taxAmount: number;
+}
+
+/**
+ * Rounds a currency amount to paise
+ * @param amount - The amount to round
+ * @returns The amount rounded to 2 decimal places
+ */
+export const roundCurrency = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Computes the taxable value and GST components of a tax-exclusive bill line.
+ * Intra-state supplies split the tax equally into CGST and SGST; inter-state
+ * supplies carry the whole tax as IGST.
+ * @param line - Quantity, unit price, discount %, GST rate % and supply type
+ * @returns The line's taxable value, tax components and tax-inclusive total
+ */
+export const calculateLineTax = (line: GstLineInput): GstLineResult => {
+  const grossAmount = line.quantity * line.unitPrice;
+  const discountAmount = grossAmount * ((line.discount || 0) / 100);
+  const taxableValue = roundCurrency(grossAmount - discountAmount);
+  const taxAmount = roundCurrency(taxableValue * ((line.taxRate || 0) / 100));
+
+  let cgstAmount = 0;
+  let sgstAmount = 0;
+  let igstAmount = 0;
+
+  if (line.isInterState) {
+    igstAmount = taxAmount;
+  } else {
+    cgstAmount = roundCurrency(taxAmount / 2);
+    sgstAmount = roundCurrency(taxAmount - cgstAmount);
+  }
+
+  return {
+    taxableValue,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    taxAmount,
+    totalPrice: roundCurrency(taxableValue + taxAmount)
+  };
+};
+
+/**
+ * Fills in the tax components of a bill line from its rate and discount
+ * @param item - The bill line (`tax` is the GST rate %)
+ * @param isInterState - Whether the bill is an inter-state supply
+ * @returns The line with taxable value, tax components and total price set
+ */
+export const applyLineTax = <T extends Omit<BillItem, 'id' | 'billId' | 'createdAt'>>(
+  item: T,
+  isInterState: boolean = false
+): T => {
+  const result = calculateLineTax({
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    discount: item.discount,
+    taxRate: item.tax,
+    isInterState
+  });
+
+  return {
+    ...item,
+    taxableValue: result.taxableValue,
+    cgstAmount: result.cgstAmount,
+    sgstAmount: result.sgstAmount,
+    igstAmount: result.igstAmount,
+    totalPrice: result.totalPrice
+  };
+};
+
+/**
+ * Total GST charged on a bill line
+ * @param item - The bill line
+ * @returns CGST + SGST + IGST
+ */
+export const getLineTaxAmount = (item: Pick<BillItem, 'cgstAmount' | 'sgstAmount' | 'igstAmount'>): number => {
+  return roundCurrency((item.cgstAmount || 0) + (item.sgstAmount || 0) + (item.igstAmount || 0));
+};
+
+/**
+ * Groups bill lines by GST rate for the tax invoice summary
+ * @param items - Bill lines with computed tax components
+ * @returns One row per rate, ordered from lowest to highest rate
+ */
+export const summarizeTaxByRate = (
+  items: Pick<BillItem, 'tax' | 'totalPrice' | 'taxableValue' | 'cgstAmount' | 'sgstAmount' | 'igstAmount'>[]
+): GstRateSummary[] => {
+  const byRate = new Map<number, GstRateSummary>();
+
+  items.forEach(item => {
+    const rate = item.tax || 0;
+    const taxAmount = getLineTaxAmount(item);
+    const summary = byRate.get(rate) || {
+      rate,
+      taxableValue: 0,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 0,
+      taxAmount: 0
+    };
+
+    summary.taxableValue = roundCurrency(summary.taxableValue + (item.taxableValue ?? item.totalPrice - taxAmount));
+    summary.cgstAmount = roundCurrency(summary.cgstAmount + (item.cgstAmount || 0));
+    summary.sgstAmount = roundCurrency(summary.sgstAmount + (item.sgstAmount || 0));
+    summary.igstAmount = roundCurrency(summary.igstAmount + (item.igstAmount || 0));
+    summary.taxAmount = roundCurrency(summary.taxAmount + taxAmount);
+    byRate.set(rate, summary);
+  });
+
+  return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+};
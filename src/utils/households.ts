@@ -0,0 +1,61 @@
+/**
+ * Helpers for households: relationship labels and choosing which member a message is addressed to
+ */
+
+import { Household, HouseholdRelationship, Patient } from '../types';
+
+// Age below which a household member's messages go to the head of household by default
+export const DEPENDANT_AGE_LIMIT = 18;
+
+export const HOUSEHOLD_RELATIONSHIPS: { value: HouseholdRelationship; label: string }[] = [
+  { value: 'self', label: 'Head of household' },
+  { value: 'spouse', label: 'Spouse' },
+  { value: 'child', label: 'Child' },
+  { value: 'parent', label: 'Parent' },
+  { value: 'sibling', label: 'Sibling' },
+  { value: 'grandparent', label: 'Grandparent' },
+  { value: 'grandchild', label: 'Grandchild' },
+  { value: 'in_law', label: 'In-law' },
+  { value: 'other', label: 'Other' }
+];
+
+/**
+ * Gets the display label for a relationship to the head of household
+ * @param relationship - The stored relationship
+ * @returns The label, or an empty string if none is set
+ */
+export const getRelationshipLabel = (relationship?: HouseholdRelationship): string => {
+  return HOUSEHOLD_RELATIONSHIPS.find(option => option.value === relationship)?.label || '';
+};
+
+/**
+ * Suggests a household name from the head's name, e.g. "Ramesh Sharma" becomes "Sharma Family"
+ * @param headName - Name of the head of household
+ * @returns The suggested household name
+ */
+export const suggestHouseholdName = (headName: string): string => {
+  const words = (headName || '').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return 'Family';
+  const surname = words[words.length - 1];
+  return `${surname.charAt(0).toUpperCase()}${surname.slice(1).toLowerCase()} Family`;
+};
+
+/**
+ * Chooses who a message about a patient should be addressed to. Children and other dependants
+ * are reached through the head of household; adults are addressed directly.
+ * @param patient - The patient the message is about
+ * @param household - The patient's household, if any
+ * @returns The member to address
+ */
+export const chooseMessageRecipient = (patient: Patient, household: Household | null): Patient => {
+  if (!household?.headPatientId || household.headPatientId === patient.id) return patient;
+
+  const head = household.members.find(member => member.id === household.headPatientId);
+  if (!head) return patient;
+
+  const isDependant = patient.household_relationship === 'child' ||
+    patient.household_relationship === 'grandchild' ||
+    (patient.age > 0 && patient.age < DEPENDANT_AGE_LIMIT);
+
+  return isDependant ? head : patient;
+};
@@ -0,0 +1,97 @@
+/**
+ * Reference range lookup and abnormal flagging for structured lab results
+ */
+
+import { TestAnalyte, AnalyteReferenceRange, AnalyteResult } from '../types';
+
+/**
+ * Finds the reference range that applies to a patient. A range for the patient's sex
+ * is preferred over one marked 'any'; within each group the first age match wins.
+ * @param analyte - The analyte definition from the test master
+ * @param age - Patient age in years
+ * @param gender - Patient gender
+ * @returns The matching range, or undefined when none covers this patient
+ */
+export const findReferenceRange = (
+  analyte: TestAnalyte,
+  age: number,
+  gender: 'male' | 'female' | 'other'
+): AnalyteReferenceRange | undefined => {
+  const ageMatches = (range: AnalyteReferenceRange) =>
+    (range.minAge === undefined || age >= range.minAge) &&
+    (range.maxAge === undefined || age <= range.maxAge);
+
+  return (
+    analyte.ranges.find(range => range.sex === gender && ageMatches(range)) ||
+    analyte.ranges.find(range => range.sex === 'any' && ageMatches(range))
+  );
+};
+
+/**
+ * Flags a value against a reference range
+ * @param value - The measured value
+ * @param range - The applicable range; without one the value is treated as normal
+ * @returns 'low', 'high' or 'normal'
+ */
+export const flagAnalyteValue = (value: number, range?: Pick<AnalyteReferenceRange, 'low' | 'high'>): AnalyteResult['flag'] => {
+  if (range?.low !== undefined && value < range.low) return 'low';
+  if (range?.high !== undefined && value > range.high) return 'high';
+  return 'normal';
+};
+
+/**
+ * Builds flagged results for the analytes that have a value entered
+ * @param analytes - The test's analyte definitions
+ * @param values - Entered values keyed by analyte name
+ * @param age - Patient age in years
+ * @param gender - Patient gender
+ * @returns One result per analyte with a numeric value, in definition order
+ */
+export const buildAnalyteResults = (
+  analytes: TestAnalyte[],
+  values: Record<string, number | undefined>,
+  age: number,
+  gender: 'male' | 'female' | 'other'
+): AnalyteResult[] => {
+  return analytes
+    .filter(analyte => values[analyte.name] !== undefined && !isNaN(values[analyte.name] as number))
+    .map(analyte => {
+      const value = values[analyte.name] as number;
+      const range = findReferenceRange(analyte, age, gender);
+      return {
+        analyte: analyte.name,
+        value,
+        units: analyte.units,
+        low: range?.low,
+        high: range?.high,
+        flag: flagAnalyteValue(value, range)
+      };
+    });
+};
+
+/**
+ * Formats a reference range for display, e.g. "13 - 17", "< 200" or "> 40"
+ * @param range - The range bounds
+ * @returns The formatted range, or an empty string when both bounds are open
+ */
+export const formatReferenceRange = (range?: Pick<AnalyteReferenceRange, 'low' | 'high'>): string => {
+  if (!range) return '';
+  if (range.low !== undefined && range.high !== undefined) return `${range.low} - ${range.high}`;
+  if (range.high !== undefined) return `< ${range.high}`;
+  if (range.low !== undefined) return `> ${range.low}`;
+  return '';
+};
+
+/**
+ * Summarises analyte results as a single line for the free-text result field
+ * @param results - The flagged analyte results
+ * @returns e.g. "Haemoglobin: 11.2 g/dL (L); WBC: 7800 /cumm"
+ */
+export const summarizeAnalyteResults = (results: AnalyteResult[]): string => {
+  return results
+    .map(result => {
+      const flag = result.flag === 'low' ? ' (L)' : result.flag === 'high' ? ' (H)' : '';
+      return `${result.analyte}: ${result.value}${result.units ? ` ${result.units}` : ''}${flag}`;
+    })
+    .join('; ');
+};
@@ -0,0 +1,204 @@
+/**
+ * Helpers for the bulk patient import: mapping spreadsheet columns to patient fields and
+ * validating each row before anything is saved
+ */
+
+import { differenceInYears, isValid, parse } from 'date-fns';
+import { Patient } from '../types';
+import { normalizeNameTokens } from './patientMatching';
+import { toTitleCase } from './stringUtils';
+
+export type ImportCell = string | number | boolean | Date | null | undefined;
+
+export type ImportField =
+  | 'name'
+  | 'phone'
+  | 'age'
+  | 'date_of_birth'
+  | 'gender'
+  | 'address'
+  | 'emergency_contact'
+  | 'blood_group'
+  | 'allergies'
+  | 'referred_by';
+
+// Column index for each field; unmapped fields are left out
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportPatientData = Omit<Patient, 'id' | 'createdAt' | 'lastVisit'>;
+
+export interface ValidatedImportRow {
+  rowNumber: number; // Spreadsheet row number, counting the header as row 1
+  data?: ImportPatientData;
+  errors: string[];
+}
+
+// Rows are saved this many at a time; a failing batch is retried row by row to find the bad rows
+export const IMPORT_BATCH_SIZE = 100;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'patientname', 'fullname', 'patient'] },
+  { field: 'phone', label: 'Phone', required: true, aliases: ['phone', 'mobile', 'mobileno', 'phoneno', 'contact', 'contactno', 'phonenumber', 'mobilenumber'] },
+  { field: 'age', label: 'Age', aliases: ['age', 'ageyears', 'years'] },
+  { field: 'date_of_birth', label: 'Date of Birth', aliases: ['dob', 'dateofbirth', 'birthdate'] },
+  { field: 'gender', label: 'Gender', required: true, aliases: ['gender', 'sex'] },
+  { field: 'address', label: 'Address', aliases: ['address', 'addr', 'city', 'location'] },
+  { field: 'emergency_contact', label: 'Emergency Contact', aliases: ['emergencycontact', 'emergency', 'alternatephone', 'altphone'] },
+  { field: 'blood_group', label: 'Blood Group', aliases: ['bloodgroup', 'blood', 'bg'] },
+  { field: 'allergies', label: 'Allergies', aliases: ['allergies', 'allergy', 'knownallergies'] },
+  { field: 'referred_by', label: 'Referred By', aliases: ['referredby', 'referral', 'referrer', 'refby'] }
+];
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'dd-MM-yyyy', 'yyyy-MM-dd', 'dd.MM.yyyy', 'd/M/yyyy', 'dd MMM yyyy'];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const cellText = (cell: ImportCell): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+/**
+ * Guesses which column holds each patient field from the header row, e.g. "Mobile No." maps to phone
+ * @param headers - Header row of the spreadsheet
+ * @returns The guessed mapping; fields with no matching header are left out
+ */
+export const guessColumnMapping = (headers: ImportCell[]): ImportColumnMapping => {
+  const normalized = headers.map(header => normalizeHeader(cellText(header)));
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((header, i) =>
+      aliases.includes(header) && !Object.values(mapping).includes(i));
+    if (index !== -1) mapping[field] = index;
+  });
+
+  return mapping;
+};
+
+/**
+ * Normalizes an Indian mobile number to 10 digits, dropping spaces, dashes, +91 and a leading 0
+ * @param phone - Phone number as written in the spreadsheet
+ * @returns The 10-digit number, or null if it isn't one
+ */
+export const normalizeImportPhone = (phone: string): string | null => {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  return digits.length === 10 ? digits : null;
+};
+
+/**
+ * Reads a gender written in any of the usual ways (M, Male, F, Female, ...)
+ * @param gender - Gender as written in the spreadsheet
+ * @returns The patient gender, or null if it isn't recognised
+ */
+export const normalizeImportGender = (gender: string): Patient['gender'] | null => {
+  const value = gender.trim().toLowerCase();
+  if (['m', 'male', 'man', 'boy'].includes(value)) return 'male';
+  if (['f', 'female', 'woman', 'girl'].includes(value)) return 'female';
+  if (['o', 'other', 'others', 't', 'transgender'].includes(value)) return 'other';
+  return null;
+};
+
+const parseDateOfBirth = (cell: ImportCell): Date | null => {
+  if (cell instanceof Date) return isValid(cell) ? cell : null;
+  const text = cellText(cell);
+  if (!text) return null;
+
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(text, dateFormat, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+const normalizeBloodGroup = (bloodGroup: string): string => {
+  const match = bloodGroup.toUpperCase().replace(/\s/g, '').match(/^(AB|A|B|O)(\+|-|POS|NEG|\+VE|-VE|POSITIVE|NEGATIVE)$/);
+  if (!match) return bloodGroup.trim();
+  return `${match[1]}${match[2].startsWith('+') || match[2].startsWith('P') ? '+' : '-'}`;
+};
+
+/**
+ * Validates one spreadsheet row and converts it to patient data. Name, phone and gender are
+ * required, and so is the age unless a date of birth is given to work it out from.
+ * @param cells - Cells of the row
+ * @param mapping - Column for each patient field
+ * @param rowNumber - Spreadsheet row number, for the error report
+ * @returns The patient data, or the reasons the row can't be imported
+ */
+export const validateImportRow = (cells: ImportCell[], mapping: ImportColumnMapping, rowNumber: number): ValidatedImportRow => {
+  const value = (field: ImportField) => mapping[field] === undefined ? '' : cellText(cells[mapping[field]!]);
+  const errors: string[] = [];
+
+  const name = value('name');
+  if (!name) errors.push('Name is missing');
+
+  const phone = normalizeImportPhone(value('phone'));
+  if (!value('phone')) {
+    errors.push('Phone is missing');
+  } else if (!phone) {
+    errors.push(`Phone "${value('phone')}" is not a 10-digit mobile number`);
+  }
+
+  let age: number | null = null;
+  if (value('age')) {
+    age = Number(value('age').replace(/\s*(years?|yrs?|y)$/i, ''));
+    if (!Number.isInteger(age) || age < 0 || age > 120) {
+      errors.push(`Age "${value('age')}" must be a whole number from 0 to 120`);
+      age = null;
+    }
+  } else if (value('date_of_birth')) {
+    const dateOfBirth = parseDateOfBirth(mapping.date_of_birth === undefined ? null : cells[mapping.date_of_birth]);
+    if (!dateOfBirth || dateOfBirth > new Date()) {
+      errors.push(`Date of birth "${value('date_of_birth')}" is not a valid past date`);
+    } else {
+      age = differenceInYears(new Date(), dateOfBirth);
+    }
+  } else {
+    errors.push('Age is missing');
+  }
+
+  const gender = normalizeImportGender(value('gender'));
+  if (!value('gender')) {
+    errors.push('Gender is missing');
+  } else if (!gender) {
+    errors.push(`Gender "${value('gender')}" is not male, female or other`);
+  }
+
+  if (errors.length > 0 || !phone || age === null || !gender) {
+    return { rowNumber, errors };
+  }
+
+  const allergies = value('allergies')
+    .split(/[,;|]/)
+    .map(allergy => allergy.trim())
+    .filter(allergy => allergy && !['none', 'nil', 'na', 'n/a', 'nkda'].includes(allergy.toLowerCase()));
+
+  return {
+    rowNumber,
+    errors,
+    data: {
+      name: toTitleCase(name),
+      phone,
+      age,
+      gender,
+      address: value('address'),
+      emergency_contact: value('emergency_contact') || undefined,
+      blood_group: value('blood_group') ? normalizeBloodGroup(value('blood_group')) : undefined,
+      allergies: allergies.length > 0 ? allergies : undefined,
+      referred_by: value('referred_by') || undefined
+    }
+  };
+};
+
+/**
+ * Key used to spot the same person twice: families often share a phone, so the name is part of it
+ * @param name - Patient name
+ * @param phone - Normalized phone number
+ * @returns The key
+ */
+export const importDuplicateKey = (name: string, phone: string): string => {
+  return `${phone}:${normalizeNameTokens(name).join(' ')}`;
+};
@@ -0,0 +1,221 @@
+/**
+ * Duplicate patient detection: scores pairs of patient records on name, phone, age and gender
+ */
+
+import { Patient, DuplicatePatientCandidate } from '../types';
+
+const NAME_TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'smt', 'shri', 'sri', 'master', 'baby', 'kumari']);
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 60;
+
+/**
+ * Registration date of a patient. Patient lists come straight from the database, so it may still be snake_case.
+ * @param patient - The patient record
+ * @returns The registration date, or undefined if unknown
+ */
+export const getPatientCreatedAt = (patient: Patient): Date | undefined => {
+  const createdAt = patient.createdAt || (patient as Patient & { created_at?: string }).created_at;
+  return createdAt ? new Date(createdAt) : undefined;
+};
+
+/**
+ * Normalizes a name for comparison: lowercase, no titles or punctuation, tokens in sorted order
+ * @param name - The name as entered
+ * @returns The name tokens, sorted so "Kumar Ramesh" and "Ramesh Kumar" compare equal
+ */
+export const normalizeNameTokens = (name: string): string[] => {
+  return (name || '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !NAME_TITLES.has(token))
+    .sort();
+};
+
+/**
+ * Reduces a phone number to its last 10 digits so +91, 0 and spacing differences are ignored
+ * @param phone - The phone number as entered
+ * @returns The comparable digits, or an empty string if there are fewer than 7
+ */
+export const normalizePhone = (phone: string): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+/**
+ * Jaro-Winkler similarity between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @returns Similarity from 0 (nothing in common) to 1 (identical)
+ */
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Fuzzy similarity of two patient names, tolerant of spelling, word order, titles and a missing surname
+ * @param a - First name
+ * @param b - Second name
+ * @returns Similarity from 0 to 1
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const aTokens = normalizeNameTokens(a);
+  const bTokens = normalizeNameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const whole = jaroWinkler(aTokens.join(' '), bTokens.join(' '));
+
+  // Best match for each token of the shorter name, so "Ramesh" still matches "Ramesh Kumar"
+  const [shorter, longer] = aTokens.length <= bTokens.length ? [aTokens, bTokens] : [bTokens, aTokens];
+  const tokenAverage = shorter.reduce(
+    (sum, token) => sum + Math.max(...longer.map(other => jaroWinkler(token, other))),
+    0
+  ) / shorter.length;
+  // A partial name is weaker evidence than a full one
+  const partial = shorter.length < longer.length ? tokenAverage * 0.9 : tokenAverage;
+
+  return Math.max(whole, partial);
+};
+
+/**
+ * Scores how likely two patient records describe the same person
+ * @param a - First patient
+ * @param b - Second patient
+ * @returns Score from 0 to 100 and the reasons behind it
+ */
+export const scorePatientPair = (a: Patient, b: Patient): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const similarity = nameSimilarity(a.name, b.name);
+  score += similarity * 50;
+  if (similarity >= 0.98) {
+    reasons.push('Same name');
+  } else if (similarity >= 0.85) {
+    reasons.push('Similar name');
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+  if (phoneA && phoneA === phoneB) {
+    score += 30;
+    reasons.push('Same phone');
+  } else if (phoneA && phoneB && phoneA.slice(-7) === phoneB.slice(-7)) {
+    score += 15;
+    reasons.push('Phone differs only in prefix');
+  }
+
+  if (a.age && b.age) {
+    const ageGap = Math.abs(a.age - b.age);
+    if (ageGap <= 1) {
+      score += 10;
+      reasons.push(ageGap === 0 ? 'Same age' : 'Age within a year');
+    } else if (ageGap <= 3) {
+      score += 5;
+      reasons.push('Close age');
+    } else if (ageGap > 10) {
+      score -= 15;
+    }
+  }
+
+  if (a.gender && b.gender) {
+    if (a.gender === b.gender) {
+      score += 10;
+    } else {
+      // Family members often share a phone number; a different gender is strong evidence against a match
+      score -= 20;
+      reasons.push('Different gender');
+    }
+  }
+
+  return { score: Math.max(0, Math.min(100, Math.round(score))), reasons };
+};
+
+/**
+ * Finds likely duplicate pairs among a clinic's patients. Only pairs sharing a phone number or the
+ * start of a name are scored, which keeps this fast for large patient lists.
+ * @param patients - Patients to compare
+ * @param threshold - Minimum score (0-100) for a pair to be reported
+ * @returns Candidate pairs, highest score first; the older record is listed as `patient`
+ */
+export const findDuplicateCandidates = (
+  patients: Patient[],
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicatePatientCandidate[] => {
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) {
+      block.push(index);
+    } else {
+      blocks.set(key, [index]);
+    }
+  };
+
+  patients.forEach((patient, index) => {
+    const phone = normalizePhone(patient.phone);
+    if (phone) addToBlock(`phone:${phone}`, index);
+    normalizeNameTokens(patient.name).forEach(token => addToBlock(`name:${token.slice(0, 3)}`, index));
+  });
+
+  const seen = new Set<string>();
+  const candidates: DuplicatePatientCandidate[] = [];
+
+  blocks.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const pairKey = `${indexes[i]}:${indexes[j]}`;
+        if (indexes[i] === indexes[j] || seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const first = patients[indexes[i]];
+        const second = patients[indexes[j]];
+        const { score, reasons } = scorePatientPair(first, second);
+        if (score < threshold) continue;
+
+        const firstCreated = getPatientCreatedAt(first)?.getTime() || 0;
+        const secondCreated = getPatientCreatedAt(second)?.getTime() || 0;
+        const [older, newer] = firstCreated <= secondCreated ? [first, second] : [second, first];
+        candidates.push({ patient: older, duplicate: newer, score, reasons });
+      }
+    }
+  });
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
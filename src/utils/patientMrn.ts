@@ -0,0 +1,68 @@
+/**
+ * Helpers for medical record numbers (MRNs): previewing the clinic's format and reading scanned ID cards
+ */
+
+export const DEFAULT_MRN_PREFIX = 'MRN';
+export const DEFAULT_MRN_SEQUENCE_PADDING = 5;
+
+export interface MrnFormat {
+  prefix?: string;
+  includeYear?: boolean;
+  sequencePadding?: number;
+}
+
+/**
+ * Formats an MRN the same way the database does when a patient is registered,
+ * e.g. MRN-2025-00042, or MRN-00042 when the year is left out
+ * @param format - The clinic's MRN settings
+ * @param sequence - The patient's sequence number
+ * @param year - Registration year, used only when the format includes it
+ * @returns The formatted MRN
+ */
+export const formatMrn = (format: MrnFormat, sequence: number, year: number = new Date().getFullYear()): string => {
+  const prefix = (format.prefix ?? DEFAULT_MRN_PREFIX).trim().toUpperCase();
+  const padded = String(sequence).padStart(format.sequencePadding ?? DEFAULT_MRN_SEQUENCE_PADDING, '0');
+  const parts = [prefix, format.includeYear ?? true ? String(year) : '', padded].filter(Boolean);
+  return parts.join('-');
+};
+
+/**
+ * Checks an MRN prefix before it is saved; prefixes appear on printed cards and in barcodes
+ * @param prefix - The prefix entered in settings
+ * @returns An error message, or null if the prefix is valid
+ */
+export const validateMrnPrefix = (prefix: string): string | null => {
+  if (!/^[A-Za-z0-9]{1,10}$/.test(prefix.trim())) {
+    return 'MRN prefix can only contain letters and numbers (up to 10)';
+  }
+  return null;
+};
+
+/**
+ * Reads the MRN from scanned or typed text. The QR code on an ID card encodes a link
+ * ending in ?mrn=..., while the barcode encodes the MRN itself.
+ * @param text - Text from the scanner or the search box
+ * @returns The MRN, or null if the text does not look like one
+ */
+export const parseScannedMrn = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const linkMatch = trimmed.match(/[?&]mrn=([^&#\s]+)/i);
+  if (linkMatch) {
+    return decodeURIComponent(linkMatch[1]).toUpperCase();
+  }
+
+  // MRNs always end in a sequence number after a hyphen, e.g. MRN-00042 or OPD-2025-00042
+  return /^[A-Za-z0-9]+(-\d{4})?-\d+$/.test(trimmed) ? trimmed.toUpperCase() : null;
+};
+
+/**
+ * Builds the link encoded in an ID card's QR code; opening it goes to the patient's timeline
+ * @param mrn - The patient's MRN
+ * @param origin - Site origin, defaults to the current one
+ * @returns The link
+ */
+export const buildMrnLink = (mrn: string, origin: string = window.location.origin): string => {
+  return `${origin}/patients?mrn=${encodeURIComponent(mrn)}`;
+};
@@ -0,0 +1,171 @@
+/**
+ * Local safety checks run while prescribing: allergies, drug interactions,
+ * duplicate therapy and conflicts with the patient's diagnoses
+ */
+
+import { MedicineMaster, DrugSafetyRule, PrescriptionSafetyAlert } from '../types';
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+
+/**
+ * Checks whether a rule or allergy term refers to a prescribed medicine. The term is
+ * compared with the prescribed name and, when the medicine is in master data, its
+ * generic name and category.
+ * @param term - Term from a rule or the patient's allergy list
+ * @param prescribedName - Medicine name as written on the prescription
+ * @param master - Matching master data entry, if any
+ * @returns True when the term appears in any of the medicine's names
+ */
+export const termMatchesMedicine = (term: string, prescribedName: string, master?: MedicineMaster): boolean => {
+  const needle = normalize(term);
+  if (!needle) return false;
+
+  return [prescribedName, master?.name, master?.genericName, master?.category]
+    .map(normalize)
+    .some(descriptor => descriptor !== '' && descriptor.includes(needle));
+};
+
+/**
+ * Checks whether a term refers to one of the patient's diagnoses
+ * @param term - Diagnosis term from a rule or a medicine's contraindications
+ * @param diagnosis - Diagnosis name recorded on the visit
+ * @returns True when either contains the other
+ */
+const termMatchesDiagnosis = (term: string, diagnosis: string): boolean => {
+  const needle = normalize(term);
+  const haystack = normalize(diagnosis);
+  if (!needle || !haystack) return false;
+  return haystack.includes(needle) || needle.includes(haystack);
+};
+
+const alertKey = (type: PrescriptionSafetyAlert['type'], ...parts: string[]): string =>
+  [type, ...parts.map(normalize)].join(':');
+
+/**
+ * Runs every safety check against the current prescription list
+ * @param input - Prescribed medicine names, master data, the patient's allergies and diagnoses, and clinic rules
+ * @returns Alerts ordered by severity, one per distinct problem
+ */
+export const checkPrescriptionSafety = (input: {
+  prescriptions: string[];
+  medicineMaster: MedicineMaster[];
+  allergies: string[];
+  diagnoses: string[];
+  rules: DrugSafetyRule[];
+}): PrescriptionSafetyAlert[] => {
+  const alerts = new Map<string, PrescriptionSafetyAlert>();
+  const add = (alert: PrescriptionSafetyAlert) => {
+    if (!alerts.has(alert.key)) alerts.set(alert.key, alert);
+  };
+
+  const masterByName = new Map(input.medicineMaster.map(medicine => [normalize(medicine.name), medicine]));
+  const prescribed = [...new Set(input.prescriptions.map(name => name.trim()).filter(Boolean))]
+    .map(name => ({ name, master: masterByName.get(normalize(name)) }));
+  const rules = input.rules.filter(rule => rule.isActive);
+  const classRules = rules.filter(rule => rule.ruleType === 'duplicate_class');
+
+  const matchesAny = (terms: string[], medicine: { name: string; master?: MedicineMaster }) =>
+    terms.some(term => termMatchesMedicine(term, medicine.name, medicine.master));
+
+  // Allergies, either to the medicine itself or to its therapeutic class
+  prescribed.forEach(medicine => {
+    input.allergies.filter(allergy => normalize(allergy)).forEach(allergy => {
+      const allergyClass = classRules.find(rule =>
+        termMatchesDiagnosis(rule.name, allergy) && matchesAny(rule.drugTerms, medicine)
+      );
+
+      if (termMatchesMedicine(allergy, medicine.name, medicine.master) || allergyClass) {
+        add({
+          key: alertKey('allergy', medicine.name, allergy),
+          type: 'allergy',
+          severity: 'high',
+          medicines: [medicine.name],
+          message: allergyClass
+            ? `Patient is allergic to ${allergy}; ${medicine.name} is in the ${allergyClass.name} class.`
+            : `Patient is allergic to ${allergy}.`
+        });
+      }
+    });
+  });
+
+  // Drug-drug interactions
+  rules.filter(rule => rule.ruleType === 'interaction').forEach(rule => {
+    prescribed.forEach((first, i) => {
+      prescribed.slice(i + 1).forEach(second => {
+        const interacts =
+          (matchesAny(rule.drugTerms, first) && matchesAny(rule.otherTerms, second)) ||
+          (matchesAny(rule.drugTerms, second) && matchesAny(rule.otherTerms, first));
+
+        if (interacts) {
+          const pair = [first.name, second.name].sort();
+          add({
+            key: alertKey('interaction', rule.id, ...pair),
+            type: 'interaction',
+            severity: rule.severity,
+            medicines: pair,
+            message: `${pair[0]} + ${pair[1]}: ${rule.message || `${rule.name} interaction.`}`
+          });
+        }
+      });
+    });
+  });
+
+  // Duplicate therapy by therapeutic class
+  classRules.forEach(rule => {
+    const inClass = prescribed.filter(medicine => matchesAny(rule.drugTerms, medicine)).map(medicine => medicine.name).sort();
+    if (inClass.length > 1) {
+      add({
+        key: alertKey('duplicate_therapy', rule.id, ...inClass),
+        type: 'duplicate_therapy',
+        severity: rule.severity,
+        medicines: inClass,
+        message: `${inClass.join(', ')} are all ${rule.name}.${rule.message ? ` ${rule.message}` : ''}`
+      });
+    }
+  });
+
+  // Duplicate therapy by generic name, e.g. two brands of paracetamol
+  const byGeneric = new Map<string, string[]>();
+  prescribed.forEach(medicine => {
+    const generic = normalize(medicine.master?.genericName);
+    if (generic) byGeneric.set(generic, [...(byGeneric.get(generic) || []), medicine.name]);
+  });
+  byGeneric.forEach((names, generic) => {
+    if (names.length > 1) {
+      const sorted = [...names].sort();
+      add({
+        key: alertKey('duplicate_therapy', generic, ...sorted),
+        type: 'duplicate_therapy',
+        severity: 'moderate',
+        medicines: sorted,
+        message: `${sorted.join(', ')} contain the same drug (${generic}).`
+      });
+    }
+  });
+
+  // Conflicts with the patient's diagnoses, from clinic rules and medicine contraindications
+  const diagnoses = input.diagnoses.filter(diagnosis => normalize(diagnosis));
+  prescribed.forEach(medicine => {
+    diagnoses.forEach(diagnosis => {
+      const rule = rules.find(candidate =>
+        candidate.ruleType === 'contraindication' &&
+        matchesAny(candidate.drugTerms, medicine) &&
+        candidate.otherTerms.some(term => termMatchesDiagnosis(term, diagnosis))
+      );
+      const contraindication = medicine.master?.contraindications?.find(term => termMatchesDiagnosis(term, diagnosis));
+
+      if (rule || contraindication) {
+        add({
+          key: alertKey('contraindication', medicine.name, diagnosis),
+          type: 'contraindication',
+          severity: rule ? rule.severity : 'high',
+          medicines: [medicine.name],
+          message: `${medicine.name} is contraindicated in ${diagnosis}.${rule?.message ? ` ${rule.message}` : ''}`
+        });
+      }
+    });
+  });
+
+  const severityOrder: Record<PrescriptionSafetyAlert['severity'], number> = { high: 0, moderate: 1, low: 2 };
+  return [...alerts.values()].sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+};
@@ -0,0 +1,71 @@
+/**
+ * Accounts receivable ageing for open bills
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import { Bill } from '../types';
+
+export type AgeingBucketKey = '0_30' | '31_60' | '61_90' | '90_plus';
+
+export interface AgeingBucket {
+  key: AgeingBucketKey;
+  label: string;
+  amount: number;
+  count: number;
+}
+
+export const AGEING_BUCKETS: { key: AgeingBucketKey; label: string; maxDays?: number }[] = [
+  { key: '0_30', label: '0–30 days', maxDays: 30 },
+  { key: '31_60', label: '31–60 days', maxDays: 60 },
+  { key: '61_90', label: '61–90 days', maxDays: 90 },
+  { key: '90_plus', label: '90+ days' }
+];
+
+/**
+ * Whether a bill still has money owing on it
+ * @param bill - Bill to check
+ * @returns True for bills with a balance that are not cancelled
+ */
+export const isOpenBill = (bill: Pick<Bill, 'paymentStatus' | 'balanceAmount' | 'voidedAt'>): boolean => {
+  return bill.paymentStatus !== 'cancelled' && !bill.voidedAt && bill.balanceAmount > 0;
+};
+
+/**
+ * Days a bill is past its due date. Bills without a due date fall due on the bill date.
+ * @param bill - Bill to age
+ * @param today - Date to age against
+ * @returns Whole days past due, 0 when not yet due
+ */
+export const getDaysPastDue = (bill: Pick<Bill, 'billDate' | 'dueDate'>, today: Date = new Date()): number => {
+  return Math.max(differenceInCalendarDays(today, bill.dueDate || bill.billDate), 0);
+};
+
+/**
+ * Ageing bucket for a number of days past due
+ * @param daysPastDue - From getDaysPastDue
+ * @returns The bucket key
+ */
+export const getAgeingBucketKey = (daysPastDue: number): AgeingBucketKey => {
+  const bucket = AGEING_BUCKETS.find(b => b.maxDays === undefined || daysPastDue <= b.maxDays);
+  return bucket ? bucket.key : '90_plus';
+};
+
+/**
+ * Splits the outstanding balance of open bills into ageing buckets
+ * @param bills - Bills to age; paid and cancelled bills are ignored
+ * @param today - Date to age against
+ * @returns One entry per bucket, in AGEING_BUCKETS order
+ */
+export const ageReceivables = (bills: Bill[], today: Date = new Date()): AgeingBucket[] => {
+  const buckets = AGEING_BUCKETS.map(({ key, label }) => ({ key, label, amount: 0, count: 0 }));
+
+  bills.filter(isOpenBill).forEach(bill => {
+    const bucket = buckets.find(b => b.key === getAgeingBucketKey(getDaysPastDue(bill, today)));
+    if (bucket) {
+      bucket.amount += bill.balanceAmount;
+      bucket.count++;
+    }
+  });
+
+  return buckets;
+};
@@ -0,0 +1,96 @@
+/**
+ * Date generation for recurring appointments and treatment series
+ */
+
+import { addDays } from 'date-fns';
+import { RecurrenceRule } from '../types';
+
+// Stop searching for weekly matches after this many days
+const MAX_SERIES_SPAN_DAYS = 730;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface RecurrenceFormValue {
+  frequency: RecurrenceRule['frequency'];
+  weekdays: number[];
+  weeks: number;
+  intervalDays: number;
+  sessions: number;
+}
+
+/**
+ * Turns the booking form's "for N weeks" / "N sessions" choice into a rule
+ * @param value - Recurrence choices from the appointment form
+ * @param startDate - Date of the first session
+ * @returns The rule to store on the series
+ */
+export const toRecurrenceRule = (value: RecurrenceFormValue, startDate: Date): RecurrenceRule => {
+  if (value.frequency === 'weekly') {
+    return {
+      frequency: 'weekly',
+      weekdays: value.weekdays,
+      occurrences: countWeeklyOccurrences(startDate, value.weekdays, value.weeks)
+    };
+  }
+
+  return {
+    frequency: 'interval',
+    intervalDays: value.intervalDays,
+    occurrences: value.sessions
+  };
+};
+
+/**
+ * Lists the session dates of a series. Every session keeps the time of day of
+ * the first one.
+ * @param startDate - Date and time of the first possible session
+ * @param rule - Weekly (set weekdays) or interval (every N days) rule
+ * @returns The session dates in order
+ */
+export const generateOccurrenceDates = (startDate: Date, rule: RecurrenceRule): Date[] => {
+  const dates: Date[] = [];
+
+  if (rule.occurrences <= 0) {
+    return dates;
+  }
+
+  if (rule.frequency === 'interval') {
+    const intervalDays = Math.max(rule.intervalDays || 1, 1);
+    for (let i = 0; i < rule.occurrences; i++) {
+      dates.push(addDays(startDate, i * intervalDays));
+    }
+    return dates;
+  }
+
+  const weekdays = rule.weekdays || [];
+  if (weekdays.length === 0) {
+    return dates;
+  }
+
+  for (let offset = 0; offset < MAX_SERIES_SPAN_DAYS && dates.length < rule.occurrences; offset++) {
+    const candidate = addDays(startDate, offset);
+    if (weekdays.includes(candidate.getDay())) {
+      dates.push(candidate);
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Counts the sessions a weekly rule produces over a number of weeks, so that
+ * "Mon/Wed/Fri for 4 weeks" can be stored as a session count
+ * @param startDate - Date of the first possible session
+ * @param weekdays - Weekdays the sessions fall on (0 = Sunday)
+ * @param weeks - Number of weeks the series runs for
+ * @returns Number of sessions
+ */
+export const countWeeklyOccurrences = (startDate: Date, weekdays: number[], weeks: number): number => {
+  let count = 0;
+  for (let offset = 0; offset < weeks * 7; offset++) {
+    if (weekdays.includes(addDays(startDate, offset).getDay())) {
+      count++;
+    }
+  }
+  return count;
+};
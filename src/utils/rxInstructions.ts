@@ -0,0 +1,208 @@
+/**
+ * Plain-language dosage instructions for the printed prescription, in English, Hindi and Gujarati
+ */
+
+import { Prescription } from '../types';
+
+export type RxLanguage = 'en' | 'hi' | 'gu';
+
+export const RX_LANGUAGES: { value: RxLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'हिन्दी (Hindi)' },
+  { value: 'gu', label: 'ગુજરાતી (Gujarati)' }
+];
+
+interface RxTranslationTable {
+  labels: {
+    medicine: string;
+    howToTake: string;
+    duration: string;
+    advice: string;
+    followUp: string;
+    scanNote: string;
+  };
+  // Dose pattern is morning-afternoon-night
+  frequencies: Record<string, { pattern: string; text: string }>;
+  units: Record<string, string>;
+  phrases: Record<string, string>;
+  days: string;
+  weeks: string;
+  months: string;
+}
+
+// Keys of `phrases` are the common English instructions doctors type; anything else is printed as written
+const RX_TRANSLATIONS: Record<RxLanguage, RxTranslationTable> = {
+  en: {
+    labels: {
+      medicine: 'Medicine',
+      howToTake: 'How to take',
+      duration: 'Duration',
+      advice: 'Advice',
+      followUp: 'Next visit',
+      scanNote: 'Pharmacy: scan to look up this prescription'
+    },
+    frequencies: {
+      OD: { pattern: '1-0-0', text: 'once a day, in the morning' },
+      BD: { pattern: '1-0-1', text: 'twice a day, morning and night' },
+      TID: { pattern: '1-1-1', text: 'three times a day' },
+      QID: { pattern: '1-1-1-1', text: 'four times a day' },
+      HS: { pattern: '0-0-1', text: 'at bedtime' },
+      PRN: { pattern: 'SOS', text: 'only when needed' }
+    },
+    units: { tablet: 'tablet', tablets: 'tablets', capsule: 'capsule', capsules: 'capsules', ml: 'ml', drops: 'drops', drop: 'drop', puff: 'puff', puffs: 'puffs', sachet: 'sachet' },
+    phrases: {
+      'after meals': 'after food',
+      'after food': 'after food',
+      'before meals': 'before food',
+      'before food': 'before food',
+      'with meals': 'with food',
+      'empty stomach': 'on an empty stomach',
+      'at bedtime': 'at bedtime',
+      'with water': 'with water',
+      'with milk': 'with milk',
+      'apply locally': 'apply on the affected area'
+    },
+    days: 'days',
+    weeks: 'weeks',
+    months: 'months'
+  },
+  hi: {
+    labels: {
+      medicine: 'दवा',
+      howToTake: 'कैसे लें',
+      duration: 'कितने दिन',
+      advice: 'सलाह',
+      followUp: 'अगली मुलाकात',
+      scanNote: 'फार्मेसी: इस पर्चे के लिए स्कैन करें'
+    },
+    frequencies: {
+      OD: { pattern: '1-0-0', text: 'दिन में एक बार, सुबह' },
+      BD: { pattern: '1-0-1', text: 'दिन में दो बार, सुबह और रात' },
+      TID: { pattern: '1-1-1', text: 'दिन में तीन बार' },
+      QID: { pattern: '1-1-1-1', text: 'दिन में चार बार' },
+      HS: { pattern: '0-0-1', text: 'रात को सोते समय' },
+      PRN: { pattern: 'SOS', text: 'ज़रूरत पड़ने पर ही' }
+    },
+    units: { tablet: 'गोली', tablets: 'गोली', capsule: 'कैप्सूल', capsules: 'कैप्सूल', ml: 'मि.ली.', drops: 'बूंद', drop: 'बूंद', puff: 'पफ', puffs: 'पफ', sachet: 'पाउच' },
+    phrases: {
+      'after meals': 'खाने के बाद',
+      'after food': 'खाने के बाद',
+      'before meals': 'खाने से पहले',
+      'before food': 'खाने से पहले',
+      'with meals': 'खाने के साथ',
+      'empty stomach': 'खाली पेट',
+      'at bedtime': 'सोते समय',
+      'with water': 'पानी के साथ',
+      'with milk': 'दूध के साथ',
+      'apply locally': 'प्रभावित जगह पर लगाएं'
+    },
+    days: 'दिन',
+    weeks: 'हफ्ते',
+    months: 'महीने'
+  },
+  gu: {
+    labels: {
+      medicine: 'દવા',
+      howToTake: 'કેવી રીતે લેવી',
+      duration: 'કેટલા દિવસ',
+      advice: 'સલાહ',
+      followUp: 'આગામી મુલાકાત',
+      scanNote: 'ફાર્મસી: આ પ્રિસ્ક્રિપ્શન માટે સ્કેન કરો'
+    },
+    frequencies: {
+      OD: { pattern: '1-0-0', text: 'દિવસમાં એક વાર, સવારે' },
+      BD: { pattern: '1-0-1', text: 'દિવસમાં બે વાર, સવારે અને રાત્રે' },
+      TID: { pattern: '1-1-1', text: 'દિવસમાં ત્રણ વાર' },
+      QID: { pattern: '1-1-1-1', text: 'દિવસમાં ચાર વાર' },
+      HS: { pattern: '0-0-1', text: 'રાત્રે સૂતી વખતે' },
+      PRN: { pattern: 'SOS', text: 'જરૂર પડે ત્યારે જ' }
+    },
+    units: { tablet: 'ગોળી', tablets: 'ગોળી', capsule: 'કેપ્સ્યુલ', capsules: 'કેપ્સ્યુલ', ml: 'મિ.લી.', drops: 'ટીપાં', drop: 'ટીપું', puff: 'પફ', puffs: 'પફ', sachet: 'પાઉચ' },
+    phrases: {
+      'after meals': 'જમ્યા પછી',
+      'after food': 'જમ્યા પછી',
+      'before meals': 'જમ્યા પહેલાં',
+      'before food': 'જમ્યા પહેલાં',
+      'with meals': 'જમતી વખતે',
+      'empty stomach': 'ખાલી પેટે',
+      'at bedtime': 'સૂતી વખતે',
+      'with water': 'પાણી સાથે',
+      'with milk': 'દૂધ સાથે',
+      'apply locally': 'અસરગ્રસ્ત જગ્યાએ લગાવો'
+    },
+    days: 'દિવસ',
+    weeks: 'અઠવાડિયા',
+    months: 'મહિના'
+  }
+};
+
+/**
+ * Gets the printed headings for a language
+ * @param language - Print language
+ * @returns Translated section labels
+ */
+export const getRxLabels = (language: RxLanguage): RxTranslationTable['labels'] => RX_TRANSLATIONS[language].labels;
+
+/**
+ * Translates the unit in a dosage such as "1 tablet" or "5 ml"
+ * @param dosage - Dosage as entered
+ * @param language - Print language
+ * @returns The dosage with its unit translated, or as entered when the unit is unknown
+ */
+export const translateDosage = (dosage: string, language: RxLanguage): string => {
+  const units = RX_TRANSLATIONS[language].units;
+  return dosage.replace(/[a-z]+/gi, word => units[word.toLowerCase()] || word);
+};
+
+/**
+ * Writes out a frequency code as a dose pattern and plain words
+ * @param frequency - Frequency code such as BD or TID
+ * @param language - Print language
+ * @returns e.g. "1-0-1 (twice a day, morning and night)", or the code itself when unknown
+ */
+export const describeFrequency = (frequency: string, language: RxLanguage): string => {
+  const entry = RX_TRANSLATIONS[language].frequencies[frequency.trim().toUpperCase()];
+  return entry ? `${entry.pattern} (${entry.text})` : frequency;
+};
+
+/**
+ * Translates a duration such as "5 days" or "2 weeks"
+ * @param duration - Duration as entered
+ * @param language - Print language
+ * @returns The translated duration, or as entered when not recognised
+ */
+export const translateDuration = (duration: string, language: RxLanguage): string => {
+  const table = RX_TRANSLATIONS[language];
+  return duration
+    .replace(/\bdays?\b/i, table.days)
+    .replace(/\bweeks?\b/i, table.weeks)
+    .replace(/\bmonths?\b/i, table.months);
+};
+
+/**
+ * Translates a known instruction phrase such as "After meals"
+ * @param instructions - Instruction text as entered
+ * @param language - Print language
+ * @returns The translated phrase, or the original text when there is no translation
+ */
+export const translateInstructions = (instructions: string, language: RxLanguage): string => {
+  const phrase = RX_TRANSLATIONS[language].phrases[instructions.trim().toLowerCase()];
+  return phrase || instructions;
+};
+
+/**
+ * Builds the plain-language line printed under a medicine
+ * @param prescription - The prescription row
+ * @param language - Print language
+ * @returns e.g. "1 tablet • 1-0-1 (twice a day, morning and night) • after food"
+ */
+export const buildRxInstruction = (
+  prescription: Pick<Prescription, 'dosage' | 'frequency' | 'instructions'>,
+  language: RxLanguage
+): string => {
+  return [
+    prescription.dosage ? translateDosage(prescription.dosage, language) : '',
+    prescription.frequency ? describeFrequency(prescription.frequency, language) : '',
+    prescription.instructions ? translateInstructions(prescription.instructions, language) : ''
+  ].filter(Boolean).join(' • ');
+};
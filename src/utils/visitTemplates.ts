@@ -0,0 +1,63 @@
+/**
+ * Applying visit templates (order sets) to the EMR form, field by field
+ */
+
+import { VisitTemplate, VisitTemplateField, TemplateMergeMode } from '../types';
+
+export const VISIT_TEMPLATE_FIELDS: { field: VisitTemplateField; label: string }[] = [
+  { field: 'symptoms', label: 'Symptoms' },
+  { field: 'diagnoses', label: 'Diagnoses' },
+  { field: 'prescriptions', label: 'Prescriptions' },
+  { field: 'testsOrdered', label: 'Tests Ordered' },
+  { field: 'advice', label: 'Advice' }
+];
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+
+/**
+ * Combines the rows already on the visit with those from a template
+ * @param current - Rows already on the form
+ * @param incoming - Rows from the template
+ * @param mode - Append, replace or skip
+ * @param keyOf - Identifies a row, so appending does not add a second copy of the same item
+ * @returns The merged rows
+ */
+export const mergeTemplateRows = <T, U>(
+  current: T[],
+  incoming: U[],
+  mode: TemplateMergeMode,
+  keyOf: (row: T | U) => string
+): (T | U)[] => {
+  if (mode === 'skip' || incoming.length === 0) return current;
+  if (mode === 'replace') return incoming;
+
+  // Ignore blank rows on the form, e.g. an empty symptom added but not filled in
+  const kept = current.filter(row => keyOf(row) !== '');
+  const existing = new Set(kept.map(keyOf));
+  return [...kept, ...incoming.filter(row => !existing.has(keyOf(row)))];
+};
+
+/**
+ * Suggests a merge mode for each field: append where the visit already has entries,
+ * skip where the template has nothing to add
+ * @param template - Template being applied
+ * @returns Merge mode per field
+ */
+export const defaultMergeModes = (template: VisitTemplate): Record<VisitTemplateField, TemplateMergeMode> => {
+  const modes = {} as Record<VisitTemplateField, TemplateMergeMode>;
+  VISIT_TEMPLATE_FIELDS.forEach(({ field }) => {
+    modes[field] = template[field].length > 0 ? 'append' : 'skip';
+  });
+  return modes;
+};
+
+/**
+ * Row keys used when merging, matched case-insensitively on the item's name
+ */
+export const templateRowKeys = {
+  symptoms: (row: { name: string }) => normalize(row.name),
+  diagnoses: (row: { name: string }) => normalize(row.name),
+  prescriptions: (row: { medicine: string }) => normalize(row.medicine),
+  testsOrdered: (row: { testName: string }) => normalize(row.testName),
+  advice: (row: string) => normalize(row)
+};
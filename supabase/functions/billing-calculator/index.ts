@@ -7,13 +7,34 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+// GST on a tax-exclusive line: CGST + SGST for intra-state, IGST for inter-state supplies.
+// Same rules as calculateLineTax in src/utils/gstCalculator.ts; `discount` is a percentage of the line.
+const buildTaxedItem = (item, isInterState) => {
+  const round = (amount) => Math.round((amount + Number.EPSILON) * 100) / 100
+  const gross = item.quantity * item.unit_price
+  const taxableValue = round(gross - gross * ((item.discount || 0) / 100))
+  const taxAmount = round(taxableValue * ((item.tax || 0) / 100))
+  const cgstAmount = isInterState ? 0 : round(taxAmount / 2)
+  const sgstAmount = isInterState ? 0 : round(taxAmount - cgstAmount)
+  const igstAmount = isInterState ? taxAmount : 0
+
+  return {
+    ...item,
+    taxable_value: taxableValue,
+    cgst_amount: cgstAmount,
+    sgst_amount: sgstAmount,
+    igst_amount: igstAmount,
+    total_price: round(taxableValue + taxAmount)
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { visitId, patientId, appointmentType = 'consultation', additionalItems = [] } = await req.json()
+    const { visitId, patientId, appointmentType = 'consultation', additionalItems = [], isInterState = false } = await req.json()
     
     if (!visitId || !patientId) {
       return new Response(
@@ -33,7 +54,7 @@ serve(async (req) => {
     // Get clinic settings for fee structure
     const { data: clinicSettings, error: settingsError } = await supabase
       .from('clinic_settings')
-      .select('consultation_fee, follow_up_fee, emergency_fee')
+      .select('consultation_fee, follow_up_fee, emergency_fee, consultation_tax_exempt, consultation_sac_code, consultation_gst_rate')
       .limit(1)
       .single()
 
@@ -93,7 +114,7 @@ serve(async (req) => {
     // Prepare bill items
     const billItems = []
 
-    // Add consultation fee
+    // Add consultation fee (exempt from GST unless the clinic opts out)
     billItems.push({
       item_type: 'consultation',
       item_name: `${appointmentType.replace('_', ' ')} Consultation`,
@@ -101,7 +122,8 @@ serve(async (req) => {
       unit_price: consultationFee,
       total_price: consultationFee,
       discount: 0,
-      tax: 0
+      tax: clinicSettings.consultation_tax_exempt === false ? (clinicSettings.consultation_gst_rate || 0) : 0,
+      hsn_sac_code: clinicSettings.consultation_sac_code || '999312'
     })
 
     // Add prescription items (if any charges apply)
@@ -121,7 +143,16 @@ serve(async (req) => {
 
     // Add test fees (if any)
     if (visit.tests_ordered && visit.tests_ordered.length > 0) {
+      // GST rate and SAC code come from the test master
+      const { data: testMasters } = await supabase
+        .from('tests_master')
+        .select('name, sac_code, gst_rate')
+        .eq('clinic_id', visit.clinic_id)
+        .in('name', visit.tests_ordered.map((test) => test.test_name))
+
       for (const test of visit.tests_ordered) {
+        const testMaster = testMasters?.find((master) => master.name === test.test_name)
+
         // Default test prices - in real system, get from tests_master
         let testPrice = 0
         switch (test.test_type) {
@@ -142,7 +173,8 @@ serve(async (req) => {
           unit_price: testPrice,
           total_price: testPrice,
           discount: 0,
-          tax: 0
+          tax: testMaster?.gst_rate || 0,
+          hsn_sac_code: testMaster?.sac_code
         })
       }
     }
@@ -156,15 +188,19 @@ serve(async (req) => {
         unit_price: item.unitPrice || 0,
         total_price: (item.quantity || 1) * (item.unitPrice || 0),
         discount: item.discount || 0,
-        tax: item.tax || 0
+        tax: item.tax || 0,
+        hsn_sac_code: item.hsnSacCode
       })
     }
 
+    // Compute GST components per line (discount and tax are both percentages)
+    const taxedItems = billItems.map((item) => buildTaxedItem(item, isInterState))
+
     // Calculate totals
-    const subtotal = billItems.reduce((sum, item) => sum + item.total_price, 0)
-    const totalDiscount = billItems.reduce((sum, item) => sum + (item.discount || 0), 0)
-    const totalTax = billItems.reduce((sum, item) => sum + (item.tax || 0), 0)
-    const totalAmount = subtotal - totalDiscount + totalTax
+    const subtotal = taxedItems.reduce((sum, item) => sum + item.quantity * item.unit_price, 0)
+    const totalDiscount = taxedItems.reduce((sum, item) => sum + (item.quantity * item.unit_price - item.taxable_value), 0)
+    const totalTax = taxedItems.reduce((sum, item) => sum + item.cgst_amount + item.sgst_amount + item.igst_amount, 0)
+    const totalAmount = taxedItems.reduce((sum, item) => sum + item.total_price, 0)
 
     // Generate bill number
     const billNumber = `BILL-${new Date().getFullYear()}${String(new Date().getMonth() + 1).padStart(2, '0')}${String(new Date().getDate()).padStart(2, '0')}-${Date.now().toString().slice(-6)}`
@@ -181,7 +217,8 @@ serve(async (req) => {
         balance_amount: totalAmount,
         payment_status: 'pending',
         bill_date: new Date().toISOString(),
-        due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() // 30 days from now
+        due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
+        is_inter_state: isInterState
       }])
       .select()
       .single()
@@ -192,7 +229,7 @@ serve(async (req) => {
     }
 
     // Create bill items
-    const billItemsWithBillId = billItems.map(item => ({
+    const billItemsWithBillId = taxedItems.map(item => ({
       ...item,
       bill_id: bill.id
     }))
@@ -0,0 +1,516 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { strFromU8, strToU8, unzipSync, zipSync } from 'npm:fflate@0.8.2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const BACKUP_FORMAT = 'clinic-backup'
+// Bump when a backed-up table is added or its meaning changes; older archives still restore
+const BACKUP_SCHEMA_VERSION = 3
+const BACKUP_BUCKET = 'clinic-backups'
+const PAGE_SIZE = 1000
+const ID_CHUNK_SIZE = 200
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const SIGNED_URL_SECONDS = 60 * 60
+
+// Scheduled runs fire every hour, so allow a few minutes of drift before a backup counts as due
+const FREQUENCY_MS: Record<string, number> = {
+  hourly: HOUR_MS - 10 * 60 * 1000,
+  daily: DAY_MS - 10 * 60 * 1000,
+  weekly: 7 * DAY_MS - 10 * 60 * 1000,
+  monthly: 30 * DAY_MS - 10 * 60 * 1000
+}
+
+interface BackupTable {
+  table: string
+  // Rows are read by clinic_id unless they hang off another table's rows, e.g. symptoms by visit_id
+  scope?: { from: string; fromColumn: string; column: string }
+  orderBy?: string
+  restore?: boolean
+}
+
+// In export order; restore_backup puts tables back in its own dependency order
+const BACKUP_TABLES: BackupTable[] = [
+  { table: 'clinic_settings' },
+  { table: 'profiles', restore: false }, // Staff accounts live in auth; kept for reference only
+  { table: 'medicines_master' },
+  { table: 'tests_master' },
+  { table: 'drug_safety_rules' },
+  { table: 'clinic_medicine_prices' },
+  { table: 'clinic_test_prices' },
+  { table: 'visit_templates' },
+  { table: 'patient_imports' },
+  { table: 'households' },
+  { table: 'patients' },
+  { table: 'patient_mrn_counters', orderBy: 'year' },
+  { table: 'patient_merges' },
+  { table: 'appointment_series' },
+  { table: 'appointments' },
+  { table: 'availability_exceptions' },
+  { table: 'visits' },
+  { table: 'symptoms', scope: { from: 'visits', fromColumn: 'id', column: 'visit_id' } },
+  { table: 'diagnoses', scope: { from: 'visits', fromColumn: 'id', column: 'visit_id' } },
+  { table: 'prescriptions', scope: { from: 'visits', fromColumn: 'id', column: 'visit_id' } },
+  { table: 'tests_ordered', scope: { from: 'visits', fromColumn: 'id', column: 'visit_id' } },
+  { table: 'test_results', scope: { from: 'visits', fromColumn: 'id', column: 'visit_id' } },
+  { table: 'bills' },
+  { table: 'bill_items' },
+  { table: 'credit_notes' },
+  { table: 'credit_note_items' },
+  { table: 'payment_records' },
+  { table: 'patient_deposits' },
+  { table: 'pharmacy_inward_receipts' },
+  { table: 'suppliers', scope: { from: 'pharmacy_inward_receipts', fromColumn: 'supplier_id', column: 'id' } },
+  { table: 'medicine_batches' },
+  { table: 'pharmacy_inward_items' },
+  { table: 'pharmacy_dispensed_items' },
+  { table: 'stock_movement_log' },
+  { table: 'sent_messages_log' },
+  { table: 'doctor_payout_rules' },
+  { table: 'doctor_settlements' },
+  { table: 'doctor_settlement_items' },
+  { table: 'cashier_shifts' }
+]
+
+interface BackupManifest {
+  format: string
+  schemaVersion: number
+  clinicId: string
+  clinicName: string
+  createdAt: string
+  tables: Record<string, number>
+}
+
+type Row = Record<string, unknown>
+type SelectQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+const chunk = <T>(items: T[], size: number) => {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+// Read every row of one table for the clinic, a page at a time
+const exportTable = async (supabase: SupabaseClient, clinicId: string, spec: BackupTable, exported: Record<string, Row[]>) => {
+  const readPages = async (filter: (query: SelectQuery) => SelectQuery) => {
+    const rows: Row[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await filter(supabase.from(spec.table).select('*'))
+        .order(spec.orderBy || 'id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to export ${spec.table}: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) return rows
+    }
+  }
+
+  if (spec.table === 'clinic_settings') {
+    return readPages(query => query.eq('id', clinicId))
+  }
+
+  if (spec.scope) {
+    const ids = [...new Set((exported[spec.scope.from] || []).map(row => row[spec.scope!.fromColumn]).filter(Boolean))]
+    const rows: Row[] = []
+    for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) {
+      rows.push(...await readPages(query => query.in(spec.scope!.column, idChunk)))
+    }
+    return rows
+  }
+
+  return readPages(query => query.eq('clinic_id', clinicId))
+}
+
+// Export the clinic, write the archive to storage and record it
+const createBackup = async (
+  supabase: SupabaseClient,
+  clinic: { id: string; clinic_name: string },
+  options: { fileFormat: 'zip' | 'json'; triggerType: 'manual' | 'scheduled'; createdBy?: string }
+) => {
+  const exported: Record<string, Row[]> = {}
+  for (const spec of BACKUP_TABLES) {
+    exported[spec.table] = await exportTable(supabase, clinic.id, spec, exported)
+  }
+
+  const createdAt = new Date()
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    clinicId: clinic.id,
+    clinicName: clinic.clinic_name,
+    createdAt: createdAt.toISOString(),
+    tables: Object.fromEntries(Object.entries(exported).map(([table, rows]) => [table, rows.length]))
+  }
+
+  let archive: Uint8Array
+  if (options.fileFormat === 'zip') {
+    const files: Record<string, Uint8Array> = { 'manifest.json': strToU8(JSON.stringify(manifest, null, 2)) }
+    Object.entries(exported).forEach(([table, rows]) => {
+      files[`tables/${table}.json`] = strToU8(JSON.stringify(rows))
+    })
+    archive = zipSync(files, { level: 6 })
+  } else {
+    archive = strToU8(JSON.stringify({ manifest, tables: exported }))
+  }
+
+  const filePath = `${clinic.id}/${createdAt.toISOString().replace(/[:.]/g, '-')}.${options.fileFormat}`
+  const { error: uploadError } = await supabase.storage
+    .from(BACKUP_BUCKET)
+    .upload(filePath, archive, { contentType: options.fileFormat === 'zip' ? 'application/zip' : 'application/json' })
+
+  if (uploadError) {
+    throw new Error(`Failed to store backup: ${uploadError.message}`)
+  }
+
+  const { data: backup, error: insertError } = await supabase
+    .from('clinic_backups')
+    .insert({
+      clinic_id: clinic.id,
+      file_path: filePath,
+      file_format: options.fileFormat,
+      schema_version: BACKUP_SCHEMA_VERSION,
+      size_bytes: archive.byteLength,
+      table_counts: manifest.tables,
+      trigger_type: options.triggerType,
+      status: 'completed',
+      created_by: options.createdBy || null,
+      created_at: manifest.createdAt
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    throw new Error(`Failed to record backup: ${insertError.message}`)
+  }
+
+  return backup
+}
+
+// Read an archive written by createBackup, in either format
+const readArchive = (bytes: Uint8Array): { manifest: BackupManifest; tables: Record<string, Row[]> } => {
+  // ZIP files start with "PK"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    const files = unzipSync(bytes)
+    if (!files['manifest.json']) {
+      throw new Error('The archive has no manifest.json; it is not a clinic backup')
+    }
+
+    const manifest = JSON.parse(strFromU8(files['manifest.json']))
+    const tables: Record<string, Row[]> = {}
+    Object.entries(files).forEach(([name, content]) => {
+      const match = name.match(/^tables\/([a-z_]+)\.json$/)
+      if (match) tables[match[1]] = JSON.parse(strFromU8(content))
+    })
+    return { manifest, tables }
+  }
+
+  try {
+    const parsed = JSON.parse(strFromU8(bytes))
+    return { manifest: parsed.manifest, tables: parsed.tables || {} }
+  } catch {
+    throw new Error('The file is not a clinic backup (expected a .zip or .json archive)')
+  }
+}
+
+// Everything that must hold before an archive may be restored into this clinic
+const validateArchive = (manifest: BackupManifest | undefined, tables: Record<string, Row[]>, clinicId: string) => {
+  const problems: string[] = []
+
+  if (!manifest || manifest.format !== BACKUP_FORMAT) {
+    return ['The file is not a clinic backup']
+  }
+
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion < 1) {
+    problems.push('The backup has no valid schema version')
+  } else if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    problems.push(`The backup was made by a newer version (schema ${manifest.schemaVersion}; this server reads up to ${BACKUP_SCHEMA_VERSION})`)
+  }
+
+  if (manifest.clinicId !== clinicId) {
+    problems.push(`The backup belongs to another clinic (${manifest.clinicName || manifest.clinicId})`)
+  }
+
+  const known = new Set(BACKUP_TABLES.map(spec => spec.table))
+  Object.keys(tables).forEach(table => {
+    if (!known.has(table)) {
+      problems.push(`Unknown table in backup: ${table}`)
+    } else if (!Array.isArray(tables[table])) {
+      problems.push(`Table ${table} is malformed`)
+    } else if ((manifest.tables || {})[table] !== tables[table].length) {
+      problems.push(`Table ${table} has ${tables[table].length} rows but the manifest lists ${(manifest.tables || {})[table] ?? 0}; the file may be truncated`)
+    }
+  })
+
+  Object.keys(manifest.tables || {}).forEach(table => {
+    if (!(table in tables)) problems.push(`Table ${table} is missing from the archive`)
+  })
+
+  return problems
+}
+
+const downloadArchive = async (supabase: SupabaseClient, path: string) => {
+  const { data, error } = await supabase.storage.from(BACKUP_BUCKET).download(path)
+  if (error || !data) {
+    throw new Error(`Failed to read backup file: ${error?.message || 'not found'}`)
+  }
+  return new Uint8Array(await data.arrayBuffer())
+}
+
+// Delete backups past the clinic's retention, always keeping the newest completed one,
+// and uploads that were inspected but never restored
+const rotateBackups = async (supabase: SupabaseClient, clinicId: string, retentionDays: number) => {
+  const cutoff = new Date(Date.now() - Math.max(retentionDays, 1) * DAY_MS)
+
+  const { data: latest } = await supabase
+    .from('clinic_backups')
+    .select('id')
+    .eq('clinic_id', clinicId)
+    .eq('status', 'completed')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  let expiredQuery = supabase
+    .from('clinic_backups')
+    .select('id, file_path')
+    .eq('clinic_id', clinicId)
+    .lt('created_at', cutoff.toISOString())
+
+  if (latest) {
+    expiredQuery = expiredQuery.neq('id', latest.id)
+  }
+
+  const { data: expired, error: expiredError } = await expiredQuery
+  if (expiredError) {
+    throw new Error(`Failed to fetch expired backups: ${expiredError.message}`)
+  }
+
+  const { data: uploads } = await supabase.storage.from(BACKUP_BUCKET).list(`${clinicId}/uploads`)
+  const staleUploads = (uploads || [])
+    .filter(file => file.created_at && new Date(file.created_at).getTime() < Date.now() - DAY_MS)
+    .map(file => `${clinicId}/uploads/${file.name}`)
+
+  const paths = [...(expired || []).map(backup => backup.file_path).filter(Boolean), ...staleUploads]
+  if (paths.length > 0) {
+    const { error: removeError } = await supabase.storage.from(BACKUP_BUCKET).remove(paths)
+    if (removeError) {
+      throw new Error(`Failed to delete expired backup files: ${removeError.message}`)
+    }
+  }
+
+  if (expired && expired.length > 0) {
+    await supabase
+      .from('clinic_backups')
+      .delete()
+      .in('id', expired.map(backup => backup.id))
+  }
+
+  return expired?.length || 0
+}
+
+// Hourly run: back up every clinic whose scheduled backup is due, then apply retention
+const runScheduled = async (supabase: SupabaseClient, clinicId?: string, dryRun = false) => {
+  let clinicQuery = supabase
+    .from('clinic_settings')
+    .select('id, clinic_name, backup_frequency, backup_retention_days')
+    .eq('backup_auto_enabled', true)
+
+  if (clinicId) {
+    clinicQuery = clinicQuery.eq('id', clinicId)
+  }
+
+  const { data: clinics, error: clinicsError } = await clinicQuery
+  if (clinicsError) {
+    throw new Error(`Failed to fetch clinic settings: ${clinicsError.message}`)
+  }
+
+  const summaries = []
+  for (const clinic of clinics || []) {
+    const summary = { clinicId: clinic.id, backedUp: false, deleted: 0, error: undefined as string | undefined }
+    summaries.push(summary)
+
+    const { data: lastBackup } = await supabase
+      .from('clinic_backups')
+      .select('created_at')
+      .eq('clinic_id', clinic.id)
+      .eq('trigger_type', 'scheduled')
+      .eq('status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const interval = FREQUENCY_MS[clinic.backup_frequency] ?? FREQUENCY_MS.daily
+    const due = !lastBackup || Date.now() - new Date(lastBackup.created_at).getTime() >= interval
+    if (dryRun) {
+      summary.backedUp = due
+      continue
+    }
+
+    try {
+      if (due) {
+        await createBackup(supabase, clinic, { fileFormat: 'zip', triggerType: 'scheduled' })
+        summary.backedUp = true
+      }
+      summary.deleted = await rotateBackups(supabase, clinic.id, clinic.backup_retention_days)
+    } catch (error) {
+      summary.error = error.message
+      console.error(`Scheduled backup for clinic ${clinic.id} failed:`, error)
+
+      if (due && !summary.backedUp) {
+        await supabase.from('clinic_backups').insert({
+          clinic_id: clinic.id,
+          file_format: 'zip',
+          schema_version: BACKUP_SCHEMA_VERSION,
+          trigger_type: 'scheduled',
+          status: 'failed',
+          error_details: error.message
+        })
+      }
+    }
+  }
+
+  return summaries
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const body = await req.json().catch(() => ({}))
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+
+    // The scheduler calls with the service role key
+    if (body.action === 'scheduled') {
+      if (token !== supabaseServiceKey) {
+        return jsonResponse({ error: 'Unauthorized' }, 401)
+      }
+
+      const summaries = await runScheduled(supabase, body.clinicId, !!body.dryRun)
+      return jsonResponse({ success: true, dryRun: !!body.dryRun, clinics: summaries })
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token)
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id, clinic_id, permissions, clinic_settings:clinic_id (id, clinic_name)')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const permissions: string[] = profile?.permissions || []
+    if (!profile?.clinic_id || !profile.clinic_settings) {
+      return jsonResponse({ error: 'User not assigned to a clinic.' }, 403)
+    }
+    if (!permissions.includes('system_settings') && !permissions.includes('all')) {
+      return jsonResponse({ error: 'You do not have permission to manage backups' }, 403)
+    }
+
+    const clinicId: string = profile.clinic_id
+    // Users may only name files in their own clinic's folder
+    const path: string | undefined = body.path
+    if (path !== undefined && (typeof path !== 'string' || !path.startsWith(`${clinicId}/`) || path.includes('..'))) {
+      return jsonResponse({ error: 'Backup file not found' }, 404)
+    }
+
+    switch (body.action) {
+      case 'create': {
+        const backup = await createBackup(supabase, profile.clinic_settings, {
+          fileFormat: body.fileFormat === 'json' ? 'json' : 'zip',
+          triggerType: 'manual',
+          createdBy: profile.id
+        })
+        const { data: signed } = await supabase.storage.from(BACKUP_BUCKET).createSignedUrl(backup.file_path, SIGNED_URL_SECONDS)
+        return jsonResponse({ success: true, backup, url: signed?.signedUrl })
+      }
+
+      case 'inspect': {
+        if (!path) return jsonResponse({ error: 'No backup file given' }, 400)
+
+        const { manifest, tables } = readArchive(await downloadArchive(supabase, path))
+        const problems = validateArchive(manifest, tables, clinicId)
+        return jsonResponse({ success: true, manifest, compatible: problems.length === 0, problems })
+      }
+
+      case 'restore': {
+        if (!path) return jsonResponse({ error: 'No backup file given' }, 400)
+
+        const { manifest, tables } = readArchive(await downloadArchive(supabase, path))
+        const problems = validateArchive(manifest, tables, clinicId)
+        if (problems.length > 0) {
+          return jsonResponse({ error: 'The backup cannot be restored', details: problems.join('; ') }, 422)
+        }
+
+        // One call, so the whole archive is restored in a single transaction or not at all
+        const restorable: Record<string, Row[]> = {}
+        BACKUP_TABLES.forEach(spec => {
+          const rows = tables[spec.table]
+          if (spec.restore !== false && rows && rows.length > 0) restorable[spec.table] = rows
+        })
+
+        const { data: restored, error: restoreError } = await supabase.rpc('restore_backup', {
+          p_clinic_id: clinicId,
+          p_tables: restorable
+        })
+
+        if (restoreError) {
+          throw new Error(`Failed to restore backup: ${restoreError.message}`)
+        }
+
+        const { data: backup } = await supabase
+          .from('clinic_backups')
+          .select('id')
+          .eq('clinic_id', clinicId)
+          .eq('file_path', path)
+          .maybeSingle()
+
+        await supabase.from('clinic_backup_restores').insert({
+          clinic_id: clinicId,
+          backup_id: backup?.id || null,
+          file_name: path.split('/').pop(),
+          schema_version: manifest.schemaVersion,
+          backup_created_at: manifest.createdAt,
+          row_counts: restored,
+          restored_by: profile.id
+        })
+
+        if (!backup) {
+          await supabase.storage.from(BACKUP_BUCKET).remove([path])
+        }
+
+        return jsonResponse({ success: true, restored })
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${body.action}` }, 400)
+    }
+
+  } catch (error) {
+    console.error('Clinic Backup Error:', error)
+    return jsonResponse({
+      error: 'Failed to process backup',
+      details: error.message
+    }, 500)
+  }
+})
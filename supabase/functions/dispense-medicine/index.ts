@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'npm:@supabase/supabase-js@2'
 
+interface BatchRow {
+  id: string
+  batch_number: string
+  expiry_date: string | null
+  current_stock: number
+}
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -29,7 +36,10 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Check stock availability for all items before dispensing
+    const today = new Date().toISOString().split('T')[0]
+    const dispensedItemsToInsert: Record<string, unknown>[] = []
+
+    // Check stock availability and allocate batches first-expiry-first-out
     for (const item of items) {
       const { data: medicine, error: medicineError } = await supabase
         .from('medicines_master')
@@ -41,10 +51,52 @@ serve(async (req) => {
         throw new Error(`Medicine not found or error fetching stock for ID: ${item.medicine_id}`)
       }
 
-      if (medicine.current_stock < item.quantity) {
+      const { data: batches, error: batchesError } = await supabase
+        .from('medicine_batches')
+        .select('id, batch_number, expiry_date, current_stock')
+        .eq('medicine_id', item.medicine_id)
+        .gt('current_stock', 0)
+        .order('expiry_date', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true })
+
+      if (batchesError) {
+        throw new Error(`Error fetching batches for ${medicine.name}: ${batchesError.message}`)
+      }
+
+      // Expired batches stay on the shelf until they are returned or written off
+      const batchRows: BatchRow[] = batches || []
+      const batchedStock = batchRows.reduce((sum, batch) => sum + batch.current_stock, 0)
+      const dispensableBatches = batchRows.filter(batch => !batch.expiry_date || batch.expiry_date >= today)
+      const unbatchedStock = Math.max(0, medicine.current_stock - batchedStock)
+      let remaining = item.quantity
+
+      const baseRow = {
+        visit_id,
+        prescription_id: item.prescription_id,
+        medicine_id: item.medicine_id,
+        dispensed_by,
+        dispense_date: new Date().toISOString(),
+        selling_price_at_dispense: item.selling_price_at_dispense
+      }
+      const rowsForItem: Record<string, unknown>[] = []
+
+      for (const batch of dispensableBatches) {
+        if (remaining === 0) break
+        const take = Math.min(batch.current_stock, remaining)
+        rowsForItem.push({ ...baseRow, quantity: take, batch_id: batch.id, batch_number: batch.batch_number })
+        remaining -= take
+      }
+
+      if (remaining > 0 && unbatchedStock > 0) {
+        const take = Math.min(unbatchedStock, remaining)
+        rowsForItem.push({ ...baseRow, quantity: take, batch_number: item.batch_number })
+        remaining -= take
+      }
+
+      if (remaining > 0) {
         return new Response(
           JSON.stringify({ 
-            error: `Insufficient stock for ${medicine.name}. Available: ${medicine.current_stock}, Requested: ${item.quantity}` 
+            error: `Insufficient stock for ${medicine.name}. Available: ${item.quantity - remaining}, Requested: ${item.quantity}` 
           }),
           { 
             status: 400, 
@@ -52,18 +104,9 @@ serve(async (req) => {
           }
         )
       }
-    }
 
-    // Prepare dispensed items for insertion
-    const dispensedItemsToInsert = items.map((item: any) => ({
-      visit_id,
-      medicine_id: item.medicine_id,
-      quantity: item.quantity,
-      dispensed_by,
-      dispense_date: new Date().toISOString(),
-      selling_price_at_dispense: item.selling_price_at_dispense,
-      batch_number: item.batch_number
-    }))
+      dispensedItemsToInsert.push(...rowsForItem)
+    }
 
     // Insert dispensed items (triggers will handle stock updates)
     const { data: dispensedData, error: dispenseError } = await supabase
@@ -72,6 +115,7 @@ serve(async (req) => {
       .select(`
         *,
         medicines_master (name, generic_name, dosage_form),
+        medicine_batches (batch_number, expiry_date),
         profiles (name)
       `)
 
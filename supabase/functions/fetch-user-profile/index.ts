@@ -93,7 +93,10 @@ serve(async (req) => {
           email,
           website,
           logo_url,
-          tax_id
+          tax_id,
+          consultation_tax_exempt,
+          consultation_sac_code,
+          consultation_gst_rate
         )
       `)
       .eq('id', user.id)
@@ -162,6 +165,9 @@ serve(async (req) => {
         registrationNumber: dbProfile.clinic_settings.registration_number,
         taxId: dbProfile.clinic_settings.tax_id,
         consultationFee: dbProfile.clinic_settings.consultation_fee,
+        consultationTaxExempt: dbProfile.clinic_settings.consultation_tax_exempt,
+        consultationSacCode: dbProfile.clinic_settings.consultation_sac_code,
+        consultationGstRate: dbProfile.clinic_settings.consultation_gst_rate,
         followUpFee: dbProfile.clinic_settings.follow_up_fee,
         emergencyFee: dbProfile.clinic_settings.emergency_fee,
         appointmentDuration: dbProfile.clinic_settings.appointment_duration,
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import QRCode from 'npm:qrcode@1.5.3'
+import bwipjs from 'npm:bwip-js@4.5.1'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,11 +39,30 @@ serve(async (req) => {
 
     let htmlContent = '';
     let filename = 'document.pdf';
+    let paperSize: string | undefined;
 
     // Dynamic HTML Generation based on type
     if (type === 'bill') {
       const { bill, patient, doctor, clinicSettings } = data;
       filename = `Bill_${bill.billNumber}_${patient.name.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
+
+      // Group line taxes by GST rate for the tax summary
+      const lineTax = (item) => (item.cgstAmount || 0) + (item.sgstAmount || 0) + (item.igstAmount || 0)
+      const taxByRate = new Map()
+      bill.billItems.forEach((item) => {
+        const rate = item.tax || 0
+        const row = taxByRate.get(rate) || { rate, taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, taxAmount: 0 }
+        row.taxableValue += item.taxableValue ?? (item.totalPrice - lineTax(item))
+        row.cgstAmount += item.cgstAmount || 0
+        row.sgstAmount += item.sgstAmount || 0
+        row.igstAmount += item.igstAmount || 0
+        row.taxAmount += lineTax(item)
+        taxByRate.set(rate, row)
+      })
+      const taxSummary = Array.from(taxByRate.values()).sort((a, b) => a.rate - b.rate)
+      const totalTaxable = taxSummary.reduce((sum, row) => sum + row.taxableValue, 0)
+      const totalTax = taxSummary.reduce((sum, row) => sum + row.taxAmount, 0)
+
       htmlContent = `
         <!DOCTYPE html>
         <html>
@@ -67,6 +88,7 @@ serve(async (req) => {
             .status-pending { background-color: #fff3cd; color: #856404; }
             .status-partial { background-color: #cce7ff; color: #004085; }
             .status-overdue { background-color: #f8d7da; color: #721c24; }
+            .status-cancelled { background-color: #e2e3e5; color: #383d41; }
           </style>
         </head>
         <body>
@@ -75,13 +97,15 @@ serve(async (req) => {
             <p>${clinicSettings.address}</p>
             <p>Phone: ${clinicSettings.phone}${clinicSettings.email ? ` | Email: ${clinicSettings.email}` : ''}</p>
             ${clinicSettings.registrationNumber ? `<p>Registration No: ${clinicSettings.registrationNumber}</p>` : ''}
+            ${clinicSettings.taxId ? `<p><strong>GSTIN: ${clinicSettings.taxId}</strong></p>` : ''}
           </div>
 
           <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 20px;">
             <div>
-              <h2 style="margin: 0;">BILL / INVOICE</h2>
-              <p style="margin: 5px 0;"><strong>Bill No:</strong> ${bill.billNumber}</p>
+              <h2 style="margin: 0;">TAX INVOICE</h2>
+              <p style="margin: 5px 0;"><strong>Invoice No:</strong> ${bill.billNumber}</p>
               <p style="margin: 5px 0;"><strong>Date:</strong> ${new Date(bill.billDate).toLocaleDateString('en-IN')}</p>
+              <p style="margin: 5px 0;"><strong>Supply Type:</strong> ${bill.isInterState ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}</p>
             </div>
             <div>
               <span class="status status-${bill.paymentStatus}">${bill.paymentStatus.toUpperCase()}</span>
@@ -114,9 +138,13 @@ serve(async (req) => {
               <tr>
                 <th>S.No</th>
                 <th>Item Description</th>
-                <th>Type</th>
+                <th>HSN/SAC</th>
                 <th>Qty</th>
                 <th>Unit Price (₹)</th>
+                <th>Disc %</th>
+                <th>Taxable (₹)</th>
+                <th>GST %</th>
+                <th>Tax (₹)</th>
                 <th>Total (₹)</th>
               </tr>
             </thead>
@@ -124,23 +152,63 @@ serve(async (req) => {
               ${bill.billItems.map((item, index) => `
                 <tr>
                   <td>${index + 1}</td>
-                  <td>${item.itemName}</td>
-                  <td style="text-transform: capitalize;">${item.itemType}</td>
+                  <td>${item.itemName}<br><span style="font-size: 10px; color: #777; text-transform: capitalize;">${item.itemType}</span></td>
+                  <td>${item.hsnSacCode || '-'}</td>
                   <td style="text-align: center;">${item.quantity}</td>
                   <td style="text-align: right;">${item.unitPrice.toFixed(2)}</td>
+                  <td style="text-align: right;">${(item.discount || 0).toFixed(2)}</td>
+                  <td style="text-align: right;">${(item.taxableValue ?? (item.totalPrice - lineTax(item))).toFixed(2)}</td>
+                  <td style="text-align: right;">${(item.tax || 0) === 0 ? 'Exempt' : `${item.tax}%`}</td>
+                  <td style="text-align: right;">${lineTax(item).toFixed(2)}</td>
                   <td style="text-align: right;">${item.totalPrice.toFixed(2)}</td>
                 </tr>
               `).join('')}
             </tbody>
           </table>
 
+          <h3>TAX SUMMARY</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>GST Rate</th>
+                <th>Taxable Value (₹)</th>
+                ${bill.isInterState ? '<th>IGST (₹)</th>' : '<th>CGST (₹)</th><th>SGST (₹)</th>'}
+                <th>Total Tax (₹)</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${taxSummary.map((row) => `
+                <tr>
+                  <td>${row.rate === 0 ? 'Exempt / Nil' : `${row.rate}%`}</td>
+                  <td style="text-align: right;">${row.taxableValue.toFixed(2)}</td>
+                  ${bill.isInterState
+                    ? `<td style="text-align: right;">${row.igstAmount.toFixed(2)}</td>`
+                    : `<td style="text-align: right;">${row.cgstAmount.toFixed(2)}</td><td style="text-align: right;">${row.sgstAmount.toFixed(2)}</td>`}
+                  <td style="text-align: right;">${row.taxAmount.toFixed(2)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+
           <div class="summary">
+            <div><span>Taxable Value:</span> <span>₹${totalTaxable.toFixed(2)}</span></div>
+            <div><span>Total GST:</span> <span>₹${totalTax.toFixed(2)}</span></div>
             <div><span>Total Amount:</span> <span>₹${bill.totalAmount.toFixed(2)}</span></div>
+            ${bill.creditedAmount > 0 ? `<div><span>Credit Notes:</span> <span>-₹${bill.creditedAmount.toFixed(2)}</span></div>` : ''}
             <div><span>Paid Amount:</span> <span style="color: #28a745;">₹${bill.paidAmount.toFixed(2)}</span></div>
             <div class="total"><span>Balance Due:</span> <span style="color: ${bill.balanceAmount > 0 ? '#dc3545' : '#28a745'};">₹${bill.balanceAmount.toFixed(2)}</span></div>
             ${bill.paymentMethod ? `<div><span>Payment Method:</span> <span style="text-transform: capitalize;">${bill.paymentMethod}</span></div>` : ''}
           </div>
 
+          ${bill.voidedAt ? `
+          <div style="margin-top: 20px;">
+            <h3>VOID</h3>
+            <p style="border: 1px solid #f5c6cb; background-color: #f8d7da; padding: 10px; border-radius: 5px;">
+              This invoice was voided on ${new Date(bill.voidedAt).toLocaleDateString('en-IN')}${bill.voidReason ? `: ${bill.voidReason}` : ''}
+            </p>
+          </div>
+          ` : ''}
+
           ${bill.notes ? `
           <div style="margin-top: 20px;">
             <h3>NOTES</h3>
@@ -149,9 +217,120 @@ serve(async (req) => {
           ` : ''}
 
           <div class="footer">
-            <p>This is a computer-generated bill and does not require a signature.</p>
+            <p>This is a computer-generated tax invoice and does not require a signature.</p>
             <p>Generated on ${new Date().toLocaleDateString('en-IN')} at ${new Date().toLocaleTimeString('en-IN')}</p>
-            ${clinicSettings.taxId ? `<p>Tax ID: ${clinicSettings.taxId}</p>` : ''}
+            ${clinicSettings.taxId ? `<p>GSTIN: ${clinicSettings.taxId}</p>` : ''}
+          </div>
+        </body>
+        </html>
+      `;
+    } else if (type === 'credit_note') {
+      const { creditNote, bill, patient, clinicSettings } = data;
+      filename = `CreditNote_${creditNote.creditNoteNumber}_${patient.name.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
+
+      const lineTax = (item) => (item.cgstAmount || 0) + (item.sgstAmount || 0) + (item.igstAmount || 0)
+      const totalTaxable = creditNote.items.reduce((sum, item) => sum + item.taxableValue, 0)
+      const totalTax = creditNote.items.reduce((sum, item) => sum + lineTax(item), 0)
+
+      htmlContent = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <title>Credit Note #${creditNote.creditNoteNumber}</title>
+          <style>
+            body { font-family: Arial, sans-serif; margin: 20px; color: #333; line-height: 1.4; }
+            .header { text-align: center; border-bottom: 2px solid #eee; padding-bottom: 20px; margin-bottom: 20px; }
+            .header h1 { margin: 0; font-size: 24px; color: #0066FF; }
+            .header p { margin: 5px 0; font-size: 12px; }
+            .details-section { display: flex; justify-content: space-between; margin-bottom: 20px; }
+            .details-section > div { width: 48%; border: 1px solid #eee; padding: 15px; border-radius: 5px; }
+            .details-section h3 { margin-top: 0; font-size: 16px; color: #0066FF; }
+            table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+            th, td { border: 1px solid #eee; padding: 8px; text-align: left; font-size: 12px; }
+            th { background-color: #f9f9f9; font-weight: bold; }
+            .summary { width: 300px; margin-left: auto; border: 1px solid #eee; padding: 15px; border-radius: 5px; }
+            .summary div { display: flex; justify-content: space-between; padding: 5px 0; font-size: 14px; }
+            .summary .total { font-weight: bold; border-top: 1px solid #eee; margin-top: 10px; padding-top: 10px; }
+            .footer { text-align: center; font-size: 10px; color: #777; margin-top: 30px; border-top: 1px solid #eee; padding-top: 10px; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>${clinicSettings.clinicName}</h1>
+            <p>${clinicSettings.address}</p>
+            <p>Phone: ${clinicSettings.phone}${clinicSettings.email ? ` | Email: ${clinicSettings.email}` : ''}</p>
+            ${clinicSettings.registrationNumber ? `<p>Registration No: ${clinicSettings.registrationNumber}</p>` : ''}
+            ${clinicSettings.taxId ? `<p><strong>GSTIN: ${clinicSettings.taxId}</strong></p>` : ''}
+          </div>
+
+          <div style="margin-bottom: 20px;">
+            <h2 style="margin: 0;">CREDIT NOTE</h2>
+            <p style="margin: 5px 0;"><strong>Credit Note No:</strong> ${creditNote.creditNoteNumber}</p>
+            <p style="margin: 5px 0;"><strong>Date:</strong> ${new Date(creditNote.creditDate).toLocaleDateString('en-IN')}</p>
+          </div>
+
+          <div class="details-section">
+            <div>
+              <h3>PATIENT DETAILS</h3>
+              <p><strong>Name:</strong> ${patient.name}</p>
+              <p><strong>Phone:</strong> ${patient.phone}</p>
+              <p><strong>Address:</strong> ${patient.address}</p>
+            </div>
+            <div>
+              <h3>ORIGINAL INVOICE</h3>
+              <p><strong>Invoice No:</strong> ${bill.billNumber}</p>
+              <p><strong>Invoice Date:</strong> ${new Date(bill.billDate).toLocaleDateString('en-IN')}</p>
+              <p><strong>Supply Type:</strong> ${bill.isInterState ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}</p>
+              <p><strong>Reason:</strong> ${creditNote.reason}</p>
+            </div>
+          </div>
+
+          <h3>CREDITED ITEMS</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>S.No</th>
+                <th>Item Description</th>
+                <th>HSN/SAC</th>
+                <th>Qty</th>
+                <th>Unit Price (₹)</th>
+                <th>Disc %</th>
+                <th>Taxable (₹)</th>
+                <th>GST %</th>
+                ${bill.isInterState ? '<th>IGST (₹)</th>' : '<th>CGST (₹)</th><th>SGST (₹)</th>'}
+                <th>Total (₹)</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${creditNote.items.map((item, index) => `
+                <tr>
+                  <td>${index + 1}</td>
+                  <td>${item.itemName}</td>
+                  <td>${item.hsnSacCode || '-'}</td>
+                  <td style="text-align: center;">${item.quantity}</td>
+                  <td style="text-align: right;">${item.unitPrice.toFixed(2)}</td>
+                  <td style="text-align: right;">${(item.discount || 0).toFixed(2)}</td>
+                  <td style="text-align: right;">${item.taxableValue.toFixed(2)}</td>
+                  <td style="text-align: right;">${(item.tax || 0) === 0 ? 'Exempt' : `${item.tax}%`}</td>
+                  ${bill.isInterState
+                    ? `<td style="text-align: right;">${item.igstAmount.toFixed(2)}</td>`
+                    : `<td style="text-align: right;">${item.cgstAmount.toFixed(2)}</td><td style="text-align: right;">${item.sgstAmount.toFixed(2)}</td>`}
+                  <td style="text-align: right;">${item.totalPrice.toFixed(2)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+
+          <div class="summary">
+            <div><span>Taxable Value:</span> <span>₹${totalTaxable.toFixed(2)}</span></div>
+            <div><span>Total GST:</span> <span>₹${totalTax.toFixed(2)}</span></div>
+            <div class="total"><span>Credit Amount:</span> <span>₹${creditNote.totalAmount.toFixed(2)}</span></div>
+          </div>
+
+          <div class="footer">
+            <p>This is a computer-generated credit note and does not require a signature.</p>
+            <p>Generated on ${new Date().toLocaleDateString('en-IN')} at ${new Date().toLocaleTimeString('en-IN')}</p>
+            ${clinicSettings.taxId ? `<p>GSTIN: ${clinicSettings.taxId}</p>` : ''}
           </div>
         </body>
         </html>
@@ -184,6 +363,8 @@ serve(async (req) => {
             .signature-section { display: flex; justify-content: space-between; margin-top: 30px; }
             .signature-box { text-align: center; }
             .signature-line { border-bottom: 1px solid #333; width: 150px; margin: 20px auto; }
+            .abnormal { color: #C62828; font-weight: bold; }
+            .dose-calculation { font-size: 10px; color: #555; font-style: italic; }
           </style>
         </head>
         <body>
@@ -285,7 +466,10 @@ serve(async (req) => {
                 ${visit.prescriptions.map((prescription, index) => `
                   <tr>
                     <td>${index + 1}</td>
-                    <td style="font-weight: bold;">${prescription.medicine}</td>
+                    <td>
+                      <strong>${prescription.medicine}</strong>
+                      ${prescription.doseCalculation ? `<br><span class="dose-calculation">${prescription.doseCalculation}</span>` : ''}
+                    </td>
                     <td>${prescription.dosage}</td>
                     <td>${prescription.frequency}</td>
                     <td>${prescription.duration}</td>
@@ -311,6 +495,48 @@ serve(async (req) => {
           </div>
           ` : ''}
 
+          ${visit.testResults && visit.testResults.length > 0 ? `
+          <div class="section">
+            <h3>TEST RESULTS</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th>Test</th>
+                  <th>Result</th>
+                  <th>Reference Range</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${visit.testResults.map(result => {
+                  const testName = visit.testsOrdered?.find(test => test.id === result.testOrderedId)?.testName || ''
+                  if (result.analyteValues && result.analyteValues.length > 0) {
+                    return result.analyteValues.map((value, index) => {
+                      const range = value.low !== undefined && value.high !== undefined ? `${value.low} - ${value.high}`
+                        : value.high !== undefined ? `< ${value.high}`
+                        : value.low !== undefined ? `> ${value.low}` : ''
+                      const flag = value.flag === 'high' ? ' H' : value.flag === 'low' ? ' L' : ''
+                      return `
+                        <tr>
+                          <td>${index === 0 ? `<strong>${testName}</strong><br>` : ''}${value.analyte}</td>
+                          <td class="${value.flag !== 'normal' ? 'abnormal' : ''}">${value.value}${value.units ? ` ${value.units}` : ''}${flag}</td>
+                          <td>${range}</td>
+                        </tr>
+                      `
+                    }).join('')
+                  }
+                  return `
+                    <tr>
+                      <td><strong>${testName}</strong></td>
+                      <td class="${result.isAbnormal ? 'abnormal' : ''}">${result.result}</td>
+                      <td>${result.normalRange || ''}</td>
+                    </tr>
+                  `
+                }).join('')}
+              </tbody>
+            </table>
+          </div>
+          ` : ''}
+
           ${visit.advice && visit.advice.length > 0 ? `
           <div class="section">
             <h3>ADVICE</h3>
@@ -354,6 +580,360 @@ serve(async (req) => {
         </body>
         </html>
       `;
+    } else if (type === 'prescription') {
+      const { visit, prescriptionSheet, patient, doctor, clinicSettings } = data;
+      const labels = prescriptionSheet.labels;
+      filename = `Rx_${patient.name.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date(visit.date).toLocaleDateString('en-IN').replace(/\//g, '-')}.pdf`;
+
+      // The QR code holds only the visit ID so the pharmacy can open the visit from its own login
+      const qrDataUrl = await QRCode.toDataURL(visit.id, { margin: 1, width: 120 })
+
+      htmlContent = `
+        <!DOCTYPE html>
+        <html lang="${prescriptionSheet.language}">
+        <head>
+          <title>Prescription for ${patient.name}</title>
+          <link href="https://fonts.googleapis.com/css2?family=Noto+Sans:wght@400;700&family=Noto+Sans+Devanagari:wght@400;700&family=Noto+Sans+Gujarati:wght@400;700&display=swap" rel="stylesheet">
+          <style>
+            body { font-family: 'Noto Sans', 'Noto Sans Devanagari', 'Noto Sans Gujarati', Arial, sans-serif; margin: 20px; color: #333; line-height: 1.4; }
+            .letterhead { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid #0066FF; padding-bottom: 15px; margin-bottom: 15px; }
+            .letterhead img { height: 60px; margin-bottom: 5px; }
+            .letterhead h1 { margin: 0; font-size: 22px; color: #0066FF; }
+            .letterhead p { margin: 2px 0; font-size: 12px; }
+            .doctor { text-align: right; }
+            .doctor h2 { margin: 0; font-size: 16px; }
+            .patient-row { display: flex; justify-content: space-between; font-size: 12px; padding: 8px 0; border-bottom: 1px solid #eee; margin-bottom: 15px; }
+            .rx-symbol { font-size: 28px; font-weight: bold; color: #0066FF; margin: 0 0 10px 0; }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { border-bottom: 1px solid #eee; padding: 10px 8px; text-align: left; font-size: 13px; vertical-align: top; }
+            th { background-color: #f9f9f9; font-size: 12px; }
+            .instruction { font-size: 13px; color: #222; margin-top: 3px; }
+            .dose-calculation { font-size: 10px; color: #555; font-style: italic; }
+            .section { margin-top: 20px; font-size: 13px; }
+            .section h3 { margin: 0 0 5px 0; font-size: 14px; color: #0066FF; }
+            .bottom { display: flex; justify-content: space-between; align-items: flex-end; margin-top: 40px; }
+            .qr { text-align: center; font-size: 9px; color: #777; }
+            .qr img { width: 90px; height: 90px; }
+            .signature { text-align: center; font-size: 12px; }
+            .signature-line { border-bottom: 1px solid #333; width: 180px; margin: 30px auto 5px auto; }
+            .footer { text-align: center; font-size: 10px; color: #777; margin-top: 20px; border-top: 1px solid #eee; padding-top: 8px; }
+          </style>
+        </head>
+        <body>
+          <div class="letterhead">
+            <div>
+              ${clinicSettings.logoUrl ? `<img src="${clinicSettings.logoUrl}" alt="${clinicSettings.clinicName}">` : ''}
+              <h1>${clinicSettings.clinicName}</h1>
+              <p>${clinicSettings.address}</p>
+              <p>Phone: ${clinicSettings.phone}${clinicSettings.email ? ` | Email: ${clinicSettings.email}` : ''}</p>
+            </div>
+            <div class="doctor">
+              <h2>Dr. ${doctor?.name || ''}</h2>
+              ${doctor?.qualification ? `<p>${doctor.qualification}</p>` : ''}
+              ${doctor?.specialization ? `<p>${doctor.specialization}</p>` : ''}
+              ${doctor?.registrationNo ? `<p><strong>Reg. No: ${doctor.registrationNo}</strong></p>` : ''}
+            </div>
+          </div>
+
+          <div class="patient-row">
+            <span><strong>${patient.name}</strong> • ${patient.age} yrs • ${patient.gender}${visit.vitals?.weight ? ` • ${visit.vitals.weight} kg` : ''}</span>
+            <span>${new Date(visit.date).toLocaleDateString('en-IN')}</span>
+          </div>
+
+          ${visit.diagnoses && visit.diagnoses.length > 0 ? `
+          <p style="font-size: 12px; margin: 0 0 10px 0;"><strong>Diagnosis:</strong> ${visit.diagnoses.map(diagnosis => diagnosis.name).join(', ')}</p>
+          ` : ''}
+
+          <p class="rx-symbol">℞</p>
+          <table>
+            <thead>
+              <tr>
+                <th style="width: 30px;">#</th>
+                <th>${labels.medicine} / ${labels.howToTake}</th>
+                <th style="width: 110px;">${labels.duration}</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${prescriptionSheet.items.map((item, index) => `
+                <tr>
+                  <td>${index + 1}</td>
+                  <td>
+                    <strong>${item.medicine}</strong>
+                    <div class="instruction">${item.instruction}</div>
+                    ${item.doseCalculation ? `<div class="dose-calculation">${item.doseCalculation}</div>` : ''}
+                  </td>
+                  <td>${item.duration}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+
+          ${visit.advice && visit.advice.length > 0 ? `
+          <div class="section">
+            <h3>${labels.advice}</h3>
+            ${visit.advice.map(advice => `<div>• ${advice}</div>`).join('')}
+          </div>
+          ` : ''}
+
+          ${visit.followUpDate ? `
+          <div class="section">
+            <h3>${labels.followUp}</h3>
+            <div>${new Date(visit.followUpDate).toLocaleDateString('en-IN')}</div>
+          </div>
+          ` : ''}
+
+          <div class="bottom">
+            <div class="qr">
+              <img src="${qrDataUrl}" alt="${visit.id}">
+              <div>${labels.scanNote}</div>
+            </div>
+            <div class="signature">
+              <div class="signature-line"></div>
+              <div>Dr. ${doctor?.name || ''}</div>
+              ${doctor?.registrationNo ? `<div style="font-size: 10px;">Reg. No: ${doctor.registrationNo}</div>` : ''}
+            </div>
+          </div>
+
+          <div class="footer">
+            <p>Visit ID: ${visit.id}</p>
+          </div>
+        </body>
+        </html>
+      `;
+    } else if (type === 'patient_card') {
+      const { patient, clinicSettings, cardLink } = data;
+      filename = `ID_Card_${patient.mrn}_${patient.name.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
+      // Standard ID-1 card size, so it prints on card stock or cuts to wallet size
+      paperSize = '85.6mm 54mm';
+
+      // The barcode suits handheld scanners at reception; the QR code opens the timeline from a phone
+      const barcodeSvg = bwipjs.toSVG({ bcid: 'code128', text: patient.mrn, height: 8, includetext: false })
+      const qrDataUrl = await QRCode.toDataURL(cardLink, { margin: 0, width: 120 })
+
+      htmlContent = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <title>Patient ID Card - ${patient.name}</title>
+          <style>
+            @page { size: 85.6mm 54mm; margin: 0; }
+            body { font-family: Arial, sans-serif; margin: 0; color: #333; }
+            .card { box-sizing: border-box; width: 85.6mm; height: 54mm; padding: 3mm 4mm; display: flex; flex-direction: column; }
+            .header { display: flex; align-items: center; gap: 2mm; border-bottom: 0.6mm solid #0066FF; padding-bottom: 1.5mm; }
+            .header img { height: 7mm; }
+            .header h1 { margin: 0; font-size: 10pt; color: #0066FF; }
+            .header p { margin: 0; font-size: 6pt; color: #555; }
+            .body { flex: 1; display: flex; justify-content: space-between; gap: 2mm; padding-top: 2mm; }
+            .details { font-size: 7pt; line-height: 1.45; }
+            .details .name { font-size: 10pt; font-weight: bold; margin-bottom: 0.5mm; }
+            .mrn { font-family: 'Courier New', monospace; font-size: 11pt; font-weight: bold; letter-spacing: 0.3mm; margin-top: 1mm; }
+            .qr img { width: 19mm; height: 19mm; }
+            .barcode { height: 8mm; text-align: center; }
+            .barcode svg { height: 8mm; width: 60mm; }
+          </style>
+        </head>
+        <body>
+          <div class="card">
+            <div class="header">
+              ${clinicSettings.logoUrl ? `<img src="${clinicSettings.logoUrl}" alt="${clinicSettings.clinicName}">` : ''}
+              <div>
+                <h1>${clinicSettings.clinicName}</h1>
+                <p>${clinicSettings.phone}</p>
+              </div>
+            </div>
+            <div class="body">
+              <div class="details">
+                <div class="name">${patient.name}</div>
+                <div>${patient.age} yrs • ${patient.gender}${patient.blood_group ? ` • Blood group ${patient.blood_group}` : ''}</div>
+                <div>Phone: ${patient.phone}</div>
+                ${patient.emergency_contact ? `<div>Emergency: ${patient.emergency_contact}</div>` : ''}
+                <div class="mrn">${patient.mrn}</div>
+              </div>
+              <div class="qr">
+                <img src="${qrDataUrl}" alt="${patient.mrn}">
+              </div>
+            </div>
+            <div class="barcode">${barcodeSvg}</div>
+          </div>
+        </body>
+        </html>
+      `;
+    } else if (type === 'doctor_revenue_report') {
+      const { doctorRevenueReport, clinicSettings } = data;
+      const { periodLabel, rows, total } = doctorRevenueReport;
+      filename = `Doctor_Revenue_${periodLabel.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
+
+      const money = (value) => `₹${Math.round(value).toLocaleString('en-IN')}`
+      const conversion = (row) => row.followUpsDue > 0 ? `${Math.round((row.followUpsKept / row.followUpsDue) * 100)}%` : '-'
+      const line = (row, className = '') => `
+        <tr class="${className}">
+          <td>${row.doctorId || className ? row.doctorName : `<em>${row.doctorName}</em>`}</td>
+          <td class="num">${row.visitCount}</td>
+          <td class="num">${row.patientCount}</td>
+          <td class="num">${row.consultationCount}<br><small>${money(row.consultationAmount)}</small></td>
+          <td class="num">${row.procedureCount}<br><small>${money(row.procedureAmount)}</small></td>
+          <td class="num">${money(row.pharmacyAmount)}</td>
+          <td class="num">${money(row.otherAmount)}</td>
+          <td class="num">${money(row.billedAmount)}<br><small>${row.billCount} bills</small></td>
+          <td class="num">${money(row.billCount > 0 ? row.billedAmount / row.billCount : 0)}</td>
+          <td class="num">${money(row.collectedAmount)}</td>
+          <td class="num">${money(row.outstandingAmount)}</td>
+          <td class="num">${conversion(row)}<br><small>${row.followUpsKept}/${row.followUpsDue}</small></td>
+        </tr>
+      `
+
+      htmlContent = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <title>Doctor Revenue Report - ${periodLabel}</title>
+          <style>
+            body { font-family: Arial, sans-serif; margin: 20px; color: #333; line-height: 1.4; }
+            .header { text-align: center; border-bottom: 2px solid #eee; padding-bottom: 15px; margin-bottom: 20px; }
+            .header h1 { margin: 0; font-size: 22px; color: #0066FF; }
+            .header p { margin: 5px 0; font-size: 12px; }
+            h2 { font-size: 16px; margin: 0 0 10px; }
+            table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+            th, td { border: 1px solid #eee; padding: 6px; text-align: left; font-size: 10px; vertical-align: top; }
+            th { background-color: #f9f9f9; font-weight: bold; }
+            td.num, th.num { text-align: right; }
+            small { color: #777; }
+            .total td { font-weight: bold; background-color: #f5f8ff; }
+            .footer { text-align: center; font-size: 10px; color: #777; margin-top: 30px; border-top: 1px solid #eee; padding-top: 10px; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>${clinicSettings.clinicName}</h1>
+            <p>${clinicSettings.address}</p>
+          </div>
+
+          <h2>Doctor Revenue &amp; Productivity: ${periodLabel}</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Doctor</th>
+                <th class="num">Visits</th>
+                <th class="num">Patients</th>
+                <th class="num">Consultations</th>
+                <th class="num">Procedures</th>
+                <th class="num">Pharmacy</th>
+                <th class="num">Other</th>
+                <th class="num">Billed (Net)</th>
+                <th class="num">Avg Bill</th>
+                <th class="num">Collected</th>
+                <th class="num">Outstanding</th>
+                <th class="num">Follow-up Conversion</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${rows.map((row) => line(row)).join('')}
+              ${line(total, 'total')}
+            </tbody>
+          </table>
+
+          <div class="footer">
+            <p>Bills are credited to the doctor of the visit they were raised for. Item amounts are before credit notes; billed totals are after.</p>
+            <p>Generated on ${new Date().toLocaleString('en-IN')}</p>
+          </div>
+        </body>
+        </html>
+      `;
+    } else if (type === 'z_report') {
+      const { cashierShift: shift, clinicSettings } = data;
+      const openedAt = new Date(shift.openedAt);
+      const closedAt = shift.closedAt ? new Date(shift.closedAt) : null;
+      filename = `Z_Report_${(shift.cashierName || 'Cashier').replace(/[^a-zA-Z0-9]/g, '_')}_${openedAt.toISOString().slice(0, 10)}.pdf`;
+
+      const money = (value) => `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+      const when = (date) => date ? date.toLocaleString('en-IN', { timeZone: clinicSettings.timezone || 'Asia/Kolkata' }) : '-'
+      const methodLabels = { cash: 'Cash', card: 'Card', upi: 'UPI', cheque: 'Cheque', net_banking: 'Net Banking', wallet: 'Wallet', online: 'Online' }
+      const denominations = Object.entries(shift.closingDenominations || {})
+        .filter(([, count]) => Number(count) > 0)
+        .sort(([a], [b]) => Number(b) - Number(a))
+      const variance = Number(shift.variance || 0)
+
+      htmlContent = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <title>Z-Report - ${shift.cashierName || 'Cashier'}</title>
+          <style>
+            body { font-family: Arial, sans-serif; margin: 20px; color: #333; line-height: 1.4; }
+            .header { text-align: center; border-bottom: 2px solid #eee; padding-bottom: 15px; margin-bottom: 20px; }
+            .header h1 { margin: 0; font-size: 22px; color: #0066FF; }
+            .header p { margin: 5px 0; font-size: 12px; }
+            h2 { font-size: 16px; margin: 0 0 10px; }
+            h3 { font-size: 13px; margin: 15px 0 6px; }
+            table { width: 100%; border-collapse: collapse; margin-bottom: 10px; }
+            th, td { border: 1px solid #eee; padding: 6px; text-align: left; font-size: 11px; }
+            th { background-color: #f9f9f9; font-weight: bold; }
+            td.num, th.num { text-align: right; }
+            .total td { font-weight: bold; background-color: #f5f8ff; }
+            .short { color: #c00; }
+            .over { color: #0a7d2c; }
+            .signatures { display: flex; justify-content: space-between; margin-top: 50px; font-size: 11px; }
+            .signatures div { width: 40%; border-top: 1px solid #999; padding-top: 5px; text-align: center; }
+            .footer { text-align: center; font-size: 10px; color: #777; margin-top: 30px; border-top: 1px solid #eee; padding-top: 10px; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>${clinicSettings.clinicName}</h1>
+            <p>${clinicSettings.address}</p>
+          </div>
+
+          <h2>Z-Report: Shift Close</h2>
+          <table>
+            <tr><th>Cashier</th><td>${shift.cashierName || '-'}</td><th>Status</th><td>${shift.status === 'signed_off' ? 'Signed off' : shift.status === 'closed' ? 'Closed' : 'Open'}</td></tr>
+            <tr><th>Opened</th><td>${when(openedAt)}</td><th>Closed</th><td>${when(closedAt)}${shift.closedByName ? ` by ${shift.closedByName}` : ''}</td></tr>
+          </table>
+
+          <h3>Takings by Payment Method</h3>
+          <table>
+            <thead><tr><th>Method</th><th class="num">Amount</th></tr></thead>
+            <tbody>
+              ${Object.entries(shift.methodTotals || {}).map(([method, amount]) => `
+                <tr><td>${methodLabels[method] || method}</td><td class="num">${money(amount)}</td></tr>
+              `).join('') || '<tr><td colspan="2">No payments taken</td></tr>'}
+            </tbody>
+          </table>
+
+          <h3>Cash Reconciliation</h3>
+          <table>
+            <tr><td>Opening float</td><td class="num">${money(shift.openingFloat)}</td></tr>
+            <tr><td>Cash payments received</td><td class="num">${money(shift.cashReceived)}</td></tr>
+            <tr><td>Cash advance deposits</td><td class="num">${money(shift.cashDeposits)}</td></tr>
+            <tr><td>Cash refunds paid out</td><td class="num">-${money(shift.cashRefunded)}</td></tr>
+            <tr class="total"><td>Expected in drawer</td><td class="num">${money(shift.expectedCash)}</td></tr>
+            <tr class="total"><td>Counted</td><td class="num">${money(shift.countedCash)}</td></tr>
+            <tr class="total"><td>Variance</td><td class="num ${variance < 0 ? 'short' : variance > 0 ? 'over' : ''}">${variance < 0 ? 'Short ' : variance > 0 ? 'Over ' : ''}${money(Math.abs(variance))}</td></tr>
+          </table>
+
+          <h3>Denomination Count</h3>
+          <table>
+            <thead><tr><th>Denomination</th><th class="num">Count</th><th class="num">Amount</th></tr></thead>
+            <tbody>
+              ${denominations.map(([value, count]) => `
+                <tr><td>₹${value}</td><td class="num">${count}</td><td class="num">${money(Number(value) * Number(count))}</td></tr>
+              `).join('') || '<tr><td colspan="3">No cash counted</td></tr>'}
+            </tbody>
+          </table>
+
+          ${shift.closingNotes ? `<p><strong>Cashier notes:</strong> ${shift.closingNotes}</p>` : ''}
+          ${shift.signedOffAt ? `<p><strong>Signed off</strong> by ${shift.signedOffByName || '-'} on ${when(new Date(shift.signedOffAt))}${shift.signOffNotes ? `: ${shift.signOffNotes}` : ''}</p>` : ''}
+
+          <div class="signatures">
+            <div>Cashier</div>
+            <div>Supervisor</div>
+          </div>
+
+          <div class="footer">
+            <p>Generated on ${new Date().toLocaleString('en-IN')}</p>
+          </div>
+        </body>
+        </html>
+      `;
     } else {
       return new Response(
         JSON.stringify({ error: 'Unsupported document type' }),
@@ -375,6 +955,7 @@ serve(async (req) => {
         html: htmlContent,
         name: filename,
         inline: true,
+        ...(paperSize ? { paperSize, margins: '0mm 0mm 0mm 0mm' } : {}),
       }),
     })
 
@@ -0,0 +1,482 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Spam protection for the unauthenticated booking page
+const OTP_TTL_MINUTES = 10
+const OTP_MAX_ATTEMPTS = 5
+const OTP_PER_PHONE_LIMIT = 3 // codes per phone per 15 minutes
+const OTP_PER_IP_LIMIT = 10 // codes per address per hour
+const MAX_PENDING_ONLINE_BOOKINGS = 2 // unconfirmed upcoming bookings per phone
+
+// Holidays win over leave, and leave wins over custom hours (as in utils/availabilityExceptions)
+const EXCEPTION_PRECEDENCE = ['holiday', 'day_off', 'custom_hours']
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// yyyy-MM-dd, optionally followed by a time
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+const normalizePhone = (phone: string) => (phone || '').replace(/\D/g, '').slice(-10)
+
+const hashCode = async (clinicId: string, phone: string, code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${clinicId}:${phone}:${code}`))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// yyyy-MM-dd of an instant in the clinic's timezone
+const clinicDate = (date: Date, timezone: string) =>
+  date.toLocaleDateString('en-CA', { timeZone: timezone || 'Asia/Kolkata' })
+
+// Weekday and minutes past midnight of an instant in the clinic's timezone
+const clinicTime = (date: Date, timezone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'Asia/Kolkata',
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  )
+  return { weekday: parts.weekday.toLowerCase(), minutes: Number(parts.hour) * 60 + Number(parts.minute) }
+}
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+// Why a start time is not one of the slots the booking page offers, using the same
+// rules as doctorAvailabilityService.generateDaySlots; null when it is bookable
+const slotProblem = (
+  hours: { isOpen: boolean; startTime: string; endTime: string; breakStart?: string; breakEnd?: string } | undefined,
+  startMinutes: number,
+  duration: number
+) => {
+  if (!hours || !hours.isOpen) {
+    return 'The doctor is not available on this day'
+  }
+
+  const dayStart = toMinutes(hours.startTime)
+  const endMinutes = startMinutes + duration
+  if (startMinutes < dayStart || endMinutes > toMinutes(hours.endTime) || (startMinutes - dayStart) % duration !== 0) {
+    return 'Please pick one of the available times'
+  }
+
+  if (hours.breakStart && hours.breakEnd &&
+    startMinutes < toMinutes(hours.breakEnd) && endMinutes > toMinutes(hours.breakStart)) {
+    return 'The doctor is on a break at this time'
+  }
+
+  return null
+}
+
+const normalizeName = (name: string) => String(name || '').trim().replace(/\s+/g, ' ').toLowerCase()
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json()
+    const { action, clinicId } = body
+
+    if (!action || !clinicId) {
+      return jsonResponse({ error: 'action and clinicId are required' }, 400)
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: clinic, error: clinicError } = await supabase
+      .from('clinic_settings')
+      .select('id, clinic_name, address, phone, logo_url, appointment_duration, working_hours, timezone, online_booking_enabled, online_booking_days, blueticks_api_key, enable_blueticks_api_send')
+      .eq('id', clinicId)
+      .maybeSingle()
+
+    if (clinicError) {
+      throw new Error(`Failed to fetch clinic settings: ${clinicError.message}`)
+    }
+
+    if (!clinic || !clinic.online_booking_enabled) {
+      return jsonResponse({ error: 'Online booking is not available for this clinic' }, 404)
+    }
+
+    const bookingDays = clinic.online_booking_days || 14
+    const duration = clinic.appointment_duration || 30
+
+    switch (action) {
+      // Clinic details and the doctors patients can book with
+      case 'clinic': {
+        const { data: doctors, error: doctorsError } = await supabase
+          .from('profiles')
+          .select('id, name, specialization, qualification, doctor_availability')
+          .eq('clinic_id', clinicId)
+          .eq('is_active', true)
+          .eq('is_open_for_consultation', true)
+          .order('name')
+
+        if (doctorsError) {
+          throw new Error(`Failed to fetch doctors: ${doctorsError.message}`)
+        }
+
+        return jsonResponse({
+          clinic: {
+            id: clinic.id,
+            clinicName: clinic.clinic_name,
+            address: clinic.address,
+            phone: clinic.phone,
+            logoUrl: clinic.logo_url,
+            appointmentDuration: duration,
+            bookingDays
+          },
+          doctors: (doctors || []).map(doctor => ({
+            id: doctor.id,
+            name: doctor.name,
+            specialization: doctor.specialization,
+            qualification: doctor.qualification,
+            // Same fallback as doctorAvailabilityService.getDoctorAvailability
+            availability: doctor.doctor_availability || clinic.working_hours
+          }))
+        })
+      }
+
+      // Busy times and exceptions for one doctor; the page lays out slots with generateAvailableSlots
+      case 'schedule': {
+        const { doctorId, from, to } = body
+        if (!doctorId || !from || !to) {
+          return jsonResponse({ error: 'doctorId, from and to are required' }, 400)
+        }
+
+        if (!UUID_PATTERN.test(doctorId)) {
+          return jsonResponse({ error: 'Invalid doctorId' }, 400)
+        }
+
+        const fromDate = typeof from === 'string' && ISO_DATE_PATTERN.test(from) ? new Date(from) : null
+        const toDate = typeof to === 'string' && ISO_DATE_PATTERN.test(to) ? new Date(to) : null
+        if (!fromDate || !toDate || isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || toDate < fromDate) {
+          return jsonResponse({ error: 'from and to must be ISO dates, from before to' }, 400)
+        }
+
+        // No more than the booking window at a time
+        if (toDate.getTime() - fromDate.getTime() > (bookingDays + 1) * 24 * 60 * 60 * 1000) {
+          return jsonResponse({ error: `The schedule can be read at most ${bookingDays + 1} days at a time` }, 400)
+        }
+
+        const { data: appointments, error: appointmentsError } = await supabase
+          .from('appointments')
+          .select('appointment_date, duration')
+          .eq('clinic_id', clinicId)
+          .eq('doctor_id', doctorId)
+          .gte('appointment_date', from)
+          .lte('appointment_date', to)
+          .not('status', 'in', '("Cancelled","No_Show")')
+
+        if (appointmentsError) {
+          throw new Error(`Failed to fetch appointments: ${appointmentsError.message}`)
+        }
+
+        const { data: exceptions, error: exceptionsError } = await supabase
+          .from('availability_exceptions')
+          .select('id, doctor_id, exception_type, start_date, end_date, start_time, end_time, reason, created_at')
+          .eq('clinic_id', clinicId)
+          .or(`doctor_id.is.null,doctor_id.eq.${doctorId}`)
+          .lte('start_date', to.slice(0, 10))
+          .gte('end_date', from.slice(0, 10))
+
+        if (exceptionsError) {
+          throw new Error(`Failed to fetch availability exceptions: ${exceptionsError.message}`)
+        }
+
+        // Only times are exposed, never who booked them
+        return jsonResponse({
+          appointments: (appointments || []).map(a => ({ appointmentDate: a.appointment_date, duration: a.duration })),
+          exceptions: exceptions || []
+        })
+      }
+
+      // Issue a one-time code for the phone number
+      case 'request_otp': {
+        const phone = normalizePhone(body.phone)
+        if (phone.length !== 10) {
+          return jsonResponse({ error: 'Please enter a valid 10-digit mobile number' }, 400)
+        }
+
+        // Without WhatsApp there is no way to deliver the code. Showing it on screen
+        // is only for local testing and has to be switched on explicitly.
+        const canSend = Boolean(clinic.blueticks_api_key && clinic.enable_blueticks_api_send)
+        const showCode = Deno.env.get('PUBLIC_BOOKING_SHOW_OTP') === 'true'
+        if (!canSend && !showCode) {
+          return jsonResponse({ error: 'This clinic cannot send booking codes yet. Please call the clinic to book.' }, 503)
+        }
+
+        const ipAddress = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null
+        const now = Date.now()
+
+        const { count: phoneCount } = await supabase
+          .from('booking_otps')
+          .select('id', { count: 'exact', head: true })
+          .eq('clinic_id', clinicId)
+          .eq('phone', phone)
+          .gte('created_at', new Date(now - 15 * 60 * 1000).toISOString())
+
+        if ((phoneCount || 0) >= OTP_PER_PHONE_LIMIT) {
+          return jsonResponse({ error: 'Too many codes requested for this number. Please try again in 15 minutes.' }, 429)
+        }
+
+        if (ipAddress) {
+          const { count: ipCount } = await supabase
+            .from('booking_otps')
+            .select('id', { count: 'exact', head: true })
+            .eq('ip_address', ipAddress)
+            .gte('created_at', new Date(now - 60 * 60 * 1000).toISOString())
+
+          if ((ipCount || 0) >= OTP_PER_IP_LIMIT) {
+            return jsonResponse({ error: 'Too many requests. Please try again later.' }, 429)
+          }
+        }
+
+        const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0')
+
+        const { error: otpError } = await supabase
+          .from('booking_otps')
+          .insert({
+            clinic_id: clinicId,
+            phone,
+            code_hash: await hashCode(clinicId, phone, code),
+            ip_address: ipAddress,
+            expires_at: new Date(now + OTP_TTL_MINUTES * 60 * 1000).toISOString()
+          })
+
+        if (otpError) {
+          throw new Error(`Failed to create code: ${otpError.message}`)
+        }
+
+        // Send over WhatsApp when the clinic has Blueticks set up
+        if (canSend) {
+          const response = await fetch('https://api.blueticks.co/messages', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              apiKey: clinic.blueticks_api_key,
+              to: `+91${phone}`,
+              message: `${code} is your code to book an appointment at ${clinic.clinic_name}. It expires in ${OTP_TTL_MINUTES} minutes.`
+            })
+          })
+
+          if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Blueticks API Error: ${response.status} - ${errorText}`)
+          }
+
+          return jsonResponse({ success: true, sentVia: 'whatsapp' })
+        }
+
+        // Development only (PUBLIC_BOOKING_SHOW_OTP): the page shows the code
+        return jsonResponse({ success: true, sentVia: 'none', demoCode: code })
+      }
+
+      // Verify the code and book the slot
+      case 'book': {
+        const phone = normalizePhone(body.phone)
+        const { otp, name, age, gender, doctorId, appointmentDate, notes } = body
+
+        if (phone.length !== 10 || !otp || !doctorId || !appointmentDate) {
+          return jsonResponse({ error: 'phone, otp, doctorId and appointmentDate are required' }, 400)
+        }
+
+        if (!UUID_PATTERN.test(doctorId)) {
+          return jsonResponse({ error: 'Invalid doctorId' }, 400)
+        }
+
+        if (!normalizeName(name)) {
+          return jsonResponse({ error: 'Please enter the patient name' }, 400)
+        }
+
+        const start = new Date(appointmentDate)
+        const latest = new Date(Date.now() + (bookingDays + 1) * 24 * 60 * 60 * 1000)
+
+        if (isNaN(start.getTime()) || start <= new Date() || start > latest) {
+          return jsonResponse({ error: `Please pick a time within the next ${bookingDays} days` }, 400)
+        }
+
+        const { data: doctor } = await supabase
+          .from('profiles')
+          .select('id, doctor_availability')
+          .eq('id', doctorId)
+          .eq('clinic_id', clinicId)
+          .eq('is_active', true)
+          .eq('is_open_for_consultation', true)
+          .maybeSingle()
+
+        if (!doctor) {
+          return jsonResponse({ error: 'This doctor is not taking online bookings' }, 400)
+        }
+
+        // Weekly hours, leave, holidays and custom hours, as on the booking page
+        const day = clinicDate(start, clinic.timezone)
+        const { data: exceptions, error: exceptionsError } = await supabase
+          .from('availability_exceptions')
+          .select('exception_type, start_time, end_time')
+          .eq('clinic_id', clinicId)
+          .or(`doctor_id.is.null,doctor_id.eq.${doctorId}`)
+          .lte('start_date', day)
+          .gte('end_date', day)
+
+        if (exceptionsError) {
+          throw new Error(`Failed to fetch availability exceptions: ${exceptionsError.message}`)
+        }
+
+        const { weekday, minutes: startMinutes } = clinicTime(start, clinic.timezone)
+        const availability = doctor.doctor_availability || clinic.working_hours || {}
+        const governing = EXCEPTION_PRECEDENCE
+          .map(type => (exceptions || []).find(exception => exception.exception_type === type))
+          .find(Boolean)
+
+        let dayHours = availability[weekday]
+        if (governing?.exception_type === 'custom_hours') {
+          dayHours = { isOpen: true, startTime: governing.start_time || '00:00', endTime: governing.end_time || '23:59' }
+        } else if (governing) {
+          dayHours = undefined
+        }
+
+        const problem = start.getUTCSeconds() !== 0 || start.getUTCMilliseconds() !== 0
+          ? 'Please pick one of the available times'
+          : slotProblem(dayHours, startMinutes, duration)
+
+        if (problem) {
+          return jsonResponse({ error: problem }, 409)
+        }
+
+        // Marks the code used, or counts a wrong guess, in one locked step
+        const { data: claims, error: claimError } = await supabase.rpc('claim_booking_otp', {
+          p_clinic_id: clinicId,
+          p_phone: phone,
+          p_code_hash: await hashCode(clinicId, phone, String(otp).trim()),
+          p_max_attempts: OTP_MAX_ATTEMPTS
+        })
+
+        if (claimError) {
+          throw new Error(`Failed to check code: ${claimError.message}`)
+        }
+
+        const claim = claims?.[0]
+        if (claim?.result === 'incorrect') {
+          return jsonResponse({ error: 'Incorrect code' }, 400)
+        }
+        if (claim?.result !== 'claimed') {
+          return jsonResponse({ error: 'Your code has expired. Please request a new one.' }, 400)
+        }
+
+        // If the booking doesn't go through, the code can be used again for another time
+        const releaseOtp = () => supabase
+          .from('booking_otps')
+          .update({ verified_at: null })
+          .eq('id', claim.otp_id)
+
+        // Family members often share a number, so match on the name as well;
+        // merged duplicates are skipped in favour of the record they were merged into
+        const { data: existingPatients, error: patientError } = await supabase
+          .from('patients')
+          .select('id, name')
+          .eq('clinic_id', clinicId)
+          .eq('phone', phone)
+          .is('merged_into_id', null)
+          .order('created_at', { ascending: true })
+
+        if (patientError) {
+          await releaseOtp()
+          throw new Error(`Failed to check phone number: ${patientError.message}`)
+        }
+
+        let patientId = existingPatients?.find(patient => normalizeName(patient.name) === normalizeName(name))?.id
+
+        if (patientId) {
+          const { count: pendingCount } = await supabase
+            .from('appointments')
+            .select('id', { count: 'exact', head: true })
+            .eq('clinic_id', clinicId)
+            .eq('patient_id', patientId)
+            .eq('booked_online', true)
+            .eq('status', 'Scheduled')
+            .gte('appointment_date', new Date().toISOString())
+
+          if ((pendingCount || 0) >= MAX_PENDING_ONLINE_BOOKINGS) {
+            await releaseOtp()
+            return jsonResponse({ error: 'You already have bookings waiting for confirmation. Please call the clinic.' }, 429)
+          }
+        } else {
+          // Provisional until the front desk confirms the details
+          const { data: newPatient, error: createError } = await supabase
+            .from('patients')
+            .insert({
+              clinic_id: clinicId,
+              name: String(name).trim(),
+              phone,
+              age: parseInt(age) || null,
+              gender: ['male', 'female', 'other'].includes(gender) ? gender : 'other',
+              address: '',
+              is_provisional: true
+            })
+            .select('id')
+            .single()
+
+          if (createError) {
+            await releaseOtp()
+            throw new Error(`Failed to create patient: ${createError.message}`)
+          }
+
+          patientId = newPatient.id
+        }
+
+        // Checks the slot is still free and books it under a lock
+        const { data: appointment, error: appointmentError } = await supabase.rpc('book_online_appointment', {
+          p_clinic_id: clinicId,
+          p_doctor_id: doctorId,
+          p_patient_id: patientId,
+          p_start: start.toISOString(),
+          p_duration: duration,
+          p_notes: notes ? String(notes).slice(0, 500) : null
+        })
+
+        if (appointmentError) {
+          await releaseOtp()
+          if (appointmentError.code === '23P01') {
+            return jsonResponse({ error: 'This slot has just been booked. Please pick another time.' }, 409)
+          }
+          throw new Error(`Failed to create appointment: ${appointmentError.message}`)
+        }
+
+        return jsonResponse({
+          success: true,
+          appointmentId: appointment.id,
+          appointmentDate: appointment.appointment_date
+        })
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400)
+    }
+
+  } catch (error) {
+    console.error('Public Booking Error:', error)
+    return jsonResponse({
+      error: 'Booking failed',
+      details: error.message
+    }, 500)
+  }
+})
@@ -0,0 +1,484 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const SEND_ATTEMPTS_PER_RUN = 3
+const MAX_SCHEDULER_RUNS = 4 // give up on a reminder after this many failed runs
+const CLAIM_TIMEOUT_MS = 30 * 60 * 1000 // a claim still pending after this is from a run that died
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Same wording as the follow_up template in src/utils/reviewTemplates.ts
+const FOLLOW_UP_TEMPLATE = `Hello {patient_name},
+
+This is a gentle reminder about your follow-up appointment scheduled for {follow_up_date} at {clinic_name}.
+
+Please confirm your attendance or let us know if you need to reschedule.
+
+📍 Location: {clinic_address}
+📞 Contact: {contact_phone}
+
+We look forward to seeing you soon.
+
+Best regards,
+Team {clinic_name}`
+
+const APPOINTMENT_REMINDER_TEMPLATE = `Hello {patient_name},
+
+This is a reminder of your appointment at {clinic_name} tomorrow, {appointment_time}{doctor_line}.
+
+📍 Location: {clinic_address}
+📞 Contact: {contact_phone}
+
+Please arrive 15 minutes before your scheduled time. If you need to reschedule, kindly let us know in advance.
+
+Best regards,
+Team {clinic_name}`
+
+// Overdue bills are reminded once per stage; a bill first seen late gets only the stage it has reached
+const PAYMENT_REMINDER_STAGES = [
+  {
+    stage: 1,
+    daysOverdue: 1,
+    template: `Hello {patient_name},
+
+This is a gentle reminder that {balance_amount} is due on bill {bill_number} from {clinic_name}, which was payable by {due_date}.
+
+If you have already paid, please ignore this message.
+
+📞 Contact: {contact_phone}
+
+Best regards,
+Team {clinic_name}`
+  },
+  {
+    stage: 2,
+    daysOverdue: 31,
+    template: `Hello {patient_name},
+
+Our records show that {balance_amount} on bill {bill_number} has been outstanding since {due_date}.
+
+Kindly clear the balance at the clinic at your earliest convenience, or call us if you have any questions about the bill.
+
+📞 Contact: {contact_phone}
+
+Best regards,
+Team {clinic_name}`
+  },
+  {
+    stage: 3,
+    daysOverdue: 61,
+    template: `Hello {patient_name},
+
+This is a final reminder that {balance_amount} on bill {bill_number} remains unpaid more than two months after it was due on {due_date}.
+
+Please settle the balance or contact us to arrange payment.
+
+📍 Location: {clinic_address}
+📞 Contact: {contact_phone}
+
+Team {clinic_name}`
+  }
+]
+
+interface ReminderJob {
+  dedupeKey: string
+  messageType: 'appointment_reminder' | 'follow_up' | 'payment_reminder'
+  patientId: string
+  visitId?: string
+  appointmentId?: string
+  phone: string
+  message: string
+}
+
+// Minutes the timezone is ahead of UTC at the given instant
+const timezoneOffsetMinutes = (date: Date, timezone: string) => {
+  const local = new Date(date.toLocaleString('en-US', { timeZone: timezone }))
+  const utc = new Date(date.toLocaleString('en-US', { timeZone: 'UTC' }))
+  return (local.getTime() - utc.getTime()) / 60000
+}
+
+// UTC instant at which a clinic-local calendar day (yyyy-MM-dd) starts
+const startOfClinicDay = (day: string, timezone: string) => {
+  const midnightUtc = new Date(`${day}T00:00:00Z`)
+  return new Date(midnightUtc.getTime() - timezoneOffsetMinutes(midnightUtc, timezone) * 60000)
+}
+
+const clinicDate = (date: Date, timezone: string) => date.toLocaleDateString('en-CA', { timeZone: timezone })
+
+const clinicTime = (date: Date, timezone: string) =>
+  date.toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hour12: false })
+
+const isWithin = (time: string, start?: string | null, end?: string | null) =>
+  !!start && !!end && time >= start && time < end
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  Object.entries(values).reduce((text, [key, value]) => text.split(`{${key}}`).join(value), template)
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Only the scheduler (service role) may trigger sends
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { clinicId, dryRun = false } = await req.json().catch(() => ({}))
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let clinicQuery = supabase
+      .from('clinic_settings')
+      .select('id, clinic_name, address, phone, timezone, blueticks_api_key, enable_blueticks_api_send, enable_auto_appointment_reminders, enable_auto_follow_up_reminders, enable_auto_payment_reminders, follow_up_reminder_days, reminder_send_start, reminder_send_end, reminder_quiet_start, reminder_quiet_end')
+      .or('enable_auto_appointment_reminders.eq.true,enable_auto_follow_up_reminders.eq.true,enable_auto_payment_reminders.eq.true')
+
+    if (clinicId) {
+      clinicQuery = clinicQuery.eq('id', clinicId)
+    }
+
+    const { data: clinics, error: clinicsError } = await clinicQuery
+
+    if (clinicsError) {
+      throw new Error(`Failed to fetch clinic settings: ${clinicsError.message}`)
+    }
+
+    // Send one message through the existing Blueticks function, retrying with backoff
+    const sendWithRetry = async (clinic: { id: string }, job: ReminderJob) => {
+      let lastError = ''
+      for (let attempt = 1; attempt <= SEND_ATTEMPTS_PER_RUN; attempt++) {
+        try {
+          const response = await fetch(`${supabaseUrl}/functions/v1/send-blueticks-message`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${supabaseServiceKey}`
+            },
+            body: JSON.stringify({ phoneNumber: job.phone, message: job.message, clinicId: clinic.id })
+          })
+
+          const result = await response.json().catch(() => ({}))
+          if (response.ok && !result.error) {
+            return { success: true }
+          }
+          lastError = result.details || result.error || `HTTP ${response.status}`
+        } catch (error) {
+          lastError = error.message
+        }
+
+        if (attempt < SEND_ATTEMPTS_PER_RUN) {
+          await sleep(1000 * 2 ** (attempt - 1))
+        }
+      }
+      return { success: false, error: lastError }
+    }
+
+    // Claim the reminder's log row so overlapping runs and earlier sends are skipped.
+    // Failed rows and rows abandoned mid-send by a crashed run are claimed again.
+    // Rows have the same shape reviewService.logSentMessage writes, plus the dedupe key.
+    const claimJob = async (clinicIdValue: string, job: ReminderJob): Promise<{ id: string; attemptCount: number } | null> => {
+      const { data: existing } = await supabase
+        .from('sent_messages_log')
+        .select('id, status, attempt_count, claimed_at, created_at')
+        .eq('clinic_id', clinicIdValue)
+        .eq('dedupe_key', job.dedupeKey)
+        .maybeSingle()
+
+      if (existing) {
+        const claimedAt = existing.claimed_at || existing.created_at
+        const abandoned = existing.status === 'pending' &&
+          new Date(claimedAt).getTime() < Date.now() - CLAIM_TIMEOUT_MS
+
+        if ((existing.status !== 'failed' && !abandoned) || existing.attempt_count >= MAX_SCHEDULER_RUNS) {
+          return null
+        }
+
+        // Only take the row over if no other run has touched it since it was read
+        let reclaim = supabase
+          .from('sent_messages_log')
+          .update({ status: 'pending', attempt_count: existing.attempt_count + 1, claimed_at: new Date().toISOString() })
+          .eq('id', existing.id)
+          .eq('status', existing.status)
+          .eq('attempt_count', existing.attempt_count)
+
+        if (abandoned) {
+          reclaim = existing.claimed_at ? reclaim.eq('claimed_at', existing.claimed_at) : reclaim.is('claimed_at', null)
+        }
+
+        const { data: reclaimed } = await reclaim
+          .select('id, attempt_count')
+          .maybeSingle()
+
+        return reclaimed ? { id: reclaimed.id, attemptCount: reclaimed.attempt_count } : null
+      }
+
+      const { data: inserted, error: insertError } = await supabase
+        .from('sent_messages_log')
+        .insert({
+          clinic_id: clinicIdValue,
+          patient_id: job.patientId,
+          visit_id: job.visitId || null,
+          appointment_id: job.appointmentId || null,
+          message_type: job.messageType,
+          message_content: job.message,
+          status: 'pending',
+          delivery_method: 'blueticks_api',
+          dedupe_key: job.dedupeKey,
+          attempt_count: 1,
+          claimed_at: new Date().toISOString()
+        })
+        .select('id, attempt_count')
+        .single()
+
+      // Unique violation: another run claimed it first
+      if (insertError) {
+        if (insertError.code === '23505') return null
+        throw new Error(`Failed to log sent message: ${insertError.message}`)
+      }
+
+      return { id: inserted.id, attemptCount: inserted.attempt_count }
+    }
+
+    const summaries = []
+    const now = new Date()
+
+    for (const clinic of clinics || []) {
+      const timezone = clinic.timezone || 'Asia/Kolkata'
+      const summary = { clinicId: clinic.id, due: 0, sent: 0, failed: 0, skipped: 0, reason: undefined as string | undefined }
+      summaries.push(summary)
+
+      if (!clinic.blueticks_api_key || !clinic.enable_blueticks_api_send) {
+        summary.reason = 'Blueticks API sending is not enabled'
+        continue
+      }
+
+      const localTime = clinicTime(now, timezone)
+      if (!isWithin(localTime, clinic.reminder_send_start, clinic.reminder_send_end)) {
+        summary.reason = 'Outside send window'
+        continue
+      }
+      if (isWithin(localTime, clinic.reminder_quiet_start, clinic.reminder_quiet_end)) {
+        summary.reason = 'Quiet hours'
+        continue
+      }
+
+      // Step a day and a half and snap back to midnight, so DST changes cannot skip a day
+      const nextDayStart = (dayStart: Date) =>
+        startOfClinicDay(clinicDate(new Date(dayStart.getTime() + 1.5 * DAY_MS), timezone), timezone)
+      const tomorrowStart = nextDayStart(startOfClinicDay(clinicDate(now, timezone), timezone))
+      const dayAfterStart = nextDayStart(tomorrowStart)
+      const followUpWindowEnd = new Date(tomorrowStart.getTime() + Math.max(clinic.follow_up_reminder_days || 1, 1) * DAY_MS)
+
+      const templateValues = {
+        clinic_name: clinic.clinic_name,
+        clinic_address: clinic.address || '',
+        contact_phone: clinic.phone || ''
+      }
+      const jobs: ReminderJob[] = []
+
+      // Tomorrow's appointments
+      if (clinic.enable_auto_appointment_reminders) {
+        const { data: appointments, error: appointmentsError } = await supabase
+          .from('appointments')
+          .select('id, patient_id, appointment_date, patients(name, phone), profiles(name)')
+          .eq('clinic_id', clinic.id)
+          .gte('appointment_date', tomorrowStart.toISOString())
+          .lt('appointment_date', dayAfterStart.toISOString())
+          .in('status', ['Scheduled', 'Confirmed'])
+
+        if (appointmentsError) {
+          throw new Error(`Failed to fetch appointments: ${appointmentsError.message}`)
+        }
+
+        for (const appointment of appointments || []) {
+          if (!appointment.patients?.phone) continue
+          const appointmentDate = new Date(appointment.appointment_date)
+
+          jobs.push({
+            // Include the time so a rescheduled appointment is reminded again
+            dedupeKey: `appointment_reminder:${appointment.id}:${appointmentDate.toISOString()}`,
+            messageType: 'appointment_reminder',
+            patientId: appointment.patient_id,
+            appointmentId: appointment.id,
+            phone: appointment.patients.phone,
+            message: fillTemplate(APPOINTMENT_REMINDER_TEMPLATE, {
+              ...templateValues,
+              patient_name: appointment.patients.name,
+              appointment_time: appointmentDate.toLocaleTimeString('en-IN', { timeZone: timezone, hour: 'numeric', minute: '2-digit' }),
+              doctor_line: appointment.profiles?.name ? ` with Dr. ${appointment.profiles.name}` : ''
+            })
+          })
+        }
+      }
+
+      // Follow-ups falling due within the configured window
+      if (clinic.enable_auto_follow_up_reminders) {
+        const { data: visits, error: visitsError } = await supabase
+          .from('visits')
+          .select('id, patient_id, follow_up_date, patients(name, phone)')
+          .eq('clinic_id', clinic.id)
+          .gte('follow_up_date', tomorrowStart.toISOString())
+          .lt('follow_up_date', followUpWindowEnd.toISOString())
+
+        if (visitsError) {
+          throw new Error(`Failed to fetch follow-ups: ${visitsError.message}`)
+        }
+
+        const patientIds = [...new Set((visits || []).map(visit => visit.patient_id))]
+
+        // Patients who already booked get the appointment reminder instead
+        const { data: booked } = patientIds.length > 0
+          ? await supabase
+            .from('appointments')
+            .select('patient_id')
+            .eq('clinic_id', clinic.id)
+            .in('patient_id', patientIds)
+            .in('status', ['Scheduled', 'Confirmed'])
+            .gte('appointment_date', now.toISOString())
+            .lt('appointment_date', followUpWindowEnd.toISOString())
+          : { data: [] }
+        const bookedPatients = new Set((booked || []).map(a => a.patient_id))
+
+        // Follow-ups staff already sent by hand from the Follow-ups page
+        const { data: manuallySent } = visits && visits.length > 0
+          ? await supabase
+            .from('sent_messages_log')
+            .select('visit_id')
+            .eq('clinic_id', clinic.id)
+            .eq('message_type', 'follow_up')
+            .eq('status', 'sent')
+            .in('visit_id', visits.map(visit => visit.id))
+          : { data: [] }
+        const sentVisits = new Set((manuallySent || []).map(m => m.visit_id))
+
+        for (const visit of visits || []) {
+          if (!visit.patients?.phone || bookedPatients.has(visit.patient_id) || sentVisits.has(visit.id)) {
+            summary.skipped++
+            continue
+          }
+
+          const followUpDate = new Date(visit.follow_up_date)
+          jobs.push({
+            dedupeKey: `follow_up:${visit.id}:${clinicDate(followUpDate, timezone)}`,
+            messageType: 'follow_up',
+            patientId: visit.patient_id,
+            visitId: visit.id,
+            phone: visit.patients.phone,
+            message: fillTemplate(FOLLOW_UP_TEMPLATE, {
+              ...templateValues,
+              patient_name: visit.patients.name,
+              follow_up_date: followUpDate.toLocaleDateString('en-IN', { timeZone: timezone, year: 'numeric', month: 'long', day: 'numeric' })
+            })
+          })
+        }
+      }
+
+      // Overdue bills, at the highest reminder stage each has reached
+      if (clinic.enable_auto_payment_reminders) {
+        const { error: markError } = await supabase.rpc('mark_overdue_bills', { p_clinic_id: clinic.id })
+        if (markError) {
+          throw new Error(`Failed to mark overdue bills: ${markError.message}`)
+        }
+
+        const { data: overdueBills, error: overdueError } = await supabase
+          .from('bills')
+          .select('id, patient_id, bill_number, due_date, balance_amount, patients(name, phone)')
+          .eq('clinic_id', clinic.id)
+          .eq('status', 'overdue')
+          .gt('balance_amount', 0)
+
+        if (overdueError) {
+          throw new Error(`Failed to fetch overdue bills: ${overdueError.message}`)
+        }
+
+        const today = clinicDate(now, timezone)
+        for (const bill of overdueBills || []) {
+          if (!bill.patients?.phone || !bill.due_date) {
+            summary.skipped++
+            continue
+          }
+
+          const dueDay = clinicDate(new Date(bill.due_date), timezone)
+          const daysOverdue = Math.round((new Date(`${today}T00:00:00Z`).getTime() - new Date(`${dueDay}T00:00:00Z`).getTime()) / DAY_MS)
+          const stage = [...PAYMENT_REMINDER_STAGES].reverse().find(s => daysOverdue >= s.daysOverdue)
+          if (!stage) continue
+
+          jobs.push({
+            dedupeKey: `payment_reminder:${bill.id}:${stage.stage}`,
+            messageType: 'payment_reminder',
+            patientId: bill.patient_id,
+            phone: bill.patients.phone,
+            message: fillTemplate(stage.template, {
+              ...templateValues,
+              patient_name: bill.patients.name,
+              bill_number: bill.bill_number,
+              balance_amount: `₹${Number(bill.balance_amount).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`,
+              due_date: new Date(bill.due_date).toLocaleDateString('en-IN', { timeZone: timezone, year: 'numeric', month: 'long', day: 'numeric' })
+            })
+          })
+        }
+      }
+
+      summary.due = jobs.length
+      if (dryRun) continue
+
+      for (const job of jobs) {
+
+        const claimed = await claimJob(clinic.id, job)
+        if (!claimed) {
+          summary.skipped++
+          continue
+        }
+
+        const result = await sendWithRetry(clinic, job)
+
+        await supabase
+          .from('sent_messages_log')
+          .update({
+            status: result.success ? 'sent' : 'failed',
+            error_details: result.success ? null : result.error,
+            sent_at: new Date().toISOString()
+          })
+          .eq('id', claimed.id)
+
+        if (result.success) {
+          summary.sent++
+        } else {
+          summary.failed++
+          console.error(`Reminder ${job.dedupeKey} failed (run ${claimed.attemptCount}):`, result.error)
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, dryRun, clinics: summaries }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Scheduled Reminders Error:', error)
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to send scheduled reminders',
+        details: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,254 @@
+/*
+  # Batch-level pharmacy inventory (FEFO)
+
+  1. New Tables
+    - `medicine_batches` - Stock ledger with one row per medicine + batch + expiry
+      - `quantity_received` (integer) - Total quantity received into this batch
+      - `current_stock` (integer) - Quantity still on hand for this batch
+      - `unit_cost_price` (numeric) - Cost price of the latest receipt for the batch
+      - `first_receipt_id` (uuid) - Inward receipt that opened the batch
+
+  2. Schema Updates
+    - Add `batch_id` to `pharmacy_inward_items` and `pharmacy_dispensed_items`
+    - `medicines_master.batch_number` / `expiry_date` now mirror the earliest-expiring
+      batch in stock instead of being overwritten by the latest receipt
+
+  3. Stock Management
+    - Inward items credit their batch row before insert (batch is created on first receipt)
+    - Dispensed items that carry a `batch_id` debit that batch before insert
+    - Medicine-level `current_stock` and `stock_movement_log` triggers are unchanged
+
+  4. Security
+    - Enable RLS on `medicine_batches` restricted by clinic_id
+
+  5. Data Migration
+    - Existing medicines with a batch number and stock on hand get an opening batch row
+*/
+
+-- Create medicine_batches table
+CREATE TABLE IF NOT EXISTS public.medicine_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    medicine_id UUID NOT NULL REFERENCES public.medicines_master(id) ON DELETE CASCADE,
+    batch_number TEXT NOT NULL,
+    expiry_date DATE,
+    quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+    current_stock INTEGER NOT NULL DEFAULT 0 CHECK (current_stock >= 0),
+    unit_cost_price NUMERIC CHECK (unit_cost_price >= 0),
+    first_receipt_id UUID REFERENCES public.pharmacy_inward_receipts(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- One ledger row per medicine + batch + expiry within a clinic
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medicine_batches_unique
+ON public.medicine_batches (clinic_id, medicine_id, batch_number, COALESCE(expiry_date, 'infinity'::date));
+
+CREATE INDEX IF NOT EXISTS idx_medicine_batches_clinic_id ON public.medicine_batches(clinic_id);
+CREATE INDEX IF NOT EXISTS idx_medicine_batches_fefo ON public.medicine_batches(medicine_id, expiry_date) WHERE current_stock > 0;
+
+-- Link inward and dispensed items to their batch
+ALTER TABLE public.pharmacy_inward_items
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.medicine_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.pharmacy_dispensed_items
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.medicine_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inward_items_batch ON public.pharmacy_inward_items(batch_id);
+CREATE INDEX IF NOT EXISTS idx_dispensed_items_batch ON public.pharmacy_dispensed_items(batch_id);
+
+-- Enable RLS
+ALTER TABLE public.medicine_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access medicine batches from their clinic"
+ON public.medicine_batches
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
+
+CREATE TRIGGER trigger_medicine_batches_updated_at
+    BEFORE UPDATE ON public.medicine_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep the medicine-level batch/expiry pointing at the batch that will be dispensed next
+CREATE OR REPLACE FUNCTION sync_medicine_primary_batch(p_medicine_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.medicines_master m
+    SET batch_number = b.batch_number,
+        expiry_date = b.expiry_date
+    FROM (
+        SELECT batch_number, expiry_date
+        FROM public.medicine_batches
+        WHERE medicine_id = p_medicine_id
+        AND current_stock > 0
+        ORDER BY expiry_date ASC NULLS LAST, created_at ASC
+        LIMIT 1
+    ) b
+    WHERE m.id = p_medicine_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Credit the batch ledger when stock is received
+CREATE OR REPLACE FUNCTION assign_batch_on_inward()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_batch_id UUID;
+    v_clinic_id UUID;
+BEGIN
+    IF NEW.batch_number IS NULL OR btrim(NEW.batch_number) = '' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT clinic_id INTO v_clinic_id
+    FROM public.medicines_master
+    WHERE id = NEW.medicine_id;
+
+    SELECT id INTO v_batch_id
+    FROM public.medicine_batches
+    WHERE clinic_id = v_clinic_id
+    AND medicine_id = NEW.medicine_id
+    AND batch_number = btrim(NEW.batch_number)
+    AND expiry_date IS NOT DISTINCT FROM NEW.expiry_date
+    FOR UPDATE;
+
+    IF v_batch_id IS NULL THEN
+        INSERT INTO public.medicine_batches (
+            clinic_id,
+            medicine_id,
+            batch_number,
+            expiry_date,
+            quantity_received,
+            current_stock,
+            unit_cost_price,
+            first_receipt_id
+        ) VALUES (
+            v_clinic_id,
+            NEW.medicine_id,
+            btrim(NEW.batch_number),
+            NEW.expiry_date,
+            NEW.quantity,
+            NEW.quantity,
+            NEW.unit_cost_price,
+            NEW.receipt_id
+        )
+        RETURNING id INTO v_batch_id;
+    ELSE
+        UPDATE public.medicine_batches
+        SET quantity_received = quantity_received + NEW.quantity,
+            current_stock = current_stock + NEW.quantity,
+            unit_cost_price = NEW.unit_cost_price
+        WHERE id = v_batch_id;
+    END IF;
+
+    NEW.batch_id := v_batch_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Debit the batch chosen at dispense time
+CREATE OR REPLACE FUNCTION deduct_batch_on_dispense()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_batch public.medicine_batches%ROWTYPE;
+BEGIN
+    IF NEW.batch_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_batch
+    FROM public.medicine_batches
+    WHERE id = NEW.batch_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_batch.medicine_id <> NEW.medicine_id THEN
+        RAISE EXCEPTION 'Batch % does not belong to medicine ID: %', NEW.batch_id, NEW.medicine_id;
+    END IF;
+
+    IF v_batch.current_stock < NEW.quantity THEN
+        RAISE EXCEPTION 'Insufficient stock in batch %. Available: %, Requested: %',
+            v_batch.batch_number,
+            v_batch.current_stock,
+            NEW.quantity;
+    END IF;
+
+    UPDATE public.medicine_batches
+    SET current_stock = current_stock - NEW.quantity
+    WHERE id = NEW.batch_id;
+
+    NEW.batch_number := v_batch.batch_number;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_primary_batch_after_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM sync_medicine_primary_batch(NEW.medicine_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_assign_batch_on_inward ON public.pharmacy_inward_items;
+CREATE TRIGGER trigger_assign_batch_on_inward
+    BEFORE INSERT ON public.pharmacy_inward_items
+    FOR EACH ROW EXECUTE FUNCTION assign_batch_on_inward();
+
+DROP TRIGGER IF EXISTS trigger_deduct_batch_on_dispense ON public.pharmacy_dispensed_items;
+CREATE TRIGGER trigger_deduct_batch_on_dispense
+    BEFORE INSERT ON public.pharmacy_dispensed_items
+    FOR EACH ROW EXECUTE FUNCTION deduct_batch_on_dispense();
+
+-- Runs after the existing stock triggers (trigger names sort after trigger_update_*)
+DROP TRIGGER IF EXISTS trigger_zz_sync_primary_batch_on_inward ON public.pharmacy_inward_items;
+CREATE TRIGGER trigger_zz_sync_primary_batch_on_inward
+    AFTER INSERT ON public.pharmacy_inward_items
+    FOR EACH ROW EXECUTE FUNCTION sync_primary_batch_after_movement();
+
+DROP TRIGGER IF EXISTS trigger_zz_sync_primary_batch_on_dispense ON public.pharmacy_dispensed_items;
+CREATE TRIGGER trigger_zz_sync_primary_batch_on_dispense
+    AFTER INSERT ON public.pharmacy_dispensed_items
+    FOR EACH ROW EXECUTE FUNCTION sync_primary_batch_after_movement();
+
+-- Function to get expiring batches (within next N days)
+CREATE OR REPLACE FUNCTION get_expiring_batches(days_ahead INTEGER DEFAULT 30)
+RETURNS TABLE (
+    batch_id UUID,
+    medicine_id UUID,
+    medicine_name TEXT,
+    batch_number TEXT,
+    expiry_date DATE,
+    current_stock INTEGER,
+    days_to_expiry INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.medicine_id,
+        m.name,
+        b.batch_number,
+        b.expiry_date,
+        b.current_stock,
+        (b.expiry_date - CURRENT_DATE) as days_to_expiry
+    FROM public.medicine_batches b
+    JOIN public.medicines_master m ON m.id = b.medicine_id
+    WHERE b.clinic_id = get_current_user_clinic_id()
+    AND b.expiry_date IS NOT NULL
+    AND b.expiry_date <= (CURRENT_DATE + INTERVAL '1 day' * days_ahead)
+    AND b.current_stock > 0
+    ORDER BY b.expiry_date ASC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Opening batch rows for stock that was received before the ledger existed
+INSERT INTO public.medicine_batches (clinic_id, medicine_id, batch_number, expiry_date, quantity_received, current_stock)
+SELECT m.clinic_id, m.id, btrim(m.batch_number), m.expiry_date, m.current_stock, m.current_stock
+FROM public.medicines_master m
+WHERE m.batch_number IS NOT NULL
+AND btrim(m.batch_number) <> ''
+AND m.current_stock > 0
+AND NOT EXISTS (
+    SELECT 1 FROM public.medicine_batches b WHERE b.medicine_id = m.id
+);
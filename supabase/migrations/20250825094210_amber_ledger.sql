@@ -0,0 +1,59 @@
+/*
+  # GST tax engine for bills and pharmacy sales
+
+  1. Schema Updates
+    - `medicines_master`: `hsn_code`, `gst_rate` (percent)
+    - `tests_master`: `sac_code`, `gst_rate` (percent)
+    - `clinic_settings`: consultation tax settings
+      - `consultation_tax_exempt` (boolean, default true) - Healthcare services are exempt by default
+      - `consultation_sac_code` (text, default '999312')
+      - `consultation_gst_rate` (numeric) - Used only when consultations are not exempt
+    - `bills`: `is_inter_state` - IGST applies instead of CGST + SGST
+    - `bill_items`: computed tax components
+      - `hsn_sac_code`, `taxable_value`, `cgst_amount`, `sgst_amount`, `igst_amount`
+
+  2. Notes
+    - `bill_items.tax` keeps its existing meaning: the GST rate (%) applied to the line
+    - Line prices are tax-exclusive; `total_price` = `taxable_value` + all tax components
+    - Existing bill items are backfilled as intra-state supplies (tax split into CGST + SGST)
+*/
+
+-- Tax rates on master data
+ALTER TABLE public.medicines_master
+  ADD COLUMN IF NOT EXISTS hsn_code TEXT,
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC NOT NULL DEFAULT 0 CHECK (gst_rate >= 0 AND gst_rate <= 100);
+
+ALTER TABLE public.tests_master
+  ADD COLUMN IF NOT EXISTS sac_code TEXT,
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC NOT NULL DEFAULT 0 CHECK (gst_rate >= 0 AND gst_rate <= 100);
+
+-- Consultation tax settings
+ALTER TABLE public.clinic_settings
+  ADD COLUMN IF NOT EXISTS consultation_tax_exempt BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS consultation_sac_code TEXT DEFAULT '999312',
+  ADD COLUMN IF NOT EXISTS consultation_gst_rate NUMERIC NOT NULL DEFAULT 18 CHECK (consultation_gst_rate >= 0 AND consultation_gst_rate <= 100);
+
+-- Supply type on bills
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS is_inter_state BOOLEAN NOT NULL DEFAULT false;
+
+-- Per-line tax components
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS hsn_sac_code TEXT,
+  ADD COLUMN IF NOT EXISTS taxable_value NUMERIC,
+  ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Backfill existing lines from their rate and tax-inclusive total
+UPDATE public.bill_items
+SET taxable_value = ROUND(total_price / (1 + COALESCE(tax, 0) / 100), 2)
+WHERE taxable_value IS NULL;
+
+UPDATE public.bill_items
+SET cgst_amount = ROUND((total_price - taxable_value) / 2, 2),
+    sgst_amount = (total_price - taxable_value) - ROUND((total_price - taxable_value) / 2, 2)
+WHERE COALESCE(tax, 0) > 0
+  AND cgst_amount = 0
+  AND sgst_amount = 0
+  AND igst_amount = 0;
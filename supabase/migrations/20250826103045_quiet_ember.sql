@@ -0,0 +1,199 @@
+/*
+  # Refunds, credit notes and bill cancellation
+
+  1. New Tables
+    - `credit_notes` - Credit issued against a bill
+      - `credit_note_number` (text) - Printable reference
+      - `reason` (text) - Why the credit was issued
+      - `total_amount` (numeric) - Tax-inclusive credit value
+      - `created_by` (uuid) - Staff member who issued the credit note
+    - `credit_note_items` - Credited quantity of a specific bill item
+      - `bill_item_id` (uuid) - The bill line being credited
+      - `quantity`, `unit_price`, `discount`, `tax` (rate %), `hsn_sac_code`
+      - `taxable_value`, `cgst_amount`, `sgst_amount`, `igst_amount`, `total_price`
+
+  2. Schema Updates
+    - `bill_payment_status_enum` gains `cancelled`
+    - `bills`: `voided_at`, `voided_by`, `void_reason`, `credited_amount`
+    - `bills.balance_amount` is now `total_amount - credited_amount - paid_amount`
+    - `payment_records`: `is_refund`, `refund_of_payment_id`, `credit_note_id`
+      - Refunds are stored as negative amounts; ordinary payments stay positive
+
+  3. Functions
+    - `refresh_bill_settlement(bill_id)` recomputes paid/credited amounts and status
+      (payments are net of refunds; voided bills stay `cancelled`)
+    - `get_daily_payment_summary` returns net amounts plus refund totals per method
+
+  4. Security
+    - Enable RLS on `credit_notes` and `credit_note_items` restricted by clinic_id
+*/
+
+-- Cancelled bills
+ALTER TYPE bill_payment_status_enum ADD VALUE IF NOT EXISTS 'cancelled';
+
+-- Voiding and credit tracking on bills
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN IF NOT EXISTS void_reason TEXT,
+  ADD COLUMN IF NOT EXISTS credited_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Balance now accounts for credit notes
+ALTER TABLE public.bills DROP COLUMN IF EXISTS balance_amount;
+ALTER TABLE public.bills
+  ADD COLUMN balance_amount NUMERIC GENERATED ALWAYS AS (total_amount - credited_amount - paid_amount) STORED;
+
+-- Create credit_notes table
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+    credit_note_number TEXT NOT NULL UNIQUE,
+    credit_date TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    reason TEXT NOT NULL,
+    total_amount NUMERIC NOT NULL CHECK (total_amount > 0),
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create credit_note_items table
+CREATE TABLE IF NOT EXISTS public.credit_note_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+    bill_item_id UUID NOT NULL REFERENCES public.bill_items(id) ON DELETE CASCADE,
+    item_name TEXT NOT NULL,
+    quantity NUMERIC NOT NULL CHECK (quantity > 0),
+    unit_price NUMERIC NOT NULL DEFAULT 0,
+    discount NUMERIC NOT NULL DEFAULT 0,
+    tax NUMERIC NOT NULL DEFAULT 0,
+    hsn_sac_code TEXT,
+    taxable_value NUMERIC NOT NULL DEFAULT 0,
+    cgst_amount NUMERIC NOT NULL DEFAULT 0,
+    sgst_amount NUMERIC NOT NULL DEFAULT 0,
+    igst_amount NUMERIC NOT NULL DEFAULT 0,
+    total_price NUMERIC NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_bill_id ON public.credit_notes(bill_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_clinic_date ON public.credit_notes(clinic_id, credit_date);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON public.credit_note_items(credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_bill_item_id ON public.credit_note_items(bill_item_id);
+
+-- Refunds are negative payment records
+ALTER TABLE public.payment_records DROP CONSTRAINT IF EXISTS payment_records_amount_check;
+ALTER TABLE public.payment_records
+  ADD COLUMN IF NOT EXISTS is_refund BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS refund_of_payment_id UUID REFERENCES public.payment_records(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS credit_note_id UUID REFERENCES public.credit_notes(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payment_records
+  ADD CONSTRAINT payment_records_amount_sign_check
+  CHECK ((is_refund AND amount < 0) OR (NOT is_refund AND amount > 0));
+
+-- Recompute paid/credited amounts and status for a bill
+CREATE OR REPLACE FUNCTION refresh_bill_settlement(p_bill_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  total_paid NUMERIC;
+  total_credited NUMERIC;
+  bill_total NUMERIC;
+  bill_voided_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO total_paid
+  FROM payment_records
+  WHERE bill_id = p_bill_id;
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO total_credited
+  FROM credit_notes
+  WHERE bill_id = p_bill_id;
+
+  SELECT total_amount, voided_at INTO bill_total, bill_voided_at
+  FROM bills
+  WHERE id = p_bill_id;
+
+  UPDATE bills
+  SET
+    paid_amount = total_paid,
+    credited_amount = total_credited,
+    status = CASE
+      WHEN bill_voided_at IS NOT NULL THEN 'cancelled'::bill_payment_status_enum
+      WHEN total_paid >= bill_total - total_credited THEN 'paid'::bill_payment_status_enum
+      WHEN total_paid > 0 THEN 'partial'::bill_payment_status_enum
+      ELSE 'pending'::bill_payment_status_enum
+    END,
+    updated_at = now()
+  WHERE id = p_bill_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Payment trigger now delegates to the shared settlement function
+CREATE OR REPLACE FUNCTION update_bill_paid_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_bill_settlement(COALESCE(NEW.bill_id, OLD.bill_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_bill_credited_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_bill_settlement(COALESCE(NEW.bill_id, OLD.bill_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_bill_credited_amount ON public.credit_notes;
+CREATE TRIGGER trigger_update_bill_credited_amount
+  AFTER INSERT OR UPDATE OR DELETE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_bill_credited_amount();
+
+-- Daily summary with refunds netted out per method
+DROP FUNCTION IF EXISTS get_daily_payment_summary(uuid, date);
+CREATE OR REPLACE FUNCTION get_daily_payment_summary(
+  p_clinic_id uuid,
+  p_date date
+)
+RETURNS TABLE (
+  payment_method text,
+  total_amount numeric,
+  transaction_count bigint,
+  refund_amount numeric,
+  refund_count bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pr.payment_method,
+    COALESCE(SUM(pr.amount), 0) as total_amount,
+    COUNT(pr.id) FILTER (WHERE NOT pr.is_refund) as transaction_count,
+    COALESCE(-SUM(pr.amount) FILTER (WHERE pr.is_refund), 0) as refund_amount,
+    COUNT(pr.id) FILTER (WHERE pr.is_refund) as refund_count
+  FROM payment_records pr
+  WHERE pr.clinic_id = p_clinic_id
+    AND DATE(pr.payment_date) = p_date
+  GROUP BY pr.payment_method
+  ORDER BY pr.payment_method;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access credit notes from their clinic"
+ON public.credit_notes
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
+
+CREATE POLICY "Users can only access credit note items from their clinic"
+ON public.credit_note_items
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
@@ -0,0 +1,158 @@
+/*
+  # Patient advance deposits
+
+  1. New Tables
+    - `patient_deposits` - Money received from a patient in advance of billing
+      - `patient_id` (uuid) - Patient whose account is credited
+      - `amount` (numeric) - Deposit amount, always positive
+      - `payment_method` (text) - How the deposit was received
+      - `reference` (text) - Card/UPI/cheque reference
+      - `deposit_date` (timestamptz)
+      - `received_by` (uuid) - Staff member who received the deposit
+
+  2. Schema Updates
+    - `payment_records.paid_from_deposit` - The payment was settled from the
+      patient's deposit balance rather than collected at the counter
+    - `get_daily_payment_summary` counts deposits as the day's collection and
+      leaves out payments settled from a deposit, so money is counted once,
+      when it is received
+    - `apply_patient_deposit(patient_id, bill_id, amount)` pays a bill from the
+      patient's deposit balance, checking the balance under a per-patient lock so
+      two desks can't spend the same deposit. Leave the amount out to apply as much
+      as the balance and the bill allow. Returns the payment record id, or null when
+      nothing could be applied.
+
+  3. Notes
+    - A patient's deposit balance is the sum of their deposits less all payment
+      records with `paid_from_deposit` on their bills (refunds of such payments
+      return to the balance because they are negative)
+
+  4. Security
+    - Enable RLS on `patient_deposits` restricted by clinic_id
+*/
+
+CREATE TABLE IF NOT EXISTS public.patient_deposits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+    amount NUMERIC NOT NULL CHECK (amount > 0),
+    payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'card', 'upi', 'cheque', 'net_banking')),
+    reference TEXT,
+    notes TEXT,
+    deposit_date TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    received_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_deposits_patient_id ON public.patient_deposits(patient_id);
+CREATE INDEX IF NOT EXISTS idx_patient_deposits_clinic_date ON public.patient_deposits(clinic_id, deposit_date);
+
+ALTER TABLE public.payment_records
+  ADD COLUMN IF NOT EXISTS paid_from_deposit BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION get_daily_payment_summary(
+  p_clinic_id uuid,
+  p_date date
+)
+RETURNS TABLE (
+  payment_method text,
+  total_amount numeric,
+  transaction_count bigint,
+  refund_amount numeric,
+  refund_count bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.payment_method,
+    COALESCE(SUM(m.amount), 0) as total_amount,
+    COUNT(*) FILTER (WHERE NOT m.is_refund) as transaction_count,
+    COALESCE(-SUM(m.amount) FILTER (WHERE m.is_refund), 0) as refund_amount,
+    COUNT(*) FILTER (WHERE m.is_refund) as refund_count
+  FROM (
+    SELECT pr.payment_method::text AS payment_method, pr.amount, pr.is_refund
+    FROM payment_records pr
+    WHERE pr.clinic_id = p_clinic_id
+      AND DATE(pr.payment_date) = p_date
+      AND NOT pr.paid_from_deposit
+    UNION ALL
+    SELECT d.payment_method, d.amount, false
+    FROM patient_deposits d
+    WHERE d.clinic_id = p_clinic_id
+      AND DATE(d.deposit_date) = p_date
+  ) m
+  GROUP BY m.payment_method
+  ORDER BY m.payment_method;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION apply_patient_deposit(p_patient_id UUID, p_bill_id UUID, p_amount NUMERIC DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_clinic_id UUID := get_current_user_clinic_id();
+  v_bill RECORD;
+  v_deposit_balance NUMERIC;
+  v_amount NUMERIC;
+  v_payment_id UUID;
+BEGIN
+  IF p_amount IS NOT NULL AND p_amount <= 0 THEN
+    RAISE EXCEPTION 'Allocation amount must be greater than zero';
+  END IF;
+
+  -- Serialise spending of each patient's deposit
+  PERFORM pg_advisory_xact_lock(hashtext('patient_deposit' || p_patient_id::text));
+
+  SELECT id, bill_number, status, voided_at, balance_amount INTO v_bill
+  FROM bills
+  WHERE id = p_bill_id
+    AND patient_id = p_patient_id
+    AND clinic_id = v_clinic_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found for this patient';
+  END IF;
+
+  IF v_bill.status = 'cancelled' OR v_bill.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deposits cannot be applied to a void bill';
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(d.amount) FROM patient_deposits d
+              WHERE d.patient_id = p_patient_id AND d.clinic_id = v_clinic_id), 0)
+    - COALESCE((SELECT SUM(pr.amount) FROM payment_records pr
+                JOIN bills b ON b.id = pr.bill_id
+                WHERE b.patient_id = p_patient_id AND pr.clinic_id = v_clinic_id AND pr.paid_from_deposit), 0)
+  INTO v_deposit_balance;
+
+  v_amount := ROUND(COALESCE(p_amount, LEAST(v_deposit_balance, v_bill.balance_amount)), 2);
+
+  IF p_amount IS NULL AND v_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_amount > v_deposit_balance + 0.005 THEN
+    RAISE EXCEPTION 'Only ₹% of the deposit is available', ROUND(GREATEST(v_deposit_balance, 0), 2);
+  END IF;
+
+  IF v_amount > v_bill.balance_amount + 0.005 THEN
+    RAISE EXCEPTION 'Bill % only has ₹% outstanding', v_bill.bill_number, ROUND(v_bill.balance_amount, 2);
+  END IF;
+
+  INSERT INTO payment_records (bill_id, amount, payment_method, payment_date, notes, received_by, paid_from_deposit, clinic_id)
+  VALUES (p_bill_id, v_amount, 'wallet', now(), 'Applied from advance deposit', auth.uid(), true, v_clinic_id)
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE public.patient_deposits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access patient deposits from their clinic"
+ON public.patient_deposits
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
@@ -0,0 +1,96 @@
+/*
+  # Same-day token queue
+
+  1. Schema Updates
+    - `appointments`
+      - `queue_date` (date) - Day the token belongs to
+      - `token_number` (integer) - Token issued at check-in, sequential per doctor per day
+      - `is_walk_in` (boolean) - Patient arrived without a prior booking
+      - `checked_in_at`, `started_at`, `completed_at` (timestamptz) - Queue timestamps
+
+  2. Functions
+    - `assign_appointment_token(appointment_id, queue_date)` issues the next token
+      for the appointment's doctor on that day; tokens are never reused. The appointment
+      must fall on that day in the clinic's timezone
+
+  3. Realtime
+    - `appointments` is added to the `supabase_realtime` publication so reception,
+      doctor and waiting-room screens receive queue changes live
+*/
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS queue_date DATE,
+  ADD COLUMN IF NOT EXISTS token_number INTEGER,
+  ADD COLUMN IF NOT EXISTS is_walk_in BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_queue_token
+  ON public.appointments(clinic_id, doctor_id, queue_date, token_number)
+  WHERE token_number IS NOT NULL;
+
+-- Issue the next token for an appointment's doctor on the given day
+CREATE OR REPLACE FUNCTION assign_appointment_token(p_appointment_id UUID, p_queue_date DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_clinic_id UUID;
+  v_doctor_id UUID;
+  v_token INTEGER;
+  v_appointment_day DATE;
+BEGIN
+  SELECT a.clinic_id, a.doctor_id, a.token_number,
+         (a.appointment_date AT TIME ZONE COALESCE(cs.timezone, 'Asia/Kolkata'))::DATE
+  INTO v_clinic_id, v_doctor_id, v_token, v_appointment_day
+  FROM appointments a
+  LEFT JOIN clinic_settings cs ON cs.id = a.clinic_id
+  WHERE a.id = p_appointment_id
+    AND a.clinic_id = get_current_user_clinic_id()
+  FOR UPDATE OF a;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  -- An appointment can only join the queue for its own day
+  IF v_appointment_day <> p_queue_date THEN
+    RAISE EXCEPTION 'The appointment is for %, not %', v_appointment_day, p_queue_date;
+  END IF;
+
+  -- Already checked in: keep the existing token
+  IF v_token IS NOT NULL THEN
+    RETURN v_token;
+  END IF;
+
+  -- Serialise token issue per doctor and day
+  PERFORM pg_advisory_xact_lock(hashtext(v_clinic_id::text || v_doctor_id::text || p_queue_date::text));
+
+  SELECT COALESCE(MAX(token_number), 0) + 1 INTO v_token
+  FROM appointments
+  WHERE clinic_id = v_clinic_id
+    AND doctor_id = v_doctor_id
+    AND queue_date = p_queue_date;
+
+  UPDATE appointments
+  SET token_number = v_token,
+      queue_date = p_queue_date,
+      checked_in_at = COALESCE(checked_in_at, now()),
+      updated_at = now()
+  WHERE id = p_appointment_id;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Broadcast appointment changes to subscribed clients
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'appointments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.appointments;
+  END IF;
+END $$;
@@ -0,0 +1,114 @@
+/*
+  # Recurring appointments and treatment series
+
+  1. New Tables
+    - `appointment_series` - A course of appointments booked together
+      (physiotherapy, dressings, injection courses)
+      - `patient_id`, `doctor_id` (uuid)
+      - `frequency` (text) - `weekly` (on set weekdays) or `interval` (every N days)
+      - `weekdays` (integer[]) - 0 = Sunday ... 6 = Saturday, for weekly series
+      - `interval_days` (integer) - Gap between sessions, for interval series
+      - `occurrences` (integer) - Number of sessions
+      - `start_date` (timestamptz) - Date and time of the first session
+      - `duration`, `appointment_type`, `notes` - Copied to each occurrence
+
+  2. Schema Updates
+    - `appointments.series_id` - Series the appointment belongs to
+    - `appointments.series_index` - 1-based position of the occurrence in its series
+    - `move_series_occurrences(appointment_id, shift_minutes, duration, doctor_id, appointment_type)`
+      moves an occurrence and the open ones after it in one transaction: dates shift by the same
+      amount, and duration, doctor and type are replaced when given. Status and notes are left
+      to each occurrence.
+
+  3. Security
+    - Enable RLS on `appointment_series` restricted by clinic_id
+*/
+
+CREATE TABLE IF NOT EXISTS public.appointment_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+    doctor_id UUID NOT NULL REFERENCES public.profiles(id),
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'interval')),
+    weekdays INTEGER[],
+    interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+    occurrences INTEGER NOT NULL CHECK (occurrences > 0),
+    start_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    duration INTEGER NOT NULL DEFAULT 30,
+    appointment_type TEXT NOT NULL DEFAULT 'Consultation',
+    notes TEXT,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_series_patient_id ON public.appointment_series(patient_id);
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.appointment_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series ON public.appointments(series_id, series_index);
+
+CREATE OR REPLACE FUNCTION move_series_occurrences(
+  p_appointment_id UUID,
+  p_shift_minutes INTEGER DEFAULT 0,
+  p_duration INTEGER DEFAULT NULL,
+  p_doctor_id UUID DEFAULT NULL,
+  p_appointment_type TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_appointment RECORD;
+  -- Assigned through the column's own type so the text converts to it
+  v_appointment_type public.appointments.appointment_type%TYPE := p_appointment_type;
+  v_count INTEGER;
+BEGIN
+  SELECT id, series_id, series_index INTO v_appointment
+  FROM appointments
+  WHERE id = p_appointment_id
+    AND clinic_id = get_current_user_clinic_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  UPDATE appointments
+  SET appointment_date = appointment_date + make_interval(mins => COALESCE(p_shift_minutes, 0)),
+      duration = COALESCE(p_duration, duration),
+      doctor_id = COALESCE(p_doctor_id, doctor_id),
+      appointment_type = COALESCE(v_appointment_type, appointment_type),
+      updated_at = now()
+  WHERE clinic_id = get_current_user_clinic_id()
+    AND CASE
+      WHEN v_appointment.series_id IS NULL THEN id = p_appointment_id
+      ELSE series_id = v_appointment.series_id
+        AND COALESCE(series_index, 0) >= COALESCE(v_appointment.series_index, 0)
+        AND status::TEXT IN ('Scheduled', 'Confirmed')
+    END;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_appointment.series_id IS NOT NULL AND (p_duration IS NOT NULL OR p_doctor_id IS NOT NULL OR p_appointment_type IS NOT NULL) THEN
+    UPDATE appointment_series
+    SET duration = COALESCE(p_duration, duration),
+        doctor_id = COALESCE(p_doctor_id, doctor_id),
+        appointment_type = COALESCE(p_appointment_type, appointment_type),
+        updated_at = now()
+    WHERE id = v_appointment.series_id
+      AND clinic_id = get_current_user_clinic_id();
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE public.appointment_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access appointment series from their clinic"
+ON public.appointment_series
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
@@ -0,0 +1,54 @@
+/*
+  # Doctor leave, clinic holidays and one-off availability exceptions
+
+  1. New Tables
+    - `availability_exceptions` - Dated overrides of the weekly availability template
+      - `doctor_id` (uuid) - Doctor the exception applies to; NULL for clinic-wide holidays
+      - `exception_type` (text)
+        - `day_off` - Doctor unavailable all day (leave, conference)
+        - `custom_hours` - Doctor works different hours on these dates
+        - `holiday` - Clinic closed for everyone
+      - `start_date`, `end_date` (date) - Inclusive date range
+      - `start_time`, `end_time` (text, HH:mm) - Working hours for `custom_hours`
+      - `reason` (text) - Shown on the calendar and slot checks
+
+  2. Security
+    - Enable RLS on `availability_exceptions` restricted by clinic_id
+*/
+
+CREATE TABLE IF NOT EXISTS public.availability_exceptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    doctor_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    exception_type TEXT NOT NULL CHECK (exception_type IN ('day_off', 'custom_hours', 'holiday')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    start_time TEXT,
+    end_time TEXT,
+    reason TEXT,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CONSTRAINT availability_exceptions_date_range CHECK (end_date >= start_date),
+    CONSTRAINT availability_exceptions_holiday_scope CHECK (
+      (exception_type = 'holiday' AND doctor_id IS NULL) OR
+      (exception_type <> 'holiday' AND doctor_id IS NOT NULL)
+    ),
+    CONSTRAINT availability_exceptions_custom_hours CHECK (
+      exception_type <> 'custom_hours' OR (start_time IS NOT NULL AND end_time IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_exceptions_clinic_dates
+  ON public.availability_exceptions(clinic_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_availability_exceptions_doctor_id
+  ON public.availability_exceptions(doctor_id);
+
+-- Enable RLS
+ALTER TABLE public.availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access availability exceptions from their clinic"
+ON public.availability_exceptions
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
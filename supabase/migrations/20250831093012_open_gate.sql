@@ -0,0 +1,137 @@
+/*
+  # Patient self-service online booking
+
+  1. New Tables
+    - `booking_otps` - One-time codes sent to patients booking from the public page
+      - `phone` (text) - Number the code was sent to
+      - `code_hash` (text) - SHA-256 of the code; the code itself is never stored
+      - `ip_address` (text) - Requesting address, used for rate limiting
+      - `attempts` (integer) - Wrong codes entered so far
+      - `expires_at` (timestamptz) - Code is rejected after this
+      - `verified_at` (timestamptz) - Set once the code has been used for a booking
+
+  2. Schema Updates
+    - `clinic_settings`
+      - `online_booking_enabled` (boolean) - Clinic accepts bookings from its public page
+      - `online_booking_days` (integer) - How many days ahead patients can book
+    - `patients`
+      - `is_provisional` (boolean) - Created from an online booking; details still to be confirmed at the desk
+    - `appointments`
+      - `booked_online` (boolean) - Requested by the patient from the public page; stays `Scheduled` until staff confirm
+
+  3. Functions
+    - `book_online_appointment(clinic_id, doctor_id, patient_id, start, duration, notes)` books a slot
+      for the `public-booking` edge function; bookings are serialised per doctor so two
+      patients cannot take the same time. Raises `exclusion_violation` when the slot is taken.
+    - `claim_booking_otp(clinic_id, phone, code_hash, max_attempts)` checks the latest code for a
+      number under a row lock and either marks it used or counts the wrong attempt, so one code
+      can't book twice and parallel guesses can't get past the attempt limit. Returns `claimed`,
+      `incorrect` or `expired` with the code's id.
+
+  4. Security
+    - Enable RLS on `booking_otps` with no policies; only the `public-booking` edge function
+      (service role) reads and writes it
+*/
+
+CREATE TABLE IF NOT EXISTS public.booking_otps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    ip_address TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_otps_clinic_phone ON public.booking_otps(clinic_id, phone, created_at);
+CREATE INDEX IF NOT EXISTS idx_booking_otps_ip ON public.booking_otps(ip_address, created_at);
+
+ALTER TABLE public.clinic_settings
+  ADD COLUMN IF NOT EXISTS online_booking_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS online_booking_days INTEGER NOT NULL DEFAULT 14;
+
+ALTER TABLE public.patients
+  ADD COLUMN IF NOT EXISTS is_provisional BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS booked_online BOOLEAN NOT NULL DEFAULT false;
+
+-- Enable RLS (no policies: service role only)
+ALTER TABLE public.booking_otps ENABLE ROW LEVEL SECURITY;
+
+-- Book a slot from the public page if the doctor is still free at that time
+CREATE OR REPLACE FUNCTION book_online_appointment(
+  p_clinic_id UUID,
+  p_doctor_id UUID,
+  p_patient_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_duration INTEGER,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.appointments AS $$
+DECLARE
+  v_appointment public.appointments%ROWTYPE;
+BEGIN
+  -- Serialise online bookings per doctor, as assign_appointment_token does for tokens
+  PERFORM pg_advisory_xact_lock(hashtext('online_booking' || p_clinic_id::text || p_doctor_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE clinic_id = p_clinic_id
+      AND doctor_id = p_doctor_id
+      AND status NOT IN ('Cancelled', 'No_Show')
+      AND appointment_date < p_start + make_interval(mins => p_duration)
+      AND appointment_date + make_interval(mins => duration) > p_start
+  ) THEN
+    RAISE EXCEPTION 'This slot has already been booked' USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  INSERT INTO appointments (
+    clinic_id, patient_id, doctor_id, appointment_date, duration, status, appointment_type, notes, booked_online
+  )
+  VALUES (
+    p_clinic_id, p_patient_id, p_doctor_id, p_start, p_duration, 'Scheduled', 'Consultation', p_notes, true
+  )
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION book_online_appointment(UUID, UUID, UUID, TIMESTAMP WITH TIME ZONE, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION book_online_appointment(UUID, UUID, UUID, TIMESTAMP WITH TIME ZONE, INTEGER, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION claim_booking_otp(p_clinic_id UUID, p_phone TEXT, p_code_hash TEXT, p_max_attempts INTEGER)
+RETURNS TABLE (otp_id UUID, result TEXT) AS $$
+DECLARE
+  v_otp public.booking_otps%ROWTYPE;
+BEGIN
+  SELECT * INTO v_otp
+  FROM booking_otps
+  WHERE clinic_id = p_clinic_id
+    AND phone = p_phone
+    AND verified_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_otp.id IS NULL OR v_otp.expires_at < now() OR v_otp.attempts >= p_max_attempts THEN
+    RETURN QUERY SELECT v_otp.id, 'expired'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_otp.code_hash <> p_code_hash THEN
+    UPDATE booking_otps SET attempts = attempts + 1 WHERE id = v_otp.id;
+    RETURN QUERY SELECT v_otp.id, 'incorrect'::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE booking_otps SET verified_at = now() WHERE id = v_otp.id;
+  RETURN QUERY SELECT v_otp.id, 'claimed'::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION claim_booking_otp(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_booking_otp(UUID, TEXT, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,49 @@
+/*
+  # Automatic appointment and follow-up reminders
+
+  1. Schema Updates
+    - `clinic_settings`
+      - `enable_auto_appointment_reminders` (boolean) - Remind patients the day before a booked appointment
+      - `enable_auto_follow_up_reminders` (boolean) - Remind patients ahead of a visit's follow-up date
+      - `follow_up_reminder_days` (integer) - Remind when the follow-up date is within this many days
+      - `reminder_send_start`, `reminder_send_end` (text, HH:mm) - Daily window reminders may go out in
+      - `reminder_quiet_start`, `reminder_quiet_end` (text, HH:mm) - Optional break inside the window
+    - `sent_messages_log`
+      - `appointment_id` (uuid) - Appointment a reminder was sent for
+      - `dedupe_key` (text) - One row per reminder, e.g. `appointment_reminder:<id>:<time>`; the scheduler
+        skips keys already sent and retries failed ones
+      - `attempt_count` (integer) - Scheduler runs that have tried to deliver this row
+      - `claimed_at` (timestamptz) - When a scheduler run last picked the row up; a row still pending
+        30 minutes later belongs to a run that died mid-send and is picked up again
+
+  2. Scheduling
+    - The `send-scheduled-reminders` edge function is meant to run every hour, e.g. with pg_cron and pg_net:
+        select cron.schedule('send-scheduled-reminders', '0 * * * *', $$
+          select net.http_post(
+            url := '<project-url>/functions/v1/send-scheduled-reminders',
+            headers := '{"Authorization": "Bearer <service-role-key>", "Content-Type": "application/json"}'::jsonb,
+            body := '{}'::jsonb
+          )
+        $$);
+*/
+
+ALTER TABLE public.clinic_settings
+  ADD COLUMN IF NOT EXISTS enable_auto_appointment_reminders BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS enable_auto_follow_up_reminders BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS follow_up_reminder_days INTEGER NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS reminder_send_start TEXT NOT NULL DEFAULT '09:00',
+  ADD COLUMN IF NOT EXISTS reminder_send_end TEXT NOT NULL DEFAULT '20:00',
+  ADD COLUMN IF NOT EXISTS reminder_quiet_start TEXT,
+  ADD COLUMN IF NOT EXISTS reminder_quiet_end TEXT;
+
+ALTER TABLE public.sent_messages_log
+  ADD COLUMN IF NOT EXISTS appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS dedupe_key TEXT,
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sent_messages_log_dedupe
+  ON public.sent_messages_log(clinic_id, dedupe_key)
+  WHERE dedupe_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sent_messages_log_appointment_id
+  ON public.sent_messages_log(appointment_id);
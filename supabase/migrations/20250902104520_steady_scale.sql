@@ -0,0 +1,22 @@
+/*
+  # Structured lab results
+
+  1. Schema Updates
+    - `tests_master`
+      - `analytes` (jsonb) - Analytes reported by the test, each with units and numeric reference ranges:
+        `[{ "name": "Haemoglobin", "units": "g/dL", "ranges": [{ "sex": "male", "minAge": 18, "low": 13, "high": 17 }] }]`
+        `sex` is `any`, `male` or `female`; ages are in years and inclusive; a missing bound is open
+    - `test_results`
+      - `analyte_values` (jsonb) - Entered values with the range applied and a `low`/`high`/`normal` flag:
+        `[{ "analyte": "Haemoglobin", "value": 11.2, "units": "g/dL", "low": 13, "high": 17, "flag": "low" }]`
+
+  2. Notes
+    - `test_results.is_abnormal` stays the summary flag and is set when any analyte is out of range
+    - Tests without analytes keep using the free-text `result` and `normal_range`
+*/
+
+ALTER TABLE public.tests_master
+  ADD COLUMN IF NOT EXISTS analytes JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.test_results
+  ADD COLUMN IF NOT EXISTS analyte_values JSONB;
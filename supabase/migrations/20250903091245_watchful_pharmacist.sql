@@ -0,0 +1,54 @@
+/*
+  # Prescription safety rules and override reasons
+
+  1. New Tables
+    - `drug_safety_rules` - Clinic-maintained rules checked while a doctor prescribes
+      - `rule_type` (text)
+        - `interaction` - A medicine matching `drug_terms` prescribed with one matching `other_terms`
+        - `duplicate_class` - Two or more prescribed medicines matching `drug_terms`; `name` is the
+          therapeutic class and is also matched against patient allergies
+        - `contraindication` - A medicine matching `drug_terms` for a patient with a diagnosis matching `other_terms`
+      - `name` (text) - Short label shown on the warning, e.g. "NSAIDs"
+      - `drug_terms`, `other_terms` (text[]) - Matched case-insensitively against medicine name, generic name
+        and category, or diagnosis names
+      - `severity` (text) - `low`, `moderate` or `high`
+      - `message` (text) - Advice shown with the warning
+
+  2. Schema Updates
+    - `visits`
+      - `safety_overrides` (jsonb) - Warnings the doctor chose to prescribe through, each with the reason,
+        who overrode it and when
+
+  3. Security
+    - Enable RLS on `drug_safety_rules` restricted by clinic_id
+*/
+
+CREATE TABLE IF NOT EXISTS public.drug_safety_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    rule_type TEXT NOT NULL CHECK (rule_type IN ('interaction', 'duplicate_class', 'contraindication')),
+    name TEXT NOT NULL,
+    drug_terms TEXT[] NOT NULL DEFAULT '{}',
+    other_terms TEXT[] NOT NULL DEFAULT '{}',
+    severity TEXT NOT NULL DEFAULT 'moderate' CHECK (severity IN ('low', 'moderate', 'high')),
+    message TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_drug_safety_rules_clinic_id
+  ON public.drug_safety_rules(clinic_id);
+
+ALTER TABLE public.visits
+  ADD COLUMN IF NOT EXISTS safety_overrides JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Enable RLS
+ALTER TABLE public.drug_safety_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access drug safety rules from their clinic"
+ON public.drug_safety_rules
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
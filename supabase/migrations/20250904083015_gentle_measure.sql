@@ -0,0 +1,17 @@
+/*
+  # Paediatric weight-based dosing
+
+  1. Schema Updates
+    - `medicines_master`
+      - `dosing_rule` (jsonb) - Weight-based dosing for children, e.g.
+        `{ "mgPerKgPerDay": 30, "maxDailyMg": 1000, "maxSingleDoseMg": 500, "frequencies": ["TID", "QID"], "maxAgeYears": 12 }`
+        `frequencies` lists how the daily dose may be split; `maxAgeYears` limits suggestions to younger patients
+    - `prescriptions`
+      - `dose_calculation` (text) - Working shown on the printed prescription when the dose came from the calculator
+*/
+
+ALTER TABLE public.medicines_master
+  ADD COLUMN IF NOT EXISTS dosing_rule JSONB;
+
+ALTER TABLE public.prescriptions
+  ADD COLUMN IF NOT EXISTS dose_calculation TEXT;
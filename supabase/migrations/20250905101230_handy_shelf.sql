@@ -0,0 +1,64 @@
+/*
+  # Visit templates (order sets)
+
+  1. New Tables
+    - `visit_templates` - Named bundles a doctor applies to a visit in one click, e.g. "Viral fever adult"
+      - `doctor_id` (uuid) - Profile that owns the template; only the owner can change it
+      - `name`, `description` (text)
+      - `is_shared` (boolean) - Visible to every doctor in the clinic, not just the owner
+      - `symptoms`, `diagnoses`, `prescriptions`, `tests_ordered` (jsonb) - Rows in the same shape as the
+        EMR form, without ids or visit references
+      - `advice` (text[])
+
+  2. Security
+    - Enable RLS on `visit_templates`
+    - Users can read their own templates and shared templates from their clinic
+    - Users can only create, change and delete their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS public.visit_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    symptoms JSONB NOT NULL DEFAULT '[]'::jsonb,
+    diagnoses JSONB NOT NULL DEFAULT '[]'::jsonb,
+    prescriptions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    tests_ordered JSONB NOT NULL DEFAULT '[]'::jsonb,
+    advice TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visit_templates_clinic_id
+  ON public.visit_templates(clinic_id);
+
+CREATE INDEX IF NOT EXISTS idx_visit_templates_doctor_id
+  ON public.visit_templates(doctor_id);
+
+-- Enable RLS
+ALTER TABLE public.visit_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and shared visit templates from their clinic"
+ON public.visit_templates
+FOR SELECT
+TO authenticated
+USING (
+  clinic_id = get_current_user_clinic_id()
+  AND (is_shared OR doctor_id = auth.uid())
+);
+
+CREATE POLICY "Users can only manage their own visit templates"
+ON public.visit_templates
+FOR ALL
+TO authenticated
+USING (
+  clinic_id = get_current_user_clinic_id()
+  AND doctor_id = auth.uid()
+)
+WITH CHECK (
+  clinic_id = get_current_user_clinic_id()
+  AND doctor_id = auth.uid()
+);
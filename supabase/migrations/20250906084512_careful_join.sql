@@ -0,0 +1,183 @@
+/*
+  # Patient merge with undo
+
+  1. Schema Updates
+    - `patients.merged_into_id` (uuid) - Set on a duplicate once it has been merged; the row is kept so
+      the merge can be undone, but it no longer appears in patient lists or searches
+
+  2. New Tables
+    - `patient_merges` - One row per merge, used to undo it
+      - `survivor_id` (uuid) - Patient record that was kept
+      - `merged_patient_id` (uuid) - Duplicate that was folded into the survivor
+      - `survivor_snapshot` (jsonb) - Survivor's details before blanks were filled from the duplicate
+      - `moved_records` (jsonb) - Ids re-pointed to the survivor, keyed by table name
+      - `merged_by`, `merged_at`, `undone_by`, `undone_at`
+
+  3. Functions
+    - `merge_patients(p_survivor_id, p_merged_patient_id)` - Re-points visits, bills, appointments,
+      appointment series, deposits and the message log (which includes review requests) in one transaction
+    - `undo_patient_merge(p_merge_id)` - Moves the recorded rows back and restores both patients;
+      records added to the survivor after the merge stay with the survivor
+
+  4. Security
+    - Enable RLS on `patient_merges`
+    - Users can only access merges from their clinic
+*/
+
+ALTER TABLE public.patients
+ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES public.patients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_patients_merged_into_id
+  ON public.patients(merged_into_id);
+
+CREATE TABLE IF NOT EXISTS public.patient_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    survivor_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+    merged_patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+    survivor_snapshot JSONB NOT NULL,
+    moved_records JSONB NOT NULL DEFAULT '{}'::jsonb,
+    merged_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    merged_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    undone_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    undone_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_merges_clinic_id
+  ON public.patient_merges(clinic_id);
+
+-- Enable RLS
+ALTER TABLE public.patient_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access patient merges from their clinic"
+ON public.patient_merges
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
+
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id UUID, p_merged_patient_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_clinic_id UUID := get_current_user_clinic_id();
+  v_survivor public.patients%ROWTYPE;
+  v_duplicate public.patients%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+  v_moved JSONB := '{}'::jsonb;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = p_merged_patient_id THEN
+    RAISE EXCEPTION 'A patient cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM public.patients
+  WHERE id = p_survivor_id AND clinic_id = v_clinic_id
+  FOR UPDATE;
+
+  SELECT * INTO v_duplicate FROM public.patients
+  WHERE id = p_merged_patient_id AND clinic_id = v_clinic_id
+  FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  IF v_survivor.merged_into_id IS NOT NULL OR v_duplicate.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'One of these patients has already been merged';
+  END IF;
+
+  -- Re-point every record that belongs to the duplicate and remember which ones moved
+  FOREACH v_table IN ARRAY ARRAY['visits', 'bills', 'appointments', 'appointment_series', 'patient_deposits', 'sent_messages_log'] LOOP
+    EXECUTE format(
+      'WITH moved AS (UPDATE public.%I SET patient_id = $1 WHERE patient_id = $2 RETURNING id)
+       SELECT COALESCE(jsonb_agg(id), ''[]''::jsonb) FROM moved',
+      v_table
+    ) INTO v_ids USING p_survivor_id, p_merged_patient_id;
+
+    v_moved := v_moved || jsonb_build_object(v_table, v_ids);
+  END LOOP;
+
+  -- Keep the survivor's details, filling blanks from the duplicate
+  UPDATE public.patients
+  SET address = COALESCE(NULLIF(v_survivor.address, ''), v_duplicate.address),
+      emergency_contact = COALESCE(NULLIF(v_survivor.emergency_contact, ''), v_duplicate.emergency_contact),
+      blood_group = COALESCE(NULLIF(v_survivor.blood_group, ''), v_duplicate.blood_group),
+      allergies = ARRAY(
+        SELECT DISTINCT allergy
+        FROM unnest(COALESCE(v_survivor.allergies, '{}') || COALESCE(v_duplicate.allergies, '{}')) AS allergy
+      ),
+      last_visit = GREATEST(v_survivor.last_visit, v_duplicate.last_visit)
+  WHERE id = p_survivor_id;
+
+  UPDATE public.patients
+  SET merged_into_id = p_survivor_id
+  WHERE id = p_merged_patient_id;
+
+  INSERT INTO public.patient_merges (clinic_id, survivor_id, merged_patient_id, survivor_snapshot, moved_records, merged_by)
+  VALUES (
+    v_clinic_id,
+    p_survivor_id,
+    p_merged_patient_id,
+    to_jsonb(v_survivor),
+    v_moved,
+    (SELECT id FROM public.profiles WHERE id = auth.uid())
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION undo_patient_merge(p_merge_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_merge public.patient_merges%ROWTYPE;
+  v_before public.patients%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+BEGIN
+  SELECT * INTO v_merge FROM public.patient_merges
+  WHERE id = p_merge_id AND clinic_id = get_current_user_clinic_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge has already been undone';
+  END IF;
+
+  -- A later merge of the survivor has to be undone first, or its records would be split wrongly
+  IF EXISTS (SELECT 1 FROM public.patients WHERE id = v_merge.survivor_id AND merged_into_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'The surviving patient has since been merged into another record. Undo that merge first.';
+  END IF;
+
+  FOR v_table, v_ids IN SELECT key, value FROM jsonb_each(v_merge.moved_records) LOOP
+    EXECUTE format(
+      'UPDATE public.%I SET patient_id = $1 WHERE patient_id = $2 AND id IN (SELECT jsonb_array_elements_text($3)::uuid)',
+      v_table
+    ) USING v_merge.merged_patient_id, v_merge.survivor_id, v_ids;
+  END LOOP;
+
+  v_before := jsonb_populate_record(NULL::public.patients, v_merge.survivor_snapshot);
+
+  UPDATE public.patients
+  SET address = v_before.address,
+      emergency_contact = v_before.emergency_contact,
+      blood_group = v_before.blood_group,
+      allergies = v_before.allergies,
+      last_visit = v_before.last_visit
+  WHERE id = v_merge.survivor_id;
+
+  UPDATE public.patients
+  SET merged_into_id = NULL
+  WHERE id = v_merge.merged_patient_id;
+
+  UPDATE public.patient_merges
+  SET undone_at = now(),
+      undone_by = (SELECT id FROM public.profiles WHERE id = auth.uid())
+  WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql;
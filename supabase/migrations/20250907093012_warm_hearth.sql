@@ -0,0 +1,51 @@
+/*
+  # Households
+
+  1. New Tables
+    - `households` - Patients who share a phone number or otherwise belong to one family
+      - `name` (text) - e.g. "Sharma Family"
+      - `head_patient_id` (uuid) - Head of household; messages about dependants are addressed to them
+      - `primary_phone` (text) - Number the household was grouped on
+
+  2. Schema Updates
+    - `patients.household_id` (uuid) - Household the patient belongs to, if any
+    - `patients.household_relationship` (text) - Relationship to the head of household; `self` for the head
+
+  3. Security
+    - Enable RLS on `households`
+    - Users can only access households from their clinic
+*/
+
+CREATE TABLE IF NOT EXISTS public.households (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    head_patient_id UUID REFERENCES public.patients(id) ON DELETE SET NULL,
+    primary_phone TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_households_clinic_id
+  ON public.households(clinic_id);
+
+ALTER TABLE public.patients
+ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES public.households(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS household_relationship TEXT
+  CHECK (household_relationship IN ('self', 'spouse', 'child', 'parent', 'sibling', 'grandparent', 'grandchild', 'in_law', 'other'));
+
+CREATE INDEX IF NOT EXISTS idx_patients_household_id
+  ON public.patients(household_id);
+
+CREATE INDEX IF NOT EXISTS idx_patients_clinic_phone
+  ON public.patients(clinic_id, phone);
+
+-- Enable RLS
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access households from their clinic"
+ON public.households
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
@@ -0,0 +1,122 @@
+/*
+  # Medical record numbers
+
+  1. New Tables
+    - `patient_mrn_counters` - Last MRN sequence issued per clinic, per year when the format includes one
+      - `year` (integer) - Registration year, or 0 when the clinic's format has no year
+      - `last_sequence` (integer) - Last sequence number handed out
+
+  2. Schema Updates
+    - `patients.mrn` (text) - Human-readable medical record number, unique within a clinic
+    - `clinic_settings.mrn_prefix` (text) - e.g. `MRN`
+    - `clinic_settings.mrn_include_year` (boolean) - Whether the registration year is part of the MRN
+    - `clinic_settings.mrn_sequence_padding` (integer) - Digits the sequence is zero-padded to
+    - Patients get an MRN on insert (including offline replays and online bookings); existing
+      patients are numbered in registration order
+
+  3. Security
+    - Enable RLS on `patient_mrn_counters`
+    - Users can only access MRN counters from their clinic
+*/
+
+ALTER TABLE public.clinic_settings
+ADD COLUMN IF NOT EXISTS mrn_prefix TEXT DEFAULT 'MRN',
+ADD COLUMN IF NOT EXISTS mrn_include_year BOOLEAN DEFAULT true,
+ADD COLUMN IF NOT EXISTS mrn_sequence_padding INTEGER DEFAULT 5
+  CHECK (mrn_sequence_padding BETWEEN 3 AND 10);
+
+ALTER TABLE public.patients
+ADD COLUMN IF NOT EXISTS mrn TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_patients_clinic_mrn
+  ON public.patients(clinic_id, mrn);
+
+CREATE TABLE IF NOT EXISTS public.patient_mrn_counters (
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    last_sequence INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (clinic_id, year)
+);
+
+-- Issue the next MRN for a clinic in its configured format
+CREATE OR REPLACE FUNCTION next_patient_mrn(p_clinic_id UUID, p_registered_at TIMESTAMPTZ DEFAULT now())
+RETURNS TEXT AS $$
+DECLARE
+  v_settings RECORD;
+  v_year INTEGER;
+  v_sequence INTEGER;
+BEGIN
+  SELECT
+    UPPER(COALESCE(NULLIF(TRIM(mrn_prefix), ''), 'MRN')) AS prefix,
+    COALESCE(mrn_include_year, true) AS include_year,
+    COALESCE(mrn_sequence_padding, 5) AS padding,
+    COALESCE(timezone, 'Asia/Kolkata') AS timezone
+  INTO v_settings
+  FROM public.clinic_settings
+  WHERE id = p_clinic_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Clinic not found';
+  END IF;
+
+  v_year := CASE
+    WHEN v_settings.include_year THEN EXTRACT(YEAR FROM p_registered_at AT TIME ZONE v_settings.timezone)::INTEGER
+    ELSE 0
+  END;
+
+  -- The upsert locks the counter row, so concurrent registrations never share a number
+  INSERT INTO public.patient_mrn_counters (clinic_id, year, last_sequence)
+  VALUES (p_clinic_id, v_year, 1)
+  ON CONFLICT (clinic_id, year)
+  DO UPDATE SET last_sequence = public.patient_mrn_counters.last_sequence + 1
+  RETURNING last_sequence INTO v_sequence;
+
+  RETURN v_settings.prefix
+    || CASE WHEN v_year > 0 THEN '-' || v_year ELSE '' END
+    || '-' || LPAD(v_sequence::TEXT, GREATEST(v_settings.padding, LENGTH(v_sequence::TEXT)), '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Assign an MRN to every new patient that doesn't already have one
+CREATE OR REPLACE FUNCTION assign_patient_mrn()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.mrn IS NULL AND NEW.clinic_id IS NOT NULL THEN
+    NEW.mrn := next_patient_mrn(NEW.clinic_id, COALESCE(NEW.created_at, now()));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_assign_patient_mrn ON public.patients;
+CREATE TRIGGER trigger_assign_patient_mrn
+  BEFORE INSERT ON public.patients
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_patient_mrn();
+
+-- Number existing patients in the order they registered
+DO $$
+DECLARE
+  v_patient RECORD;
+BEGIN
+  FOR v_patient IN
+    SELECT id, clinic_id, created_at
+    FROM public.patients
+    WHERE mrn IS NULL AND clinic_id IS NOT NULL
+    ORDER BY created_at, id
+  LOOP
+    UPDATE public.patients
+    SET mrn = next_patient_mrn(v_patient.clinic_id, v_patient.created_at)
+    WHERE id = v_patient.id;
+  END LOOP;
+END $$;
+
+-- Enable RLS
+ALTER TABLE public.patient_mrn_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access MRN counters from their clinic"
+ON public.patient_mrn_counters
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
@@ -0,0 +1,116 @@
+/*
+  # Patient imports
+
+  1. New Tables
+    - `patient_imports` - One run of the bulk patient import wizard
+      - `file_name` (text) - Spreadsheet the patients came from
+      - `total_rows`, `imported_count`, `skipped_count`, `failed_count` (integer) - Outcome of the run
+      - `errors` (jsonb) - Per-row failures, `[{ "row": 12, "message": "..." }]`
+      - `status` (text) - in_progress, completed or rolled_back
+
+  2. Schema Updates
+    - `patients.import_id` (uuid) - Import run that created the patient, if any
+    - `rollback_patient_import(import_id)` deletes the patients an import created, provided none
+      of them have been seen, billed, booked or merged since
+
+  3. Security
+    - Enable RLS on `patient_imports`
+    - Users can only access patient imports from their clinic
+*/
+
+CREATE TABLE IF NOT EXISTS public.patient_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    file_name TEXT NOT NULL,
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    imported_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'rolled_back')),
+    imported_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    rolled_back_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    rolled_back_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_imports_clinic_id
+  ON public.patient_imports(clinic_id, created_at DESC);
+
+ALTER TABLE public.patients
+ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.patient_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_patients_import_id
+  ON public.patients(import_id);
+
+-- Delete every patient an import created. Most patient foreign keys cascade, so the rollback
+-- refuses rather than silently deleting visits, bills or appointments recorded since the import.
+CREATE OR REPLACE FUNCTION rollback_patient_import(p_import_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_import RECORD;
+  v_table TEXT;
+  v_in_use INTEGER;
+  v_deleted INTEGER;
+BEGIN
+  SELECT * INTO v_import
+  FROM public.patient_imports
+  WHERE id = p_import_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_import.clinic_id <> get_current_user_clinic_id() THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  IF v_import.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'This import has already been rolled back';
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['visits', 'bills', 'appointments', 'appointment_series', 'patient_deposits', 'sent_messages_log']
+  LOOP
+    EXECUTE format(
+      'SELECT COUNT(DISTINCT t.patient_id) FROM public.%I t JOIN public.patients p ON p.id = t.patient_id WHERE p.import_id = $1',
+      v_table
+    ) INTO v_in_use USING p_import_id;
+
+    IF v_in_use > 0 THEN
+      RAISE EXCEPTION '% imported patient(s) already have records in %. Remove or merge those patients individually instead.', v_in_use, v_table;
+    END IF;
+  END LOOP;
+
+  SELECT COUNT(*) INTO v_in_use
+  FROM public.patient_merges m
+  JOIN public.patients p ON p.id IN (m.survivor_id, m.merged_patient_id)
+  WHERE p.import_id = p_import_id
+    AND m.undone_at IS NULL;
+
+  IF v_in_use > 0 THEN
+    RAISE EXCEPTION 'Some imported patients have been merged. Undo those merges before rolling back the import.';
+  END IF;
+
+  DELETE FROM public.patients
+  WHERE import_id = p_import_id
+    AND clinic_id = v_import.clinic_id;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  UPDATE public.patient_imports
+  SET status = 'rolled_back',
+      rolled_back_by = (SELECT id FROM public.profiles WHERE id = auth.uid()),
+      rolled_back_at = now()
+  WHERE id = p_import_id;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE public.patient_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access patient imports from their clinic"
+ON public.patient_imports
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
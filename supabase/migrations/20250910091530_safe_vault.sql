@@ -0,0 +1,280 @@
+/*
+  # Clinic backups
+
+  1. New Tables
+    - `clinic_backups` - Archives written by the `clinic-backup` edge function
+      - `file_path` (text) - Object in the `clinic-backups` storage bucket, `<clinic_id>/<timestamp>.zip`
+      - `file_format` (text) - zip or json
+      - `schema_version` (integer) - Backup format version the archive was written with
+      - `table_counts` (jsonb) - Rows per table, `{ "patients": 1200, ... }`
+      - `trigger_type` (text) - manual or scheduled
+      - `status` (text) - completed or failed; failed runs keep `error_details`
+    - `clinic_backup_restores` - Every restore, with the archive it came from
+
+  2. Schema Updates
+    - `clinic_settings.backup_auto_enabled` (boolean) - Take scheduled backups
+    - `clinic_settings.backup_frequency` (text) - hourly, daily, weekly or monthly
+    - `clinic_settings.backup_retention_days` (integer) - Older backups are deleted, keeping the latest
+    - `restore_backup(clinic_id, tables)` restores a whole archive in one transaction, table by table in
+      dependency order with foreign keys checked, so a failed restore leaves nothing half-written. Only the
+      service role may call it; the edge function validates the archive first.
+
+  3. Storage
+    - Private `clinic-backups` bucket; users can read and upload only under their clinic's folder
+
+  4. Security
+    - Enable RLS on `clinic_backups` and `clinic_backup_restores`
+    - Users can only access backups and restores from their clinic
+
+  5. Scheduling
+    - The `clinic-backup` edge function is meant to run every hour, e.g. with pg_cron and pg_net:
+        select cron.schedule('clinic-backup', '15 * * * *', $$
+          select net.http_post(
+            url := '<project-url>/functions/v1/clinic-backup',
+            headers := '{"Authorization": "Bearer <service-role-key>", "Content-Type": "application/json"}'::jsonb,
+            body := '{"action": "scheduled"}'::jsonb
+          )
+        $$);
+*/
+
+ALTER TABLE public.clinic_settings
+  ADD COLUMN IF NOT EXISTS backup_auto_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS backup_frequency TEXT NOT NULL DEFAULT 'daily'
+    CHECK (backup_frequency IN ('hourly', 'daily', 'weekly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS backup_retention_days INTEGER NOT NULL DEFAULT 30
+    CHECK (backup_retention_days >= 1);
+
+CREATE TABLE IF NOT EXISTS public.clinic_backups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    file_path TEXT,
+    file_format TEXT NOT NULL DEFAULT 'zip' CHECK (file_format IN ('zip', 'json')),
+    schema_version INTEGER NOT NULL,
+    size_bytes BIGINT NOT NULL DEFAULT 0,
+    table_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+    trigger_type TEXT NOT NULL CHECK (trigger_type IN ('manual', 'scheduled')),
+    status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+    error_details TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinic_backups_clinic_id
+  ON public.clinic_backups(clinic_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.clinic_backup_restores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    backup_id UUID REFERENCES public.clinic_backups(id) ON DELETE SET NULL,
+    file_name TEXT NOT NULL,
+    schema_version INTEGER NOT NULL,
+    backup_created_at TIMESTAMP WITH TIME ZONE,
+    row_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+    restored_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    restored_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinic_backup_restores_clinic_id
+  ON public.clinic_backup_restores(clinic_id, restored_at DESC);
+
+-- Upsert one table's rows from a backup archive. Rows are restored to their backed-up state;
+-- rows created since the backup are kept. Columns added after the backup keep their current values.
+-- Only called by restore_backup, which checks the table name.
+CREATE OR REPLACE FUNCTION restore_backup_rows(p_clinic_id UUID, p_table TEXT, p_rows JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_columns TEXT[];
+  v_key_columns TEXT[];
+  v_owner_column TEXT;
+  v_conflict_action TEXT;
+  v_parent RECORD;
+  v_foreign BOOLEAN;
+  v_count INTEGER;
+BEGIN
+  IF p_rows IS NULL OR jsonb_array_length(p_rows) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT array_agg(c.column_name::TEXT ORDER BY c.ordinal_position) INTO v_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = p_table
+    AND c.is_generated = 'NEVER'
+    AND p_rows->0 ? c.column_name;
+
+  SELECT array_agg(a.attname::TEXT) INTO v_key_columns
+  FROM pg_index i
+  JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey)
+  WHERE i.indrelid = format('public.%I', p_table)::regclass
+    AND i.indisprimary;
+
+  -- Every row must belong to the clinic being restored, and existing rows of other clinics are never touched.
+  -- The owner column comes from the table itself, so an archive can't dodge the check by leaving it out.
+  v_owner_column := CASE
+    WHEN p_table = 'clinic_settings' THEN 'id'
+    WHEN EXISTS (
+      SELECT 1 FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = p_table AND c.column_name = 'clinic_id'
+    ) THEN 'clinic_id'
+  END;
+
+  IF v_owner_column IS NOT NULL AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_rows) r
+    WHERE r->>v_owner_column IS DISTINCT FROM p_clinic_id::TEXT
+  ) THEN
+    RAISE EXCEPTION 'The backup has % rows without a clinic or from another clinic', p_table;
+  END IF;
+
+  -- Rows may only hang off this clinic's visits, bills, receipts and so on. Staff are left out as they can
+  -- move between clinics, and shared master rows (no clinic) may be referenced by anyone.
+  FOR v_parent IN
+    SELECT a.attname::TEXT AS column_name, c.confrelid::regclass AS parent_table, pa.attname::TEXT AS parent_column
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+    JOIN pg_attribute pa ON pa.attrelid = c.confrelid AND pa.attnum = c.confkey[1]
+    WHERE c.conrelid = format('public.%I', p_table)::regclass
+      AND c.contype = 'f'
+      AND array_length(c.conkey, 1) = 1
+      AND c.confrelid <> 'public.profiles'::regclass
+      AND a.attname::TEXT = ANY (v_columns)
+      AND EXISTS (
+        SELECT 1 FROM pg_attribute oa
+        WHERE oa.attrelid = c.confrelid AND oa.attname = 'clinic_id' AND NOT oa.attisdropped
+      )
+  LOOP
+    EXECUTE format(
+      'SELECT EXISTS (SELECT 1 FROM jsonb_populate_recordset(NULL::public.%I, $1) r JOIN %s p ON p.%I = r.%I WHERE p.clinic_id <> $2)',
+      p_table, v_parent.parent_table, v_parent.parent_column, v_parent.column_name
+    ) INTO v_foreign USING p_rows, p_clinic_id;
+
+    IF v_foreign THEN
+      RAISE EXCEPTION 'The backup has % rows linked to another clinic''s %', p_table, v_parent.parent_table;
+    END IF;
+  END LOOP;
+
+  v_conflict_action := CASE
+    -- Suppliers are shared between clinics; only missing ones are added back
+    WHEN p_table = 'suppliers' OR v_owner_column IS NULL THEN 'DO NOTHING'
+    -- Never move an MRN counter backwards, or new patients would get numbers already in use
+    WHEN p_table = 'patient_mrn_counters' THEN
+      'DO UPDATE SET last_sequence = GREATEST(t.last_sequence, EXCLUDED.last_sequence)'
+    ELSE
+      'DO UPDATE SET ' || (
+        SELECT string_agg(format('%1$I = EXCLUDED.%1$I', col), ', ')
+        FROM unnest(v_columns) col
+        WHERE NOT col = ANY (v_key_columns)
+      ) || format(' WHERE t.%I = %L', v_owner_column, p_clinic_id)
+  END;
+
+  -- The rows' triggers (stock movements, last visit, MRNs) already ran when they were first written, so
+  -- they are switched off for the insert. Foreign key checks are internal triggers and stay on. This holds
+  -- a write lock on the table until the restore commits.
+  EXECUTE format('ALTER TABLE public.%I DISABLE TRIGGER USER', p_table);
+
+  EXECUTE format(
+    'INSERT INTO public.%1$I AS t (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1) ON CONFLICT (%3$s) %4$s',
+    p_table,
+    (SELECT string_agg(format('%I', col), ', ') FROM unnest(v_columns) col),
+    (SELECT string_agg(format('%I', col), ', ') FROM unnest(v_key_columns) col),
+    v_conflict_action
+  ) USING p_rows;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  EXECUTE format('ALTER TABLE public.%I ENABLE TRIGGER USER', p_table);
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION restore_backup_rows(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated, service_role;
+
+-- Restore a whole archive, `{ "patients": [...], ... }`, in one transaction: either every table comes back
+-- or nothing changes. Returns the rows restored per table.
+CREATE OR REPLACE FUNCTION restore_backup(p_clinic_id UUID, p_tables JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  -- Parents before children, so foreign keys hold as each table goes in
+  v_order TEXT[] := ARRAY[
+    'clinic_settings', 'medicines_master', 'tests_master', 'drug_safety_rules', 'clinic_medicine_prices',
+    'clinic_test_prices', 'visit_templates', 'patient_imports', 'households', 'patients', 'patient_mrn_counters',
+    'patient_merges', 'appointment_series', 'appointments', 'availability_exceptions', 'visits', 'symptoms',
+    'diagnoses', 'prescriptions', 'tests_ordered', 'test_results', 'bills', 'bill_items', 'credit_notes',
+    'credit_note_items', 'payment_records', 'patient_deposits', 'suppliers', 'pharmacy_inward_receipts',
+    'medicine_batches', 'pharmacy_inward_items', 'pharmacy_dispensed_items', 'stock_movement_log', 'sent_messages_log',
+    'doctor_payout_rules', 'doctor_settlements', 'doctor_settlement_items', 'cashier_shifts'
+  ];
+  v_table TEXT;
+  v_counts JSONB := '{}'::jsonb;
+BEGIN
+  SELECT t INTO v_table
+  FROM jsonb_object_keys(p_tables) t
+  WHERE NOT t = ANY (v_order)
+  LIMIT 1;
+
+  IF v_table IS NOT NULL THEN
+    RAISE EXCEPTION 'Table % cannot be restored from a backup', v_table;
+  END IF;
+
+  FOREACH v_table IN ARRAY v_order LOOP
+    -- Households and patients point at each other: households go in first without their head patient,
+    -- who is filled in once the patients are back
+    IF v_table = 'households' AND p_tables ? 'households' THEN
+      PERFORM restore_backup_rows(
+        p_clinic_id,
+        'households',
+        (SELECT jsonb_agg(r - 'head_patient_id') FROM jsonb_array_elements(p_tables->'households') r)
+      );
+    ELSIF p_tables ? v_table THEN
+      v_counts := v_counts || jsonb_build_object(v_table, restore_backup_rows(p_clinic_id, v_table, p_tables->v_table));
+    END IF;
+
+    IF v_table = 'patients' AND p_tables ? 'households' THEN
+      v_counts := v_counts || jsonb_build_object(
+        'households',
+        restore_backup_rows(p_clinic_id, 'households', p_tables->'households')
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_counts;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION restore_backup(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restore_backup(UUID, JSONB) TO service_role;
+
+-- Backup archives
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('clinic-backups', 'clinic-backups', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read backups from their clinic"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'clinic-backups' AND (storage.foldername(name))[1] = get_current_user_clinic_id()::TEXT);
+
+CREATE POLICY "Users can upload backups to restore for their clinic"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'clinic-backups' AND (storage.foldername(name))[1] = get_current_user_clinic_id()::TEXT);
+
+-- Enable RLS
+ALTER TABLE public.clinic_backups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.clinic_backup_restores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access clinic backups from their clinic"
+ON public.clinic_backups
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
+
+CREATE POLICY "Users can only access backup restores from their clinic"
+ON public.clinic_backup_restores
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
@@ -0,0 +1,145 @@
+/*
+  # Clinic analytics
+
+  1. Schema Updates
+    - `get_clinic_analytics(clinic_id, start, end, bucket)` returns the Analytics dashboard's aggregates
+      for one period as JSON:
+      - patient totals, registrations, and new vs. returning patients among those seen
+      - visit count, visits per bucket (day, week or month, in the clinic's timezone) and the busiest hour
+      - top diagnoses and most prescribed medicines
+      - net collections including advance deposits, and billed amount (voided bills excluded)
+      - follow-ups falling due in the period and how many were kept
+    - Runs with the caller's rights, so RLS still limits it to the caller's clinic
+*/
+
+CREATE OR REPLACE FUNCTION get_clinic_analytics(
+  p_clinic_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_bucket TEXT DEFAULT 'month'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_timezone TEXT;
+  v_result JSONB;
+BEGIN
+  IF p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unknown bucket %', p_bucket;
+  END IF;
+
+  SELECT COALESCE(timezone, 'Asia/Kolkata') INTO v_timezone
+  FROM public.clinic_settings
+  WHERE id = p_clinic_id;
+
+  WITH period_visits AS (
+    SELECT v.id, v.patient_id, v.date
+    FROM public.visits v
+    JOIN public.patients p ON p.id = v.patient_id
+    WHERE v.clinic_id = p_clinic_id
+      AND v.date >= p_start
+      AND v.date < p_end
+      AND p.merged_into_id IS NULL
+  ),
+  first_visits AS (
+    SELECT v.patient_id, MIN(v.date) AS first_visit
+    FROM public.visits v
+    WHERE v.clinic_id = p_clinic_id
+      AND v.patient_id IN (SELECT patient_id FROM period_visits)
+    GROUP BY v.patient_id
+  ),
+  due_follow_ups AS (
+    SELECT v.id, v.patient_id, v.date, v.follow_up_date
+    FROM public.visits v
+    WHERE v.clinic_id = p_clinic_id
+      AND v.follow_up_date >= p_start
+      AND v.follow_up_date < LEAST(p_end, now())
+  )
+  SELECT jsonb_build_object(
+    'total_patients', (
+      SELECT COUNT(*) FROM public.patients
+      WHERE clinic_id = p_clinic_id AND created_at < p_end AND merged_into_id IS NULL
+    ),
+    'registered_patients', (
+      SELECT COUNT(*) FROM public.patients
+      WHERE clinic_id = p_clinic_id AND created_at >= p_start AND created_at < p_end AND merged_into_id IS NULL
+    ),
+    'total_visits', (SELECT COUNT(*) FROM period_visits),
+    'unique_patients', (SELECT COUNT(DISTINCT patient_id) FROM period_visits),
+    'new_patients', (SELECT COUNT(*) FROM first_visits WHERE first_visit >= p_start),
+    'returning_patients', (SELECT COUNT(*) FROM first_visits WHERE first_visit < p_start),
+    'peak_hour', (
+      SELECT EXTRACT(HOUR FROM date AT TIME ZONE v_timezone)::INTEGER
+      FROM period_visits
+      GROUP BY 1
+      ORDER BY COUNT(*) DESC, 1
+      LIMIT 1
+    ),
+    'visit_trend', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('bucket', to_char(b.bucket, 'YYYY-MM-DD'), 'visits', COALESCE(c.visits, 0)) ORDER BY b.bucket), '[]'::jsonb)
+      FROM generate_series(
+        date_trunc(p_bucket, p_start AT TIME ZONE v_timezone),
+        (p_end - INTERVAL '1 second') AT TIME ZONE v_timezone,
+        ('1 ' || p_bucket)::INTERVAL
+      ) AS b(bucket)
+      LEFT JOIN (
+        SELECT date_trunc(p_bucket, date AT TIME ZONE v_timezone) AS bucket, COUNT(*) AS visits
+        FROM period_visits
+        GROUP BY 1
+      ) c ON c.bucket = b.bucket
+    ),
+    'top_diagnoses', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'count', count) ORDER BY count DESC, name), '[]'::jsonb)
+      FROM (
+        SELECT MIN(d.name) AS name, COUNT(*) AS count
+        FROM public.diagnoses d
+        JOIN period_visits pv ON pv.id = d.visit_id
+        GROUP BY lower(trim(d.name))
+        ORDER BY count DESC, 1
+        LIMIT 5
+      ) top
+    ),
+    'top_medicines', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'count', count) ORDER BY count DESC, name), '[]'::jsonb)
+      FROM (
+        SELECT MIN(pr.medicine) AS name, COUNT(*) AS count
+        FROM public.prescriptions pr
+        JOIN period_visits pv ON pv.id = pr.visit_id
+        GROUP BY lower(trim(pr.medicine))
+        ORDER BY count DESC, 1
+        LIMIT 5
+      ) top
+    ),
+    -- Deposits count when received; payments settled from them are not counted again
+    'revenue', (
+      SELECT COALESCE(SUM(amount), 0) FROM public.payment_records
+      WHERE clinic_id = p_clinic_id AND payment_date >= p_start AND payment_date < p_end AND NOT paid_from_deposit
+    ) + (
+      SELECT COALESCE(SUM(amount), 0) FROM public.patient_deposits
+      WHERE clinic_id = p_clinic_id AND deposit_date >= p_start AND deposit_date < p_end
+    ),
+    'billed_amount', (
+      SELECT COALESCE(SUM(total_amount - credited_amount), 0) FROM public.bills
+      WHERE clinic_id = p_clinic_id AND bill_date >= p_start AND bill_date < p_end AND voided_at IS NULL
+    ),
+    'bill_count', (
+      SELECT COUNT(*) FROM public.bills
+      WHERE clinic_id = p_clinic_id AND bill_date >= p_start AND bill_date < p_end AND voided_at IS NULL
+    ),
+    'follow_ups_due', (SELECT COUNT(*) FROM due_follow_ups),
+    -- Kept: the patient came back anywhere from three days early to a week late
+    'follow_ups_kept', (
+      SELECT COUNT(*) FROM due_follow_ups f
+      WHERE EXISTS (
+        SELECT 1 FROM public.visits v
+        WHERE v.clinic_id = p_clinic_id
+          AND v.patient_id = f.patient_id
+          AND v.date > f.date
+          AND v.date >= f.follow_up_date - INTERVAL '3 days'
+          AND v.date < f.follow_up_date + INTERVAL '7 days'
+      )
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
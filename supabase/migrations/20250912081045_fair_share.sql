@@ -0,0 +1,129 @@
+/*
+  # Doctor revenue report
+
+  1. Schema Updates
+    - `get_doctor_revenue_report(clinic_id, start, end)` returns one row per doctor for the period:
+      - visits and distinct patients seen
+      - billed amounts split into consultations, procedures, pharmacy and other items
+      - bill count, billed total (net of credit notes), collected and outstanding
+      - follow-ups advised, those already due, and those the patient came back for
+    - Bills are credited to the doctor of the visit they were raised for; bills without a visit
+      (e.g. pharmacy walk-ins) come back as a row with no doctor. Voided bills are left out.
+    - Runs with the caller's rights, so RLS still limits it to the caller's clinic
+*/
+
+CREATE OR REPLACE FUNCTION get_doctor_revenue_report(
+  p_clinic_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  doctor_id UUID,
+  doctor_name TEXT,
+  visit_count BIGINT,
+  patient_count BIGINT,
+  consultation_count BIGINT,
+  consultation_amount NUMERIC,
+  procedure_count BIGINT,
+  procedure_amount NUMERIC,
+  pharmacy_amount NUMERIC,
+  other_amount NUMERIC,
+  bill_count BIGINT,
+  billed_amount NUMERIC,
+  collected_amount NUMERIC,
+  outstanding_amount NUMERIC,
+  follow_ups_advised BIGINT,
+  follow_ups_due BIGINT,
+  follow_ups_kept BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH period_visits AS (
+    SELECT v.id, v.patient_id, v.doctor_id, v.date, v.follow_up_date
+    FROM public.visits v
+    WHERE v.clinic_id = p_clinic_id
+      AND v.date >= p_start
+      AND v.date < p_end
+  ),
+  period_bills AS (
+    SELECT b.id, v.doctor_id, b.total_amount - b.credited_amount AS net_amount, b.paid_amount, b.balance_amount
+    FROM public.bills b
+    LEFT JOIN public.visits v ON v.id = b.visit_id
+    WHERE b.clinic_id = p_clinic_id
+      AND b.bill_date >= p_start
+      AND b.bill_date < p_end
+      AND b.voided_at IS NULL
+  ),
+  visit_stats AS (
+    SELECT
+      pv.doctor_id,
+      COUNT(*) AS visit_count,
+      COUNT(DISTINCT pv.patient_id) AS patient_count,
+      COUNT(*) FILTER (WHERE pv.follow_up_date IS NOT NULL) AS follow_ups_advised,
+      COUNT(*) FILTER (WHERE pv.follow_up_date < now()) AS follow_ups_due,
+      -- Kept: the patient came back anywhere from three days early to a week late
+      COUNT(*) FILTER (WHERE pv.follow_up_date < now() AND EXISTS (
+        SELECT 1 FROM public.visits rv
+        WHERE rv.clinic_id = p_clinic_id
+          AND rv.patient_id = pv.patient_id
+          AND rv.date > pv.date
+          AND rv.date >= pv.follow_up_date - INTERVAL '3 days'
+          AND rv.date < pv.follow_up_date + INTERVAL '7 days'
+      )) AS follow_ups_kept
+    FROM period_visits pv
+    GROUP BY pv.doctor_id
+  ),
+  bill_stats AS (
+    SELECT
+      pb.doctor_id,
+      COUNT(*) AS bill_count,
+      SUM(pb.net_amount) AS billed_amount,
+      SUM(pb.paid_amount) AS collected_amount,
+      SUM(pb.balance_amount) AS outstanding_amount
+    FROM period_bills pb
+    GROUP BY pb.doctor_id
+  ),
+  item_stats AS (
+    SELECT
+      pb.doctor_id,
+      COUNT(*) FILTER (WHERE bi.item_type = 'consultation') AS consultation_count,
+      COALESCE(SUM(bi.total_price) FILTER (WHERE bi.item_type = 'consultation'), 0) AS consultation_amount,
+      COUNT(*) FILTER (WHERE bi.item_type = 'procedure') AS procedure_count,
+      COALESCE(SUM(bi.total_price) FILTER (WHERE bi.item_type = 'procedure'), 0) AS procedure_amount,
+      COALESCE(SUM(bi.total_price) FILTER (WHERE bi.item_type = 'medicine'), 0) AS pharmacy_amount,
+      COALESCE(SUM(bi.total_price) FILTER (WHERE bi.item_type NOT IN ('consultation', 'procedure', 'medicine')), 0) AS other_amount
+    FROM period_bills pb
+    JOIN public.bill_items bi ON bi.bill_id = pb.id
+    GROUP BY pb.doctor_id
+  ),
+  doctors AS (
+    SELECT vs.doctor_id FROM visit_stats vs
+    UNION
+    SELECT bs.doctor_id FROM bill_stats bs
+  )
+  SELECT
+    d.doctor_id,
+    p.name,
+    COALESCE(vs.visit_count, 0),
+    COALESCE(vs.patient_count, 0),
+    COALESCE(i.consultation_count, 0),
+    COALESCE(i.consultation_amount, 0),
+    COALESCE(i.procedure_count, 0),
+    COALESCE(i.procedure_amount, 0),
+    COALESCE(i.pharmacy_amount, 0),
+    COALESCE(i.other_amount, 0),
+    COALESCE(bs.bill_count, 0),
+    COALESCE(bs.billed_amount, 0),
+    COALESCE(bs.collected_amount, 0),
+    COALESCE(bs.outstanding_amount, 0),
+    COALESCE(vs.follow_ups_advised, 0),
+    COALESCE(vs.follow_ups_due, 0),
+    COALESCE(vs.follow_ups_kept, 0)
+  FROM doctors d
+  LEFT JOIN public.profiles p ON p.id = d.doctor_id
+  LEFT JOIN visit_stats vs ON vs.doctor_id IS NOT DISTINCT FROM d.doctor_id
+  LEFT JOIN bill_stats bs ON bs.doctor_id IS NOT DISTINCT FROM d.doctor_id
+  LEFT JOIN item_stats i ON i.doctor_id IS NOT DISTINCT FROM d.doctor_id
+  ORDER BY COALESCE(bs.billed_amount, 0) DESC, p.name;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,278 @@
+/*
+  # Doctor payouts
+
+  1. New Tables
+    - `doctor_payout_rules` - What a doctor earns on each kind of bill item
+      - `item_type` (text) - consultation, procedure, medicine, test or other
+      - `payout_type` (text) - percentage of the item's value after discounts, or a fixed amount per unit
+      - `value` (numeric) - The percentage or the amount
+    - `doctor_settlements` - One statement per doctor per month
+      - `period_start` / `period_end` (date) - First and last day of the month
+      - `earnings_amount` (numeric) - Payouts on bills paid up to the end of the month
+      - `adjustment_amount` (numeric) - Recoveries for refunds made after earlier statements were settled (negative)
+      - `net_payout` (numeric) - Earnings plus adjustments
+      - `status` (text) - draft or settled; settled statements can no longer be regenerated
+    - `doctor_settlement_items` - The lines behind a statement
+      - `entry_type` (text) - earning (one per bill item) or adjustment (one per refund)
+
+  2. Schema Updates
+    - `generate_doctor_settlement(doctor_id, month)` creates or refreshes the draft statement for a month:
+      - earnings: items of fully paid, non-voided bills raised for the doctor's visits up to the end of
+        the month that no statement has picked up yet. The base is the item's taxable value (after the
+        item discount), scaled down by any credit notes on the bill. Items without a rule earn nothing.
+      - adjustments: refunds on bills whose earnings were already settled, made after that settlement,
+        recover the same share of the payout as the refund is of the bill
+    - `settle_doctor_settlement(settlement_id, reference, notes)` marks a draft as paid out
+
+  3. Security
+    - Enable RLS on all three tables
+    - Users can only access payout rules and settlements from their clinic
+*/
+
+CREATE TABLE IF NOT EXISTS public.doctor_payout_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    item_type TEXT NOT NULL CHECK (item_type IN ('consultation', 'procedure', 'medicine', 'test', 'other')),
+    payout_type TEXT NOT NULL CHECK (payout_type IN ('percentage', 'fixed')),
+    value NUMERIC NOT NULL CHECK (value >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (doctor_id, item_type),
+    CHECK (payout_type <> 'percentage' OR value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_doctor_payout_rules_clinic_id
+  ON public.doctor_payout_rules(clinic_id);
+
+DROP TRIGGER IF EXISTS update_doctor_payout_rules_updated_at ON public.doctor_payout_rules;
+CREATE TRIGGER update_doctor_payout_rules_updated_at
+  BEFORE UPDATE ON public.doctor_payout_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.doctor_settlements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    earnings_amount NUMERIC NOT NULL DEFAULT 0,
+    adjustment_amount NUMERIC NOT NULL DEFAULT 0,
+    net_payout NUMERIC NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'settled')),
+    payment_reference TEXT,
+    notes TEXT,
+    generated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    generated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    settled_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    settled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (doctor_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_doctor_settlements_clinic_id
+  ON public.doctor_settlements(clinic_id, period_start DESC);
+
+CREATE TABLE IF NOT EXISTS public.doctor_settlement_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    settlement_id UUID NOT NULL REFERENCES public.doctor_settlements(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('earning', 'adjustment')),
+    bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+    bill_item_id UUID REFERENCES public.bill_items(id) ON DELETE SET NULL,
+    payment_record_id UUID REFERENCES public.payment_records(id) ON DELETE SET NULL,
+    item_type TEXT,
+    item_name TEXT NOT NULL,
+    base_amount NUMERIC NOT NULL,
+    payout_type TEXT CHECK (payout_type IN ('percentage', 'fixed')),
+    rule_value NUMERIC,
+    payout_amount NUMERIC NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_doctor_settlement_items_settlement_id
+  ON public.doctor_settlement_items(settlement_id);
+
+-- A bill item is paid out once and a refund is recovered once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_doctor_settlement_items_bill_item
+  ON public.doctor_settlement_items(bill_item_id) WHERE entry_type = 'earning';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_doctor_settlement_items_refund
+  ON public.doctor_settlement_items(payment_record_id) WHERE entry_type = 'adjustment';
+
+ALTER TABLE public.doctor_payout_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_settlement_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only access payout rules from their clinic" ON public.doctor_payout_rules;
+CREATE POLICY "Users can only access payout rules from their clinic"
+ON public.doctor_payout_rules
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
+
+DROP POLICY IF EXISTS "Users can only access settlements from their clinic" ON public.doctor_settlements;
+CREATE POLICY "Users can only access settlements from their clinic"
+ON public.doctor_settlements
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
+
+DROP POLICY IF EXISTS "Users can only access settlement items from their clinic" ON public.doctor_settlement_items;
+CREATE POLICY "Users can only access settlement items from their clinic"
+ON public.doctor_settlement_items
+FOR ALL
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id())
+WITH CHECK (clinic_id = get_current_user_clinic_id());
+
+CREATE OR REPLACE FUNCTION generate_doctor_settlement(p_doctor_id UUID, p_month DATE)
+RETURNS UUID AS $$
+DECLARE
+  v_clinic_id UUID := get_current_user_clinic_id();
+  v_period_start DATE := date_trunc('month', p_month)::DATE;
+  v_period_end DATE := (date_trunc('month', p_month) + INTERVAL '1 month - 1 day')::DATE;
+  v_timezone TEXT;
+  v_cutoff TIMESTAMP WITH TIME ZONE;
+  v_settlement public.doctor_settlements%ROWTYPE;
+  v_settlement_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_doctor_id AND clinic_id = v_clinic_id) THEN
+    RAISE EXCEPTION 'Doctor not found';
+  END IF;
+
+  SELECT COALESCE(timezone, 'Asia/Kolkata') INTO v_timezone
+  FROM public.clinic_settings
+  WHERE id = v_clinic_id;
+
+  -- Bills and refunds count towards the month they fall in, in the clinic's timezone
+  v_cutoff := (v_period_end + 1)::TIMESTAMP AT TIME ZONE v_timezone;
+
+  SELECT * INTO v_settlement FROM public.doctor_settlements
+  WHERE doctor_id = p_doctor_id AND period_start = v_period_start
+  FOR UPDATE;
+
+  IF v_settlement.id IS NOT NULL THEN
+    IF v_settlement.status = 'settled' THEN
+      RAISE EXCEPTION 'The statement for this month has already been settled';
+    END IF;
+
+    v_settlement_id := v_settlement.id;
+    DELETE FROM public.doctor_settlement_items WHERE settlement_id = v_settlement_id;
+  ELSE
+    INSERT INTO public.doctor_settlements (clinic_id, doctor_id, period_start, period_end)
+    VALUES (v_clinic_id, p_doctor_id, v_period_start, v_period_end)
+    RETURNING id INTO v_settlement_id;
+  END IF;
+
+  INSERT INTO public.doctor_settlement_items (
+    clinic_id, settlement_id, entry_type, bill_id, bill_item_id, item_type, item_name,
+    base_amount, payout_type, rule_value, payout_amount
+  )
+  SELECT
+    v_clinic_id,
+    v_settlement_id,
+    'earning',
+    b.id,
+    bi.id,
+    bi.item_type::TEXT,
+    bi.item_name,
+    ROUND(x.base * x.net_share, 2),
+    r.payout_type,
+    r.value,
+    ROUND(CASE
+      WHEN r.payout_type = 'percentage' THEN x.base * x.net_share * r.value / 100
+      ELSE r.value * bi.quantity * x.net_share
+    END, 2)
+  FROM public.bills b
+  JOIN public.visits v ON v.id = b.visit_id
+  JOIN public.bill_items bi ON bi.bill_id = b.id
+  JOIN public.doctor_payout_rules r ON r.doctor_id = p_doctor_id AND r.item_type = bi.item_type::TEXT
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(bi.taxable_value, bi.total_price - COALESCE(bi.cgst_amount, 0) - COALESCE(bi.sgst_amount, 0) - COALESCE(bi.igst_amount, 0)) AS base,
+      CASE WHEN b.total_amount > 0 THEN GREATEST(b.total_amount - b.credited_amount, 0) / b.total_amount ELSE 0 END AS net_share
+  ) x
+  WHERE b.clinic_id = v_clinic_id
+    AND v.doctor_id = p_doctor_id
+    AND b.status = 'paid'
+    AND b.voided_at IS NULL
+    AND b.bill_date < v_cutoff
+    AND NOT EXISTS (
+      SELECT 1 FROM public.doctor_settlement_items si
+      WHERE si.bill_item_id = bi.id AND si.entry_type = 'earning'
+    );
+
+  -- Refunds that came in after the bill's earnings were settled claw back a proportional share
+  INSERT INTO public.doctor_settlement_items (
+    clinic_id, settlement_id, entry_type, bill_id, payment_record_id, item_name, base_amount, payout_amount
+  )
+  SELECT
+    v_clinic_id,
+    v_settlement_id,
+    'adjustment',
+    b.id,
+    pr.id,
+    'Refund on ' || b.bill_number,
+    pr.amount,
+    -ROUND(settled.payout * LEAST(-pr.amount / b.total_amount, 1), 2)
+  FROM public.payment_records pr
+  JOIN public.bills b ON b.id = pr.bill_id
+  JOIN (
+    SELECT si.bill_id, SUM(si.payout_amount) AS payout, MAX(s.settled_at) AS settled_at
+    FROM public.doctor_settlement_items si
+    JOIN public.doctor_settlements s ON s.id = si.settlement_id
+    WHERE s.doctor_id = p_doctor_id
+      AND s.status = 'settled'
+      AND si.entry_type = 'earning'
+    GROUP BY si.bill_id
+  ) settled ON settled.bill_id = pr.bill_id
+  WHERE pr.clinic_id = v_clinic_id
+    AND pr.is_refund
+    AND pr.created_at > settled.settled_at
+    AND pr.payment_date < v_cutoff
+    AND b.total_amount > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM public.doctor_settlement_items si
+      WHERE si.payment_record_id = pr.id AND si.entry_type = 'adjustment'
+    );
+
+  UPDATE public.doctor_settlements s
+  SET earnings_amount = t.earnings,
+      adjustment_amount = t.adjustments,
+      net_payout = t.earnings + t.adjustments,
+      generated_by = (SELECT id FROM public.profiles WHERE id = auth.uid()),
+      generated_at = now()
+  FROM (
+    SELECT
+      COALESCE(SUM(payout_amount) FILTER (WHERE entry_type = 'earning'), 0) AS earnings,
+      COALESCE(SUM(payout_amount) FILTER (WHERE entry_type = 'adjustment'), 0) AS adjustments
+    FROM public.doctor_settlement_items
+    WHERE settlement_id = v_settlement_id
+  ) t
+  WHERE s.id = v_settlement_id;
+
+  RETURN v_settlement_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION settle_doctor_settlement(p_settlement_id UUID, p_reference TEXT DEFAULT NULL, p_notes TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.doctor_settlements
+  SET status = 'settled',
+      payment_reference = NULLIF(p_reference, ''),
+      notes = NULLIF(p_notes, ''),
+      settled_by = (SELECT id FROM public.profiles WHERE id = auth.uid()),
+      settled_at = now()
+  WHERE id = p_settlement_id
+    AND clinic_id = get_current_user_clinic_id()
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Settlement not found or already settled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
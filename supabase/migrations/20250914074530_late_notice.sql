@@ -0,0 +1,108 @@
+/*
+  # Overdue bills and payment reminders
+
+  1. Schema Updates
+    - `clinic_settings.enable_auto_payment_reminders` (boolean) - Send graded WhatsApp reminders for overdue bills
+    - `mark_overdue_bills(clinic_id)` marks unpaid bills whose due date has passed (in the clinic's timezone)
+      as overdue, and puts bills whose due date was moved back to pending or partial. Leave the clinic
+      out to update every clinic. Returns the number of bills changed.
+    - `refresh_bill_settlement` keeps a bill overdue when a part payment comes in after its due date
+    - Reminders are sent by the `send-scheduled-reminders` edge function, logged in `sent_messages_log`
+      with message type `payment_reminder` and dedupe key `payment_reminder:<bill_id>:<stage>`
+
+  2. Scheduling
+    - Mark bills overdue shortly after midnight, e.g. with pg_cron:
+        select cron.schedule('mark-overdue-bills', '5 0 * * *', 'select mark_overdue_bills()');
+      Times are UTC; the reminder function also refreshes a clinic's bills before sending.
+*/
+
+ALTER TABLE public.clinic_settings
+  ADD COLUMN IF NOT EXISTS enable_auto_payment_reminders BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_bills_clinic_status_due_date
+  ON public.bills(clinic_id, status, due_date);
+
+CREATE OR REPLACE FUNCTION mark_overdue_bills(p_clinic_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_changed INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT
+      b.id,
+      b.status,
+      b.paid_amount,
+      b.due_date IS NOT NULL
+        AND (b.due_date AT TIME ZONE COALESCE(cs.timezone, 'Asia/Kolkata'))::DATE
+          < (now() AT TIME ZONE COALESCE(cs.timezone, 'Asia/Kolkata'))::DATE AS past_due
+    FROM public.bills b
+    JOIN public.clinic_settings cs ON cs.id = b.clinic_id
+    WHERE (p_clinic_id IS NULL OR b.clinic_id = p_clinic_id)
+      AND b.status IN ('pending', 'partial', 'overdue')
+      AND b.voided_at IS NULL
+  ),
+  changed AS (
+    UPDATE public.bills b
+    SET status = CASE
+          WHEN due.past_due THEN 'overdue'::bill_payment_status_enum
+          WHEN due.paid_amount > 0 THEN 'partial'::bill_payment_status_enum
+          ELSE 'pending'::bill_payment_status_enum
+        END,
+        updated_at = now()
+    FROM due
+    WHERE b.id = due.id
+      AND (due.past_due <> (due.status = 'overdue'))
+    RETURNING b.id
+  )
+  SELECT COUNT(*) INTO v_changed FROM changed;
+
+  RETURN v_changed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as before, except that an unpaid bill past its due date stays overdue
+CREATE OR REPLACE FUNCTION refresh_bill_settlement(p_bill_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  total_paid NUMERIC;
+  total_credited NUMERIC;
+  bill_total NUMERIC;
+  bill_voided_at TIMESTAMP WITH TIME ZONE;
+  bill_past_due BOOLEAN;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO total_paid
+  FROM payment_records
+  WHERE bill_id = p_bill_id;
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO total_credited
+  FROM credit_notes
+  WHERE bill_id = p_bill_id;
+
+  SELECT
+    b.total_amount,
+    b.voided_at,
+    COALESCE(
+      (b.due_date AT TIME ZONE COALESCE(cs.timezone, 'Asia/Kolkata'))::DATE
+        < (now() AT TIME ZONE COALESCE(cs.timezone, 'Asia/Kolkata'))::DATE,
+      false
+    )
+  INTO bill_total, bill_voided_at, bill_past_due
+  FROM bills b
+  LEFT JOIN clinic_settings cs ON cs.id = b.clinic_id
+  WHERE b.id = p_bill_id;
+
+  UPDATE bills
+  SET
+    paid_amount = total_paid,
+    credited_amount = total_credited,
+    status = CASE
+      WHEN bill_voided_at IS NOT NULL THEN 'cancelled'::bill_payment_status_enum
+      WHEN total_paid >= bill_total - total_credited THEN 'paid'::bill_payment_status_enum
+      WHEN bill_past_due THEN 'overdue'::bill_payment_status_enum
+      WHEN total_paid > 0 THEN 'partial'::bill_payment_status_enum
+      ELSE 'pending'::bill_payment_status_enum
+    END,
+    updated_at = now()
+  WHERE id = p_bill_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,241 @@
+/*
+  # Cashier shifts
+
+  1. New Tables
+    - `cashier_shifts` - A cashier's spell at the counter, from opening float to counted close
+      - `cashier_id` (uuid) - Staff member whose payments the shift covers (`payment_records.received_by`)
+      - `opening_float` (numeric) - Cash in the drawer when the shift opened
+      - `closing_denominations` (jsonb) - Notes and coins counted at close, `{ "500": 4, "100": 12, ... }`
+      - `counted_cash` (numeric) - Total of the count
+      - `cash_received`, `cash_refunded`, `cash_deposits` (numeric) - Cash taken and paid out during the shift
+      - `expected_cash` (numeric) - Opening float + cash received + cash deposits - cash refunded
+      - `variance` (numeric) - Counted less expected; negative is a shortage
+      - `method_totals` (jsonb) - Everything taken during the shift by payment method, for the Z-report
+      - `status` (text) - open, closed or signed_off
+
+  2. Schema Updates
+    - A cashier can have only one open shift
+    - `get_cashier_shift_totals(shift_id)` sums the cashier's counter payments, refunds and advance deposits
+      between opening and closing (or now, while open). Payments settled from a deposit are left out as
+      no cash changes hands.
+    - `close_cashier_shift(shift_id, denominations, notes)` records the count and freezes the totals;
+      the cashier or a supervisor may close a shift
+    - `sign_off_cashier_shift(shift_id, notes)` lets a supervisor (manage_billing) other than the cashier
+      sign off a closed shift; a note is required when the count does not match
+
+  3. Security
+    - Enable RLS on `cashier_shifts`
+    - Users can see shifts from their clinic and open their own; closing and signing off only go through
+      `close_cashier_shift` and `sign_off_cashier_shift`, so a count or sign-off can't be edited afterwards
+*/
+
+CREATE TABLE IF NOT EXISTS public.cashier_shifts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    clinic_id UUID NOT NULL REFERENCES public.clinic_settings(id) ON DELETE CASCADE,
+    cashier_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    opening_float NUMERIC NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+    opening_notes TEXT,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'signed_off')),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    closed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    closing_denominations JSONB,
+    counted_cash NUMERIC,
+    cash_received NUMERIC,
+    cash_refunded NUMERIC,
+    cash_deposits NUMERIC,
+    expected_cash NUMERIC,
+    variance NUMERIC,
+    method_totals JSONB,
+    closing_notes TEXT,
+    signed_off_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    signed_off_at TIMESTAMP WITH TIME ZONE,
+    sign_off_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cashier_shifts_clinic_id
+  ON public.cashier_shifts(clinic_id, opened_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cashier_shifts_one_open
+  ON public.cashier_shifts(cashier_id) WHERE status = 'open';
+
+ALTER TABLE public.cashier_shifts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view cashier shifts from their clinic" ON public.cashier_shifts;
+CREATE POLICY "Users can view cashier shifts from their clinic"
+ON public.cashier_shifts
+FOR SELECT
+TO authenticated
+USING (clinic_id = get_current_user_clinic_id());
+
+DROP POLICY IF EXISTS "Users can open their own cashier shift" ON public.cashier_shifts;
+CREATE POLICY "Users can open their own cashier shift"
+ON public.cashier_shifts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  clinic_id = get_current_user_clinic_id()
+  AND cashier_id = auth.uid()
+  AND status = 'open'
+  AND closed_at IS NULL
+  AND signed_off_at IS NULL
+);
+
+CREATE OR REPLACE FUNCTION get_cashier_shift_totals(p_shift_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_shift public.cashier_shifts%ROWTYPE;
+  v_end TIMESTAMP WITH TIME ZONE;
+  v_totals JSONB;
+BEGIN
+  SELECT * INTO v_shift FROM public.cashier_shifts
+  WHERE id = p_shift_id AND clinic_id = get_current_user_clinic_id();
+
+  IF v_shift.id IS NULL THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  v_end := COALESCE(v_shift.closed_at, now());
+
+  WITH payments AS (
+    SELECT pr.payment_method::TEXT AS payment_method, pr.amount, pr.is_refund
+    FROM public.payment_records pr
+    WHERE pr.clinic_id = v_shift.clinic_id
+      AND pr.received_by = v_shift.cashier_id
+      AND pr.payment_date >= v_shift.opened_at
+      AND pr.payment_date < v_end
+      AND NOT pr.paid_from_deposit
+  ),
+  deposits AS (
+    SELECT d.payment_method, d.amount
+    FROM public.patient_deposits d
+    WHERE d.clinic_id = v_shift.clinic_id
+      AND d.received_by = v_shift.cashier_id
+      AND d.deposit_date >= v_shift.opened_at
+      AND d.deposit_date < v_end
+  ),
+  by_method AS (
+    SELECT m.payment_method, SUM(m.amount) AS total
+    FROM (
+      SELECT payment_method, amount FROM payments
+      UNION ALL
+      SELECT payment_method, amount FROM deposits
+    ) m
+    GROUP BY m.payment_method
+  )
+  SELECT jsonb_build_object(
+    'cash_received', (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE payment_method = 'cash' AND NOT is_refund),
+    'cash_refunded', (SELECT COALESCE(-SUM(amount), 0) FROM payments WHERE payment_method = 'cash' AND is_refund),
+    'cash_deposits', (SELECT COALESCE(SUM(amount), 0) FROM deposits WHERE payment_method = 'cash'),
+    'payment_count', (SELECT COUNT(*) FROM payments WHERE NOT is_refund),
+    'refund_count', (SELECT COUNT(*) FROM payments WHERE is_refund),
+    'deposit_count', (SELECT COUNT(*) FROM deposits),
+    'method_totals', (SELECT COALESCE(jsonb_object_agg(payment_method, total), '{}'::jsonb) FROM by_method)
+  ) INTO v_totals;
+
+  RETURN v_totals;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION close_cashier_shift(p_shift_id UUID, p_denominations JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_shift public.cashier_shifts%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_totals JSONB;
+  v_counted NUMERIC;
+  v_expected NUMERIC;
+BEGIN
+  SELECT * INTO v_profile FROM public.profiles WHERE id = auth.uid();
+
+  SELECT * INTO v_shift FROM public.cashier_shifts
+  WHERE id = p_shift_id AND clinic_id = get_current_user_clinic_id()
+  FOR UPDATE;
+
+  IF v_shift.id IS NULL THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION 'This shift has already been closed';
+  END IF;
+
+  IF v_shift.cashier_id IS DISTINCT FROM v_profile.id AND NOT (COALESCE(v_profile.permissions, '{}') && ARRAY['manage_billing', 'all']) THEN
+    RAISE EXCEPTION 'Only the cashier or a supervisor can close this shift';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_each_text(COALESCE(p_denominations, '{}'::jsonb))
+    WHERE key !~ '^[0-9]+(\.[0-9]+)?$' OR value !~ '^[0-9]+$'
+  ) THEN
+    RAISE EXCEPTION 'Denomination counts must be whole numbers';
+  END IF;
+
+  SELECT COALESCE(SUM(key::NUMERIC * value::NUMERIC), 0) INTO v_counted
+  FROM jsonb_each_text(COALESCE(p_denominations, '{}'::jsonb));
+
+  -- Totals run up to now(), which is also the closing time recorded below
+  v_totals := get_cashier_shift_totals(p_shift_id);
+  v_expected := v_shift.opening_float
+    + (v_totals->>'cash_received')::NUMERIC
+    + (v_totals->>'cash_deposits')::NUMERIC
+    - (v_totals->>'cash_refunded')::NUMERIC;
+
+  UPDATE public.cashier_shifts
+  SET status = 'closed',
+      closed_at = now(),
+      closed_by = v_profile.id,
+      closing_denominations = COALESCE(p_denominations, '{}'::jsonb),
+      counted_cash = v_counted,
+      cash_received = (v_totals->>'cash_received')::NUMERIC,
+      cash_refunded = (v_totals->>'cash_refunded')::NUMERIC,
+      cash_deposits = (v_totals->>'cash_deposits')::NUMERIC,
+      expected_cash = v_expected,
+      variance = v_counted - v_expected,
+      method_totals = v_totals->'method_totals',
+      closing_notes = NULLIF(p_notes, '')
+  WHERE id = p_shift_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sign_off_cashier_shift(p_shift_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_shift public.cashier_shifts%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO v_profile FROM public.profiles WHERE id = auth.uid();
+
+  SELECT * INTO v_shift FROM public.cashier_shifts
+  WHERE id = p_shift_id AND clinic_id = get_current_user_clinic_id()
+  FOR UPDATE;
+
+  IF v_shift.id IS NULL THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF v_shift.status <> 'closed' THEN
+    RAISE EXCEPTION 'Only closed shifts can be signed off';
+  END IF;
+
+  IF NOT (COALESCE(v_profile.permissions, '{}') && ARRAY['manage_billing', 'all']) THEN
+    RAISE EXCEPTION 'Only a supervisor can sign off a shift';
+  END IF;
+
+  IF v_shift.cashier_id = v_profile.id THEN
+    RAISE EXCEPTION 'A shift must be signed off by someone other than its cashier';
+  END IF;
+
+  IF v_shift.variance <> 0 AND NULLIF(trim(COALESCE(p_notes, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Add a note explaining the variance before signing off';
+  END IF;
+
+  UPDATE public.cashier_shifts
+  SET status = 'signed_off',
+      signed_off_by = v_profile.id,
+      signed_off_at = now(),
+      sign_off_notes = NULLIF(trim(COALESCE(p_notes, '')), '')
+  WHERE id = p_shift_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,19 @@
+/*
+  # Idempotent offline sync
+
+  1. Schema Updates
+    - `visits.client_reference`, `payment_records.client_reference` (text) - Id the device gave a visit or
+      payment recorded while offline. Unique per clinic, so a replay whose response was lost on the way back
+      is rejected instead of saving the visit or payment a second time.
+*/
+
+ALTER TABLE public.visits ADD COLUMN IF NOT EXISTS client_reference TEXT;
+ALTER TABLE public.payment_records ADD COLUMN IF NOT EXISTS client_reference TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_visits_client_reference
+  ON public.visits(clinic_id, client_reference)
+  WHERE client_reference IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_records_client_reference
+  ON public.payment_records(clinic_id, client_reference)
+  WHERE client_reference IS NOT NULL;